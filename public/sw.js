@@ -0,0 +1,119 @@
+/*
+  Service worker for offline use.
+
+  - The app shell (index.html, icons, manifest) is cached on install, and built
+    assets under /assets/ as they load, so the app opens without a connection
+  - Listing and saved-property reads from Supabase are network-first with a
+    cached fallback, which keeps recently viewed listings and saved properties
+    available offline
+  - Listing photos are cached as they're viewed
+  - Bump VERSION to drop every cache on the next deploy
+*/
+
+const VERSION = 'v1';
+const SHELL_CACHE = `lna-shell-${VERSION}`;
+const ASSET_CACHE = `lna-assets-${VERSION}`;
+const DATA_CACHE = `lna-data-${VERSION}`;
+const IMAGE_CACHE = `lna-images-${VERSION}`;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/favicon.ico', '/icon-192.png', '/icon-512.png', '/placeholder.svg'];
+
+// Supabase tables whose reads are kept for offline viewing
+const OFFLINE_TABLES = ['/rest/v1/properties', '/rest/v1/saved_properties'];
+
+const MAX_DATA_ENTRIES = 60;
+const MAX_IMAGE_ENTRIES = 150;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, ASSET_CACHE, DATA_CACHE, IMAGE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cached account data is dropped when someone signs out
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'CLEAR_OFFLINE_DATA') {
+    event.waitUntil(caches.delete(DATA_CACHE));
+  }
+});
+
+// Keep a cache to its newest entries
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+const networkFirst = async (request, cacheName, maxEntries) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.delete(request);
+      await cache.put(request, response.clone());
+      trimCache(cacheName, maxEntries);
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+    if (maxEntries) trimCache(cacheName, maxEntries);
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Single-page app: any page falls back to the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/index.html').then((cached) => cached || caches.match('/')))
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(cacheFirst(request, ASSET_CACHE));
+    } else if (SHELL_URLS.includes(url.pathname)) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE));
+    }
+    return;
+  }
+
+  if (OFFLINE_TABLES.some((path) => url.pathname === path)) {
+    event.respondWith(networkFirst(request, DATA_CACHE, MAX_DATA_ENTRIES));
+    return;
+  }
+
+  if (url.pathname.startsWith('/storage/v1/object/public/')) {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGE_ENTRIES));
+  }
+});
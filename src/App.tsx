@@ -1,8 +1,9 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
+import OfflineIndicator from "@/components/OfflineIndicator";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate, useParams } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useLocation, useParams } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import ErrorBoundary from "@/components/ErrorBoundary";
@@ -10,11 +11,14 @@ import LoadingSpinner from "@/components/LoadingSpinner";
 import LandingPage from "./pages/LandingPage";
 import Login from "./pages/Login";
 import AdminLogin from "./pages/AdminLogin";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
 import LandlordDashboard from "./pages/LandlordDashboard";
 import NewListing from "./pages/NewListing";
 import PropertyDetail from "./pages/PropertyDetail";
 import PropertyChat from "./pages/PropertyChat";
 import AdminPanel from "./pages/AdminPanel";
+import AdminMfa from "./pages/AdminMfa";
 import AccountSettings from "./pages/AccountSettings";
 import NotFound from "./pages/NotFound";
 import SavedProperties from "./pages/SavedProperties";
@@ -27,11 +31,12 @@ import RenterPropertyDetail from './pages/RenterPropertyDetail';
 import EditProperty from './pages/EditProperty';
 import ApplicationManagement from './pages/ApplicationManagement';
 import PaymentSuccess from '@/pages/PaymentSuccess';
-import DemoPaymentGateway from '@/components/DemoPaymentGateway';
+import PaymentCheckout from '@/components/PaymentCheckout';
 import { useEffect, useState } from "react";
 import { supabase } from "@/lib/supabase";
 import RenterDashboard from './pages/RenterDashboard';
 import MyApplications from './pages/MyApplications';
+import MaintenanceRequests from './pages/MaintenanceRequests';
 import Analytics from './pages/Analytics';
 
 const queryClient = new QueryClient({
@@ -110,7 +115,7 @@ function PaymentGatewayWrapper() {
   }
 
   return (
-    <DemoPaymentGateway
+    <PaymentCheckout
       applicationId={applicationId!}
       propertyId={paymentDetails.propertyId}
       amount={paymentDetails.amount}
@@ -118,6 +123,16 @@ function PaymentGatewayWrapper() {
   );
 }
 
+// Reset links can land on any page (e.g. when the redirect URL isn't allow-listed),
+// so send people on to choose their new password
+function PasswordRecoveryRedirect() {
+  const { isPasswordRecovery } = useAuth();
+  const location = useLocation();
+
+  if (!isPasswordRecovery || location.pathname === '/reset-password') return null;
+  return <Navigate to="/reset-password" replace />;
+}
+
 function AppContent() {
   const { user, loading, hasRole, primaryRole } = useAuth();
 
@@ -134,9 +149,12 @@ function AppContent() {
 
   return (
     <BrowserRouter>
+      <PasswordRecoveryRedirect />
       <Routes>
         <Route path="/login" element={<Login />} />
         <Route path="/admin/login" element={<AdminLogin />} />
+        <Route path="/forgot-password" element={<ForgotPassword />} />
+        <Route path="/reset-password" element={<ResetPassword />} />
         <Route path="/contact" element={<Contact />} />
         <Route path="/properties" element={<Properties />} />
         <Route path="/landing" element={<LandingPage />} />
@@ -175,6 +193,14 @@ function AppContent() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/maintenance"
+          element={
+            <ProtectedRoute>
+              <MaintenanceRequests />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/saved-properties"
           element={
@@ -267,7 +293,7 @@ function AppContent() {
         <Route
           path="/admin"
           element={
-            <ProtectedRoute allowedRoles={["admin"]}>
+            <ProtectedRoute permission="analytics.view">
               <AdminPanel />
             </ProtectedRoute>
           }
@@ -283,7 +309,47 @@ function AppContent() {
         <Route
           path="/admin/properties"
           element={
-            <ProtectedRoute allowedRoles={["admin"]}>
+            <ProtectedRoute permission="listings.review">
+              <AdminPanel />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/users"
+          element={
+            <ProtectedRoute permission="users.view">
+              <AdminPanel />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/conversations"
+          element={
+            <ProtectedRoute permission="chats.read">
+              <AdminPanel />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/payments"
+          element={
+            <ProtectedRoute permission="payments.view">
+              <AdminPanel />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/analytics"
+          element={
+            <ProtectedRoute permission="analytics.view">
+              <AdminPanel />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/verifications"
+          element={
+            <ProtectedRoute permission="verifications.review">
               <AdminPanel />
             </ProtectedRoute>
           }
@@ -291,7 +357,7 @@ function AppContent() {
         <Route
           path="/admin/database"
           element={
-            <ProtectedRoute allowedRoles={["admin"]}>
+            <ProtectedRoute permission="database.manage">
               <AdminPanel />
             </ProtectedRoute>
           }
@@ -299,11 +365,35 @@ function AppContent() {
         <Route
           path="/admin/settings"
           element={
-            <ProtectedRoute allowedRoles={["admin"]}>
+            <ProtectedRoute permission="settings.manage">
+              <AdminPanel />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/security"
+          element={
+            <ProtectedRoute staffOnly>
+              <AdminPanel />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/audit-log"
+          element={
+            <ProtectedRoute permission="audit_log.view">
               <AdminPanel />
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/admin/mfa"
+          element={
+            <ProtectedRoute staffOnly requireMfa={false}>
+              <AdminMfa />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/account"
           element={
@@ -335,6 +425,7 @@ const App = () => (
           <AppContent />
           <Toaster />
           <Sonner />
+          <OfflineIndicator />
         </TooltipProvider>
       </AuthProvider>
     </QueryClientProvider>
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import LocationPinMap from '@/components/LocationPinMap';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import { NIGERIAN_STATES, getAreas, getLgas } from '@/utils/nigeriaGazetteer';
+import { Coordinates, GeocodingService, PropertyAddress } from '@/services/geocodingService';
+import { Crosshair, MapPin } from 'lucide-react';
+
+interface AddressPickerProps {
+  value: PropertyAddress;
+  onChange: (address: PropertyAddress) => void;
+}
+
+const PIN_SOURCE_LABELS: Record<string, string> = {
+  manual: 'You placed this pin',
+  device: 'Pinned from your current location',
+  gazetteer: 'Approximate pin from the area name - drag it to the exact spot',
+};
+
+const AddressPicker = ({ value, onChange }: AddressPickerProps) => {
+  const { toast } = useToast();
+  const [locating, setLocating] = useState(false);
+  const lgas = value.state ? getLgas(value.state) : [];
+  const areas = value.state ? getAreas(value.state, value.lga || undefined) : [];
+  const pin = value.latitude != null && value.longitude != null
+    ? { latitude: value.latitude, longitude: value.longitude }
+    : null;
+
+  const update = (changes: Partial<PropertyAddress>) => onChange({ ...value, ...changes });
+
+  const handleFindOnMap = async () => {
+    setLocating(true);
+    try {
+      const result = await GeocodingService.geocodeAddress(value);
+      update({
+        lga: value.lga || result.lga,
+        area: value.area || result.area,
+        latitude: result.latitude,
+        longitude: result.longitude,
+        geocode_source: result.source,
+        geocoded_at: null,
+      });
+    } catch (error) {
+      handleError(error, toast, 'Could not find this address', { context: 'AddressPicker' });
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleUseMyLocation = async () => {
+    setLocating(true);
+    try {
+      const coordinates = await GeocodingService.getCurrentPosition();
+      const described = GeocodingService.describeCoordinates(coordinates);
+      update({
+        state: described.state || value.state,
+        lga: described.lga || value.lga,
+        area: described.area || value.area,
+        ...coordinates,
+        geocode_source: 'device',
+        geocoded_at: null,
+      });
+    } catch (error) {
+      handleError(error, toast, 'Could not get your location', { context: 'AddressPicker' });
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handlePinMoved = (coordinates: Coordinates) => {
+    update({ ...coordinates, geocode_source: 'manual', geocoded_at: null });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>State *</Label>
+          <Select
+            value={value.state || undefined}
+            // A new state invalidates the LGA, area and pin
+            onValueChange={(state) => update({ state, lga: '', area: '', latitude: null, longitude: null, geocode_source: null, geocoded_at: null })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a state" />
+            </SelectTrigger>
+            <SelectContent>
+              {NIGERIAN_STATES.map(state => (
+                <SelectItem key={state} value={state}>{state}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="address-lga">LGA</Label>
+          <Input
+            id="address-lga"
+            list="address-lga-options"
+            placeholder={value.state ? 'e.g., Eti-Osa' : 'Select a state first'}
+            disabled={!value.state}
+            value={value.lga || ''}
+            onChange={(e) => update({ lga: e.target.value })}
+          />
+          <datalist id="address-lga-options">
+            {lgas.map(lga => <option key={lga} value={lga} />)}
+          </datalist>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="address-area">Area / Neighbourhood</Label>
+          <Input
+            id="address-area"
+            list="address-area-options"
+            placeholder="e.g., Lekki Phase 1"
+            disabled={!value.state}
+            value={value.area || ''}
+            onChange={(e) => update({ area: e.target.value })}
+          />
+          <datalist id="address-area-options">
+            {areas.map(area => <option key={area} value={area} />)}
+          </datalist>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="address-line">Street Address</Label>
+        <Input
+          id="address-line"
+          placeholder="e.g., 12 Admiralty Way"
+          value={value.address_line || ''}
+          onChange={(e) => update({ address_line: e.target.value })}
+        />
+        <p className="text-xs text-gray-500">Helps place the pin accurately. Leave it out if you'd rather share it with renters later.</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" onClick={handleFindOnMap} disabled={locating || !value.state}>
+          <MapPin className="w-4 h-4 mr-2" />
+          Find on map
+        </Button>
+        <Button type="button" variant="outline" onClick={handleUseMyLocation} disabled={locating}>
+          <Crosshair className="w-4 h-4 mr-2" />
+          Use my location
+        </Button>
+      </div>
+
+      <LocationPinMap value={pin} onChange={handlePinMoved} />
+      <p className="text-xs text-gray-500">
+        {pin
+          ? PIN_SOURCE_LABELS[value.geocode_source || 'manual'] || 'Pinned by address lookup - drag it to adjust'
+          : 'Click the map or use "Find on map" to place the property. Listings with a pin show up in map and near-me searches.'}
+      </p>
+    </div>
+  );
+};
+
+export default AddressPicker;
@@ -7,47 +7,67 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Slider } from '@/components/ui/slider';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Search, SlidersHorizontal } from 'lucide-react';
+import { PropertyType } from '@/integrations/supabase/types';
+import {
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  PropertySearchFilters,
+  PropertySearchSort,
+  SEARCH_PRICE_CEILING,
+  SEARCH_SORT_LABELS,
+  parsePriceRange,
+  parseRoomFilter,
+} from '@/services/propertySearchService';
 
 interface SearchFilters {
   location: string;
+  propertyType: PropertyType | 'all';
   minPrice: number;
   maxPrice: number;
   bedrooms: string;
   bathrooms: string;
-  sortBy: string;
+  sortBy: PropertySearchSort;
 }
 
 interface AdvancedSearchProps {
-  onSearch: (filters: SearchFilters) => void;
+  onSearch: (filters: PropertySearchFilters) => void;
   isOpen: boolean;
   onToggle: () => void;
 }
 
+const DEFAULT_FILTERS: SearchFilters = {
+  location: '',
+  propertyType: 'all',
+  minPrice: 0,
+  maxPrice: SEARCH_PRICE_CEILING,
+  bedrooms: 'all',
+  bathrooms: 'all',
+  sortBy: 'newest'
+};
+
+const toSearchFilters = (filters: SearchFilters): PropertySearchFilters => {
+  const bedrooms = parseRoomFilter(filters.bedrooms);
+  return {
+    location: filters.location || undefined,
+    propertyType: filters.propertyType === 'all' ? undefined : filters.propertyType,
+    ...parsePriceRange([filters.minPrice, filters.maxPrice]),
+    minBedrooms: bedrooms.min,
+    maxBedrooms: bedrooms.max,
+    minBathrooms: parseRoomFilter(filters.bathrooms).min,
+    sortBy: filters.sortBy,
+  };
+};
+
 const AdvancedSearch = ({ onSearch, isOpen, onToggle }: AdvancedSearchProps) => {
-  const [filters, setFilters] = useState<SearchFilters>({
-    location: '',
-    minPrice: 0,
-    maxPrice: 10000,
-    bedrooms: '',
-    bathrooms: '',
-    sortBy: 'newest'
-  });
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
 
   const handleSearch = () => {
-    onSearch(filters);
+    onSearch(toSearchFilters(filters));
   };
 
   const handleReset = () => {
-    const resetFilters: SearchFilters = {
-      location: '',
-      minPrice: 0,
-      maxPrice: 10000,
-      bedrooms: '',
-      bathrooms: '',
-      sortBy: 'newest'
-    };
-    setFilters(resetFilters);
-    onSearch(resetFilters);
+    setFilters(DEFAULT_FILTERS);
+    onSearch(toSearchFilters(DEFAULT_FILTERS));
   };
 
   if (!isOpen) {
@@ -81,6 +101,24 @@ const AdvancedSearch = ({ onSearch, isOpen, onToggle }: AdvancedSearchProps) =>
             />
           </div>
           
+          <div>
+            <Label htmlFor="propertyType">Property Type</Label>
+            <Select
+              value={filters.propertyType}
+              onValueChange={(value) => setFilters({ ...filters, propertyType: value as SearchFilters['propertyType'] })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Any" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any</SelectItem>
+                {PROPERTY_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div>
             <Label htmlFor="bedrooms">Bedrooms</Label>
             <Select value={filters.bedrooms} onValueChange={(value) => setFilters({ ...filters, bedrooms: value })}>
@@ -88,7 +126,7 @@ const AdvancedSearch = ({ onSearch, isOpen, onToggle }: AdvancedSearchProps) =>
                 <SelectValue placeholder="Any" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="">Any</SelectItem>
+                <SelectItem value="all">Any</SelectItem>
                 <SelectItem value="1">1+</SelectItem>
                 <SelectItem value="2">2+</SelectItem>
                 <SelectItem value="3">3+</SelectItem>
@@ -105,7 +143,7 @@ const AdvancedSearch = ({ onSearch, isOpen, onToggle }: AdvancedSearchProps) =>
                 <SelectValue placeholder="Any" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="">Any</SelectItem>
+                <SelectItem value="all">Any</SelectItem>
                 <SelectItem value="1">1+</SelectItem>
                 <SelectItem value="2">2+</SelectItem>
                 <SelectItem value="3">3+</SelectItem>
@@ -116,14 +154,17 @@ const AdvancedSearch = ({ onSearch, isOpen, onToggle }: AdvancedSearchProps) =>
         </div>
 
         <div>
-          <Label>Price Range: ${filters.minPrice} - ${filters.maxPrice}</Label>
+          <Label>
+            Price Range: ₦{filters.minPrice.toLocaleString()} - ₦{filters.maxPrice.toLocaleString()}
+            {filters.maxPrice >= SEARCH_PRICE_CEILING && '+'} / year
+          </Label>
           <div className="mt-2">
             <Slider
               value={[filters.minPrice, filters.maxPrice]}
               onValueChange={(value) => setFilters({ ...filters, minPrice: value[0], maxPrice: value[1] })}
-              max={10000}
+              max={SEARCH_PRICE_CEILING}
               min={0}
-              step={100}
+              step={50000}
               className="w-full"
             />
           </div>
@@ -131,15 +172,16 @@ const AdvancedSearch = ({ onSearch, isOpen, onToggle }: AdvancedSearchProps) =>
 
         <div>
           <Label htmlFor="sortBy">Sort By</Label>
-          <Select value={filters.sortBy} onValueChange={(value) => setFilters({ ...filters, sortBy: value })}>
+          <Select value={filters.sortBy} onValueChange={(value) => setFilters({ ...filters, sortBy: value as PropertySearchSort })}>
             <SelectTrigger>
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="newest">Newest First</SelectItem>
-              <SelectItem value="oldest">Oldest First</SelectItem>
-              <SelectItem value="price-low">Price: Low to High</SelectItem>
-              <SelectItem value="price-high">Price: High to Low</SelectItem>
+              {(Object.keys(SEARCH_SORT_LABELS) as PropertySearchSort[])
+                .filter(sort => sort !== 'relevance' && sort !== 'distance')
+                .map(sort => (
+                  <SelectItem key={sort} value={sort}>{SEARCH_SORT_LABELS[sort]}</SelectItem>
+                ))}
             </SelectContent>
           </Select>
         </div>
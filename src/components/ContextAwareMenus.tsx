@@ -52,6 +52,9 @@ import {
   BarChart3
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import ScheduleTourDialog from '@/components/ScheduleTourDialog';
+import ReportPropertyDialog from '@/components/ReportPropertyDialog';
+import { NotificationService, Notification } from '@/services/notificationService';
 
 // Property Context Menu
 export const PropertyContextMenu = ({ 
@@ -77,6 +80,8 @@ export const PropertyContextMenu = ({
 }) => {
   const { hasRole } = useAuth();
   const navigate = useNavigate();
+  const [showTourDialog, setShowTourDialog] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
 
   // Generate context-aware menu items based on user type and property state
   const menuItems = useMemo(() => {
@@ -100,7 +105,8 @@ export const PropertyContextMenu = ({
         {
           label: 'Schedule Tour',
           icon: Calendar,
-          action: () => onScheduleTour?.(property.id),
+          // Book through the built-in scheduler unless the parent handles it
+          action: () => onScheduleTour ? onScheduleTour(property.id) : setShowTourDialog(true),
           className: 'text-purple-600'
         },
         {
@@ -165,7 +171,7 @@ export const PropertyContextMenu = ({
       {
         label: 'Report Property',
         icon: Flag,
-        action: () => onReport?.(property.id),
+        action: () => onReport ? onReport(property.id) : setShowReportDialog(true),
         className: 'text-red-600'
       }
     );
@@ -174,53 +180,71 @@ export const PropertyContextMenu = ({
   }, [property, isSaved, userType, hasRole, onSave, onUnsave, onContact, onScheduleTour, onShare, onReport]);
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-          <MoreVertical className="h-4 w-4" />
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-56">
-        <DropdownMenuLabel>Property Options</DropdownMenuLabel>
-        <DropdownMenuSeparator />
-        
-        {menuItems.map((item, index) => {
-          if (item.type === 'separator') {
-            return <DropdownMenuSeparator key={index} />;
-          }
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Property Options</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          
+          {menuItems.map((item, index) => {
+            if (item.type === 'separator') {
+              return <DropdownMenuSeparator key={index} />;
+            }
+
+            if (item.submenu) {
+              return (
+                <DropdownMenuSub key={index}>
+                  <DropdownMenuSubTrigger>
+                    <item.icon className="mr-2 h-4 w-4" />
+                    <span>{item.label}</span>
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {item.submenu.map((subItem: any, subIndex: number) => (
+                      <DropdownMenuItem key={subIndex} onClick={subItem.action}>
+                        <subItem.icon className="mr-2 h-4 w-4" />
+                        <span>{subItem.label}</span>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              );
+            }
 
-          if (item.submenu) {
             return (
-              <DropdownMenuSub key={index}>
-                <DropdownMenuSubTrigger>
-                  <item.icon className="mr-2 h-4 w-4" />
-                  <span>{item.label}</span>
-                </DropdownMenuSubTrigger>
-                <DropdownMenuSubContent>
-                  {item.submenu.map((subItem: any, subIndex: number) => (
-                    <DropdownMenuItem key={subIndex} onClick={subItem.action}>
-                      <subItem.icon className="mr-2 h-4 w-4" />
-                      <span>{subItem.label}</span>
-                    </DropdownMenuItem>
-                  ))}
-                </DropdownMenuSubContent>
-              </DropdownMenuSub>
+              <DropdownMenuItem
+                key={index}
+                onClick={item.action}
+                className={item.className}
+              >
+                <item.icon className="mr-2 h-4 w-4" />
+                <span>{item.label}</span>
+              </DropdownMenuItem>
             );
-          }
-
-          return (
-            <DropdownMenuItem
-              key={index}
-              onClick={item.action}
-              className={item.className}
-            >
-              <item.icon className="mr-2 h-4 w-4" />
-              <span>{item.label}</span>
-            </DropdownMenuItem>
-          );
-        })}
-      </DropdownMenuContent>
-    </DropdownMenu>
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {!onScheduleTour && (
+        <ScheduleTourDialog
+          propertyId={property.id}
+          propertyTitle={property.title}
+          open={showTourDialog}
+          onOpenChange={setShowTourDialog}
+        />
+      )}
+      {!onReport && (
+        <ReportPropertyDialog
+          propertyId={property.id}
+          propertyTitle={property.title}
+          open={showReportDialog}
+          onOpenChange={setShowReportDialog}
+        />
+      )}
+    </>
   );
 };
 
@@ -371,7 +395,7 @@ export const SortFilterMenu = ({
 };
 
 // Location-aware Quick Actions
-export const LocationQuickActions = ({ userLocation, nearbyPlaces }: { userLocation?: string; nearbyPlaces?: any[] }) => {
+export const LocationQuickActions = ({ nearbyPlaces }: { nearbyPlaces?: any[] }) => {
   const navigate = useNavigate();
 
   const quickActions = useMemo(() => {
@@ -379,8 +403,9 @@ export const LocationQuickActions = ({ userLocation, nearbyPlaces }: { userLocat
       {
         label: 'Properties Near Me',
         icon: Compass,
-        action: () => navigate(`/properties?location=${userLocation}&radius=5km`),
-        available: !!userLocation
+        // Properties asks for the device's position and runs a radius search
+        action: () => navigate('/properties?near=me&radius=5'),
+        available: 'geolocation' in navigator
       },
       {
         label: 'Popular Areas',
@@ -403,7 +428,7 @@ export const LocationQuickActions = ({ userLocation, nearbyPlaces }: { userLocat
     ];
 
     return actions.filter(action => action.available);
-  }, [userLocation, navigate]);
+  }, [navigate]);
 
   return (
     <Card className="p-4">
@@ -455,11 +480,34 @@ export const UserStateMenu = () => {
   const location = useLocation();
   const navigate = useNavigate();
   
-  const [notifications, setNotifications] = useState([
-    { id: '1', type: 'message', title: 'New message from John', read: false },
-    { id: '2', type: 'tour', title: 'Tour reminder for tomorrow', read: false },
-    { id: '3', type: 'price', title: 'Price drop on saved property', read: true }
-  ]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  // Load the latest notifications and keep them live
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    NotificationService.getUserNotifications(profile.id, 10)
+      .then(setNotifications)
+      .catch(() => setNotifications([]));
+
+    const channel = NotificationService.subscribeToNotifications(profile.id, (notification) => {
+      setNotifications(prev => [notification, ...prev].slice(0, 10));
+    });
+
+    return () => {
+      NotificationService.unsubscribeFromNotifications(channel);
+    };
+  }, [profile?.id]);
+
+  const handleNotificationClick = async (notification: Notification) => {
+    if (!notification.read) {
+      setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read: true } : n)));
+      NotificationService.markAsRead(notification.id).catch(() => undefined);
+    }
+    if (notification.action_url) {
+      navigate(notification.action_url);
+    }
+  };
 
   const contextualItems = useMemo(() => {
     const items = [];
@@ -549,15 +597,19 @@ export const UserStateMenu = () => {
           ) : (
             <div className="max-h-64 overflow-y-auto">
               {notifications.map((notification) => (
-                <DropdownMenuItem key={notification.id} className="p-3">
+                <DropdownMenuItem
+                  key={notification.id}
+                  className="p-3"
+                  onClick={() => handleNotificationClick(notification)}
+                >
                   <div className="flex items-start space-x-3 w-full">
                     <div className={`p-1 rounded-full ${
                       notification.type === 'message' ? 'bg-blue-100' :
-                      notification.type === 'tour' ? 'bg-green-100' : 'bg-yellow-100'
+                      notification.type.startsWith('booking_') ? 'bg-green-100' : 'bg-yellow-100'
                     }`}>
                       {notification.type === 'message' ? (
                         <MessageCircle className="w-4 h-4 text-blue-600" />
-                      ) : notification.type === 'tour' ? (
+                      ) : notification.type.startsWith('booking_') ? (
                         <Calendar className="w-4 h-4 text-green-600" />
                       ) : (
                         <AlertCircle className="w-4 h-4 text-yellow-600" />
@@ -567,6 +619,7 @@ export const UserStateMenu = () => {
                       <p className={`text-sm ${!notification.read ? 'font-medium' : ''}`}>
                         {notification.title}
                       </p>
+                      <p className="text-xs text-gray-500 line-clamp-2">{notification.message}</p>
                       {!notification.read && (
                         <div className="w-2 h-2 bg-blue-600 rounded-full mt-1" />
                       )}
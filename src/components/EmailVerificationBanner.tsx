@@ -0,0 +1,25 @@
+import { MailWarning } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import ResendVerificationButton from "@/components/ResendVerificationButton";
+
+// Reminds signed-in users who haven't confirmed their email address yet
+const EmailVerificationBanner = () => {
+  const { user } = useAuth();
+
+  if (!user?.email || user.email_confirmed_at) return null;
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 px-4 py-3">
+      <div className="max-w-7xl mx-auto flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-amber-900">
+        <MailWarning className="w-5 h-5 flex-shrink-0 text-amber-600" />
+        <p className="flex-1">
+          Please verify your email address. We sent a confirmation link to <strong>{user.email}</strong>;
+          you'll need it to recover your account if you forget your password.
+        </p>
+        <ResendVerificationButton email={user.email} className="border-amber-300 bg-white hover:bg-amber-100" />
+      </div>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
@@ -25,37 +25,87 @@ import {
   Shield,
   Sun
 } from 'lucide-react';
+import { PropertyType } from '@/integrations/supabase/types';
+import {
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  PropertySearchFilters,
+  PropertySearchSort,
+  SEARCH_PRICE_CEILING,
+  SEARCH_SORT_LABELS,
+  parsePriceRange,
+  parseRoomFilter,
+} from '@/services/propertySearchService';
+import { GazetteerPlace, GazetteerPlaceType, searchPlaces } from '@/utils/nigeriaGazetteer';
 
 interface SearchFilters {
   location: string;
   priceRange: [number, number];
   bedrooms: string;
   bathrooms: string;
-  propertyType: string;
+  propertyType: PropertyType | 'all';
   amenities: string[];
-  sortBy: string;
-}
-
-interface LocationSuggestion {
-  name: string;
-  type: 'city' | 'neighborhood' | 'landmark';
-  count?: number;
+  sortBy: PropertySearchSort;
 }
 
 interface EnhancedSearchProps {
-  onSearch: (query: string, filters: SearchFilters) => void;
-  onFiltersChange?: (filters: SearchFilters) => void;
+  onSearch: (filters: PropertySearchFilters) => void;
+  onFiltersChange?: (filters: PropertySearchFilters) => void;
+  // Prefill the form, e.g. when opening a saved search
+  initialFilters?: PropertySearchFilters;
   placeholder?: string;
   showFilters?: boolean;
 }
 
+const DEFAULT_FILTERS: SearchFilters = {
+  location: '',
+  priceRange: [0, SEARCH_PRICE_CEILING],
+  bedrooms: 'all',
+  bathrooms: 'all',
+  propertyType: 'all',
+  amenities: [],
+  sortBy: 'relevance'
+};
+
+const PLACE_TYPE_LABELS: Record<GazetteerPlaceType, string> = {
+  state: 'State',
+  lga: 'LGA',
+  area: 'Area',
+};
+
+const toSearchFilters = (query: string, filters: SearchFilters): PropertySearchFilters => {
+  const bedrooms = parseRoomFilter(filters.bedrooms);
+  return {
+    query,
+    location: filters.location || undefined,
+    propertyType: filters.propertyType === 'all' ? undefined : filters.propertyType,
+    ...parsePriceRange(filters.priceRange),
+    minBedrooms: bedrooms.min,
+    maxBedrooms: bedrooms.max,
+    minBathrooms: parseRoomFilter(filters.bathrooms).min,
+    amenities: filters.amenities,
+    sortBy: filters.sortBy
+  };
+};
+
+const fromSearchFilters = (filters: PropertySearchFilters): SearchFilters => ({
+  location: filters.location || '',
+  priceRange: [filters.minPrice ?? 0, filters.maxPrice ?? SEARCH_PRICE_CEILING],
+  bedrooms: filters.maxBedrooms === 0 ? '0' : filters.minBedrooms !== undefined ? String(filters.minBedrooms) : 'all',
+  bathrooms: filters.minBathrooms !== undefined ? String(filters.minBathrooms) : 'all',
+  propertyType: filters.propertyType || 'all',
+  amenities: filters.amenities || [],
+  sortBy: filters.sortBy || DEFAULT_FILTERS.sortBy
+});
+
 const EnhancedSearch = ({ 
   onSearch, 
   onFiltersChange,
+  initialFilters,
   placeholder = "Search by location, property type, or keywords...",
   showFilters = true 
 }: EnhancedSearchProps) => {
-  const [query, setQuery] = useState('');
+  const [query, setQuery] = useState(initialFilters?.query || '');
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [filtersOpen, setFiltersOpen] = useState(false);
@@ -64,26 +114,9 @@ const EnhancedSearch = ({
   const searchRef = useRef<HTMLDivElement>(null);
   const recognition = useRef<any>(null);
 
-  const [filters, setFilters] = useState<SearchFilters>({
-    location: '',
-    priceRange: [0, 5000000],
-    bedrooms: '',
-    bathrooms: '',
-    propertyType: '',
-    amenities: [],
-    sortBy: 'newest'
-  });
-
-  // Mock location suggestions (replace with real API)
-  const locationSuggestions: LocationSuggestion[] = [
-    { name: 'Lagos Island', type: 'neighborhood', count: 1240 },
-    { name: 'Victoria Island', type: 'neighborhood', count: 890 },
-    { name: 'Lekki Phase 1', type: 'neighborhood', count: 2100 },
-    { name: 'Ikeja GRA', type: 'neighborhood', count: 650 },
-    { name: 'Abuja', type: 'city', count: 3400 },
-    { name: 'Port Harcourt', type: 'city', count: 1800 },
-    { name: 'Kano', type: 'city', count: 980 }
-  ];
+  const [filters, setFilters] = useState<SearchFilters>(() =>
+    initialFilters ? fromSearchFilters(initialFilters) : DEFAULT_FILTERS
+  );
 
   const trendingSearches = [
     'Apartments in Lekki',
@@ -92,18 +125,17 @@ const EnhancedSearch = ({
     'Furnished apartments VI'
   ];
 
+  // Ids are matched against the landlord's free-text amenities, so they must be words they'd use
   const availableAmenities = [
     { id: 'wifi', label: 'WiFi', icon: Wifi },
     { id: 'parking', label: 'Parking', icon: Car },
     { id: 'security', label: '24/7 Security', icon: Shield },
     { id: 'generator', label: 'Backup Generator', icon: Zap },
-    { id: 'ac', label: 'Air Conditioning', icon: Wind },
+    { id: 'air condition', label: 'Air Conditioning', icon: Wind },
     { id: 'balcony', label: 'Balcony', icon: Sun }
   ];
 
-  const filteredSuggestions = locationSuggestions.filter(suggestion =>
-    suggestion.name.toLowerCase().includes(query.toLowerCase())
-  );
+  const filteredSuggestions = query.trim() ? searchPlaces(query, 7) : [];
 
   // Initialize speech recognition
   useEffect(() => {
@@ -150,16 +182,26 @@ const EnhancedSearch = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleSearch = () => {
-    if (query.trim()) {
+  const handleSearch = (searchQuery: string = query) => {
+    const trimmed = searchQuery.trim();
+    if (trimmed) {
       // Save to recent searches
-      const newRecentSearches = [query, ...recentSearches.filter(s => s !== query)].slice(0, 5);
+      const newRecentSearches = [trimmed, ...recentSearches.filter(s => s !== trimmed)].slice(0, 5);
       setRecentSearches(newRecentSearches);
       localStorage.setItem('recentSearches', JSON.stringify(newRecentSearches));
-      
-      onSearch(query, filters);
-      setShowSuggestions(false);
     }
+
+    onSearch(toSearchFilters(trimmed, filters));
+    setShowSuggestions(false);
+  };
+
+  // Picking a place filters on it (label, area, LGA or state) instead of searching its name as a keyword
+  const handleLocationSelect = (place: GazetteerPlace) => {
+    const updated = { ...filters, location: place.name };
+    setQuery('');
+    setFilters(updated);
+    onSearch(toSearchFilters('', updated));
+    setShowSuggestions(false);
   };
 
   const handleVoiceSearch = () => {
@@ -175,21 +217,12 @@ const EnhancedSearch = ({
   const updateFilters = (newFilters: Partial<SearchFilters>) => {
     const updated = { ...filters, ...newFilters };
     setFilters(updated);
-    onFiltersChange?.(updated);
+    onFiltersChange?.(toSearchFilters(query.trim(), updated));
   };
 
   const clearFilters = () => {
-    const clearedFilters: SearchFilters = {
-      location: '',
-      priceRange: [0, 5000000],
-      bedrooms: '',
-      bathrooms: '',
-      propertyType: '',
-      amenities: [],
-      sortBy: 'newest'
-    };
-    setFilters(clearedFilters);
-    onFiltersChange?.(clearedFilters);
+    setFilters(DEFAULT_FILTERS);
+    onFiltersChange?.(toSearchFilters(query.trim(), DEFAULT_FILTERS));
   };
 
   const toggleAmenity = (amenityId: string) => {
@@ -201,11 +234,12 @@ const EnhancedSearch = ({
 
   const getActiveFiltersCount = () => {
     let count = 0;
-    if (filters.bedrooms) count++;
-    if (filters.bathrooms) count++;
-    if (filters.propertyType) count++;
+    if (filters.location) count++;
+    if (filters.bedrooms !== 'all') count++;
+    if (filters.bathrooms !== 'all') count++;
+    if (filters.propertyType !== 'all') count++;
     if (filters.amenities.length > 0) count++;
-    if (filters.priceRange[0] > 0 || filters.priceRange[1] < 5000000) count++;
+    if (filters.priceRange[0] > 0 || filters.priceRange[1] < SEARCH_PRICE_CEILING) count++;
     return count;
   };
 
@@ -279,7 +313,7 @@ const EnhancedSearch = ({
 
               {/* Search Button */}
               <Button 
-                onClick={handleSearch}
+                onClick={() => handleSearch()}
                 size="lg" 
                 className="h-14 px-8 bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800"
               >
@@ -301,32 +335,28 @@ const EnhancedSearch = ({
                     <MapPin className="w-4 h-4 mr-2" />
                     Locations
                   </h4>
-                  {filteredSuggestions.map((suggestion, index) => (
+                  {filteredSuggestions.map(place => (
                     <button
-                      key={index}
-                      onClick={() => {
-                        setQuery(suggestion.name);
-                        setShowSuggestions(false);
-                        handleSearch();
-                      }}
+                      key={`${place.type}-${place.state}-${place.name}`}
+                      onClick={() => handleLocationSelect(place)}
                       className="w-full text-left p-2 hover:bg-gray-50 rounded-lg flex items-center justify-between"
                     >
                       <div className="flex items-center">
                         <div className={`w-8 h-8 rounded-full flex items-center justify-center mr-3 ${
-                          suggestion.type === 'city' ? 'bg-blue-100 text-blue-600' : 'bg-green-100 text-green-600'
+                          place.type === 'area' ? 'bg-green-100 text-green-600' : 'bg-blue-100 text-blue-600'
                         }`}>
-                          {suggestion.type === 'city' ? <Building className="w-4 h-4" /> : <Home className="w-4 h-4" />}
+                          {place.type === 'area' ? <Home className="w-4 h-4" /> : <Building className="w-4 h-4" />}
                         </div>
                         <div>
-                          <div className="font-medium">{suggestion.name}</div>
-                          <div className="text-sm text-gray-500 capitalize">{suggestion.type}</div>
+                          <div className="font-medium">{place.name}</div>
+                          <div className="text-sm text-gray-500">
+                            {place.type === 'state' ? 'Nigeria' : [place.type === 'area' ? place.lga : undefined, place.state].filter(Boolean).join(', ')}
+                          </div>
                         </div>
                       </div>
-                      {suggestion.count && (
-                        <Badge variant="outline" className="text-xs">
-                          {suggestion.count} properties
-                        </Badge>
-                      )}
+                      <Badge variant="outline" className="text-xs">
+                        {PLACE_TYPE_LABELS[place.type]}
+                      </Badge>
                     </button>
                   ))}
                 </div>
@@ -344,8 +374,7 @@ const EnhancedSearch = ({
                       key={index}
                       onClick={() => {
                         setQuery(search);
-                        setShowSuggestions(false);
-                        handleSearch();
+                        handleSearch(search);
                       }}
                       className="w-full text-left p-2 hover:bg-gray-50 rounded-lg flex items-center"
                     >
@@ -368,8 +397,7 @@ const EnhancedSearch = ({
                       key={index}
                       onClick={() => {
                         setQuery(search);
-                        setShowSuggestions(false);
-                        handleSearch();
+                        handleSearch(search);
                       }}
                       className="w-full text-left p-2 hover:bg-gray-50 rounded-lg flex items-center"
                     >
@@ -384,6 +412,28 @@ const EnhancedSearch = ({
         )}
       </div>
 
+      {/* Active location filter */}
+      {filters.location && (
+        <div className="mt-3 flex items-center">
+          <Badge variant="secondary" className="flex items-center gap-1 py-1 px-3">
+            <MapPin className="w-3 h-3" />
+            {filters.location}
+            <button
+              type="button"
+              onClick={() => {
+                const updated = { ...filters, location: '' };
+                setFilters(updated);
+                onSearch(toSearchFilters(query.trim(), updated));
+              }}
+              className="ml-1 text-gray-500 hover:text-gray-700"
+              aria-label="Clear location"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        </div>
+      )}
+
       {/* Advanced Filters Panel */}
       {filtersOpen && (
         <Card className="mt-4 shadow-lg">
@@ -409,7 +459,7 @@ const EnhancedSearch = ({
               <Slider
                 value={filters.priceRange}
                 onValueChange={(value) => updateFilters({ priceRange: value as [number, number] })}
-                max={5000000}
+                max={SEARCH_PRICE_CEILING}
                 min={0}
                 step={50000}
                 className="w-full"
@@ -426,16 +476,18 @@ const EnhancedSearch = ({
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Property Type
                 </label>
-                <Select value={filters.propertyType} onValueChange={(value) => updateFilters({ propertyType: value })}>
+                <Select
+                  value={filters.propertyType}
+                  onValueChange={(value) => updateFilters({ propertyType: value as PropertyType | 'all' })}
+                >
                   <SelectTrigger>
                     <SelectValue placeholder="Any type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="">Any type</SelectItem>
-                    <SelectItem value="apartment">Apartment</SelectItem>
-                    <SelectItem value="house">House</SelectItem>
-                    <SelectItem value="studio">Studio</SelectItem>
-                    <SelectItem value="duplex">Duplex</SelectItem>
+                    <SelectItem value="all">Any type</SelectItem>
+                    {PROPERTY_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -449,7 +501,7 @@ const EnhancedSearch = ({
                     <SelectValue placeholder="Any" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="">Any</SelectItem>
+                    <SelectItem value="all">Any</SelectItem>
                     <SelectItem value="0">Studio</SelectItem>
                     <SelectItem value="1">1+</SelectItem>
                     <SelectItem value="2">2+</SelectItem>
@@ -469,7 +521,7 @@ const EnhancedSearch = ({
                     <SelectValue placeholder="Any" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="">Any</SelectItem>
+                    <SelectItem value="all">Any</SelectItem>
                     <SelectItem value="1">1+</SelectItem>
                     <SelectItem value="2">2+</SelectItem>
                     <SelectItem value="3">3+</SelectItem>
@@ -509,16 +561,20 @@ const EnhancedSearch = ({
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Sort By
               </label>
-              <Select value={filters.sortBy} onValueChange={(value) => updateFilters({ sortBy: value })}>
+              <Select
+                value={filters.sortBy}
+                onValueChange={(value) => updateFilters({ sortBy: value as PropertySearchSort })}
+              >
                 <SelectTrigger className="w-full md:w-48">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="newest">Newest First</SelectItem>
-                  <SelectItem value="oldest">Oldest First</SelectItem>
-                  <SelectItem value="price-low">Price: Low to High</SelectItem>
-                  <SelectItem value="price-high">Price: High to Low</SelectItem>
-                  <SelectItem value="popular">Most Popular</SelectItem>
+                  {/* Nearest first needs a point, so it is applied by "Near me" rather than offered here */}
+                  {(Object.keys(SEARCH_SORT_LABELS) as PropertySearchSort[])
+                    .filter(sort => sort !== 'distance')
+                    .map(sort => (
+                      <SelectItem key={sort} value={sort}>{SEARCH_SORT_LABELS[sort]}</SelectItem>
+                    ))}
                 </SelectContent>
               </Select>
             </div>
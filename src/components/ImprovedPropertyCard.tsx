@@ -23,6 +23,8 @@ import {
 } from 'lucide-react';
 import { Property } from '@/lib/supabase';
 import { useSavedProperties } from '@/hooks/useSavedProperties';
+import { isVerifiedLandlord } from '@/services/landlordVerificationService';
+import VerifiedBadge from './VerifiedBadge';
 
 interface ImprovedPropertyCardProps {
   property: Property;
@@ -293,6 +295,7 @@ const ImprovedPropertyCard = ({
                 <span className="truncate max-w-20">
                   {property.profiles.full_name?.split(' ')[0] || 'Owner'}
                 </span>
+                {isVerifiedLandlord(property.profiles) && <VerifiedBadge compact className="ml-1" />}
               </div>
             )}
           </div>
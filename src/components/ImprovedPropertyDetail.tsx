@@ -38,8 +38,12 @@ import {
   Flag,
 } from 'lucide-react';
 import PropertyImageGallery from '@/components/PropertyImageGallery';
+import ReportPropertyDialog from '@/components/ReportPropertyDialog';
 import { useAuth } from '@/hooks/useAuth';
 import { Property as BaseProperty } from '@/lib/supabase';
+import { PROPERTY_TYPE_LABELS } from '@/services/propertySearchService';
+import { isVerifiedLandlord } from '@/services/landlordVerificationService';
+import VerifiedBadge from '@/components/VerifiedBadge';
 
 // Extended Property interface with additional fields for ImprovedPropertyDetail
 interface Property extends BaseProperty {
@@ -48,11 +52,11 @@ interface Property extends BaseProperty {
   size?: string;
   furnished?: boolean;
   available_from?: string;
-  property_type?: string;
   landlord?: {
     full_name: string;
     avatar_url?: string;
     phone?: string;
+    verified_at?: string | null;
   };
   views?: number;
 }
@@ -82,6 +86,7 @@ const ImprovedPropertyDetail = ({
   const [showFullDescription, setShowFullDescription] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
   const [viewCount, setViewCount] = useState(property.views || 0);
+  const [showReportDialog, setShowReportDialog] = useState(false);
   
   const { profile } = useAuth();
 
@@ -103,7 +108,7 @@ const ImprovedPropertyDetail = ({
   ];
 
   const propertyFeatures = [
-    { label: 'Property Type', value: property.property_type },
+    { label: 'Property Type', value: property.property_type && PROPERTY_TYPE_LABELS[property.property_type] },
     { label: 'Bedrooms', value: `${property.bedrooms} bed${property.bedrooms > 1 ? 's' : ''}` },
     { label: 'Bathrooms', value: `${property.bathrooms} bath${property.bathrooms > 1 ? 's' : ''}` },
     { label: 'Size', value: property.size ? `${property.size} sqft` : 'Not specified' },
@@ -118,7 +123,7 @@ const ImprovedPropertyDetail = ({
     responseRate: '95%',
     propertiesCount: 12,
     joinedDate: '2023',
-    isVerified: true
+    isVerified: isVerifiedLandlord(property.landlord ?? property.profiles)
   };
 
   const similarProperties = [
@@ -198,7 +203,7 @@ const ImprovedPropertyDetail = ({
               >
                 <Heart className={`w-4 h-4 ${isSaved ? 'fill-current' : ''}`} />
               </Button>
-              <Button variant="ghost" size="sm" onClick={() => onReport?.(property.id)}>
+              <Button variant="ghost" size="sm" onClick={() => onReport ? onReport(property.id) : setShowReportDialog(true)}>
                 <Flag className="w-4 h-4" />
               </Button>
             </div>
@@ -470,11 +475,12 @@ const ImprovedPropertyDetail = ({
                   <div className="flex-1">
                     <div className="flex items-center space-x-2">
                       <span className="font-medium">{landlordInfo.name}</span>
-                      {landlordInfo.isVerified && (
-                        <CheckCircle className="w-4 h-4 text-blue-500" />
-                      )}
                     </div>
-                    <p className="text-sm text-gray-500">Property Owner</p>
+                    {landlordInfo.isVerified ? (
+                      <VerifiedBadge className="mt-1" />
+                    ) : (
+                      <p className="text-sm text-gray-500">Property Owner</p>
+                    )}
                   </div>
                 </div>
 
@@ -576,6 +582,15 @@ const ImprovedPropertyDetail = ({
           </div>
         </div>
       )}
+
+      {!onReport && (
+        <ReportPropertyDialog
+          propertyId={property.id}
+          propertyTitle={property.title}
+          open={showReportDialog}
+          onOpenChange={setShowReportDialog}
+        />
+      )}
     </div>
   );
 };
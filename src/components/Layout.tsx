@@ -18,7 +18,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { useAuth } from "@/hooks/useAuth";
-import { Building, Home, MessageSquare, LogOut, User, Shield, Heart, Menu, X, Plus, Bell, Palette, Moon, Sun, MessageCircle, CheckCircle, AlertCircle, DollarSign, Wrench, Calendar, FileText, BarChart3 } from "lucide-react";
+import { Building, Home, MessageSquare, LogOut, User, Shield, Heart, Menu, X, Plus, Bell, Palette, Moon, Sun, MessageCircle, CheckCircle, AlertCircle, DollarSign, Wrench, Calendar, FileText, BarChart3, Search, Flag, ShieldCheck } from "lucide-react";
 import { useState, useEffect } from "react";
 import { NotificationService, Notification as DBNotification } from "@/services/notificationService";
 import { useToast } from "@/hooks/use-toast";
@@ -26,6 +26,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import EnhancedNavigation from "@/components/EnhancedNavigation";
 import UserOnboarding from "@/components/UserOnboarding";
 import MobileNavigation from "@/components/MobileNavigation";
+import EmailVerificationBanner from "@/components/EmailVerificationBanner";
 import { NotificationsCenter } from './NotificationsCenter';
 
 interface LayoutProps {
@@ -311,6 +312,12 @@ const Layout = ({ children, showNav = true }: LayoutProps) => {
         return <Wrench className="w-4 h-4 text-orange-500" />;
       case 'system_update':
         return <Bell className="w-4 h-4 text-purple-500" />;
+      case 'saved_search_match':
+        return <Search className="w-4 h-4 text-blue-500" />;
+      case 'listing_report':
+        return <Flag className="w-4 h-4 text-red-500" />;
+      case 'landlord_verification':
+        return <ShieldCheck className="w-4 h-4 text-green-500" />;
       default:
         return <Bell className="w-4 h-4 text-gray-500" />;
     }
@@ -513,6 +520,7 @@ const Layout = ({ children, showNav = true }: LayoutProps) => {
           showSearch={!isLandingPage}
           showBreadcrumbs={!isLandingPage}
         />
+        <EmailVerificationBanner />
         <main>{children}</main>
         
         {/* Onboarding Modal */}
@@ -857,6 +865,8 @@ const Layout = ({ children, showNav = true }: LayoutProps) => {
         {/* Mobile Navigation */}
         <MobileNavigation unreadCount={unreadCount} />
 
+        <EmailVerificationBanner />
+
         {/* Main Content */}
         <main className="flex-1">
           {children}
@@ -0,0 +1,304 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import { renderLeaseDocument, printLeaseDocument } from '@/utils/leaseTemplate';
+import { LeaseService, LeaseWithParties, LEASE_STATUS_LABELS, isLeaseSignedBy } from '@/services/leaseService';
+import { RENT_INTERVAL_LABELS } from '@/services/rentScheduleService';
+import { LeaseClause, RecurrenceInterval } from '@/integrations/supabase/types';
+import { FileSignature, Pencil, Plus, Printer, Trash2 } from 'lucide-react';
+
+interface LeaseAgreementDialogProps {
+  lease: LeaseWithParties | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated?: (lease: LeaseWithParties) => void;
+}
+
+interface LeaseTermsDraft {
+  start_date: string;
+  end_date: string;
+  rent_amount: number;
+  rent_interval: RecurrenceInterval;
+  deposit_amount: number;
+  clauses: LeaseClause[];
+}
+
+const toDraft = (lease: LeaseWithParties): LeaseTermsDraft => ({
+  start_date: lease.start_date,
+  end_date: lease.end_date,
+  rent_amount: Number(lease.rent_amount),
+  rent_interval: lease.rent_interval,
+  deposit_amount: Number(lease.deposit_amount),
+  clauses: lease.clauses || [],
+});
+
+const LeaseAgreementDialog = ({ lease, open, onOpenChange, onUpdated }: LeaseAgreementDialogProps) => {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<LeaseTermsDraft | null>(null);
+  const [signatureName, setSignatureName] = useState('');
+  const [agreed, setAgreed] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (lease && open) {
+      setDraft(toDraft(lease));
+      setEditing(false);
+      setAgreed(false);
+      setSignatureName(profile?.full_name || '');
+    }
+  }, [lease, open, profile?.full_name]);
+
+  const documentHtml = useMemo(() => {
+    if (!lease) return '';
+    return renderLeaseDocument(lease, {
+      propertyTitle: lease.property?.title || 'Property',
+      propertyLocation: lease.property?.location,
+      landlordName: lease.landlord?.full_name || lease.landlord?.email || 'Landlord',
+      tenantName: lease.tenant?.full_name || lease.tenant?.email || 'Tenant',
+    });
+  }, [lease]);
+
+  if (!lease || !draft) return null;
+
+  const isLandlord = user?.id === lease.landlord_id;
+  const isParty = isLandlord || user?.id === lease.tenant_id;
+  const canEdit = isLandlord && lease.status === 'draft';
+  const canSign = isParty && !!user && !isLeaseSignedBy(lease, user.id) &&
+    (lease.status === 'draft' || lease.status === 'partially_signed');
+
+  const updateClause = (index: number, changes: Partial<LeaseClause>) => {
+    setDraft({
+      ...draft,
+      clauses: draft.clauses.map((clause, i) => (i === index ? { ...clause, ...changes } : clause)),
+    });
+  };
+
+  const handleSaveTerms = async () => {
+    if (new Date(draft.end_date) <= new Date(draft.start_date)) {
+      toast({ title: 'Invalid term', description: 'The end date must be after the start date.', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await LeaseService.updateTerms(lease.id, {
+        ...draft,
+        clauses: draft.clauses.filter(clause => clause.title.trim() && clause.body.trim()),
+      });
+      onUpdated?.({ ...lease, ...updated });
+      setEditing(false);
+      toast({ title: 'Lease updated', description: 'The new terms are ready to be signed.' });
+    } catch (error) {
+      handleError(error, toast, 'Failed to update lease terms', { context: 'LeaseAgreementDialog' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSign = async () => {
+    setSaving(true);
+    try {
+      const signed = await LeaseService.sign(lease.id, signatureName);
+      onUpdated?.({ ...lease, ...signed });
+      toast({
+        title: 'Lease signed',
+        description: signed.status === 'signed'
+          ? 'Both parties have signed. The lease is now in effect.'
+          : 'Your signature has been recorded. The other party has been notified.',
+      });
+    } catch (error) {
+      handleError(error, toast, 'Failed to sign lease', { context: 'LeaseAgreementDialog' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePrint = () => {
+    try {
+      printLeaseDocument(documentHtml);
+    } catch (error) {
+      handleError(error, toast, 'Failed to open the lease for printing');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Lease Agreement
+            <Badge variant={lease.status === 'signed' ? 'default' : 'secondary'}>
+              {LEASE_STATUS_LABELS[lease.status]}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {lease.property?.title}
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="lease-start">Start Date</Label>
+                <Input
+                  id="lease-start"
+                  type="date"
+                  value={draft.start_date}
+                  onChange={(e) => setDraft({ ...draft, start_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lease-end">End Date</Label>
+                <Input
+                  id="lease-end"
+                  type="date"
+                  value={draft.end_date}
+                  onChange={(e) => setDraft({ ...draft, end_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lease-rent">Annual Rent (₦)</Label>
+                <Input
+                  id="lease-rent"
+                  type="number"
+                  min="0"
+                  value={draft.rent_amount}
+                  onChange={(e) => setDraft({ ...draft, rent_amount: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Rent Collection</Label>
+                <Select
+                  value={draft.rent_interval}
+                  onValueChange={(value) => setDraft({ ...draft, rent_interval: value as RecurrenceInterval })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RENT_INTERVAL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lease-deposit">Security Deposit (₦)</Label>
+                <Input
+                  id="lease-deposit"
+                  type="number"
+                  min="0"
+                  value={draft.deposit_amount}
+                  onChange={(e) => setDraft({ ...draft, deposit_amount: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Clauses</Label>
+              {draft.clauses.map((clause, index) => (
+                <div key={index} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      value={clause.title}
+                      placeholder="Clause title"
+                      onChange={(e) => updateClause(index, { title: e.target.value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDraft({ ...draft, clauses: draft.clauses.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Textarea
+                    value={clause.body}
+                    placeholder="Clause text"
+                    rows={3}
+                    onChange={(e) => updateClause(index, { body: e.target.value })}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, clauses: [...draft.clauses, { title: '', body: '' }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Clause
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <iframe
+            title="Lease agreement"
+            srcDoc={documentHtml}
+            className="w-full h-[55vh] border rounded-lg bg-white"
+          />
+        )}
+
+        {canSign && !editing && (
+          <div className="border rounded-lg p-4 space-y-3 bg-gray-50">
+            <Label htmlFor="signature-name">Type your full name to sign</Label>
+            <Input
+              id="signature-name"
+              value={signatureName}
+              onChange={(e) => setSignatureName(e.target.value)}
+              placeholder="Full legal name"
+            />
+            <div className="flex items-start gap-2">
+              <Checkbox id="signature-consent" checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+              <Label htmlFor="signature-consent" className="text-sm font-normal leading-snug">
+                I have read this agreement and accept that typing my name above is my electronic signature.
+              </Label>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handlePrint} disabled={editing}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print / Save PDF
+          </Button>
+          {canEdit && (editing ? (
+            <>
+              <Button variant="outline" onClick={() => { setDraft(toDraft(lease)); setEditing(false); }}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveTerms} disabled={saving}>
+                Save Terms
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => setEditing(true)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit Terms
+            </Button>
+          ))}
+          {canSign && !editing && (
+            <Button onClick={handleSign} disabled={saving || !agreed || signatureName.trim().length < 2}>
+              <FileSignature className="h-4 w-4 mr-2" />
+              Sign Lease
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeaseAgreementDialog;
@@ -0,0 +1,74 @@
+import { useEffect } from 'react';
+import L from 'leaflet';
+import { MapContainer, Marker, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Coordinates, NIGERIA_CENTER } from '@/services/geocodingService';
+
+interface LocationPinMapProps {
+  value: Coordinates | null;
+  onChange: (coordinates: Coordinates) => void;
+  className?: string;
+}
+
+// Leaflet's default marker images don't survive bundling, so the pin is drawn with CSS
+const pinIcon = L.divIcon({
+  className: '',
+  html: '<div class="w-6 h-6 rounded-full bg-blue-600 border-4 border-white shadow-lg"></div>',
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+});
+
+const PinOnClick = ({ onChange }: { onChange: (coordinates: Coordinates) => void }) => {
+  useMapEvents({
+    click: (event) => onChange({ latitude: event.latlng.lat, longitude: event.latlng.lng }),
+  });
+  return null;
+};
+
+const FollowPin = ({ value }: { value: Coordinates | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (value) {
+      map.setView([value.latitude, value.longitude], Math.max(map.getZoom(), 14));
+    }
+  }, [map, value]);
+
+  return null;
+};
+
+const LocationPinMap = ({ value, onChange, className = 'h-64' }: LocationPinMapProps) => {
+  const center = value ?? NIGERIA_CENTER;
+
+  return (
+    <div className={`rounded-lg overflow-hidden border ${className}`}>
+      <MapContainer
+        center={[center.latitude, center.longitude]}
+        zoom={value ? 14 : 6}
+        className="h-full w-full z-0"
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        <PinOnClick onChange={onChange} />
+        <FollowPin value={value} />
+        {value && (
+          <Marker
+            position={[value.latitude, value.longitude]}
+            icon={pinIcon}
+            draggable
+            eventHandlers={{
+              dragend: (event) => {
+                const { lat, lng } = (event.target as L.Marker).getLatLng();
+                onChange({ latitude: lat, longitude: lng });
+              },
+            }}
+          />
+        )}
+      </MapContainer>
+    </div>
+  );
+};
+
+export default LocationPinMap;
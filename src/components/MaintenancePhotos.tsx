@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { MaintenanceService } from '@/services/maintenanceService';
+
+interface MaintenancePhotosProps {
+  paths: string[];
+}
+
+// Photos live in a private bucket, so they are shown through signed links
+const MaintenancePhotos = ({ paths }: MaintenancePhotosProps) => {
+  const [urls, setUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    MaintenanceService.getPhotoUrls(paths)
+      .then(signed => !cancelled && setUrls(signed))
+      .catch(() => !cancelled && setUrls([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [paths]);
+
+  if (urls.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {urls.map((url, index) => (
+        <a key={index} href={url} target="_blank" rel="noopener noreferrer">
+          <img src={url} alt={`Issue photo ${index + 1}`} className="h-20 w-20 object-cover rounded-md border" />
+        </a>
+      ))}
+    </div>
+  );
+};
+
+export default MaintenancePhotos;
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Sheet, SheetContent, SheetTrigger, SheetClose } from "@/components/ui/sheet";
 import { useAuth } from "@/hooks/useAuth";
+import { useInstallPrompt } from "@/hooks/useInstallPrompt";
 import { 
   Home, 
   Search, 
@@ -16,7 +17,8 @@ import {
   X,
   Bell,
   Settings,
-  BarChart3
+  BarChart3,
+  Download
 } from "lucide-react";
 import { motion } from "framer-motion";
 
@@ -28,6 +30,7 @@ const MobileNavigation = ({ unreadCount = 0 }: MobileNavigationProps) => {
   const { profile, hasRole } = useAuth();
   const location = useLocation();
   const [isOpen, setIsOpen] = useState(false);
+  const { canInstall, promptInstall } = useInstallPrompt();
 
   const isActive = (path: string) => location.pathname === path;
 
@@ -257,6 +260,19 @@ const MobileNavigation = ({ unreadCount = 0 }: MobileNavigationProps) => {
                         </Link>
                       </>
                     )}
+                    {canInstall && (
+                      <button
+                        type="button"
+                        className="flex w-full items-center px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                        onClick={() => {
+                          setIsOpen(false);
+                          promptInstall();
+                        }}
+                      >
+                        <Download className="w-5 h-5 mr-3" />
+                        Install App
+                      </button>
+                    )}
                   </div>
                 </div>
               </SheetContent>
@@ -28,6 +28,7 @@ import {
 } from "lucide-react";
 import { motion, AnimatePresence, PanInfo } from "framer-motion";
 import { Property } from "@/lib/supabase";
+import { usePropertyViewTracking } from "@/hooks/usePropertyViewTracking";
 
 interface MobilePropertyDetailProps {
   property: Property;
@@ -52,6 +53,8 @@ const MobilePropertyDetail = ({
   const [showContactSheet, setShowContactSheet] = useState(false);
   const [showInfoSheet, setShowInfoSheet] = useState(false);
 
+  usePropertyViewTracking(property.id, "mobile");
+
   // Mock images if none provided
   const images = property.images && property.images.length > 0 
     ? property.images 
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { ChatOutbox } from "@/services/chatOutbox";
+import { WifiOff } from "lucide-react";
+
+// Shows a banner while offline and sends queued chat messages once the connection is back
+const OfflineIndicator = () => {
+  const isOnline = useOnlineStatus();
+  const { toast } = useToast();
+  const [queuedCount, setQueuedCount] = useState(() => ChatOutbox.getQueued().length);
+
+  useEffect(() => ChatOutbox.subscribe(() => setQueuedCount(ChatOutbox.getQueued().length)), []);
+
+  useEffect(() => {
+    if (!isOnline || ChatOutbox.getQueued().length === 0) return;
+
+    ChatOutbox.flush().then(({ sent, failed }) => {
+      if (sent.length > 0) {
+        toast({
+          title: "Back online",
+          description: `${sent.length} queued message${sent.length === 1 ? "" : "s"} sent.`,
+        });
+      }
+      if (failed.length > 0) {
+        toast({
+          title: "Some messages weren't sent",
+          description: `${failed.length} queued message${failed.length === 1 ? " was" : "s were"} rejected, for example because the conversation was closed.`,
+          variant: "destructive",
+        });
+      }
+    });
+  }, [isOnline, toast]);
+
+  if (isOnline) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed top-0 inset-x-0 z-50 bg-gray-900 text-white text-sm px-4 py-2 flex items-center justify-center gap-2"
+    >
+      <WifiOff className="w-4 h-4 flex-shrink-0" />
+      <span>
+        You're offline. Saved listings are still available
+        {queuedCount > 0
+          ? ` and ${queuedCount} message${queuedCount === 1 ? "" : "s"} will send when you reconnect.`
+          : ", and messages you send will go out when you reconnect."}
+      </span>
+    </div>
+  );
+};
+
+export default OfflineIndicator;
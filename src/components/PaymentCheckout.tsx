@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import { PaymentService, PaymentProviderId, getEnabledPaymentProviders } from '@/services/paymentService';
+import {
+  CreditCard,
+  Lock,
+  Shield,
+  CheckCircle,
+  AlertCircle,
+  DollarSign
+} from 'lucide-react';
+
+interface PaymentCheckoutProps {
+  applicationId: string;
+  propertyId: string;
+  amount: number;
+}
+
+const PaymentCheckout = ({ applicationId, amount }: PaymentCheckoutProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const providers = getEnabledPaymentProviders();
+  const [processing, setProcessing] = useState(false);
+  const [provider, setProvider] = useState<PaymentProviderId | null>(providers[0]?.id ?? null);
+
+  const startPayment = async () => {
+    if (!provider) return;
+
+    setProcessing(true);
+    try {
+      const intent = await PaymentService.createIntent(applicationId, provider);
+
+      if (!intent.checkout_url) {
+        throw new Error('The payment provider did not return a checkout page.');
+      }
+
+      // Hand over to the provider's hosted checkout. It redirects back to
+      // /payment-success/:applicationId where the payment is verified.
+      window.location.assign(intent.checkout_url);
+    } catch (error) {
+      handleError(error, toast, 'There was an error starting your payment. Please try again.', {
+        context: 'PaymentCheckout'
+      });
+      setProcessing(false);
+    }
+  };
+
+  if (processing) {
+    return (
+      <div className="max-w-md mx-auto p-6">
+        <Card>
+          <CardContent className="p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-6"></div>
+            <h3 className="text-lg font-semibold mb-2">Redirecting to secure checkout...</h3>
+            <p className="text-gray-600 mb-4">Please don't close this window</p>
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <div className="flex items-center justify-center">
+                <Shield className="h-5 w-5 text-blue-600 mr-2" />
+                <span className="text-sm text-blue-800">Secure Payment in Progress</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Complete Your Payment</h2>
+        <p className="text-gray-600">Secure your rental property with a quick payment</p>
+      </div>
+
+      {/* Payment Summary */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            Payment Summary
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex justify-between items-center">
+            <span className="text-gray-600">Rental Amount</span>
+            <span className="text-2xl font-bold text-gray-900">₦{amount.toLocaleString()}</span>
+          </div>
+          <Separator className="my-4" />
+          <div className="flex justify-between items-center">
+            <span className="font-semibold">Total Amount</span>
+            <span className="text-2xl font-bold text-green-600">₦{amount.toLocaleString()}</span>
+          </div>
+          <div className="mt-4 bg-green-50 border border-green-200 rounded-lg p-3">
+            <div className="flex items-center">
+              <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+              <span className="text-sm text-green-800">No hidden fees • Secure payment</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Payment Provider Selection */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Payment Method</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {providers.length === 0 ? (
+            <div className="text-center py-4">
+              <AlertCircle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+              <p className="text-gray-600">Online payments are currently unavailable. Please try again later.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {providers.map((option, index) => (
+                <div
+                  key={option.id}
+                  className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
+                    provider === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                  onClick={() => setProvider(option.id)}
+                >
+                  <div className="flex items-center">
+                    <input
+                      type="radio"
+                      checked={provider === option.id}
+                      onChange={() => setProvider(option.id)}
+                      className="mr-3"
+                    />
+                    <CreditCard className="h-5 w-5 mr-2" />
+                    <div>
+                      <span className="font-medium">{option.name}</span>
+                      <p className="text-sm text-gray-600">{option.description}</p>
+                    </div>
+                    {index === 0 && <Badge variant="secondary" className="ml-auto">Recommended</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Security Notice */}
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <div className="flex items-center justify-center text-sm text-gray-600">
+            <Lock className="h-4 w-4 mr-2" />
+            <span>Card details are entered on the provider's secure page and never reach our servers</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Action Buttons */}
+      <div className="flex gap-4">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => navigate(-1)}
+        >
+          Cancel
+        </Button>
+        <Button
+          className="flex-1"
+          onClick={startPayment}
+          disabled={processing || !provider}
+        >
+          {`Pay ₦${amount.toLocaleString()}`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentCheckout;
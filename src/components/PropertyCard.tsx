@@ -7,7 +7,10 @@ import { Button } from "@/components/ui/button";
 import { MapPin, Bed, Bath, User, Trash2, Edit, Heart } from "lucide-react";
 import { Property } from "@/lib/supabase";
 import { useSavedProperties } from "@/hooks/useSavedProperties";
+import { usePlatformSettings } from "@/hooks/usePlatformSettings";
 import { EditPropertyModal } from "./EditPropertyModal";
+import VerifiedBadge from "./VerifiedBadge";
+import { isVerifiedLandlord } from "@/services/landlordVerificationService";
 
 interface PropertyCardProps {
   property: Property;
@@ -33,6 +36,7 @@ const PropertyCard = ({
   const [showEditModal, setShowEditModal] = useState(false);
   const [isToggling, setIsToggling] = useState(false);
   const { isSaved, toggleSavedProperty } = useSavedProperties();
+  const { formatPrice } = usePlatformSettings();
   const fallbackImage = "https://images.unsplash.com/photo-1560518883-ce09059eeffa?w=800&h=600&fit=crop";
   
   const handleEditSuccess = () => {
@@ -112,13 +116,14 @@ const PropertyCard = ({
               <div className="flex items-center text-gray-600 text-sm">
                 <User className="w-4 h-4 mr-1 flex-shrink-0" />
                 <span className="line-clamp-1">Listed by {property.profiles.full_name || 'Property Owner'}</span>
+                {isVerifiedLandlord(property.profiles) && <VerifiedBadge compact className="ml-1 flex-shrink-0" />}
               </div>
             )}
 
             <div className="flex items-center justify-between">
               <div className="text-xl md:text-2xl font-bold text-blue-600">
-                ${property.price.toLocaleString()}
-                <span className="text-sm text-gray-500 font-normal">/month</span>
+                {formatPrice(property.price)}
+                <span className="text-sm text-gray-500 font-normal">/year</span>
               </div>
               <div className="flex items-center space-x-3 text-sm text-gray-600">
                 {property.bedrooms !== undefined && (
@@ -0,0 +1,143 @@
+import { MutableRefObject, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import L from 'leaflet';
+import { MapContainer, Marker, Popup, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Button } from '@/components/ui/button';
+import { Property } from '@/lib/supabase';
+import { formatCurrency } from '@/services/platformSettingsService';
+import { NIGERIA_CENTER } from '@/services/geocodingService';
+import { SearchBounds } from '@/services/propertySearchService';
+import { Search } from 'lucide-react';
+
+interface PropertyMapProps {
+  properties: Property[];
+  onSearchArea?: (bounds: SearchBounds) => void;
+  // Keep the renter's view instead of zooming to the pins, e.g. after "Search this area"
+  fitToResults?: boolean;
+  className?: string;
+}
+
+type MappedProperty = Property & { latitude: number; longitude: number };
+
+const compactPrice = (price: number) =>
+  new Intl.NumberFormat('en-NG', { notation: 'compact', maximumFractionDigits: 1 }).format(price);
+
+const priceIcon = (price: number) =>
+  L.divIcon({
+    className: '',
+    html: `<div class="px-2 py-1 rounded-full bg-blue-600 text-white text-xs font-semibold shadow whitespace-nowrap">₦${compactPrice(price)}</div>`,
+    iconSize: [56, 24],
+    iconAnchor: [28, 12],
+  });
+
+// Zoom to the pins whenever the result set changes
+const FitToProperties = ({ properties, fitting }: { properties: MappedProperty[]; fitting: MutableRefObject<boolean> }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (properties.length === 0) return;
+    const bounds = L.latLngBounds(properties.map(p => [p.latitude, p.longitude] as [number, number]));
+    fitting.current = true;
+    map.once('moveend', () => {
+      fitting.current = false;
+    });
+    map.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 });
+  }, [map, properties, fitting]);
+
+  return null;
+};
+
+// Offers "Search this area" once the renter has panned or zoomed the map themselves
+const SearchAreaControl = ({
+  onSearchArea,
+  fitting,
+}: {
+  onSearchArea: (bounds: SearchBounds) => void;
+  fitting: MutableRefObject<boolean>;
+}) => {
+  const [moved, setMoved] = useState(false);
+  const map = useMapEvents({
+    moveend: () => {
+      if (!fitting.current) setMoved(true);
+    },
+  });
+
+  const handleClick = () => {
+    const bounds = map.getBounds();
+    onSearchArea({
+      south: bounds.getSouth(),
+      west: bounds.getWest(),
+      north: bounds.getNorth(),
+      east: bounds.getEast(),
+    });
+    setMoved(false);
+  };
+
+  if (!moved) return null;
+
+  return (
+    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000]">
+      <Button size="sm" className="shadow-lg" onClick={handleClick}>
+        <Search className="w-4 h-4 mr-2" />
+        Search this area
+      </Button>
+    </div>
+  );
+};
+
+const PropertyMap = ({ properties, onSearchArea, fitToResults = true, className = 'h-[600px]' }: PropertyMapProps) => {
+  const fitting = useRef(false);
+  const mapped = useMemo(
+    () => properties.filter((p): p is MappedProperty => p.latitude != null && p.longitude != null),
+    [properties]
+  );
+  const hiddenCount = properties.length - mapped.length;
+
+  return (
+    <div className="space-y-2">
+      <div className={`relative rounded-lg overflow-hidden border ${className}`}>
+        <MapContainer
+          center={[NIGERIA_CENTER.latitude, NIGERIA_CENTER.longitude]}
+          zoom={6}
+          scrollWheelZoom
+          className="h-full w-full z-0"
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          {fitToResults && <FitToProperties properties={mapped} fitting={fitting} />}
+          {onSearchArea && <SearchAreaControl onSearchArea={onSearchArea} fitting={fitting} />}
+          {mapped.map(property => (
+            <Marker
+              key={property.id}
+              position={[property.latitude, property.longitude]}
+              icon={priceIcon(property.price)}
+            >
+              <Popup>
+                <div className="w-48 space-y-1">
+                  {property.photo_url && (
+                    <img src={property.photo_url} alt={property.title} className="w-full h-24 object-cover rounded" />
+                  )}
+                  <Link to={`/property/${property.id}`} className="font-semibold text-gray-900 hover:underline block">
+                    {property.title}
+                  </Link>
+                  <p className="text-sm text-gray-600">{property.location}</p>
+                  <p className="text-sm font-semibold text-blue-600">{formatCurrency(property.price)}/year</p>
+                </div>
+              </Popup>
+            </Marker>
+          ))}
+        </MapContainer>
+      </div>
+      {hiddenCount > 0 && (
+        <p className="text-sm text-gray-500">
+          {hiddenCount} {hiddenCount === 1 ? 'listing has' : 'listings have'} no map location yet and {hiddenCount === 1 ? 'is' : 'are'} only shown in the list.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PropertyMap;
@@ -1,55 +1,153 @@
+import { useEffect, useState } from 'react'
 import { useAuth } from '@/hooks/useAuth'
-import { Navigate } from 'react-router-dom'
+import { Navigate, useLocation } from 'react-router-dom'
 import { UserRoleType } from '@/lib/supabase'
 import LoadingSpinner from '@/components/LoadingSpinner'
+import { MfaRequirement, MfaService } from '@/services/mfaService'
+import { usePermissions } from '@/hooks/usePermission'
+import { Permission } from '@/integrations/supabase/types'
+import { adminHomePath } from '@/services/permissionService'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
   allowedRoles?: UserRoleType[]
+  // Admin pages are gated on a permission rather than a role
+  permission?: Permission
+  // Any admin or staff member, whatever their permissions
+  staffOnly?: boolean
+  // Admin pages need an MFA-verified (AAL2) session; only the MFA page itself turns this off
+  requireMfa?: boolean
 }
 
-const ProtectedRoute = ({ children, allowedRoles }: ProtectedRouteProps) => {
-  const { user, profile, loading, hasRole, primaryRole } = useAuth()
+const LoadingScreen = () => (
+  <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+    <div className="text-center">
+      <LoadingSpinner size="lg" />
+      <p className="mt-4 text-gray-600">Loading...</p>
+    </div>
+  </div>
+)
+
+// Send admins who haven't verified a second factor this session to set one up or enter a code
+const AdminMfaGate = ({ children }: { children: React.ReactNode }) => {
+  const { session } = useAuth()
+  const location = useLocation()
+  const [requirement, setRequirement] = useState<MfaRequirement | null>(null)
+  const accessToken = session?.access_token
+
+  useEffect(() => {
+    let cancelled = false
+
+    MfaService.getState()
+      .then(state => {
+        if (!cancelled) setRequirement(state.requirement)
+      })
+      .catch(() => {
+        // Fail closed: the MFA page will show what went wrong
+        if (!cancelled) setRequirement('challenge')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [accessToken])
+
+  if (requirement === null) {
+    return <LoadingScreen />
+  }
+
+  if (requirement !== 'none') {
+    return <Navigate to="/admin/mfa" state={{ from: location.pathname }} replace />
+  }
+
+  return <>{children}</>
+}
+
+// Send someone without access to their own home page
+const RoleHomeRedirect = ({ requirement }: { requirement: string }) => {
+  const { primaryRole } = useAuth()
+
+  if (primaryRole === 'admin') {
+    return <Navigate to="/admin" replace />
+  } else if (primaryRole === 'landlord') {
+    return <Navigate to="/landlord" replace />
+  } else if (primaryRole === 'renter') {
+    return <Navigate to="/renter" replace />
+  }
+
+  // No valid role, show error or redirect
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-red-600 mb-4">Access Denied</h2>
+        <p className="text-gray-700 mb-4">Your account does not have a valid role assigned. Please contact support.</p>
+        <p className="text-sm text-gray-500">Required: {requirement}</p>
+        <p className="text-sm text-gray-500">Your current role: {primaryRole || 'None'}</p>
+      </div>
+    </div>
+  )
+}
+
+// Admin and staff pages: check the permission, then the second factor
+const PermissionGate = ({ children, permission, requireMfa }: { children: React.ReactNode; permission?: Permission; requireMfa: boolean }) => {
+  const { permissions, loading, error } = usePermissions()
 
   if (loading) {
+    return <LoadingScreen />
+  }
+
+  if (error) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+      <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
-          <LoadingSpinner size="lg" />
-          <p className="mt-4 text-gray-600">Loading...</p>
+          <h2 className="text-2xl font-bold text-red-600 mb-4">Couldn't check your access</h2>
+          <p className="text-gray-700">Refresh the page to try again.</p>
         </div>
       </div>
     )
   }
 
+  const allowed = permission ? permissions.includes(permission) : permissions.length > 0
+  if (!allowed) {
+    // Staff go to a page they can open; everyone else to their own home
+    return permissions.length > 0
+      ? <Navigate to={adminHomePath(permissions)} replace />
+      : <RoleHomeRedirect requirement={permission ?? 'staff access'} />
+  }
+
+  return requireMfa ? <AdminMfaGate>{children}</AdminMfaGate> : <>{children}</>
+}
+
+const ProtectedRoute = ({ children, allowedRoles, permission, staffOnly = false, requireMfa = true }: ProtectedRouteProps) => {
+  const { user, profile, loading, hasRole } = useAuth()
+
+  if (loading) {
+    return <LoadingScreen />
+  }
+
   if (!user || !profile) {
     return <Navigate to="/login" replace />
   }
 
+  if (permission || staffOnly) {
+    return (
+      <PermissionGate permission={permission} requireMfa={requireMfa}>
+        {children}
+      </PermissionGate>
+    )
+  }
+
   if (allowedRoles) {
     const hasRequiredRole = allowedRoles.some(role => hasRole(role))
-    
+
     if (!hasRequiredRole) {
-      // Redirect based on primary role
-      if (primaryRole === 'admin') {
-        return <Navigate to="/admin" replace />
-      } else if (primaryRole === 'landlord') {
-        return <Navigate to="/landlord" replace />
-      } else if (primaryRole === 'renter') {
-        return <Navigate to="/renter" replace />
-      } else {
-        // No valid role, show error or redirect
-        return (
-          <div className="min-h-screen flex items-center justify-center">
-            <div className="text-center">
-              <h2 className="text-2xl font-bold text-red-600 mb-4">Access Denied</h2>
-              <p className="text-gray-700 mb-4">Your account does not have a valid role assigned. Please contact support.</p>
-              <p className="text-sm text-gray-500">Required roles: {allowedRoles.join(', ')}</p>
-              <p className="text-sm text-gray-500">Your current role: {primaryRole || 'None'}</p>
-            </div>
-          </div>
-        );
-      }
+      return <RoleHomeRedirect requirement={`roles ${allowedRoles.join(', ')}`} />
+    }
+
+    // Only gate users who get in through the admin role
+    const accessIsAdminOnly = !allowedRoles.some(role => role !== 'admin' && hasRole(role))
+    if (requireMfa && allowedRoles.includes('admin') && accessIsAdminOnly) {
+      return <AdminMfaGate>{children}</AdminMfaGate>
     }
   }
 
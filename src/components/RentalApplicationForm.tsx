@@ -15,6 +15,7 @@ import {
   validatePhone,
   ValidationError
 } from '@/utils/errorHandling';
+import { ApplicationService } from '@/services/applicationService';
 import { FileText, Upload, X, CheckCircle } from 'lucide-react';
 
 interface RentalApplicationFormProps {
@@ -56,23 +57,14 @@ const RentalApplicationForm = ({ propertyId, propertyPrice, onSuccess }: RentalA
     if (!profile?.id) return;
 
     try {
-      const { data, error } = await supabase
-        .from('rental_applications')
-        .select('id, status, created_at')
-        .eq('property_id', propertyId)
-        .eq('renter_id', profile.id)
-        .single();
-
-      if (error && error.code !== 'PGRST116') throw error;
+      const data = await ApplicationService.getExisting(propertyId, profile.id);
       
       if (data) {
         setHasExistingApplication(true);
         setExistingApplication(data);
       }
-    } catch (error: any) {
-      if (error.code !== 'PGRST116') {
-        handleError(error, toast, 'Failed to check existing application');
-      }
+    } catch (error) {
+      handleError(error, toast, 'Failed to check existing application');
     }
   };
 
@@ -202,35 +194,18 @@ const RentalApplicationForm = ({ propertyId, propertyPrice, onSuccess }: RentalA
         throw new ValidationError('User authentication required');
       }
 
-      // Check if user has uploaded at least one document
-      if (uploadedFiles.length === 0) {
-        throw new ValidationError('Please upload at least one document (ID, proof of income, etc.)');
-      }
-      
-      // Insert application record
-      const { data: application, error: insertError } = await supabase
-        .from('rental_applications')
-        .insert([{
-          property_id: propertyId,
-          renter_id: profile.id,
-          full_name: fullName,
-          email,
-          phone: phone || null,
-          employment_info: employmentInfo,
-          references_info: referencesInfo,
-          document_urls: uploadedFiles.map(f => f.url),
-          status: 'application_pending',
-          rent_amount: propertyPrice
-        }])
-        .select()
-        .single();
-        
-      if (insertError) {
-        if (insertError.code === '23505') { // Unique violation
-          throw new ValidationError('You have already applied for this property');
-        }
-        throw insertError;
-      }
+      // Insert application record; at least one document is required
+      const application = await ApplicationService.submit({
+        property_id: propertyId,
+        renter_id: profile.id,
+        full_name: fullName,
+        email,
+        phone: phone || null,
+        employment_info: employmentInfo,
+        references_info: referencesInfo,
+        document_urls: uploadedFiles.map(f => f.url),
+        rent_amount: propertyPrice
+      });
       
       handleSuccess(toast, 'Your rental application has been submitted successfully! The landlord will review it and get back to you soon.', {
         title: 'Application Submitted',
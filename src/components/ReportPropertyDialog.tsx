@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import { PropertyReportReason } from '@/integrations/supabase/types';
+import {
+  MAX_REPORT_EVIDENCE,
+  PropertyReportService,
+  REPORT_REASON_LABELS,
+} from '@/services/propertyReportService';
+import { Flag, Paperclip, X } from 'lucide-react';
+
+interface ReportPropertyDialogProps {
+  propertyId: string;
+  propertyTitle?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReported?: () => void;
+}
+
+const MAX_EVIDENCE_SIZE = 5 * 1024 * 1024;
+
+const ReportPropertyDialog = ({
+  propertyId,
+  propertyTitle,
+  open,
+  onOpenChange,
+  onReported,
+}: ReportPropertyDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reason, setReason] = useState<PropertyReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [evidence, setEvidence] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setDetails('');
+      setEvidence([]);
+    }
+  }, [open]);
+
+  const handleFilesSelected = (files: FileList | null) => {
+    if (!files) return;
+    const selected = Array.from(files);
+    const tooLarge = selected.filter(file => file.size > MAX_EVIDENCE_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: 'File too large',
+        description: `${tooLarge.map(file => file.name).join(', ')} is over 5MB.`,
+        variant: 'destructive',
+      });
+    }
+    setEvidence(prev =>
+      [...prev, ...selected.filter(file => file.size <= MAX_EVIDENCE_SIZE)].slice(0, MAX_REPORT_EVIDENCE)
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !reason) return;
+
+    setSubmitting(true);
+    try {
+      await PropertyReportService.submitReport(user.id, { propertyId, reason, details, evidence });
+      toast({
+        title: 'Report submitted',
+        description: "Thanks for letting us know. Our team will review this listing and update you.",
+      });
+      onReported?.();
+      onOpenChange(false);
+    } catch (error) {
+      handleError(error, toast, 'Failed to submit report', { context: 'ReportPropertyDialog' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            Report Listing
+          </DialogTitle>
+          {propertyTitle && <DialogDescription>{propertyTitle}</DialogDescription>}
+        </DialogHeader>
+
+        {!user ? (
+          <p className="text-sm text-gray-600 py-4">Please sign in to report a listing.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>What's wrong with this listing? *</Label>
+              <Select value={reason || undefined} onValueChange={(value) => setReason(value as PropertyReportReason)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REPORT_REASON_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-details">Details{reason === 'other' ? ' *' : ' (optional)'}</Label>
+              <Textarea
+                id="report-details"
+                rows={4}
+                maxLength={2000}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                placeholder="e.g. The landlord asked for an inspection fee before showing the property"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-evidence">Evidence (optional)</Label>
+              <input
+                id="report-evidence"
+                type="file"
+                multiple
+                accept="image/*,.pdf"
+                className="block w-full text-sm text-gray-600"
+                disabled={evidence.length >= MAX_REPORT_EVIDENCE}
+                onChange={(e) => {
+                  handleFilesSelected(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              <p className="text-xs text-gray-500">
+                Screenshots, receipts or photos - up to {MAX_REPORT_EVIDENCE} files, 5MB each. Only our moderators can see them.
+              </p>
+              {evidence.length > 0 && (
+                <ul className="space-y-1">
+                  {evidence.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm bg-gray-50 rounded px-2 py-1">
+                      <span className="flex items-center gap-2 truncate">
+                        <Paperclip className="h-3 w-3 flex-shrink-0" />
+                        {file.name}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEvidence(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={!user || !reason || (reason === 'other' && !details.trim()) || submitting}
+          >
+            {submitting ? 'Submitting...' : 'Submit Report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportPropertyDialog;
@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+// Auth rate-limits confirmation emails, so don't let people hammer the button
+const RESEND_COOLDOWN_SECONDS = 60;
+
+interface ResendVerificationButtonProps {
+  email: string;
+  variant?: ButtonProps["variant"];
+  className?: string;
+}
+
+const ResendVerificationButton = ({ email, variant = "outline", className }: ResendVerificationButtonProps) => {
+  const { resendVerification } = useAuth();
+  const { toast } = useToast();
+  const [sending, setSending] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleResend = async () => {
+    setSending(true);
+    const { error } = await resendVerification(email);
+    setSending(false);
+
+    if (error) {
+      toast({
+        title: "Couldn't resend the email",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCooldown(RESEND_COOLDOWN_SECONDS);
+    toast({
+      title: "Verification email sent",
+      description: `We sent a new confirmation link to ${email}.`,
+    });
+  };
+
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant={variant}
+      className={className}
+      disabled={sending || cooldown > 0 || !email}
+      onClick={handleResend}
+    >
+      {sending ? "Sending..." : cooldown > 0 ? `Resend in ${cooldown}s` : "Resend verification email"}
+    </Button>
+  );
+};
+
+export default ResendVerificationButton;
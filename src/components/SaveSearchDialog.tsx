@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import { SavedSearchAlertFrequency } from '@/integrations/supabase/types';
+import { PropertySearchFilters } from '@/services/propertySearchService';
+import {
+  ALERT_FREQUENCY_LABELS,
+  SavedSearchService,
+  describeSearchFilters,
+  suggestSearchName,
+} from '@/services/savedSearchService';
+import { BellRing } from 'lucide-react';
+
+interface SaveSearchDialogProps {
+  filters: PropertySearchFilters;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const SaveSearchDialog = ({ filters, open, onOpenChange, onSaved }: SaveSearchDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [alertFrequency, setAlertFrequency] = useState<SavedSearchAlertFrequency>('instant');
+  const [saving, setSaving] = useState(false);
+  const summary = describeSearchFilters(filters);
+
+  useEffect(() => {
+    if (open) {
+      setName(suggestSearchName(filters));
+      setAlertFrequency('instant');
+    }
+  }, [open, filters]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      await SavedSearchService.saveSearch(user.id, name, filters, alertFrequency);
+      toast({
+        title: 'Search saved',
+        description: alertFrequency === 'off'
+          ? 'Find it under Saved Properties.'
+          : "We'll let you know when new listings match.",
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error) {
+      handleError(error, toast, 'Failed to save search', { context: 'SaveSearchDialog' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Save This Search
+          </DialogTitle>
+          <DialogDescription>Get alerted when new listings match these filters.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {summary.length === 0 ? (
+              <Badge variant="outline">All listings</Badge>
+            ) : (
+              summary.map(part => <Badge key={part} variant="secondary">{part}</Badge>)
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              maxLength={80}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Alerts</Label>
+            <Select value={alertFrequency} onValueChange={(value) => setAlertFrequency(value as SavedSearchAlertFrequency)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ALERT_FREQUENCY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? 'Saving...' : 'Save Search'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveSearchDialog;
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import { SavedSearchAlertFrequency } from '@/integrations/supabase/types';
+import {
+  ALERT_FREQUENCY_LABELS,
+  SavedSearchService,
+  SavedSearchWithFilters,
+  describeSearchFilters,
+} from '@/services/savedSearchService';
+import { Search, Trash2 } from 'lucide-react';
+
+interface SavedSearchesManagerProps {
+  userId: string;
+}
+
+const SavedSearchesManager = ({ userId }: SavedSearchesManagerProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searches, setSearches] = useState<SavedSearchWithFilters[]>([]);
+  const [matchCounts, setMatchCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchSearches = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [savedSearches, counts] = await Promise.all([
+        SavedSearchService.getSavedSearches(userId),
+        SavedSearchService.getRecentMatchCounts(userId),
+      ]);
+      setSearches(savedSearches);
+      setMatchCounts(counts);
+    } catch (error) {
+      handleError(error, toast, 'Failed to load saved searches', { context: 'SavedSearchesManager' });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    fetchSearches();
+  }, [fetchSearches]);
+
+  const handleFrequencyChange = async (search: SavedSearchWithFilters, alertFrequency: SavedSearchAlertFrequency) => {
+    try {
+      const updated = await SavedSearchService.updateAlertFrequency(search.id, alertFrequency);
+      setSearches(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    } catch (error) {
+      handleError(error, toast, 'Failed to update alerts', { context: 'SavedSearchesManager' });
+    }
+  };
+
+  const handleDelete = async (search: SavedSearchWithFilters) => {
+    if (!window.confirm(`Delete "${search.name}"? You'll stop getting alerts for it.`)) return;
+
+    try {
+      await SavedSearchService.deleteSavedSearch(search.id);
+      setSearches(prev => prev.filter(s => s.id !== search.id));
+    } catch (error) {
+      handleError(error, toast, 'Failed to delete saved search', { context: 'SavedSearchesManager' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (searches.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center">
+          <Search className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No saved searches yet</h3>
+          <p className="text-gray-600 mb-6">
+            Search for properties and choose "Save search" to get alerted about new listings.
+          </p>
+          <Button onClick={() => navigate('/properties')}>Browse Properties</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {searches.map(search => {
+        const summary = describeSearchFilters(search.filters);
+        const newMatches = matchCounts[search.id] || 0;
+
+        return (
+          <Card key={search.id}>
+            <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-2">
+                  <h3 className="font-semibold text-gray-900 truncate">{search.name}</h3>
+                  {newMatches > 0 && (
+                    <Badge className="bg-green-100 text-green-800">{newMatches} new this week</Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {summary.length === 0 ? (
+                    <Badge variant="outline">All listings</Badge>
+                  ) : (
+                    summary.map(part => <Badge key={part} variant="secondary">{part}</Badge>)
+                  )}
+                </div>
+                {search.alert_frequency === 'daily' && search.last_digest_at && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Last digest {formatDistanceToNow(new Date(search.last_digest_at), { addSuffix: true })}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Select
+                  value={search.alert_frequency}
+                  onValueChange={(value) => handleFrequencyChange(search, value as SavedSearchAlertFrequency)}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ALERT_FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => navigate('/properties', { state: { savedSearch: search.filters } })}
+                >
+                  <Search className="w-4 h-4 mr-2" />
+                  View
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(search)} aria-label="Delete saved search">
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SavedSearchesManager;
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import { TourService, TourBookingWithDetails, isSlotAvailable } from '@/services/tourService';
+import { TourSlot } from '@/integrations/supabase/types';
+import { Calendar, Clock } from 'lucide-react';
+
+interface ScheduleTourDialogProps {
+  propertyId: string;
+  propertyTitle?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Pass an existing booking to reschedule it instead of booking a new tour
+  booking?: TourBookingWithDetails | null;
+  onScheduled?: () => void;
+}
+
+const ScheduleTourDialog = ({
+  propertyId,
+  propertyTitle,
+  open,
+  onOpenChange,
+  booking,
+  onScheduled,
+}: ScheduleTourDialogProps) => {
+  const { toast } = useToast();
+  const [slots, setSlots] = useState<TourSlot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchSlots = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSlots(await TourService.getUpcomingSlots(propertyId));
+    } catch (error) {
+      handleError(error, toast, 'Failed to load viewing times', { context: 'ScheduleTourDialog' });
+    } finally {
+      setLoading(false);
+    }
+  }, [propertyId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedSlotId(null);
+      setNotes('');
+      fetchSlots();
+    }
+  }, [open, fetchSlots]);
+
+  // Group open slots by day for display
+  const slotsByDay = useMemo(() => {
+    const groups: Record<string, TourSlot[]> = {};
+    slots
+      .filter(slot => isSlotAvailable(slot) || slot.id === booking?.slot_id)
+      .forEach(slot => {
+        const day = format(new Date(slot.starts_at), 'yyyy-MM-dd');
+        (groups[day] = groups[day] || []).push(slot);
+      });
+    return Object.entries(groups);
+  }, [slots, booking?.slot_id]);
+
+  const handleSubmit = async () => {
+    if (!selectedSlotId) return;
+
+    setSubmitting(true);
+    try {
+      if (booking) {
+        await TourService.reschedule(booking.id, selectedSlotId);
+        toast({ title: 'Tour rescheduled', description: 'The landlord will confirm your new time.' });
+      } else {
+        await TourService.book(selectedSlotId, notes);
+        toast({ title: 'Tour requested', description: 'The landlord has been notified and will confirm your viewing.' });
+      }
+      onScheduled?.();
+      onOpenChange(false);
+    } catch (error) {
+      handleError(error, toast, 'Failed to schedule tour', { context: 'ScheduleTourDialog' });
+      fetchSlots();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calendar className="h-5 w-5" />
+            {booking ? 'Reschedule Tour' : 'Schedule a Tour'}
+          </DialogTitle>
+          {propertyTitle && <DialogDescription>{propertyTitle}</DialogDescription>}
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : slotsByDay.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Clock className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+            <p>No viewing times are available right now.</p>
+            <p className="text-sm">Message the landlord to arrange a time.</p>
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+            {slotsByDay.map(([day, daySlots]) => (
+              <div key={day}>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  {format(new Date(daySlots[0].starts_at), 'EEEE, d MMMM')}
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  {daySlots.map(slot => {
+                    const isCurrent = slot.id === booking?.slot_id;
+                    return (
+                      <Button
+                        key={slot.id}
+                        type="button"
+                        size="sm"
+                        variant={selectedSlotId === slot.id ? 'default' : 'outline'}
+                        disabled={isCurrent}
+                        onClick={() => setSelectedSlotId(slot.id)}
+                      >
+                        {format(new Date(slot.starts_at), 'h:mm a')}
+                        {isCurrent && ' (current)'}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!booking && slotsByDay.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="tour-notes">Note for the landlord (optional)</Label>
+            <Textarea
+              id="tour-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. I'll be coming with my partner"
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!selectedSlotId || submitting}>
+            {submitting ? 'Saving...' : booking ? 'Reschedule' : 'Request Tour'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleTourDialog;
@@ -23,9 +23,18 @@ import {
   Heart
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { PropertyType } from "@/integrations/supabase/types";
+import {
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  PropertySearchFilters,
+  SEARCH_PRICE_CEILING,
+  parsePriceRange,
+  parseRoomFilter,
+} from "@/services/propertySearchService";
 
 interface TouchOptimizedSearchProps {
-  onSearch: (query: string, filters: any) => void;
+  onSearch: (filters: PropertySearchFilters) => void;
   placeholder?: string;
   suggestions?: string[];
   recentSearches?: string[];
@@ -35,13 +44,38 @@ interface TouchOptimizedSearchProps {
 
 interface SearchFilters {
   location: string;
-  propertyType: string;
+  propertyType: PropertyType | "all";
   bedrooms: string;
   bathrooms: string;
   priceRange: [number, number];
   amenities: string[];
 }
 
+const DEFAULT_FILTERS: SearchFilters = {
+  location: "",
+  propertyType: "all",
+  bedrooms: "all",
+  bathrooms: "all",
+  priceRange: [0, SEARCH_PRICE_CEILING],
+  amenities: []
+};
+
+const toSearchFilters = (query: string, filters: SearchFilters): PropertySearchFilters => {
+  const bedrooms = parseRoomFilter(filters.bedrooms);
+  return {
+    query: query || undefined,
+    location: filters.location || undefined,
+    propertyType: filters.propertyType === "all" ? undefined : filters.propertyType,
+    ...parsePriceRange(filters.priceRange),
+    minBedrooms: bedrooms.min,
+    maxBedrooms: bedrooms.max,
+    minBathrooms: parseRoomFilter(filters.bathrooms).min,
+    amenities: filters.amenities.length ? filters.amenities : undefined,
+  };
+};
+
+const formatNaira = (amount: number) => `₦${amount.toLocaleString()}`;
+
 const TouchOptimizedSearch = ({
   onSearch,
   placeholder = "Search properties...",
@@ -57,29 +91,22 @@ const TouchOptimizedSearch = ({
   const [activeFiltersCount, setActiveFiltersCount] = useState(0);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
-  const [filters, setFilters] = useState<SearchFilters>({
-    location: "",
-    propertyType: "all",
-    bedrooms: "all",
-    bathrooms: "all",
-    priceRange: [0, 5000],
-    amenities: []
-  });
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
 
   // Predefined suggestions
   const locationSuggestions = [
-    "Downtown", "City Center", "Suburbs", "Waterfront", "University District",
-    "Financial District", "Arts District", "Historic District"
+    "Lekki", "Victoria Island", "Ikeja", "Yaba", "Surulere",
+    "Wuse", "Maitama", "Gwarinpa"
   ];
 
   const trendingLocations = [
-    "Miami Beach", "Manhattan", "Hollywood", "Beverly Hills", "SoHo",
-    "Brooklyn Heights", "Venice Beach", "Capitol Hill"
+    "Lekki Phase 1", "Ikoyi", "Ajah", "Magodo", "Asokoro",
+    "Jabi", "GRA Port Harcourt", "Bodija"
   ];
 
   const amenityOptions = [
-    "WiFi", "Parking", "Pool", "Gym", "Pet Friendly", "Balcony",
-    "Garden", "Fireplace", "Air Conditioning", "Dishwasher"
+    "WiFi", "Parking", "Pool", "Gym", "Security", "Balcony",
+    "Garden", "Generator", "Air Conditioning", "Water Supply"
   ];
 
   useEffect(() => {
@@ -89,14 +116,15 @@ const TouchOptimizedSearch = ({
     if (filters.propertyType !== "all") count++;
     if (filters.bedrooms !== "all") count++;
     if (filters.bathrooms !== "all") count++;
-    if (filters.priceRange[0] > 0 || filters.priceRange[1] < 5000) count++;
+    if (filters.priceRange[0] > 0 || filters.priceRange[1] < SEARCH_PRICE_CEILING) count++;
     if (filters.amenities.length > 0) count++;
     setActiveFiltersCount(count);
   }, [filters]);
 
-  const handleSearch = (searchQuery?: string) => {
+  // Quick actions pass their updated filters directly since state updates land after this call
+  const handleSearch = (searchQuery?: string, nextFilters: SearchFilters = filters) => {
     const finalQuery = searchQuery || query;
-    onSearch(finalQuery, filters);
+    onSearch(toSearchFilters(finalQuery, nextFilters));
     setShowSuggestions(false);
   };
 
@@ -134,7 +162,7 @@ const TouchOptimizedSearch = ({
     }
   };
 
-  const updateFilter = (key: keyof SearchFilters, value: any) => {
+  const updateFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
     setFilters(prev => ({ ...prev, [key]: value }));
   };
 
@@ -148,14 +176,7 @@ const TouchOptimizedSearch = ({
   };
 
   const clearFilters = () => {
-    setFilters({
-      location: "",
-      propertyType: "all",
-      bedrooms: "all",
-      bathrooms: "all",
-      priceRange: [0, 5000],
-      amenities: []
-    });
+    setFilters(DEFAULT_FILTERS);
   };
 
   const clearSearch = () => {
@@ -252,14 +273,14 @@ const TouchOptimizedSearch = ({
                 <div>
                   <label className="text-sm font-medium text-gray-700 mb-2 block">Property Type</label>
                   <div className="grid grid-cols-2 gap-3">
-                    {['all', 'apartment', 'house', 'studio', 'condo'].map((type) => (
+                    {(['all', ...PROPERTY_TYPES] as const).map((type) => (
                       <Button
                         key={type}
                         variant={filters.propertyType === type ? "default" : "outline"}
-                        className="h-12 rounded-xl capitalize"
+                        className="h-12 rounded-xl"
                         onClick={() => updateFilter('propertyType', type)}
                       >
-                        {type === 'all' ? 'Any Type' : type}
+                        {type === 'all' ? 'Any Type' : PROPERTY_TYPE_LABELS[type]}
                       </Button>
                     ))}
                   </div>
@@ -285,14 +306,15 @@ const TouchOptimizedSearch = ({
                 {/* Price Range */}
                 <div>
                   <label className="text-sm font-medium text-gray-700 mb-4 block">
-                    Price Range: ${filters.priceRange[0]} - ${filters.priceRange[1]}
+                    Price Range: {formatNaira(filters.priceRange[0])} - {formatNaira(filters.priceRange[1])}
+                    {filters.priceRange[1] >= SEARCH_PRICE_CEILING && '+'} / year
                   </label>
                   <Slider
                     value={filters.priceRange}
-                    onValueChange={(value) => updateFilter('priceRange', value)}
-                    max={5000}
+                    onValueChange={(value) => updateFilter('priceRange', value as [number, number])}
+                    max={SEARCH_PRICE_CEILING}
                     min={0}
-                    step={100}
+                    step={50000}
                     className="w-full"
                   />
                 </div>
@@ -431,7 +453,7 @@ const TouchOptimizedSearch = ({
           {filters.propertyType !== 'all' && (
             <Badge variant="secondary" className="flex items-center gap-1">
               <Home className="w-3 h-3" />
-              {filters.propertyType}
+              {PROPERTY_TYPE_LABELS[filters.propertyType]}
               <button onClick={() => updateFilter('propertyType', 'all')}>
                 <X className="w-3 h-3" />
               </button>
@@ -446,11 +468,11 @@ const TouchOptimizedSearch = ({
               </button>
             </Badge>
           )}
-          {(filters.priceRange[0] > 0 || filters.priceRange[1] < 5000) && (
+          {(filters.priceRange[0] > 0 || filters.priceRange[1] < SEARCH_PRICE_CEILING) && (
             <Badge variant="secondary" className="flex items-center gap-1">
               <DollarSign className="w-3 h-3" />
-              ${filters.priceRange[0]} - ${filters.priceRange[1]}
-              <button onClick={() => updateFilter('priceRange', [0, 5000])}>
+              {formatNaira(filters.priceRange[0])} - {formatNaira(filters.priceRange[1])}
+              <button onClick={() => updateFilter('priceRange', [0, SEARCH_PRICE_CEILING])}>
                 <X className="w-3 h-3" />
               </button>
             </Badge>
@@ -482,8 +504,9 @@ const TouchOptimizedSearch = ({
           size="sm"
           className="rounded-full"
           onClick={() => {
-            updateFilter('propertyType', 'apartment');
-            handleSearch();
+            const nextFilters: SearchFilters = { ...filters, propertyType: 'apartment' };
+            setFilters(nextFilters);
+            handleSearch(undefined, nextFilters);
           }}
         >
           <Building className="w-4 h-4 mr-1" />
@@ -494,8 +517,9 @@ const TouchOptimizedSearch = ({
           size="sm"
           className="rounded-full"
           onClick={() => {
-            updateFilter('propertyType', 'house');
-            handleSearch();
+            const nextFilters: SearchFilters = { ...filters, propertyType: 'house' };
+            setFilters(nextFilters);
+            handleSearch(undefined, nextFilters);
           }}
         >
           <Home className="w-4 h-4 mr-1" />
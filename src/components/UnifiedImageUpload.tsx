@@ -10,6 +10,7 @@ import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import { compressImage, validateImageFile } from '@/utils/shared';
 import { handleError, handleSuccess } from '@/utils/errorHandling';
+import { ListingVerificationService } from '@/services/listingVerificationService';
 
 interface UnifiedImageUploadProps {
   // Common props
@@ -81,10 +82,18 @@ const UnifiedImageUpload = ({
           .from(bucket)
           .getPublicUrl(data.path);
 
-        return publicUrl;
+        return { url: publicUrl, file };
       });
 
-      const newUrls = await Promise.all(uploadPromises);
+      const uploads = await Promise.all(uploadPromises);
+      const newUrls = uploads.map(upload => upload.url);
+
+      // Fingerprint listing photos so the verification engine can spot reused images
+      if (!isAvatar) {
+        ListingVerificationService.recordPhotoFingerprints(uploads).catch(error =>
+          console.error('Error fingerprinting photos:', error)
+        );
+      }
       const updatedUrls = isAvatar || isSingle ? newUrls : [...imageUrls, ...newUrls];
       
       setImageUrls(updatedUrls);
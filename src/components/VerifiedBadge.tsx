@@ -0,0 +1,33 @@
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck } from 'lucide-react';
+
+interface VerifiedBadgeProps {
+  // Icon only, for tight spots next to a name
+  compact?: boolean;
+  className?: string;
+}
+
+const VerifiedBadge = ({ compact = false, className = '' }: VerifiedBadgeProps) => {
+  const title = 'Identity and ownership documents checked by our team';
+
+  if (compact) {
+    return (
+      <span title={title} className={`inline-flex ${className}`}>
+        <ShieldCheck className="w-4 h-4 text-green-600" aria-label="Verified landlord" />
+      </span>
+    );
+  }
+
+  return (
+    <Badge
+      variant="secondary"
+      title={title}
+      className={`bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 gap-1 ${className}`}
+    >
+      <ShieldCheck className="w-3 h-3" />
+      Verified landlord
+    </Badge>
+  );
+};
+
+export default VerifiedBadge;
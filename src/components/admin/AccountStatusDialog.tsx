@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { handleError, handleSuccess } from "@/utils/errorHandling";
+import { AccountStatus } from "@/integrations/supabase/types";
+import { ACCOUNT_STATUS_LABELS, AccountStatusService } from "@/services/accountStatusService";
+
+export interface AccountStatusTarget {
+  id: string;
+  full_name: string | null;
+  email: string;
+  status: AccountStatus;
+}
+
+interface AccountStatusDialogProps {
+  user: AccountStatusTarget | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const STATUS_DESCRIPTIONS: Record<AccountStatus, string> = {
+  active: "Can sign in and use the site normally.",
+  suspended: "Signed out, listings hidden and can't send messages. Lifts on its own if you set an end date.",
+  banned: "Signed out for good, listings hidden and can't send messages.",
+  pending_deletion: "Signed out and hidden while the account is being closed.",
+};
+
+const AccountStatusDialog = ({ user, onClose, onSaved }: AccountStatusDialogProps) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<AccountStatus>("active");
+  const [reason, setReason] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    setStatus(user.status === "active" ? "suspended" : "active");
+    setReason("");
+    setExpiresAt("");
+  }, [user]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      await AccountStatusService.setStatus(user.id, {
+        status,
+        reason,
+        // datetime-local gives local time without a zone
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      });
+      handleSuccess(toast, `${user.full_name || user.email} is now ${ACCOUNT_STATUS_LABELS[status].toLowerCase()}`);
+      onSaved();
+      onClose();
+    } catch (error) {
+      handleError(error, toast, "Failed to change account status", { context: "AccountStatusDialog" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change account status</DialogTitle>
+          <DialogDescription>
+            {user?.full_name || "Unnamed user"} ({user?.email}) is currently {user && ACCOUNT_STATUS_LABELS[user.status].toLowerCase()}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="account-status">New status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as AccountStatus)}>
+              <SelectTrigger id="account-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACCOUNT_STATUS_LABELS) as AccountStatus[]).map(value => (
+                  <SelectItem key={value} value={value}>{ACCOUNT_STATUS_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{STATUS_DESCRIPTIONS[status]}</p>
+          </div>
+
+          {status === "suspended" && (
+            <div className="space-y-2">
+              <Label htmlFor="account-status-expires">Suspended until (optional)</Label>
+              <Input
+                id="account-status-expires"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="account-status-reason">
+              Reason{status === "active" ? " (optional)" : ""}
+            </Label>
+            <Textarea
+              id="account-status-reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={status === "active" ? "e.g. Appeal accepted" : "e.g. Repeated fake listings"}
+            />
+            <p className="text-xs text-muted-foreground">The user sees this reason when they try to sign in.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant={status === "active" ? "default" : "destructive"}
+            onClick={handleSave}
+            disabled={saving || (status === user?.status && status !== "suspended")}
+          >
+            {saving ? "Saving..." : `Set to ${ACCOUNT_STATUS_LABELS[status].toLowerCase()}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountStatusDialog;
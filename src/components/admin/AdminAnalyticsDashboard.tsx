@@ -31,6 +31,12 @@ import { AnalyticsService } from "@/services/analyticsService";
 import { PropertyTransaction, PropertyFinancialMetrics } from "@/integrations/supabase/types";
 import { useAuth } from '@/hooks/useAuth';
 import { Navigate } from 'react-router-dom';
+import {
+  INCOME_TRANSACTION_TYPES,
+  LedgerService,
+  POSTED_TRANSACTION_STATUSES,
+  summarizeTransactions,
+} from '@/services/ledgerService';
 
 interface PlatformMetrics {
   totalUsers: number;
@@ -116,7 +122,7 @@ const AdminAnalyticsDashboard = () => {
       // Calculate financial metrics
       const totalRevenue = financialMetrics?.reduce((sum, m) => sum + m.total_revenue, 0) || 0;
       
-      // Calculate monthly growth from transactions
+      // Calculate monthly growth from transactions, net of refunds of rent and other income
       const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
       const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
 
@@ -124,19 +130,20 @@ const AdminAnalyticsDashboard = () => {
         .from('property_transactions')
         .select('*')
         .gte('payment_date', startOfMonth.toISOString())
-        .in('transaction_type', ['rent_payment', 'deposit', 'other_income'])
-        .eq('status', 'completed') as { data: PropertyTransaction[] | null; error: any };
+        .in('transaction_type', [...INCOME_TRANSACTION_TYPES, 'refund'])
+        .in('status', POSTED_TRANSACTION_STATUSES) as { data: PropertyTransaction[] | null; error: any };
 
       const { data: lastMonthData } = await supabase
         .from('property_transactions')
         .select('*')
         .gte('payment_date', startOfLastMonth.toISOString())
         .lt('payment_date', startOfMonth.toISOString())
-        .in('transaction_type', ['rent_payment', 'deposit', 'other_income'])
-        .eq('status', 'completed') as { data: PropertyTransaction[] | null; error: any };
+        .in('transaction_type', [...INCOME_TRANSACTION_TYPES, 'refund'])
+        .in('status', POSTED_TRANSACTION_STATUSES) as { data: PropertyTransaction[] | null; error: any };
 
-      const thisMonthRevenue = thisMonthData?.reduce((sum, t) => sum + t.amount, 0) || 0;
-      const lastMonthRevenue = lastMonthData?.reduce((sum, t) => sum + t.amount, 0) || 0;
+      const refundedTypes = await LedgerService.getRefundedTypes([...(thisMonthData || []), ...(lastMonthData || [])]);
+      const thisMonthRevenue = summarizeTransactions(thisMonthData || [], refundedTypes).revenue;
+      const lastMonthRevenue = summarizeTransactions(lastMonthData || [], refundedTypes).revenue;
 
       const monthlyGrowth = lastMonthRevenue === 0 ? 0 :
         ((thisMonthRevenue - lastMonthRevenue) / lastMonthRevenue) * 100;
@@ -145,6 +152,7 @@ const AdminAnalyticsDashboard = () => {
       const { data: reviews } = await supabase
         .from('property_reviews')
         .select('id, action')
+        .neq('action', 'automated_check')
         .order('created_at', { ascending: false });
 
       const approvedReviews = reviews?.filter(r => r.action === 'approved').length || 0;
@@ -194,15 +202,20 @@ const AdminAnalyticsDashboard = () => {
 
       if (!transactions) return;
 
-      // Group transactions by date
-      const dailyData = transactions.reduce((acc: Record<string, number>, t) => {
+      // Group transactions by date, then net each day's revenue the way the ledger does
+      const transactionsByDate = transactions.reduce((acc: Record<string, PropertyTransaction[]>, t) => {
         const date = new Date(t.payment_date || t.created_at).toISOString().split('T')[0];
-        if (!acc[date]) acc[date] = 0;
-        if (t.transaction_type === 'rent_payment' || t.transaction_type === 'deposit' || t.transaction_type === 'other_income') {
-          acc[date] += t.amount;
-        }
+        if (!acc[date]) acc[date] = [];
+        acc[date].push(t);
         return acc;
       }, {});
+      const refundedTypes = await LedgerService.getRefundedTypes(transactions);
+      const dailyData = Object.fromEntries(
+        Object.entries(transactionsByDate).map(([date, dayTransactions]) => [
+          date,
+          summarizeTransactions(dayTransactions, refundedTypes).revenue,
+        ])
+      );
 
       // Convert to chart data format
       const chartData: ChartData[] = Object.entries(dailyData).map(([date, value]) => ({
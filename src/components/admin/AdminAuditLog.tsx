@@ -0,0 +1,307 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { handleError, handleSuccess } from "@/utils/errorHandling";
+import { AdminAuditLogEntry } from "@/integrations/supabase/types";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_EXPORT_LIMIT,
+  AUDIT_PAGE_SIZE,
+  AUDIT_TARGET_LABELS,
+  AdminAuditFilters,
+  AdminAuditService,
+  auditChanges,
+  describeAuditAction,
+} from "@/services/adminAuditService";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { Download, RefreshCw, ScrollText, X } from "lucide-react";
+
+const ALL = "all";
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+const AdminAuditLog = () => {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AdminAuditFilters>({});
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<AdminAuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [selectedEntry, setSelectedEntry] = useState<AdminAuditLogEntry | null>(null);
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await AdminAuditService.getEntries(filters, page);
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (error) {
+      handleError(error, toast, "Failed to load the audit log", { context: "AdminAuditLog" });
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page, toast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = (key: keyof AdminAuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value === ALL ? undefined : value || undefined }));
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const exported = await AdminAuditService.exportCsv(filters);
+      handleSuccess(
+        toast,
+        exported >= AUDIT_EXPORT_LIMIT
+          ? `Exported the newest ${AUDIT_EXPORT_LIMIT} entries. Narrow the filters to export older ones.`
+          : `Exported ${exported} entr${exported === 1 ? "y" : "ies"}`
+      );
+    } catch (error) {
+      handleError(error, toast, "Failed to export the audit log", { context: "AdminAuditLog" });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Audit Log</h2>
+          <p className="text-muted-foreground">Every change made by admins and staff, recorded by the database</p>
+        </div>
+        <ScrollText className="h-6 w-6 text-muted-foreground" />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Admin actions</CardTitle>
+            <CardDescription>
+              {total} entr{total === 1 ? "y" : "ies"}{hasFilters ? " matching these filters" : ""}. Entries can't be edited or deleted.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={fetchEntries} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || total === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              {exporting ? "Exporting..." : "Export CSV"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-3 lg:grid-cols-6">
+            <div className="space-y-1">
+              <Label htmlFor="audit-action">Action</Label>
+              <Select value={filters.action ?? ALL} onValueChange={(value) => updateFilter("action", value)}>
+                <SelectTrigger id="audit-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                    <SelectItem key={action} value={action}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-target">Target</Label>
+              <Select value={filters.targetTable ?? ALL} onValueChange={(value) => updateFilter("targetTable", value)}>
+                <SelectTrigger id="audit-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Everything</SelectItem>
+                  {Object.entries(AUDIT_TARGET_LABELS).map(([table, label]) => (
+                    <SelectItem key={table} value={table}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-actor">Admin email</Label>
+              <Input
+                id="audit-actor"
+                placeholder="Any admin"
+                value={filters.actor ?? ""}
+                onChange={(e) => updateFilter("actor", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-target-id">Target ID</Label>
+              <Input
+                id="audit-target-id"
+                placeholder="User or listing ID"
+                value={filters.targetId ?? ""}
+                onChange={(e) => updateFilter("targetId", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from ?? ""}
+                onChange={(e) => updateFilter("from", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to ?? ""}
+                onChange={(e) => updateFilter("to", e.target.value)}
+              />
+            </div>
+          </div>
+
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFilters({});
+                setPage(1);
+              }}
+            >
+              <X className="w-4 h-4 mr-2" />
+              Clear filters
+            </Button>
+          )}
+
+          {loading && entries.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No admin actions recorded yet.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Admin</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead className="text-right">Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id} className="cursor-pointer" onClick={() => setSelectedEntry(entry)}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(entry.created_at), "d MMM yyyy, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.actor_email ?? entry.actor_id}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.action.endsWith(".delete") ? "destructive" : "secondary"}>
+                          {describeAuditAction(entry.action)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{AUDIT_TARGET_LABELS[entry.target_table] ?? entry.target_table}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{entry.target_id ?? "—"}</div>
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        {auditChanges(entry).length} field{auditChanges(entry).length === 1 ? "" : "s"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Page {page} of {pageCount}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={page === 1 || loading}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(prev => prev + 1)} disabled={page >= pageCount || loading}>
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedEntry && describeAuditAction(selectedEntry.action)}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry && (
+                <>
+                  {selectedEntry.actor_email ?? selectedEntry.actor_id} on{" "}
+                  {format(new Date(selectedEntry.created_at), "d MMM yyyy 'at' HH:mm:ss")}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedEntry && (
+            <div className="space-y-4">
+              <div className="text-sm">
+                <p className="text-gray-600">Target</p>
+                <p className="font-medium">
+                  {AUDIT_TARGET_LABELS[selectedEntry.target_table] ?? selectedEntry.target_table}
+                </p>
+                <p className="font-mono text-xs text-muted-foreground break-all">{selectedEntry.target_id ?? "—"}</p>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {auditChanges(selectedEntry).map(change => (
+                    <TableRow key={change.field}>
+                      <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                      <TableCell className="font-mono text-xs break-all text-red-700">{formatValue(change.before)}</TableCell>
+                      <TableCell className="font-mono text-xs break-all text-green-700">{formatValue(change.after)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminAuditLog;
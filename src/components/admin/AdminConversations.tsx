@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { handleError } from "@/utils/errorHandling";
+import { ChatRoomStatus, Database } from "@/integrations/supabase/types";
+import {
+  CHAT_ROOM_STATUS_LABELS,
+  CONVERSATIONS_PAGE_SIZE,
+  ChatRoomWithParticipants,
+  ChatService,
+} from "@/services/chatService";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { MessageSquare, Paperclip, RefreshCw } from "lucide-react";
+
+type Message = Database["public"]["Tables"]["messages"]["Row"];
+
+const ALL = "all";
+
+const participantName = (participant: ChatRoomWithParticipants["renter"], fallback: string) =>
+  participant?.full_name || participant?.email || fallback;
+
+// Read-only view of conversations for settling disputes between renters and landlords
+const AdminConversations = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ChatRoomStatus | undefined>();
+  const [page, setPage] = useState(1);
+  const [rooms, setRooms] = useState<ChatRoomWithParticipants[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [selectedRoom, setSelectedRoom] = useState<ChatRoomWithParticipants | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const pageCount = Math.max(1, Math.ceil(total / CONVERSATIONS_PAGE_SIZE));
+  const selectedRoomId = selectedRoom?.id;
+
+  const fetchRooms = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await ChatService.getAllRooms(status, page);
+      setRooms(result.rooms);
+      setTotal(result.total);
+    } catch (error) {
+      handleError(error, toast, "Failed to load conversations", { context: "AdminConversations" });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page, toast]);
+
+  useEffect(() => {
+    fetchRooms();
+  }, [fetchRooms]);
+
+  useEffect(() => {
+    if (!selectedRoomId) return;
+
+    setMessages([]);
+    setLoadingMessages(true);
+    ChatService.getRoomMessages(selectedRoomId)
+      .then(setMessages)
+      .catch(error => handleError(error, toast, "Failed to load messages", { context: "AdminConversations" }))
+      .finally(() => setLoadingMessages(false));
+  }, [selectedRoomId, toast]);
+
+  const senderName = (senderId: string) => {
+    if (!selectedRoom) return "";
+    if (senderId === selectedRoom.renter_id) return `${participantName(selectedRoom.renter, "Renter")} (renter)`;
+    if (senderId === selectedRoom.landlord_id) return `${participantName(selectedRoom.landlord, "Landlord")} (landlord)`;
+    return "Former participant";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Conversations</h2>
+          <p className="text-muted-foreground">Read conversations between renters and landlords to help settle disputes</p>
+        </div>
+        <MessageSquare className="h-6 w-6 text-muted-foreground" />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-5">
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>All conversations</CardTitle>
+              <CardDescription>{total} conversation{total === 1 ? "" : "s"}</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={fetchRooms} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="conversation-status">Status</Label>
+              <Select
+                value={status ?? ALL}
+                onValueChange={(value) => {
+                  setStatus(value === ALL ? undefined : (value as ChatRoomStatus));
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger id="conversation-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {(Object.keys(CHAT_ROOM_STATUS_LABELS) as ChatRoomStatus[]).map(value => (
+                    <SelectItem key={value} value={value}>{CHAT_ROOM_STATUS_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {loading && rooms.length === 0 ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : rooms.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">No conversations yet.</p>
+            ) : (
+              <ul className="divide-y rounded-md border">
+                {rooms.map(room => (
+                  <li key={room.id}>
+                    <button
+                      type="button"
+                      className={`w-full text-left p-3 text-sm hover:bg-muted ${room.id === selectedRoomId ? "bg-muted" : ""}`}
+                      onClick={() => setSelectedRoom(room)}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium truncate">{room.property?.title ?? "Listing"}</span>
+                        <Badge variant={room.status === "closed" ? "destructive" : "secondary"}>
+                          {CHAT_ROOM_STATUS_LABELS[room.status]}
+                        </Badge>
+                      </div>
+                      <p className="text-muted-foreground truncate">
+                        {participantName(room.renter, "Renter")} and {participantName(room.landlord, "Landlord")}
+                      </p>
+                      {room.created_at && (
+                        <p className="text-xs text-muted-foreground">Started {format(new Date(room.created_at), "d MMM yyyy")}</p>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                Page {page} of {pageCount}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={page === 1 || loading}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPage(prev => prev + 1)} disabled={page >= pageCount || loading}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle>{selectedRoom ? selectedRoom.property?.title ?? "Listing" : "Messages"}</CardTitle>
+            <CardDescription>
+              {selectedRoom
+                ? `${participantName(selectedRoom.renter, "Renter")} and ${participantName(selectedRoom.landlord, "Landlord")}`
+                : "Pick a conversation to read it"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!selectedRoom ? null : loadingMessages ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner />
+              </div>
+            ) : messages.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">No messages in this conversation.</p>
+            ) : (
+              <ol className="space-y-4 max-h-[60vh] overflow-y-auto">
+                {messages.map(message => (
+                  <li key={message.id} className="text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{senderName(message.sender_id)}</span>
+                      {message.created_at && (
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(message.created_at), "d MMM yyyy, HH:mm")}
+                        </span>
+                      )}
+                      {message.auto_reply && <Badge variant="outline">Auto-reply</Badge>}
+                    </div>
+                    {message.content && <p className="mt-1 whitespace-pre-wrap">{message.content}</p>}
+                    {message.attachments?.map(attachment => (
+                      <p key={attachment.path} className="mt-1 flex items-center gap-1 text-muted-foreground">
+                        <Paperclip className="w-3 h-3" />
+                        {attachment.name}
+                      </p>
+                    ))}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminConversations;
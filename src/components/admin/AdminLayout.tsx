@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermission";
 import { useToast } from "@/hooks/use-toast";
 import {
   Shield,
@@ -14,8 +15,15 @@ import {
   Menu,
   X,
   Bell,
-  Search
+  Search,
+  ShieldCheck,
+  KeyRound,
+  ScrollText,
+  MessageSquare,
+  CreditCard,
+  type LucideIcon
 } from "lucide-react";
+import { Permission } from "@/integrations/supabase/types";
 
 interface AdminLayoutProps {
   children: React.ReactNode;
@@ -23,22 +31,33 @@ interface AdminLayoutProps {
 
 const AdminLayout = ({ children }: AdminLayoutProps) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const { profile, signOut } = useAuth();
+  const { profile, signOut, hasRole } = useAuth();
+  const { can } = usePermissions();
   const location = useLocation();
   const navigate = useNavigate();
   const { toast } = useToast();
 
   const isActive = (path: string) => location.pathname === path;
 
-  const adminNavItems = [
-    { to: "/admin", icon: Shield, label: "Dashboard", active: isActive('/admin') },
-    { to: "/admin/users", icon: Users, label: "User Management", active: isActive('/admin/users') },
-    { to: "/admin/properties", icon: Home, label: "Property Management", active: isActive('/admin/properties') },
-    { to: "/admin/analytics", icon: BarChart3, label: "Analytics", active: isActive('/admin/analytics') },
-    { to: "/admin/database", icon: Database, label: "Database", active: isActive('/admin/database') },
-    { to: "/admin/settings", icon: Settings, label: "System Settings", active: isActive('/admin/settings') },
+  // Staff only see the pages their permissions open; Security is for everyone's own second factor
+  const navItems: { to: string; icon: LucideIcon; label: string; permission: Permission | null }[] = [
+    { to: "/admin", icon: Shield, label: "Dashboard", permission: "analytics.view" },
+    { to: "/admin/users", icon: Users, label: "User Management", permission: "users.view" },
+    { to: "/admin/properties", icon: Home, label: "Property Management", permission: "listings.review" },
+    { to: "/admin/verifications", icon: ShieldCheck, label: "Landlord Verification", permission: "verifications.review" },
+    { to: "/admin/conversations", icon: MessageSquare, label: "Conversations", permission: "chats.read" },
+    { to: "/admin/payments", icon: CreditCard, label: "Payments", permission: "payments.view" },
+    { to: "/admin/analytics", icon: BarChart3, label: "Analytics", permission: "analytics.view" },
+    { to: "/admin/database", icon: Database, label: "Database", permission: "database.manage" },
+    { to: "/admin/settings", icon: Settings, label: "System Settings", permission: "settings.manage" },
+    { to: "/admin/security", icon: KeyRound, label: "Security", permission: null },
+    { to: "/admin/audit-log", icon: ScrollText, label: "Audit Log", permission: "audit_log.view" },
   ];
 
+  const adminNavItems = navItems
+    .filter(item => !item.permission || can(item.permission))
+    .map(item => ({ ...item, active: isActive(item.to) }));
+
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -124,7 +143,7 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
                 <p className="text-sm font-medium text-white truncate">
                   {profile?.full_name || 'Admin'}
                 </p>
-                <p className="text-xs text-red-300 truncate">System Administrator</p>
+                <p className="text-xs text-red-300 truncate">{hasRole('admin') ? 'System Administrator' : 'Staff'}</p>
               </div>
             </div>
             
@@ -197,7 +216,7 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
                     <p className="text-sm font-medium text-white truncate">
                       {profile?.full_name || 'Admin'}
                     </p>
-                    <p className="text-xs text-red-300 truncate">System Administrator</p>
+                    <p className="text-xs text-red-300 truncate">{hasRole('admin') ? 'System Administrator' : 'Staff'}</p>
                   </div>
                 </div>
                 
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { handleError } from "@/utils/errorHandling";
+import {
+  PAYMENTS_PAGE_SIZE,
+  PAYMENT_STATUS_LABELS,
+  PaymentIntentStatus,
+  PaymentIntentWithParties,
+  PaymentService,
+} from "@/services/paymentService";
+import { PlatformCurrency, formatCurrency } from "@/services/platformSettingsService";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { CreditCard, RefreshCw } from "lucide-react";
+
+const ALL = "all";
+
+const STATUS_BADGE_VARIANTS: Record<PaymentIntentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  processing: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+  cancelled: "outline",
+  refund_required: "destructive",
+};
+
+const AdminPayments = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<PaymentIntentStatus | undefined>();
+  const [page, setPage] = useState(1);
+  const [intents, setIntents] = useState<PaymentIntentWithParties[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const pageCount = Math.max(1, Math.ceil(total / PAYMENTS_PAGE_SIZE));
+
+  const fetchIntents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await PaymentService.getIntents(status, page);
+      setIntents(result.intents);
+      setTotal(result.total);
+    } catch (error) {
+      handleError(error, toast, "Failed to load payments", { context: "AdminPayments" });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page, toast]);
+
+  useEffect(() => {
+    fetchIntents();
+  }, [fetchIntents]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Payments</h2>
+          <p className="text-muted-foreground">Rent and deposit payments made through checkout</p>
+        </div>
+        <CreditCard className="h-6 w-6 text-muted-foreground" />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>All payments</CardTitle>
+            <CardDescription>
+              {total} payment{total === 1 ? "" : "s"}{status ? ` ${PAYMENT_STATUS_LABELS[status].toLowerCase()}` : ""}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchIntents} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1 max-w-xs">
+            <Label htmlFor="payment-status">Status</Label>
+            <Select
+              value={status ?? ALL}
+              onValueChange={(value) => {
+                setStatus(value === ALL ? undefined : (value as PaymentIntentStatus));
+                setPage(1);
+              }}
+            >
+              <SelectTrigger id="payment-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {(Object.keys(PAYMENT_STATUS_LABELS) as PaymentIntentStatus[]).map(value => (
+                  <SelectItem key={value} value={value}>{PAYMENT_STATUS_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loading && intents.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : intents.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No payments yet.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Renter</TableHead>
+                    <TableHead>Listing</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {intents.map(intent => (
+                    <TableRow key={intent.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {intent.created_at ? format(new Date(intent.created_at), "d MMM yyyy, HH:mm") : "—"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{intent.renter?.full_name || "Unnamed renter"}</div>
+                        <div className="text-xs text-muted-foreground">{intent.renter?.email}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{intent.property?.title ?? "—"}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        <div>{intent.reference}</div>
+                        <div className="text-muted-foreground capitalize">{intent.provider}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGE_VARIANTS[intent.status]} title={intent.failure_reason ?? undefined}>
+                          {PAYMENT_STATUS_LABELS[intent.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right text-sm font-medium">
+                        {formatCurrency(intent.amount, intent.currency as PlatformCurrency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Page {page} of {pageCount}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={page === 1 || loading}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(prev => prev + 1)} disabled={page >= pageCount || loading}>
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminPayments;
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { handleError } from "@/utils/errorHandling";
+import { AdminMfaStatus } from "@/integrations/supabase/types";
+import { MfaService } from "@/services/mfaService";
+import RecoveryCodesList from "@/components/admin/RecoveryCodesList";
+import { KeyRound, RefreshCw, ShieldAlert, ShieldCheck } from "lucide-react";
+
+// Warn admins before they run out of ways back into their account
+const LOW_RECOVERY_CODES = 3;
+
+const AdminSecurity = () => {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const [admins, setAdmins] = useState<AdminMfaStatus[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const me = admins.find(admin => admin.user_id === profile?.id);
+
+  const fetchAdmins = useCallback(async () => {
+    setLoading(true);
+    try {
+      setAdmins(await MfaService.getAdminMfaStatus());
+    } catch (error) {
+      handleError(error, toast, "Failed to load admin accounts", { context: "AdminSecurity" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  const handleRegenerate = async () => {
+    setRegenerating(true);
+    try {
+      setNewCodes(await MfaService.generateRecoveryCodes());
+      fetchAdmins();
+    } catch (error) {
+      handleError(error, toast, "Failed to generate recovery codes", { context: "AdminSecurity" });
+    } finally {
+      setRegenerating(false);
+      setConfirmRegenerate(false);
+    }
+  };
+
+  const adminsWithoutMfa = admins.filter(admin => !admin.mfa_enabled).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Security</h2>
+          <p className="text-muted-foreground">Two-factor authentication for admin accounts</p>
+        </div>
+        <KeyRound className="h-6 w-6 text-muted-foreground" />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-green-600" />
+            Your two-factor authentication
+          </CardTitle>
+          <CardDescription>
+            You verified an authenticator code to open this session.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="text-sm">
+            {me ? (
+              <>
+                <p>
+                  {me.recovery_codes_remaining} of 10 recovery codes left
+                  {me.recovery_codes_remaining <= LOW_RECOVERY_CODES && (
+                    <Badge variant="destructive" className="ml-2">Running low</Badge>
+                  )}
+                </p>
+                {me.mfa_enrolled_at && (
+                  <p className="text-muted-foreground">
+                    Authenticator added {format(new Date(me.mfa_enrolled_at), "d MMM yyyy")}
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-muted-foreground">Loading...</p>
+            )}
+          </div>
+          <Button variant="outline" onClick={() => setConfirmRegenerate(true)} disabled={regenerating}>
+            Generate new recovery codes
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Admin accounts</CardTitle>
+            <CardDescription>
+              {adminsWithoutMfa > 0
+                ? `${adminsWithoutMfa} admin${adminsWithoutMfa === 1 ? " hasn't" : "s haven't"} set up two-factor yet and can't use admin tools until they do.`
+                : "Every admin has two-factor authentication turned on."}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchAdmins} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Admin</TableHead>
+                <TableHead>Two-factor</TableHead>
+                <TableHead>Enabled since</TableHead>
+                <TableHead className="text-right">Recovery codes left</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {admins.map(admin => (
+                <TableRow key={admin.user_id}>
+                  <TableCell>
+                    <div className="font-medium">{admin.full_name || "Unnamed admin"}</div>
+                    <div className="text-sm text-muted-foreground">{admin.email}</div>
+                  </TableCell>
+                  <TableCell>
+                    {admin.mfa_enabled ? (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                        <ShieldCheck className="w-3 h-3 mr-1" />
+                        Enabled
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive">
+                        <ShieldAlert className="w-3 h-3 mr-1" />
+                        Not set up
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {admin.mfa_enrolled_at ? format(new Date(admin.mfa_enrolled_at), "d MMM yyyy") : "—"}
+                  </TableCell>
+                  <TableCell className={`text-right ${admin.mfa_enabled && admin.recovery_codes_remaining <= LOW_RECOVERY_CODES ? "text-red-600 font-medium" : ""}`}>
+                    {admin.mfa_enabled ? admin.recovery_codes_remaining : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmRegenerate} onOpenChange={setConfirmRegenerate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Generate new recovery codes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your current recovery codes will stop working straight away.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={regenerating}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRegenerate();
+              }}
+              disabled={regenerating}
+            >
+              {regenerating ? "Generating..." : "Generate codes"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!newCodes} onOpenChange={(open) => !open && setNewCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Your new recovery codes</DialogTitle>
+            <DialogDescription>Save these now. Your old codes no longer work.</DialogDescription>
+          </DialogHeader>
+          {newCodes && <RecoveryCodesList codes={newCodes} email={profile?.email} />}
+          <DialogFooter>
+            <Button onClick={() => setNewCodes(null)}>I've saved my recovery codes</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminSecurity;
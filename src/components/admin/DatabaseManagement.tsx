@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -6,8 +6,22 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/lib/supabase";
+import { handleError } from "@/utils/errorHandling";
+import { DatabaseBackupFormat } from "@/integrations/supabase/types";
+import {
+  BackupBundle,
+  BackupService,
+  BACKUP_TABLES,
+  DatabaseBackupWithActor,
+  RestoreReport,
+  getBundleCounts,
+  parseBundle,
+} from "@/services/backupService";
 import {
   Database,
   HardDrive,
@@ -32,13 +46,6 @@ type TableInfo = {
   hasRLS: boolean;
 };
 
-type BackupInfo = {
-  id: string;
-  timestamp: string;
-  size: string;
-  status: 'completed' | 'failed' | 'in_progress';
-};
-
 type HealthStatus = {
   status: 'healthy' | 'error' | 'warning';
   message: string;
@@ -53,9 +60,15 @@ type StorageInfo = {
 
 export default function DatabaseManagement() {
   const { toast } = useToast();
+  const { profile } = useAuth();
   const [loading, setLoading] = useState(false);
   const [tables, setTables] = useState<TableInfo[]>([]);
-  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [backups, setBackups] = useState<DatabaseBackupWithActor[]>([]);
+  const [backupFormat, setBackupFormat] = useState<DatabaseBackupFormat>('json');
+  const [backingUp, setBackingUp] = useState(false);
+  const [restoreBundle, setRestoreBundle] = useState<BackupBundle | null>(null);
+  const [restoreReport, setRestoreReport] = useState<RestoreReport | null>(null);
+  const [restoring, setRestoring] = useState(false);
   const [dbSize, setDbSize] = useState('0 MB');
   const [dbHealth, setDbHealth] = useState<HealthStatus>({ status: 'healthy', message: 'Loading...' });
   const [storageInfo, setStorageInfo] = useState<StorageInfo[]>([]);
@@ -77,10 +90,19 @@ export default function DatabaseManagement() {
   // Known storage buckets
   const knownBuckets = ['property-images'] as const;
 
+  const fetchBackups = useCallback(async () => {
+    try {
+      setBackups(await BackupService.getBackups());
+    } catch (error) {
+      handleError(error, toast, 'Failed to load backup history', { context: 'DatabaseManagement' });
+    }
+  }, [toast]);
+
   useEffect(() => {
     fetchDatabaseInfo();
     fetchStorageInfo();
-  }, []);
+    fetchBackups();
+  }, [fetchBackups]);
 
   const fetchStorageInfo = async () => {
     try {
@@ -204,23 +226,6 @@ export default function DatabaseManagement() {
         message: 'All systems operational'
       });
 
-      // Mock backup data
-      const mockBackups: BackupInfo[] = [
-        {
-          id: '1',
-          timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
-          size: '150 MB',
-          status: 'completed'
-        },
-        {
-          id: '2',
-          timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-          size: '148 MB',
-          status: 'completed'
-        }
-      ];
-      setBackups(mockBackups);
-
     } catch (error) {
       console.error('Error fetching database info:', error);
       toast({
@@ -249,12 +254,83 @@ export default function DatabaseManagement() {
     }
   };
 
+  const downloadFile = (url: string, filename?: string) => {
+    const a = document.createElement('a');
+    a.href = url;
+    if (filename) a.download = filename;
+    a.click();
+  };
+
   const handleBackup = async () => {
-    toast({
-      title: "Backup Started",
-      description: "Database backup has been initiated.",
-    });
-    // In production, implement actual backup logic
+    if (!profile) return;
+
+    setBackingUp(true);
+    try {
+      const { backup, file, filename } = await BackupService.createBackup(profile.id, backupFormat);
+      const url = window.URL.createObjectURL(file);
+      downloadFile(url, filename);
+      window.URL.revokeObjectURL(url);
+      toast({
+        title: "Backup Created",
+        description: `${Object.values(backup.table_counts).reduce((sum, count) => sum + count, 0)} rows exported and stored.`,
+      });
+    } catch (error) {
+      handleError(error, toast, 'Failed to create backup', { context: 'DatabaseManagement' });
+    } finally {
+      setBackingUp(false);
+      await fetchBackups();
+    }
+  };
+
+  const handleDownloadBackup = async (backup: DatabaseBackupWithActor) => {
+    try {
+      downloadFile(await BackupService.getDownloadUrl(backup));
+    } catch (error) {
+      handleError(error, toast, 'Failed to download backup', { context: 'DatabaseManagement' });
+    }
+  };
+
+  // Parse the chosen bundle and dry-run it so the admin sees the diff before restoring
+  const handleRestoreFile = async (file: File | undefined) => {
+    setRestoreBundle(null);
+    setRestoreReport(null);
+    if (!file) return;
+
+    setRestoring(true);
+    try {
+      const bundle = parseBundle(await file.text());
+      setRestoreReport(await BackupService.restoreBundle(bundle, true));
+      setRestoreBundle(bundle);
+    } catch (error) {
+      handleError(error, toast, 'Failed to read backup file', { context: 'DatabaseManagement' });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const rowsToRestore = restoreReport
+    ? Object.values(restoreReport.tables).reduce((sum, diff) => sum + diff.to_insert, 0)
+    : 0;
+
+  const handleRestore = async () => {
+    if (!restoreBundle || !confirm(`Restore ${rowsToRestore} rows into this project?`)) return;
+
+    setRestoring(true);
+    try {
+      const report = await BackupService.restoreBundle(restoreBundle, false);
+      const inserted = Object.values(report.tables).reduce((sum, diff) => sum + diff.to_insert, 0);
+      toast({
+        title: "Restore Complete",
+        description: `${inserted} rows restored.`,
+      });
+      setRestoreBundle(null);
+      setRestoreReport(null);
+      await Promise.all([fetchBackups(), fetchDatabaseInfo()]);
+    } catch (error) {
+      handleError(error, toast, 'Failed to restore backup', { context: 'DatabaseManagement' });
+    } finally {
+      setRestoring(false);
+    }
   };
 
   const handleVacuum = async (tableName: string) => {
@@ -459,10 +535,21 @@ export default function DatabaseManagement() {
         <TabsContent value="backups" className="space-y-4">
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-bold">Database Backups</h2>
-            <Button onClick={handleBackup}>
-              <Download className="h-4 w-4 mr-2" />
-              Create Backup
-            </Button>
+            <div className="flex items-center gap-2">
+              <Select value={backupFormat} onValueChange={(value: DatabaseBackupFormat) => setBackupFormat(value)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleBackup} disabled={backingUp}>
+                <Download className="h-4 w-4 mr-2" />
+                {backingUp ? 'Exporting...' : 'Create Backup'}
+              </Button>
+            </div>
           </div>
 
           <div className="rounded-md border">
@@ -470,42 +557,142 @@ export default function DatabaseManagement() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Timestamp</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Rows</TableHead>
                   <TableHead>Size</TableHead>
+                  <TableHead>By</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {backups.map((backup) => (
+                {backups.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No backups have been created yet.
+                    </TableCell>
+                  </TableRow>
+                ) : backups.map((backup) => (
                   <TableRow key={backup.id}>
                     <TableCell>
-                      {new Date(backup.timestamp).toLocaleString()}
+                      {new Date(backup.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="capitalize">
+                      {backup.kind} ({backup.format.toUpperCase()} v{backup.format_version})
+                    </TableCell>
+                    <TableCell>
+                      {Object.values(backup.table_counts).reduce((sum, count) => sum + count, 0)}
                     </TableCell>
-                    <TableCell>{backup.size}</TableCell>
+                    <TableCell>{backup.size_bytes !== null ? formatBytes(backup.size_bytes) : '—'}</TableCell>
+                    <TableCell>{backup.actor?.full_name || backup.actor?.email || '—'}</TableCell>
                     <TableCell>
                       <Badge
-                        variant={
-                          backup.status === 'completed'
-                            ? "default"
-                            : backup.status === 'failed'
-                            ? "destructive"
-                            : "secondary"
-                        }
+                        variant={backup.status === 'completed' ? "default" : "destructive"}
+                        title={backup.error || undefined}
                       >
                         {backup.status}
                       </Badge>
                     </TableCell>
                     <TableCell>
-                      <Button variant="outline" size="sm">
-                        <Download className="h-4 w-4 mr-2" />
-                        Download
-                      </Button>
+                      {backup.storage_path && (
+                        <Button variant="outline" size="sm" onClick={() => handleDownloadBackup(backup)}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Download
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
           </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Upload className="h-4 w-4 mr-2" />
+                Restore from Backup
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Restores rows from a JSON or CSV bundle that don't already exist. Users must exist in
+                authentication before their profiles and related rows can be restored.
+              </p>
+              <Input
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                disabled={restoring}
+                onChange={(e) => handleRestoreFile(e.target.files?.[0])}
+              />
+
+              {restoreReport && restoreBundle && (
+                <>
+                  <Alert>
+                    <AlertTitle>Dry run</AlertTitle>
+                    <AlertDescription>
+                      Bundle from {new Date(restoreBundle.created_at).toLocaleString()} with{' '}
+                      {Object.values(getBundleCounts(restoreBundle)).reduce((sum, count) => sum + count, 0)} rows.
+                      Nothing has been changed yet.
+                    </AlertDescription>
+                  </Alert>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Table</TableHead>
+                          <TableHead>In Bundle</TableHead>
+                          <TableHead>Already Present</TableHead>
+                          <TableHead>Missing Parent</TableHead>
+                          <TableHead>Failed Checks</TableHead>
+                          <TableHead>Will Insert</TableHead>
+                          <TableHead>Dropped Columns</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {BACKUP_TABLES.map((table) => {
+                          const diff = restoreReport.tables[table];
+                          return (
+                            <TableRow key={table}>
+                              <TableCell className="font-medium">{table}</TableCell>
+                              <TableCell>{diff.in_bundle}</TableCell>
+                              <TableCell>{diff.already_present}</TableCell>
+                              <TableCell className={diff.missing_parent > 0 ? 'text-yellow-600' : ''}>
+                                {diff.missing_parent}
+                              </TableCell>
+                              <TableCell className={diff.failed_checks > 0 ? 'text-yellow-600' : ''}>
+                                {diff.failed_checks}
+                              </TableCell>
+                              <TableCell className="font-medium">{diff.to_insert}</TableCell>
+                              <TableCell className="text-muted-foreground">
+                                {diff.unknown_columns.length > 0 ? diff.unknown_columns.join(', ') : '—'}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setRestoreBundle(null);
+                        setRestoreReport(null);
+                      }}
+                      disabled={restoring}
+                    >
+                      Cancel
+                    </Button>
+                    <Button onClick={handleRestore} disabled={restoring || rowsToRestore === 0}>
+                      <Upload className="h-4 w-4 mr-2" />
+                      {restoring ? 'Restoring...' : `Restore ${rowsToRestore} rows`}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="security" className="space-y-4">
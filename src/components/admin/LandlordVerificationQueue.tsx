@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { handleError } from "@/utils/errorHandling";
+import { LandlordVerificationStatus } from "@/integrations/supabase/types";
+import {
+  ID_DOCUMENT_LABELS,
+  LandlordVerificationService,
+  LandlordVerificationWithDetails,
+  OWNERSHIP_DOCUMENT_LABELS,
+  VERIFICATION_STATUS_LABELS,
+} from "@/services/landlordVerificationService";
+import { CheckCircle, ExternalLink, FileText, Paperclip, RefreshCw, ShieldCheck, User, XCircle } from "lucide-react";
+
+const LandlordVerificationQueue = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<LandlordVerificationStatus>("pending");
+  const [verifications, setVerifications] = useState<LandlordVerificationWithDetails[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<LandlordVerificationWithDetails | null>(null);
+  const [idDocumentUrl, setIdDocumentUrl] = useState<string | null>(null);
+  const [ownershipUrls, setOwnershipUrls] = useState<string[]>([]);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchVerifications = useCallback(async () => {
+    setLoading(true);
+    try {
+      setVerifications(await LandlordVerificationService.getVerifications(status));
+    } catch (error) {
+      handleError(error, toast, "Failed to load verifications", { context: "LandlordVerificationQueue" });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    fetchVerifications();
+  }, [fetchVerifications]);
+
+  const openVerification = async (verification: LandlordVerificationWithDetails) => {
+    setSelected(verification);
+    setReason(verification.rejection_reason || "");
+    setIdDocumentUrl(null);
+    setOwnershipUrls([]);
+    try {
+      const [idUrl, ...ownership] = await LandlordVerificationService.getDocumentUrls([
+        verification.id_document_path,
+        ...verification.ownership_document_paths,
+      ]);
+      setIdDocumentUrl(idUrl ?? null);
+      setOwnershipUrls(ownership);
+    } catch (error) {
+      handleError(error, toast, "Failed to load documents", { context: "LandlordVerificationQueue" });
+    }
+  };
+
+  const handleReview = async (approve: boolean) => {
+    if (!selected) return;
+
+    setSubmitting(true);
+    try {
+      await LandlordVerificationService.reviewVerification(selected.id, approve, reason);
+      toast({
+        title: approve ? "Landlord verified" : "Verification rejected",
+        description: approve
+          ? "Their listings now show a verified badge."
+          : "The landlord has been told why and can submit again.",
+      });
+      setSelected(null);
+      fetchVerifications();
+    } catch (error) {
+      handleError(error, toast, "Failed to review verification", { context: "LandlordVerificationQueue" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Landlord Verification</h2>
+          <p className="text-muted-foreground">Check identity and proof-of-ownership documents</p>
+        </div>
+        <ShieldCheck className="h-6 w-6 text-muted-foreground" />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Select value={status} onValueChange={(value) => setStatus(value as LandlordVerificationStatus)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(VERIFICATION_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={fetchVerifications} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {loading && verifications.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <RefreshCw className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : verifications.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <ShieldCheck className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              No {VERIFICATION_STATUS_LABELS[status].toLowerCase()} submissions
+            </h3>
+            <p className="text-gray-600">
+              {status === "pending" ? "Landlord submissions will appear here for review." : "Reviewed submissions will appear here."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {verifications.map(verification => (
+            <Card key={verification.id} className="hover:shadow-lg transition-shadow">
+              <CardContent className="p-6 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2 flex-wrap">
+                      <User className="w-5 h-5" />
+                      {verification.landlord?.full_name || verification.landlord?.email || "Unknown landlord"}
+                      {verification.landlord?.verified_at && status === "pending" && (
+                        <Badge variant="secondary">Already verified</Badge>
+                      )}
+                    </h3>
+                    <p className="text-sm text-gray-600 mt-1">{verification.landlord?.email}</p>
+                  </div>
+                  <span className="text-sm text-gray-500 whitespace-nowrap">
+                    {formatDistanceToNow(new Date(verification.created_at), { addSuffix: true })}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{ID_DOCUMENT_LABELS[verification.id_document_type]}</Badge>
+                  <Badge variant="outline">{OWNERSHIP_DOCUMENT_LABELS[verification.ownership_document_type]}</Badge>
+                  {verification.property && <Badge variant="outline">{verification.property.title}</Badge>}
+                </div>
+
+                <div className="flex items-center justify-between pt-2">
+                  <span className="flex items-center gap-1 text-sm text-gray-500">
+                    <Paperclip className="w-4 h-4" />
+                    {verification.ownership_document_paths.length + 1} document
+                    {verification.ownership_document_paths.length === 0 ? "" : "s"}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant={status === "pending" ? "default" : "outline"}
+                    onClick={() => openVerification(verification)}
+                  >
+                    {status === "pending" ? "Review" : "View"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" />
+              {selected?.landlord?.full_name || selected?.landlord?.email || "Landlord"}
+            </DialogTitle>
+            <DialogDescription>
+              {selected?.landlord?.created_at &&
+                `Joined ${formatDistanceToNow(new Date(selected.landlord.created_at), { addSuffix: true })}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selected && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-600">Identity</p>
+                  <p className="font-medium">{ID_DOCUMENT_LABELS[selected.id_document_type]}</p>
+                  <p className="text-gray-500 font-mono">{selected.id_number}</p>
+                  {idDocumentUrl && (
+                    <Button variant="outline" size="sm" className="mt-2" asChild>
+                      <a href={idDocumentUrl} target="_blank" rel="noopener noreferrer">
+                        <FileText className="w-4 h-4 mr-2" />
+                        ID document
+                      </a>
+                    </Button>
+                  )}
+                </div>
+                <div>
+                  <p className="text-gray-600">Ownership</p>
+                  <p className="font-medium">{OWNERSHIP_DOCUMENT_LABELS[selected.ownership_document_type]}</p>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {ownershipUrls.map((url, index) => (
+                      <Button key={url} variant="outline" size="sm" asChild>
+                        <a href={url} target="_blank" rel="noopener noreferrer">
+                          <Paperclip className="w-4 h-4 mr-2" />
+                          Document {index + 1}
+                        </a>
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {selected.property && (
+                <Button variant="link" className="px-0" asChild>
+                  <Link to={`/property/${selected.property.id}`} target="_blank">
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    {selected.property.title}
+                  </Link>
+                </Button>
+              )}
+
+              {selected.notes && (
+                <div>
+                  <p className="text-sm text-gray-600 mb-1">Notes from the landlord</p>
+                  <p className="text-sm bg-gray-50 rounded p-3 whitespace-pre-wrap">{selected.notes}</p>
+                </div>
+              )}
+
+              {selected.status === "pending" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="verification-rejection-reason">Reason for rejection</Label>
+                  <Textarea
+                    id="verification-rejection-reason"
+                    rows={3}
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. The name on the C of O doesn't match the ID. Upload a letter of authority from the owner."
+                  />
+                  <p className="text-xs text-gray-500">Required to reject. The landlord sees this message.</p>
+                </div>
+              ) : (
+                <div className="text-sm bg-gray-50 rounded p-3 space-y-1">
+                  <p className="font-medium">
+                    {VERIFICATION_STATUS_LABELS[selected.status]}
+                    {selected.reviewed_at &&
+                      ` ${formatDistanceToNow(new Date(selected.reviewed_at), { addSuffix: true })}`}
+                    {selected.reviewer && ` by ${selected.reviewer.full_name || selected.reviewer.email}`}
+                  </p>
+                  {selected.rejection_reason && <p className="text-gray-600">{selected.rejection_reason}</p>}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>
+              Close
+            </Button>
+            {selected?.status === "pending" && (
+              <>
+                <Button variant="destructive" onClick={() => handleReview(false)} disabled={submitting || !reason.trim()}>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Reject
+                </Button>
+                <Button onClick={() => handleReview(true)} disabled={submitting}>
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Approve
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default LandlordVerificationQueue;
@@ -0,0 +1,327 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { handleError } from "@/utils/errorHandling";
+import { PropertyReportStatus, ReportedLandlord } from "@/integrations/supabase/types";
+import {
+  PropertyReportService,
+  PropertyReportWithDetails,
+  REPORT_REASON_LABELS,
+  REPORT_STATUS_LABELS,
+  ReportResolution,
+  isRepeatOffender,
+} from "@/services/propertyReportService";
+import { AlertTriangle, Ban, CheckCircle, ExternalLink, Flag, Paperclip, RefreshCw, User, XCircle } from "lucide-react";
+
+const PropertyReportsQueue = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<PropertyReportStatus>("open");
+  const [reports, setReports] = useState<PropertyReportWithDetails[]>([]);
+  const [landlordStats, setLandlordStats] = useState<Record<string, ReportedLandlord>>({});
+  const [loading, setLoading] = useState(false);
+  const [selectedReport, setSelectedReport] = useState<PropertyReportWithDetails | null>(null);
+  const [evidenceUrls, setEvidenceUrls] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+  const [suspendListing, setSuspendListing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [rows, stats] = await Promise.all([
+        PropertyReportService.getReports(status),
+        PropertyReportService.getReportedLandlords(),
+      ]);
+      setReports(rows);
+      setLandlordStats(stats);
+    } catch (error) {
+      handleError(error, toast, "Failed to load reports", { context: "PropertyReportsQueue" });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const openReport = async (report: PropertyReportWithDetails) => {
+    setSelectedReport(report);
+    setNote(report.resolution_note || "");
+    setSuspendListing(false);
+    setEvidenceUrls([]);
+    try {
+      setEvidenceUrls(await PropertyReportService.getEvidenceUrls(report.evidence_paths));
+    } catch (error) {
+      handleError(error, toast, "Failed to load evidence", { context: "PropertyReportsQueue" });
+    }
+  };
+
+  const handleResolve = async (action: ReportResolution) => {
+    if (!selectedReport) return;
+
+    setSubmitting(true);
+    try {
+      await PropertyReportService.resolveReport(selectedReport.id, action, note, suspendListing);
+      toast({
+        title: action === "resolve" ? "Report resolved" : "Report dismissed",
+        description: action === "resolve" && suspendListing
+          ? "The listing has been suspended and the landlord notified."
+          : "The reporter has been notified.",
+      });
+      setSelectedReport(null);
+      fetchReports();
+    } catch (error) {
+      handleError(error, toast, "Failed to update report", { context: "PropertyReportsQueue" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderLandlordBadge = (landlordId: string) => {
+    const stats = landlordStats[landlordId];
+    if (!stats || !isRepeatOffender(stats)) return null;
+    return (
+      <Badge variant="destructive" className="flex items-center gap-1">
+        <AlertTriangle className="w-3 h-3" />
+        Repeat offender ({stats.upheld_reports} upheld)
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Select value={status} onValueChange={(value) => setStatus(value as PropertyReportStatus)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(REPORT_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={fetchReports} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {loading && reports.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <RefreshCw className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : reports.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <Flag className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              No {REPORT_STATUS_LABELS[status].toLowerCase()} reports
+            </h3>
+            <p className="text-gray-600">
+              {status === "open" ? "Reported listings will appear here for review." : "Handled reports will appear here."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {reports.map(report => (
+            <Card key={report.id} className="hover:shadow-lg transition-shadow">
+              <CardContent className="p-6">
+                <div className="flex gap-6">
+                  <div className="w-32 h-24 rounded-lg overflow-hidden bg-gray-100 flex-shrink-0">
+                    <img
+                      src={report.property?.photo_url || "/placeholder.svg"}
+                      alt={report.property?.title || "Reported listing"}
+                      className="w-full h-full object-cover"
+                    />
+                  </div>
+
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2 flex-wrap">
+                          {report.property?.title || "Deleted listing"}
+                          <Badge variant="outline">{REPORT_REASON_LABELS[report.reason]}</Badge>
+                          {report.property?.status === "suspended" && (
+                            <Badge variant="destructive">Suspended</Badge>
+                          )}
+                        </h3>
+                        <p className="text-sm text-gray-600 flex items-center gap-1 mt-1 flex-wrap">
+                          <User className="w-4 h-4" />
+                          Landlord: {report.landlord?.full_name || report.landlord?.email || "Unknown"}
+                          {renderLandlordBadge(report.landlord_id)}
+                        </p>
+                      </div>
+                      <span className="text-sm text-gray-500 whitespace-nowrap">
+                        {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                      </span>
+                    </div>
+
+                    {report.details && <p className="text-gray-700 text-sm line-clamp-2">{report.details}</p>}
+
+                    <div className="flex items-center justify-between pt-2">
+                      <div className="flex items-center gap-4 text-sm text-gray-500">
+                        <span>Reported by {report.reporter?.full_name || report.reporter?.email || "a user"}</span>
+                        {report.evidence_paths.length > 0 && (
+                          <span className="flex items-center gap-1">
+                            <Paperclip className="w-4 h-4" />
+                            {report.evidence_paths.length} attachment{report.evidence_paths.length === 1 ? "" : "s"}
+                          </span>
+                        )}
+                      </div>
+                      <Button size="sm" variant={status === "open" ? "default" : "outline"} onClick={() => openReport(report)}>
+                        {status === "open" ? "Review" : "View"}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!selectedReport} onOpenChange={(open) => !open && setSelectedReport(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Flag className="w-5 h-5 text-red-600" />
+              Report: {selectedReport?.property?.title || "Deleted listing"}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedReport && REPORT_REASON_LABELS[selectedReport.reason]}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedReport && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-600">Reporter</p>
+                  <p className="font-medium">{selectedReport.reporter?.full_name || "Unnamed user"}</p>
+                  <p className="text-gray-500">{selectedReport.reporter?.email}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Landlord</p>
+                  <p className="font-medium">{selectedReport.landlord?.full_name || "Unnamed landlord"}</p>
+                  <p className="text-gray-500">{selectedReport.landlord?.email}</p>
+                  {landlordStats[selectedReport.landlord_id] && (
+                    <p className="text-gray-500">
+                      {landlordStats[selectedReport.landlord_id].total_reports} reports on{" "}
+                      {landlordStats[selectedReport.landlord_id].reported_listings} listings,{" "}
+                      {landlordStats[selectedReport.landlord_id].upheld_reports} upheld
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm text-gray-600 mb-1">Details</p>
+                <p className="text-sm bg-gray-50 rounded p-3 whitespace-pre-wrap">
+                  {selectedReport.details || "No details provided."}
+                </p>
+              </div>
+
+              {selectedReport.evidence_paths.length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600 mb-1">Evidence</p>
+                  <div className="flex flex-wrap gap-2">
+                    {evidenceUrls.map((url, index) => (
+                      <Button key={url} variant="outline" size="sm" asChild>
+                        <a href={url} target="_blank" rel="noopener noreferrer">
+                          <Paperclip className="w-4 h-4 mr-2" />
+                          Attachment {index + 1}
+                        </a>
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {selectedReport.property && (
+                <Button variant="link" className="px-0" asChild>
+                  <Link to={`/property/${selectedReport.property.id}`} target="_blank">
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    Open listing
+                  </Link>
+                </Button>
+              )}
+
+              {selectedReport.status === "open" ? (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="report-resolution-note">Note to the reporter (optional)</Label>
+                    <Textarea
+                      id="report-resolution-note"
+                      rows={3}
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="e.g. We've removed this listing while we verify the landlord's documents"
+                    />
+                  </div>
+                  {selectedReport.property && selectedReport.property.status !== "suspended" && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="report-suspend-listing"
+                        checked={suspendListing}
+                        onCheckedChange={(checked) => setSuspendListing(checked === true)}
+                      />
+                      <Label htmlFor="report-suspend-listing" className="text-sm font-normal">
+                        Suspend this listing and notify the landlord
+                      </Label>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="text-sm bg-gray-50 rounded p-3 space-y-1">
+                  <p className="font-medium">
+                    {REPORT_STATUS_LABELS[selectedReport.status]}
+                    {selectedReport.resolved_at &&
+                      ` ${formatDistanceToNow(new Date(selectedReport.resolved_at), { addSuffix: true })}`}
+                    {selectedReport.listing_suspended && " - listing suspended"}
+                  </p>
+                  {selectedReport.resolution_note && <p className="text-gray-600">{selectedReport.resolution_note}</p>}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedReport(null)}>
+              Close
+            </Button>
+            {selectedReport?.status === "open" && (
+              <>
+                <Button variant="outline" onClick={() => handleResolve("dismiss")} disabled={submitting}>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Dismiss
+                </Button>
+                <Button
+                  variant={suspendListing ? "destructive" : "default"}
+                  onClick={() => handleResolve("resolve")}
+                  disabled={submitting}
+                >
+                  {suspendListing ? <Ban className="w-4 h-4 mr-2" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+                  {suspendListing ? "Resolve & Suspend" : "Resolve"}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PropertyReportsQueue;
@@ -25,11 +25,15 @@ import {
   Trash2,
   Filter,
   RefreshCw,
-  DollarSign
+  DollarSign,
+  Flag
 } from "lucide-react";
 import { supabase, Property } from "@/lib/supabase";
+import PropertyReportsQueue from "@/components/admin/PropertyReportsQueue";
+import { ListingVerificationService, PropertyReview, VERIFICATION_RULE_LABELS } from "@/services/listingVerificationService";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermission";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface PropertyWithLandlord extends Omit<Property, 'profiles'> {
@@ -49,17 +53,6 @@ interface ReviewData {
   verificationScore: number;
 }
 
-const commonConcerns = [
-  "Incomplete information",
-  "Missing photos",
-  "Unrealistic price",
-  "Suspicious listing",
-  "Poor quality photos",
-  "Inaccurate location",
-  "Misleading description",
-  "Missing contact details"
-];
-
 const PropertyReviewPanel = () => {
   const [activeTab, setActiveTab] = useState("review");
   const [allProperties, setAllProperties] = useState<PropertyWithLandlord[]>([]);
@@ -67,6 +60,8 @@ const PropertyReviewPanel = () => {
   const [selectedProperty, setSelectedProperty] = useState<PropertyWithLandlord | null>(null);
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [checks, setChecks] = useState<Record<string, PropertyReview>>({});
+  const [rerunning, setRerunning] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("pending");
   const [reviewData, setReviewData] = useState<ReviewData>({
@@ -86,6 +81,8 @@ const PropertyReviewPanel = () => {
 
   const { toast } = useToast();
   const { profile } = useAuth();
+  // Moderators review the queue; editing, deleting and reports stay with admins
+  const { can } = usePermissions();
 
   // Filter properties based on search term and status
   const filteredProperties = (activeTab === "review" ? properties : allProperties).filter(property => {
@@ -102,7 +99,7 @@ const PropertyReviewPanel = () => {
   useEffect(() => {
     if (activeTab === "review") {
       fetchPendingProperties(pendingPage, pageSize);
-    } else {
+    } else if (activeTab === "manage") {
       fetchAllProperties(allPage, pageSize);
     }
     // eslint-disable-next-line
@@ -161,6 +158,7 @@ const PropertyReviewPanel = () => {
       if (error) throw error;
       setProperties(data || []);
       setPendingTotal(count || 0);
+      await loadChecks(data || []);
     } catch (error) {
       console.error('Error fetching properties:', error);
       toast({
@@ -173,20 +171,14 @@ const PropertyReviewPanel = () => {
     }
   };
 
-  const calculateVerificationScore = (property: PropertyWithLandlord) => {
-    let score = 0;
-    if (property.title && property.title.length > 10) score += 10;
-    if (property.description && property.description.length > 50) score += 10;
-    if (property.location) score += 10;
-    if (property.bedrooms && property.bedrooms > 0) score += 8;
-    if (property.bathrooms && property.bathrooms > 0) score += 8;
-    if (property.amenities && property.amenities.length > 0) score += 9;
-    if (property.photo_url) score += 10;
-    if (property.photo_urls && property.photo_urls.length > 1) score += 10;
-    if (property.price && property.price >= 50000 && property.price <= 50000000) score += 15;
-    if (property.profiles?.full_name) score += 5;
-    if (property.profiles?.email) score += 5;
-    return Math.min(score, 100);
+  // Attach the latest automated verification check to each listing in the queue
+  const loadChecks = async (rows: PropertyWithLandlord[]) => {
+    try {
+      const latest = await ListingVerificationService.getLatestChecks(rows.map(row => row.id));
+      setChecks(prev => ({ ...prev, ...latest }));
+    } catch (error) {
+      console.error('Error loading verification checks:', error);
+    }
   };
 
   const getScoreColor = (score: number) => {
@@ -208,12 +200,36 @@ const PropertyReviewPanel = () => {
       action: 'approve',
       adminNotes: '',
       rejectionReason: '',
-      flaggedConcerns: [],
-      verificationScore: calculateVerificationScore(property)
+      flaggedConcerns: checks[property.id]?.flagged_concerns || [],
+      verificationScore: checks[property.id]?.verification_score ?? 0
     });
     setReviewDialogOpen(true);
   };
 
+  const handleRerunChecks = async () => {
+    if (!selectedProperty) return;
+
+    setRerunning(true);
+    try {
+      const review = await ListingVerificationService.rerunChecks(selectedProperty.id);
+      setChecks(prev => ({ ...prev, [review.property_id]: review }));
+      setReviewData(prev => ({
+        ...prev,
+        flaggedConcerns: review.flagged_concerns || [],
+        verificationScore: review.verification_score ?? 0
+      }));
+    } catch (error) {
+      console.error('Error running verification checks:', error);
+      toast({
+        title: "Error",
+        description: "Failed to run verification checks",
+        variant: "destructive",
+      });
+    } finally {
+      setRerunning(false);
+    }
+  };
+
   const submitReview = async () => {
     if (!selectedProperty) return;
 
@@ -309,6 +325,13 @@ const PropertyReviewPanel = () => {
     }
   };
 
+  const selectedCheck = selectedProperty ? checks[selectedProperty.id] : undefined;
+  // Concerns the engine raised for this listing, then one per rule for flagging by hand
+  const concernOptions = Array.from(new Set([
+    ...(selectedCheck?.flagged_concerns || []),
+    ...Object.values(VERIFICATION_RULE_LABELS)
+  ]));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -330,9 +353,11 @@ const PropertyReviewPanel = () => {
           </h2>
           <p className="text-gray-600 mt-1">Manage and review all properties on the platform</p>
         </div>
-        <Badge variant="secondary" className="px-3 py-1">
-          {filteredProperties.length} {activeTab === "review" ? "Pending Review" : "Properties"}
-        </Badge>
+        {activeTab !== "reports" && (
+          <Badge variant="secondary" className="px-3 py-1">
+            {filteredProperties.length} {activeTab === "review" ? "Pending Review" : "Properties"}
+          </Badge>
+        )}
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
@@ -345,6 +370,12 @@ const PropertyReviewPanel = () => {
             <Home className="w-4 h-4" />
             All Properties
           </TabsTrigger>
+          {can("reports.review") && (
+            <TabsTrigger value="reports" className="flex items-center gap-2">
+              <Flag className="w-4 h-4" />
+              Reports
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="review">
@@ -378,8 +409,11 @@ const PropertyReviewPanel = () => {
           <div className="grid gap-6 mt-6">
             <AnimatePresence>
               {filteredProperties.map((property, index) => {
-                const verificationScore = calculateVerificationScore(property);
-                const scoreBadge = getScoreBadge(verificationScore);
+                const check = checks[property.id];
+                const verificationScore = check?.verification_score ?? 0;
+                const scoreBadge = check
+                  ? getScoreBadge(verificationScore)
+                  : { label: "Not Checked", variant: "outline" as const };
                 
                 return (
                   <motion.div
@@ -454,11 +488,20 @@ const PropertyReviewPanel = () => {
                             <div className="space-y-2">
                               <div className="flex items-center justify-between">
                                 <span className="text-sm font-medium">Verification Score</span>
-                                <span className={`text-sm font-bold ${getScoreColor(verificationScore)}`}>
-                                  {verificationScore}/100
+                                <span className={`text-sm font-bold ${check ? getScoreColor(verificationScore) : "text-gray-400"}`}>
+                                  {check ? `${verificationScore}/100` : "—"}
                                 </span>
                               </div>
                               <Progress value={verificationScore} className="h-2" />
+                              {check?.flagged_concerns && check.flagged_concerns.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                  {check.flagged_concerns.map(concern => (
+                                    <Badge key={concern} variant="outline" className="text-xs text-red-600 border-red-200">
+                                      {concern}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
 
@@ -528,6 +571,7 @@ const PropertyReviewPanel = () => {
                     <SelectItem value="pending">Pending</SelectItem>
                     <SelectItem value="inactive">Inactive</SelectItem>
                     <SelectItem value="rejected">Rejected</SelectItem>
+                    <SelectItem value="suspended">Suspended</SelectItem>
                   </SelectContent>
                 </Select>
                 <Button variant="outline" onClick={() => fetchAllProperties(allPage, pageSize)}>
@@ -626,13 +670,15 @@ const PropertyReviewPanel = () => {
                               <Eye className="w-4 h-4 mr-2" />
                               View
                             </Button>
-                            <Button
-                              variant="outline"
-                              onClick={() => handleEdit(property)}
-                            >
-                              <Edit className="w-4 h-4 mr-2" />
-                              Edit
-                            </Button>
+                            {can("listings.manage") && (
+                              <Button
+                                variant="outline"
+                                onClick={() => handleEdit(property)}
+                              >
+                                <Edit className="w-4 h-4 mr-2" />
+                                Edit
+                              </Button>
+                            )}
                             {property.status === 'pending' && (
                               <Button
                                 onClick={() => handleReviewProperty(property)}
@@ -642,13 +688,15 @@ const PropertyReviewPanel = () => {
                                 Review
                               </Button>
                             )}
-                            <Button
-                              variant="destructive"
-                              size="icon"
-                              onClick={() => handleDelete(property)}
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
+                            {can("listings.manage") && (
+                              <Button
+                                variant="destructive"
+                                size="icon"
+                                onClick={() => handleDelete(property)}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
                           </div>
                         </div>
                       </CardContent>
@@ -675,6 +723,12 @@ const PropertyReviewPanel = () => {
             <Pagination page={allPage} total={allTotal} pageSize={pageSize} onPageChange={setAllPage} />
           )}
         </TabsContent>
+
+        {can("reports.review") && (
+          <TabsContent value="reports">
+            <PropertyReportsQueue />
+          </TabsContent>
+        )}
       </Tabs>
 
       <Dialog open={reviewDialogOpen} onOpenChange={setReviewDialogOpen}>
@@ -745,9 +799,39 @@ const PropertyReviewPanel = () => {
                   </span>
                 </div>
                 <Progress value={reviewData.verificationScore} className="mb-2" />
-                <p className="text-sm text-gray-600">
-                  This score is based on completeness of information, image quality, and pricing reasonableness.
-                </p>
+                {selectedCheck?.verification_checks ? (
+                  <ul className="space-y-1 mt-3">
+                    {selectedCheck.verification_checks.map(result => (
+                      <li key={result.rule} className="flex items-start gap-2 text-sm">
+                        {result.passed ? (
+                          <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+                        ) : (
+                          <XCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+                        )}
+                        <span>
+                          <span className="font-medium">{VERIFICATION_RULE_LABELS[result.rule] || result.rule}</span>
+                          {result.message && <span className="text-gray-600"> - {result.message}</span>}
+                          {!result.passed && <span className="text-red-600"> (-{result.penalty})</span>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-600">This listing hasn't been through the automated checks yet.</p>
+                )}
+                <div className="flex items-center justify-between mt-3">
+                  <p className="text-xs text-gray-500">
+                    {selectedCheck
+                      ? `Checked ${new Date(selectedCheck.created_at || '').toLocaleString()} with rules v${selectedCheck.rule_set_version}`
+                      : 'Run the checks to score it with the current rules.'}
+                  </p>
+                  {can("listings.manage") && (
+                    <Button variant="outline" size="sm" onClick={handleRerunChecks} disabled={rerunning}>
+                      <RefreshCw className={`w-4 h-4 mr-2 ${rerunning ? "animate-spin" : ""}`} />
+                      {selectedCheck ? "Re-run Checks" : "Run Checks"}
+                    </Button>
+                  )}
+                </div>
               </div>
 
               <div className="space-y-4">
@@ -786,7 +870,7 @@ const PropertyReviewPanel = () => {
                   <div>
                     <label className="block text-sm font-medium mb-2">Flagged Concerns</label>
                     <div className="grid grid-cols-2 gap-2">
-                      {commonConcerns.map((concern) => (
+                      {concernOptions.map((concern) => (
                         <label key={concern} className="flex items-center space-x-2 text-sm">
                           <input
                             type="checkbox"
@@ -0,0 +1,58 @@
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { recoveryCodesText } from "@/services/mfaService";
+import { Copy, Download } from "lucide-react";
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  email?: string | null;
+}
+
+// Freshly generated recovery codes, with ways to keep a copy; they can't be shown again
+const RecoveryCodesList = ({ codes, email }: RecoveryCodesListProps) => {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodesText(codes, email));
+      toast({ title: "Recovery codes copied" });
+    } catch {
+      toast({ title: "Couldn't copy", description: "Select the codes and copy them by hand.", variant: "destructive" });
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([recoveryCodesText(codes, email)], { type: "text/plain" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "landlordnoagent-recovery-codes.txt";
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/40 p-4 font-mono text-sm">
+        {codes.map(code => (
+          <span key={code} className="text-center tracking-wider">{code}</span>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each code signs you in once if you lose your authenticator. We won't show them again.
+      </p>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodesList;
@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { PERMISSIONS_QUERY_KEY } from "@/hooks/usePermission";
+import { handleError, handleSuccess } from "@/utils/errorHandling";
+import { PERMISSION_LABELS, PermissionService, StaffRoleWithPermissions } from "@/services/permissionService";
+import LoadingSpinner from "@/components/LoadingSpinner";
+
+export interface StaffRolesTarget {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+interface StaffRolesDialogProps {
+  user: StaffRolesTarget | null;
+  onClose: () => void;
+}
+
+const StaffRolesDialog = ({ user, onClose }: StaffRolesDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [roles, setRoles] = useState<StaffRoleWithPermissions[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    setLoading(true);
+    Promise.all([PermissionService.getStaffRoles(), PermissionService.getUserStaffRoles(userId)])
+      .then(([allRoles, userRoles]) => {
+        setRoles(allRoles);
+        setSelected(userRoles);
+      })
+      .catch(error => handleError(error, toast, "Failed to load staff roles", { context: "StaffRolesDialog" }))
+      .finally(() => setLoading(false));
+  }, [userId, toast]);
+
+  const toggleRole = (key: string, checked: boolean) =>
+    setSelected(prev => (checked ? [...prev, key] : prev.filter(role => role !== key)));
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      await PermissionService.setUserStaffRoles(user.id, selected);
+      queryClient.invalidateQueries({ queryKey: PERMISSIONS_QUERY_KEY });
+      handleSuccess(toast, `Staff roles updated for ${user.full_name || user.email}`);
+      onClose();
+    } catch (error) {
+      handleError(error, toast, "Failed to update staff roles", { context: "StaffRolesDialog" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Staff roles</DialogTitle>
+          <DialogDescription>
+            Give {user?.full_name || user?.email} access to parts of the admin panel. They'll need to set up
+            two-factor authentication before they can use it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {roles.map(role => (
+              <div key={role.key} className="flex items-start gap-3 rounded-lg border p-3">
+                <Checkbox
+                  id={`staff-role-${role.key}`}
+                  checked={selected.includes(role.key)}
+                  onCheckedChange={(checked) => toggleRole(role.key, checked === true)}
+                />
+                <div className="space-y-1">
+                  <label htmlFor={`staff-role-${role.key}`} className="text-sm font-medium">
+                    {role.name}
+                  </label>
+                  <p className="text-sm text-muted-foreground">{role.description}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {role.permissions.map(permission => (
+                      <Badge key={permission} variant="outline">{PERMISSION_LABELS[permission] ?? permission}</Badge>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving ? "Saving..." : "Save roles"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StaffRolesDialog;
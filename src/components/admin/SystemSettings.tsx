@@ -1,8 +1,98 @@
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Settings } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePlatformSettings } from "@/hooks/usePlatformSettings";
+import { handleError, ValidationError } from "@/utils/errorHandling";
+import { Json, PlatformSettingKey } from "@/integrations/supabase/types";
+import {
+  NOTIFICATION_TYPE_LABELS,
+  NotificationType,
+  PLATFORM_SETTING_LABELS,
+  PlatformSettings,
+  PlatformSettingsAuditWithActor,
+  PlatformSettingsService,
+  SUPPORTED_CURRENCIES,
+  PlatformCurrency,
+  formatCurrency,
+} from "@/services/platformSettingsService";
+import VerificationRulesCard from "@/components/admin/VerificationRulesCard";
+import { Settings, History, Save } from 'lucide-react';
+
+const formatAuditValue = (key: PlatformSettingKey, value: Json | null) => {
+  if (value === null) {
+    return ['auto_approve_threshold', 'unverified_listing_limit', 'daily_chat_limit'].includes(key) ? 'Off' : '—';
+  }
+  if (key === 'listing_min_price' || key === 'listing_max_price') return formatCurrency(Number(value));
+  if (key === 'notifications' && typeof value === 'object' && !Array.isArray(value)) {
+    const toggles = Object.values(value);
+    return `${toggles.filter(Boolean).length} of ${toggles.length} enabled`;
+  }
+  return String(value);
+};
 
 export default function SystemSettings() {
+  const { toast } = useToast();
+  const { settings, loading, setSettings } = usePlatformSettings();
+  const [draft, setDraft] = useState<PlatformSettings>(settings);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [auditTrail, setAuditTrail] = useState<PlatformSettingsAuditWithActor[]>([]);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const fetchAuditTrail = useCallback(async () => {
+    try {
+      setAuditTrail(await PlatformSettingsService.getAuditTrail());
+    } catch (error) {
+      handleError(error, toast, 'Failed to load settings history', { context: 'SystemSettings' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAuditTrail();
+  }, [fetchAuditTrail]);
+
+  const changedKeys = (Object.keys(draft) as PlatformSettingKey[]).filter(
+    key => JSON.stringify(draft[key]) !== JSON.stringify(settings[key])
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (draft.listing_min_price >= draft.listing_max_price) {
+        throw new ValidationError('The minimum listing price must be below the maximum');
+      }
+
+      const changes = Object.fromEntries(changedKeys.map(key => [key, draft[key]])) as Partial<PlatformSettings>;
+      const saved = await PlatformSettingsService.updateSettings(changes, reason);
+      setSettings(saved);
+      setReason('');
+      toast({
+        title: 'Settings saved',
+        description: `${changedKeys.length} setting${changedKeys.length === 1 ? '' : 's'} updated across the platform.`,
+      });
+      await fetchAuditTrail();
+    } catch (error) {
+      handleError(error, toast, 'Failed to save settings', { context: 'SystemSettings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setNumber = (key: 'listing_min_price' | 'listing_max_price' | 'listing_max_images', value: string) =>
+    setDraft({ ...draft, [key]: Number(value) });
+
+  const toggleNotification = (type: NotificationType, enabled: boolean) =>
+    setDraft({ ...draft, notifications: { ...draft.notifications, [type]: enabled } });
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -15,19 +105,245 @@ export default function SystemSettings() {
         <Settings className="h-6 w-6 text-muted-foreground" />
       </div>
 
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Listings</CardTitle>
+            <CardDescription>Limits applied when landlords create or edit a listing</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="min-price">Minimum annual rent</Label>
+                <Input
+                  id="min-price"
+                  type="number"
+                  min="1"
+                  value={draft.listing_min_price}
+                  disabled={loading}
+                  onChange={(e) => setNumber('listing_min_price', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-price">Maximum annual rent</Label>
+                <Input
+                  id="max-price"
+                  type="number"
+                  min="1"
+                  value={draft.listing_max_price}
+                  disabled={loading}
+                  onChange={(e) => setNumber('listing_max_price', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max-images">Max images per listing</Label>
+              <Input
+                id="max-images"
+                type="number"
+                min="1"
+                max="50"
+                value={draft.listing_max_images}
+                disabled={loading}
+                onChange={(e) => setNumber('listing_max_images', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="auto-approve">Auto-approve verified listings</Label>
+                <Switch
+                  id="auto-approve"
+                  checked={draft.auto_approve_threshold !== null}
+                  disabled={loading}
+                  onCheckedChange={(checked) => setDraft({ ...draft, auto_approve_threshold: checked ? 80 : null })}
+                />
+              </div>
+              {draft.auto_approve_threshold !== null ? (
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={draft.auto_approve_threshold}
+                  onChange={(e) => setDraft({ ...draft, auto_approve_threshold: Number(e.target.value) })}
+                />
+              ) : null}
+              <p className="text-xs text-muted-foreground">
+                {draft.auto_approve_threshold !== null
+                  ? `New listings with a verification score of ${draft.auto_approve_threshold} or more go live without review.`
+                  : 'Every new listing waits in the review queue.'}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="unverified-limit">Limit listings from unverified landlords</Label>
+                <Switch
+                  id="unverified-limit"
+                  checked={draft.unverified_listing_limit !== null}
+                  disabled={loading}
+                  onCheckedChange={(checked) => setDraft({ ...draft, unverified_listing_limit: checked ? 3 : null })}
+                />
+              </div>
+              {draft.unverified_listing_limit !== null ? (
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={draft.unverified_listing_limit}
+                  onChange={(e) => setDraft({ ...draft, unverified_listing_limit: Number(e.target.value) })}
+                />
+              ) : null}
+              <p className="text-xs text-muted-foreground">
+                {draft.unverified_listing_limit !== null
+                  ? `Landlords must verify their identity before publishing more than ${draft.unverified_listing_limit} listings.`
+                  : 'Unverified landlords can publish any number of listings.'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Currency</CardTitle>
+            <CardDescription>Used to display prices across the platform</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label>Default currency</Label>
+            <Select
+              value={draft.default_currency}
+              disabled={loading}
+              onValueChange={(value) => setDraft({ ...draft, default_currency: value as PlatformCurrency })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map(currency => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Example: {formatCurrency(2500000, draft.default_currency)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Messaging</CardTitle>
+            <CardDescription>Spam controls for conversations between renters and landlords</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="daily-chat-limit">Limit new conversations per renter</Label>
+              <Switch
+                id="daily-chat-limit"
+                checked={draft.daily_chat_limit !== null}
+                disabled={loading}
+                onCheckedChange={(checked) => setDraft({ ...draft, daily_chat_limit: checked ? 10 : null })}
+              />
+            </div>
+            {draft.daily_chat_limit !== null ? (
+              <Input
+                type="number"
+                min="1"
+                max="100"
+                value={draft.daily_chat_limit}
+                onChange={(e) => setDraft({ ...draft, daily_chat_limit: Number(e.target.value) })}
+              />
+            ) : null}
+            <p className="text-xs text-muted-foreground">
+              {draft.daily_chat_limit !== null
+                ? `Renters can message up to ${draft.daily_chat_limit} new listings in any 24 hours.`
+                : 'Renters can start any number of conversations.'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Notifications</CardTitle>
+            <CardDescription>Switched-off notification types are not delivered to anyone</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map(type => (
+              <div key={type} className="flex items-center justify-between rounded-lg border p-3">
+                <Label htmlFor={`notify-${type}`}>{NOTIFICATION_TYPE_LABELS[type]}</Label>
+                <Switch
+                  id={`notify-${type}`}
+                  checked={draft.notifications[type]}
+                  disabled={loading}
+                  onCheckedChange={(checked) => toggleNotification(type, checked)}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-col gap-3 pt-6 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="change-reason">Reason for change (optional)</Label>
+            <Input
+              id="change-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Recorded in the settings history"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setDraft(settings)} disabled={changedKeys.length === 0 || saving}>
+              Discard
+            </Button>
+            <Button onClick={handleSave} disabled={changedKeys.length === 0 || saving}>
+              <Save className="mr-2 h-4 w-4" />
+              {saving ? 'Saving...' : `Save ${changedKeys.length || ''} change${changedKeys.length === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
-          <CardTitle>Platform Settings</CardTitle>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Settings History
+          </CardTitle>
         </CardHeader>
         <CardContent>
-          <Alert>
-            <AlertDescription>
-              System settings and configuration options will be available in an upcoming update.
-              This will include email settings, notification preferences, and platform customization options.
-            </AlertDescription>
-          </Alert>
+          {auditTrail.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No settings have been changed yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Setting</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {auditTrail.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.changed_at).toLocaleString()}</TableCell>
+                    <TableCell>{PLATFORM_SETTING_LABELS[entry.setting_key]}</TableCell>
+                    <TableCell>
+                      {formatAuditValue(entry.setting_key, entry.old_value)} → {formatAuditValue(entry.setting_key, entry.new_value)}
+                    </TableCell>
+                    <TableCell>{entry.actor?.full_name || entry.actor?.email || 'Unknown'}</TableCell>
+                    <TableCell className="text-muted-foreground">{entry.reason || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
+
+      <VerificationRulesCard />
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { handleError } from "@/utils/errorHandling";
+import { Database } from "@/integrations/supabase/types";
+import {
+  ACCOUNT_STATUS_BADGE_VARIANTS,
+  ACCOUNT_STATUS_LABELS,
+  AccountStatusHistoryWithActor,
+  AccountStatusService,
+  getEffectiveAccountStatus,
+} from "@/services/accountStatusService";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { History } from "lucide-react";
+
+export type UserDetail = Pick<
+  Database["public"]["Tables"]["profiles"]["Row"],
+  "id" | "email" | "full_name" | "role" | "created_at" | "last_sign_in_at" | "verified_at" | "account_status" | "status_reason" | "status_expires_at"
+>;
+
+interface UserDetailDialogProps {
+  user: UserDetail | null;
+  onClose: () => void;
+  // Left out for staff who can look users up but not change them
+  onChangeStatus?: (user: UserDetail) => void;
+}
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), "d MMM yyyy, HH:mm") : "—");
+
+const UserDetailDialog = ({ user, onClose, onChangeStatus }: UserDetailDialogProps) => {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<AccountStatusHistoryWithActor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    setHistory([]);
+    setLoading(true);
+    AccountStatusService.getHistory(userId)
+      .then(setHistory)
+      .catch(error => handleError(error, toast, "Failed to load account history", { context: "UserDetailDialog" }))
+      .finally(() => setLoading(false));
+  }, [userId, toast]);
+
+  const status = getEffectiveAccountStatus(user);
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{user?.full_name || "Unnamed user"}</DialogTitle>
+          <DialogDescription>{user?.email}</DialogDescription>
+        </DialogHeader>
+
+        {user && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-600">Role</p>
+                <p className="font-medium capitalize">{user.role}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Joined</p>
+                <p className="font-medium">{formatDate(user.created_at)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Last sign in</p>
+                <p className="font-medium">{formatDate(user.last_sign_in_at)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Verified landlord</p>
+                <p className="font-medium">{user.verified_at ? formatDate(user.verified_at) : "No"}</p>
+              </div>
+            </div>
+
+            <div className="rounded-lg border p-4 text-sm space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-gray-600">Account status</span>
+                <Badge variant={ACCOUNT_STATUS_BADGE_VARIANTS[status]}>{ACCOUNT_STATUS_LABELS[status]}</Badge>
+              </div>
+              {status !== "active" && user.status_reason && <p>Reason: {user.status_reason}</p>}
+              {status === "suspended" && (
+                <p className="text-gray-600">
+                  {user.status_expires_at ? `Until ${formatDate(user.status_expires_at)}` : "Until an admin lifts it"}
+                </p>
+              )}
+              {user.account_status === "suspended" && status === "active" && (
+                <p className="text-gray-600">Suspension ended {formatDate(user.status_expires_at)}</p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-medium flex items-center gap-2 mb-3">
+                <History className="w-4 h-4" />
+                Status history
+              </h3>
+              {loading ? (
+                <div className="flex justify-center py-6">
+                  <LoadingSpinner />
+                </div>
+              ) : history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No status changes yet.</p>
+              ) : (
+                <ol className="space-y-3 border-l pl-4">
+                  {history.map(entry => (
+                    <li key={entry.id} className="text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={ACCOUNT_STATUS_BADGE_VARIANTS[entry.status]}>{ACCOUNT_STATUS_LABELS[entry.status]}</Badge>
+                        <span className="text-gray-500">{formatDate(entry.created_at)}</span>
+                      </div>
+                      {entry.reason && <p className="mt-1">{entry.reason}</p>}
+                      {entry.expires_at && <p className="text-gray-600">Until {formatDate(entry.expires_at)}</p>}
+                      <p className="text-gray-500">
+                        By {entry.changer?.full_name || entry.changer?.email || "a former admin"}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {user && onChangeStatus && <Button onClick={() => onChangeStatus(user)}>Change status</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserDetailDialog;
@@ -30,18 +30,30 @@ import { useToast } from '@/components/ui/use-toast';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import { supabase } from '@/lib/supabase';
 import { handleSuccess, handleError } from '@/utils/errorHandling';
-import type { Database } from '@/integrations/supabase/types';
+import type { AccountStatus, Database, ReportedLandlord } from '@/integrations/supabase/types';
+import { PropertyReportService, isRepeatOffender } from '@/services/propertyReportService';
+import {
+  ACCOUNT_STATUS_BADGE_VARIANTS,
+  ACCOUNT_STATUS_LABELS,
+  getEffectiveAccountStatus,
+} from '@/services/accountStatusService';
+import AccountStatusDialog, { AccountStatusTarget } from '@/components/admin/AccountStatusDialog';
+import UserDetailDialog from '@/components/admin/UserDetailDialog';
+import StaffRolesDialog, { StaffRolesTarget } from '@/components/admin/StaffRolesDialog';
+import { usePermissions } from '@/hooks/usePermission';
 import {
   Users,
   Search,
   MoreVertical,
   Shield,
-  UserX,
-  UserCheck,
+  UserCog,
+  Eye,
   Trash2,
   RefreshCw,
   Download,
   Filter,
+  Flag,
+  BadgeCheck,
 } from 'lucide-react';
 import { assignUserRole, validateRoleTransition } from '@/utils/roleManagement'
 
@@ -55,7 +67,13 @@ interface User {
   role: UserRole;
   created_at: string;
   updated_at: string;
-  status: 'active' | 'inactive';
+  last_sign_in_at: string | null;
+  verified_at: string | null;
+  account_status: AccountStatus;
+  status_reason: string | null;
+  status_expires_at: string | null;
+  // account_status with expired suspensions counted as active
+  status: AccountStatus;
 }
 
 const UserManagement = () => {
@@ -63,11 +81,20 @@ const UserManagement = () => {
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [roleFilter, setRoleFilter] = useState<UserRole | 'all'>('all');
-  const [statusFilter, setStatusFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState<AccountStatus | 'all'>('all');
+  const [repeatOffendersOnly, setRepeatOffendersOnly] = useState(false);
+  const [reportStats, setReportStats] = useState<Record<string, ReportedLandlord>>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [totalUsers, setTotalUsers] = useState(0);
+  const [detailUserId, setDetailUserId] = useState<string | null>(null);
+  const [statusTarget, setStatusTarget] = useState<AccountStatusTarget | null>(null);
+  const [staffRolesTarget, setStaffRolesTarget] = useState<StaffRolesTarget | null>(null);
   const usersPerPage = 10;
   const { toast } = useToast();
+  // Staff with users.view can look people up; changing them stays with users.manage
+  const { can } = usePermissions();
+  const canManageUsers = can('users.manage');
+  const canSeeReports = can('reports.review');
 
   const fetchUsers = useCallback(async () => {
     try {
@@ -75,15 +102,23 @@ const UserManagement = () => {
       const from = (currentPage - 1) * usersPerPage;
       const to = from + usersPerPage - 1;
 
+      // Report history flags landlords whose listings keep getting upheld reports
+      const stats = canSeeReports ? await PropertyReportService.getReportedLandlords() : {};
+      setReportStats(stats);
+
       // Start with base query
       let query = supabase
         .from('profiles')
         .select('*', { count: 'exact' })
         .match(roleFilter !== 'all' ? { role: roleFilter } : {})
-        .match(statusFilter !== 'all' ? { status: statusFilter } : {})
+        .match(statusFilter !== 'all' ? { account_status: statusFilter } : {})
         .range(from, to)
         .order('created_at', { ascending: false });
 
+      if (repeatOffendersOnly) {
+        query = query.in('id', Object.values(stats).filter(isRepeatOffender).map(s => s.landlord_id));
+      }
+
       // Add search filter only if search query exists
       if (searchQuery) {
         query = query.or(`email.ilike.%${searchQuery}%,full_name.ilike.%${searchQuery}%`);
@@ -93,10 +128,9 @@ const UserManagement = () => {
 
       if (error) throw error;
 
-      // Transform the data to include status
       const usersWithStatus = data?.map(user => ({
         ...user,
-        status: 'active' as const
+        status: getEffectiveAccountStatus(user)
       })) || [];
 
       setUsers(usersWithStatus);
@@ -106,29 +140,15 @@ const UserManagement = () => {
     } finally {
       setLoading(false);
     }
-  }, [currentPage, searchQuery, roleFilter, statusFilter, toast]);
+  }, [currentPage, searchQuery, roleFilter, statusFilter, repeatOffendersOnly, canSeeReports, toast]);
 
   useEffect(() => {
     fetchUsers();
   }, [fetchUsers]);
 
-  const handleUserAction = async (userId: string, action: 'activate' | 'deactivate' | 'delete') => {
+  const handleUserAction = async (userId: string, action: 'delete') => {
     try {
       switch (action) {
-        case 'activate':
-        case 'deactivate':
-          const { error: updateError } = await supabase
-            .from('profiles')
-            .update({
-              updated_at: new Date().toISOString(),
-              status: action === 'activate' ? 'active' : 'inactive'
-            })
-            .eq('id', userId);
-
-          if (updateError) throw updateError;
-          handleSuccess(toast, `User ${action}d successfully`);
-          break;
-
         case 'delete':
           const { error: deleteError } = await supabase
             .from('profiles')
@@ -178,7 +198,9 @@ const UserManagement = () => {
       'Full Name': user.full_name,
       'Email': user.email,
       'Role': user.role,
-      'Status': user.status,
+      'Status': ACCOUNT_STATUS_LABELS[user.status],
+      'Status Reason': user.status_reason ?? '',
+      'Upheld Reports': reportStats[user.id]?.upheld_reports ?? 0,
       'Created At': new Date(user.created_at).toLocaleDateString(),
       'Last Sign In': user.updated_at ? new Date(user.updated_at).toLocaleDateString() : 'Never'
     }));
@@ -244,16 +266,35 @@ const UserManagement = () => {
                 <SelectItem value="renter">Renter</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => {
+                setStatusFilter(value as AccountStatus | 'all');
+                setCurrentPage(1);
+              }}
+            >
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Filter by status" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="active">Active</SelectItem>
-                <SelectItem value="inactive">Inactive</SelectItem>
+                {(Object.keys(ACCOUNT_STATUS_LABELS) as AccountStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{ACCOUNT_STATUS_LABELS[status]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {canSeeReports && (
+              <Button
+                variant={repeatOffendersOnly ? 'destructive' : 'outline'}
+                onClick={() => {
+                  setRepeatOffendersOnly(prev => !prev);
+                  setCurrentPage(1);
+                }}
+              >
+                <Flag className="h-4 w-4 mr-2" />
+                Repeat Offenders
+              </Button>
+            )}
           </div>
 
           {loading ? (
@@ -295,9 +336,24 @@ const UserManagement = () => {
                           <Badge variant="secondary">{user.role}</Badge>
                         </TableCell>
                         <TableCell>
-                          <Badge variant={user.status === 'active' ? 'default' : 'destructive'}>
-                            {user.status}
-                          </Badge>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Badge
+                              variant={ACCOUNT_STATUS_BADGE_VARIANTS[user.status]}
+                              title={user.status !== 'active' ? user.status_reason ?? undefined : undefined}
+                            >
+                              {ACCOUNT_STATUS_LABELS[user.status]}
+                            </Badge>
+                            {reportStats[user.id] && (
+                              <Badge
+                                variant={isRepeatOffender(reportStats[user.id]) ? 'destructive' : 'outline'}
+                                title={`${reportStats[user.id].total_reports} reports across ${reportStats[user.id].reported_listings} listings, ${reportStats[user.id].open_reports} open`}
+                              >
+                                {isRepeatOffender(reportStats[user.id])
+                                  ? `Repeat offender (${reportStats[user.id].upheld_reports} upheld)`
+                                  : `${reportStats[user.id].total_reports} report${reportStats[user.id].total_reports === 1 ? '' : 's'}`}
+                              </Badge>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell>
                           {new Date(user.created_at).toLocaleDateString()}
@@ -313,52 +369,55 @@ const UserManagement = () => {
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              <DropdownMenuItem
-                                onClick={() => handleRoleChange(user.id, 'admin')}
-                                className="text-green-600"
-                              >
-                                <Shield className="mr-2 h-4 w-4" />
-                                Make Admin
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => handleRoleChange(user.id, 'landlord')}
-                                className="text-yellow-600"
-                              >
-                                <Shield className="mr-2 h-4 w-4" />
-                                Make Landlord
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => handleRoleChange(user.id, 'renter')}
-                                className="text-red-600"
-                              >
-                                <Shield className="mr-2 h-4 w-4" />
-                                Make Renter
+                              <DropdownMenuItem onClick={() => setDetailUserId(user.id)}>
+                                <Eye className="mr-2 h-4 w-4" />
+                                View Details
                               </DropdownMenuItem>
-                              <DropdownMenuSeparator />
-                              {user.status === 'active' ? (
-                                <DropdownMenuItem
-                                  onClick={() => handleUserAction(user.id, 'deactivate')}
-                                  className="text-yellow-600"
-                                >
-                                  <UserX className="mr-2 h-4 w-4" />
-                                  Deactivate
-                                </DropdownMenuItem>
-                              ) : (
-                                <DropdownMenuItem
-                                  onClick={() => handleUserAction(user.id, 'activate')}
-                                  className="text-green-600"
-                                >
-                                  <UserCheck className="mr-2 h-4 w-4" />
-                                  Activate
-                                </DropdownMenuItem>
+                              {canManageUsers && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    onClick={() => handleRoleChange(user.id, 'admin')}
+                                    className="text-green-600"
+                                  >
+                                    <Shield className="mr-2 h-4 w-4" />
+                                    Make Admin
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => handleRoleChange(user.id, 'landlord')}
+                                    className="text-yellow-600"
+                                  >
+                                    <Shield className="mr-2 h-4 w-4" />
+                                    Make Landlord
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => handleRoleChange(user.id, 'renter')}
+                                    className="text-red-600"
+                                  >
+                                    <Shield className="mr-2 h-4 w-4" />
+                                    Make Renter
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => setStaffRolesTarget(user)}>
+                                    <BadgeCheck className="mr-2 h-4 w-4" />
+                                    Staff Roles
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    onClick={() => setStatusTarget(user)}
+                                    className="text-yellow-600"
+                                  >
+                                    <UserCog className="mr-2 h-4 w-4" />
+                                    Change Status
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => handleUserAction(user.id, 'delete')}
+                                    className="text-red-600"
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </>
                               )}
-                              <DropdownMenuItem
-                                onClick={() => handleUserAction(user.id, 'delete')}
-                                className="text-red-600"
-                              >
-                                <Trash2 className="mr-2 h-4 w-4" />
-                                Delete
-                              </DropdownMenuItem>
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </TableCell>
@@ -395,6 +454,26 @@ const UserManagement = () => {
           )}
         </CardContent>
       </Card>
+
+      <UserDetailDialog
+        user={users.find(user => user.id === detailUserId) ?? null}
+        onClose={() => setDetailUserId(null)}
+        onChangeStatus={canManageUsers ? (user) => {
+          setDetailUserId(null);
+          setStatusTarget({ ...user, status: getEffectiveAccountStatus(user) });
+        } : undefined}
+      />
+
+      <AccountStatusDialog
+        user={statusTarget}
+        onClose={() => setStatusTarget(null)}
+        onSaved={fetchUsers}
+      />
+
+      <StaffRolesDialog
+        user={staffRolesTarget}
+        onClose={() => setStaffRolesTarget(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { handleError } from "@/utils/errorHandling";
+import { VerificationRuleKey, VerificationRules } from "@/integrations/supabase/types";
+import {
+  ListingVerificationService,
+  VERIFICATION_PARAM_LABELS,
+  VERIFICATION_RULE_DESCRIPTIONS,
+  VERIFICATION_RULE_KEYS,
+  VERIFICATION_RULE_LABELS,
+  VerificationRuleSetWithActor,
+} from "@/services/listingVerificationService";
+import { ShieldCheck, Save } from 'lucide-react';
+
+export default function VerificationRulesCard() {
+  const { toast } = useToast();
+  const [ruleSets, setRuleSets] = useState<VerificationRuleSetWithActor[]>([]);
+  const [draft, setDraft] = useState<VerificationRules | null>(null);
+  const [notes, setNotes] = useState('');
+  const [publishing, setPublishing] = useState(false);
+  const current = ruleSets[0];
+
+  const fetchRuleSets = useCallback(async () => {
+    try {
+      const sets = await ListingVerificationService.getRuleSets();
+      setRuleSets(sets);
+      setDraft(sets[0]?.rules ?? null);
+    } catch (error) {
+      handleError(error, toast, 'Failed to load verification rules', { context: 'VerificationRulesCard' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRuleSets();
+  }, [fetchRuleSets]);
+
+  const hasChanges = !!draft && !!current && JSON.stringify(draft) !== JSON.stringify(current.rules);
+
+  const updateRule = (key: VerificationRuleKey, param: string, value: boolean | number) => {
+    if (!draft) return;
+    setDraft({ ...draft, [key]: { ...draft[key], [param]: value } });
+  };
+
+  const handlePublish = async () => {
+    if (!draft) return;
+
+    setPublishing(true);
+    try {
+      const published = await ListingVerificationService.publishRules(draft, notes);
+      setNotes('');
+      toast({
+        title: 'Rules published',
+        description: `Version ${published.version} now scores newly submitted listings.`,
+      });
+      await fetchRuleSets();
+    } catch (error) {
+      handleError(error, toast, 'Failed to publish verification rules', { context: 'VerificationRulesCard' });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Listing Verification Rules
+          {current && <Badge variant="secondary">v{current.version}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Submitted listings start at 100 and lose each failed rule's penalty. The score drives auto-approval and the review queue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!draft ? (
+          <p className="text-sm text-muted-foreground">Loading rules...</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {VERIFICATION_RULE_KEYS.filter(key => draft[key]).map(key => {
+              const { enabled, penalty, ...params } = draft[key];
+              return (
+                <div key={key} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <Label htmlFor={`rule-${key}`} className="font-medium">{VERIFICATION_RULE_LABELS[key]}</Label>
+                      <p className="text-xs text-muted-foreground">{VERIFICATION_RULE_DESCRIPTIONS[key]}</p>
+                    </div>
+                    <Switch
+                      id={`rule-${key}`}
+                      checked={enabled}
+                      onCheckedChange={(checked) => updateRule(key, 'enabled', checked)}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor={`rule-${key}-penalty`} className="text-xs">Penalty</Label>
+                      <Input
+                        id={`rule-${key}-penalty`}
+                        type="number"
+                        min="0"
+                        max="100"
+                        disabled={!enabled}
+                        value={penalty}
+                        onChange={(e) => updateRule(key, 'penalty', Number(e.target.value))}
+                      />
+                    </div>
+                    {Object.entries(params).map(([param, value]) =>
+                      typeof value === 'boolean' ? (
+                        <div key={param} className="col-span-2 flex items-center justify-between">
+                          <Label htmlFor={`rule-${key}-${param}`} className="text-xs">
+                            {VERIFICATION_PARAM_LABELS[param] || param}
+                          </Label>
+                          <Switch
+                            id={`rule-${key}-${param}`}
+                            checked={value}
+                            disabled={!enabled}
+                            onCheckedChange={(checked) => updateRule(key, param, checked)}
+                          />
+                        </div>
+                      ) : (
+                        <div key={param} className="space-y-1">
+                          <Label htmlFor={`rule-${key}-${param}`} className="text-xs">
+                            {VERIFICATION_PARAM_LABELS[param] || param}
+                          </Label>
+                          <Input
+                            id={`rule-${key}-${param}`}
+                            type="number"
+                            min="0"
+                            step={Number.isInteger(value) ? 1 : 0.1}
+                            disabled={!enabled}
+                            value={value}
+                            onChange={(e) => updateRule(key, param, Number(e.target.value))}
+                          />
+                        </div>
+                      )
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="rules-notes">What changed (optional)</Label>
+            <Input
+              id="rules-notes"
+              value={notes}
+              maxLength={500}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Recorded with the new rules version"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setDraft(current?.rules ?? null)} disabled={!hasChanges || publishing}>
+              Discard
+            </Button>
+            <Button onClick={handlePublish} disabled={!hasChanges || publishing}>
+              <Save className="mr-2 h-4 w-4" />
+              {publishing ? 'Publishing...' : 'Publish New Version'}
+            </Button>
+          </div>
+        </div>
+
+        {ruleSets.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Published</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Notes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ruleSets.map(ruleSet => (
+                <TableRow key={ruleSet.version}>
+                  <TableCell>v{ruleSet.version}</TableCell>
+                  <TableCell className="whitespace-nowrap">{new Date(ruleSet.created_at).toLocaleString()}</TableCell>
+                  <TableCell>{ruleSet.actor?.full_name || ruleSet.actor?.email || 'System'}</TableCell>
+                  <TableCell className="text-muted-foreground">{ruleSet.notes || '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
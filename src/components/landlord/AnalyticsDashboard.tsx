@@ -23,10 +23,11 @@ import {
   Map
 } from "lucide-react";
 import { Property } from "@/lib/supabase";
-import { AnalyticsService, MarketInsights, FinancialMetrics, AnalyticsData } from "@/services/analyticsService";
+import { AnalyticsService, MarketInsights, FinancialMetrics, AnalyticsData, FunnelStage } from "@/services/analyticsService";
 import { useAuth } from "@/hooks/useAuth";
 import { Chart } from "@/components/ui/chart";
 import EnhancedRevenueTrends from "./EnhancedRevenueTrends";
+import ConversionFunnel from "./ConversionFunnel";
 
 interface AnalyticsDashboardProps {
   properties: Property[];
@@ -35,6 +36,12 @@ interface AnalyticsDashboardProps {
 
 type ChartType = "revenue" | "views" | "inquiries";
 
+const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  revenue: "Revenue Trends",
+  views: "Listing Views",
+  inquiries: "Inquiries",
+};
+
 const AnalyticsDashboard = ({ properties, loading = false }: AnalyticsDashboardProps) => {
   const [timeRange, setTimeRange] = useState<"7d" | "30d" | "90d">("30d");
   const [chartType, setChartType] = useState<ChartType>("revenue");
@@ -44,6 +51,8 @@ const AnalyticsDashboard = ({ properties, loading = false }: AnalyticsDashboardP
   // State for real chart data with proper typing
   const [chartData, setChartData] = useState<AnalyticsData[]>([]);
   const [chartLoading, setChartLoading] = useState(false);
+  const [funnel, setFunnel] = useState<FunnelStage[]>(AnalyticsService.buildFunnel(0, 0, 0));
+  const [funnelLoading, setFunnelLoading] = useState(false);
 
   // State for enhanced analytics
   const [marketInsights, setMarketInsights] = useState<MarketInsights>({
@@ -120,6 +129,21 @@ const AnalyticsDashboard = ({ properties, loading = false }: AnalyticsDashboardP
     loadChartData();
   }, [chartType, timeRange, profile?.id]);
 
+  useEffect(() => {
+    const loadFunnel = async () => {
+      if (!profile?.id) return;
+
+      setFunnelLoading(true);
+      try {
+        setFunnel(await AnalyticsService.getConversionFunnel(profile.id, timeRange));
+      } finally {
+        setFunnelLoading(false);
+      }
+    };
+
+    loadFunnel();
+  }, [timeRange, profile?.id]);
+
   const exportData = () => {
     if (!properties.length) return;
     AnalyticsService.exportAnalyticsData(properties, 'property-analytics');
@@ -296,7 +320,7 @@ const AnalyticsDashboard = ({ properties, loading = false }: AnalyticsDashboardP
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
               <CardHeader>
-                <CardTitle>Revenue Trends</CardTitle>
+                <CardTitle>{CHART_TYPE_LABELS[chartType]}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="h-[300px]">
@@ -464,8 +488,18 @@ const AnalyticsDashboard = ({ properties, loading = false }: AnalyticsDashboardP
 
           {/* Performance Chart */}
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Performance Trends</CardTitle>
+              <Select value={chartType} onValueChange={(value: ChartType) => setChartType(value)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CHART_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
               <div className="h-[300px]">
@@ -480,6 +514,19 @@ const AnalyticsDashboard = ({ properties, loading = false }: AnalyticsDashboardP
               </div>
             </CardContent>
           </Card>
+
+          {/* Conversion Funnel */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Eye className="w-5 h-5" />
+                Views to Applications
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ConversionFunnel stages={funnel} loading={funnelLoading} />
+            </CardContent>
+          </Card>
         </div>
       )}
     </div>
@@ -0,0 +1,47 @@
+import { Progress } from "@/components/ui/progress";
+import { Chart } from "@/components/ui/chart";
+import { FunnelStage } from "@/services/analyticsService";
+
+interface ConversionFunnelProps {
+  stages: FunnelStage[];
+  loading?: boolean;
+  showChart?: boolean;
+  height?: number;
+}
+
+const ConversionFunnel = ({ stages, loading = false, showChart = true, height = 220 }: ConversionFunnelProps) => {
+  const top = stages[0]?.count ?? 0;
+
+  return (
+    <div className="space-y-4">
+      {showChart && (
+        <Chart
+          type="bar"
+          data={stages}
+          loading={loading}
+          xField="stage"
+          yField="count"
+          height={height}
+        />
+      )}
+      <div className="space-y-3">
+        {stages.map((stage, i) => (
+          <div key={stage.stage} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-600">{stage.stage}</span>
+              <span className="font-medium">
+                {stage.count.toLocaleString()}
+                {i > 0 && (
+                  <span className="text-gray-500 font-normal ml-2">{stage.rate}% of {stages[i - 1].stage.toLowerCase()}</span>
+                )}
+              </span>
+            </div>
+            <Progress value={top > 0 ? (stage.count / top) * 100 : 0} className="h-2" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConversionFunnel;
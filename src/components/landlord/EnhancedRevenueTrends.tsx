@@ -33,6 +33,7 @@ import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Property } from "@/lib/supabase";
+import { LedgerService, POSTED_TRANSACTION_STATUSES, summarizeTransactions } from "@/services/ledgerService";
 
 interface RevenueMetrics {
   totalRevenue: number;
@@ -141,7 +142,9 @@ const EnhancedRevenueTrends = ({ properties }: { properties: Property[] }) => {
       if (transactionsError) throw transactionsError;
 
       // Calculate revenue metrics
-      const completedTransactions = transactions?.filter(t => t.status === 'completed') || [];
+      const completedTransactions = transactions?.filter(t => POSTED_TRANSACTION_STATUSES.includes(t.status)) || [];
+      // Refunds can pay back transactions from before the period
+      const refundedTypes = await LedgerService.getRefundedTypes(completedTransactions);
       const revenueTransactions = completedTransactions.filter(t => 
         ['rent_payment', 'deposit', 'other_income'].includes(t.transaction_type)
       );
@@ -149,9 +152,12 @@ const EnhancedRevenueTrends = ({ properties }: { properties: Property[] }) => {
         ['maintenance_cost', 'utility_payment', 'insurance', 'tax', 'other_expense'].includes(t.transaction_type)
       );
 
-      const totalRevenue = revenueTransactions.reduce((sum, t) => sum + (t.amount || 0), 0);
-      const totalExpenses = expenseTransactions.reduce((sum, t) => sum + (t.amount || 0), 0);
-      const netIncome = totalRevenue - totalExpenses;
+      // Deposits are held for the tenant and refunds reduce what they pay back
+      const {
+        revenue: totalRevenue,
+        expenses: totalExpenses,
+        netIncome
+      } = summarizeTransactions(completedTransactions, refundedTypes);
 
       // Calculate breakdown
       const breakdown: RevenueBreakdown = {
@@ -184,13 +190,7 @@ const EnhancedRevenueTrends = ({ properties }: { properties: Property[] }) => {
           new Date(t.payment_date).toISOString().split('T')[0] === dateStr
         );
         
-        const dayRevenue = dayTransactions
-          .filter(t => ['rent_payment', 'deposit', 'other_income'].includes(t.transaction_type))
-          .reduce((sum, t) => sum + (t.amount || 0), 0);
-        
-        const dayExpenses = dayTransactions
-          .filter(t => ['maintenance_cost', 'utility_payment', 'insurance', 'tax', 'other_expense'].includes(t.transaction_type))
-          .reduce((sum, t) => sum + (t.amount || 0), 0);
+        const { revenue: dayRevenue, expenses: dayExpenses } = summarizeTransactions(dayTransactions, refundedTypes);
 
         trends.push({
           date: dateStr,
@@ -205,13 +205,11 @@ const EnhancedRevenueTrends = ({ properties }: { properties: Property[] }) => {
       // Calculate property-specific revenues
       const propertyRevenues: PropertyRevenue[] = properties.map(property => {
         const propertyTransactions = completedTransactions.filter(t => t.property_id === property.id);
-        const propertyRevenue = propertyTransactions
-          .filter(t => ['rent_payment', 'deposit', 'other_income'].includes(t.transaction_type))
-          .reduce((sum, t) => sum + (t.amount || 0), 0);
-        const propertyExpenses = propertyTransactions
-          .filter(t => ['maintenance_cost', 'utility_payment', 'insurance', 'tax', 'other_expense'].includes(t.transaction_type))
-          .reduce((sum, t) => sum + (t.amount || 0), 0);
-        const propertyNetIncome = propertyRevenue - propertyExpenses;
+        const {
+          revenue: propertyRevenue,
+          expenses: propertyExpenses,
+          netIncome: propertyNetIncome
+        } = summarizeTransactions(propertyTransactions, refundedTypes);
         const propertyRoi = property.price ? (propertyNetIncome / property.price) * 100 : 0;
 
         return {
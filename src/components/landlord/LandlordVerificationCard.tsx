@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { usePlatformSettings } from '@/hooks/usePlatformSettings';
+import { handleError } from '@/utils/errorHandling';
+import { LandlordVerification } from '@/integrations/supabase/types';
+import { Property } from '@/lib/supabase';
+import { LandlordVerificationService, isVerifiedLandlord } from '@/services/landlordVerificationService';
+import VerifiedBadge from '@/components/VerifiedBadge';
+import LandlordVerificationDialog from './LandlordVerificationDialog';
+import { Clock, ShieldAlert, ShieldCheck } from 'lucide-react';
+
+interface LandlordVerificationCardProps {
+  properties?: Pick<Property, 'id' | 'title'>[];
+}
+
+const LandlordVerificationCard = ({ properties = [] }: LandlordVerificationCardProps) => {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const { settings } = usePlatformSettings();
+  const [latest, setLatest] = useState<LandlordVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const fetchVerification = useCallback(async () => {
+    if (!user) return;
+    try {
+      const submissions = await LandlordVerificationService.getMyVerifications(user.id);
+      setLatest(submissions[0] ?? null);
+    } catch (error) {
+      handleError(error, toast, 'Failed to load verification status', { context: 'LandlordVerificationCard' });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchVerification();
+  }, [fetchVerification]);
+
+  if (loading) return null;
+
+  // The submission list also catches an approval made since the profile was loaded
+  const verifiedAt = profile?.verified_at || (latest?.status === 'approved' ? latest.reviewed_at : null);
+
+  if (isVerifiedLandlord({ verified_at: verifiedAt })) {
+    return (
+      <Card className="border-green-200 bg-green-50/60">
+        <CardContent className="flex flex-col gap-2 p-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="h-6 w-6 text-green-600" />
+            <div>
+              <p className="font-medium text-gray-900">You're a verified landlord</p>
+              <p className="text-sm text-gray-600">
+                Verified on {new Date(verifiedAt!).toLocaleDateString()}. Renters see a badge on your listings.
+              </p>
+            </div>
+          </div>
+          <VerifiedBadge />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const limit = settings.unverified_listing_limit;
+
+  return (
+    <>
+      <Card className={latest?.status === 'rejected' ? 'border-red-200 bg-red-50/60' : 'border-amber-200 bg-amber-50/60'}>
+        <CardContent className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-start gap-3">
+            {latest?.status === 'pending' ? (
+              <Clock className="h-6 w-6 text-amber-600 flex-shrink-0" />
+            ) : (
+              <ShieldAlert className={`h-6 w-6 flex-shrink-0 ${latest?.status === 'rejected' ? 'text-red-600' : 'text-amber-600'}`} />
+            )}
+            <div>
+              {latest?.status === 'pending' ? (
+                <>
+                  <p className="font-medium text-gray-900">Your documents are under review</p>
+                  <p className="text-sm text-gray-600">
+                    Submitted {new Date(latest.created_at).toLocaleDateString()}. We'll notify you once they're checked.
+                  </p>
+                </>
+              ) : latest?.status === 'rejected' ? (
+                <>
+                  <p className="font-medium text-gray-900">We couldn't verify your documents</p>
+                  <p className="text-sm text-gray-600">{latest.rejection_reason}</p>
+                </>
+              ) : (
+                <>
+                  <p className="font-medium text-gray-900">Get verified</p>
+                  <p className="text-sm text-gray-600">
+                    Upload your ID and proof of ownership to earn a verified badge renters can trust.
+                  </p>
+                </>
+              )}
+              {limit !== null && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Unverified landlords can publish up to {limit} listing{limit === 1 ? '' : 's'}.
+                </p>
+              )}
+            </div>
+          </div>
+          {latest?.status !== 'pending' && (
+            <Button onClick={() => setShowDialog(true)} className="flex-shrink-0">
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              {latest?.status === 'rejected' ? 'Submit Again' : 'Get Verified'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <LandlordVerificationDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        properties={properties}
+        onSubmitted={fetchVerification}
+      />
+    </>
+  );
+};
+
+export default LandlordVerificationCard;
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import { LandlordIdDocumentType, LandlordOwnershipDocumentType } from '@/integrations/supabase/types';
+import { Property } from '@/lib/supabase';
+import {
+  ID_DOCUMENT_LABELS,
+  LandlordVerificationService,
+  MAX_OWNERSHIP_DOCUMENTS,
+  MAX_VERIFICATION_FILE_SIZE,
+  OWNERSHIP_DOCUMENT_LABELS,
+} from '@/services/landlordVerificationService';
+import { Paperclip, ShieldCheck, X } from 'lucide-react';
+
+interface LandlordVerificationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  properties?: Pick<Property, 'id' | 'title'>[];
+  onSubmitted?: () => void;
+}
+
+const LandlordVerificationDialog = ({
+  open,
+  onOpenChange,
+  properties = [],
+  onSubmitted,
+}: LandlordVerificationDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [idDocumentType, setIdDocumentType] = useState<LandlordIdDocumentType>('nin');
+  const [idNumber, setIdNumber] = useState('');
+  const [idDocument, setIdDocument] = useState<File | null>(null);
+  const [ownershipDocumentType, setOwnershipDocumentType] = useState<LandlordOwnershipDocumentType>('certificate_of_occupancy');
+  const [ownershipDocuments, setOwnershipDocuments] = useState<File[]>([]);
+  const [propertyId, setPropertyId] = useState('none');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setIdNumber('');
+      setIdDocument(null);
+      setOwnershipDocuments([]);
+      setPropertyId('none');
+      setNotes('');
+    }
+  }, [open]);
+
+  const rejectLargeFiles = (files: File[]) => {
+    const tooLarge = files.filter(file => file.size > MAX_VERIFICATION_FILE_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: 'File too large',
+        description: `${tooLarge.map(file => file.name).join(', ')} is over 10MB.`,
+        variant: 'destructive',
+      });
+    }
+    return files.filter(file => file.size <= MAX_VERIFICATION_FILE_SIZE);
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    setSubmitting(true);
+    try {
+      await LandlordVerificationService.submitVerification(user.id, {
+        idDocumentType,
+        idNumber,
+        idDocument,
+        ownershipDocumentType,
+        ownershipDocuments,
+        propertyId: propertyId === 'none' ? null : propertyId,
+        notes,
+      });
+      toast({
+        title: 'Documents submitted',
+        description: "We'll review your documents and let you know once you're verified.",
+      });
+      onSubmitted?.();
+      onOpenChange(false);
+    } catch (error) {
+      handleError(error, toast, 'Failed to submit documents', { context: 'LandlordVerificationDialog' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Get Verified
+          </DialogTitle>
+          <DialogDescription>
+            Verified landlords show a badge on every listing. Documents are only visible to our review team.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>ID document *</Label>
+              <Select value={idDocumentType} onValueChange={(value) => setIdDocumentType(value as LandlordIdDocumentType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ID_DOCUMENT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="verification-id-number">ID number *</Label>
+              <Input
+                id="verification-id-number"
+                maxLength={50}
+                value={idNumber}
+                onChange={(e) => setIdNumber(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="verification-id-document">Copy of your ID *</Label>
+            <input
+              id="verification-id-document"
+              type="file"
+              accept="image/*,.pdf"
+              className="block w-full text-sm text-gray-600"
+              onChange={(e) => {
+                const [file] = rejectLargeFiles(Array.from(e.target.files || []));
+                setIdDocument(file ?? null);
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Proof of ownership *</Label>
+            <Select
+              value={ownershipDocumentType}
+              onValueChange={(value) => setOwnershipDocumentType(value as LandlordOwnershipDocumentType)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(OWNERSHIP_DOCUMENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              type="file"
+              multiple
+              accept="image/*,.pdf"
+              aria-label="Ownership documents"
+              className="block w-full text-sm text-gray-600"
+              disabled={ownershipDocuments.length >= MAX_OWNERSHIP_DOCUMENTS}
+              onChange={(e) => {
+                const selected = rejectLargeFiles(Array.from(e.target.files || []));
+                setOwnershipDocuments(prev => [...prev, ...selected].slice(0, MAX_OWNERSHIP_DOCUMENTS));
+                e.target.value = '';
+              }}
+            />
+            <p className="text-xs text-gray-500">
+              Up to {MAX_OWNERSHIP_DOCUMENTS} files, 10MB each. Managing for someone else? Upload their letter of authority.
+            </p>
+            {ownershipDocuments.length > 0 && (
+              <ul className="space-y-1">
+                {ownershipDocuments.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm bg-gray-50 rounded px-2 py-1">
+                    <span className="flex items-center gap-2 truncate">
+                      <Paperclip className="h-3 w-3 flex-shrink-0" />
+                      {file.name}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setOwnershipDocuments(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {properties.length > 0 && (
+            <div className="space-y-2">
+              <Label>Listing these documents cover (optional)</Label>
+              <Select value={propertyId} onValueChange={setPropertyId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not tied to one listing</SelectItem>
+                  {properties.map(property => (
+                    <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="verification-notes">Notes for the reviewer (optional)</Label>
+            <Textarea
+              id="verification-notes"
+              rows={3}
+              maxLength={1000}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!user || !idNumber.trim() || !idDocument || ownershipDocuments.length === 0 || submitting}
+          >
+            {submitting ? 'Submitting...' : 'Submit for Review'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LandlordVerificationDialog;
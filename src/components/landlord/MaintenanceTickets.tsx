@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import MaintenancePhotos from '@/components/MaintenancePhotos';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import {
+  MaintenanceService,
+  MaintenanceTicketUpdate,
+  MaintenanceTicketWithDetails,
+  MAINTENANCE_CATEGORY_LABELS,
+  MAINTENANCE_PRIORITY_LABELS,
+  MAINTENANCE_STATUS_LABELS,
+  isTicketClosed,
+} from '@/services/maintenanceService';
+import { MaintenancePriority, MaintenanceStatus } from '@/integrations/supabase/types';
+import { Wrench } from 'lucide-react';
+
+interface MaintenanceTicketsProps {
+  propertyId: string;
+}
+
+const PRIORITY_CLASSES: Record<MaintenancePriority, string> = {
+  low: 'bg-gray-600',
+  medium: 'bg-blue-600',
+  high: 'bg-orange-600',
+  urgent: 'bg-red-600',
+};
+
+// Landlords can't open or cancel tickets on a tenant's behalf
+const LANDLORD_STATUSES: MaintenanceStatus[] = ['open', 'in_progress', 'on_hold', 'completed'];
+
+const MaintenanceTickets = ({ propertyId }: MaintenanceTicketsProps) => {
+  const { toast } = useToast();
+  const [tickets, setTickets] = useState<MaintenanceTicketWithDetails[]>([]);
+  const [activeTicket, setActiveTicket] = useState<MaintenanceTicketWithDetails | null>(null);
+  const [draft, setDraft] = useState<MaintenanceTicketUpdate>({});
+  const [saving, setSaving] = useState(false);
+
+  const fetchTickets = useCallback(async () => {
+    try {
+      setTickets(await MaintenanceService.getPropertyTickets(propertyId));
+    } catch (error) {
+      handleError(error, toast, 'Failed to load maintenance tickets', { context: 'MaintenanceTickets' });
+    }
+  }, [propertyId, toast]);
+
+  useEffect(() => {
+    fetchTickets();
+  }, [fetchTickets]);
+
+  const openTicket = (ticket: MaintenanceTicketWithDetails) => {
+    setActiveTicket(ticket);
+    setDraft({
+      priority: ticket.priority,
+      status: ticket.status,
+      assigned_to: ticket.assigned_to,
+      assigned_contact: ticket.assigned_contact,
+      cost: ticket.cost,
+      resolution_notes: ticket.resolution_notes,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!activeTicket) return;
+
+    if (draft.status === 'completed' && activeTicket.status !== 'completed' && !draft.cost &&
+      !window.confirm('Complete this ticket without recording a cost?')) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await MaintenanceService.updateTicket(activeTicket.id, {
+        ...draft,
+        assigned_to: draft.assigned_to?.trim() || null,
+        assigned_contact: draft.assigned_contact?.trim() || null,
+        resolution_notes: draft.resolution_notes?.trim() || null,
+      });
+      setTickets(prev => prev.map(t => (t.id === updated.id ? { ...t, ...updated } : t)));
+      toast({
+        title: 'Ticket updated',
+        description: updated.cost_transaction_id && !activeTicket.cost_transaction_id
+          ? 'The repair cost has been recorded as a maintenance expense.'
+          : 'Your tenant has been notified of any status change.',
+      });
+      setActiveTicket(null);
+    } catch (error) {
+      handleError(error, toast, 'Failed to update ticket', { context: 'MaintenanceTickets' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openCount = tickets.filter(ticket => !isTicketClosed(ticket)).length;
+  const closed = activeTicket ? isTicketClosed(activeTicket) : false;
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Wrench className="w-5 h-5" />
+          Maintenance
+          {openCount > 0 && <Badge className="bg-orange-600">{openCount} open</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tickets.length === 0 ? (
+          <p className="text-gray-400 text-sm">No maintenance requests for this property.</p>
+        ) : (
+          tickets.map((ticket) => (
+            <div key={ticket.id} className="bg-gray-700 rounded-lg p-4 flex items-center justify-between gap-4">
+              <div>
+                <p className="text-white font-medium">{ticket.title}</p>
+                <p className="text-gray-400 text-sm">
+                  {MAINTENANCE_CATEGORY_LABELS[ticket.category]} • {ticket.tenant?.full_name || 'Tenant'} •{' '}
+                  {new Date(ticket.created_at).toLocaleDateString()}
+                </p>
+                {ticket.cost !== null && (
+                  <p className="text-gray-400 text-xs mt-1">Cost: ₦{Number(ticket.cost).toLocaleString()}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge className={PRIORITY_CLASSES[ticket.priority]}>
+                  {MAINTENANCE_PRIORITY_LABELS[ticket.priority]}
+                </Badge>
+                <Badge variant="secondary">{MAINTENANCE_STATUS_LABELS[ticket.status]}</Badge>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => openTicket(ticket)}
+                  className="border-gray-600 text-gray-300 hover:bg-gray-600"
+                >
+                  {isTicketClosed(ticket) ? 'View' : 'Manage'}
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={!!activeTicket} onOpenChange={(open) => !open && setActiveTicket(null)}>
+        {activeTicket && (
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{activeTicket.title}</DialogTitle>
+              <DialogDescription>
+                Reported by {activeTicket.tenant?.full_name || activeTicket.tenant?.email}
+                {activeTicket.tenant?.phone && ` • ${activeTicket.tenant.phone}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <p className="text-sm text-gray-700 whitespace-pre-line">{activeTicket.description}</p>
+              <MaintenancePhotos paths={activeTicket.photo_paths} />
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select
+                    value={draft.priority}
+                    disabled={closed}
+                    onValueChange={(value) => setDraft({ ...draft, priority: value as MaintenancePriority })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(MAINTENANCE_PRIORITY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select
+                    value={draft.status}
+                    disabled={closed}
+                    onValueChange={(value) => setDraft({ ...draft, status: value as MaintenanceStatus })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(closed ? [activeTicket.status] : LANDLORD_STATUSES).map(status => (
+                        <SelectItem key={status} value={status}>{MAINTENANCE_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ticket-assignee">Assigned to</Label>
+                  <Input
+                    id="ticket-assignee"
+                    value={draft.assigned_to || ''}
+                    disabled={closed}
+                    onChange={(e) => setDraft({ ...draft, assigned_to: e.target.value })}
+                    placeholder="Contractor or caretaker"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ticket-contact">Contact</Label>
+                  <Input
+                    id="ticket-contact"
+                    value={draft.assigned_contact || ''}
+                    disabled={closed}
+                    onChange={(e) => setDraft({ ...draft, assigned_contact: e.target.value })}
+                    placeholder="Phone number"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="ticket-cost">Repair cost (₦)</Label>
+                <Input
+                  id="ticket-cost"
+                  type="number"
+                  min="0"
+                  value={draft.cost ?? ''}
+                  disabled={!!activeTicket.cost_transaction_id || activeTicket.status === 'cancelled'}
+                  onChange={(e) => setDraft({ ...draft, cost: e.target.value === '' ? null : Number(e.target.value) })}
+                />
+                <p className="text-xs text-gray-500">
+                  {activeTicket.cost_transaction_id
+                    ? 'Recorded as a maintenance expense.'
+                    : 'Recorded as a maintenance expense when the ticket is completed.'}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="ticket-notes">Notes for the tenant</Label>
+                <Textarea
+                  id="ticket-notes"
+                  rows={3}
+                  value={draft.resolution_notes || ''}
+                  disabled={activeTicket.status === 'cancelled'}
+                  onChange={(e) => setDraft({ ...draft, resolution_notes: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setActiveTicket(null)}>Close</Button>
+              {activeTicket.status !== 'cancelled' && (
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save'}
+                </Button>
+              )}
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </Card>
+  );
+};
+
+export default MaintenanceTickets;
@@ -17,7 +17,8 @@ import {
   MoreHorizontal,
   Phone,
   Mail,
-  MapPin
+  MapPin,
+  Settings2
 } from "lucide-react";
 import { 
   DropdownMenu, 
@@ -36,6 +37,10 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/lib/supabase";
 import { LoadingSpinner, ListLoadingSkeleton } from "@/components/ui/loading-state";
 import { handleError, handleSuccess } from "@/utils/errorHandling";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/services/platformSettingsService";
+import ReplySettingsDialog from "@/components/landlord/ReplySettingsDialog";
+import ReplyTemplatePicker from "@/components/landlord/ReplyTemplatePicker";
 
 interface ChatRoom {
   id: string;
@@ -73,8 +78,10 @@ const MessagesSection = ({ chatRooms = [], loading = false }: MessagesSectionPro
   const [quickReplyOpen, setQuickReplyOpen] = useState<string | null>(null);
   const [quickReplyText, setQuickReplyText] = useState("");
   const [sendingReply, setSendingReply] = useState(false);
+  const [replySettingsOpen, setReplySettingsOpen] = useState(false);
   
   const { toast } = useToast();
+  const { profile } = useAuth();
 
   // Memoized filter for better performance
   const filteredChatRooms = useMemo(() => {
@@ -214,11 +221,19 @@ const MessagesSection = ({ chatRooms = [], loading = false }: MessagesSectionPro
             </Badge>
           )}
         </CardTitle>
-            <Link to="/messages">
-              <Button variant="outline" size="sm">
-                View All
-              </Button>
-            </Link>
+            <div className="flex items-center gap-2">
+              {profile && (
+                <Button variant="outline" size="sm" onClick={() => setReplySettingsOpen(true)}>
+                  <Settings2 className="w-4 h-4 mr-2" />
+                  Reply Settings
+                </Button>
+              )}
+              <Link to="/messages">
+                <Button variant="outline" size="sm">
+                  View All
+                </Button>
+              </Link>
+            </div>
           </div>
           
           {/* Search and Filter */}
@@ -291,6 +306,9 @@ const MessagesSection = ({ chatRooms = [], loading = false }: MessagesSectionPro
                           {room.renter_profile?.full_name || 'Unknown User'}
                       </h4>
                         {getStatusBadge(room.status)}
+                        {!!room.unread_count && (
+                          <Badge variant="destructive">{room.unread_count} new</Badge>
+                        )}
                       </div>
                       <div className="flex items-center space-x-2 text-sm text-gray-500">
                         {getMessageStatusIcon(room.last_message?.sender_type || 'renter', room.unread_count)}
@@ -342,6 +360,24 @@ const MessagesSection = ({ chatRooms = [], loading = false }: MessagesSectionPro
                               <DialogTitle>Quick Reply to {room.renter_profile?.full_name}</DialogTitle>
                             </DialogHeader>
                             <div className="space-y-4">
+                              {profile && (
+                                <div className="flex items-center justify-between">
+                                  <span className="text-sm text-gray-600">Start from a saved reply</span>
+                                  <ReplyTemplatePicker
+                                    landlordId={profile.id}
+                                    values={{
+                                      property_title: room.properties?.title,
+                                      price: room.properties?.price !== undefined ? formatCurrency(room.properties.price) : undefined,
+                                      landlord_name: profile.full_name,
+                                    }}
+                                    onInsert={setQuickReplyText}
+                                    onManage={() => {
+                                      setQuickReplyOpen(null);
+                                      setReplySettingsOpen(true);
+                                    }}
+                                  />
+                                </div>
+                              )}
                               <Textarea
                                 placeholder="Type your message..."
                                 value={quickReplyText}
@@ -392,6 +428,14 @@ const MessagesSection = ({ chatRooms = [], loading = false }: MessagesSectionPro
           </div>
         )}
       </CardContent>
+
+      {profile && (
+        <ReplySettingsDialog
+          landlordId={profile.id}
+          open={replySettingsOpen}
+          onOpenChange={setReplySettingsOpen}
+        />
+      )}
     </Card>
   );
 };
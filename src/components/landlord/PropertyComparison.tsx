@@ -23,11 +23,13 @@ import {
   X,
   GitCompare,
   Download,
-  Filter
+  Filter,
+  FileText
 } from "lucide-react";
 import { Property } from "@/lib/supabase";
 import { useAuth } from "@/hooks/useAuth";
 import { AnalyticsService, PropertyMetrics } from "@/services/analyticsService";
+import ConversionFunnel from "./ConversionFunnel";
 
 interface PropertyComparisonProps {
   properties: Property[];
@@ -98,7 +100,7 @@ const PropertyComparison = ({ properties, onClose }: PropertyComparisonProps) =>
   const exportComparison = () => {
     const selectedData = getSelectedPropertiesData();
     const csvContent = [
-      ['Property', 'Price', 'Location', 'Status', 'Views', 'Inquiries', 'Conversion Rate', 'Market Score', 'Overall Score'],
+      ['Property', 'Price', 'Location', 'Status', 'Views', 'Inquiries', 'Applications', 'Conversion Rate', 'Market Score', 'Overall Score'],
       ...selectedData.map(property => {
         const metrics = getMetricsForProperty(property.id);
         return [
@@ -108,6 +110,7 @@ const PropertyComparison = ({ properties, onClose }: PropertyComparisonProps) =>
           property.status,
           metrics?.views || 0,
           metrics?.inquiries || 0,
+          metrics?.applications || 0,
           `${metrics?.conversionRate || 0}%`,
           metrics?.marketScore || 0,
           metrics?.overallScore || 0
@@ -474,6 +477,20 @@ const PropertyComparison = ({ properties, onClose }: PropertyComparisonProps) =>
                           );
                         })}
                       </tr>
+                      <tr className="border-b">
+                        <td className="p-3 font-medium">Applications</td>
+                        {getSelectedPropertiesData().map(property => {
+                          const metrics = getMetricsForProperty(property.id);
+                          return (
+                            <td key={property.id} className="text-center p-3">
+                              <div className="flex items-center justify-center">
+                                <FileText className="w-4 h-4 text-orange-500 mr-1" />
+                                <span className="font-medium">{metrics?.applications || 0}</span>
+                              </div>
+                            </td>
+                          );
+                        })}
+                      </tr>
                       <tr className="border-b">
                         <td className="p-3 font-medium">Conversion Rate</td>
                         {getSelectedPropertiesData().map(property => {
@@ -485,6 +502,24 @@ const PropertyComparison = ({ properties, onClose }: PropertyComparisonProps) =>
                           );
                         })}
                       </tr>
+                      <tr className="border-b">
+                        <td className="p-3 font-medium">Funnel</td>
+                        {getSelectedPropertiesData().map(property => {
+                          const metrics = getMetricsForProperty(property.id);
+                          return (
+                            <td key={property.id} className="p-3">
+                              <ConversionFunnel
+                                stages={AnalyticsService.buildFunnel(
+                                  metrics?.views || 0,
+                                  metrics?.inquiries || 0,
+                                  metrics?.applications || 0
+                                )}
+                                height={160}
+                              />
+                            </td>
+                          );
+                        })}
+                      </tr>
                       <tr className="border-b">
                         <td className="p-3 font-medium">Days on Market</td>
                         {getSelectedPropertiesData().map(property => {
@@ -0,0 +1,307 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { handleError } from "@/utils/errorHandling";
+import { MessageTemplate } from "@/integrations/supabase/types";
+import {
+  AutoReplySettings,
+  DEFAULT_AUTO_REPLY_SETTINGS,
+  MAX_TEMPLATE_BODY_LENGTH,
+  MAX_TEMPLATE_TITLE_LENGTH,
+  ReplyTemplateService,
+  TEMPLATE_VARIABLES,
+  TemplateVariable,
+} from "@/services/replyTemplateService";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+interface ReplySettingsDialogProps {
+  landlordId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_TEMPLATE = { id: undefined as string | undefined, title: "", body: "" };
+
+const VariableButtons = ({ onInsert }: { onInsert: (placeholder: string) => void }) => (
+  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+    Insert:
+    {(Object.entries(TEMPLATE_VARIABLES) as [TemplateVariable, string][]).map(([variable, label]) => (
+      <Badge
+        key={variable}
+        variant="outline"
+        className="cursor-pointer hover:bg-gray-100"
+        onClick={() => onInsert(`{{${variable}}}`)}
+      >
+        {label}
+      </Badge>
+    ))}
+  </div>
+);
+
+const ReplySettingsDialog = ({ landlordId, open, onOpenChange }: ReplySettingsDialogProps) => {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [editing, setEditing] = useState(EMPTY_TEMPLATE);
+  const [autoReplies, setAutoReplies] = useState<AutoReplySettings>(DEFAULT_AUTO_REPLY_SETTINGS);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSettings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [savedTemplates, savedAutoReplies] = await Promise.all([
+        ReplyTemplateService.getTemplates(landlordId),
+        ReplyTemplateService.getAutoReplies(landlordId),
+      ]);
+      setTemplates(savedTemplates);
+      setAutoReplies(savedAutoReplies);
+    } catch (error) {
+      handleError(error, toast, "Failed to load reply settings", { context: "ReplySettingsDialog" });
+    } finally {
+      setLoading(false);
+    }
+  }, [landlordId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      setEditing(EMPTY_TEMPLATE);
+      fetchSettings();
+    }
+  }, [open, fetchSettings]);
+
+  const handleSaveTemplate = async () => {
+    setSaving(true);
+    try {
+      const saved = await ReplyTemplateService.saveTemplate(landlordId, editing);
+      setTemplates(prev =>
+        [...prev.filter(template => template.id !== saved.id), saved].sort((a, b) => a.title.localeCompare(b.title))
+      );
+      setEditing(EMPTY_TEMPLATE);
+      toast({ title: editing.id ? "Template updated" : "Template saved" });
+    } catch (error) {
+      handleError(error, toast, "Failed to save template", { context: "ReplySettingsDialog" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: MessageTemplate) => {
+    try {
+      await ReplyTemplateService.deleteTemplate(template.id);
+      setTemplates(prev => prev.filter(existing => existing.id !== template.id));
+      if (editing.id === template.id) setEditing(EMPTY_TEMPLATE);
+      toast({ title: "Template deleted" });
+    } catch (error) {
+      handleError(error, toast, "Failed to delete template", { context: "ReplySettingsDialog" });
+    }
+  };
+
+  const handleSaveAutoReplies = async () => {
+    setSaving(true);
+    try {
+      setAutoReplies(await ReplyTemplateService.saveAutoReplies(landlordId, autoReplies));
+      toast({ title: "Auto-replies saved" });
+    } catch (error) {
+      handleError(error, toast, "Failed to save auto-replies", { context: "ReplySettingsDialog" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reply Settings</DialogTitle>
+          <DialogDescription>
+            Save answers you send often and reply automatically when renters get in touch.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="templates">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+            <TabsTrigger value="auto-replies">Auto-replies</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="templates" className="space-y-4">
+            {loading && templates.length === 0 ? (
+              <p className="text-sm text-gray-500">Loading templates...</p>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No templates yet. Save replies about availability, inspection times or payment terms below.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {templates.map(template => (
+                  <div key={template.id} className="flex items-start justify-between gap-2 p-3 border rounded-lg">
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm">{template.title}</p>
+                      <p className="text-xs text-gray-500 line-clamp-2">{template.body}</p>
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label={`Edit ${template.title}`}
+                        onClick={() => setEditing({ id: template.id, title: template.title, body: template.body })}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label={`Delete ${template.title}`}
+                        onClick={() => handleDeleteTemplate(template)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3 border-t pt-4">
+              <p className="text-sm font-medium">{editing.id ? "Edit template" : "New template"}</p>
+              <div className="space-y-2">
+                <Label htmlFor="template-title">Title</Label>
+                <Input
+                  id="template-title"
+                  value={editing.title}
+                  maxLength={MAX_TEMPLATE_TITLE_LENGTH}
+                  onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                  placeholder="e.g. Inspection times"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-body">Message</Label>
+                <Textarea
+                  id="template-body"
+                  rows={4}
+                  value={editing.body}
+                  maxLength={MAX_TEMPLATE_BODY_LENGTH}
+                  onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+                  placeholder="Inspections for {{property_title}} hold on Saturdays between 10am and 2pm."
+                />
+                <VariableButtons onInsert={(placeholder) => setEditing({ ...editing, body: editing.body + placeholder })} />
+              </div>
+              <div className="flex justify-end gap-2">
+                {editing.id && (
+                  <Button variant="outline" onClick={() => setEditing(EMPTY_TEMPLATE)} disabled={saving}>
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  onClick={handleSaveTemplate}
+                  disabled={saving || !editing.title.trim() || !editing.body.trim()}
+                >
+                  {!editing.id && <Plus className="w-4 h-4 mr-2" />}
+                  {editing.id ? "Update Template" : "Save Template"}
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="auto-replies" className="space-y-6">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="welcome-enabled">Welcome message</Label>
+                <Switch
+                  id="welcome-enabled"
+                  checked={autoReplies.welcome_enabled}
+                  disabled={loading}
+                  onCheckedChange={(checked) => setAutoReplies({ ...autoReplies, welcome_enabled: checked })}
+                />
+              </div>
+              <p className="text-xs text-gray-500">Sent when a renter messages you about a listing for the first time.</p>
+              {autoReplies.welcome_enabled && (
+                <>
+                  <Textarea
+                    rows={3}
+                    value={autoReplies.welcome_message}
+                    maxLength={MAX_TEMPLATE_BODY_LENGTH}
+                    onChange={(e) => setAutoReplies({ ...autoReplies, welcome_message: e.target.value })}
+                    placeholder="Thanks for your interest in {{property_title}}. I'll get back to you shortly. - {{landlord_name}}"
+                  />
+                  <VariableButtons
+                    onInsert={(placeholder) =>
+                      setAutoReplies({ ...autoReplies, welcome_message: autoReplies.welcome_message + placeholder })
+                    }
+                  />
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="away-enabled">Out of office</Label>
+                <Switch
+                  id="away-enabled"
+                  checked={autoReplies.away_enabled}
+                  disabled={loading}
+                  onCheckedChange={(checked) => setAutoReplies({ ...autoReplies, away_enabled: checked })}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Sent once per conversation while you're away, instead of the welcome message.
+              </p>
+              {autoReplies.away_enabled && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="away-starts-on">From</Label>
+                      <Input
+                        id="away-starts-on"
+                        type="date"
+                        value={autoReplies.away_starts_on ?? ""}
+                        onChange={(e) => setAutoReplies({ ...autoReplies, away_starts_on: e.target.value || null })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="away-ends-on">Until</Label>
+                      <Input
+                        id="away-ends-on"
+                        type="date"
+                        min={autoReplies.away_starts_on ?? undefined}
+                        value={autoReplies.away_ends_on ?? ""}
+                        onChange={(e) => setAutoReplies({ ...autoReplies, away_ends_on: e.target.value || null })}
+                      />
+                    </div>
+                  </div>
+                  <Textarea
+                    rows={3}
+                    value={autoReplies.away_message}
+                    maxLength={MAX_TEMPLATE_BODY_LENGTH}
+                    onChange={(e) => setAutoReplies({ ...autoReplies, away_message: e.target.value })}
+                    placeholder="I'm away until next week and will reply about {{property_title}} when I'm back."
+                  />
+                  <VariableButtons
+                    onInsert={(placeholder) =>
+                      setAutoReplies({ ...autoReplies, away_message: autoReplies.away_message + placeholder })
+                    }
+                  />
+                </>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button onClick={handleSaveAutoReplies} disabled={saving || loading}>
+                {saving ? "Saving..." : "Save Auto-replies"}
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReplySettingsDialog;
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { handleError } from "@/utils/errorHandling";
+import { MessageTemplate } from "@/integrations/supabase/types";
+import { ReplyTemplateService, TemplateVariable, fillTemplate } from "@/services/replyTemplateService";
+import { MessageSquareText, Settings2 } from "lucide-react";
+
+interface ReplyTemplatePickerProps {
+  landlordId: string;
+  values: Partial<Record<TemplateVariable, string>>;
+  onInsert: (text: string) => void;
+  onManage?: () => void;
+  disabled?: boolean;
+}
+
+const ReplyTemplatePicker = ({ landlordId, values, onInsert, onManage, disabled }: ReplyTemplatePickerProps) => {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Templates can change in the settings dialog, so reload each time the menu opens
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+
+    setLoading(true);
+    try {
+      setTemplates(await ReplyTemplateService.getTemplates(landlordId));
+    } catch (error) {
+      handleError(error, toast, "Failed to load templates", { context: "ReplyTemplatePicker" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" size="icon" variant="outline" aria-label="Insert a template" disabled={disabled}>
+          <MessageSquareText className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Saved replies</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {loading ? (
+          <DropdownMenuItem disabled>Loading...</DropdownMenuItem>
+        ) : templates.length === 0 ? (
+          <DropdownMenuItem disabled>No templates yet</DropdownMenuItem>
+        ) : (
+          templates.map(template => (
+            <DropdownMenuItem key={template.id} onClick={() => onInsert(fillTemplate(template.body, values))}>
+              <span className="truncate">{template.title}</span>
+            </DropdownMenuItem>
+          ))
+        )}
+        {onManage && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onManage}>
+              <Settings2 className="w-4 h-4 mr-2" />
+              Manage templates
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ReplyTemplatePicker;
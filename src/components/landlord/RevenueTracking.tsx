@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,30 +7,29 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Label } from "@/components/ui/label";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { format } from "date-fns";
+import { format, startOfMonth, startOfYear, subMonths } from "date-fns";
 import { cn } from "@/lib/utils";
-import { CalendarIcon, Plus, DollarSign, TrendingUp, ArrowUpRight, ArrowDownRight, Filter } from "lucide-react";
+import { CalendarIcon, Plus, DollarSign, TrendingUp, ArrowUpRight, ArrowDownRight, Filter, Undo2 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from '@/hooks/useAuth';
 import { Navigate } from 'react-router-dom';
+import { handleError } from '@/utils/errorHandling';
+import { PropertyTransaction, TransactionType } from '@/integrations/supabase/types';
+import {
+  LedgerService,
+  INCOME_TRANSACTION_TYPES,
+  TENANT_TRANSACTION_TYPES,
+  summarizeTransactions,
+} from '@/services/ledgerService';
 
 interface RevenueTrackingProps {
   propertyId?: string; // Optional - if provided, shows data for specific property
 }
 
-interface Transaction {
-  id: string;
-  property_id: string;
-  transaction_type: 'rent_payment' | 'deposit' | 'maintenance_cost' | 'utility_payment' | 'insurance' | 'tax' | 'other_income' | 'other_expense';
-  amount: number;
-  status: 'pending' | 'completed' | 'failed' | 'refunded';
-  due_date?: string;
-  payment_date?: string;
-  description?: string;
-  recurring: boolean;
-  recurrence_interval?: string;
-}
+type Transaction = PropertyTransaction & {
+  properties?: { title: string; location: string } | null;
+};
 
 interface FinancialMetrics {
   total_revenue: number;
@@ -39,48 +38,74 @@ interface FinancialMetrics {
   occupancy_rate: number;
 }
 
-const RevenueTracking = () => {
-  const { user, hasRole } = useAuth();
-  
-  // Ensure only landlords can access this component
-  if (!hasRole('landlord')) {
-    return <Navigate to="/" replace />;
+interface PropertyOption {
+  id: string;
+  title: string;
+}
+
+interface ApplicationOption {
+  id: string;
+  property_id: string;
+  full_name: string;
+}
+
+interface NewTransaction {
+  property_id?: string;
+  application_id?: string;
+  transaction_type: TransactionType;
+  amount?: number;
+  status: 'pending' | 'completed';
+  description?: string;
+}
+
+type DateFilter = 'all' | 'this_month' | 'last_month' | 'this_year';
+
+const emptyTransaction = (propertyId?: string): NewTransaction => ({
+  property_id: propertyId,
+  transaction_type: 'rent_payment',
+  status: 'completed',
+});
+
+const getDateRange = (filter: DateFilter) => {
+  const now = new Date();
+  switch (filter) {
+    case 'this_month':
+      return { from: startOfMonth(now).toISOString() };
+    case 'last_month': {
+      const lastMonth = subMonths(now, 1);
+      return { from: startOfMonth(lastMonth).toISOString(), to: startOfMonth(now).toISOString() };
+    }
+    case 'this_year':
+      return { from: startOfYear(now).toISOString() };
+    default:
+      return {};
   }
+};
+
+const isMoneyIn = (transaction: Transaction) =>
+  INCOME_TRANSACTION_TYPES.includes(transaction.transaction_type) || transaction.transaction_type === 'deposit';
 
+const RevenueTracking = ({ propertyId }: RevenueTrackingProps) => {
+  const { user, hasRole } = useAuth();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [metrics, setMetrics] = useState<FinancialMetrics | null>(null);
+  const [depositsHeld, setDepositsHeld] = useState(0);
+  const [properties, setProperties] = useState<PropertyOption[]>([]);
+  const [applications, setApplications] = useState<ApplicationOption[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddTransaction, setShowAddTransaction] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date>();
-  const [newTransaction, setNewTransaction] = useState<Partial<Transaction>>({
-    transaction_type: 'rent_payment',
-    status: 'pending',
-    recurring: false,
-  });
-  const [dateFilter, setDateFilter] = useState<'all' | 'this_month' | 'last_month' | 'this_year'>('this_month');
+  const [newTransaction, setNewTransaction] = useState<NewTransaction>(emptyTransaction(propertyId));
+  const [dateFilter, setDateFilter] = useState<DateFilter>('this_month');
   const { toast } = useToast();
 
-  useEffect(() => {
-    fetchTransactions();
-    fetchMetrics();
-  }, [dateFilter]);
-
-  const fetchTransactions = async () => {
+  const fetchTransactions = useCallback(async () => {
     try {
       // The RLS policies will automatically filter to show only the landlord's data
-      const { data: transactions, error } = await supabase
-        .from('property_transactions')
-        .select(`
-          *,
-          properties:property_id (
-            title,
-            address
-          )
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setTransactions(transactions);
+      const data = await LedgerService.getTransactions({ propertyId, ...getDateRange(dateFilter) });
+      const refundedTypes = await LedgerService.getRefundedTypes(data);
+      setTransactions(data);
+      setDepositsHeld(summarizeTransactions(data, refundedTypes).depositsHeld);
     } catch (error) {
       console.error('Error fetching transactions:', error);
       toast({
@@ -92,36 +117,26 @@ const RevenueTracking = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [propertyId, dateFilter, toast]);
 
-  const fetchMetrics = async () => {
+  const fetchMetrics = useCallback(async () => {
     try {
-      // The RLS policies will automatically filter to show only the landlord's data
-      const { data: metrics, error } = await supabase
-        .from('property_financial_metrics')
-        .select(`
-          *,
-          properties:property_id (
-            title,
-            address
-          )
-        `);
-
-      if (error) throw error;
-      
-      if (metrics && metrics.length > 0) {
+      // Metrics are maintained from the ledger whenever a transaction is posted
+      const metrics = await LedgerService.getFinancialMetrics(propertyId ? [propertyId] : undefined);
+
+      if (metrics.length > 0) {
         const aggregatedMetrics = metrics.reduce((acc, curr) => ({
-          total_revenue: acc.total_revenue + curr.total_revenue,
-          total_expenses: acc.total_expenses + curr.total_expenses,
-          net_income: acc.net_income + curr.net_income,
-          occupancy_rate: acc.occupancy_rate + curr.occupancy_rate / metrics.length, // Average occupancy
+          total_revenue: acc.total_revenue + Number(curr.total_revenue),
+          total_expenses: acc.total_expenses + Number(curr.total_expenses),
+          net_income: acc.net_income + Number(curr.net_income),
+          occupancy_rate: acc.occupancy_rate + Number(curr.occupancy_rate) / metrics.length, // Average occupancy
         }), {
           total_revenue: 0,
           total_expenses: 0,
           net_income: 0,
           occupancy_rate: 0,
         });
-        
+
         setMetrics(aggregatedMetrics);
       }
     } catch (error) {
@@ -133,47 +148,120 @@ const RevenueTracking = () => {
       });
       setMetrics(null);
     }
+  }, [propertyId, toast]);
+
+  const fetchOptions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data: propertyData, error: propertyError } = await supabase
+        .from('properties')
+        .select('id, title')
+        .eq('landlord_id', user.id)
+        .order('title');
+
+      if (propertyError) throw propertyError;
+      setProperties(propertyData || []);
+
+      const propertyIds = (propertyData || []).map(p => p.id);
+      if (propertyIds.length === 0) return;
+
+      // Only tenants who have been accepted can pay rent or deposits
+      const { data: applicationData, error: applicationError } = await supabase
+        .from('rental_applications')
+        .select('id, property_id, full_name')
+        .in('property_id', propertyIds)
+        .in('status', ['application_approved', 'payment_completed']);
+
+      if (applicationError) throw applicationError;
+      setApplications(applicationData || []);
+    } catch (error) {
+      console.error('Error fetching transaction options:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchTransactions();
+    fetchMetrics();
+  }, [fetchTransactions, fetchMetrics]);
+
+  useEffect(() => {
+    fetchOptions();
+  }, [fetchOptions]);
+
+  const refresh = () => {
+    fetchTransactions();
+    fetchMetrics();
   };
 
   const handleAddTransaction = async () => {
     try {
-      if (!newTransaction.amount || !newTransaction.transaction_type) {
+      if (!newTransaction.property_id || !newTransaction.amount || !newTransaction.transaction_type) {
         throw new Error("Please fill in all required fields");
       }
 
-      const { error } = await supabase
-        .from('property_transactions')
-        .insert({
-          ...newTransaction,
-          property_id: user?.id,
-          due_date: selectedDate?.toISOString(),
-        });
-
-      if (error) throw error;
+      await LedgerService.recordTransaction({
+        propertyId: newTransaction.property_id,
+        transactionType: newTransaction.transaction_type,
+        amount: newTransaction.amount,
+        status: newTransaction.status,
+        applicationId: newTransaction.application_id,
+        dueDate: selectedDate?.toISOString(),
+        description: newTransaction.description,
+      });
 
       toast({
         title: "Transaction added",
-        description: "The transaction has been recorded successfully.",
+        description: newTransaction.status === 'completed'
+          ? "The transaction has been posted to your ledger."
+          : "The transaction has been recorded as pending.",
       });
 
       setShowAddTransaction(false);
-      setNewTransaction({
-        transaction_type: 'rent_payment',
-        status: 'pending',
-        recurring: false,
-      });
+      setNewTransaction(emptyTransaction(propertyId));
       setSelectedDate(undefined);
-      fetchTransactions();
-      fetchMetrics();
-    } catch (error: any) {
+      refresh();
+    } catch (error) {
+      handleError(error, toast, 'Failed to add transaction');
+    }
+  };
+
+  const handleSettle = async (transaction: Transaction, status: 'completed' | 'failed') => {
+    try {
+      await LedgerService.settleTransaction(transaction.id, status);
       toast({
-        title: "Error adding transaction",
-        description: error.message,
-        variant: "destructive",
+        title: status === 'completed' ? "Payment received" : "Marked as failed",
+        description: status === 'completed'
+          ? "The transaction has been posted to your ledger."
+          : "The transaction will not affect your revenue.",
       });
+      refresh();
+    } catch (error) {
+      handleError(error, toast, 'Failed to update transaction');
     }
   };
 
+  const handleRefund = async (transaction: Transaction) => {
+    try {
+      await LedgerService.refundTransaction(transaction, Number(transaction.amount));
+      toast({
+        title: "Refund recorded",
+        description: "The refund has been posted to your ledger.",
+      });
+      refresh();
+    } catch (error) {
+      handleError(error, toast, 'Failed to record refund');
+    }
+  };
+
+  // Ensure only landlords can access this component
+  if (!hasRole('landlord')) {
+    return <Navigate to="/" replace />;
+  }
+
+  const requiresApplication = TENANT_TRANSACTION_TYPES.includes(newTransaction.transaction_type);
+  const applicationOptions = applications.filter(a => a.property_id === newTransaction.property_id);
+
   return (
     <div className="space-y-6">
       {/* Financial Overview */}
@@ -184,8 +272,8 @@ const RevenueTracking = () => {
             <DollarSign className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">₦{metrics?.total_revenue.toLocaleString()}</div>
-            <p className="text-xs text-gray-500">+20.1% from last month</p>
+            <div className="text-2xl font-bold">₦{(metrics?.total_revenue ?? 0).toLocaleString()}</div>
+            <p className="text-xs text-gray-500">Rent and other income, net of refunds</p>
           </CardContent>
         </Card>
         <Card>
@@ -194,8 +282,8 @@ const RevenueTracking = () => {
             <DollarSign className="h-4 w-4 text-red-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">₦{metrics?.total_expenses.toLocaleString()}</div>
-            <p className="text-xs text-gray-500">+4.5% from last month</p>
+            <div className="text-2xl font-bold">₦{(metrics?.total_expenses ?? 0).toLocaleString()}</div>
+            <p className="text-xs text-gray-500">Completed expense payments</p>
           </CardContent>
         </Card>
         <Card>
@@ -204,8 +292,8 @@ const RevenueTracking = () => {
             <TrendingUp className="h-4 w-4 text-blue-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">₦{metrics?.net_income.toLocaleString()}</div>
-            <p className="text-xs text-gray-500">+12.3% from last month</p>
+            <div className="text-2xl font-bold">₦{(metrics?.net_income ?? 0).toLocaleString()}</div>
+            <p className="text-xs text-gray-500">₦{depositsHeld.toLocaleString()} in deposits held</p>
           </CardContent>
         </Card>
         <Card>
@@ -214,8 +302,8 @@ const RevenueTracking = () => {
             <ArrowUpRight className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{metrics?.occupancy_rate.toFixed(1)}%</div>
-            <p className="text-xs text-gray-500">+2.5% from last month</p>
+            <div className="text-2xl font-bold">{(metrics?.occupancy_rate ?? 0).toFixed(1)}%</div>
+            <p className="text-xs text-gray-500">Across your properties</p>
           </CardContent>
         </Card>
       </div>
@@ -225,7 +313,7 @@ const RevenueTracking = () => {
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Transactions</CardTitle>
           <div className="flex items-center space-x-2">
-            <Select value={dateFilter} onValueChange={(value: any) => setDateFilter(value as 'all' | 'this_month' | 'last_month' | 'this_year')}>
+            <Select value={dateFilter} onValueChange={(value) => setDateFilter(value as DateFilter)}>
               <SelectTrigger className="w-[180px]">
                 <Filter className="w-4 h-4 mr-2" />
                 <SelectValue placeholder="Filter by date" />
@@ -253,11 +341,11 @@ const RevenueTracking = () => {
                 <div className="flex items-center space-x-4">
                   <div className={cn(
                     "p-2 rounded-full",
-                    transaction.transaction_type.includes('payment') || transaction.transaction_type === 'deposit'
+                    isMoneyIn(transaction)
                       ? "bg-green-100"
                       : "bg-red-100"
                   )}>
-                    {transaction.transaction_type.includes('payment') || transaction.transaction_type === 'deposit' ? (
+                    {isMoneyIn(transaction) ? (
                       <ArrowUpRight className="w-4 h-4 text-green-600" />
                     ) : (
                       <ArrowDownRight className="w-4 h-4 text-red-600" />
@@ -266,23 +354,43 @@ const RevenueTracking = () => {
                   <div>
                     <p className="font-medium">{transaction.description || transaction.transaction_type.replace('_', ' ')}</p>
                     <p className="text-sm text-gray-500">
-                      {transaction.due_date && format(new Date(transaction.due_date), 'PPP')}
+                      {transaction.properties?.title}
+                      {transaction.properties?.title && (transaction.payment_date || transaction.due_date) && ' • '}
+                      {transaction.payment_date
+                        ? format(new Date(transaction.payment_date), 'PPP')
+                        : transaction.due_date && `Due ${format(new Date(transaction.due_date), 'PPP')}`}
                     </p>
                   </div>
                 </div>
                 <div className="text-right">
                   <p className={cn(
                     "font-medium",
-                    transaction.transaction_type.includes('payment') || transaction.transaction_type === 'deposit'
+                    isMoneyIn(transaction)
                       ? "text-green-600"
                       : "text-red-600"
                   )}>
-                    {transaction.transaction_type.includes('payment') || transaction.transaction_type === 'deposit'
+                    {isMoneyIn(transaction)
                       ? `+₦${transaction.amount.toLocaleString()}`
                       : `-₦${transaction.amount.toLocaleString()}`
                     }
                   </p>
                   <p className="text-sm text-gray-500">{transaction.status}</p>
+                  {(transaction.status === 'pending' || transaction.status === 'overdue') && (
+                    <div className="flex justify-end gap-2 mt-2">
+                      <Button size="sm" variant="outline" onClick={() => handleSettle(transaction, 'failed')}>
+                        Failed
+                      </Button>
+                      <Button size="sm" onClick={() => handleSettle(transaction, 'completed')}>
+                        Mark Paid
+                      </Button>
+                    </div>
+                  )}
+                  {transaction.status === 'completed' && isMoneyIn(transaction) && transaction.application_id && (
+                    <Button size="sm" variant="ghost" className="mt-2" onClick={() => handleRefund(transaction)}>
+                      <Undo2 className="w-4 h-4 mr-1" />
+                      Refund
+                    </Button>
+                  )}
                 </div>
               </div>
             ))}
@@ -302,18 +410,37 @@ const RevenueTracking = () => {
             <DialogTitle>Add New Transaction</DialogTitle>
           </DialogHeader>
           <div className="space-y-4 py-4">
+            {!propertyId && (
+              <div className="space-y-2">
+                <Label>Property</Label>
+                <Select
+                  value={newTransaction.property_id}
+                  onValueChange={(value) => setNewTransaction({ ...newTransaction, property_id: value, application_id: undefined })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select property" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {properties.map((property) => (
+                      <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label>Transaction Type</Label>
               <Select
                 value={newTransaction.transaction_type}
-                onValueChange={(value: any) => setNewTransaction({ ...newTransaction, transaction_type: value })}
+                onValueChange={(value) => setNewTransaction({ ...newTransaction, transaction_type: value as TransactionType })}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select transaction type" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="rent_payment">Rent Payment</SelectItem>
-                  <SelectItem value="deposit">Deposit</SelectItem>
+                  <SelectItem value="deposit">Security Deposit</SelectItem>
                   <SelectItem value="maintenance_cost">Maintenance Cost</SelectItem>
                   <SelectItem value="utility_payment">Utility Payment</SelectItem>
                   <SelectItem value="insurance">Insurance</SelectItem>
@@ -323,6 +450,28 @@ const RevenueTracking = () => {
                 </SelectContent>
               </Select>
             </div>
+
+            {requiresApplication && (
+              <div className="space-y-2">
+                <Label>Tenant</Label>
+                <Select
+                  value={newTransaction.application_id}
+                  onValueChange={(value) => setNewTransaction({ ...newTransaction, application_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select tenant application" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {applicationOptions.map((application) => (
+                      <SelectItem key={application.id} value={application.id}>{application.full_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {newTransaction.property_id && applicationOptions.length === 0 && (
+                  <p className="text-xs text-gray-500">This property has no approved tenants yet.</p>
+                )}
+              </div>
+            )}
             
             <div className="space-y-2">
               <Label>Amount (₦)</Label>
@@ -373,16 +522,14 @@ const RevenueTracking = () => {
               <Label>Status</Label>
               <Select
                 value={newTransaction.status}
-                onValueChange={(value: any) => setNewTransaction({ ...newTransaction, status: value })}
+                onValueChange={(value) => setNewTransaction({ ...newTransaction, status: value as NewTransaction['status'] })}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select status" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
-                  <SelectItem value="failed">Failed</SelectItem>
-                  <SelectItem value="refunded">Refunded</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
                 </SelectContent>
               </Select>
             </div>
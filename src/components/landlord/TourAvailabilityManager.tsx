@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
+import {
+  TourService,
+  TourBookingWithDetails,
+  TOUR_STATUS_LABELS,
+  buildTourSlots,
+} from '@/services/tourService';
+import { TourSlot } from '@/integrations/supabase/types';
+import { Calendar, Check, Plus, Trash2, X } from 'lucide-react';
+
+interface TourAvailabilityManagerProps {
+  propertyId: string;
+}
+
+const SLOT_DURATIONS = [15, 30, 45, 60];
+
+const TourAvailabilityManager = ({ propertyId }: TourAvailabilityManagerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [slots, setSlots] = useState<TourSlot[]>([]);
+  const [bookings, setBookings] = useState<TourBookingWithDetails[]>([]);
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('10:00');
+  const [endTime, setEndTime] = useState('12:00');
+  const [duration, setDuration] = useState('30');
+  const [capacity, setCapacity] = useState(1);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTours = useCallback(async () => {
+    try {
+      const [upcomingSlots, activeBookings] = await Promise.all([
+        TourService.getUpcomingSlots(propertyId),
+        TourService.getPropertyBookings(propertyId),
+      ]);
+      setSlots(upcomingSlots);
+      setBookings(activeBookings);
+    } catch (error) {
+      handleError(error, toast, 'Failed to load tours', { context: 'TourAvailabilityManager' });
+    }
+  }, [propertyId, toast]);
+
+  useEffect(() => {
+    fetchTours();
+  }, [fetchTours]);
+
+  const handleAddSlots = async () => {
+    if (!user || !date) return;
+
+    const newSlots = buildTourSlots(date, startTime, endTime, Number(duration))
+      .filter(slot => new Date(slot.starts_at) > new Date());
+    if (newSlots.length === 0) {
+      toast({
+        title: 'No slots to add',
+        description: 'Choose a future time window that fits at least one viewing.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await TourService.createSlots(propertyId, user.id, newSlots, { capacity });
+      toast({ title: 'Availability published', description: `${newSlots.length} viewing slot(s) added.` });
+      fetchTours();
+    } catch (error) {
+      handleError(error, toast, 'Failed to add viewing slots', { context: 'TourAvailabilityManager' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, success: string, fallback: string) => {
+    try {
+      await action();
+      toast({ title: success });
+      fetchTours();
+    } catch (error) {
+      handleError(error, toast, fallback, { context: 'TourAvailabilityManager' });
+    }
+  };
+
+  const handleCancelBooking = (booking: TourBookingWithDetails) => {
+    const reason = window.prompt('Let the renter know why the tour is cancelled (optional)');
+    if (reason === null) return;
+    runAction(() => TourService.cancel(booking.id, reason), 'Tour cancelled', 'Failed to cancel tour');
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Calendar className="w-5 h-5" />
+          Tours & Viewings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Booked tours */}
+        <div className="space-y-3">
+          <h4 className="text-gray-300 font-medium">Booked Tours</h4>
+          {bookings.length === 0 ? (
+            <p className="text-gray-400 text-sm">No upcoming tours.</p>
+          ) : (
+            bookings.map((booking) => (
+              <div key={booking.id} className="bg-gray-700 rounded-lg p-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-white font-medium">
+                    {booking.renter?.full_name || booking.renter?.email || 'Renter'}
+                  </p>
+                  {booking.slot && (
+                    <p className="text-gray-400 text-sm">
+                      {format(new Date(booking.slot.starts_at), 'EEE d MMM, h:mm a')}
+                    </p>
+                  )}
+                  {booking.notes && <p className="text-gray-400 text-xs mt-1">"{booking.notes}"</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={booking.status === 'confirmed' ? 'default' : 'secondary'}>
+                    {TOUR_STATUS_LABELS[booking.status]}
+                  </Badge>
+                  {booking.status === 'requested' && (
+                    <Button
+                      size="sm"
+                      onClick={() => runAction(() => TourService.confirm(booking.id), 'Tour confirmed', 'Failed to confirm tour')}
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleCancelBooking(booking)}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-600"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Publish availability */}
+        <div className="space-y-3">
+          <h4 className="text-gray-300 font-medium">Add Availability</h4>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div className="space-y-1 col-span-2 md:col-span-1">
+              <Label htmlFor="tour-date" className="text-gray-400">Date</Label>
+              <Input
+                id="tour-date"
+                type="date"
+                value={date}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setDate(e.target.value)}
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tour-start" className="text-gray-400">From</Label>
+              <Input
+                id="tour-start"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tour-end" className="text-gray-400">To</Label>
+              <Input
+                id="tour-end"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-400">Each viewing</Label>
+              <Select value={duration} onValueChange={setDuration}>
+                <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SLOT_DURATIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tour-capacity" className="text-gray-400">Renters per slot</Label>
+              <Input
+                id="tour-capacity"
+                type="number"
+                min={1}
+                value={capacity}
+                onChange={(e) => setCapacity(Math.max(1, Number(e.target.value)))}
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+          </div>
+          <Button
+            onClick={handleAddSlots}
+            disabled={!date || saving}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {saving ? 'Adding...' : 'Add Slots'}
+          </Button>
+        </div>
+
+        {/* Upcoming slots */}
+        {slots.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-gray-300 font-medium">Upcoming Slots</h4>
+            <div className="flex flex-wrap gap-2">
+              {slots.map((slot) => (
+                <div key={slot.id} className="bg-gray-700 rounded-md pl-3 pr-1 py-1 flex items-center gap-2 text-sm">
+                  <span className="text-white">{format(new Date(slot.starts_at), 'EEE d MMM, h:mm a')}</span>
+                  <span className="text-gray-400">{slot.booked_count}/{slot.capacity}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={slot.booked_count > 0}
+                    onClick={() => runAction(() => TourService.deleteSlot(slot.id), 'Slot removed', 'Failed to remove slot')}
+                    className="h-6 w-6 p-0 text-gray-400 hover:text-red-400"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TourAvailabilityManager;
@@ -0,0 +1,274 @@
+import { ReactNode } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { fakeSupabase } from '@/test/supabase';
+import { AuthProvider, useAuth } from './useAuth';
+
+const wrapper = ({ children }: { children: ReactNode }) => <AuthProvider>{children}</AuthProvider>;
+
+// get_current_user_roles returns the signed-in user's rows from user_roles
+const serveRolesFromTable = () =>
+  fakeSupabase.onRpc('get_current_user_roles', () =>
+    fakeSupabase.rows<{ user_id: string; role: string }>('user_roles')
+      .filter(row => row.user_id === fakeSupabase.auth.currentUser?.id)
+      .map(({ role }) => ({ role }))
+  );
+
+const renderAuth = async () => {
+  const hook = renderHook(() => useAuth(), { wrapper });
+  await waitFor(() => expect(hook.result.current.loading).toBe(false));
+  return hook;
+};
+
+describe('useAuth', () => {
+  it('throws outside an AuthProvider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(() => renderHook(() => useAuth())).toThrow('useAuth must be used within an AuthProvider');
+  });
+
+  it('finishes loading with no user when there is no session', async () => {
+    serveRolesFromTable();
+    const { result } = await renderAuth();
+
+    expect(result.current.user).toBeNull();
+    expect(result.current.profile).toBeNull();
+    expect(result.current.primaryRole).toBeNull();
+    expect(result.current.hasRole('renter')).toBe(false);
+  });
+
+  it('restores the session, profile and roles on load', async () => {
+    const user = fakeSupabase.auth.createUser({ email: 'ada@example.com' });
+    fakeSupabase
+      .seed('profiles', [{ id: user.id, email: user.email, role: 'landlord', full_name: 'Ada' }])
+      .seed('user_roles', [
+        { user_id: user.id, role: 'landlord' },
+        { user_id: user.id, role: 'renter' },
+      ]);
+    serveRolesFromTable();
+    fakeSupabase.auth.setSession(user);
+
+    const { result } = await renderAuth();
+
+    expect(result.current.user?.id).toBe(user.id);
+    expect(result.current.profile?.full_name).toBe('Ada');
+    expect(result.current.userRoles).toEqual(['landlord', 'renter']);
+    expect(result.current.primaryRole).toBe('landlord');
+    expect(result.current.hasRole('landlord')).toBe(true);
+    expect(result.current.hasRole('admin')).toBe(false);
+  });
+
+  it('backfills user_roles from the profile role when none exist', async () => {
+    const user = fakeSupabase.auth.createUser({ email: 'ben@example.com' });
+    fakeSupabase
+      .seed('profiles', [{ id: user.id, email: user.email, role: 'renter' }])
+      .seed('user_roles', [], { unique: [['user_id', 'role']] });
+    serveRolesFromTable();
+    fakeSupabase.auth.setSession(user);
+
+    const { result } = await renderAuth();
+
+    expect(fakeSupabase.rows('user_roles')).toMatchObject([{ user_id: user.id, role: 'renter' }]);
+    expect(result.current.userRoles).toEqual(['renter']);
+    expect(result.current.primaryRole).toBe('renter');
+  });
+
+  it('falls back to the profile role when roles cannot be read', async () => {
+    const user = fakeSupabase.auth.createUser({ email: 'cy@example.com' });
+    fakeSupabase.seed('profiles', [{ id: user.id, email: user.email, role: 'admin' }]);
+    fakeSupabase.auth.setSession(user);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    fakeSupabase.failNext('rpc:get_current_user_roles').failNext('rpc:get_current_user_roles');
+    serveRolesFromTable();
+
+    const { result } = await renderAuth();
+
+    expect(fakeSupabase.rpcCalls.filter(call => call.name === 'get_current_user_roles')).toHaveLength(2);
+    expect(fakeSupabase.rows('user_roles')).toMatchObject([{ user_id: user.id, role: 'admin' }]);
+    expect(result.current.userRoles).toEqual(['admin']);
+  });
+
+  it('signs in, records the sign-in time and loads roles', async () => {
+    const user = fakeSupabase.auth.createUser({ email: 'dee@example.com', password: 'secret123' });
+    fakeSupabase
+      .seed('profiles', [{ id: user.id, email: user.email, role: 'renter', last_sign_in_at: null }])
+      .seed('user_roles', [{ user_id: user.id, role: 'renter' }]);
+    serveRolesFromTable();
+    const { result } = await renderAuth();
+
+    let response: Awaited<ReturnType<typeof result.current.signIn>>;
+    await act(async () => {
+      response = await result.current.signIn('dee@example.com', 'secret123');
+    });
+
+    expect(response!.error).toBeNull();
+    expect(fakeSupabase.rows('profiles')[0].last_sign_in_at).toEqual(expect.any(String));
+    await waitFor(() => expect(result.current.userRoles).toEqual(['renter']));
+    expect(result.current.user?.email).toBe('dee@example.com');
+  });
+
+  it('returns the auth error for bad credentials without touching the profile', async () => {
+    const user = fakeSupabase.auth.createUser({ email: 'eve@example.com', password: 'right' });
+    fakeSupabase.seed('profiles', [{ id: user.id, role: 'renter', last_sign_in_at: null }]);
+    serveRolesFromTable();
+    const { result } = await renderAuth();
+
+    let response: Awaited<ReturnType<typeof result.current.signIn>>;
+    await act(async () => {
+      response = await result.current.signIn('eve@example.com', 'wrong');
+    });
+
+    expect(response!.error?.message).toBe('Invalid login credentials');
+    expect(fakeSupabase.rows('profiles')[0].last_sign_in_at).toBeNull();
+    expect(result.current.user).toBeNull();
+  });
+
+  it('turns suspended accounts away at sign-in, but not once the suspension has ended', async () => {
+    const user = fakeSupabase.auth.createUser({ email: 'gil@example.com', password: 'secret123' });
+    const suspendUntil = (expiresAt: string) =>
+      fakeSupabase.seed('profiles', [{
+        id: user.id,
+        email: user.email,
+        role: 'renter',
+        last_sign_in_at: null,
+        account_status: 'suspended',
+        status_reason: 'Spam messages',
+        status_expires_at: expiresAt,
+      }]);
+    suspendUntil('2999-01-01T00:00:00Z').seed('user_roles', [{ user_id: user.id, role: 'renter' }]);
+    serveRolesFromTable();
+    const { result } = await renderAuth();
+
+    let response: Awaited<ReturnType<typeof result.current.signIn>>;
+    await act(async () => {
+      response = await result.current.signIn('gil@example.com', 'secret123');
+    });
+
+    expect(response!.error?.code).toBe('account_restricted');
+    expect(response!.error?.message).toMatch(/^Your account is suspended until/);
+    expect(result.current.accountRestriction).toEqual({
+      status: 'suspended',
+      reason: 'Spam messages',
+      expiresAt: '2999-01-01T00:00:00Z',
+    });
+    expect(fakeSupabase.auth.currentUser).toBeNull();
+    expect(fakeSupabase.rows('profiles')[0].last_sign_in_at).toBeNull();
+
+    suspendUntil('2000-01-01T00:00:00Z');
+    await act(async () => {
+      response = await result.current.signIn('gil@example.com', 'secret123');
+    });
+
+    expect(response!.error).toBeNull();
+    expect(result.current.accountRestriction).toBeNull();
+    await waitFor(() => expect(result.current.user?.email).toBe('gil@example.com'));
+  });
+
+  it('signs out a banned user whose session is restored', async () => {
+    const user = fakeSupabase.auth.createUser({ email: 'hank@example.com' });
+    fakeSupabase
+      .seed('profiles', [{ id: user.id, email: user.email, role: 'landlord', account_status: 'banned', status_reason: 'Fraud' }])
+      .seed('user_roles', [{ user_id: user.id, role: 'landlord' }]);
+    serveRolesFromTable();
+    fakeSupabase.auth.setSession(user);
+
+    const { result } = await renderAuth();
+
+    await waitFor(() => expect(result.current.user).toBeNull());
+    expect(result.current.profile).toBeNull();
+    expect(result.current.accountRestriction?.status).toBe('banned');
+  });
+
+  it('clears the profile and roles on sign out', async () => {
+    const user = fakeSupabase.auth.createUser({ email: 'fay@example.com' });
+    fakeSupabase
+      .seed('profiles', [{ id: user.id, email: user.email, role: 'admin' }])
+      .seed('user_roles', [{ user_id: user.id, role: 'admin' }]);
+    serveRolesFromTable();
+    fakeSupabase.auth.setSession(user);
+    const { result } = await renderAuth();
+    expect(result.current.hasRole('admin')).toBe(true);
+
+    await act(async () => {
+      await result.current.signOut();
+    });
+
+    expect(result.current.user).toBeNull();
+    expect(result.current.profile).toBeNull();
+    expect(result.current.userRoles).toEqual([]);
+    expect(result.current.hasRole('admin')).toBe(false);
+  });
+
+  it('resets a forgotten password through the recovery link', async () => {
+    fakeSupabase.auth.createUser({ email: 'gus@example.com', password: 'forgotten' });
+    serveRolesFromTable();
+    const { result } = await renderAuth();
+
+    await act(async () => {
+      await result.current.requestPasswordReset('gus@example.com');
+      await result.current.requestPasswordReset('nobody@example.com');
+    });
+
+    expect(fakeSupabase.auth.sentEmails).toEqual([
+      { type: 'recovery', email: 'gus@example.com', redirectTo: `${window.location.origin}/reset-password` },
+    ]);
+
+    act(() => fakeSupabase.auth.openRecoveryLink('gus@example.com'));
+    expect(result.current.isPasswordRecovery).toBe(true);
+
+    let response: Awaited<ReturnType<typeof result.current.updatePassword>>;
+    await act(async () => {
+      response = await result.current.updatePassword('remembered');
+    });
+
+    expect(response!.error).toBeNull();
+    expect(result.current.isPasswordRecovery).toBe(false);
+    await act(async () => {
+      await result.current.signOut();
+      response = await result.current.signIn('gus@example.com', 'remembered');
+    });
+    expect(response!.error).toBeNull();
+  });
+
+  it('resends the confirmation email to unverified accounts', async () => {
+    fakeSupabase.auth.createUser({ email: 'hal@example.com', confirmed: false });
+    serveRolesFromTable();
+    const { result } = await renderAuth();
+
+    await act(async () => {
+      await result.current.resendVerification('hal@example.com');
+    });
+
+    expect(fakeSupabase.auth.sentEmails).toMatchObject([{ type: 'signup', email: 'hal@example.com' }]);
+  });
+
+  it('signs in with an emailed code, but only for existing accounts', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const user = fakeSupabase.auth.createUser({ email: 'ivy@example.com' });
+    fakeSupabase
+      .seed('profiles', [{ id: user.id, email: user.email, role: 'renter', last_sign_in_at: null }])
+      .seed('user_roles', [{ user_id: user.id, role: 'renter' }]);
+    serveRolesFromTable();
+    const { result } = await renderAuth();
+
+    let response: Awaited<ReturnType<typeof result.current.sendSignInCode>>;
+    await act(async () => {
+      response = await result.current.sendSignInCode('stranger@example.com');
+    });
+    expect(response!.error).not.toBeNull();
+
+    await act(async () => {
+      await result.current.sendSignInCode('ivy@example.com');
+      response = await result.current.verifySignInCode('ivy@example.com', '000000');
+    });
+    expect(response!.error?.message).toBe('Token has expired or is invalid');
+
+    const { token } = fakeSupabase.auth.sentEmails[0];
+    await act(async () => {
+      response = await result.current.verifySignInCode('ivy@example.com', token!);
+    });
+
+    expect(response!.error).toBeNull();
+    expect(fakeSupabase.rows('profiles')[0].last_sign_in_at).toEqual(expect.any(String));
+    await waitFor(() => expect(result.current.user?.email).toBe('ivy@example.com'));
+  });
+});
@@ -2,6 +2,7 @@ import { useState, useEffect, createContext, useContext } from 'react'
 import { User, Session, AuthError } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 import { Database } from '@/integrations/supabase/types'
+import { AccountRestriction, accountRestrictionMessage, getAccountRestriction } from '@/services/accountStatusService'
 
 export type Profile = Database['public']['Tables']['profiles']['Row'];
 export type UserRoleType = Database['public']['Enums']['app_role'];
@@ -18,8 +19,20 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>
   signOut: () => Promise<void>
   refreshProfile: () => Promise<void>
+  // True after arriving from a password reset link, until a new password is set
+  isPasswordRecovery: boolean
+  requestPasswordReset: (email: string) => Promise<{ error: AuthError | null }>
+  updatePassword: (password: string) => Promise<{ error: AuthError | null }>
+  resendVerification: (email: string) => Promise<{ error: AuthError | null }>
+  sendSignInCode: (email: string) => Promise<{ error: AuthError | null }>
+  verifySignInCode: (email: string, code: string) => Promise<{ error: AuthError | null }>
+  // Set when a suspended, banned or closing account was signed out; cleared on the next sign-in attempt
+  accountRestriction: AccountRestriction | null
 }
 
+// Links in auth emails bring people back to this page of the app
+const authRedirectUrl = (path: string) => `${window.location.origin}${path}`
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
@@ -28,6 +41,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [profile, setProfile] = useState<Profile | null>(null)
   const [userRoles, setUserRoles] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false)
+  const [accountRestriction, setAccountRestriction] = useState<AccountRestriction | null>(null)
 
   const fetchProfile = async (userId: string): Promise<Profile | null> => {
     try {
@@ -56,6 +71,17 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  // Sign out accounts that aren't in good standing, wherever their session comes from.
+  // Returns the restriction, or null when the account may stay signed in
+  const enforceAccountStatus = async (profileData: Profile | null): Promise<AccountRestriction | null> => {
+    const restriction = getAccountRestriction(profileData)
+    if (!restriction) return null
+
+    setAccountRestriction(restriction)
+    await supabase.auth.signOut()
+    return restriction
+  }
+
   const createProfile = async (userId: string, email: string, role: UserRoleType, fullName: string): Promise<Profile | null> => {
     try {
       console.log('Creating profile for user:', userId, 'with role:', role);
@@ -176,6 +202,11 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             fetchProfile(session.user.id),
             fetchUserRoles(session.user.id)
           ]);
+
+          if (await enforceAccountStatus(profileData)) {
+            if (mounted) setLoading(false);
+            return;
+          }
           
           // If user has a profile but not in user_roles, upsert
           if (profileData && (!rolesData || rolesData.length === 0)) {
@@ -212,6 +243,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         
         setSession(session);
         setUser(session?.user ?? null);
+
+        if (event === 'PASSWORD_RECOVERY') {
+          setIsPasswordRecovery(true);
+        }
         
         if (session?.user) {
           // Give the database trigger time to create the profile
@@ -243,6 +278,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
               }
             }
             
+            if (await enforceAccountStatus(profileData)) return;
+
             // Always upsert user_roles for consistency
             if (profileData && (!rolesData || rolesData.length === 0)) {
               await supabase.from('user_roles').upsert({
@@ -265,6 +302,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         if (event === 'SIGNED_OUT') {
           setProfile(null);
           setUserRoles([]);
+          setIsPasswordRecovery(false);
         }
         
         if (mounted) setLoading(false);
@@ -287,6 +325,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         email,
         password,
         options: {
+          emailRedirectTo: authRedirectUrl('/login'),
           data: {
             role,
             full_name: fullName
@@ -388,6 +427,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const signIn = async (email: string, password: string) => {
     try {
+      setAccountRestriction(null)
       const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
         email,
         password,
@@ -397,12 +437,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         return { error: authError }
       }
 
-      // Update last_sign_in_at in profiles table
       if (authData.user) {
-        await supabase
-          .from('profiles')
-          .update({ last_sign_in_at: new Date().toISOString() })
-          .eq('id', authData.user.id)
+        return await completeSignIn(authData.user.id)
       }
 
       return { error: null }
@@ -412,6 +448,74 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   }
 
+  // Turn restricted accounts away straight after sign-in, otherwise update last_sign_in_at
+  const completeSignIn = async (userId: string): Promise<{ error: AuthError | null }> => {
+    const restriction = await enforceAccountStatus(await fetchProfile(userId))
+    if (restriction) {
+      return { error: new AuthError(accountRestrictionMessage(restriction), 403, 'account_restricted') }
+    }
+
+    await supabase
+      .from('profiles')
+      .update({ last_sign_in_at: new Date().toISOString() })
+      .eq('id', userId)
+    return { error: null }
+  }
+
+  // Email a reset link; succeeds even for unknown addresses so accounts can't be probed
+  const requestPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: authRedirectUrl('/reset-password'),
+    })
+    if (error) console.error('Error requesting password reset:', error)
+    return { error }
+  }
+
+  // Set a new password for the signed-in user, e.g. after following a reset link
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password })
+    if (error) {
+      console.error('Error updating password:', error)
+      return { error }
+    }
+
+    setIsPasswordRecovery(false)
+    return { error: null }
+  }
+
+  // Send the sign-up confirmation email again
+  const resendVerification = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: authRedirectUrl('/login') },
+    })
+    if (error) console.error('Error resending verification email:', error)
+    return { error }
+  }
+
+  // Passwordless sign-in: the email has both a magic link and a 6-digit code.
+  // Only existing accounts can use it, since sign-up needs a role
+  const sendSignInCode = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: authRedirectUrl('/login') },
+    })
+    if (error) console.error('Error sending sign-in code:', error)
+    return { error }
+  }
+
+  const verifySignInCode = async (email: string, code: string) => {
+    setAccountRestriction(null)
+    const { data, error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' })
+    if (error) return { error }
+
+    if (data.user) {
+      return completeSignIn(data.user.id)
+    }
+    return { error: null }
+  }
+
   const signOut = async () => {
     try {
       await supabase.auth.signOut()
@@ -433,6 +537,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       signIn, 
       signOut,
       refreshProfile,
+      isPasswordRecovery,
+      requestPasswordReset,
+      updatePassword,
+      resendVerification,
+      sendSignInCode,
+      verifySignInCode,
+      accountRestriction,
     }}>
       {children}
     </AuthContext.Provider>
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Chromium's install event isn't in the DOM typings yet
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+// Offer "Install app" when the browser says the app can be installed
+export function useInstallPrompt() {
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null);
+
+  useEffect(() => {
+    const handleBeforeInstall = (event: Event) => {
+      event.preventDefault();
+      setInstallEvent(event as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => setInstallEvent(null);
+
+    window.addEventListener('beforeinstallprompt', handleBeforeInstall);
+    window.addEventListener('appinstalled', handleInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleBeforeInstall);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  const promptInstall = useCallback(async () => {
+    if (!installEvent) return false;
+
+    await installEvent.prompt();
+    const { outcome } = await installEvent.userChoice;
+    // The event can only be used once
+    setInstallEvent(null);
+    return outcome === 'accepted';
+  }, [installEvent]);
+
+  return { canInstall: !!installEvent, promptInstall };
+}
@@ -0,0 +1,29 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission } from '@/integrations/supabase/types';
+import { PermissionService } from '@/services/permissionService';
+
+export const PERMISSIONS_QUERY_KEY = ['permissions'];
+
+// The signed-in user's permissions, shared through the query cache. The database
+// checks them again, so this only decides what the app shows
+export const usePermissions = () => {
+  const { user } = useAuth();
+  const { data, isLoading, isError } = useQuery({
+    queryKey: [...PERMISSIONS_QUERY_KEY, user?.id],
+    queryFn: () => PermissionService.getMyPermissions(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const permissions = useMemo(() => data ?? [], [data]);
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
+  return { permissions, loading: !!user && isLoading, error: isError, can };
+};
+
+export const usePermission = (permission: Permission) => {
+  const { can, loading } = usePermissions();
+  return { allowed: can(permission), loading };
+};
@@ -0,0 +1,34 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  DEFAULT_PLATFORM_SETTINGS,
+  PlatformSettings,
+  PlatformSettingsService,
+  formatCurrency,
+} from '@/services/platformSettingsService';
+
+export const PLATFORM_SETTINGS_QUERY_KEY = ['platform_settings'];
+
+// Settings are shared app-wide through the query cache; defaults are used until they load
+export const usePlatformSettings = () => {
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useQuery({
+    queryKey: PLATFORM_SETTINGS_QUERY_KEY,
+    queryFn: () => PlatformSettingsService.getSettings(),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const settings = data ?? DEFAULT_PLATFORM_SETTINGS;
+
+  const formatPrice = useCallback(
+    (amount: number) => formatCurrency(amount, settings.default_currency),
+    [settings.default_currency]
+  );
+
+  const setSettings = useCallback(
+    (next: PlatformSettings) => queryClient.setQueryData(PLATFORM_SETTINGS_QUERY_KEY, next),
+    [queryClient]
+  );
+
+  return { settings, loading: isLoading, formatPrice, setSettings };
+};
@@ -0,0 +1,11 @@
+import { useEffect } from 'react';
+import { PropertyViewSource } from '@/integrations/supabase/types';
+import { PropertyViewService } from '@/services/propertyViewService';
+
+// View tracking must never interrupt the page, so failures are only logged
+export const usePropertyViewTracking = (propertyId: string | undefined, source: PropertyViewSource = 'web') => {
+  useEffect(() => {
+    if (!propertyId) return;
+    PropertyViewService.recordView(propertyId, source).catch(() => undefined);
+  }, [propertyId, source]);
+};
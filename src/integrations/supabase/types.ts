@@ -6,20 +6,472 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
-export type TransactionType = 'rent_payment' | 'deposit' | 'maintenance_cost' | 'utility_payment' | 'insurance' | 'tax' | 'other_income' | 'other_expense';
-export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+export type TransactionType = 'rent_payment' | 'deposit' | 'refund' | 'maintenance_cost' | 'utility_payment' | 'insurance' | 'tax' | 'other_income' | 'other_expense';
+export type PaymentStatus = 'pending' | 'overdue' | 'completed' | 'failed' | 'refunded';
+
+export type RecurrenceInterval = 'monthly' | 'quarterly' | 'annually';
+export type LedgerAccountType = 'asset' | 'liability' | 'income' | 'expense';
 
 export interface PropertyTransaction {
   id: string;
   property_id: string;
-  tenant_id?: string;
+  application_id?: string | null;
+  tenant_id?: string | null;
+  payment_intent_id?: string | null;
+  related_transaction_id?: string | null;
   transaction_type: TransactionType;
   amount: number;
   status: PaymentStatus;
-  due_date?: string;
-  payment_date?: string;
-  description?: string;
+  due_date?: string | null;
+  payment_date?: string | null;
+  description?: string | null;
   recurring: boolean;
+  recurrence_interval?: RecurrenceInterval | null;
+  rent_schedule_id?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface RentSchedule {
+  id: string;
+  application_id: string;
+  property_id: string;
+  tenant_id: string;
+  rent_interval: RecurrenceInterval;
+  installment_amount: number;
+  start_date: string;
+  end_date: string | null;
+  next_due_date: string;
+  status: 'active' | 'ended';
+  created_at: string;
+  updated_at: string;
+}
+
+export type LeaseStatus = 'draft' | 'partially_signed' | 'signed' | 'terminated';
+
+export interface LeaseClause {
+  title: string;
+  body: string;
+}
+
+export interface Lease {
+  id: string;
+  application_id: string;
+  property_id: string;
+  landlord_id: string;
+  tenant_id: string;
+  start_date: string;
+  end_date: string;
+  rent_amount: number;
+  rent_interval: RecurrenceInterval;
+  deposit_amount: number;
+  clauses: LeaseClause[];
+  template_version: string;
+  status: LeaseStatus;
+  terms_hash: string | null;
+  landlord_signature_name: string | null;
+  landlord_signed_at: string | null;
+  tenant_signature_name: string | null;
+  tenant_signed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TourBookingStatus = 'requested' | 'confirmed' | 'cancelled' | 'completed';
+
+export interface TourSlot {
+  id: string;
+  property_id: string;
+  landlord_id: string;
+  starts_at: string;
+  ends_at: string;
+  capacity: number;
+  booked_count: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TourBooking {
+  id: string;
+  slot_id: string;
+  property_id: string;
+  landlord_id: string;
+  renter_id: string;
+  status: TourBookingStatus;
+  notes: string | null;
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
+  reminder_sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MaintenanceCategory = 'plumbing' | 'electrical' | 'appliance' | 'structural' | 'pest_control' | 'security' | 'other';
+export type MaintenancePriority = 'low' | 'medium' | 'high' | 'urgent';
+export type MaintenanceStatus = 'open' | 'in_progress' | 'on_hold' | 'completed' | 'cancelled';
+
+export interface MaintenanceTicket {
+  id: string;
+  property_id: string;
+  tenant_id: string;
+  landlord_id: string;
+  title: string;
+  description: string;
+  category: MaintenanceCategory;
+  priority: MaintenancePriority;
+  status: MaintenanceStatus;
+  photo_paths: string[];
+  assigned_to: string | null;
+  assigned_contact: string | null;
+  cost: number | null;
+  cost_transaction_id: string | null;
+  resolution_notes: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PropertyViewSource = 'web' | 'mobile';
+
+export interface PropertyViewEvent {
+  id: string;
+  property_id: string;
+  viewer_id: string | null;
+  session_id: string;
+  source: PropertyViewSource;
+  view_date: string;
+  viewed_at: string;
+}
+
+export interface PropertyView {
+  property_id: string;
+  landlord_id: string;
+  view_date: string;
+  count: number;
+  unique_viewers: number;
+  updated_at: string;
+}
+
+export type PlatformSettingKey =
+  | 'listing_min_price'
+  | 'listing_max_price'
+  | 'listing_max_images'
+  | 'default_currency'
+  | 'auto_approve_threshold'
+  | 'unverified_listing_limit'
+  | 'daily_chat_limit'
+  | 'notifications';
+
+export interface PlatformSettingRow {
+  key: PlatformSettingKey;
+  value: Json;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface PlatformSettingsAudit {
+  id: string;
+  setting_key: PlatformSettingKey;
+  old_value: Json | null;
+  new_value: Json;
+  changed_by: string | null;
+  reason: string | null;
+  changed_at: string;
+}
+
+export type DatabaseBackupKind = 'backup' | 'restore';
+export type DatabaseBackupFormat = 'json' | 'csv';
+
+export interface DatabaseBackup {
+  id: string;
+  kind: DatabaseBackupKind;
+  format: DatabaseBackupFormat;
+  format_version: number;
+  table_counts: Record<string, number>;
+  size_bytes: number | null;
+  checksum: string | null;
+  storage_path: string | null;
+  status: 'completed' | 'failed';
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type RentalApplicationStatus =
+  | 'application_pending'
+  | 'application_approved'
+  | 'application_rejected'
+  | 'payment_completed';
+
+export type PropertyType = 'apartment' | 'house' | 'duplex' | 'bungalow' | 'studio' | 'self_contain';
+
+export type SavedSearchAlertFrequency = 'instant' | 'daily' | 'off';
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: Json;
+  alert_frequency: SavedSearchAlertFrequency;
+  last_digest_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedSearchMatch {
+  id: string;
+  saved_search_id: string;
+  property_id: string;
+  user_id: string;
+  notified_at: string | null;
+  created_at: string;
+}
+
+export type PropertyReportReason =
+  | 'scam'
+  | 'duplicate'
+  | 'fake_photos'
+  | 'misleading_price'
+  | 'wrong_location'
+  | 'unavailable'
+  | 'offensive'
+  | 'other';
+export type PropertyReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface PropertyReport {
+  id: string;
+  property_id: string;
+  reporter_id: string;
+  landlord_id: string;
+  reason: PropertyReportReason;
+  details: string;
+  evidence_paths: string[];
+  status: PropertyReportStatus;
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  listing_suspended: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReportedLandlord {
+  landlord_id: string;
+  total_reports: number;
+  open_reports: number;
+  upheld_reports: number;
+  reported_listings: number;
+  suspended_listings: number;
+  last_reported_at: string;
+}
+
+export type VerificationRuleKey =
+  | 'duplicate_photos'
+  | 'price_outlier'
+  | 'missing_ownership_documents'
+  | 'new_landlord_account'
+  | 'incomplete_listing';
+
+export interface VerificationRuleSettings {
+  enabled: boolean;
+  penalty: number;
+  [param: string]: boolean | number;
+}
+
+export type VerificationRules = Record<VerificationRuleKey, VerificationRuleSettings>;
+
+export interface VerificationRuleSet {
+  version: number;
+  rules: VerificationRules;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface VerificationCheck {
+  rule: VerificationRuleKey;
+  passed: boolean;
+  penalty: number;
+  message: string | null;
+}
+
+export interface PropertyPhotoFingerprint {
+  photo_url: string;
+  sha256: string;
+  uploaded_by: string;
+  created_at: string;
+}
+
+export type LandlordIdDocumentType = 'nin' | 'drivers_license' | 'international_passport' | 'voters_card';
+export type LandlordOwnershipDocumentType =
+  | 'certificate_of_occupancy'
+  | 'deed_of_assignment'
+  | 'governors_consent'
+  | 'survey_plan'
+  | 'registered_conveyance'
+  | 'letter_of_authority';
+export type LandlordVerificationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface LandlordVerification {
+  id: string;
+  landlord_id: string;
+  property_id: string | null;
+  id_document_type: LandlordIdDocumentType;
+  id_number: string;
+  id_document_path: string;
+  ownership_document_type: LandlordOwnershipDocumentType;
+  ownership_document_paths: string[];
+  notes: string;
+  status: LandlordVerificationStatus;
+  rejection_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MessageAttachment {
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export type ChatRoomStatus = 'active' | 'archived' | 'closed';
+
+export interface UserBlock {
+  id: string;
+  blocker_id: string;
+  blocked_id: string;
+  created_at: string;
+}
+
+export type MessageAutoReplyKind = 'welcome' | 'away';
+
+export interface MessageTemplate {
+  id: string;
+  landlord_id: string;
+  title: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LandlordAutoReplies {
+  landlord_id: string;
+  welcome_enabled: boolean;
+  welcome_message: string;
+  away_enabled: boolean;
+  away_message: string;
+  away_starts_on: string | null;
+  away_ends_on: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MfaRecoveryCode {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  used_at: string | null;
+  created_at: string;
+}
+
+export interface AdminMfaStatus {
+  user_id: string;
+  full_name: string | null;
+  email: string;
+  mfa_enabled: boolean;
+  mfa_enrolled_at: string | null;
+  recovery_codes_remaining: number;
+}
+
+export type AccountStatus = 'active' | 'suspended' | 'banned' | 'pending_deletion';
+
+export interface AccountStatusHistory {
+  id: string;
+  user_id: string;
+  status: AccountStatus;
+  reason: string | null;
+  expires_at: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export interface AdminAuditLogEntry {
+  id: string;
+  actor_id: string;
+  actor_email: string | null;
+  action: string;
+  target_table: string;
+  target_id: string | null;
+  before: Record<string, Json> | null;
+  after: Record<string, Json> | null;
+  created_at: string;
+}
+
+export type Permission =
+  | 'analytics.view'
+  | 'users.view'
+  | 'users.manage'
+  | 'listings.review'
+  | 'listings.manage'
+  | 'reports.review'
+  | 'verifications.review'
+  | 'chats.read'
+  | 'payments.view'
+  | 'settings.manage'
+  | 'database.manage'
+  | 'audit_log.view';
+
+export interface PermissionDefinition {
+  key: Permission;
+  description: string;
+}
+
+export interface StaffRole {
+  key: string;
+  name: string;
+  description: string;
+}
+
+export interface RolePermission {
+  role_key: string;
+  permission_key: Permission;
+}
+
+export interface UserStaffRole {
+  user_id: string;
+  role_key: string;
+  granted_by: string | null;
+  created_at: string;
+}
+
+export interface LedgerAccount {
+  code: string;
+  name: string;
+  account_type: LedgerAccountType;
+  created_at: string;
+}
+
+export interface LedgerEntry {
+  id: string;
+  transaction_id: string;
+  property_id: string;
+  application_id: string | null;
+  description: string | null;
+  posted_at: string;
+  created_at: string;
+}
+
+export interface LedgerLine {
+  id: string;
+  entry_id: string;
+  account_code: string;
+  debit: number;
+  credit: number;
   created_at: string;
 }
 
@@ -39,11 +491,16 @@ export type Database = {
     Tables: {
       chat_rooms: {
         Row: {
+          closed_at: string | null
+          closed_by: string | null
           created_at: string | null
           id: string
+          landlord_archived_at: string | null
           landlord_id: string
           property_id: string
+          renter_archived_at: string | null
           renter_id: string
+          status: ChatRoomStatus
         }
         Insert: {
           created_at?: string | null
@@ -85,13 +542,17 @@ export type Database = {
       }
       messages: {
         Row: {
+          attachments: MessageAttachment[]
+          auto_reply: MessageAutoReplyKind | null
           chat_room_id: string
           content: string
           created_at: string | null
           id: string
+          read_at: string | null
           sender_id: string
         }
         Insert: {
+          attachments?: MessageAttachment[]
           chat_room_id: string
           content: string
           created_at?: string | null
@@ -103,6 +564,7 @@ export type Database = {
           content?: string
           created_at?: string | null
           id?: string
+          read_at?: string | null
           sender_id?: string
         }
         Relationships: [
@@ -168,6 +630,12 @@ export type Database = {
           role: Database["public"]["Enums"]["user_role"]
           updated_at: string | null
           last_sign_in_at: string | null
+          verified_at: string | null
+          account_status: AccountStatus
+          status_reason: string | null
+          status_expires_at: string | null
+          status_changed_by: string | null
+          status_changed_at: string | null
         }
         Insert: {
           avatar_url?: string | null
@@ -178,6 +646,12 @@ export type Database = {
           role: Database["public"]["Enums"]["user_role"]
           updated_at?: string | null
           last_sign_in_at?: string | null
+          verified_at?: string | null
+          account_status?: AccountStatus
+          status_reason?: string | null
+          status_expires_at?: string | null
+          status_changed_by?: string | null
+          status_changed_at?: string | null
         }
         Update: {
           avatar_url?: string | null
@@ -188,57 +662,96 @@ export type Database = {
           role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string | null
           last_sign_in_at?: string | null
+          verified_at?: string | null
+          account_status?: AccountStatus
+          status_reason?: string | null
+          status_expires_at?: string | null
+          status_changed_by?: string | null
+          status_changed_at?: string | null
         }
         Relationships: []
       }
       properties: {
         Row: {
+          address_line: string | null
           amenities: string[] | null
+          approved_at: string | null
+          area: string | null
           bathrooms: number | null
           bedrooms: number | null
           created_at: string | null
           description: string
+          geocode_source: string | null
+          geocoded_at: string | null
           house_documents: Json | null
           id: string
           landlord_id: string
+          latitude: number | null
+          lga: string | null
           location: string | null
+          longitude: number | null
           photo_url: string | null
           photo_urls: string[] | null
           price: number
+          property_type: PropertyType | null
+          rent_interval: string
+          state: string | null
           status: string | null
           title: string
           updated_at: string | null
         }
         Insert: {
+          address_line?: string | null
           amenities?: string[] | null
+          approved_at?: string | null
+          area?: string | null
           bathrooms?: number | null
           bedrooms?: number | null
           created_at?: string | null
           description: string
+          geocode_source?: string | null
+          geocoded_at?: string | null
           house_documents?: Json | null
           id?: string
           landlord_id: string
+          latitude?: number | null
+          lga?: string | null
           location?: string | null
+          longitude?: number | null
           photo_url?: string | null
           photo_urls?: string[] | null
           price: number
+          property_type?: PropertyType | null
+          rent_interval?: string
+          state?: string | null
           status?: string | null
           title: string
           updated_at?: string | null
         }
         Update: {
+          address_line?: string | null
           amenities?: string[] | null
+          approved_at?: string | null
+          area?: string | null
           bathrooms?: number | null
           bedrooms?: number | null
           created_at?: string | null
           description?: string
+          geocode_source?: string | null
+          geocoded_at?: string | null
           house_documents?: Json | null
           id?: string
           landlord_id?: string
+          latitude?: number | null
+          lga?: string | null
           location?: string | null
+          longitude?: number | null
           photo_url?: string | null
           photo_urls?: string[] | null
           price?: number
+          property_type?: PropertyType | null
+          rent_interval?: string
+          state?: string | null
           status?: string | null
           title?: string
           updated_at?: string | null
@@ -256,38 +769,44 @@ export type Database = {
       property_reviews: {
         Row: {
           action: string
-          admin_id: string
+          admin_id: string | null
           admin_notes: string | null
           created_at: string | null
           flagged_concerns: string[] | null
           id: string
           property_id: string
           rejection_reason: string | null
+          rule_set_version: number | null
           updated_at: string | null
+          verification_checks: VerificationCheck[] | null
           verification_score: number | null
         }
         Insert: {
           action: string
-          admin_id: string
+          admin_id?: string | null
           admin_notes?: string | null
           created_at?: string | null
           flagged_concerns?: string[] | null
           id?: string
           property_id: string
           rejection_reason?: string | null
+          rule_set_version?: number | null
           updated_at?: string | null
+          verification_checks?: VerificationCheck[] | null
           verification_score?: number | null
         }
         Update: {
           action?: string
-          admin_id?: string
+          admin_id?: string | null
           admin_notes?: string | null
           created_at?: string | null
           flagged_concerns?: string[] | null
           id?: string
           property_id?: string
           rejection_reason?: string | null
+          rule_set_version?: number | null
           updated_at?: string | null
+          verification_checks?: VerificationCheck[] | null
           verification_score?: number | null
         }
         Relationships: [
@@ -369,6 +888,8 @@ export type Database = {
           references_info: string | null;
           status: string;
           document_urls: string[] | null;
+          rent_amount: number;
+          rejection_reason: string | null;
           created_at: string | null;
           updated_at: string | null;
         };
@@ -383,6 +904,8 @@ export type Database = {
           references_info?: string | null;
           status?: string;
           document_urls?: string[] | null;
+          rent_amount: number;
+          rejection_reason?: string | null;
           created_at?: string | null;
           updated_at?: string | null;
         };
@@ -397,6 +920,8 @@ export type Database = {
           references_info?: string | null;
           status?: string;
           document_urls?: string[] | null;
+          rent_amount?: number;
+          rejection_reason?: string | null;
           created_at?: string | null;
           updated_at?: string | null;
         };
@@ -427,6 +952,238 @@ export type Database = {
         Insert: Omit<PropertyFinancialMetrics, 'id' | 'created_at' | 'last_updated'>;
         Update: Partial<Omit<PropertyFinancialMetrics, 'id' | 'created_at' | 'last_updated'>>;
       }
+      rent_schedules: {
+        Row: RentSchedule;
+        Insert: Omit<RentSchedule, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<RentSchedule, 'id' | 'created_at' | 'updated_at'>>;
+      }
+      leases: {
+        Row: Lease;
+        Insert: Omit<Lease, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<Lease, 'id' | 'created_at' | 'updated_at'>>;
+      }
+      tour_slots: {
+        Row: TourSlot;
+        Insert: Omit<TourSlot, 'id' | 'booked_count' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<TourSlot, 'id' | 'booked_count' | 'created_at' | 'updated_at'>>;
+      }
+      tour_bookings: {
+        Row: TourBooking;
+        Insert: Omit<TourBooking, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<TourBooking, 'id' | 'created_at' | 'updated_at'>>;
+      }
+      maintenance_tickets: {
+        Row: MaintenanceTicket;
+        Insert: Pick<MaintenanceTicket, 'property_id' | 'tenant_id' | 'title' | 'description'> &
+          Partial<Pick<MaintenanceTicket, 'category' | 'priority' | 'photo_paths'>>;
+        Update: Partial<Pick<MaintenanceTicket, 'priority' | 'status' | 'assigned_to' | 'assigned_contact' | 'cost' | 'resolution_notes'>>;
+      }
+      property_view_events: {
+        Row: PropertyViewEvent;
+        Insert: Omit<PropertyViewEvent, 'id' | 'view_date' | 'viewed_at'>;
+        Update: Partial<Omit<PropertyViewEvent, 'id'>>;
+      }
+      property_views: {
+        Row: PropertyView;
+        Insert: Omit<PropertyView, 'updated_at'>;
+        Update: Partial<Omit<PropertyView, 'property_id' | 'view_date'>>;
+      }
+      platform_settings: {
+        Row: PlatformSettingRow;
+        Insert: Pick<PlatformSettingRow, 'key' | 'value'>;
+        Update: Partial<Pick<PlatformSettingRow, 'value'>>;
+      }
+      platform_settings_audit: {
+        Row: PlatformSettingsAudit;
+        Insert: Omit<PlatformSettingsAudit, 'id' | 'changed_at'>;
+        Update: Partial<Omit<PlatformSettingsAudit, 'id'>>;
+      }
+      database_backups: {
+        Row: DatabaseBackup;
+        Insert: Omit<DatabaseBackup, 'created_at' | 'size_bytes' | 'checksum' | 'storage_path' | 'error'> &
+          Partial<Pick<DatabaseBackup, 'size_bytes' | 'checksum' | 'storage_path' | 'error'>>;
+        Update: Partial<Omit<DatabaseBackup, 'id' | 'created_at'>>;
+      }
+      saved_searches: {
+        Row: SavedSearch;
+        Insert: Pick<SavedSearch, 'user_id' | 'name' | 'filters'> & Partial<Pick<SavedSearch, 'alert_frequency'>>;
+        Update: Partial<Pick<SavedSearch, 'name' | 'filters' | 'alert_frequency'>>;
+      }
+      saved_search_matches: {
+        Row: SavedSearchMatch;
+        Insert: Omit<SavedSearchMatch, 'id' | 'created_at'>;
+        Update: Partial<Pick<SavedSearchMatch, 'notified_at'>>;
+      }
+      property_reports: {
+        Row: PropertyReport;
+        Insert: Pick<PropertyReport, 'property_id' | 'reporter_id' | 'reason'> &
+          Partial<Pick<PropertyReport, 'details' | 'evidence_paths'>>;
+        Update: Partial<Pick<PropertyReport, 'status' | 'resolution_note'>>;
+      }
+      verification_rule_sets: {
+        Row: VerificationRuleSet;
+        Insert: Pick<VerificationRuleSet, 'version' | 'rules'> & Partial<Pick<VerificationRuleSet, 'notes'>>;
+        Update: Partial<Omit<VerificationRuleSet, 'version' | 'created_at'>>;
+      }
+      property_photo_fingerprints: {
+        Row: PropertyPhotoFingerprint;
+        Insert: Pick<PropertyPhotoFingerprint, 'photo_url' | 'sha256'> & Partial<Pick<PropertyPhotoFingerprint, 'uploaded_by'>>;
+        Update: Partial<Omit<PropertyPhotoFingerprint, 'photo_url' | 'created_at'>>;
+      }
+      landlord_verifications: {
+        Row: LandlordVerification;
+        Insert: Pick<
+          LandlordVerification,
+          'landlord_id' | 'id_document_type' | 'id_number' | 'id_document_path' | 'ownership_document_type' | 'ownership_document_paths'
+        > &
+          Partial<Pick<LandlordVerification, 'property_id' | 'notes'>>;
+        Update: Partial<Pick<LandlordVerification, 'status' | 'rejection_reason'>>;
+      }
+      user_blocks: {
+        Row: UserBlock;
+        Insert: Pick<UserBlock, 'blocker_id' | 'blocked_id'>;
+        Update: Partial<Omit<UserBlock, 'id'>>;
+      }
+      message_templates: {
+        Row: MessageTemplate;
+        Insert: Pick<MessageTemplate, 'landlord_id' | 'title' | 'body'>;
+        Update: Partial<Pick<MessageTemplate, 'title' | 'body'>>;
+      }
+      landlord_auto_replies: {
+        Row: LandlordAutoReplies;
+        Insert: Pick<LandlordAutoReplies, 'landlord_id'> &
+          Partial<Omit<LandlordAutoReplies, 'landlord_id' | 'created_at' | 'updated_at'>>;
+        Update: Partial<Omit<LandlordAutoReplies, 'landlord_id' | 'created_at' | 'updated_at'>>;
+      }
+      mfa_recovery_codes: {
+        Row: MfaRecoveryCode;
+        Insert: Pick<MfaRecoveryCode, 'user_id' | 'code_hash'>;
+        Update: Partial<Pick<MfaRecoveryCode, 'used_at'>>;
+      }
+      account_status_history: {
+        Row: AccountStatusHistory;
+        Insert: Omit<AccountStatusHistory, 'id' | 'created_at'>;
+        Update: Partial<Omit<AccountStatusHistory, 'id'>>;
+      }
+      admin_audit_log: {
+        Row: AdminAuditLogEntry;
+        Insert: Omit<AdminAuditLogEntry, 'id' | 'created_at'>;
+        Update: Partial<Omit<AdminAuditLogEntry, 'id'>>;
+      }
+      permissions: {
+        Row: PermissionDefinition;
+        Insert: PermissionDefinition;
+        Update: Partial<PermissionDefinition>;
+      }
+      staff_roles: {
+        Row: StaffRole;
+        Insert: StaffRole;
+        Update: Partial<StaffRole>;
+      }
+      role_permissions: {
+        Row: RolePermission;
+        Insert: RolePermission;
+        Update: Partial<RolePermission>;
+      }
+      user_staff_roles: {
+        Row: UserStaffRole;
+        Insert: Omit<UserStaffRole, 'created_at'>;
+        Update: Partial<UserStaffRole>;
+      }
+      ledger_accounts: {
+        Row: LedgerAccount;
+        Insert: Omit<LedgerAccount, 'created_at'>;
+        Update: Partial<Omit<LedgerAccount, 'created_at'>>;
+      }
+      ledger_entries: {
+        Row: LedgerEntry;
+        Insert: Omit<LedgerEntry, 'id' | 'created_at'>;
+        Update: Partial<Omit<LedgerEntry, 'id' | 'created_at'>>;
+      }
+      ledger_lines: {
+        Row: LedgerLine;
+        Insert: Omit<LedgerLine, 'id' | 'created_at'>;
+        Update: Partial<Omit<LedgerLine, 'id' | 'created_at'>>;
+      }
+      payment_intents: {
+        Row: {
+          amount: number
+          application_id: string
+          checkout_url: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          currency: string
+          failure_reason: string | null
+          id: string
+          metadata: Json | null
+          property_id: string
+          provider: string
+          provider_transaction_id: string | null
+          reference: string
+          renter_id: string
+          status: Database["public"]["Enums"]["payment_intent_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          application_id: string
+          checkout_url?: string | null
+          confirmed_at?: string | null
+          created_at?: string | null
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          metadata?: Json | null
+          property_id: string
+          provider: string
+          provider_transaction_id?: string | null
+          reference: string
+          renter_id: string
+          status?: Database["public"]["Enums"]["payment_intent_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          application_id?: string
+          checkout_url?: string | null
+          confirmed_at?: string | null
+          created_at?: string | null
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          metadata?: Json | null
+          property_id?: string
+          provider?: string
+          provider_transaction_id?: string | null
+          reference?: string
+          renter_id?: string
+          status?: Database["public"]["Enums"]["payment_intent_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_intents_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "rental_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_intents_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_intents_renter_id_fkey"
+            columns: ["renter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -443,10 +1200,176 @@ export type Database = {
         }
         Returns: string
       }
+      create_payment_intent: {
+        Args: { p_application_id: string; p_provider: string }
+        Returns: Database["public"]["Tables"]["payment_intents"]["Row"]
+      }
+      record_property_transaction: {
+        Args: {
+          p_property_id: string
+          p_transaction_type: string
+          p_amount: number
+          p_status?: string
+          p_application_id?: string
+          p_related_transaction_id?: string
+          p_due_date?: string
+          p_payment_date?: string
+          p_description?: string
+        }
+        Returns: PropertyTransaction
+      }
+      sign_lease: {
+        Args: { p_lease_id: string; p_signature_name: string }
+        Returns: Lease
+      }
+      book_tour: {
+        Args: { p_slot_id: string; p_notes?: string }
+        Returns: TourBooking
+      }
+      reschedule_tour: {
+        Args: { p_booking_id: string; p_slot_id: string }
+        Returns: TourBooking
+      }
+      confirm_tour: {
+        Args: { p_booking_id: string }
+        Returns: TourBooking
+      }
+      cancel_tour: {
+        Args: { p_booking_id: string; p_reason?: string }
+        Returns: TourBooking
+      }
+      cancel_maintenance_ticket: {
+        Args: { p_ticket_id: string }
+        Returns: MaintenanceTicket
+      }
+      is_property_tenant: {
+        Args: { p_property_id: string }
+        Returns: boolean
+      }
+      record_property_view: {
+        Args: { p_property_id: string; p_session_id: string; p_source?: PropertyViewSource }
+        Returns: boolean
+      }
+      update_platform_settings: {
+        Args: { p_changes: Json; p_reason?: string }
+        Returns: PlatformSettingRow[]
+      }
+      get_platform_setting: {
+        Args: { p_key: PlatformSettingKey }
+        Returns: Json
+      }
+      export_backup_snapshot: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      restore_backup_bundle: {
+        Args: { p_bundle: Json; p_dry_run?: boolean }
+        Returns: Json
+      }
+      search_properties: {
+        Args: {
+          p_query?: string
+          p_location?: string
+          p_property_type?: PropertyType
+          p_min_price?: number
+          p_max_price?: number
+          p_min_bedrooms?: number
+          p_max_bedrooms?: number
+          p_min_bathrooms?: number
+          p_amenities?: string[]
+          p_sort?: string
+          p_limit?: number
+          p_offset?: number
+          p_min_lat?: number
+          p_min_lng?: number
+          p_max_lat?: number
+          p_max_lng?: number
+          p_near_lat?: number
+          p_near_lng?: number
+          p_radius_km?: number
+        }
+        Returns: { property: Json; rank: number; total_count: number }[]
+      }
+      distance_km: {
+        Args: { p_lat1: number; p_lng1: number; p_lat2: number; p_lng2: number }
+        Returns: number
+      }
+      resolve_property_report: {
+        Args: { p_report_id: string; p_action: 'resolve' | 'dismiss'; p_note?: string; p_suspend_listing?: boolean }
+        Returns: PropertyReport
+      }
+      get_reported_landlords: {
+        Args: Record<PropertyKey, never>
+        Returns: ReportedLandlord[]
+      }
+      rerun_listing_verification: {
+        Args: { p_property_id: string }
+        Returns: Database["public"]["Tables"]["property_reviews"]["Row"]
+      }
+      publish_verification_rules: {
+        Args: { p_rules: Json; p_notes?: string }
+        Returns: VerificationRuleSet
+      }
+      review_landlord_verification: {
+        Args: { p_verification_id: string; p_approve: boolean; p_reason?: string }
+        Returns: LandlordVerification
+      }
+      mark_chat_room_read: {
+        Args: { p_chat_room_id: string }
+        Returns: number
+      }
+      set_chat_room_archived: {
+        Args: { p_chat_room_id: string; p_archived: boolean }
+        Returns: Database['public']['Tables']['chat_rooms']['Row']
+      }
+      set_chat_room_closed: {
+        Args: { p_chat_room_id: string; p_closed: boolean }
+        Returns: Database['public']['Tables']['chat_rooms']['Row']
+      }
+      is_chat_blocked: {
+        Args: { p_other_user_id: string }
+        Returns: boolean
+      }
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      redeem_mfa_recovery_code: {
+        Args: { p_code: string }
+        Returns: boolean
+      }
+      get_admin_mfa_status: {
+        Args: Record<PropertyKey, never>
+        Returns: AdminMfaStatus[]
+      }
+      set_account_status: {
+        Args: { p_user_id: string; p_status: AccountStatus; p_reason?: string | null; p_expires_at?: string | null }
+        Returns: Database['public']['Tables']['profiles']['Row']
+      }
+      has_permission: {
+        Args: { p_permission: Permission }
+        Returns: boolean
+      }
+      get_my_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: Permission[]
+      }
+      set_user_staff_roles: {
+        Args: { p_user_id: string; p_roles: string[] }
+        Returns: string[]
+      }
+      settle_property_transaction: {
+        Args: { p_transaction_id: string; p_status: string; p_payment_date?: string }
+        Returns: PropertyTransaction
+      }
       current_user_has_role: {
         Args: { _role: Database["public"]["Enums"]["app_role"] }
         Returns: boolean
       }
+      end_rent_schedule: {
+        Args: { p_schedule_id: string; p_end_date?: string }
+        Returns: RentSchedule
+      }
       get_current_user_roles: {
         Args: Record<PropertyKey, never>
         Returns: Database["public"]["Enums"]["app_role"][]
@@ -476,6 +1399,16 @@ export type Database = {
         | "payment_received"
         | "maintenance_request"
         | "system_update"
+        | "saved_search_match"
+        | "listing_report"
+        | "landlord_verification"
+      payment_intent_status:
+        | "pending"
+        | "processing"
+        | "succeeded"
+        | "failed"
+        | "cancelled"
+        | "refund_required"
       user_role: "renter" | "landlord" | "admin"
     }
     CompositeTypes: {
@@ -604,6 +1537,17 @@ export const Constants = {
         "payment_received",
         "maintenance_request",
         "system_update",
+        "saved_search_match",
+        "listing_report",
+        "landlord_verification",
+      ],
+      payment_intent_status: [
+        "pending",
+        "processing",
+        "succeeded",
+        "failed",
+        "cancelled",
+        "refund_required",
       ],
       user_role: ["renter", "landlord", "admin"],
     },
@@ -1,6 +1,6 @@
 import client from '@/integrations/supabase/client';
 import { Database } from '@/integrations/supabase/types';
-import { PropertyFinancialMetrics, PropertyTransaction } from '@/integrations/supabase/types';
+import { ChatRoomStatus, MessageAttachment, MessageAutoReplyKind, PropertyFinancialMetrics, PropertyTransaction } from '@/integrations/supabase/types';
 
 export const supabase = client;
 
@@ -14,6 +14,7 @@ export interface Profile {
   created_at: string;
   updated_at: string;
   avatar_url?: string;
+  verified_at?: string | null;
 }
 
 export interface HouseDocument {
@@ -41,6 +42,11 @@ export interface ChatRoom {
   renter_id: string;
   landlord_id: string;
   created_at: string;
+  status?: ChatRoomStatus;
+  renter_archived_at?: string | null;
+  landlord_archived_at?: string | null;
+  closed_by?: string | null;
+  closed_at?: string | null;
   properties?: Property;
   renter_profile?: Profile;
   landlord_profile?: Profile;
@@ -52,6 +58,9 @@ export interface Message {
   sender_id: string;
   content: string;
   created_at: string;
+  read_at?: string | null;
+  attachments?: MessageAttachment[];
+  auto_reply?: MessageAutoReplyKind | null;
   profiles?: Profile;
   sender?: Profile;
 }
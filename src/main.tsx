@@ -2,6 +2,9 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import ErrorBoundaryWrapper from './components/ErrorBoundaryWrapper.tsx'
+import { initOfflineSupport } from './utils/offline'
+
+initOfflineSupport();
 
 createRoot(document.getElementById("root")!).render(
   <ErrorBoundaryWrapper componentName="Root">
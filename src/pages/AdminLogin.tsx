@@ -7,21 +7,26 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { ArrowLeft, Shield, Mail, Lock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermission";
+import { PermissionService } from "@/services/permissionService";
 import { supabase } from "@/lib/supabase";
-import { handleError, handleSuccess } from "@/utils/errorHandling";
+import { handleError } from "@/utils/errorHandling";
+import ResendVerificationButton from "@/components/ResendVerificationButton";
 
 const AdminLogin = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { signIn, profile, hasRole } = useAuth();
+  const { signIn, profile } = useAuth();
+  const { permissions, loading: permissionsLoading } = usePermissions();
 
   // Redirect if already logged in
   useEffect(() => {
-    if (profile) {
-      if (hasRole('admin')) {
+    if (profile && !permissionsLoading) {
+      if (permissions.length > 0) {
         navigate('/admin');
       } else {
         navigate('/');
@@ -32,7 +37,7 @@ const AdminLogin = () => {
         });
       }
     }
-  }, [profile, navigate, hasRole, toast]);
+  }, [profile, permissions, permissionsLoading, navigate, toast]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,25 +49,24 @@ const AdminLogin = () => {
         password,
       });
 
-      if (error) throw error;
+      if (error) {
+        if (error.message.includes('Email not confirmed')) setUnverifiedEmail(email);
+        throw error;
+      }
 
       if (data.user) {
-        // Check if user has admin role in user_roles table
-        const { data: userRoles, error: rolesError } = await supabase.rpc('get_current_user_roles');
-        
-        if (rolesError) {
-          console.error('Error fetching user roles:', rolesError);
+        // Admins and staff both come in here; anyone with a permission gets through
+        const permissions = await PermissionService.getMyPermissions().catch(() => {
           throw new Error("Error checking user privileges.");
-        }
+        });
 
-        // Check if user has admin role
-        if (!userRoles || !userRoles.includes('admin')) {
+        if (permissions.length === 0) {
           await supabase.auth.signOut();
           throw new Error("You don't have admin privileges.");
         }
 
-        navigate('/admin');
-        handleSuccess(toast, "Welcome to the admin panel!");
+        // Admins and staff confirm a second factor before the panel opens
+        navigate('/admin/mfa');
       }
     } catch (error: any) {
       handleError(error, toast, error.message || 'Login failed');
@@ -184,7 +188,22 @@ const AdminLogin = () => {
                     className="pl-10 bg-gray-700/50 border-red-700 text-white placeholder-red-300"
                   />
                 </div>
+                <div className="flex justify-end">
+                  <Link
+                    to={`/forgot-password${email ? `?email=${encodeURIComponent(email)}` : ""}`}
+                    className="text-sm text-red-300 hover:text-white hover:underline"
+                  >
+                    Forgot your password?
+                  </Link>
+                </div>
               </div>
+
+              {unverifiedEmail && (
+                <div className="rounded-lg border border-yellow-600 bg-yellow-900/30 p-3 text-sm text-yellow-100 space-y-2">
+                  <p>Confirm {unverifiedEmail} before signing in. Follow the link we emailed you, or request a new one.</p>
+                  <ResendVerificationButton email={unverifiedEmail} variant="secondary" />
+                </div>
+              )}
             </CardContent>
 
             <CardFooter>
@@ -0,0 +1,307 @@
+import { useCallback, useEffect, useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { KeyRound, LogOut, ShieldCheck, Smartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { handleError, handleSuccess } from "@/utils/errorHandling";
+import { MfaService, MfaState, TotpEnrollment } from "@/services/mfaService";
+import RecoveryCodesList from "@/components/admin/RecoveryCodesList";
+import LoadingSpinner from "@/components/LoadingSpinner";
+
+const CodeInput = ({ value, onChange }: { value: string; onChange: (value: string) => void }) => (
+  <InputOTP maxLength={6} value={value} onChange={onChange} containerClassName="justify-center">
+    <InputOTPGroup>
+      {Array.from({ length: 6 }, (_, index) => (
+        <InputOTPSlot key={index} index={index} className="bg-gray-700/50 border-red-700 text-white" />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+const AdminMfa = () => {
+  const [mfaState, setMfaState] = useState<MfaState | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [usingRecoveryCode, setUsingRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [working, setWorking] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const { profile, signOut } = useAuth();
+  const from = (location.state as { from?: string } | null)?.from || "/admin";
+
+  const loadState = useCallback(async () => {
+    try {
+      setMfaState(await MfaService.getState());
+    } catch (error) {
+      handleError(error, toast, "Failed to check two-factor status", { context: "AdminMfa" });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const handleStartEnrollment = async () => {
+    setWorking(true);
+    try {
+      setEnrollment(await MfaService.enrollTotp());
+      setCode("");
+    } catch (error) {
+      handleError(error, toast, "Failed to start two-factor setup", { context: "AdminMfa" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    setWorking(true);
+    try {
+      await MfaService.verifyTotp(enrollment.factorId, code);
+    } catch (error) {
+      setCode("");
+      setWorking(false);
+      handleError(error, toast, "Failed to turn on two-factor authentication", { context: "AdminMfa" });
+      return;
+    }
+
+    try {
+      setRecoveryCodes(await MfaService.generateRecoveryCodes());
+    } catch (error) {
+      // The factor is already on; codes can be generated later from the Security page
+      handleError(error, toast, "Failed to create recovery codes. Generate them from the Security page.", { context: "AdminMfa" });
+      navigate(from, { replace: true });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleChallenge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaState?.factorId) return;
+
+    setWorking(true);
+    try {
+      await MfaService.verifyTotp(mfaState.factorId, code);
+      handleSuccess(toast, "Welcome to the admin panel!");
+      navigate(from, { replace: true });
+    } catch (error) {
+      setCode("");
+      handleError(error, toast, "Failed to verify code", { context: "AdminMfa" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRedeemRecoveryCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setWorking(true);
+    try {
+      await MfaService.redeemRecoveryCode(recoveryCode);
+      toast({
+        title: "Recovery code accepted",
+        description: "Set up your authenticator app again to continue.",
+      });
+      setUsingRecoveryCode(false);
+      setRecoveryCode("");
+      await loadState();
+    } catch (error) {
+      handleError(error, toast, "Failed to use recovery code", { context: "AdminMfa" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/admin/login");
+  };
+
+  if (!mfaState) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-900 to-gray-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  // Already verified this session, and not in the middle of saving new recovery codes
+  if (mfaState.requirement === "none" && !recoveryCodes) {
+    return <Navigate to={from} replace />;
+  }
+
+  const renderContent = () => {
+    if (recoveryCodes) {
+      return (
+        <>
+          <CardContent className="text-white">
+            <RecoveryCodesList codes={recoveryCodes} email={profile?.email} />
+          </CardContent>
+          <CardFooter>
+            <Button
+              className="w-full bg-red-600 hover:bg-red-700 text-white"
+              onClick={() => navigate(from, { replace: true })}
+            >
+              I've saved my recovery codes
+            </Button>
+          </CardFooter>
+        </>
+      );
+    }
+
+    if (mfaState.requirement === "enroll") {
+      if (!enrollment) {
+        return (
+          <CardFooter>
+            <Button
+              className="w-full bg-red-600 hover:bg-red-700 text-white"
+              onClick={handleStartEnrollment}
+              disabled={working}
+            >
+              <Smartphone className="w-4 h-4 mr-2" />
+              {working ? "Starting..." : "Set up authenticator app"}
+            </Button>
+          </CardFooter>
+        );
+      }
+
+      return (
+        <form onSubmit={handleConfirmEnrollment}>
+          <CardContent className="space-y-4">
+            <div className="bg-white rounded-lg p-3 w-48 h-48 mx-auto">
+              <img src={enrollment.qrCode} alt="QR code for your authenticator app" className="w-full h-full" />
+            </div>
+            <p className="text-sm text-red-200 text-center">
+              Can't scan it? Enter this key instead:
+              <span className="block font-mono text-white break-all mt-1">{enrollment.secret}</span>
+            </p>
+            <div className="space-y-2">
+              <Label className="text-red-200">Code from the app</Label>
+              <CodeInput value={code} onChange={setCode} />
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button
+              type="submit"
+              className="w-full bg-red-600 hover:bg-red-700 text-white"
+              disabled={working || code.length < 6}
+            >
+              {working ? "Verifying..." : "Verify and turn on"}
+            </Button>
+          </CardFooter>
+        </form>
+      );
+    }
+
+    if (usingRecoveryCode) {
+      return (
+        <form onSubmit={handleRedeemRecoveryCode}>
+          <CardContent className="space-y-2">
+            <Label htmlFor="recovery-code" className="text-red-200">Recovery code</Label>
+            <Input
+              id="recovery-code"
+              placeholder="a1b2c-3d4e5"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              autoComplete="off"
+              required
+              className="font-mono bg-gray-700/50 border-red-700 text-white placeholder-red-300"
+            />
+            <p className="text-xs text-red-300">
+              Using a recovery code removes your current authenticator, and you'll set up a new one next.
+            </p>
+          </CardContent>
+          <CardFooter className="flex flex-col gap-3">
+            <Button type="submit" className="w-full bg-red-600 hover:bg-red-700 text-white" disabled={working}>
+              {working ? "Checking..." : "Use recovery code"}
+            </Button>
+            <button
+              type="button"
+              className="text-sm text-red-300 hover:text-white"
+              onClick={() => setUsingRecoveryCode(false)}
+            >
+              Enter an authenticator code instead
+            </button>
+          </CardFooter>
+        </form>
+      );
+    }
+
+    return (
+      <form onSubmit={handleChallenge}>
+        <CardContent>
+          <CodeInput value={code} onChange={setCode} />
+        </CardContent>
+        <CardFooter className="flex flex-col gap-3">
+          <Button
+            type="submit"
+            className="w-full bg-red-600 hover:bg-red-700 text-white"
+            disabled={working || code.length < 6}
+          >
+            {working ? "Verifying..." : "Verify"}
+          </Button>
+          <button
+            type="button"
+            className="text-sm text-red-300 hover:text-white"
+            onClick={() => setUsingRecoveryCode(true)}
+          >
+            Lost your device? Use a recovery code
+          </button>
+        </CardFooter>
+      </form>
+    );
+  };
+
+  const title = recoveryCodes
+    ? "Save your recovery codes"
+    : mfaState.requirement === "enroll"
+      ? "Set up two-factor authentication"
+      : "Two-factor verification";
+
+  const description = recoveryCodes
+    ? "Two-factor authentication is on. Keep these codes somewhere safe in case you lose your phone."
+    : mfaState.requirement === "enroll"
+      ? enrollment
+        ? "Scan the QR code with Google Authenticator, 1Password or a similar app, then enter the 6-digit code it shows."
+        : "Admin accounts need an authenticator app in addition to a password."
+      : "Enter the 6-digit code from your authenticator app.";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-900 to-gray-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card className="bg-gray-800/90 backdrop-blur-sm border-red-800 shadow-2xl">
+          <CardHeader className="text-center">
+            <div className="w-16 h-16 bg-gradient-to-r from-red-600 to-red-800 rounded-lg flex items-center justify-center mx-auto mb-4">
+              {recoveryCodes ? <ShieldCheck className="w-8 h-8 text-white" /> : <KeyRound className="w-8 h-8 text-white" />}
+            </div>
+            <CardTitle className="text-2xl font-bold text-white">{title}</CardTitle>
+            <CardDescription className="text-red-200">{description}</CardDescription>
+          </CardHeader>
+          {renderContent()}
+        </Card>
+
+        {!recoveryCodes && (
+          <div className="mt-4 text-center">
+            <button onClick={handleSignOut} className="inline-flex items-center text-sm text-red-200 hover:text-white">
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminMfa;
@@ -3,9 +3,14 @@ import AdminLayout from '@/components/admin/AdminLayout';
 import AdminDashboard from '@/components/admin/AdminDashboard';
 import UserManagement from '@/components/admin/UserManagement';
 import PropertyReviewPanel from '@/components/admin/PropertyReviewPanel';
+import LandlordVerificationQueue from '@/components/admin/LandlordVerificationQueue';
 import AdminAnalyticsDashboard from '@/components/admin/AdminAnalyticsDashboard';
 import DatabaseManagement from '@/components/admin/DatabaseManagement';
 import SystemSettings from '@/components/admin/SystemSettings';
+import AdminSecurity from '@/components/admin/AdminSecurity';
+import AdminAuditLog from '@/components/admin/AdminAuditLog';
+import AdminConversations from '@/components/admin/AdminConversations';
+import AdminPayments from '@/components/admin/AdminPayments';
 
 const AdminPanel = () => {
   const location = useLocation();
@@ -20,12 +25,22 @@ const AdminPanel = () => {
         return <UserManagement />;
       case '/admin/properties':
         return <PropertyReviewPanel />;
+      case '/admin/verifications':
+        return <LandlordVerificationQueue />;
+      case '/admin/conversations':
+        return <AdminConversations />;
+      case '/admin/payments':
+        return <AdminPayments />;
       case '/admin/analytics':
         return <AdminAnalyticsDashboard />;
       case '/admin/database':
         return <DatabaseManagement />;
       case '/admin/settings':
         return <SystemSettings />;
+      case '/admin/security':
+        return <AdminSecurity />;
+      case '/admin/audit-log':
+        return <AdminAuditLog />;
       default:
         return <AdminDashboard />;
     }
@@ -10,11 +10,15 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { handleError } from '@/utils/errorHandling';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/lib/supabase';
 import Layout from '@/components/Layout';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import PropertyStatusBadge from '@/components/PropertyStatusBadge';
+import LeaseAgreementDialog from '@/components/LeaseAgreementDialog';
+import { LeaseService, LeaseWithParties } from '@/services/leaseService';
+import { ApplicationService } from '@/services/applicationService';
 import {
   User,
   Mail,
@@ -33,7 +37,8 @@ import {
   RefreshCw,
   Home,
   DollarSign,
-  Users
+  Users,
+  FileSignature
 } from 'lucide-react';
 
 interface RentalApplication {
@@ -72,6 +77,7 @@ const ApplicationManagement = () => {
   const [loading, setLoading] = useState(true);
   const [selectedApplication, setSelectedApplication] = useState<RentalApplication | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  const [activeLease, setActiveLease] = useState<LeaseWithParties | null>(null);
   const [filterStatus, setFilterStatus] = useState('all');
   const [filterProperty, setFilterProperty] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
@@ -162,37 +168,34 @@ const ApplicationManagement = () => {
     try {
       setActionLoading(true);
       
-      const updateData: any = { 
-        status: status === 'approved' ? 'application_approved' : 'application_rejected',
-        updated_at: new Date().toISOString()
-      };
-      
-      if (status === 'rejected' && reason) {
-        updateData.rejection_reason = reason;
-      }
-
-      const { error } = await supabase
-        .from('rental_applications')
-        .update(updateData)
-        .eq('id', applicationId);
-
-      if (error) throw error;
+      const updated = await ApplicationService.updateStatus(
+        applicationId,
+        status === 'approved' ? 'application_approved' : 'application_rejected',
+        reason
+      );
 
       // Update local state
       setApplications(applications.map(app => 
         app.id === applicationId 
-          ? { ...app, status: updateData.status, updated_at: updateData.updated_at }
+          ? { ...app, status: updated.status, updated_at: updated.updated_at }
           : app
       ));
 
       toast({
         title: `Application ${status}`,
-        description: `Application has been ${status} successfully.`,
+        description: status === 'approved'
+          ? 'A draft lease has been created. Review the terms and sign it to continue.'
+          : `Application has been ${status} successfully.`,
       });
 
       setShowDetailModal(false);
       setShowRejectModal(false);
       setRejectionReason('');
+
+      // Approval drafts a lease; open it so the landlord can review and sign
+      if (status === 'approved') {
+        await openLease(applicationId);
+      }
     } catch (error: any) {
       toast({
         title: "Error",
@@ -204,6 +207,19 @@ const ApplicationManagement = () => {
     }
   };
 
+  const openLease = async (applicationId: string) => {
+    try {
+      const lease = await LeaseService.getByApplication(applicationId);
+      if (lease) {
+        setActiveLease(lease);
+      } else {
+        toast({ title: "No lease yet", description: "A lease is created when the application is approved." });
+      }
+    } catch (error) {
+      handleError(error, toast, 'Failed to load lease', { context: 'ApplicationManagement' });
+    }
+  };
+
   const getApplicationScore = (application: RentalApplication): number => {
     let score = 0;
     
@@ -505,6 +521,19 @@ const ApplicationManagement = () => {
                                 </Button>
                               </div>
                             )}
+                            {(application.status === 'application_approved' || application.status === 'payment_completed') && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  openLease(application.id);
+                                }}
+                              >
+                                <FileSignature className="w-4 h-4 mr-1" />
+                                Lease
+                              </Button>
+                            )}
                             <Button size="sm" variant="outline">
                               <Eye className="w-4 h-4" />
                             </Button>
@@ -764,6 +793,13 @@ const ApplicationManagement = () => {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        <LeaseAgreementDialog
+          lease={activeLease}
+          open={!!activeLease}
+          onOpenChange={(open) => !open && setActiveLease(null)}
+          onUpdated={setActiveLease}
+        />
       </div>
     </Layout>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -19,6 +19,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RENT_INTERVAL_LABELS, getInstallmentAmount } from "@/services/rentScheduleService";
 import { ArrowLeft, Home, X, CheckCircle, AlertCircle, Save } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase, Property, HouseDocument } from "@/lib/supabase";
@@ -27,12 +28,17 @@ import { useLoadingState } from "@/hooks/useLoadingState";
 import { handleError, handleSuccess } from "@/utils/errorHandling";
 import UnifiedImageUpload from "@/components/UnifiedImageUpload";
 import HouseDocumentUpload from "@/components/HouseDocumentUpload";
+import AddressPicker from "@/components/AddressPicker";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import Layout from "@/components/Layout";
 import { Link } from "react-router-dom";
-import { Json } from "@/integrations/supabase/types";
+import { Json, PropertyType } from "@/integrations/supabase/types";
+import { usePlatformSettings } from "@/hooks/usePlatformSettings";
+import { PlatformSettings } from "@/services/platformSettingsService";
+import { PROPERTY_TYPES, PROPERTY_TYPE_LABELS } from "@/services/propertySearchService";
+import { PropertyAddress, formatAddress, toPropertyAddressFields } from "@/services/geocodingService";
 
-const propertySchema = z.object({
+const createPropertySchema = (settings: PlatformSettings, formatPrice: (amount: number) => string) => z.object({
   title: z.string()
     .min(5, "Property title must be at least 5 characters")
     .max(100, "Property title must be less than 100 characters"),
@@ -40,8 +46,8 @@ const propertySchema = z.object({
     .min(20, "Description must be at least 20 characters")
     .max(1000, "Description must be less than 1000 characters"),
   price: z.number()
-    .min(1000, "Price must be at least ₦1,000")
-    .max(10000000, "Price must be less than ₦10,000,000"),
+    .min(settings.listing_min_price, `Price must be at least ${formatPrice(settings.listing_min_price)}`)
+    .max(settings.listing_max_price, `Price must be less than ${formatPrice(settings.listing_max_price)}`),
   location: z.string()
     .min(3, "Location is required")
     .max(100, "Location must be less than 100 characters"),
@@ -54,9 +60,13 @@ const propertySchema = z.object({
     .max(20, "Bathrooms must be less than 20")
     .optional(),
   status: z.enum(['active', 'inactive', 'pending', 'rented']),
+  rent_interval: z.enum(['monthly', 'quarterly', 'annually']),
+  property_type: z.enum(PROPERTY_TYPES as [PropertyType, ...PropertyType[]], {
+    required_error: "Select a property type",
+  }),
 });
 
-type PropertyFormData = z.infer<typeof propertySchema>;
+type PropertyFormData = z.infer<ReturnType<typeof createPropertySchema>>;
 
 const EditProperty = () => {
   const { id } = useParams<{ id: string }>();
@@ -65,6 +75,7 @@ const EditProperty = () => {
   const [houseDocuments, setHouseDocuments] = useState<HouseDocument[]>([]);
   const [amenities, setAmenities] = useState<string[]>([]);
   const [newAmenity, setNewAmenity] = useState('');
+  const [address, setAddress] = useState<PropertyAddress>({});
   const [formProgress, setFormProgress] = useState(0);
   const [initialLoading, setInitialLoading] = useState(true);
   
@@ -72,6 +83,8 @@ const EditProperty = () => {
   const { user, profile, hasRole } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { settings, formatPrice } = usePlatformSettings();
+  const propertySchema = useMemo(() => createPropertySchema(settings, formatPrice), [settings, formatPrice]);
 
   const form = useForm<PropertyFormData>({
     resolver: zodResolver(propertySchema),
@@ -84,6 +97,8 @@ const EditProperty = () => {
       bedrooms: undefined,
       bathrooms: undefined,
       status: 'pending',
+      rent_interval: 'annually',
+      property_type: undefined,
     },
   });
 
@@ -166,6 +181,8 @@ const EditProperty = () => {
           bedrooms: propertyData.bedrooms || undefined,
           bathrooms: propertyData.bathrooms || undefined,
           status: propertyData.status as any || 'pending',
+          rent_interval: (propertyData.rent_interval as PropertyFormData['rent_interval']) || 'annually',
+          property_type: propertyData.property_type || undefined,
         });
 
         // Set existing images
@@ -180,6 +197,17 @@ const EditProperty = () => {
           setAmenities(propertyData.amenities);
         }
 
+        setAddress({
+          address_line: propertyData.address_line,
+          area: propertyData.area,
+          lga: propertyData.lga,
+          state: propertyData.state,
+          latitude: propertyData.latitude,
+          longitude: propertyData.longitude,
+          geocode_source: propertyData.geocode_source,
+          geocoded_at: propertyData.geocoded_at,
+        });
+
       } catch (error: any) {
         console.error('Error fetching property:', error);
         handleError(error, toast, 'Failed to load property data');
@@ -194,7 +222,7 @@ const EditProperty = () => {
 
   // Calculate form completion progress
   useEffect(() => {
-    const requiredFields = ['title', 'description', 'price', 'location'];
+    const requiredFields = ['title', 'description', 'price', 'location', 'property_type'];
     const optionalFields = ['bedrooms', 'bathrooms'];
     
     let completedRequired = 0;
@@ -242,12 +270,22 @@ const EditProperty = () => {
     setAmenities(amenities.filter(a => a !== amenity));
   };
 
+  // Keep the location label in step with the address until the landlord writes their own
+  const handleAddressChange = (next: PropertyAddress) => {
+    const currentLocation = form.getValues('location').trim();
+    if (!currentLocation || currentLocation === formatAddress(address)) {
+      form.setValue('location', formatAddress(next), { shouldValidate: true, shouldDirty: true });
+    }
+    setAddress(next);
+  };
+
   const onSubmit = async (data: PropertyFormData) => {
     if (!id || !profile) return;
 
     try {
       const updateData = {
         ...data,
+        ...toPropertyAddressFields(address),
         photo_urls: imageUrls,
         amenities,
         house_documents: serializeHouseDocuments(houseDocuments),
@@ -428,7 +466,7 @@ const EditProperty = () => {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel className="flex items-center justify-between">
-                            Annual Rent (₦) *
+                            Annual Rent ({settings.default_currency}) *
                             {getFieldIcon("price")}
                           </FormLabel>
                           <FormControl>
@@ -443,7 +481,7 @@ const EditProperty = () => {
                           <FormDescription>
                             {field.value > 0 && (
                               <span className="text-green-600">
-                                ≈ ₦{Math.round(field.value / 12).toLocaleString()}/month
+                                ≈ {formatPrice(Math.round(field.value / 12))}/month
                               </span>
                             )}
                           </FormDescription>
@@ -476,6 +514,52 @@ const EditProperty = () => {
                       )}
                     />
                   </div>
+
+                  <FormField
+                    control={form.control}
+                    name="rent_interval"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Rent Collection</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(RENT_INTERVAL_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          {watchedValues.price > 0 && watchedValues.rent_interval !== 'annually' && (
+                            <span className="text-green-600">
+                              Tenants pay {formatPrice(getInstallmentAmount(watchedValues.price, watchedValues.rent_interval))} per {watchedValues.rent_interval === 'monthly' ? 'month' : 'quarter'}
+                            </span>
+                          )}
+                          {watchedValues.rent_interval === 'annually' && 'Tenants pay the full annual rent once a year'}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Address */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    Address
+                    {!address.state && (
+                      <Badge variant="outline" className="ml-2 text-orange-600">Recommended</Badge>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AddressPicker value={address} onChange={handleAddressChange} />
                 </CardContent>
               </Card>
 
@@ -485,6 +569,30 @@ const EditProperty = () => {
                   <CardTitle>Property Details</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="property_type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Property Type *</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select property type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {PROPERTY_TYPES.map(type => (
+                              <SelectItem key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Renters can filter search results by type</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                     <FormField
                       control={form.control}
@@ -608,7 +716,7 @@ const EditProperty = () => {
                     onImagesUploaded={setImageUrls}
                     currentImageUrls={imageUrls}
                     bucket="property-images"
-                    maxImages={10}
+                    maxImages={settings.listing_max_images}
                   />
                   <FormDescription className="mt-3">
                     Upload high-quality photos to attract more renters. First image will be the main display photo.
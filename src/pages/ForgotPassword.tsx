@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, KeyRound, Mail, MailCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+const ForgotPassword = () => {
+  const [searchParams] = useSearchParams();
+  const [email, setEmail] = useState(searchParams.get("email") || "");
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const { toast } = useToast();
+  const { requestPasswordReset } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const { error } = await requestPasswordReset(email.trim());
+    setLoading(false);
+
+    if (error) {
+      toast({
+        title: "Couldn't send the reset link",
+        description: error.message || "Please try again in a moment.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSent(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Link
+          to="/login"
+          className="inline-flex items-center text-slate-600 hover:text-blue-600 mb-8 transition-all duration-200 group"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2 group-hover:-translate-x-1 transition-transform duration-200" />
+          <span className="font-medium">Back to sign in</span>
+        </Link>
+
+        <Card className="bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl shadow-blue-500/10">
+          <CardHeader className="text-center pb-4">
+            <div className="mx-auto w-16 h-16 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-2xl flex items-center justify-center mb-4 shadow-lg">
+              {sent ? <MailCheck className="w-8 h-8 text-white" /> : <KeyRound className="w-8 h-8 text-white" />}
+            </div>
+            <CardTitle className="text-2xl font-bold text-slate-900">
+              {sent ? "Check your email" : "Reset your password"}
+            </CardTitle>
+            <CardDescription className="text-slate-600 mt-2">
+              {sent
+                ? `If an account exists for ${email}, we've sent a link to choose a new password. It expires in an hour.`
+                : "Enter the email you signed up with and we'll send you a link to choose a new password."}
+            </CardDescription>
+          </CardHeader>
+
+          {sent ? (
+            <CardFooter className="flex flex-col gap-3">
+              <Button variant="outline" className="w-full" onClick={() => setSent(false)}>
+                Didn't get it? Try again
+              </Button>
+              <Link to="/login" className="text-sm text-blue-600 hover:text-blue-700 hover:underline">
+                Return to sign in
+              </Link>
+            </CardFooter>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <CardContent className="space-y-2">
+                <Label htmlFor="reset-email" className="text-slate-700 font-medium">
+                  Email Address
+                </Label>
+                <div className="relative group">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400 group-focus-within:text-blue-500 transition-colors duration-200" />
+                  <Input
+                    id="reset-email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    autoFocus
+                    className="pl-10 h-12 bg-slate-50/80 border-slate-200 focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all duration-200"
+                  />
+                </div>
+              </CardContent>
+              <CardFooter>
+                <Button
+                  type="submit"
+                  className="w-full h-12 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-medium"
+                  disabled={loading}
+                >
+                  {loading ? "Sending..." : "Send reset link"}
+                </Button>
+              </CardFooter>
+            </form>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -11,6 +11,9 @@ import { debugDatabase, createSampleData } from "@/utils/databaseDebug";
 
 import DashboardStats from "@/components/landlord/DashboardStats";
 import QuickActions from "@/components/landlord/QuickActions";
+import MessagesSection from "@/components/landlord/MessagesSection";
+import LandlordVerificationCard from "@/components/landlord/LandlordVerificationCard";
+import { countUnread, getChatRoomStatus } from "@/services/chatService";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BarChart3, TrendingUp, Calendar, DollarSign } from "lucide-react";
 
@@ -138,15 +141,13 @@ const LandlordDashboard = () => {
         ...room,
         last_message: room.messages && room.messages.length > 0 
           ? {
-              content: room.messages[room.messages.length - 1].content,
+              content: room.messages[room.messages.length - 1].content || 'Sent an attachment',
               created_at: room.messages[room.messages.length - 1].created_at,
               sender_type: room.messages[room.messages.length - 1].sender_id === profile.id ? 'landlord' : 'renter'
             }
           : null,
-        unread_count: room.messages ? room.messages.filter(msg => 
-          msg.sender_id !== profile.id
-        ).length : 0,
-        status: 'active' // Default status
+        unread_count: countUnread(room.messages, profile.id),
+        status: getChatRoomStatus(room, profile.id)
       }));
       setChatRooms(transformedChatRooms);
       
@@ -247,6 +248,8 @@ const LandlordDashboard = () => {
           </div>
         </div>
 
+        <LandlordVerificationCard properties={properties} />
+
         {/* Stats Cards */}
         <div className="animate-fade-in">
           <DashboardStats 
@@ -322,6 +325,9 @@ const LandlordDashboard = () => {
             </CardContent>
           </Card>
         </div>
+
+        {/* Recent Messages */}
+        <MessagesSection chatRooms={chatRooms} loading={messagesLoading} />
       </div>
     </Layout>
   );
@@ -30,6 +30,7 @@ import { useToast } from "@/hooks/use-toast";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import Layout from "@/components/Layout";
 import { handleError, handleSuccess } from "@/utils/errorHandling";
+import { usePlatformSettings } from "@/hooks/usePlatformSettings";
 
 const LandlordProperties = () => {
   const [properties, setProperties] = useState<Property[]>([]);
@@ -41,6 +42,7 @@ const LandlordProperties = () => {
   const [totalCount, setTotalCount] = useState(0);
   const pageSize = 10;
   const { profile, hasRole } = useAuth();
+  const { formatPrice } = usePlatformSettings();
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -159,14 +161,6 @@ const LandlordProperties = () => {
     }
   };
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-NG', {
-      style: 'currency',
-      currency: 'NGN',
-      minimumFractionDigits: 0,
-    }).format(price);
-  };
-
   if (loading) {
     return (
       <Layout>
@@ -19,15 +19,22 @@ import {
   MapPin,
   Home,
   Bed,
-  Bath
+  Bath,
+  FileSignature
 } from 'lucide-react';
 import { Json } from '@/integrations/supabase/types';
+import LeaseAgreementDialog from '@/components/LeaseAgreementDialog';
+import TourAvailabilityManager from '@/components/landlord/TourAvailabilityManager';
+import MaintenanceTickets from '@/components/landlord/MaintenanceTickets';
+import { LeaseService, LeaseWithParties, LEASE_STATUS_LABELS } from '@/services/leaseService';
 
 const LandlordPropertyDetail = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const [property, setProperty] = useState<Property | null>(null);
   const [loading, setLoading] = useState(true);
+  const [leases, setLeases] = useState<LeaseWithParties[]>([]);
+  const [activeLease, setActiveLease] = useState<LeaseWithParties | null>(null);
   const { profile, hasRole } = useAuth();
   const { toast } = useToast();
 
@@ -69,6 +76,7 @@ const LandlordPropertyDetail = () => {
         };
         
         setProperty(transformedProperty);
+        setLeases(await LeaseService.getByProperty(id));
       } catch (error: any) {
         console.error('Error fetching property:', error);
         toast({ title: "Error", description: "Failed to load property details.", variant: "destructive" });
@@ -115,6 +123,11 @@ const LandlordPropertyDetail = () => {
     }
   };
 
+  const handleLeaseUpdated = (lease: LeaseWithParties) => {
+    setLeases(prev => prev.map(l => (l.id === lease.id ? lease : l)));
+    setActiveLease(lease);
+  };
+
   const handleViewApplications = () => {
     navigate('/landlord/applications?property=' + property?.id);
   };
@@ -274,6 +287,54 @@ const LandlordPropertyDetail = () => {
                 </Card>
               )}
 
+              {/* Leases */}
+              {leases.length > 0 && (
+                <Card className="bg-gray-800 border-gray-700">
+                  <CardHeader>
+                    <CardTitle className="text-white flex items-center gap-2">
+                      <FileSignature className="w-5 h-5" />
+                      Leases
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {leases.map((lease) => (
+                      <div key={lease.id} className="bg-gray-700 rounded-lg p-4 flex items-center justify-between gap-4">
+                        <div>
+                          <p className="text-white font-medium">{lease.tenant?.full_name || lease.tenant?.email || 'Tenant'}</p>
+                          <p className="text-gray-400 text-sm">
+                            {new Date(lease.start_date).toLocaleDateString()} - {new Date(lease.end_date).toLocaleDateString()} • ₦{Number(lease.rent_amount).toLocaleString()}/year
+                          </p>
+                          {lease.status === 'signed' && lease.tenant_signed_at && lease.landlord_signed_at && (
+                            <p className="text-gray-400 text-xs mt-1">
+                              Signed by {lease.landlord_signature_name} and {lease.tenant_signature_name}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={lease.status === 'signed' ? 'default' : 'secondary'}>
+                            {LEASE_STATUS_LABELS[lease.status]}
+                          </Badge>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setActiveLease(lease)}
+                            className="border-gray-600 text-gray-300 hover:bg-gray-600"
+                          >
+                            {lease.landlord_signed_at ? 'View' : 'Review & Sign'}
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Tours */}
+              <TourAvailabilityManager propertyId={property.id} />
+
+              {/* Maintenance */}
+              <MaintenanceTickets propertyId={property.id} />
+
               {/* Amenities */}
               {property.amenities && property.amenities.length > 0 && (
                 <Card className="bg-gray-800 border-gray-700">
@@ -385,6 +446,13 @@ const LandlordPropertyDetail = () => {
           </div>
         </div>
       </div>
+
+      <LeaseAgreementDialog
+        lease={activeLease}
+        open={!!activeLease}
+        onOpenChange={(open) => !open && setActiveLease(null)}
+        onUpdated={handleLeaseUpdated}
+      />
     </Layout>
   );
 };
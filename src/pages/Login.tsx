@@ -7,6 +7,8 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import ResendVerificationButton from "@/components/ResendVerificationButton";
 import { 
   ArrowLeft, 
   Building, 
@@ -24,6 +26,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { UserRoleType } from "@/lib/supabase";
+import { ACCOUNT_STATUS_LABELS, accountRestrictionMessage } from "@/services/accountStatusService";
 
 const Login = () => {
   const [email, setEmail] = useState("");
@@ -33,9 +36,13 @@ const Login = () => {
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [passwordStrength, setPasswordStrength] = useState(0);
+  const [signInMethod, setSignInMethod] = useState<"password" | "code">("password");
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState("");
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { signUp, signIn, profile, hasRole } = useAuth();
+  const { signUp, signIn, sendSignInCode, verifySignInCode, profile, hasRole, accountRestriction } = useAuth();
 
   // Redirect if already logged in
   useEffect(() => {
@@ -105,6 +112,7 @@ const Login = () => {
           variant: "destructive"
         });
       } else {
+        setUnverifiedEmail(email);
         toast({
           title: "Account created!",
           description: "Check your email to confirm your account.",
@@ -135,6 +143,20 @@ const Login = () => {
             description: "Please check your email and password.",
             variant: "destructive"
           });
+        } else if (error.code === 'account_restricted') {
+          // The notice above the form explains why
+          toast({
+            title: "Can't sign in",
+            description: error.message,
+            variant: "destructive"
+          });
+        } else if (error.message.includes('Email not confirmed')) {
+          setUnverifiedEmail(email);
+          toast({
+            title: "Confirm your email",
+            description: "Follow the link in your confirmation email, or send a new one.",
+            variant: "destructive"
+          });
         } else {
           throw error;
         }
@@ -155,6 +177,71 @@ const Login = () => {
     }
   };
 
+  // Passwordless sign-in: first email a code (the email also has a magic link), then verify it
+  const handleSignInWithCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      if (!codeSent) {
+        const { error } = await sendSignInCode(email);
+        if (error) throw error;
+
+        setCodeSent(true);
+        toast({
+          title: "Check your email",
+          description: `We sent a sign-in link and a 6-digit code to ${email}.`,
+        });
+      } else {
+        const { error } = await verifySignInCode(email, code);
+        if (error) throw error;
+
+        toast({
+          title: "Welcome back!",
+          description: "You have been signed in successfully.",
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      toast({
+        title: "Error",
+        description: message.includes('Signups not allowed')
+          ? "There's no account with that email. Create one in the Sign Up tab."
+          : message || "Failed to sign in. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchSignInMethod = (method: "password" | "code") => {
+    setSignInMethod(method);
+    setCodeSent(false);
+    setCode("");
+  };
+
+  const verificationNotice = unverifiedEmail && (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900 space-y-2">
+      <p>
+        Confirm <strong>{unverifiedEmail}</strong> to sign in. Follow the link we emailed you, or request a new one.
+      </p>
+      <ResendVerificationButton email={unverifiedEmail} className="border-amber-300 bg-white hover:bg-amber-100" />
+    </div>
+  );
+
+  const restrictionNotice = accountRestriction && (
+    <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-900 space-y-1">
+      <p className="font-medium">
+        {ACCOUNT_STATUS_LABELS[accountRestriction.status]}: {accountRestrictionMessage(accountRestriction)}
+      </p>
+      {accountRestriction.reason && <p>Reason: {accountRestriction.reason}</p>}
+      <p>
+        If you think this is a mistake, <Link to="/contact" className="underline">contact support</Link>.
+      </p>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
       {/* Background decoration */}
@@ -205,8 +292,10 @@ const Login = () => {
             
             {/* Sign In Tab */}
             <TabsContent value="signin" className="mx-0">
-              <form onSubmit={handleSignIn} className="space-y-6">
+              <form onSubmit={signInMethod === "password" ? handleSignIn : handleSignInWithCode} className="space-y-6">
                 <CardContent className="space-y-5 pt-0">
+                  {restrictionNotice}
+
                   <div className="space-y-2">
                     <Label htmlFor="signin-email" className="text-slate-700 font-medium">
                       Email Address
@@ -220,51 +309,79 @@ const Login = () => {
                         value={email}
                         onChange={(e) => setEmail(e.target.value)}
                         required
+                        disabled={codeSent}
                         className="pl-10 h-12 bg-slate-50/80 border-slate-200 focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all duration-200"
                       />
                     </div>
                   </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="signin-password" className="text-slate-700 font-medium">
-                      Password
-                    </Label>
-                    <div className="relative group">
-                      <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400 group-focus-within:text-blue-500 transition-colors duration-200" />
-                      <Input
-                        id="signin-password"
-                        type={showPassword ? "text" : "password"}
-                        placeholder="Enter your password"
-                        value={password}
-                        onChange={(e) => setPassword(e.target.value)}
-                        required
-                        className="pl-10 pr-10 h-12 bg-slate-50/80 border-slate-200 focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all duration-200"
-                      />
-                      <button
-                        type="button"
-                        onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 transition-colors duration-200"
-                      >
-                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                      </button>
-                    </div>
-                  </div>
+                  {signInMethod === "password" ? (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="signin-password" className="text-slate-700 font-medium">
+                          Password
+                        </Label>
+                        <div className="relative group">
+                          <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400 group-focus-within:text-blue-500 transition-colors duration-200" />
+                          <Input
+                            id="signin-password"
+                            type={showPassword ? "text" : "password"}
+                            placeholder="Enter your password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            required
+                            className="pl-10 pr-10 h-12 bg-slate-50/80 border-slate-200 focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all duration-200"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setShowPassword(!showPassword)}
+                            className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 transition-colors duration-200"
+                          >
+                            {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                          </button>
+                        </div>
+                      </div>
 
-                  <div className="flex justify-end">
-                    <Link 
-                      to="/forgot-password" 
-                      className="text-sm text-blue-600 hover:text-blue-700 hover:underline transition-colors duration-200"
-                    >
-                      Forgot your password?
-                    </Link>
-                  </div>
+                      <div className="flex justify-end">
+                        <Link 
+                          to={`/forgot-password${email ? `?email=${encodeURIComponent(email)}` : ""}`}
+                          className="text-sm text-blue-600 hover:text-blue-700 hover:underline transition-colors duration-200"
+                        >
+                          Forgot your password?
+                        </Link>
+                      </div>
+
+                      {verificationNotice}
+                    </>
+                  ) : codeSent && (
+                    <div className="space-y-3">
+                      <Label className="text-slate-700 font-medium">6-digit code</Label>
+                      <InputOTP maxLength={6} value={code} onChange={setCode} containerClassName="justify-center">
+                        <InputOTPGroup>
+                          {Array.from({ length: 6 }, (_, index) => (
+                            <InputOTPSlot key={index} index={index} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                      <p className="text-xs text-slate-500 text-center">
+                        Or open the link in the email on this device.{" "}
+                        <button
+                          type="button"
+                          onClick={() => switchSignInMethod("code")}
+                          className="text-blue-600 hover:underline"
+                        >
+                          Use a different email
+                        </button>
+                      </p>
+                    </div>
+                  )}
                 </CardContent>
 
-                <CardFooter className="pt-0">
+                <CardFooter className="pt-0 flex flex-col gap-3">
                   <Button
                     type="submit"
                     className="w-full h-12 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl transition-all duration-200 text-white font-medium"
-                    disabled={loading}
+                    disabled={loading || (codeSent && code.length < 6)}
                   >
                     {loading ? (
                       <div className="flex items-center space-x-2">
@@ -273,11 +390,20 @@ const Login = () => {
                       </div>
                     ) : (
                       <span className="flex items-center space-x-2">
-                        <span>Sign In</span>
+                        <span>
+                          {signInMethod === "password" ? "Sign In" : codeSent ? "Verify code" : "Email me a sign-in code"}
+                        </span>
                         <ArrowLeft className="w-4 h-4 rotate-180" />
                       </span>
                     )}
                   </Button>
+                  <button
+                    type="button"
+                    onClick={() => switchSignInMethod(signInMethod === "password" ? "code" : "password")}
+                    className="text-sm text-slate-600 hover:text-blue-600 transition-colors duration-200"
+                  >
+                    {signInMethod === "password" ? "Email me a sign-in code instead" : "Sign in with a password instead"}
+                  </button>
                 </CardFooter>
               </form>
             </TabsContent>
@@ -408,6 +534,8 @@ const Login = () => {
                     )}
                   </div>
 
+                  {verificationNotice}
+
                   {/* Terms and Conditions */}
                   <div className="text-xs text-slate-600 bg-slate-50 rounded-lg p-3 border border-slate-200">
                     By creating an account, you agree to our{" "}
@@ -0,0 +1,346 @@
+import { useCallback, useEffect, useState } from 'react';
+import Layout from '@/components/Layout';
+import MaintenancePhotos from '@/components/MaintenancePhotos';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { handleError, ValidationError } from '@/utils/errorHandling';
+import {
+  MaintenanceService,
+  MaintenanceTicketWithDetails,
+  RentedProperty,
+  MAINTENANCE_CATEGORY_LABELS,
+  MAINTENANCE_PRIORITY_LABELS,
+  MAINTENANCE_STATUS_LABELS,
+} from '@/services/maintenanceService';
+import { MaintenanceCategory, MaintenancePriority } from '@/integrations/supabase/types';
+import { Wrench, Plus, MapPin, User } from 'lucide-react';
+
+const MAX_PHOTOS = 5;
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+const emptyForm = {
+  propertyId: '',
+  title: '',
+  description: '',
+  category: 'other' as MaintenanceCategory,
+  priority: 'medium' as MaintenancePriority,
+  photos: [] as File[],
+};
+
+const getStatusBadgeClass = (status: string) => {
+  switch (status) {
+    case 'open': return 'bg-yellow-100 text-yellow-800';
+    case 'in_progress': return 'bg-blue-100 text-blue-800';
+    case 'on_hold': return 'bg-gray-100 text-gray-800';
+    case 'completed': return 'bg-green-100 text-green-800';
+    default: return 'bg-red-100 text-red-800';
+  }
+};
+
+const MaintenanceRequests = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [tickets, setTickets] = useState<MaintenanceTicketWithDetails[]>([]);
+  const [properties, setProperties] = useState<RentedProperty[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    if (!profile) return;
+    try {
+      const [tenantTickets, rented] = await Promise.all([
+        MaintenanceService.getTenantTickets(profile.id),
+        MaintenanceService.getRentedProperties(profile.id),
+      ]);
+      setTickets(tenantTickets);
+      setProperties(rented);
+    } catch (error) {
+      handleError(error, toast, 'Failed to load maintenance requests', { context: 'MaintenanceRequests' });
+    } finally {
+      setLoading(false);
+    }
+  }, [profile, toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const openForm = () => {
+    setForm({ ...emptyForm, propertyId: properties.length === 1 ? properties[0].id : '' });
+    setShowForm(true);
+  };
+
+  const handlePhotosChange = (files: FileList | null) => {
+    if (!files) return;
+    try {
+      const selected = Array.from(files);
+      if (form.photos.length + selected.length > MAX_PHOTOS) {
+        throw new ValidationError(`You can attach up to ${MAX_PHOTOS} photos.`);
+      }
+      const tooLarge = selected.find(file => file.size > MAX_PHOTO_SIZE);
+      if (tooLarge) {
+        throw new ValidationError(`"${tooLarge.name}" is larger than 5MB.`);
+      }
+      setForm(prev => ({ ...prev, photos: [...prev.photos, ...selected] }));
+    } catch (error) {
+      handleError(error, toast);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!profile) return;
+
+    setSubmitting(true);
+    try {
+      await MaintenanceService.createTicket(profile.id, form);
+      toast({ title: 'Request submitted', description: 'Your landlord has been notified.' });
+      setShowForm(false);
+      fetchData();
+    } catch (error) {
+      handleError(error, toast, 'Failed to submit maintenance request', { context: 'MaintenanceRequests' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (ticket: MaintenanceTicketWithDetails) => {
+    if (!window.confirm('Withdraw this maintenance request?')) return;
+
+    try {
+      const updated = await MaintenanceService.cancelTicket(ticket.id);
+      setTickets(prev => prev.map(t => (t.id === ticket.id ? { ...t, ...updated } : t)));
+      toast({ title: 'Request withdrawn' });
+    } catch (error) {
+      handleError(error, toast, 'Failed to withdraw request', { context: 'MaintenanceRequests' });
+    }
+  };
+
+  const canSubmit = form.propertyId && form.title.trim() && form.description.trim() && !submitting;
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="max-w-5xl mx-auto py-10 px-4">
+          <div className="text-center py-20">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading maintenance requests...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto py-10 px-4">
+        {/* Header */}
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Maintenance Requests</h1>
+            <p className="text-gray-600 mt-1">Report problems with your rented home and follow the repairs</p>
+          </div>
+          <Button onClick={openForm} disabled={properties.length === 0} className="w-fit">
+            <Plus className="h-4 w-4 mr-2" />
+            New Request
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Requests ({tickets.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {tickets.length === 0 ? (
+              <div className="text-center py-12">
+                <Wrench className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No maintenance requests</h3>
+                <p className="text-gray-600">
+                  {properties.length === 0
+                    ? 'Requests can be filed once you are renting a property through the platform.'
+                    : 'Something broken? Let your landlord know with a new request.'}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {tickets.map(ticket => (
+                  <div key={ticket.id} className="border rounded-lg p-5 space-y-3">
+                    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900">{ticket.title}</h3>
+                        <div className="flex items-center text-gray-600 text-sm mt-1">
+                          <MapPin className="h-4 w-4 mr-1" />
+                          {ticket.property?.title}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{MAINTENANCE_CATEGORY_LABELS[ticket.category]}</Badge>
+                        <Badge variant="outline">{MAINTENANCE_PRIORITY_LABELS[ticket.priority]}</Badge>
+                        <Badge className={getStatusBadgeClass(ticket.status)}>
+                          {MAINTENANCE_STATUS_LABELS[ticket.status]}
+                        </Badge>
+                      </div>
+                    </div>
+
+                    <p className="text-gray-700 text-sm whitespace-pre-line">{ticket.description}</p>
+                    <MaintenancePhotos paths={ticket.photo_paths} />
+
+                    {ticket.assigned_to && (
+                      <p className="text-sm text-gray-600 flex items-center">
+                        <User className="h-4 w-4 mr-1" />
+                        Assigned to {ticket.assigned_to}
+                        {ticket.assigned_contact && ` (${ticket.assigned_contact})`}
+                      </p>
+                    )}
+                    {ticket.resolution_notes && (
+                      <p className="text-sm text-gray-600">
+                        <span className="font-medium text-gray-700">Landlord notes:</span> {ticket.resolution_notes}
+                      </p>
+                    )}
+
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span>
+                        Reported {new Date(ticket.created_at).toLocaleDateString()}
+                        {ticket.completed_at && ` • Completed ${new Date(ticket.completed_at).toLocaleDateString()}`}
+                      </span>
+                      {ticket.status === 'open' && (
+                        <Button size="sm" variant="ghost" className="text-red-600" onClick={() => handleCancel(ticket)}>
+                          Withdraw
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Maintenance Request</DialogTitle>
+            <DialogDescription>Describe the problem so your landlord can arrange a repair.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select value={form.propertyId} onValueChange={(value) => setForm({ ...form, propertyId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {properties.map(property => (
+                    <SelectItem key={property.id} value={property.id}>{property.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ticket-title">What's the problem?</Label>
+              <Input
+                id="ticket-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="e.g. Kitchen sink is leaking"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={form.category}
+                  onValueChange={(value) => setForm({ ...form, category: value as MaintenanceCategory })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(MAINTENANCE_CATEGORY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Urgency</Label>
+                <Select
+                  value={form.priority}
+                  onValueChange={(value) => setForm({ ...form, priority: value as MaintenancePriority })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(MAINTENANCE_PRIORITY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ticket-description">Details</Label>
+              <Textarea
+                id="ticket-description"
+                rows={4}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="When did it start, where exactly is it, and what have you noticed?"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ticket-photos">Photos (up to {MAX_PHOTOS})</Label>
+              <Input
+                id="ticket-photos"
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                multiple
+                onChange={(e) => {
+                  handlePhotosChange(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              {form.photos.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {form.photos.map((photo, index) => (
+                    <Badge key={index} variant="secondary" className="gap-1">
+                      {photo.name}
+                      <button
+                        type="button"
+                        className="ml-1 text-gray-500 hover:text-red-600"
+                        onClick={() => setForm({ ...form, photos: form.photos.filter((_, i) => i !== index) })}
+                      >
+                        ×
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={!canSubmit}>
+              {submitting ? 'Submitting...' : 'Submit Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+};
+
+export default MaintenanceRequests;
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { MessageCircle, Eye, User, Clock, Home, Search, Filter, ArrowLeft, Building, Phone, Mail, Heart } from "lucide-react";
+import { MessageCircle, Eye, User, Clock, Home, Search, Filter, ArrowLeft, Building, Phone, Mail, Heart, Archive, ArchiveRestore } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
@@ -12,6 +12,7 @@ import LoadingSpinner from "@/components/LoadingSpinner";
 import Layout from "@/components/Layout";
 import { handleError } from "@/utils/errorHandling";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CHAT_ROOM_STATUS_LABELS, ChatService, countUnread, getChatRoomStatus } from "@/services/chatService";
 
 const Messages = () => {
   const [chatRooms, setChatRooms] = useState<any[]>([]);
@@ -72,14 +73,23 @@ const Messages = () => {
       );
     }
 
+    // Archived conversations only show up under their own filter
+    filtered = filtered.filter(room =>
+      statusFilter === "archived" ? getRoomStatus(room) === "archived" : getRoomStatus(room) !== "archived"
+    );
+
     // Status filter
-    if (statusFilter !== "all") {
+    if (statusFilter !== "all" && statusFilter !== "archived") {
       const now = new Date();
       filtered = filtered.filter(room => {
         const lastMessageTime = getLastMessageTime(room);
         const diffInHours = (now.getTime() - lastMessageTime.getTime()) / (1000 * 60 * 60);
         
         switch (statusFilter) {
+          case "unread":
+            return getUnreadCount(room) > 0;
+          case "closed":
+            return getRoomStatus(room) === "closed";
           case "active":
             return diffInHours < 24;
           case "recent":
@@ -100,11 +110,33 @@ const Messages = () => {
       return "No messages yet";
     }
     const lastMessage = room.messages[room.messages.length - 1];
+    if (!lastMessage.content) {
+      const count = lastMessage.attachments?.length || 0;
+      return `Sent ${count} attachment${count === 1 ? "" : "s"}`;
+    }
     return lastMessage.content.length > 60 
       ? lastMessage.content.substring(0, 60) + "..."
       : lastMessage.content;
   };
 
+  const getUnreadCount = (room: { messages?: Parameters<typeof countUnread>[0] }) =>
+    profile ? countUnread(room.messages, profile.id) : 0;
+
+  const getRoomStatus = (room: Parameters<typeof getChatRoomStatus>[0]) =>
+    profile ? getChatRoomStatus(room, profile.id) : "active";
+
+  const handleToggleArchived = async (roomId: string, archive: boolean) => {
+    try {
+      const updated = await ChatService.setArchived(roomId, archive);
+      setChatRooms(prev => prev.map(room => (room.id === roomId ? { ...room, ...updated } : room)));
+      toast({
+        title: archive ? "Conversation archived" : "Conversation moved to your inbox",
+      });
+    } catch (error) {
+      handleError(error, toast, "Failed to update conversation", { context: "Messages" });
+    }
+  };
+
   const getLastMessageTime = (room: any) => {
     if (!room.messages || room.messages.length === 0) {
       return new Date(room.created_at);
@@ -148,6 +180,8 @@ const Messages = () => {
     return { status: "older", color: "bg-gray-400" };
   };
 
+  const totalUnread = chatRooms.reduce((sum, room) => sum + getUnreadCount(room), 0);
+
   const handleBackNavigation = () => {
     if (hasRole('landlord')) {
       navigate('/landlord');
@@ -283,10 +317,13 @@ const Messages = () => {
                     <SelectValue placeholder="Filter by status" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Conversations</SelectItem>
+                    <SelectItem value="all">Inbox</SelectItem>
+                    <SelectItem value="unread">Unread</SelectItem>
                     <SelectItem value="active">Active Today</SelectItem>
                     <SelectItem value="recent">Recent (7 days)</SelectItem>
                     <SelectItem value="older">Older</SelectItem>
+                    <SelectItem value="closed">Closed</SelectItem>
+                    <SelectItem value="archived">Archived</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -322,6 +359,11 @@ const Messages = () => {
                   {filteredRooms.length}
                 </Badge>
               )}
+              {totalUnread > 0 && (
+                <Badge variant="destructive" className="ml-2">
+                  {totalUnread} unread
+                </Badge>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -381,11 +423,15 @@ const Messages = () => {
                   const userRole = getUserRole(room);
                   const lastMessageTime = getLastMessageTime(room);
                   const messageStatus = getMessageStatus(room);
+                  const unreadCount = getUnreadCount(room);
+                  const roomStatus = getRoomStatus(room);
                   
                   return (
                     <div
                       key={room.id}
-                      className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-all duration-200 hover:shadow-md"
+                      className={`flex items-center justify-between p-4 border rounded-lg transition-all duration-200 hover:shadow-md ${
+                        unreadCount > 0 ? "bg-blue-50 border-blue-200" : "hover:bg-gray-50"
+                      }`}
                     >
                       <div className="flex items-center space-x-4 flex-1">
                         {/* Status Indicator */}
@@ -401,6 +447,16 @@ const Messages = () => {
                               {room.properties?.title || 'Property'}
                             </h3>
                             <div className="flex items-center space-x-2">
+                              {unreadCount > 0 && (
+                                <Badge variant="destructive" className="text-xs">
+                                  {unreadCount} new
+                                </Badge>
+                              )}
+                              {roomStatus !== "active" && (
+                                <Badge variant="outline" className="text-xs">
+                                  {CHAT_ROOM_STATUS_LABELS[roomStatus]}
+                                </Badge>
+                              )}
                               <Badge variant={userRole === 'landlord' ? 'default' : 'secondary'} className="text-xs">
                                 {userRole === 'landlord' ? 'As Landlord' : 'As Renter'}
                               </Badge>
@@ -467,6 +523,18 @@ const Messages = () => {
                             Open Chat
                           </Button>
                         </Link>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          aria-label={roomStatus === "archived" ? "Move to inbox" : "Archive conversation"}
+                          onClick={() => handleToggleArchived(room.id, roomStatus !== "archived")}
+                        >
+                          {roomStatus === "archived" ? (
+                            <ArchiveRestore className="w-4 h-4" />
+                          ) : (
+                            <Archive className="w-4 h-4" />
+                          )}
+                        </Button>
                       </div>
                     </div>
                   );
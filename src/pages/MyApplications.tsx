@@ -12,6 +12,8 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import LeaseAgreementDialog from '@/components/LeaseAgreementDialog';
+import { LeaseService, LeaseWithParties, LEASE_STATUS_LABELS } from '@/services/leaseService';
 import { 
   FileText, 
   Calendar, 
@@ -24,7 +26,8 @@ import {
   MessageSquare,
   Search,
   Filter,
-  RefreshCw
+  RefreshCw,
+  FileSignature
 } from 'lucide-react';
 
 interface ApplicationWithProperty {
@@ -60,6 +63,8 @@ const MyApplications = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [refreshing, setRefreshing] = useState(false);
+  const [leases, setLeases] = useState<Record<string, LeaseWithParties>>({});
+  const [activeLease, setActiveLease] = useState<LeaseWithParties | null>(null);
 
   useEffect(() => {
     fetchApplications();
@@ -147,6 +152,9 @@ const MyApplications = () => {
 
       if (error) throw error;
       setApplications(data || []);
+
+      const tenantLeases = await LeaseService.getByTenant(profile.id);
+      setLeases(Object.fromEntries(tenantLeases.map(lease => [lease.application_id, lease])));
     } catch (error: any) {
       toast({
         title: "Error",
@@ -230,6 +238,11 @@ const MyApplications = () => {
     navigate(`/payment/${applicationId}`);
   };
 
+  const handleLeaseUpdated = (lease: LeaseWithParties) => {
+    setLeases(prev => ({ ...prev, [lease.application_id]: lease }));
+    setActiveLease(lease);
+  };
+
   if (loading) {
     return (
       <Layout>
@@ -433,6 +446,20 @@ const MyApplications = () => {
                           )}
                         </div>
 
+                        {/* Lease */}
+                        {leases[app.id] && (
+                          <div className="flex items-center gap-2 text-sm">
+                            <FileSignature className="h-4 w-4 text-gray-500" />
+                            <span className="font-medium text-gray-700">Lease:</span>
+                            <Badge variant={leases[app.id].status === 'signed' ? 'default' : 'secondary'}>
+                              {LEASE_STATUS_LABELS[leases[app.id].status]}
+                            </Badge>
+                            {leases[app.id].status !== 'signed' && app.status === 'application_approved' && (
+                              <span className="text-gray-500">Both you and the landlord must sign before payment.</span>
+                            )}
+                          </div>
+                        )}
+
                         {/* Rejection Reason */}
                         {app.status === 'application_rejected' && app.rejection_reason && (
                           <div className="bg-red-50 border border-red-200 rounded-lg p-3">
@@ -482,7 +509,18 @@ const MyApplications = () => {
                             Contact Landlord
                           </Button>
                           
-                          {app.status?.replace('application_', '') === 'approved' && (
+                          {leases[app.id] && (
+                            <Button
+                              variant={leases[app.id].tenant_signed_at ? 'outline' : 'default'}
+                              size="sm"
+                              onClick={() => setActiveLease(leases[app.id])}
+                            >
+                              <FileSignature className="h-4 w-4 mr-2" />
+                              {leases[app.id].tenant_signed_at ? 'View Lease' : 'Review & Sign Lease'}
+                            </Button>
+                          )}
+
+                          {app.status?.replace('application_', '') === 'approved' && leases[app.id]?.status === 'signed' && (
                             <Button
                               size="sm"
                               onClick={() => handlePayment(app.id)}
@@ -502,6 +540,13 @@ const MyApplications = () => {
           </CardContent>
         </Card>
       </div>
+
+      <LeaseAgreementDialog
+        lease={activeLease}
+        open={!!activeLease}
+        onOpenChange={(open) => !open && setActiveLease(null)}
+        onUpdated={handleLeaseUpdated}
+      />
     </Layout>
   );
 };
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -19,6 +19,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RENT_INTERVAL_LABELS, getInstallmentAmount } from "@/services/rentScheduleService";
 import { ArrowLeft, Home, X, CheckCircle, AlertCircle } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase, HouseDocument } from "@/lib/supabase";
@@ -27,12 +28,17 @@ import { useLoadingState } from "@/hooks/useLoadingState";
 import { handleError, handleSuccess } from "@/utils/errorHandling";
 import UnifiedImageUpload from "@/components/UnifiedImageUpload";
 import HouseDocumentUpload from "@/components/HouseDocumentUpload";
+import AddressPicker from "@/components/AddressPicker";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import Layout from "@/components/Layout";
 import { Link } from "react-router-dom";
-import { Json } from '@/integrations/supabase/types';
+import { Json, PropertyType } from '@/integrations/supabase/types';
+import { usePlatformSettings } from "@/hooks/usePlatformSettings";
+import { PlatformSettings } from "@/services/platformSettingsService";
+import { PROPERTY_TYPES, PROPERTY_TYPE_LABELS } from "@/services/propertySearchService";
+import { PropertyAddress, formatAddress, toPropertyAddressFields } from "@/services/geocodingService";
 
-const propertySchema = z.object({
+const createPropertySchema = (settings: PlatformSettings, formatPrice: (amount: number) => string) => z.object({
   title: z.string()
     .min(5, "Property title must be at least 5 characters")
     .max(100, "Property title must be less than 100 characters"),
@@ -40,8 +46,8 @@ const propertySchema = z.object({
     .min(20, "Description must be at least 20 characters")
     .max(1000, "Description must be less than 1000 characters"),
   price: z.number()
-    .min(1000, "Price must be at least ₦1,000")
-    .max(10000000, "Price must be less than ₦10,000,000"),
+    .min(settings.listing_min_price, `Price must be at least ${formatPrice(settings.listing_min_price)}`)
+    .max(settings.listing_max_price, `Price must be less than ${formatPrice(settings.listing_max_price)}`),
   location: z.string()
     .min(3, "Location is required")
     .max(100, "Location must be less than 100 characters"),
@@ -53,22 +59,28 @@ const propertySchema = z.object({
     .min(0, "Bathrooms cannot be negative")
     .max(20, "Bathrooms must be less than 20")
     .optional(),
-  status: z.enum(['active', 'pending']),
+  rent_interval: z.enum(['monthly', 'quarterly', 'annually']),
+  property_type: z.enum(PROPERTY_TYPES as [PropertyType, ...PropertyType[]], {
+    required_error: "Select a property type",
+  }),
 });
 
-type PropertyFormData = z.infer<typeof propertySchema>;
+type PropertyFormData = z.infer<ReturnType<typeof createPropertySchema>>;
 
 const NewListing = () => {
   const [imageUrls, setImageUrls] = useState<string[]>([]);
   const [houseDocuments, setHouseDocuments] = useState<HouseDocument[]>([]);
   const [amenities, setAmenities] = useState<string[]>([]);
   const [newAmenity, setNewAmenity] = useState('');
+  const [address, setAddress] = useState<PropertyAddress>({});
   const [formProgress, setFormProgress] = useState(0);
   
   const { loading, withLoading } = useLoadingState();
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { settings, formatPrice } = usePlatformSettings();
+  const propertySchema = useMemo(() => createPropertySchema(settings, formatPrice), [settings, formatPrice]);
 
   const form = useForm<PropertyFormData>({
     resolver: zodResolver(propertySchema),
@@ -80,7 +92,8 @@ const NewListing = () => {
       location: "",
       bedrooms: undefined,
       bathrooms: undefined,
-      status: 'pending',
+      rent_interval: 'annually',
+      property_type: undefined,
     },
   });
 
@@ -89,7 +102,7 @@ const NewListing = () => {
 
   // Calculate form completion progress
   useEffect(() => {
-    const requiredFields = ['title', 'description', 'price', 'location'];
+    const requiredFields = ['title', 'description', 'price', 'location', 'property_type'];
     const optionalFields = ['bedrooms', 'bathrooms'];
     
     let completedRequired = 0;
@@ -139,6 +152,15 @@ const NewListing = () => {
     setAmenities(amenities.filter(a => a !== amenity));
   };
 
+  // Keep the location label in step with the address until the landlord writes their own
+  const handleAddressChange = (next: PropertyAddress) => {
+    const currentLocation = form.getValues('location').trim();
+    if (!currentLocation || currentLocation === formatAddress(address)) {
+      form.setValue('location', formatAddress(next), { shouldValidate: true, shouldDirty: true });
+    }
+    setAddress(next);
+  };
+
   // Helper function to convert HouseDocument[] to Json
   const serializeHouseDocuments = (docs: HouseDocument[]): Json => {
     return docs.map(doc => ({
@@ -166,15 +188,28 @@ const NewListing = () => {
       return;
     }
 
+    if (!address.state) {
+      toast({
+        title: "Address Required",
+        description: "Please choose the state the property is in.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     await withLoading(async () => {
       const propertyData = {
         title: data.title,
         description: data.description,
         price: data.price,
         location: data.location,
+        ...toPropertyAddressFields(address),
         bedrooms: data.bedrooms || null,
         bathrooms: data.bathrooms || null,
-        status: data.status || 'pending',
+        property_type: data.property_type,
+        // The database decides whether the listing skips review
+        status: 'pending',
+        rent_interval: data.rent_interval,
         photo_url: imageUrls[0] || null,
         photo_urls: imageUrls.length > 0 ? imageUrls : null,
         amenities: amenities.length > 0 ? amenities : null,
@@ -190,7 +225,12 @@ const NewListing = () => {
 
       if (error) throw error;
 
-      handleSuccess(toast, "Property listing created successfully!");
+      handleSuccess(
+        toast,
+        property.status === 'active'
+          ? "Property listing created and is now live!"
+          : "Property listing submitted for review."
+      );
       navigate("/landlord");
     });
   };
@@ -322,7 +362,7 @@ const NewListing = () => {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel className="flex items-center justify-between">
-                            Annual Rent (₦) *
+                            Annual Rent ({settings.default_currency}) *
                             {getFieldIcon("price")}
                           </FormLabel>
                           <FormControl>
@@ -337,7 +377,7 @@ const NewListing = () => {
                           <FormDescription>
                             {field.value > 0 && (
                               <span className="text-green-600">
-                                ≈ ₦{Math.round(field.value / 12).toLocaleString()}/month
+                                ≈ {formatPrice(Math.round(field.value / 12))}/month
                               </span>
                             )}
                           </FormDescription>
@@ -370,6 +410,50 @@ const NewListing = () => {
                       )}
                     />
                   </div>
+
+                  <FormField
+                    control={form.control}
+                    name="rent_interval"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Rent Collection</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(RENT_INTERVAL_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          {watchedValues.price > 0 && watchedValues.rent_interval !== 'annually' && (
+                            <span className="text-green-600">
+                              Tenants pay {formatPrice(getInstallmentAmount(watchedValues.price, watchedValues.rent_interval))} per {watchedValues.rent_interval === 'monthly' ? 'month' : 'quarter'}
+                            </span>
+                          )}
+                          {watchedValues.rent_interval === 'annually' && 'Tenants pay the full annual rent once a year'}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Address */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    Address
+                    <Badge variant="outline" className="ml-2 text-red-600">Required</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AddressPicker value={address} onChange={handleAddressChange} />
                 </CardContent>
               </Card>
 
@@ -379,6 +463,30 @@ const NewListing = () => {
                   <CardTitle>Property Details</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="property_type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Property Type *</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select property type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {PROPERTY_TYPES.map(type => (
+                              <SelectItem key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Renters can filter search results by type</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                     <FormField
                       control={form.control}
@@ -423,27 +531,14 @@ const NewListing = () => {
                       )}
                     />
 
-                    <FormField
-                      control={form.control}
-                      name="status"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Status</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              <SelectItem value="pending">Pending Review</SelectItem>
-                              <SelectItem value="active">Active</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <FormDescription>
+                        {settings.auto_approve_threshold !== null
+                          ? `Complete listings (quality score ${settings.auto_approve_threshold}+) go live immediately; others are reviewed by our team first.`
+                          : 'New listings are reviewed by our team before they go live.'}
+                      </FormDescription>
+                    </FormItem>
                   </div>
 
                   {/* Amenities */}
@@ -500,7 +595,7 @@ const NewListing = () => {
                     onImagesUploaded={setImageUrls}
                     currentImageUrls={imageUrls}
                     bucket="property-images"
-                    maxImages={10}
+                    maxImages={settings.listing_max_images}
                   />
                   <FormDescription className="mt-3">
                     Upload high-quality photos to attract more renters. First image will be the main display photo.
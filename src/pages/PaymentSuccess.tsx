@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
+import { PaymentService, PaymentIntent } from '@/services/paymentService';
 import Layout from '@/components/Layout';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import { 
@@ -19,7 +20,10 @@ import {
   Download,
   MessageSquare,
   ArrowRight,
-  DollarSign
+  DollarSign,
+  Clock,
+  XCircle,
+  RefreshCw
 } from 'lucide-react';
 
 interface PaymentDetails {
@@ -53,11 +57,26 @@ const PaymentSuccess = () => {
   const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [paymentDetails, setPaymentDetails] = useState<PaymentDetails | null>(null);
+  const [intent, setIntent] = useState<PaymentIntent | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Paystack appends both `reference` and `trxref` to the callback URL
+  const reference = searchParams.get('reference') || searchParams.get('trxref');
 
   useEffect(() => {
     fetchPaymentDetails();
-  }, [applicationId]);
+  }, [applicationId, reference]);
+
+  // Payments still being processed may be settled later by the provider webhook
+  const pendingReference = intent && ['pending', 'processing'].includes(intent.status) ? intent.reference : null;
+
+  useEffect(() => {
+    if (!pendingReference) return;
+
+    const channel = PaymentService.subscribeToIntent(pendingReference, setIntent);
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [pendingReference]);
 
   const fetchPaymentDetails = async () => {
     if (!applicationId) {
@@ -101,18 +120,18 @@ const PaymentSuccess = () => {
 
       setPaymentDetails(data);
 
-      // Update application status to payment_completed if not already
-      if (data.status !== 'payment_completed') {
-        const { error: updateError } = await supabase
-          .from('rental_applications')
-          .update({ status: 'payment_completed' })
-          .eq('id', applicationId);
+      // The server verifies the reference with the provider; the application is
+      // only marked as paid once the provider has confirmed the charge.
+      const latestIntent = reference
+        ? await PaymentService.confirm(reference)
+        : await PaymentService.getLatestIntent(applicationId);
 
-        if (updateError) {
-          console.error('Failed to update application status:', updateError);
-        }
+      if (!latestIntent) {
+        throw new Error('No payment was found for this application');
       }
 
+      setIntent(latestIntent);
+
     } catch (err: any) {
       setError(err.message);
       toast({
@@ -149,6 +168,7 @@ const PaymentSuccess = () => {
       =====================
       
       Application ID: ${paymentDetails.id}
+      Payment Reference: ${intent?.reference}
       Property: ${paymentDetails.property.title}
       Location: ${paymentDetails.property.location}
       
@@ -163,8 +183,8 @@ const PaymentSuccess = () => {
       Phone: ${paymentDetails.property.profiles.phone || 'Not provided'}
       
       Payment Details:
-      Amount: ₦${paymentDetails.rent_amount.toLocaleString()}
-      Date: ${new Date().toLocaleDateString()}
+      Amount: ₦${Number(intent?.amount ?? paymentDetails.rent_amount).toLocaleString()}
+      Date: ${new Date(intent?.confirmed_at ?? Date.now()).toLocaleDateString()}
       Status: Completed
       
       Thank you for using LandlordNoAgent!
@@ -191,7 +211,7 @@ const PaymentSuccess = () => {
     );
   }
 
-  if (error || !paymentDetails) {
+  if (error || !paymentDetails || !intent) {
     return (
       <Layout>
         <div className="max-w-2xl mx-auto py-20 px-4 text-center">
@@ -207,6 +227,53 @@ const PaymentSuccess = () => {
     );
   }
 
+  if (intent.status !== 'succeeded') {
+    const isFailed = ['failed', 'cancelled', 'refund_required'].includes(intent.status);
+    const isRefund = intent.status === 'refund_required';
+
+    return (
+      <Layout>
+        <div className="max-w-2xl mx-auto py-20 px-4 text-center">
+          <div className={`${isFailed ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'} border rounded-lg p-8`}>
+            <div className="flex justify-center mb-4">
+              {isFailed
+                ? <XCircle className="h-12 w-12 text-red-600" />
+                : <Clock className="h-12 w-12 text-yellow-600" />}
+            </div>
+            <h1 className={`text-2xl font-bold mb-4 ${isFailed ? 'text-red-800' : 'text-yellow-800'}`}>
+              {isRefund ? 'Payment Will Be Refunded' : isFailed ? 'Payment Not Completed' : 'Confirming Your Payment'}
+            </h1>
+            <p className={`mb-6 ${isFailed ? 'text-red-600' : 'text-yellow-700'}`}>
+              {isRefund
+                ? 'This application had already been paid, so this charge will be refunded to you.'
+                : isFailed
+                ? intent.failure_reason || 'Your payment was not completed. No money was taken.'
+                : 'We are waiting for the payment provider to confirm your payment. This page will update automatically.'}
+            </p>
+            <p className="text-gray-500 text-sm mb-6">
+              Reference: <span className="font-mono">{intent.reference}</span>
+            </p>
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              {isRefund ? null : isFailed ? (
+                <Button onClick={() => navigate(`/payment/${paymentDetails.id}`)}>
+                  Try Again
+                </Button>
+              ) : (
+                <Button onClick={fetchPaymentDetails} className="flex items-center gap-2">
+                  <RefreshCw className="h-4 w-4" />
+                  Check Again
+                </Button>
+              )}
+              <Button onClick={handleViewApplications} variant="outline">
+                View My Applications
+              </Button>
+            </div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
   return (
     <Layout>
       <div className="max-w-4xl mx-auto py-10 px-4">
@@ -224,6 +291,9 @@ const PaymentSuccess = () => {
           <p className="text-gray-500">
             Application ID: <span className="font-mono text-sm">{paymentDetails.id}</span>
           </p>
+          <p className="text-gray-500">
+            Payment Reference: <span className="font-mono text-sm">{intent.reference}</span>
+          </p>
         </div>
 
         {/* Payment Summary */}
@@ -240,12 +310,12 @@ const PaymentSuccess = () => {
                 <div>
                   <label className="text-sm font-medium text-gray-600">Amount Paid</label>
                   <p className="text-2xl font-bold text-green-600">
-                    ₦{paymentDetails.rent_amount.toLocaleString()}
+                    ₦{Number(intent.amount).toLocaleString()}
                   </p>
                 </div>
                 <div>
                   <label className="text-sm font-medium text-gray-600">Payment Date</label>
-                  <p className="text-gray-900">{new Date().toLocaleDateString()}</p>
+                  <p className="text-gray-900">{new Date(intent.confirmed_at ?? Date.now()).toLocaleDateString()}</p>
                 </div>
                 <div>
                   <label className="text-sm font-medium text-gray-600">Payment Status</label>
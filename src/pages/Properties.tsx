@@ -1,10 +1,10 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { Link } from "react-router-dom";
+import { Link, useLocation, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
-import { Search, MapPin, Home, Bed, Bath, Heart, ChevronLeft, ChevronRight, MessageCircle } from "lucide-react";
+import { Search, MapPin, Home, Bed, Bath, Heart, ChevronLeft, ChevronRight, MessageCircle, BellRing, List, Map as MapIcon, Crosshair, X } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useSavedProperties } from "@/hooks/useSavedProperties";
 import { supabase, Property } from "@/lib/supabase";
@@ -14,6 +14,18 @@ import { useLoadingState } from "@/hooks/useLoadingState";
 import { handleError } from "@/utils/errorHandling";
 import { useToast } from "@/hooks/use-toast";
 import EnhancedSearch from "@/components/EnhancedSearch";
+import SaveSearchDialog from "@/components/SaveSearchDialog";
+import {
+  EMPTY_SEARCH_FILTERS,
+  PropertySearchFilters,
+  PropertySearchService,
+  SEARCH_RADIUS_OPTIONS,
+  SearchBounds,
+  SearchNear,
+} from "@/services/propertySearchService";
+import { GeocodingService } from "@/services/geocodingService";
+import PropertyMap from "@/components/PropertyMap";
+import { Badge } from "@/components/ui/badge";
 import ImprovedPropertyCard from "@/components/ImprovedPropertyCard";
 import MobileOptimizedPropertyCard from "@/components/MobileOptimizedPropertyCard";
 import ResponsiveGrid from "@/components/ResponsiveGrid";
@@ -25,205 +37,137 @@ const Properties = () => {
   const [properties, setProperties] = useState<Property[]>([]);
   const [chatRooms, setChatRooms] = useState<any[]>([]);
   const { loading, setLoading } = useLoadingState();
-  const [locationFilter, setLocationFilter] = useState("");
-  const [propertyTypeFilter, setPropertyTypeFilter] = useState("all");
-  const [priceRangeFilter, setPriceRangeFilter] = useState("all");
-  const [bedroomsFilter, setBedroomsFilter] = useState("all");
-  const [bathroomsFilter, setBathroomsFilter] = useState("");
-  const [amenitiesFilter, setAmenitiesFilter] = useState<string[]>([]);
-  const [filteredProperties, setFilteredProperties] = useState<Property[]>([]);
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Saved searches open here with their filters in the navigation state; area links pass ?location=
+  const [initialFilters] = useState<PropertySearchFilters | undefined>(() => {
+    const savedSearch = (location.state as { savedSearch?: PropertySearchFilters } | null)?.savedSearch;
+    const locationParam = searchParams.get('location');
+    return savedSearch || (locationParam ? { ...EMPTY_SEARCH_FILTERS, location: locationParam } : undefined);
+  });
+  const [searchFilters, setSearchFilters] = useState<PropertySearchFilters>(initialFilters || EMPTY_SEARCH_FILTERS);
+  const [near, setNear] = useState<SearchNear | undefined>(initialFilters?.near);
+  const [bounds, setBounds] = useState<SearchBounds | undefined>(initialFilters?.bounds);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>(initialFilters?.bounds ? 'map' : 'list');
+  const [locating, setLocating] = useState(false);
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
-  const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
   const [totalCount, setTotalCount] = useState(0);
-  const propertiesPerPage = 15;
+  const [initialLoad, setInitialLoad] = useState(true);
+  // The map shows a bigger page so more pins are visible at once
+  const propertiesPerPage = viewMode === 'map' ? 100 : 15;
   const { profile } = useAuth();
   const { savedProperties, toggleSavedProperty } = useSavedProperties();
   const { toast } = useToast();
-  const [comparedProperties, setComparedProperties] = useState<string[]>([]);
+  const [comparedProperties, setComparedProperties] = useState<Property[]>([]);
   const [compareModalOpen, setCompareModalOpen] = useState(false);
+  const totalPages = Math.max(1, Math.ceil(totalCount / propertiesPerPage));
 
-  // Debounce search query to improve performance
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setDebouncedSearchQuery(searchQuery);
-    }, 300);
-
-    return () => clearTimeout(timer);
-  }, [searchQuery]);
-
-  useEffect(() => {
-    fetchProperties();
-  }, []);
-
-  // Memoized filtering for better performance
-  const filteredPropertiesMemo = useMemo(() => {
-    let filtered = properties;
-
-    // Search query filter
-    if (debouncedSearchQuery) {
-      const query = debouncedSearchQuery.toLowerCase();
-      filtered = filtered.filter(property =>
-        property.title?.toLowerCase().includes(query) ||
-        property.location?.toLowerCase().includes(query) ||
-        property.description?.toLowerCase().includes(query)
-      );
-    }
-
-    if (locationFilter) {
-      const location = locationFilter.toLowerCase();
-      filtered = filtered.filter(property =>
-        property.location?.toLowerCase().includes(location)
-      );
-    }
-
-    if (propertyTypeFilter && propertyTypeFilter !== "all") {
-      if (propertyTypeFilter === "studio") {
-        filtered = filtered.filter(property => !property.bedrooms || property.bedrooms === 0);
-      } else if (propertyTypeFilter === "apartment") {
-        filtered = filtered.filter(property => property.bedrooms && property.bedrooms >= 1 && property.bedrooms <= 3);
-      } else if (propertyTypeFilter === "house") {
-        filtered = filtered.filter(property => property.bedrooms && property.bedrooms >= 3);
-      }
-    }
-
-    if (priceRangeFilter && priceRangeFilter !== "all") {
-      const [min, max] = priceRangeFilter.split('-').map(Number);
-      filtered = filtered.filter(property => {
-        if (max) {
-          return property.price >= min && property.price <= max;
-        } else {
-          return property.price >= min;
-        }
-      });
-    }
-
-    if (bedroomsFilter && bedroomsFilter !== "all") {
-      if (bedroomsFilter === "studio") {
-        filtered = filtered.filter(property => !property.bedrooms || property.bedrooms === 0);
-      } else {
-        const bedrooms = parseInt(bedroomsFilter);
-        filtered = filtered.filter(property => property.bedrooms === bedrooms);
-      }
-    }
-
-    // Bathrooms filter
-    if (bathroomsFilter && bathroomsFilter !== "") {
-      const bathrooms = parseInt(bathroomsFilter);
-      if (!isNaN(bathrooms)) {
-        filtered = filtered.filter(property => (property.bathrooms || 0) >= bathrooms);
-      }
-    }
-
-    // Amenities filter
-    if (amenitiesFilter && amenitiesFilter.length > 0) {
-      filtered = filtered.filter(property => {
-        if (!property.amenities || !Array.isArray(property.amenities)) return false;
-        return amenitiesFilter.every(amenity => property.amenities.includes(amenity));
-      });
+  // Filtering, ranking and paging all run in the database so totals match the real result set
+  const fetchProperties = useCallback(async (filters: PropertySearchFilters, page: number, pageSize: number) => {
+    try {
+      setLoading(true);
+      const result = await PropertySearchService.search(filters, page, pageSize);
+      setProperties(result.properties);
+      setTotalCount(result.total);
+    } catch (error) {
+      handleError(error, toast, 'Error fetching properties');
+      setProperties([]);
+      setTotalCount(0);
+    } finally {
+      setLoading(false);
+      setInitialLoad(false);
     }
+  }, [setLoading, toast]);
+
+  // The search box owns keyword and filters; the map area and "near me" point are layered on here
+  const effectiveFilters = useMemo<PropertySearchFilters>(() => ({
+    ...searchFilters,
+    bounds,
+    near,
+    // Closest first reads best for "near me" unless the renter picked a price or popularity order
+    sortBy: near && (!searchFilters.sortBy || searchFilters.sortBy === 'relevance' || searchFilters.sortBy === 'newest')
+      ? 'distance'
+      : searchFilters.sortBy,
+  }), [searchFilters, bounds, near]);
 
-    return filtered;
-  }, [properties, debouncedSearchQuery, locationFilter, propertyTypeFilter, priceRangeFilter, bedroomsFilter, bathroomsFilter, amenitiesFilter]);
+  useEffect(() => {
+    fetchProperties(effectiveFilters, currentPage, propertiesPerPage);
+  }, [fetchProperties, effectiveFilters, currentPage, propertiesPerPage]);
 
-  // Update filtered properties when memo changes
+  // Fetch chat rooms for authenticated users (separate query for performance)
   useEffect(() => {
-    setFilteredProperties(filteredPropertiesMemo);
-    setCurrentPage(1);
-  }, [filteredPropertiesMemo]);
+    if (!profile) return;
 
-  const fetchProperties = async (page: number = 1, pageSize: number = 20) => {
-    try {
-      setLoading(true);
-      
-      const from = (page - 1) * pageSize;
-      const to = from + pageSize - 1;
-      
-      // Optimized property fetch with pagination and minimal data
-      const { data, error, count } = await supabase
-        .from('properties')
+    const fetchChatRooms = async () => {
+      const { data, error } = await supabase
+        .from('chat_rooms')
         .select(`
-          *,
-          profiles!properties_landlord_id_fkey (
+          id,
+          property_id,
+          landlord_id,
+          renter_id,
+          created_at,
+          properties!chat_rooms_property_id_fkey (
             id,
-            full_name,
-            email,
-            avatar_url
+            title,
+            price,
+            location
           )
-        `, { count: 'exact' })
-        .eq('status', 'active')
-        .range(from, to)
-        .order('created_at', { ascending: false });
+        `)
+        .eq('renter_id', profile.id)
+        .order('created_at', { ascending: false })
+        .limit(10); // Limit recent chat rooms
+
+      if (error) {
+        handleError(error, toast, 'Error fetching conversations');
+        setChatRooms([]);
+        return;
+      }
+      setChatRooms(data || []);
+    };
 
-      if (error) throw error;
-      
-      // Type cast data to Property[] to fix type mismatch with profiles property
-      setProperties((data || []) as Property[]);
-      setTotalCount(count || 0);
+    fetchChatRooms();
+  }, [profile, toast]);
 
-      // Fetch chat rooms for authenticated users (separate query for performance)
-      if (profile) {
-        const { data: chatData, error: chatError } = await supabase
-          .from('chat_rooms')
-          .select(`
-            id,
-            property_id,
-            landlord_id,
-            renter_id,
-            created_at,
-            properties!chat_rooms_property_id_fkey (
-              id,
-              title,
-              price,
-              location
-            )
-          `)
-          .eq('renter_id', profile.id)
-          .order('created_at', { ascending: false })
-          .limit(10); // Limit recent chat rooms
+  const handleSearch = useCallback((filters: PropertySearchFilters) => {
+    setSearchFilters(filters);
+    setCurrentPage(1);
+  }, []);
 
-        if (chatError) throw chatError;
-        setChatRooms(chatData || []);
-      }
-    } catch (error: Error | unknown) {
-      handleError(error, toast, 'Error fetching data');
-      // Initialize with empty arrays on error to maintain valid state
-      setProperties([]);
-      setChatRooms([]);
-      setTotalCount(0);
+  const handleNearMe = useCallback(async (radiusKm: number) => {
+    setLocating(true);
+    try {
+      const position = await GeocodingService.getCurrentPosition();
+      setNear({ ...position, radiusKm });
+      setCurrentPage(1);
+    } catch (error) {
+      handleError(error, toast, 'Could not get your location', { context: 'Properties' });
     } finally {
-      setLoading(false);
+      setLocating(false);
     }
-  };
+  }, [toast]);
 
-  // Enhanced search handlers with useCallback for performance
-  const handleSearch = useCallback((query: string, filters: {
-    location?: string;
-    propertyType?: string;
-    bedrooms?: string;
-    bathrooms?: string;
-    amenities?: string[];
-    priceRange?: [number, number];
-  }) => {
-    setSearchQuery(query);
-    // Apply enhanced filters
-    if (filters.location) setLocationFilter(filters.location);
-    if (filters.propertyType) setPropertyTypeFilter(filters.propertyType);
-    if (filters.bedrooms) setBedroomsFilter(filters.bedrooms);
-    if (filters.bathrooms) setBathroomsFilter(filters.bathrooms);
-    if (filters.amenities) setAmenitiesFilter(filters.amenities);
-    // Handle price range
-    if (filters.priceRange && (filters.priceRange[0] > 0 || filters.priceRange[1] < 5000000)) {
-      setPriceRangeFilter(`${filters.priceRange[0]}-${filters.priceRange[1]}`);
-    }
-  }, []);
+  // "Properties Near Me" links here as /properties?near=me&radius=5
+  useEffect(() => {
+    if (searchParams.get('near') !== 'me') return;
+    const radius = Number(searchParams.get('radius'));
+    handleNearMe(SEARCH_RADIUS_OPTIONS.includes(radius) ? radius : SEARCH_RADIUS_OPTIONS[1]);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, handleNearMe]);
+
+  const handleSearchArea = (area: SearchBounds) => {
+    setBounds(area);
+    setCurrentPage(1);
+  };
 
-  // Handle property selection for comparison
+  // Handle property selection for comparison; whole properties are kept so they survive paging
   const handleCompareChange = (propertyId: string, checked: boolean) => {
     if (checked) {
+      const property = properties.find(p => p.id === propertyId);
+      if (!property) return;
       if (comparedProperties.length < 3) {
-        setComparedProperties([...comparedProperties, propertyId]);
+        setComparedProperties([...comparedProperties, property]);
       } else {
         toast({
           title: "Maximum reached",
@@ -232,7 +176,7 @@ const Properties = () => {
         });
       }
     } else {
-      setComparedProperties(comparedProperties.filter(id => id !== propertyId));
+      setComparedProperties(comparedProperties.filter(p => p.id !== propertyId));
     }
   };
 
@@ -242,7 +186,7 @@ const Properties = () => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  if (loading) {
+  if (initialLoad) {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center">
         <LoadingSpinner size="lg" />
@@ -291,8 +235,8 @@ const Properties = () => {
     </header>
   );
 
-  // Main content component
-  const PropertiesContent = () => (
+  // Rendered inline rather than as a nested component so the search box keeps its state between searches
+  const renderContent = () => (
     <>
       {/* Hero Section - Different for authenticated vs non-authenticated users */}
       {profile ? (
@@ -315,7 +259,7 @@ const Properties = () => {
                   <div className="flex items-center justify-center mb-2">
                     <Search className="w-8 h-8 text-green-600" />
                   </div>
-                  <h3 className="text-2xl font-bold text-gray-900">{properties.length}</h3>
+                  <h3 className="text-2xl font-bold text-gray-900">{totalCount}</h3>
                   <p className="text-gray-600">Properties Available</p>
                 </CardContent>
               </Card>
@@ -371,6 +315,7 @@ const Properties = () => {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <EnhancedSearch 
             onSearch={handleSearch}
+            initialFilters={initialFilters}
             placeholder="Search properties by location, type, or features..."
             showFilters={true}
           />
@@ -384,15 +329,108 @@ const Properties = () => {
           <div className="flex items-center justify-between mb-8">
             <div>
               <h2 className="text-2xl font-bold text-gray-900">
-                {filteredProperties.length} Properties Found
+                {totalCount} {totalCount === 1 ? 'Property' : 'Properties'} Found
               </h2>
               <p className="text-gray-600 mt-1">
                 Showing results for your search criteria
               </p>
             </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex rounded-md border">
+                <Button
+                  variant={viewMode === 'list' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setViewMode('list')}
+                  aria-label="List view"
+                >
+                  <List className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant={viewMode === 'map' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => { setViewMode('map'); setCurrentPage(1); }}
+                  aria-label="Map view"
+                >
+                  <MapIcon className="w-4 h-4" />
+                </Button>
+              </div>
+              {near ? (
+                <Select
+                  value={String(near.radiusKm)}
+                  onValueChange={(value) => { setNear({ ...near, radiusKm: Number(value) }); setCurrentPage(1); }}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEARCH_RADIUS_OPTIONS.map(radius => (
+                      <SelectItem key={radius} value={String(radius)}>Within {radius} km</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Button variant="outline" onClick={() => handleNearMe(SEARCH_RADIUS_OPTIONS[1])} disabled={locating}>
+                  <Crosshair className="w-4 h-4 mr-2" />
+                  {locating ? 'Locating...' : 'Near me'}
+                </Button>
+              )}
+              {profile && (
+                <Button variant="outline" onClick={() => setSaveSearchOpen(true)}>
+                  <BellRing className="w-4 h-4 mr-2" />
+                  Save search
+                </Button>
+              )}
+            </div>
           </div>
 
-          {filteredProperties.length === 0 ? (
+          {(near || bounds) && (
+            <div className="flex flex-wrap gap-2 -mt-4 mb-6">
+              {near && (
+                <Badge variant="secondary" className="flex items-center gap-1 py-1 px-3">
+                  <Crosshair className="w-3 h-3" />
+                  Within {near.radiusKm} km of you
+                  <button
+                    type="button"
+                    onClick={() => { setNear(undefined); setCurrentPage(1); }}
+                    className="ml-1 text-gray-500 hover:text-gray-700"
+                    aria-label="Clear near me"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              )}
+              {bounds && (
+                <Badge variant="secondary" className="flex items-center gap-1 py-1 px-3">
+                  <MapIcon className="w-3 h-3" />
+                  Map area
+                  <button
+                    type="button"
+                    onClick={() => { setBounds(undefined); setCurrentPage(1); }}
+                    className="ml-1 text-gray-500 hover:text-gray-700"
+                    aria-label="Clear map area"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              )}
+            </div>
+          )}
+
+          {/* The map stays mounted while results reload so panning isn't lost */}
+          {viewMode === 'map' ? (
+            <>
+              <PropertyMap properties={properties} onSearchArea={handleSearchArea} fitToResults={!bounds} />
+              {totalCount > properties.length && (
+                <p className="text-sm text-gray-500 mt-2">
+                  Showing the first {properties.length} of {totalCount} matches. Zoom in and search this area to narrow them down.
+                </p>
+              )}
+            </>
+          ) : loading ? (
+            <div className="flex justify-center py-16">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : properties.length === 0 ? (
             <div className="text-center py-16">
               <Home className="w-16 h-16 text-gray-400 mx-auto mb-4" />
               <h3 className="text-xl font-semibold text-gray-900 mb-2">No properties found</h3>
@@ -403,7 +441,7 @@ const Properties = () => {
             <>
               {/* Desktop and Tablet View */}
               <div className="hidden md:grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                {filteredProperties.slice((currentPage - 1) * propertiesPerPage, currentPage * propertiesPerPage).map((property) => (
+                {properties.map((property) => (
                   <ImprovedPropertyCard
                     key={property.id}
                     property={property}
@@ -411,14 +449,14 @@ const Properties = () => {
                     showActions={true}
                     showVirtualTour={false}
                     onCompareChange={handleCompareChange}
-                    isCompared={comparedProperties.includes(property.id)}
+                    isCompared={comparedProperties.some(p => p.id === property.id)}
                   />
                 ))}
               </div>
 
               {/* Mobile View */}
               <div className="md:hidden space-y-4">
-                {filteredProperties.slice((currentPage - 1) * propertiesPerPage, currentPage * propertiesPerPage).map((property) => (
+                {properties.map((property) => (
                   <MobileOptimizedPropertyCard
                     key={property.id}
                     property={property}
@@ -442,10 +480,10 @@ const Properties = () => {
                     <ChevronLeft className="w-4 h-4" />
                   </Button>
                   
-                  {Array.from({ length: Math.ceil(filteredProperties.length / propertiesPerPage) }, (_, i) => i + 1)
+                  {Array.from({ length: totalPages }, (_, i) => i + 1)
                     .filter(page => {
                       const distance = Math.abs(page - currentPage);
-                      return distance <= 2 || page === 1 || page === Math.ceil(filteredProperties.length / propertiesPerPage);
+                      return distance <= 2 || page === 1 || page === totalPages;
                     })
                     .map((page, index, array) => (
                       <div key={page} className="flex items-center">
@@ -466,8 +504,8 @@ const Properties = () => {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => handlePageChange(Math.min(Math.ceil(filteredProperties.length / propertiesPerPage), currentPage + 1))}
-                    disabled={currentPage === Math.ceil(filteredProperties.length / propertiesPerPage)}
+                    onClick={() => handlePageChange(Math.min(totalPages, currentPage + 1))}
+                    disabled={currentPage === totalPages}
                   >
                     <ChevronRight className="w-4 h-4" />
                   </Button>
@@ -487,6 +525,8 @@ const Properties = () => {
         </div>
       </section>
 
+      <SaveSearchDialog filters={effectiveFilters} open={saveSearchOpen} onOpenChange={setSaveSearchOpen} />
+
       {/* Comparison Modal */}
       <Dialog open={compareModalOpen} onOpenChange={setCompareModalOpen}>
         <DialogContent className="max-w-5xl w-full">
@@ -498,14 +538,13 @@ const Properties = () => {
               <thead>
                 <tr>
                   <th className="p-2 border-b">Feature</th>
-                  {comparedProperties.map(id => {
-                    const prop = filteredProperties.find(p => p.id === id) || properties.find(p => p.id === id);
+                  {comparedProperties.map(prop => {
                     return (
-                      <th key={id} className="p-2 border-b text-center">
+                      <th key={prop.id} className="p-2 border-b text-center">
                         <div className="flex flex-col items-center">
                           <img src={prop?.photo_url || '/placeholder.svg'} alt={prop?.title} className="w-24 h-20 object-cover rounded mb-2" />
                           <span className="font-semibold">{prop?.title}</span>
-                          <button className="text-xs text-red-500 mt-1" onClick={() => setComparedProperties(prev => prev.filter(pid => pid !== id))}>Remove</button>
+                          <button className="text-xs text-red-500 mt-1" onClick={() => setComparedProperties(prev => prev.filter(p => p.id !== prop.id))}>Remove</button>
                         </div>
                       </th>
                     );
@@ -515,37 +554,32 @@ const Properties = () => {
               <tbody>
                 <tr>
                   <td className="p-2 font-medium">Price</td>
-                  {comparedProperties.map(id => {
-                    const prop = filteredProperties.find(p => p.id === id) || properties.find(p => p.id === id);
-                    return <td key={id} className="p-2 text-center">₦{prop?.price?.toLocaleString()}</td>;
+                  {comparedProperties.map(prop => {
+                    return <td key={prop.id} className="p-2 text-center">₦{prop?.price?.toLocaleString()}</td>;
                   })}
                 </tr>
                 <tr>
                   <td className="p-2 font-medium">Location</td>
-                  {comparedProperties.map(id => {
-                    const prop = filteredProperties.find(p => p.id === id) || properties.find(p => p.id === id);
-                    return <td key={id} className="p-2 text-center">{prop?.location}</td>;
+                  {comparedProperties.map(prop => {
+                    return <td key={prop.id} className="p-2 text-center">{prop?.location}</td>;
                   })}
                 </tr>
                 <tr>
                   <td className="p-2 font-medium">Bedrooms</td>
-                  {comparedProperties.map(id => {
-                    const prop = filteredProperties.find(p => p.id === id) || properties.find(p => p.id === id);
-                    return <td key={id} className="p-2 text-center">{prop?.bedrooms}</td>;
+                  {comparedProperties.map(prop => {
+                    return <td key={prop.id} className="p-2 text-center">{prop?.bedrooms}</td>;
                   })}
                 </tr>
                 <tr>
                   <td className="p-2 font-medium">Bathrooms</td>
-                  {comparedProperties.map(id => {
-                    const prop = filteredProperties.find(p => p.id === id) || properties.find(p => p.id === id);
-                    return <td key={id} className="p-2 text-center">{prop?.bathrooms}</td>;
+                  {comparedProperties.map(prop => {
+                    return <td key={prop.id} className="p-2 text-center">{prop?.bathrooms}</td>;
                   })}
                 </tr>
                 <tr>
                   <td className="p-2 font-medium">Amenities</td>
-                  {comparedProperties.map(id => {
-                    const prop = filteredProperties.find(p => p.id === id) || properties.find(p => p.id === id);
-                    return <td key={id} className="p-2 text-center">{prop?.amenities?.join(', ') || '-'}</td>;
+                  {comparedProperties.map(prop => {
+                    return <td key={prop.id} className="p-2 text-center">{prop?.amenities?.join(', ') || '-'}</td>;
                   })}
                 </tr>
               </tbody>
@@ -567,7 +601,7 @@ const Properties = () => {
             <Button onClick={() => window.location.reload()}>Reload Page</Button>
           </div>
         }>
-          <PropertiesContent />
+          {renderContent()}
         </SectionErrorBoundary>
       </Layout>
     );
@@ -578,7 +612,7 @@ const Properties = () => {
     <div className="min-h-screen bg-white">
       <PublicHeader />
       <SectionErrorBoundary name="PublicPropertiesContent">
-        <PropertiesContent />
+        {renderContent()}
       </SectionErrorBoundary>
     </div>
   );
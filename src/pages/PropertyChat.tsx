@@ -1,16 +1,43 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
 import { Link, useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Send, User, Home, MessageCircle, Phone, Mail, MoreVertical, Search, Paperclip, Building, Heart } from "lucide-react";
+import { ArrowLeft, Send, User, Home, MessageCircle, Phone, Mail, MoreVertical, Search, Paperclip, Building, Heart, Check, CheckCheck, Clock, FileText, X, Archive, ArchiveRestore, Ban, Lock, LockOpen } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
 import { supabase, Message, ChatRoom, Property } from "@/lib/supabase";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import Layout from "@/components/Layout";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { handleError } from "@/utils/errorHandling";
+import { formatCurrency } from "@/services/platformSettingsService";
+import ReplyTemplatePicker from "@/components/landlord/ReplyTemplatePicker";
+import { ChatOutbox, QueuedMessage, isNetworkError } from "@/services/chatOutbox";
+import {
+  ATTACHMENT_ACCEPT,
+  CHAT_ROOM_STATUS_LABELS,
+  ChatPresenceState,
+  ChatService,
+  MAX_ATTACHMENT_SIZE,
+  MAX_MESSAGE_ATTACHMENTS,
+  TYPING_TIMEOUT_MS,
+  getChatRoomStatus,
+  isImageAttachment,
+} from "@/services/chatService";
 
 const PropertyChat = () => {
   const { id } = useParams();
@@ -22,15 +49,34 @@ const PropertyChat = () => {
   const [property, setProperty] = useState<Property | null>(null);
   const [otherParticipant, setOtherParticipant] = useState<any>(null);
   const [isTyping, setIsTyping] = useState(false);
+  const [isOtherOnline, setIsOtherOnline] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+  const [sending, setSending] = useState(false);
+  const [blocked, setBlocked] = useState(false);
+  const [blockedByMe, setBlockedByMe] = useState(false);
+  const [confirmBlockOpen, setConfirmBlockOpen] = useState(false);
+  const [updatingRoom, setUpdatingRoom] = useState(false);
+  const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const typingRef = useRef(false);
   const { toast } = useToast();
   const { profile, hasRole } = useAuth();
+  const isOnline = useOnlineStatus();
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Read receipts are best effort; a failure shouldn't interrupt the conversation
+  const markRead = useCallback((chatRoomId: string) => {
+    ChatService.markRoomRead(chatRoomId).catch(() => undefined);
+  }, []);
+
   useEffect(() => {
     if (!profile || !id) {
       navigate("/login");
@@ -96,7 +142,8 @@ const PropertyChat = () => {
 
           if (createError) {
             console.error('Chat creation error:', createError);
-            throw new Error('Failed to create chat room');
+            // Blocks and the daily conversation limit explain themselves
+            throw new Error(createError.message || 'Failed to create chat room');
           }
           currentChatRoom = newChat;
         } else if (!existingChat) {
@@ -126,6 +173,7 @@ const PropertyChat = () => {
           throw messagesError;
         }
         setMessages((messagesData as any) || []);
+        markRead((currentChatRoom as any).id);
         setLoading(false);
         setTimeout(scrollToBottom, 100);
       } catch (error: any) {
@@ -144,16 +192,15 @@ const PropertyChat = () => {
 
   // Subscription effect: only runs when chatRoom is set
   useEffect(() => {
-    if (!chatRoom) return;
+    if (!chatRoom || !profile) return;
     const channel = supabase
-      .channel(`chat_room:${chatRoom.id}`)
+      .channel(`chat_room:${chatRoom.id}`, { config: { presence: { key: profile.id } } })
       .on('postgres_changes', {
         event: 'INSERT',
         schema: 'public',
         table: 'messages',
         filter: `chat_room_id=eq.${chatRoom.id}`,
       }, async (payload) => {
-        console.log('New message received:', payload);
         // Fetch the complete message with profile info
         const { data: newMessageData } = await supabase
           .from('messages')
@@ -166,51 +213,226 @@ const PropertyChat = () => {
         if (newMessageData) {
           setMessages(prev => [...prev, newMessageData as any]);
           setTimeout(scrollToBottom, 100);
+          if (newMessageData.sender_id !== profile.id) markRead(chatRoom.id);
         }
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages',
+        filter: `chat_room_id=eq.${chatRoom.id}`,
+      }, (payload) => {
+        const updated = payload.new as Message;
+        setMessages(prev => prev.map(message =>
+          message.id === updated.id ? { ...message, read_at: updated.read_at } : message
+        ));
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const others = Object.entries(channel.presenceState<ChatPresenceState>())
+          .filter(([key]) => key !== profile.id)
+          .flatMap(([, presences]) => presences);
+        setIsOtherOnline(others.length > 0);
+        setIsTyping(others.some(presence => presence.typing));
       });
-    const subscription = channel.subscribe((status) => {
-      console.log('Subscription status:', status);
+    channelRef.current = channel;
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        channel.track({ user_id: profile.id, typing: false, online_at: new Date().toISOString() });
+      }
     });
     return () => {
-      subscription.unsubscribe();
+      clearTimeout(typingTimeoutRef.current);
+      typingRef.current = false;
+      channelRef.current = null;
+      supabase.removeChannel(channel);
     };
-  }, [chatRoom]);
+  }, [chatRoom, profile, markRead]);
+
+  // Either side may have blocked the other; only our own blocks can be undone from here
+  useEffect(() => {
+    if (!otherParticipant?.id) return;
+
+    Promise.all([ChatService.isBlockedWith(otherParticipant.id), ChatService.getBlockedUserIds()])
+      .then(([isBlocked, blockedIds]) => {
+        setBlocked(isBlocked);
+        setBlockedByMe(blockedIds.includes(otherParticipant.id));
+      })
+      .catch(error => handleError(error, toast, "Failed to load conversation settings", { context: "PropertyChat" }));
+  }, [otherParticipant?.id, toast]);
+
+  // Fetch links for attachments we haven't signed yet
+  useEffect(() => {
+    const missing = messages
+      .flatMap(message => message.attachments || [])
+      .map(attachment => attachment.path)
+      .filter(path => !attachmentUrls[path]);
+    if (missing.length === 0) return;
+
+    ChatService.getAttachmentUrls(missing)
+      .then(urls => setAttachmentUrls(prev => ({ ...prev, ...urls })))
+      .catch(error => handleError(error, toast, "Failed to load attachments", { context: "PropertyChat" }));
+  }, [messages, attachmentUrls, toast]);
+
+  const setTyping = (typing: boolean) => {
+    if (!profile || !channelRef.current || typingRef.current === typing) return;
+    typingRef.current = typing;
+    channelRef.current.track({ user_id: profile.id, typing, online_at: new Date().toISOString() });
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    setTyping(value.length > 0);
+    clearTimeout(typingTimeoutRef.current);
+    typingTimeoutRef.current = setTimeout(() => setTyping(false), TYPING_TIMEOUT_MS);
+  };
+
+  const handleFilesSelected = (files: FileList | null) => {
+    if (!files) return;
+    const selected = Array.from(files);
+    const tooLarge = selected.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "File too large",
+        description: `${tooLarge.map(file => file.name).join(', ')} is over 10MB.`,
+        variant: "destructive",
+      });
+    }
+    setAttachments(prev =>
+      [...prev, ...selected.filter(file => file.size <= MAX_ATTACHMENT_SIZE)].slice(0, MAX_MESSAGE_ATTACHMENTS)
+    );
+  };
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, queuedMessages]);
+
+  // Messages written offline wait in the outbox until OfflineIndicator sends them
+  const chatRoomId = chatRoom?.id;
+  useEffect(() => {
+    if (!chatRoomId) return;
+    const refresh = () => setQueuedMessages(ChatOutbox.getQueued(chatRoomId));
+    refresh();
+    return ChatOutbox.subscribe(refresh);
+  }, [chatRoomId]);
+
+  const queueMessage = () => {
+    if (!chatRoom || !profile) return;
+    ChatOutbox.enqueue(chatRoom.id, profile.id, newMessage);
+    setNewMessage("");
+    clearTimeout(typingTimeoutRef.current);
+    setTyping(false);
+  };
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !chatRoom || !profile) return;
+    if ((!newMessage.trim() && attachments.length === 0) || !chatRoom || !profile) return;
 
-    try {
-      const { error } = await supabase
-        .from('messages')
-        .insert({
-          chat_room_id: chatRoom.id,
-          sender_id: profile.id,
-          content: newMessage.trim(),
+    if (!isOnline) {
+      if (attachments.length > 0) {
+        toast({
+          title: "You're offline",
+          description: "Attachments can only be sent with a connection. Remove them to queue the message.",
+          variant: "destructive",
         });
-
-      if (error) {
-        console.error('Message send error:', error);
-        throw error;
+        return;
       }
+      queueMessage();
+      return;
+    }
 
+    setSending(true);
+    try {
+      await ChatService.sendMessage(chatRoom.id, profile.id, newMessage, attachments);
       setNewMessage("");
-    } catch (error: any) {
-      console.error('Send message error:', error);
+      setAttachments([]);
+      clearTimeout(typingTimeoutRef.current);
+      setTyping(false);
+    } catch (error) {
+      if (isNetworkError(error) && attachments.length === 0) {
+        queueMessage();
+        toast({
+          title: "Connection lost",
+          description: "Your message will be sent when you're back online.",
+        });
+        return;
+      }
+      handleError(error, toast, "Failed to send message.", { context: "PropertyChat" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const roomStatus = chatRoom && profile ? getChatRoomStatus(chatRoom, profile.id) : 'active';
+  const canReopen = chatRoom?.closed_by === profile?.id || hasRole('admin');
+
+  const handleToggleArchived = async () => {
+    if (!chatRoom) return;
+    const archive = roomStatus !== 'archived';
+
+    setUpdatingRoom(true);
+    try {
+      const updated = await ChatService.setArchived(chatRoom.id, archive);
+      setChatRoom(prev => prev && { ...prev, ...updated });
       toast({
-        title: "Error",
-        description: error.message || "Failed to send message.",
-        variant: "destructive",
+        title: archive ? "Conversation archived" : "Conversation moved to your inbox",
+        description: archive ? "It will come back to your inbox if a new message arrives." : undefined,
+      });
+    } catch (error) {
+      handleError(error, toast, "Failed to update conversation", { context: "PropertyChat" });
+    } finally {
+      setUpdatingRoom(false);
+    }
+  };
+
+  const handleToggleClosed = async () => {
+    if (!chatRoom) return;
+    const close = chatRoom.status !== 'closed';
+
+    setUpdatingRoom(true);
+    try {
+      const updated = await ChatService.setClosed(chatRoom.id, close);
+      setChatRoom(prev => prev && { ...prev, ...updated });
+      toast({
+        title: close ? "Conversation closed" : "Conversation reopened",
+        description: close ? "Neither of you can send new messages until you reopen it." : undefined,
       });
+    } catch (error) {
+      handleError(error, toast, "Failed to update conversation", { context: "PropertyChat" });
+    } finally {
+      setUpdatingRoom(false);
+    }
+  };
+
+  const handleToggleBlocked = async () => {
+    if (!profile || !otherParticipant?.id) return;
+
+    setUpdatingRoom(true);
+    try {
+      if (blockedByMe) {
+        await ChatService.unblockUser(profile.id, otherParticipant.id);
+        setBlockedByMe(false);
+        setBlocked(await ChatService.isBlockedWith(otherParticipant.id));
+        toast({ title: `${otherParticipant.full_name || 'User'} unblocked` });
+      } else {
+        await ChatService.blockUser(profile.id, otherParticipant.id);
+        setBlockedByMe(true);
+        setBlocked(true);
+        toast({
+          title: `${otherParticipant.full_name || 'User'} blocked`,
+          description: "They can't message you and their messages are hidden.",
+        });
+      }
+      setConfirmBlockOpen(false);
+    } catch (error) {
+      handleError(error, toast, "Failed to update block", { context: "PropertyChat" });
+    } finally {
+      setUpdatingRoom(false);
     }
   };
 
   const filteredMessages = messages.filter(message =>
-    searchQuery === "" || message.content.toLowerCase().includes(searchQuery.toLowerCase())
+    !(blockedByMe && message.sender_id === otherParticipant?.id) &&
+    (searchQuery === "" || message.content.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
   const formatMessageTime = (date: string) => {
@@ -327,6 +549,9 @@ const PropertyChat = () => {
                                   <Badge variant={hasRole('landlord') ? 'default' : 'secondary'}>
                   {hasRole('landlord') ? 'As Landlord' : 'As Renter'}
                 </Badge>
+                {roomStatus !== 'active' && (
+                  <Badge variant="outline">{CHAT_ROOM_STATUS_LABELS[roomStatus]}</Badge>
+                )}
               </div>
               
               <div className="flex items-center space-x-2">
@@ -357,6 +582,35 @@ const PropertyChat = () => {
                         Call {otherParticipant.phone}
                       </DropdownMenuItem>
                     )}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={handleToggleArchived} disabled={updatingRoom}>
+                      {roomStatus === 'archived' ? (
+                        <ArchiveRestore className="w-4 h-4 mr-2" />
+                      ) : (
+                        <Archive className="w-4 h-4 mr-2" />
+                      )}
+                      {roomStatus === 'archived' ? 'Move to Inbox' : 'Archive Conversation'}
+                    </DropdownMenuItem>
+                    {(chatRoom.status !== 'closed' || canReopen) && (
+                      <DropdownMenuItem onClick={handleToggleClosed} disabled={updatingRoom}>
+                        {chatRoom.status === 'closed' ? (
+                          <LockOpen className="w-4 h-4 mr-2" />
+                        ) : (
+                          <Lock className="w-4 h-4 mr-2" />
+                        )}
+                        {chatRoom.status === 'closed' ? 'Reopen Conversation' : 'Close Conversation'}
+                      </DropdownMenuItem>
+                    )}
+                    {otherParticipant?.id && (
+                      <DropdownMenuItem
+                        onClick={() => (blockedByMe ? handleToggleBlocked() : setConfirmBlockOpen(true))}
+                        disabled={updatingRoom}
+                        className={blockedByMe ? undefined : "text-red-600"}
+                      >
+                        <Ban className="w-4 h-4 mr-2" />
+                        {blockedByMe ? 'Unblock' : 'Block'} {otherParticipant.full_name || 'User'}
+                      </DropdownMenuItem>
+                    )}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
@@ -393,8 +647,10 @@ const PropertyChat = () => {
                     <p className="font-medium text-gray-900">
                       {otherParticipant?.full_name || 'Other User'}
                     </p>
-                    <p className="text-sm text-gray-500">
+                    <p className="text-sm text-gray-500 flex items-center gap-1">
+                      {isOtherOnline && <span className="w-2 h-2 rounded-full bg-green-500" aria-hidden />}
                       {otherParticipant?.role?.charAt(0).toUpperCase() + otherParticipant?.role?.slice(1)}
+                      {isOtherOnline && ' • Online'}
                     </p>
                   </div>
                 </div>
@@ -431,7 +687,7 @@ const PropertyChat = () => {
           {/* Messages */}
           <CardContent className="flex-1 p-0 overflow-hidden">
             <div className="h-full overflow-y-auto p-4 space-y-4">
-              {filteredMessages.length === 0 ? (
+              {filteredMessages.length === 0 && queuedMessages.length === 0 ? (
                 <div className="text-center text-gray-500 py-12">
                   <MessageCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                   {searchQuery ? (
@@ -465,50 +721,187 @@ const PropertyChat = () => {
                           {message.sender_id === profile?.id
                             ? "You"
                             : message.sender?.full_name || 'User'}
+                          {message.auto_reply && " · Auto-reply"}
                         </span>
-                        <span className={`text-xs ${
+                        <span className={`text-xs flex items-center gap-1 ${
                           message.sender_id === profile?.id ? "text-blue-100" : "text-gray-500"
                         }`}>
                           {formatMessageTime(message.created_at)}
+                          {message.sender_id === profile?.id && (
+                            message.read_at
+                              ? <CheckCheck className="w-3 h-3" aria-label="Read" />
+                              : <Check className="w-3 h-3" aria-label="Sent" />
+                          )}
                         </span>
                       </div>
-                      <p className="text-sm leading-relaxed">{message.content}</p>
+                      {message.content && <p className="text-sm leading-relaxed">{message.content}</p>}
+                      {(message.attachments || []).length > 0 && (
+                        <div className="mt-2 space-y-2">
+                          {message.attachments!.map(attachment => {
+                            const url = attachmentUrls[attachment.path];
+                            return isImageAttachment(attachment) && url ? (
+                              <a key={attachment.path} href={url} target="_blank" rel="noopener noreferrer">
+                                <img src={url} alt={attachment.name} className="rounded-md max-h-48 object-cover" />
+                              </a>
+                            ) : (
+                              <a
+                                key={attachment.path}
+                                href={url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-2 text-sm underline break-all"
+                              >
+                                <FileText className="w-4 h-4 flex-shrink-0" />
+                                {attachment.name}
+                              </a>
+                            );
+                          })}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))
               )}
+              {queuedMessages.map((message) => (
+                <div key={message.id} className="flex justify-end">
+                  <div className="max-w-xs lg:max-w-md px-4 py-3 rounded-lg shadow-sm bg-blue-400 text-white">
+                    <div className="flex items-center justify-between gap-3 mb-1">
+                      <span className="text-xs font-medium text-blue-50">You</span>
+                      <span className="text-xs flex items-center gap-1 text-blue-50">
+                        <Clock className="w-3 h-3" />
+                        Waiting to send
+                        <button
+                          type="button"
+                          aria-label="Discard queued message"
+                          onClick={() => ChatOutbox.remove(message.id)}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    </div>
+                    <p className="text-sm leading-relaxed">{message.content}</p>
+                  </div>
+                </div>
+              ))}
               <div ref={messagesEndRef} />
             </div>
           </CardContent>
 
           {/* Message Input */}
-          <div className="border-t p-4 bg-gray-50">
-            <form onSubmit={handleSendMessage} className="flex space-x-3">
-              <Button size="icon" variant="outline" type="button">
-                <Paperclip className="w-4 h-4" />
-              </Button>
-              <Input
-                value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                placeholder={`Message ${otherParticipant?.full_name || 'other user'}...`}
-                className="flex-1 bg-white"
-                autoFocus
-              />
-              <Button 
-                type="submit" 
-                disabled={!newMessage.trim()}
-                className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
-              >
-                <Send className="w-4 h-4" />
-              </Button>
-            </form>
-            {isTyping && (
-              <p className="text-xs text-gray-500 mt-2">
-                {otherParticipant?.full_name || 'Other user'} is typing...
-              </p>
-            )}
-          </div>
+          {chatRoom.status === 'closed' || blocked ? (
+            <div className="border-t p-4 bg-gray-50 text-sm text-gray-600 flex items-center gap-2">
+              {blocked ? <Ban className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+              {blockedByMe
+                ? `You blocked ${otherParticipant?.full_name || 'this user'}. Unblock them to keep chatting.`
+                : blocked
+                  ? "You can't send messages in this conversation."
+                  : canReopen
+                    ? "You closed this conversation. Reopen it to keep chatting."
+                    : "This conversation has been closed."}
+            </div>
+          ) : (
+            <div className="border-t p-4 bg-gray-50">
+              {attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {attachments.map((file, index) => (
+                    <span
+                      key={`${file.name}-${index}`}
+                      className="flex items-center gap-1 text-xs bg-white border rounded px-2 py-1 max-w-[200px]"
+                    >
+                      <Paperclip className="w-3 h-3 flex-shrink-0" />
+                      <span className="truncate">{file.name}</span>
+                      <button
+                        type="button"
+                        aria-label={`Remove ${file.name}`}
+                        onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <form onSubmit={handleSendMessage} className="flex space-x-3">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={ATTACHMENT_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFilesSelected(e.target.files);
+                    e.target.value = "";
+                  }}
+                />
+                <Button
+                  size="icon"
+                  variant="outline"
+                  type="button"
+                  aria-label="Attach files"
+                  disabled={!isOnline || attachments.length >= MAX_MESSAGE_ATTACHMENTS}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Paperclip className="w-4 h-4" />
+                </Button>
+                {profile && chatRoom.landlord_id === profile.id && (
+                  <ReplyTemplatePicker
+                    landlordId={profile.id}
+                    values={{
+                      property_title: property.title,
+                      price: formatCurrency(property.price),
+                      landlord_name: profile.full_name,
+                    }}
+                    onInsert={handleMessageChange}
+                  />
+                )}
+                <Input
+                  value={newMessage}
+                  onChange={(e) => handleMessageChange(e.target.value)}
+                  placeholder={`Message ${otherParticipant?.full_name || 'other user'}...`}
+                  className="flex-1 bg-white"
+                  autoFocus
+                />
+                <Button 
+                  type="submit" 
+                  disabled={(!newMessage.trim() && attachments.length === 0) || sending}
+                  className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+              </form>
+              {isTyping && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {otherParticipant?.full_name || 'Other user'} is typing...
+                </p>
+              )}
+            </div>
+          )}
         </Card>
+
+        <AlertDialog open={confirmBlockOpen} onOpenChange={setConfirmBlockOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Block {otherParticipant?.full_name || 'this user'}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Neither of you will be able to send messages or start new conversations, and their
+                messages will be hidden from you. You can unblock them later.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={updatingRoom}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  handleToggleBlocked();
+                }}
+                disabled={updatingRoom}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                Block
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </Layout>
   );
@@ -4,11 +4,12 @@ import { supabase, Property } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import { useToast } from '@/hooks/use-toast';
+import { usePropertyViewTracking } from '@/hooks/usePropertyViewTracking';
 import Layout from '@/components/Layout';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
 import RentalApplicationForm from '@/components/RentalApplicationForm';
 import PropertyStatusBadge from '@/components/PropertyStatusBadge';
-import { DemoPaymentGateway } from '@/components/DemoPaymentGateway';
+import PaymentCheckout from '@/components/PaymentCheckout';
 
 const PropertyDetail = () => {
   const { id } = useParams();
@@ -22,6 +23,8 @@ const PropertyDetail = () => {
   const [applicationStatus, setApplicationStatus] = useState<string | null>(null);
   const [applicationId, setApplicationId] = useState<string | null>(null);
 
+  usePropertyViewTracking(property?.id);
+
   useEffect(() => {
     const fetchPropertyAndApplication = async () => {
       if (!id || !profile) return;
@@ -150,14 +153,10 @@ const PropertyDetail = () => {
                 </DialogDescription>
               </DialogHeader>
               {applicationId && (
-                <DemoPaymentGateway 
+                <PaymentCheckout
                   applicationId={applicationId}
                   propertyId={property.id}
                   amount={property.price}
-                  onSuccess={() => {
-                    setShowPaymentModal(false);
-                    setApplicationStatus('payment_completed');
-                  }}
                 />
               )}
             </DialogContent>
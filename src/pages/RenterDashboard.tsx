@@ -8,6 +8,9 @@ import { handleError } from "@/utils/errorHandling";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import Layout from "@/components/Layout";
 import { useSavedProperties } from "@/hooks/useSavedProperties";
+import { RentScheduleService, RentDue, isRentOverdue } from "@/services/rentScheduleService";
+import { TourService, TourBookingWithDetails, TOUR_STATUS_LABELS } from "@/services/tourService";
+import ScheduleTourDialog from "@/components/ScheduleTourDialog";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -25,7 +28,8 @@ import {
   Star,
   ChevronRight,
   Calendar,
-  DollarSign
+  DollarSign,
+  Wrench
 } from "lucide-react";
 
 interface RenterStats {
@@ -71,6 +75,9 @@ const RenterDashboard = () => {
   const [recentApplications, setRecentApplications] = useState<RecentApplication[]>([]);
   const [recentMessages, setRecentMessages] = useState<RecentMessage[]>([]);
   const [recentProperties, setRecentProperties] = useState<any[]>([]);
+  const [rentDues, setRentDues] = useState<RentDue[]>([]);
+  const [tours, setTours] = useState<TourBookingWithDetails[]>([]);
+  const [reschedulingTour, setReschedulingTour] = useState<TourBookingWithDetails | null>(null);
   const [loading, setLoading] = useState(true);
   
   const { profile, hasRole } = useAuth();
@@ -163,6 +170,12 @@ const RenterDashboard = () => {
 
       if (trendingError) throw trendingError;
 
+      // Fetch upcoming rent from the tenant's rent schedules
+      const dues = await RentScheduleService.getUpcomingDues(profile.id);
+
+      // Fetch booked property tours
+      const upcomingTours = await TourService.getRenterBookings(profile.id);
+
       // Update stats
       setStats({
         savedPropertiesCount: savedProperties.length,
@@ -174,6 +187,8 @@ const RenterDashboard = () => {
       setRecentApplications(applications);
       setRecentMessages(messages);
       setRecentProperties(trendingProperties || []);
+      setRentDues(dues);
+      setTours(upcomingTours);
       
     } catch (error: any) {
       handleError(error, toast, 'Error loading dashboard data');
@@ -182,6 +197,18 @@ const RenterDashboard = () => {
     }
   };
 
+  const handleCancelTour = async (tour: TourBookingWithDetails) => {
+    if (!window.confirm('Cancel this tour? The landlord will be notified.')) return;
+
+    try {
+      await TourService.cancel(tour.id);
+      setTours(prev => prev.filter(t => t.id !== tour.id));
+      toast({ title: "Tour cancelled", description: "The landlord has been notified." });
+    } catch (error) {
+      handleError(error, toast, 'Failed to cancel tour');
+    }
+  };
+
   const getApplicationStatusColor = (status: string) => {
     switch (status) {
       case 'application_approved': return 'bg-green-100 text-green-800';
@@ -377,8 +404,86 @@ const RenterDashboard = () => {
               </Card>
             </div>
 
-            {/* Right Column - Quick Actions & Recent Messages */}
+            {/* Right Column - Rent, Quick Actions & Recent Messages */}
             <div className="space-y-6">
+              {/* Upcoming Rent */}
+              {rentDues.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Calendar className="w-5 h-5 mr-2" />
+                      Upcoming Rent
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {rentDues.map((due) => {
+                      const overdue = isRentOverdue(due);
+                      return (
+                        <div
+                          key={due.id}
+                          className={`p-3 rounded-lg border ${overdue ? 'border-red-200 bg-red-50' : 'border-gray-200'}`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <p className="font-medium text-sm line-clamp-1">{due.properties?.title}</p>
+                            <Badge className={overdue ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}>
+                              {overdue ? 'Overdue' : 'Due'}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center justify-between mt-1 text-sm">
+                            <span className="flex items-center text-gray-900 font-semibold">
+                              <DollarSign className="w-4 h-4 mr-1" />
+                              ₦{Number(due.amount).toLocaleString()}
+                            </span>
+                            {due.due_date && (
+                              <span className={overdue ? 'text-red-700' : 'text-gray-600'}>
+                                {new Date(due.due_date).toLocaleDateString()}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Upcoming Tours */}
+              {tours.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Clock className="w-5 h-5 mr-2" />
+                      Upcoming Tours
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {tours.map((tour) => (
+                      <div key={tour.id} className="p-3 rounded-lg border border-gray-200">
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium text-sm line-clamp-1">{tour.property?.title}</p>
+                          <Badge className={tour.status === 'confirmed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}>
+                            {TOUR_STATUS_LABELS[tour.status]}
+                          </Badge>
+                        </div>
+                        {tour.slot && (
+                          <p className="text-sm text-gray-600 mt-1">
+                            {new Date(tour.slot.starts_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                          </p>
+                        )}
+                        <div className="flex gap-2 mt-2">
+                          <Button size="sm" variant="outline" onClick={() => setReschedulingTour(tour)}>
+                            Reschedule
+                          </Button>
+                          <Button size="sm" variant="ghost" className="text-red-600" onClick={() => handleCancelTour(tour)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Quick Actions */}
               <Card>
                 <CardHeader>
@@ -403,6 +508,12 @@ const RenterDashboard = () => {
                       Check Applications
                     </Button>
                   </Link>
+                  <Link to="/maintenance">
+                    <Button className="w-full justify-start" variant="outline">
+                      <Wrench className="w-4 h-4 mr-2" />
+                      Report a Repair
+                    </Button>
+                  </Link>
                   <Link to="/messages">
                     <Button className="w-full justify-start" variant="outline">
                       <MessageSquare className="w-4 h-4 mr-2" />
@@ -475,6 +586,17 @@ const RenterDashboard = () => {
           </div>
         </div>
       </div>
+
+      {reschedulingTour && (
+        <ScheduleTourDialog
+          propertyId={reschedulingTour.property_id}
+          propertyTitle={reschedulingTour.property?.title}
+          booking={reschedulingTour}
+          open={!!reschedulingTour}
+          onOpenChange={(open) => !open && setReschedulingTour(null)}
+          onScheduled={fetchDashboardData}
+        />
+      )}
     </Layout>
   );
 };
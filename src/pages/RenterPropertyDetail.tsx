@@ -4,11 +4,17 @@ import { supabase, Property } from '@/lib/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import { useToast } from '@/hooks/use-toast';
+import { usePropertyViewTracking } from '@/hooks/usePropertyViewTracking';
+import { usePlatformSettings } from '@/hooks/usePlatformSettings';
 import Layout from '@/components/Layout';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import RentalApplicationForm from '@/components/RentalApplicationForm';
+import ScheduleTourDialog from '@/components/ScheduleTourDialog';
+import ReportPropertyDialog from '@/components/ReportPropertyDialog';
+import VerifiedBadge from '@/components/VerifiedBadge';
+import { isVerifiedLandlord } from '@/services/landlordVerificationService';
 import { Carousel, CarouselContent, CarouselItem, CarouselPrevious, CarouselNext } from '@/components/ui/carousel';
-import { Wifi, Car, Shield, Zap, Wind, Sun, MapPin, Home, Bed, Bath } from 'lucide-react';
+import { Wifi, Car, Shield, Zap, Wind, Sun, MapPin, Home, Bed, Bath, Flag } from 'lucide-react';
 
 const RenterPropertyDetail = () => {
   const { id } = useParams();
@@ -18,6 +24,11 @@ const RenterPropertyDetail = () => {
   const { profile, hasRole } = useAuth();
   const { toast } = useToast();
   const [showApplicationModal, setShowApplicationModal] = useState(false);
+  const [showTourModal, setShowTourModal] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
+
+  usePropertyViewTracking(property?.id);
+  const { formatPrice } = usePlatformSettings();
 
   useEffect(() => {
     const fetchProperty = async () => {
@@ -114,7 +125,7 @@ const RenterPropertyDetail = () => {
             </div>
           </div>
           <div className="text-2xl md:text-3xl font-bold text-green-400 drop-shadow-lg mt-2 md:mt-0">
-            ₦{property.price.toLocaleString()}/year
+            {formatPrice(property.price)}/year
           </div>
         </div>
       </div>
@@ -187,6 +198,11 @@ const RenterPropertyDetail = () => {
                   <span className="text-gray-700 font-medium">Owner:</span>
                   <span className="text-gray-800">{property.profiles.full_name || 'Property Owner'}</span>
                 </div>
+                {isVerifiedLandlord(property.profiles) && (
+                  <div className="flex justify-end">
+                    <VerifiedBadge />
+                  </div>
+                )}
                 <button 
                   onClick={() => navigate(`/property/${property.id}/chat`)}
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg transition-colors mt-4 font-semibold"
@@ -212,6 +228,31 @@ const RenterPropertyDetail = () => {
                   <RentalApplicationForm propertyId={property.id} onSuccess={() => setShowApplicationModal(false)} />
                 </DialogContent>
               </Dialog>
+              <button
+                onClick={() => setShowTourModal(true)}
+                className="w-full mt-3 border border-blue-600 text-blue-600 hover:bg-blue-50 py-3 px-4 rounded-lg transition-colors font-semibold"
+              >
+                Schedule a Tour
+              </button>
+              <ScheduleTourDialog
+                propertyId={property.id}
+                propertyTitle={property.title}
+                open={showTourModal}
+                onOpenChange={setShowTourModal}
+              />
+              <button
+                onClick={() => setShowReportModal(true)}
+                className="w-full mt-3 flex items-center justify-center gap-2 text-sm text-gray-500 hover:text-red-600 transition-colors"
+              >
+                <Flag className="w-4 h-4" />
+                Report this listing
+              </button>
+              <ReportPropertyDialog
+                propertyId={property.id}
+                propertyTitle={property.title}
+                open={showReportModal}
+                onOpenChange={setShowReportModal}
+              />
             </div>
           )}
           {/* TODO: Add map, price breakdown, reviews, etc. */}
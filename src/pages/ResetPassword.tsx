@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Eye, EyeOff, KeyRound, Lock, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Auth reports expired or already-used links in the URL hash, e.g. #error_code=otp_expired
+const getLinkError = () => {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get("error_description")?.replace(/\+/g, " ") || null;
+};
+
+const ResetPassword = () => {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [linkError] = useState(getLinkError);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, hasRole, updatePassword } = useAuth();
+
+  const passwordError =
+    password && password.length < MIN_PASSWORD_LENGTH
+      ? `Use at least ${MIN_PASSWORD_LENGTH} characters`
+      : confirmPassword && password !== confirmPassword
+        ? "Passwords don't match"
+        : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordError || !password || password !== confirmPassword) return;
+
+    setSaving(true);
+    const { error } = await updatePassword(password);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Couldn't update your password",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Password updated",
+      description: "You're signed in with your new password.",
+    });
+    navigate(hasRole('admin') ? '/admin' : hasRole('landlord') ? '/landlord' : '/');
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-white/95 shadow-2xl shadow-blue-500/10">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-16 h-16 bg-amber-100 rounded-2xl flex items-center justify-center mb-4">
+              <AlertTriangle className="w-8 h-8 text-amber-600" />
+            </div>
+            <CardTitle className="text-2xl font-bold text-slate-900">This link can't be used</CardTitle>
+            <CardDescription className="text-slate-600 mt-2">
+              {linkError || "Password reset links expire after an hour and only work once."} Request a new one to continue.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter className="flex flex-col gap-3">
+            <Button asChild className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white">
+              <Link to="/forgot-password">Send a new reset link</Link>
+            </Button>
+            <Link to="/login" className="text-sm text-blue-600 hover:text-blue-700 hover:underline">
+              Return to sign in
+            </Link>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl shadow-blue-500/10">
+        <CardHeader className="text-center pb-4">
+          <div className="mx-auto w-16 h-16 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-2xl flex items-center justify-center mb-4 shadow-lg">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-slate-900">Choose a new password</CardTitle>
+          <CardDescription className="text-slate-600 mt-2">
+            Setting a new password for {user.email}
+          </CardDescription>
+        </CardHeader>
+
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="new-password" className="text-slate-700 font-medium">
+                New password
+              </Label>
+              <div className="relative group">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  id="new-password"
+                  type={showPassword ? "text" : "password"}
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  autoFocus
+                  className="pl-10 pr-10 h-12 bg-slate-50/80 border-slate-200 focus:bg-white"
+                />
+                <button
+                  type="button"
+                  aria-label={showPassword ? "Hide password" : "Show password"}
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                >
+                  {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password" className="text-slate-700 font-medium">
+                Confirm new password
+              </Label>
+              <div className="relative group">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  id="confirm-password"
+                  type={showPassword ? "text" : "password"}
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  className="pl-10 h-12 bg-slate-50/80 border-slate-200 focus:bg-white"
+                />
+              </div>
+              {passwordError && <p className="text-sm text-red-600">{passwordError}</p>}
+            </div>
+          </CardContent>
+
+          <CardFooter>
+            <Button
+              type="submit"
+              className="w-full h-12 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-medium"
+              disabled={saving || !!passwordError || !password || password !== confirmPassword}
+            >
+              {saving ? "Saving..." : "Update password"}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -1,11 +1,14 @@
 
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useSavedProperties } from '@/hooks/useSavedProperties';
 import { supabase, Property } from '@/lib/supabase';
 import { Card, CardContent } from '@/components/ui/card';
-import { Heart } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Heart, Search } from 'lucide-react';
 import PropertyCard from '@/components/PropertyCard';
+import SavedSearchesManager from '@/components/SavedSearchesManager';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import Layout from '@/components/Layout';
 import { useLoadingState } from '@/hooks/useLoadingState';
@@ -18,6 +21,8 @@ const SavedProperties = () => {
   const { user } = useAuth();
   const { savedProperties } = useSavedProperties();
   const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = searchParams.get('tab') === 'searches' ? 'searches' : 'properties';
 
   useEffect(() => {
     if (savedProperties.length > 0) {
@@ -91,27 +96,49 @@ const SavedProperties = () => {
           </p>
         </div>
 
-        {properties.length === 0 ? (
-          <Card>
-            <CardContent className="p-12 text-center">
-              <Heart className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">No saved properties yet</h3>
-              <p className="text-gray-600 mb-6">
-                Start browsing properties and save your favorites by clicking the heart icon.
-              </p>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {properties.map((property) => (
-              <PropertyCard
-                key={property.id}
-                property={property}
-                showSaveButton={true}
-              />
-            ))}
-          </div>
-        )}
+        <Tabs
+          value={activeTab}
+          onValueChange={(tab) => setSearchParams(tab === 'searches' ? { tab } : {}, { replace: true })}
+        >
+          <TabsList className="mb-6">
+            <TabsTrigger value="properties">
+              <Heart className="w-4 h-4 mr-2" />
+              Properties
+            </TabsTrigger>
+            <TabsTrigger value="searches">
+              <Search className="w-4 h-4 mr-2" />
+              Searches
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="properties">
+            {properties.length === 0 ? (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <Heart className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">No saved properties yet</h3>
+                  <p className="text-gray-600 mb-6">
+                    Start browsing properties and save your favorites by clicking the heart icon.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {properties.map((property) => (
+                  <PropertyCard
+                    key={property.id}
+                    property={property}
+                    showSaveButton={true}
+                  />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="searches">
+            <SavedSearchesManager userId={user.id} />
+          </TabsContent>
+        </Tabs>
       </div>
     </Layout>
   );
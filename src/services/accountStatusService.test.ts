@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ValidationError } from '@/utils/errorHandling';
+import { AccountStatusService, getAccountRestriction, getEffectiveAccountStatus } from './accountStatusService';
+
+const now = new Date('2025-06-20T12:00:00Z');
+
+describe('getEffectiveAccountStatus', () => {
+  it('treats missing state as active and lifts suspensions once they expire', () => {
+    expect(getEffectiveAccountStatus(null, now)).toBe('active');
+    expect(getEffectiveAccountStatus({ account_status: 'suspended', status_expires_at: '2025-06-21T00:00:00Z' }, now)).toBe('suspended');
+    expect(getEffectiveAccountStatus({ account_status: 'suspended', status_expires_at: '2025-06-19T00:00:00Z' }, now)).toBe('active');
+    expect(getEffectiveAccountStatus({ account_status: 'suspended', status_expires_at: null }, now)).toBe('suspended');
+    expect(getEffectiveAccountStatus({ account_status: 'banned' }, now)).toBe('banned');
+  });
+
+  it('explains why an account is restricted', () => {
+    expect(getAccountRestriction({ account_status: 'active' }, now)).toBeNull();
+    expect(getAccountRestriction({ account_status: 'banned', status_reason: 'Fake listings' }, now)).toEqual({
+      status: 'banned',
+      reason: 'Fake listings',
+      expiresAt: null,
+    });
+  });
+});
+
+describe('AccountStatusService', () => {
+  it('sends the change to set_account_status, dropping expiry for anything but suspensions', async () => {
+    fakeSupabase.onRpc('set_account_status', ({ p_user_id, p_status }) => ({ id: p_user_id, account_status: p_status }));
+    const expiresAt = new Date(Date.now() + 86_400_000).toISOString();
+
+    await AccountStatusService.setStatus('user-1', { status: 'suspended', reason: ' Spam ', expiresAt });
+    await AccountStatusService.setStatus('user-1', { status: 'banned', reason: 'Fraud', expiresAt });
+    await AccountStatusService.setStatus('user-1', { status: 'active', reason: '' });
+
+    expect(fakeSupabase.rpcCalls.map(call => call.args)).toEqual([
+      { p_user_id: 'user-1', p_status: 'suspended', p_reason: 'Spam', p_expires_at: expiresAt },
+      { p_user_id: 'user-1', p_status: 'banned', p_reason: 'Fraud', p_expires_at: null },
+      { p_user_id: 'user-1', p_status: 'active', p_reason: null, p_expires_at: null },
+    ]);
+  });
+
+  it('needs a reason for restrictions and a future end date for suspensions', async () => {
+    await expect(
+      AccountStatusService.setStatus('user-1', { status: 'banned', reason: '  ' })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      AccountStatusService.setStatus('user-1', { status: 'suspended', reason: 'Spam', expiresAt: '2020-01-01T00:00:00Z' })
+    ).rejects.toThrow('must end in the future');
+    expect(fakeSupabase.rpcCalls).toHaveLength(0);
+  });
+
+  it('lists a user\'s history newest first', async () => {
+    fakeSupabase.seed('account_status_history', [
+      { id: 'h1', user_id: 'user-1', status: 'suspended', created_at: '2025-06-01T00:00:00Z' },
+      { id: 'h2', user_id: 'user-2', status: 'banned', created_at: '2025-06-02T00:00:00Z' },
+      { id: 'h3', user_id: 'user-1', status: 'active', created_at: '2025-06-03T00:00:00Z' },
+    ]);
+
+    const history = await AccountStatusService.getHistory('user-1');
+
+    expect(history.map(entry => entry.id)).toEqual(['h3', 'h1']);
+  });
+});
@@ -0,0 +1,112 @@
+import supabase from '@/integrations/supabase/client';
+import { AccountStatus, AccountStatusHistory, Database } from '@/integrations/supabase/types';
+import { ValidationError } from '@/utils/errorHandling';
+import { format } from 'date-fns';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+type AccountStatusFields = Partial<Pick<Profile, 'account_status' | 'status_reason' | 'status_expires_at'>>;
+
+export type AccountStatusHistoryWithActor = AccountStatusHistory & {
+  changer?: { full_name: string | null; email: string } | null;
+};
+
+// Why a signed-in user was turned away
+export interface AccountRestriction {
+  status: Exclude<AccountStatus, 'active'>;
+  reason: string | null;
+  expiresAt: string | null;
+}
+
+export interface AccountStatusChange {
+  status: AccountStatus;
+  reason: string;
+  expiresAt?: string | null;
+}
+
+export const ACCOUNT_STATUS_LABELS: Record<AccountStatus, string> = {
+  active: 'Active',
+  suspended: 'Suspended',
+  banned: 'Banned',
+  pending_deletion: 'Pending deletion',
+};
+
+export const ACCOUNT_STATUS_BADGE_VARIANTS: Record<AccountStatus, 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  suspended: 'secondary',
+  banned: 'destructive',
+  pending_deletion: 'destructive',
+};
+
+// Suspensions lift on their own once they expire, matching account_is_active in the database
+export const getEffectiveAccountStatus = (profile?: AccountStatusFields | null, now = new Date()): AccountStatus => {
+  const status = profile?.account_status ?? 'active';
+  if (status === 'suspended' && profile?.status_expires_at && new Date(profile.status_expires_at) <= now) {
+    return 'active';
+  }
+  return status;
+};
+
+export const getAccountRestriction = (profile?: AccountStatusFields | null, now = new Date()): AccountRestriction | null => {
+  const status = getEffectiveAccountStatus(profile, now);
+  if (status === 'active') return null;
+  return { status, reason: profile?.status_reason ?? null, expiresAt: profile?.status_expires_at ?? null };
+};
+
+export const accountRestrictionMessage = ({ status, expiresAt }: AccountRestriction) => {
+  switch (status) {
+    case 'suspended':
+      return expiresAt
+        ? `Your account is suspended until ${format(new Date(expiresAt), 'd MMM yyyy, HH:mm')}.`
+        : 'Your account is suspended.';
+    case 'banned':
+      return 'Your account has been banned.';
+    case 'pending_deletion':
+      return 'Your account is scheduled for deletion.';
+  }
+};
+
+export class AccountStatusService {
+  // Change a user's account state; the database records it in their history
+  static async setStatus(userId: string, change: AccountStatusChange): Promise<Profile> {
+    const reason = change.reason.trim();
+    const expiresAt = change.status === 'suspended' ? change.expiresAt || null : null;
+
+    if (change.status !== 'active' && !reason) {
+      throw new ValidationError('Give a reason for this change');
+    }
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      throw new ValidationError('The suspension must end in the future');
+    }
+
+    const { data, error } = await supabase.rpc('set_account_status', {
+      p_user_id: userId,
+      p_status: change.status,
+      p_reason: reason || null,
+      p_expires_at: expiresAt,
+    });
+
+    if (error) {
+      console.error('Error changing account status:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Every state change for a user, newest first
+  static async getHistory(userId: string): Promise<AccountStatusHistoryWithActor[]> {
+    const { data, error } = await supabase
+      .from('account_status_history')
+      .select('*, changer:profiles!account_status_history_changed_by_fkey(full_name, email)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching account status history:', error);
+      throw error;
+    }
+
+    return (data || []) as AccountStatusHistoryWithActor[];
+  }
+}
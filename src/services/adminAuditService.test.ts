@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { AdminAuditLogEntry } from '@/integrations/supabase/types';
+import { AUDIT_PAGE_SIZE, AdminAuditService, auditChanges, auditLogToCsv } from './adminAuditService';
+
+const entry = (overrides: Partial<AdminAuditLogEntry>) => ({
+  id: crypto.randomUUID(),
+  actor_id: 'admin-1',
+  actor_email: 'ada@example.com',
+  action: 'properties.update',
+  target_table: 'properties',
+  target_id: 'property-1',
+  before: { status: 'pending' },
+  after: { status: 'active' },
+  created_at: '2025-06-10T12:00:00Z',
+  ...overrides,
+});
+
+describe('auditChanges', () => {
+  it('lines up before and after values field by field', () => {
+    expect(auditChanges({ before: { role: 'renter' }, after: { role: 'landlord', full_name: 'Ada' } })).toEqual([
+      { field: 'full_name', before: null, after: 'Ada' },
+      { field: 'role', before: 'renter', after: 'landlord' },
+    ]);
+  });
+});
+
+describe('auditLogToCsv', () => {
+  it('labels actions and quotes the JSON diffs', () => {
+    const csv = auditLogToCsv([entry({ action: 'user_roles.insert', target_table: 'user_roles', before: null, after: { role: 'admin' } })]);
+
+    expect(csv.split('\n')).toEqual([
+      'Time,Admin,Action,Target,Target ID,Before,After',
+      '2025-06-10T12:00:00Z,ada@example.com,Role granted,User roles,property-1,,"{""role"":""admin""}"',
+    ]);
+  });
+});
+
+describe('AdminAuditService', () => {
+  it('filters by action, admin and date, newest first', async () => {
+    fakeSupabase.seed('admin_audit_log', [
+      entry({ id: 'old', created_at: '2025-06-01T12:00:00Z' }),
+      entry({ id: 'other-admin', actor_email: 'ben@example.com' }),
+      entry({ id: 'delete', action: 'properties.delete' }),
+      entry({ id: 'match-1', created_at: '2025-06-09T08:00:00Z' }),
+      entry({ id: 'match-2', created_at: '2025-06-10T08:00:00Z' }),
+    ]);
+
+    const { entries, total } = await AdminAuditService.getEntries({
+      action: 'properties.update',
+      actor: ' ADA@',
+      from: '2025-06-05',
+      to: '2025-06-10',
+    });
+
+    expect(entries.map(e => e.id)).toEqual(['match-2', 'match-1']);
+    expect(total).toBe(2);
+  });
+
+  it('pages through the log', async () => {
+    fakeSupabase.seed('admin_audit_log', Array.from({ length: AUDIT_PAGE_SIZE + 3 }, (_, i) =>
+      entry({ created_at: new Date(Date.UTC(2025, 5, 1, 0, i)).toISOString() })
+    ));
+
+    const { entries, total } = await AdminAuditService.getEntries({}, 2);
+
+    expect(entries).toHaveLength(3);
+    expect(total).toBe(AUDIT_PAGE_SIZE + 3);
+  });
+});
@@ -0,0 +1,141 @@
+import supabase from '@/integrations/supabase/client';
+import { AdminAuditLogEntry } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+
+export const AUDIT_PAGE_SIZE = 25;
+// Exports stop here so a wide date range can't pull the whole table into the browser
+export const AUDIT_EXPORT_LIMIT = 5000;
+
+export interface AdminAuditFilters {
+  action?: string;
+  targetTable?: string;
+  // Matches part of the acting admin's email
+  actor?: string;
+  targetId?: string;
+  // Inclusive yyyy-MM-dd dates
+  from?: string;
+  to?: string;
+}
+
+export interface AdminAuditPage {
+  entries: AdminAuditLogEntry[];
+  total: number;
+}
+
+export const AUDIT_TARGET_LABELS: Record<string, string> = {
+  user_roles: 'User roles',
+  user_staff_roles: 'Staff roles',
+  profiles: 'Users',
+  properties: 'Listings',
+  property_reviews: 'Listing reviews',
+  landlord_verifications: 'Landlord verifications',
+  property_reports: 'Listing reports',
+  chat_rooms: 'Conversations',
+  platform_settings: 'Platform settings',
+  database_backups: 'Backups',
+};
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'user_roles.insert': 'Role granted',
+  'user_roles.delete': 'Role removed',
+  'user_staff_roles.insert': 'Staff role granted',
+  'user_staff_roles.delete': 'Staff role removed',
+  'profiles.update': 'User updated',
+  'profiles.delete': 'User deleted',
+  'properties.insert': 'Listing created',
+  'properties.update': 'Listing updated',
+  'properties.delete': 'Listing deleted',
+  'property_reviews.insert': 'Listing reviewed',
+  'landlord_verifications.update': 'Verification reviewed',
+  'property_reports.update': 'Report resolved',
+  'chat_rooms.update': 'Conversation updated',
+  'chat_rooms.delete': 'Conversation deleted',
+  'platform_settings.update': 'Setting changed',
+  'database_backups.insert': 'Backup or restore run',
+};
+
+export const describeAuditAction = (action: string) => AUDIT_ACTION_LABELS[action] ?? action;
+
+// Column-by-column changes, for updates only the ones that differ
+export const auditChanges = (entry: Pick<AdminAuditLogEntry, 'before' | 'after'>) => {
+  const keys = new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]);
+  return [...keys].sort().map(key => ({
+    field: key,
+    before: entry.before?.[key] ?? null,
+    after: entry.after?.[key] ?? null,
+  }));
+};
+
+const encodeCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditLogToCsv = (entries: AdminAuditLogEntry[]) =>
+  [
+    ['Time', 'Admin', 'Action', 'Target', 'Target ID', 'Before', 'After'],
+    ...entries.map(entry => [
+      entry.created_at,
+      entry.actor_email ?? entry.actor_id,
+      describeAuditAction(entry.action),
+      AUDIT_TARGET_LABELS[entry.target_table] ?? entry.target_table,
+      entry.target_id,
+      entry.before,
+      entry.after,
+    ]),
+  ]
+    .map(row => row.map(encodeCsvCell).join(','))
+    .join('\n');
+
+const buildQuery = (filters: AdminAuditFilters, withCount: boolean) => {
+  let query = supabase
+    .from('admin_audit_log')
+    .select('*', withCount ? { count: 'exact' } : undefined)
+    .order('created_at', { ascending: false });
+
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.targetTable) query = query.eq('target_table', filters.targetTable);
+  if (filters.targetId?.trim()) query = query.eq('target_id', filters.targetId.trim());
+  if (filters.actor?.trim()) query = query.ilike('actor_email', `%${filters.actor.trim()}%`);
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+  return query;
+};
+
+export class AdminAuditService {
+  // One page of audit entries matching the filters, newest first
+  static async getEntries(filters: AdminAuditFilters = {}, page = 1): Promise<AdminAuditPage> {
+    const from = (page - 1) * AUDIT_PAGE_SIZE;
+    const { data, error, count } = await buildQuery(filters, true).range(from, from + AUDIT_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching audit log:', error);
+      throw error;
+    }
+
+    return { entries: data || [], total: count ?? 0 };
+  }
+
+  // Download every entry matching the filters, up to the export limit, as CSV
+  static async exportCsv(filters: AdminAuditFilters = {}): Promise<number> {
+    const { data, error } = await buildQuery(filters, false).limit(AUDIT_EXPORT_LIMIT);
+
+    if (error) {
+      console.error('Error exporting audit log:', error);
+      throw error;
+    }
+
+    const entries = data || [];
+    const blob = new Blob([auditLogToCsv(entries)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `admin-audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+
+    return entries.length;
+  }
+}
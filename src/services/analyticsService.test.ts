@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { AnalyticsService, Property } from './analyticsService';
+
+const baseScoreInputs = { views: 0, inquiries: 0, netIncome: 0, roi: 0, status: 'pending', occupancyRate: 0 };
+
+const property = (overrides: Partial<Property>): Property => ({
+  id: 'property-1',
+  landlord_id: 'landlord-1',
+  title: 'Two bedroom flat',
+  price: 1200000,
+  status: 'active',
+  created_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
+  ...overrides,
+}) as Property;
+
+describe('AnalyticsService.calculateScores', () => {
+  it('starts every score at 50', () => {
+    expect(AnalyticsService.calculateScores(baseScoreInputs)).toEqual({
+      popularityScore: 50,
+      profitabilityScore: 50,
+      marketScore: 50,
+      overallScore: 50,
+    });
+  });
+
+  it('adds 25 per signal and caps at 100', () => {
+    expect(AnalyticsService.calculateScores({
+      views: 10,
+      inquiries: 2,
+      netIncome: 500000,
+      roi: 12,
+      status: 'active',
+      occupancyRate: 95,
+    })).toEqual({ popularityScore: 100, profitabilityScore: 100, marketScore: 100, overallScore: 100 });
+  });
+
+  it('rounds the overall score', () => {
+    const scores = AnalyticsService.calculateScores({ ...baseScoreInputs, views: 3, status: 'active' });
+
+    expect(scores.popularityScore).toBe(75);
+    expect(scores.marketScore).toBe(75);
+    expect(scores.overallScore).toBe(67);
+  });
+
+  it('needs occupancy above 80 and a positive ROI', () => {
+    const scores = AnalyticsService.calculateScores({ ...baseScoreInputs, occupancyRate: 80, netIncome: 100, roi: 0 });
+
+    expect(scores.marketScore).toBe(50);
+    expect(scores.profitabilityScore).toBe(75);
+  });
+});
+
+describe('AnalyticsService.buildFunnel', () => {
+  it('reports each stage as a share of the one before it', () => {
+    expect(AnalyticsService.buildFunnel(200, 30, 9)).toEqual([
+      { stage: 'Views', count: 200, rate: 100 },
+      { stage: 'Inquiries', count: 30, rate: 15 },
+      { stage: 'Applications', count: 9, rate: 30 },
+    ]);
+  });
+
+  it('avoids dividing by zero and caps rates at 100', () => {
+    expect(AnalyticsService.buildFunnel(0, 4, 6).map(stage => stage.rate)).toEqual([100, 0, 100]);
+  });
+});
+
+describe('AnalyticsService.getPropertyPerformance', () => {
+  it('combines views, inquiries, applications and completed transactions per property', async () => {
+    fakeSupabase
+      .seed('property_views', [
+        { property_id: 'property-1', view_date: '2025-06-01', count: 40 },
+        { property_id: 'property-1', view_date: '2025-06-02', count: 10 },
+        { property_id: 'property-2', view_date: '2025-06-02', count: 5 },
+      ])
+      .seed('chat_rooms', [{ property_id: 'property-1' }, { property_id: 'property-1' }])
+      .seed('rental_applications', [{ property_id: 'property-1' }])
+      .seed('property_financial_metrics', [{ property_id: 'property-1', occupancy_rate: 90 }])
+      .seed('property_transactions', [
+        { property_id: 'property-1', transaction_type: 'rent_payment', amount: 1200000, status: 'completed' },
+        { property_id: 'property-1', transaction_type: 'maintenance_cost', amount: 200000, status: 'completed' },
+        { property_id: 'property-1', transaction_type: 'rent_payment', amount: 1200000, status: 'pending' },
+      ]);
+
+    const [first, second] = await AnalyticsService.getPropertyPerformance([
+      property({ id: 'property-1', square_feet: 600 }),
+      property({ id: 'property-2', status: 'pending' }),
+    ]);
+
+    expect(first).toMatchObject({
+      id: 'property-1',
+      views: 50,
+      inquiries: 2,
+      applications: 1,
+      conversionRate: 4,
+      daysOnMarket: 10,
+      pricePerSqFt: 2000,
+      maintenanceCosts: 200000,
+      netIncome: 1000000,
+      roi: 83.33,
+      occupancyRate: 90,
+      popularityScore: 100,
+      profitabilityScore: 100,
+      marketScore: 100,
+      overallScore: 100,
+    });
+    expect(second).toMatchObject({
+      id: 'property-2',
+      views: 5,
+      inquiries: 0,
+      applications: 0,
+      conversionRate: 0,
+      netIncome: 0,
+      popularityScore: 75,
+      profitabilityScore: 50,
+      marketScore: 50,
+      overallScore: 58,
+    });
+  });
+
+  it('returns nothing for an empty portfolio without querying', async () => {
+    await expect(AnalyticsService.getPropertyPerformance([])).resolves.toEqual([]);
+    expect(fakeSupabase.queries).toHaveLength(0);
+  });
+});
@@ -1,11 +1,18 @@
 import supabase from '@/integrations/supabase/client';
 import { Property as BaseProperty } from '@/lib/supabase';
 import { PropertyTransaction, PropertyFinancialMetrics } from '@/integrations/supabase/types';
+import {
+  INCOME_TRANSACTION_TYPES,
+  LedgerService,
+  POSTED_TRANSACTION_STATUSES,
+  summarizeTransactions,
+} from '@/services/ledgerService';
 
 export interface PropertyMetrics {
   id: string;
   views: number;
   inquiries: number;
+  applications: number;
   conversionRate: number;
   averageRating: number;
   daysOnMarket: number;
@@ -20,12 +27,35 @@ export interface PropertyMetrics {
   roi: number;
 }
 
+export interface PropertyScoreInputs {
+  views: number;
+  inquiries: number;
+  netIncome: number;
+  roi: number;
+  status: string | null;
+  occupancyRate: number;
+}
+
+export interface PropertyScores {
+  popularityScore: number;
+  profitabilityScore: number;
+  marketScore: number;
+  overallScore: number;
+}
+
 export interface AnalyticsData {
   date: string;
   value: number;
   label: string;
 }
 
+export interface FunnelStage {
+  stage: string;
+  count: number;
+  // Share of the previous stage that reached this one, as a percentage
+  rate: number;
+}
+
 export interface MarketInsights {
   priceRanges: { range: string; count: number }[];
   averageRent: number;
@@ -48,6 +78,7 @@ export interface FinancialMetrics {
 export interface Property extends BaseProperty {
   views?: number;
   chat_rooms?: any[];
+  rental_applications?: { id: string }[];
   property_financial_metrics?: PropertyFinancialMetrics[];
   property_transactions?: PropertyTransaction[];
 }
@@ -63,6 +94,7 @@ export class AnalyticsService {
         .select(`
           *,
           chat_rooms (*),
+          rental_applications (id),
           property_financial_metrics (*),
           property_transactions (*)
         `)
@@ -79,6 +111,7 @@ export class AnalyticsService {
 
       const metrics = await Promise.all(properties.map(async (property: Property) => {
         const inquiries = property.chat_rooms?.length ?? 0;
+        const applications = property.rental_applications?.length ?? 0;
         const daysOnMarket = property.created_at ? 
           Math.floor((Date.now() - new Date(property.created_at).getTime()) / (1000 * 60 * 60 * 24)) : 
           0;
@@ -113,42 +146,25 @@ export class AnalyticsService {
         const netIncome = financialMetrics.net_income ?? 0;
         const roi = totalInvestment > 0 ? (netIncome / totalInvestment) * 100 : 0;
         
-        // Calculate scores based on real metrics
-        const popularityScore = Math.min(
-          50 + // Base score
-          (views > 0 ? 25 : 0) + // Has views
-          (inquiries > 0 ? 25 : 0), // Has inquiries
-          100
-        );
-        
-        const profitabilityScore = Math.min(
-          50 + // Base score
-          (netIncome > 0 ? 25 : 0) + // Profitable
-          (roi > 0 ? 25 : 0), // Positive ROI
-          100
-        );
-        
-        const marketScore = Math.min(
-          50 + // Base score
-          (property.status === 'active' ? 25 : 0) + // Active listing
-          (financialMetrics.occupancy_rate > 80 ? 25 : 0), // High occupancy
-          100
-        );
-        
-        const overallScore = Math.round((popularityScore + profitabilityScore + marketScore) / 3);
+        const scores = this.calculateScores({
+          views,
+          inquiries,
+          netIncome,
+          roi,
+          status: property.status,
+          occupancyRate: financialMetrics.occupancy_rate ?? 0,
+        });
 
         return {
           id: property.id,
           views,
           inquiries,
+          applications,
           conversionRate: Math.round(conversionRate * 10) / 10,
           averageRating: Math.round(averageRating * 10) / 10,
           daysOnMarket,
           pricePerSqFt,
-          marketScore: Math.round(marketScore),
-          popularityScore: Math.round(popularityScore),
-          profitabilityScore: Math.round(profitabilityScore),
-          overallScore,
+          ...scores,
           occupancyRate: financialMetrics.occupancy_rate ?? 0,
           maintenanceCosts,
           netIncome,
@@ -191,15 +207,16 @@ export class AnalyticsService {
         .from('property_views')
         .select('property_id, view_date, count')
         .eq('landlord_id', landlordId)
-        .gte('view_date', startDate.toISOString());
+        .gte('view_date', startDate.toISOString().split('T')[0]);
 
-      // Get actual transactions for revenue calculation
+      // Get actual transactions for revenue calculation; refunds of rent and other income reduce it
       const { data: transactions } = await supabase
         .from('property_transactions')
         .select('*')
-        .eq('status', 'completed')
-        .in('transaction_type', ['rent_payment', 'deposit', 'other_income'])
+        .in('status', POSTED_TRANSACTION_STATUSES)
+        .in('transaction_type', [...INCOME_TRANSACTION_TYPES, 'refund'])
         .gte('payment_date', startDate.toISOString());
+      const refundedTypes = await LedgerService.getRefundedTypes(transactions || []);
       
       // Generate daily data points
       for (let i = days - 1; i >= 0; i--) {
@@ -214,9 +231,10 @@ export class AnalyticsService {
         switch (type) {
           case "revenue": {
             // Calculate actual revenue from completed transactions
-            value = transactions?.filter(t => 
-              new Date(t.payment_date).toISOString().split('T')[0] === dateStr
-            ).reduce((sum, t) => sum + (t.amount || 0), 0) ?? 0;
+            value = summarizeTransactions(
+              transactions?.filter(t => new Date(t.payment_date).toISOString().split('T')[0] === dateStr) ?? [],
+              refundedTypes
+            ).revenue;
             break;
           }
             
@@ -253,6 +271,73 @@ export class AnalyticsService {
     }
   }
 
+  // Score a property out of 100 on popularity, profitability and market fit; each starts at 50
+  static calculateScores({ views, inquiries, netIncome, roi, status, occupancyRate }: PropertyScoreInputs): PropertyScores {
+    const popularityScore = 50 + (views > 0 ? 25 : 0) + (inquiries > 0 ? 25 : 0);
+    const profitabilityScore = 50 + (netIncome > 0 ? 25 : 0) + (roi > 0 ? 25 : 0);
+    const marketScore = 50 + (status === 'active' ? 25 : 0) + (occupancyRate > 80 ? 25 : 0);
+
+    return {
+      popularityScore,
+      profitabilityScore,
+      marketScore,
+      overallScore: Math.round((popularityScore + profitabilityScore + marketScore) / 3),
+    };
+  }
+
+  // Build the view -> inquiry -> application funnel from stage totals
+  static buildFunnel(views: number, inquiries: number, applications: number): FunnelStage[] {
+    const rate = (count: number, previous: number) =>
+      previous > 0 ? Math.round(Math.min((count / previous) * 100, 100) * 10) / 10 : 0;
+
+    return [
+      { stage: 'Views', count: views, rate: 100 },
+      { stage: 'Inquiries', count: inquiries, rate: rate(inquiries, views) },
+      { stage: 'Applications', count: applications, rate: rate(applications, inquiries) },
+    ];
+  }
+
+  // Get the conversion funnel across a landlord's properties for a time range
+  static async getConversionFunnel(landlordId: string, timeRange: string): Promise<FunnelStage[]> {
+    if (!landlordId) return this.buildFunnel(0, 0, 0);
+
+    const days = timeRange === "7d" ? 7 : timeRange === "30d" ? 30 : 90;
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    try {
+      const [views, inquiries, applications] = await Promise.all([
+        supabase
+          .from('property_views')
+          .select('count')
+          .eq('landlord_id', landlordId)
+          .gte('view_date', startDate.toISOString().split('T')[0]),
+        supabase
+          .from('chat_rooms')
+          .select('id, properties!inner(landlord_id)', { count: 'exact', head: true })
+          .eq('properties.landlord_id', landlordId)
+          .gte('created_at', startDate.toISOString()),
+        supabase
+          .from('rental_applications')
+          .select('id, properties!inner(landlord_id)', { count: 'exact', head: true })
+          .eq('properties.landlord_id', landlordId)
+          .gte('created_at', startDate.toISOString()),
+      ]);
+
+      const error = views.error || inquiries.error || applications.error;
+      if (error) throw error;
+
+      return this.buildFunnel(
+        views.data?.reduce((sum, v) => sum + (v.count || 0), 0) ?? 0,
+        inquiries.count ?? 0,
+        applications.count ?? 0
+      );
+    } catch (error) {
+      console.error('Error fetching conversion funnel:', error);
+      return this.buildFunnel(0, 0, 0);
+    }
+  }
+
   // Get property performance metrics
   static async getPropertyPerformance(properties: Property[]): Promise<PropertyMetrics[]> {
     try {
@@ -275,28 +360,35 @@ export class AnalyticsService {
       // Fetch views for all properties
       const { data: viewsData } = await supabase
         .from('property_views')
-        .select('*')
+        .select('property_id, count')
+        .in('property_id', propertyIds);
+
+      // Fetch inquiries and applications for all properties
+      const { data: chatRooms } = await supabase
+        .from('chat_rooms')
+        .select('property_id')
+        .in('property_id', propertyIds);
+
+      const { data: applicationsData } = await supabase
+        .from('rental_applications')
+        .select('property_id')
         .in('property_id', propertyIds);
 
       // Map metrics for each property
       const metrics = properties.map(property => {
         const propertyMetrics = financialMetrics?.find(m => m.property_id === property.id);
         const propertyTransactions = transactions?.filter(t => t.property_id === property.id) || [];
-        const propertyViews = viewsData?.find(v => v.property_id === property.id)?.count || 0;
+        const propertyViews = viewsData?.filter(v => v.property_id === property.id)
+          .reduce((sum, v) => sum + (v.count || 0), 0) ?? 0;
+        const inquiries = chatRooms?.filter(c => c.property_id === property.id).length ?? 0;
+        const applications = applicationsData?.filter(a => a.property_id === property.id).length ?? 0;
 
         const daysOnMarket = Math.floor(
           (Date.now() - new Date(property.created_at).getTime()) / (1000 * 60 * 60 * 24)
         );
 
-        // Calculate actual revenue from completed transactions
-        const revenue = propertyTransactions
-          .filter(t => t.status === 'completed' && ['rent_payment', 'deposit', 'other_income'].includes(t.transaction_type))
-          .reduce((sum, t) => sum + (t.amount || 0), 0);
-
-        // Calculate total expenses from completed transactions
-        const expenses = propertyTransactions
-          .filter(t => t.status === 'completed' && ['maintenance_cost', 'utility_payment', 'insurance', 'tax', 'other_expense'].includes(t.transaction_type))
-          .reduce((sum, t) => sum + (t.amount || 0), 0);
+        // Calculate actual revenue and expenses from completed transactions
+        const { revenue, expenses } = summarizeTransactions(propertyTransactions);
 
         // Calculate maintenance costs from completed transactions
         const maintenanceCosts = propertyTransactions
@@ -310,42 +402,25 @@ export class AnalyticsService {
         const totalInvestment = property.price || 0;
         const roi = totalInvestment > 0 ? (netIncome / totalInvestment) * 100 : 0;
 
-        // Calculate scores based on real metrics
-        const popularityScore = Math.min(
-          50 + // Base score
-          (propertyViews > 0 ? 25 : 0) + // Has views
-          (propertyTransactions.length > 0 ? 25 : 0), // Has transactions
-          100
-        );
-
-        const profitabilityScore = Math.min(
-          50 + // Base score
-          (netIncome > 0 ? 25 : 0) + // Profitable
-          (roi > 0 ? 25 : 0), // Positive ROI
-          100
-        );
-
-        const marketScore = Math.min(
-          50 + // Base score
-          (property.status === 'active' ? 25 : 0) + // Active listing
-          (propertyMetrics?.occupancy_rate > 80 ? 25 : 0), // High occupancy
-          100
-        );
-
-        const overallScore = Math.round((popularityScore + profitabilityScore + marketScore) / 3);
+        const scores = this.calculateScores({
+          views: propertyViews,
+          inquiries,
+          netIncome,
+          roi,
+          status: property.status,
+          occupancyRate: propertyMetrics?.occupancy_rate ?? 0,
+        });
 
         return {
           id: property.id,
           views: propertyViews,
-          inquiries: propertyTransactions.length,
-          conversionRate: propertyViews > 0 ? Math.min((propertyTransactions.length / propertyViews) * 100, 100) : 0,
+          inquiries,
+          applications,
+          conversionRate: propertyViews > 0 ? Math.round(Math.min((inquiries / propertyViews) * 100, 100) * 10) / 10 : 0,
           averageRating: property.average_rating ?? 0,
           daysOnMarket,
           pricePerSqFt: property.price && property.square_feet ? Math.round(property.price / property.square_feet) : 0,
-          marketScore: Math.round(marketScore),
-          popularityScore: Math.round(popularityScore),
-          profitabilityScore: Math.round(profitabilityScore),
-          overallScore,
+          ...scores,
           occupancyRate: propertyMetrics?.occupancy_rate || 0,
           maintenanceCosts,
           netIncome,
@@ -420,24 +495,17 @@ export class AnalyticsService {
 
       const propertyIds = properties.map(p => p.id);
 
-      // Get all completed transactions for the properties
+      // Get all posted transactions for the properties
       const { data: transactions, error: transactionsError } = await supabase
         .from('property_transactions')
         .select('*')
         .in('property_id', propertyIds)
-        .eq('status', 'completed');
+        .in('status', POSTED_TRANSACTION_STATUSES);
 
       if (transactionsError) throw transactionsError;
 
-      // Calculate revenue from actual transactions
-      const revenue = transactions
-        ?.filter(t => ['rent_payment', 'deposit', 'other_income'].includes(t.transaction_type))
-        .reduce((sum, t) => sum + (t.amount || 0), 0) ?? 0;
-
-      // Calculate operating costs from actual transactions
-      const operatingCosts = transactions
-        ?.filter(t => ['maintenance_cost', 'utility_payment', 'insurance', 'tax', 'other_expense'].includes(t.transaction_type))
-        .reduce((sum, t) => sum + (t.amount || 0), 0) ?? 0;
+      // Calculate revenue and operating costs from actual transactions
+      const { revenue, expenses: operatingCosts } = summarizeTransactions(transactions || []);
 
       // Calculate net operating income
       const netOperatingIncome = revenue - operatingCosts;
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ValidationError } from '@/utils/errorHandling';
+import { ApplicationService, RentalApplicationInput, canTransitionApplication } from './applicationService';
+
+const input: RentalApplicationInput = {
+  property_id: 'property-1',
+  renter_id: 'renter-1',
+  full_name: 'Ngozi Okafor',
+  email: 'ngozi@example.com',
+  employment_info: 'Software engineer',
+  references_info: 'Previous landlord',
+  document_urls: ['https://files.example.com/id.pdf'],
+  rent_amount: 1200000,
+};
+
+const seedApplications = () =>
+  fakeSupabase.seed('rental_applications', [], { unique: [['property_id', 'renter_id']] });
+
+describe('canTransitionApplication', () => {
+  it('follows pending -> approved -> paid, with rejection only from pending', () => {
+    expect(canTransitionApplication('application_pending', 'application_approved')).toBe(true);
+    expect(canTransitionApplication('application_pending', 'application_rejected')).toBe(true);
+    expect(canTransitionApplication('application_approved', 'payment_completed')).toBe(true);
+
+    expect(canTransitionApplication('application_pending', 'payment_completed')).toBe(false);
+    expect(canTransitionApplication('application_approved', 'application_rejected')).toBe(false);
+    expect(canTransitionApplication('application_rejected', 'application_approved')).toBe(false);
+    expect(canTransitionApplication('payment_completed', 'application_pending')).toBe(false);
+    expect(canTransitionApplication('unknown', 'application_approved')).toBe(false);
+  });
+});
+
+describe('ApplicationService', () => {
+  it('submits a pending application', async () => {
+    seedApplications();
+
+    const application = await ApplicationService.submit(input);
+
+    expect(application).toMatchObject({ ...input, status: 'application_pending' });
+    await expect(ApplicationService.getExisting('property-1', 'renter-1')).resolves.toMatchObject({
+      id: application.id,
+      status: 'application_pending',
+    });
+    await expect(ApplicationService.getExisting('property-1', 'renter-2')).resolves.toBeNull();
+  });
+
+  it('requires documents and blocks a second application for the same property', async () => {
+    seedApplications();
+
+    await expect(ApplicationService.submit({ ...input, document_urls: [] })).rejects.toBeInstanceOf(ValidationError);
+    await ApplicationService.submit(input);
+    await expect(ApplicationService.submit(input)).rejects.toThrow('You have already applied for this property');
+    expect(fakeSupabase.rows('rental_applications')).toHaveLength(1);
+  });
+
+  it('walks an application through approval and payment', async () => {
+    seedApplications();
+    const { id } = await ApplicationService.submit(input);
+
+    const approved = await ApplicationService.updateStatus(id, 'application_approved', 'ignored');
+    expect(approved.status).toBe('application_approved');
+    expect(approved.rejection_reason).not.toBe('ignored');
+
+    const paid = await ApplicationService.updateStatus(id, 'payment_completed');
+    expect(paid.status).toBe('payment_completed');
+
+    await expect(ApplicationService.updateStatus(id, 'application_rejected')).rejects.toThrow(
+      "A payment completed application can't be marked rejected"
+    );
+  });
+
+  it('records the reason when rejecting and keeps the decision final', async () => {
+    seedApplications();
+    const { id } = await ApplicationService.submit(input);
+
+    const rejected = await ApplicationService.updateStatus(id, 'application_rejected', 'Income too low');
+    expect(rejected).toMatchObject({ status: 'application_rejected', rejection_reason: 'Income too low' });
+
+    await expect(ApplicationService.updateStatus(id, 'application_approved')).rejects.toBeInstanceOf(ValidationError);
+    expect(fakeSupabase.rows('rental_applications')[0].status).toBe('application_rejected');
+  });
+
+  it('notifies realtime subscribers of status changes', async () => {
+    seedApplications();
+    const { id } = await ApplicationService.submit(input);
+    const changes: string[] = [];
+    fakeSupabase
+      .channel('rental_applications_changes')
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'rental_applications', filter: 'renter_id=eq.renter-1' },
+        payload => changes.push((payload.new as { status: string }).status))
+      .subscribe();
+
+    await ApplicationService.updateStatus(id, 'application_approved');
+
+    expect(changes).toEqual(['application_approved']);
+  });
+
+  it('surfaces database errors', async () => {
+    seedApplications();
+    fakeSupabase.failNext('rental_applications', { code: '42501', message: 'permission denied' });
+
+    await expect(ApplicationService.getExisting('property-1', 'renter-1')).rejects.toMatchObject({ code: '42501' });
+  });
+});
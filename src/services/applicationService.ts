@@ -0,0 +1,122 @@
+import supabase from '@/integrations/supabase/client';
+import { Database, RentalApplicationStatus } from '@/integrations/supabase/types';
+import { ValidationError } from '@/utils/errorHandling';
+
+export type RentalApplication = Database['public']['Tables']['rental_applications']['Row'];
+
+export interface RentalApplicationInput {
+  property_id: string;
+  renter_id: string;
+  full_name: string;
+  email: string;
+  phone?: string | null;
+  employment_info?: string | null;
+  references_info?: string | null;
+  document_urls: string[];
+  rent_amount: number;
+}
+
+export const APPLICATION_STATUS_LABELS: Record<RentalApplicationStatus, string> = {
+  application_pending: 'Pending Review',
+  application_approved: 'Approved',
+  application_rejected: 'Rejected',
+  payment_completed: 'Payment Completed',
+};
+
+// An application is reviewed once, then paid for; rejected and paid applications are final
+export const APPLICATION_STATUS_TRANSITIONS: Record<RentalApplicationStatus, RentalApplicationStatus[]> = {
+  application_pending: ['application_approved', 'application_rejected'],
+  application_approved: ['payment_completed'],
+  application_rejected: [],
+  payment_completed: [],
+};
+
+export const canTransitionApplication = (from: string, to: RentalApplicationStatus): boolean =>
+  APPLICATION_STATUS_TRANSITIONS[from as RentalApplicationStatus]?.includes(to) ?? false;
+
+export class ApplicationService {
+  // Get a renter's application for a property, if they have one
+  static async getExisting(
+    propertyId: string,
+    renterId: string
+  ): Promise<Pick<RentalApplication, 'id' | 'status' | 'created_at'> | null> {
+    const { data, error } = await supabase
+      .from('rental_applications')
+      .select('id, status, created_at')
+      .eq('property_id', propertyId)
+      .eq('renter_id', renterId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching existing application:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Submit a new application for review
+  static async submit(input: RentalApplicationInput): Promise<RentalApplication> {
+    if (input.document_urls.length === 0) {
+      throw new ValidationError('Please upload at least one document (ID, proof of income, etc.)');
+    }
+
+    const { data, error } = await supabase
+      .from('rental_applications')
+      .insert({ ...input, status: 'application_pending' })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ValidationError('You have already applied for this property');
+      }
+      console.error('Error submitting application:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Move an application to its next status, rejecting transitions the lifecycle doesn't allow
+  static async updateStatus(
+    applicationId: string,
+    status: RentalApplicationStatus,
+    rejectionReason?: string
+  ): Promise<RentalApplication> {
+    const { data: current, error: fetchError } = await supabase
+      .from('rental_applications')
+      .select('status')
+      .eq('id', applicationId)
+      .single();
+
+    if (fetchError) {
+      console.error('Error fetching application:', fetchError);
+      throw fetchError;
+    }
+
+    if (!canTransitionApplication(current.status, status)) {
+      const from = APPLICATION_STATUS_LABELS[current.status as RentalApplicationStatus] || current.status;
+      throw new ValidationError(`A ${from.toLowerCase()} application can't be marked ${APPLICATION_STATUS_LABELS[status].toLowerCase()}`);
+    }
+
+    const { data, error } = await supabase
+      .from('rental_applications')
+      .update({
+        status,
+        rejection_reason: status === 'application_rejected' ? rejectionReason || null : undefined,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', applicationId)
+      .eq('status', current.status)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating application status:', error);
+      throw error;
+    }
+
+    return data;
+  }
+}
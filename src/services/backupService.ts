@@ -0,0 +1,291 @@
+import supabase from '@/integrations/supabase/client';
+import { DatabaseBackup, DatabaseBackupFormat, Json } from '@/integrations/supabase/types';
+import { ValidationError } from '@/utils/errorHandling';
+
+const BACKUP_BUCKET = 'database-backups';
+
+export const BACKUP_FORMAT = 'landlord-no-agent-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Restore order matters: parents are listed before the tables that reference them
+export const BACKUP_TABLES = [
+  'profiles',
+  'properties',
+  'rental_applications',
+  'chat_rooms',
+  'messages',
+  'notifications',
+  'saved_properties',
+  'property_reviews',
+] as const;
+
+export type BackupTable = typeof BACKUP_TABLES[number];
+export type BackupRow = Record<string, unknown>;
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  tables: Record<BackupTable, BackupRow[]>;
+}
+
+export interface RestoreTableDiff {
+  in_bundle: number;
+  already_present: number;
+  missing_parent: number;
+  failed_checks: number;
+  to_insert: number;
+  unknown_columns: string[];
+}
+
+export interface RestoreReport {
+  dry_run: boolean;
+  tables: Record<BackupTable, RestoreTableDiff>;
+}
+
+export type DatabaseBackupWithActor = DatabaseBackup & {
+  actor?: { full_name: string | null; email: string } | null;
+};
+
+interface CsvCell {
+  value: string;
+  quoted: boolean;
+}
+
+// Empty unquoted cells are null and "" is an empty string, so CSV bundles round-trip
+const encodeCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text === '' || /[",\n\r#]/.test(text) || text.trim() !== text
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+const decodeCsvCell = ({ value, quoted }: CsvCell): unknown => {
+  if (!quoted && value === '') return null;
+  if (value.startsWith('{') || value.startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+};
+
+const parseCsv = (text: string): CsvCell[][] => {
+  const rows: CsvCell[][] = [];
+  let row: CsvCell[] = [];
+  let cell: CsvCell = { value: '', quoted: false };
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell.value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell.value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+      cell.quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = { value: '', quoted: false };
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = { value: '', quoted: false };
+    } else {
+      cell.value += char;
+    }
+  }
+
+  if (cell.value !== '' || cell.quoted || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const emptyTables = (): Record<BackupTable, BackupRow[]> =>
+  Object.fromEntries(BACKUP_TABLES.map(table => [table, []])) as Record<BackupTable, BackupRow[]>;
+
+const validateBundle = (bundle: Partial<BackupBundle>): BackupBundle => {
+  if (bundle?.format !== BACKUP_FORMAT || !bundle.tables) {
+    throw new ValidationError('This file is not a backup bundle');
+  }
+  if (bundle.version !== BACKUP_FORMAT_VERSION) {
+    throw new ValidationError(`Unsupported backup version ${bundle.version}`);
+  }
+  return { ...bundle, tables: { ...emptyTables(), ...bundle.tables } } as BackupBundle;
+};
+
+export const getBundleCounts = (bundle: BackupBundle): Record<BackupTable, number> =>
+  Object.fromEntries(BACKUP_TABLES.map(table => [table, bundle.tables[table]?.length ?? 0])) as Record<BackupTable, number>;
+
+// Write a bundle as JSON, or as one CSV section per table under a "## table" marker
+export const serializeBundle = (bundle: BackupBundle, format: DatabaseBackupFormat): string => {
+  if (format === 'json') return JSON.stringify(bundle, null, 2);
+
+  const lines = [`#${bundle.format},${bundle.version},${bundle.created_at}`];
+  BACKUP_TABLES.forEach(table => {
+    const rows = bundle.tables[table] || [];
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    lines.push('', `## ${table}`, columns.join(','));
+    rows.forEach(row => lines.push(columns.map(column => encodeCsvCell(row[column])).join(',')));
+  });
+  return lines.join('\n');
+};
+
+export const parseBundle = (text: string): BackupBundle => {
+  if (text.trimStart().startsWith('{')) {
+    try {
+      return validateBundle(JSON.parse(text));
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new ValidationError('The backup file is not valid JSON');
+    }
+  }
+
+  const rows = parseCsv(text);
+  const [format, version, createdAt] = (rows[0] || []).map(cell => cell.value);
+  const tables = emptyTables();
+  let current: BackupTable | null = null;
+  let columns: string[] | null = null;
+
+  rows.slice(1).forEach(row => {
+    const first = row[0];
+    if (!first || (row.length === 1 && !first.quoted && first.value === '')) return;
+
+    if (!first.quoted && first.value.startsWith('## ')) {
+      const table = first.value.slice(3).trim() as BackupTable;
+      current = BACKUP_TABLES.includes(table) ? table : null;
+      columns = null;
+      return;
+    }
+
+    if (!current) return;
+    if (!columns) {
+      columns = row.map(cell => cell.value);
+      return;
+    }
+
+    const headers = columns;
+    tables[current].push(Object.fromEntries(headers.map((column, i) => [column, decodeCsvCell(row[i] ?? { value: '', quoted: false })])));
+  });
+
+  return validateBundle({
+    format: format?.replace(/^#/, '') as typeof BACKUP_FORMAT,
+    version: Number(version),
+    created_at: createdAt,
+    tables,
+  });
+};
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export class BackupService {
+  // Get recent backups and restores, newest first
+  static async getBackups(limit = 50): Promise<DatabaseBackupWithActor[]> {
+    const { data, error } = await supabase
+      .from('database_backups')
+      .select('*, actor:profiles!database_backups_created_by_fkey(full_name, email)')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching database backups:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Export a consistent snapshot, store it in the backups bucket and record it
+  static async createBackup(adminId: string, format: DatabaseBackupFormat): Promise<{ backup: DatabaseBackup; file: Blob; filename: string }> {
+    const { data: snapshot, error: exportError } = await supabase.rpc('export_backup_snapshot');
+
+    if (exportError) {
+      console.error('Error exporting backup snapshot:', exportError);
+      throw exportError;
+    }
+
+    const bundle = validateBundle(snapshot as unknown as BackupBundle);
+    const content = serializeBundle(bundle, format);
+    const file = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const id = crypto.randomUUID();
+    const filename = `backup-${bundle.created_at.slice(0, 10)}-${id.slice(0, 8)}.${format}`;
+    const storagePath = `${id}.${format}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(BACKUP_BUCKET)
+      .upload(storagePath, file, { contentType: file.type, upsert: false });
+
+    const { data: backup, error } = await supabase
+      .from('database_backups')
+      .insert({
+        id,
+        kind: 'backup',
+        format,
+        format_version: bundle.version,
+        table_counts: getBundleCounts(bundle),
+        size_bytes: file.size,
+        checksum: await sha256(content),
+        storage_path: uploadError ? null : storagePath,
+        status: uploadError ? 'failed' : 'completed',
+        error: uploadError?.message,
+        created_by: adminId,
+      })
+      .select()
+      .single();
+
+    if (uploadError || error) {
+      console.error('Error storing database backup:', uploadError || error);
+      throw uploadError || error;
+    }
+
+    return { backup, file, filename };
+  }
+
+  // Get a short-lived download link for a stored backup
+  static async getDownloadUrl(backup: DatabaseBackup): Promise<string> {
+    if (!backup.storage_path) throw new ValidationError('This backup has no stored file');
+
+    const { data, error } = await supabase.storage
+      .from(BACKUP_BUCKET)
+      .createSignedUrl(backup.storage_path, 300);
+
+    if (error) {
+      console.error('Error creating backup download link:', error);
+      throw error;
+    }
+
+    return data.signedUrl;
+  }
+
+  // Restore a bundle's missing rows; a dry run only reports what would change
+  static async restoreBundle(bundle: BackupBundle, dryRun: boolean): Promise<RestoreReport> {
+    const { data, error } = await supabase.rpc('restore_backup_bundle', {
+      p_bundle: bundle as unknown as Json,
+      p_dry_run: dryRun,
+    });
+
+    if (error) {
+      console.error('Error restoring backup bundle:', error);
+      throw error;
+    }
+
+    return data as unknown as RestoreReport;
+  }
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ChatOutbox, isNetworkError } from './chatOutbox';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('isNetworkError', () => {
+  it('recognises fetch failures but not server rejections', () => {
+    expect(isNetworkError({ message: 'TypeError: Failed to fetch' })).toBe(true);
+    expect(isNetworkError({ message: 'This conversation is closed', code: 'P0001' })).toBe(false);
+  });
+});
+
+describe('ChatOutbox', () => {
+  it('keeps queued messages per conversation, oldest first', () => {
+    ChatOutbox.enqueue('room-1', 'renter-1', '  First  ');
+    ChatOutbox.enqueue('room-2', 'renter-1', 'Elsewhere');
+    ChatOutbox.enqueue('room-1', 'renter-1', 'Second');
+
+    expect(ChatOutbox.getQueued('room-1').map(message => message.content)).toEqual(['First', 'Second']);
+    expect(ChatOutbox.getQueued()).toHaveLength(3);
+  });
+
+  it('notifies subscribers and clears everything', () => {
+    let changes = 0;
+    const unsubscribe = ChatOutbox.subscribe(() => changes++);
+
+    ChatOutbox.enqueue('room-1', 'renter-1', 'Hello');
+    ChatOutbox.clear();
+    unsubscribe();
+    ChatOutbox.enqueue('room-1', 'renter-1', 'Again');
+
+    expect(changes).toBe(2);
+    expect(ChatOutbox.getQueued()).toHaveLength(1);
+  });
+
+  it('sends queued messages in order and empties the queue', async () => {
+    ChatOutbox.enqueue('room-1', 'renter-1', 'First');
+    ChatOutbox.enqueue('room-1', 'renter-1', 'Second');
+
+    const result = await ChatOutbox.flush();
+
+    expect(result.sent).toHaveLength(2);
+    expect(fakeSupabase.rows('messages').map(row => row.content)).toEqual(['First', 'Second']);
+    expect(ChatOutbox.getQueued()).toEqual([]);
+  });
+
+  it('stops at a network failure and keeps the rest queued', async () => {
+    ChatOutbox.enqueue('room-1', 'renter-1', 'First');
+    ChatOutbox.enqueue('room-1', 'renter-1', 'Second');
+    fakeSupabase.failNext('messages', { message: 'TypeError: Failed to fetch' });
+
+    const result = await ChatOutbox.flush();
+
+    expect(result).toEqual({ sent: [], failed: [] });
+    expect(fakeSupabase.rows('messages')).toEqual([]);
+    expect(ChatOutbox.getQueued().map(message => message.content)).toEqual(['First', 'Second']);
+  });
+
+  it('drops messages the server rejects and sends the rest', async () => {
+    ChatOutbox.enqueue('room-closed', 'renter-1', 'Too late');
+    ChatOutbox.enqueue('room-1', 'renter-1', 'Still here');
+    fakeSupabase.failNext('messages', { message: 'This conversation is closed', code: 'P0001' });
+
+    const result = await ChatOutbox.flush();
+
+    expect(result.failed.map(message => message.content)).toEqual(['Too late']);
+    expect(result.sent.map(message => message.content)).toEqual(['Still here']);
+    expect(ChatOutbox.getQueued()).toEqual([]);
+  });
+});
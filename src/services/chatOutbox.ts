@@ -0,0 +1,112 @@
+import { ChatService } from '@/services/chatService';
+
+// Messages written without a connection, kept on the device until they can be sent
+export interface QueuedMessage {
+  id: string;
+  chatRoomId: string;
+  senderId: string;
+  content: string;
+  queuedAt: string;
+}
+
+export interface OutboxFlushResult {
+  sent: QueuedMessage[];
+  failed: QueuedMessage[];
+}
+
+const STORAGE_KEY = 'chat-outbox';
+
+const listeners = new Set<() => void>();
+let flushing: Promise<OutboxFlushResult> | null = null;
+
+const read = (): QueuedMessage[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const write = (messages: QueuedMessage[]) => {
+  if (messages.length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Supabase reports a dropped connection as an error whose message comes from fetch
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error && typeof error === 'object' && 'message' in error ? String(error.message) : '';
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+export class ChatOutbox {
+  // Get queued messages, oldest first, optionally for one conversation
+  static getQueued(chatRoomId?: string): QueuedMessage[] {
+    const messages = read();
+    return chatRoomId ? messages.filter(message => message.chatRoomId === chatRoomId) : messages;
+  }
+
+  // Queue a text message to send when the connection comes back
+  static enqueue(chatRoomId: string, senderId: string, content: string): QueuedMessage {
+    const message: QueuedMessage = {
+      id: `${Date.now()}_${Math.random().toString(36).substring(7)}`,
+      chatRoomId,
+      senderId,
+      content: content.trim(),
+      queuedAt: new Date().toISOString(),
+    };
+    write([...read(), message]);
+    return message;
+  }
+
+  // Drop a queued message
+  static remove(id: string) {
+    write(read().filter(message => message.id !== id));
+  }
+
+  // Drop everything, e.g. when someone signs out
+  static clear() {
+    write([]);
+  }
+
+  // Get told whenever the queue changes; returns an unsubscribe function
+  static subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  // Send queued messages in order. Stops at the first network failure so nothing is sent
+  // out of order; messages the server rejects (e.g. a closed conversation) are dropped and returned
+  static flush(): Promise<OutboxFlushResult> {
+    if (flushing) return flushing;
+
+    flushing = (async () => {
+      const result: OutboxFlushResult = { sent: [], failed: [] };
+
+      for (const message of read()) {
+        try {
+          await ChatService.sendMessage(message.chatRoomId, message.senderId, message.content);
+          result.sent.push(message);
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          console.error('Error sending queued message:', error);
+          result.failed.push(message);
+        }
+        ChatOutbox.remove(message.id);
+      }
+
+      return result;
+    })().finally(() => {
+      flushing = null;
+    });
+
+    return flushing;
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ValidationError } from '@/utils/errorHandling';
+import {
+  ChatService,
+  MAX_MESSAGE_ATTACHMENTS,
+  countUnread,
+  getChatRoomStatus,
+  isImageAttachment,
+} from './chatService';
+
+describe('countUnread', () => {
+  it("counts only the other participant's unread messages", () => {
+    const messages = [
+      { sender_id: 'renter-1', read_at: null },
+      { sender_id: 'renter-1', read_at: '2025-06-17T10:00:00Z' },
+      { sender_id: 'landlord-1', read_at: null },
+      { sender_id: 'renter-1' },
+    ];
+
+    expect(countUnread(messages, 'landlord-1')).toBe(2);
+    expect(countUnread(messages, 'renter-1')).toBe(1);
+    expect(countUnread(undefined, 'renter-1')).toBe(0);
+  });
+});
+
+describe('isImageAttachment', () => {
+  it('recognises images by mime type', () => {
+    expect(isImageAttachment({ type: 'image/png' })).toBe(true);
+    expect(isImageAttachment({ type: 'application/pdf' })).toBe(false);
+  });
+});
+
+describe('getChatRoomStatus', () => {
+  const room = { renter_id: 'renter-1', landlord_id: 'landlord-1' };
+
+  it('shows archiving only to the participant who archived', () => {
+    const archivedByRenter = { ...room, status: 'active' as const, renter_archived_at: '2025-06-17T10:00:00Z' };
+
+    expect(getChatRoomStatus(archivedByRenter, 'renter-1')).toBe('archived');
+    expect(getChatRoomStatus(archivedByRenter, 'landlord-1')).toBe('active');
+    expect(getChatRoomStatus(room, 'renter-1')).toBe('active');
+  });
+
+  it('shows a closed conversation as closed to both participants', () => {
+    const closed = { ...room, status: 'closed' as const, landlord_archived_at: '2025-06-17T10:00:00Z' };
+
+    expect(getChatRoomStatus(closed, 'renter-1')).toBe('closed');
+    expect(getChatRoomStatus(closed, 'landlord-1')).toBe('closed');
+  });
+});
+
+describe('ChatService', () => {
+  it('uploads attachments under the room and sender, then sends the message', async () => {
+    fakeSupabase.seed('messages', []);
+    const lease = new File(['lease'], 'lease.pdf', { type: 'application/pdf' });
+
+    await ChatService.sendMessage('room-1', 'renter-1', '  Here is the signed lease ', [lease]);
+
+    const [message] = fakeSupabase.rows<{ content: string; attachments: { path: string; name: string; type: string; size: number }[] }>('messages');
+    expect(message.content).toBe('Here is the signed lease');
+    expect(message.attachments).toHaveLength(1);
+    expect(message.attachments[0]).toMatchObject({ name: 'lease.pdf', type: 'application/pdf', size: 5 });
+    expect(message.attachments[0].path).toMatch(/^room-1\/renter-1\/\d+_\w+_lease\.pdf$/);
+    expect(fakeSupabase.storageObjects.get('chat-attachments')?.has(message.attachments[0].path)).toBe(true);
+
+    const urls = await ChatService.getAttachmentUrls([message.attachments[0].path]);
+    expect(urls[message.attachments[0].path]).toContain(`/sign/chat-attachments/${message.attachments[0].path}`);
+  });
+
+  it('allows attachment-only messages but rejects empty or oversized ones', async () => {
+    fakeSupabase.seed('messages', []);
+    const photo = new File(['kitchen'], 'kitchen.jpg', { type: 'image/jpeg' });
+    const tooMany = Array.from({ length: MAX_MESSAGE_ATTACHMENTS + 1 }, (_, i) => new File(['x'], `${i}.jpg`));
+
+    await expect(ChatService.sendMessage('room-1', 'renter-1', '   ')).rejects.toBeInstanceOf(ValidationError);
+    await expect(ChatService.sendMessage('room-1', 'renter-1', 'Photos', tooMany)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await ChatService.sendMessage('room-1', 'renter-1', '', [photo]);
+
+    expect(fakeSupabase.rows<{ content: string }>('messages').map(message => message.content)).toEqual(['']);
+  });
+
+  it('marks a room read through the receipt function', async () => {
+    fakeSupabase.onRpc('mark_chat_room_read', () => 3);
+
+    await expect(ChatService.markRoomRead('room-1')).resolves.toBe(3);
+    expect(fakeSupabase.rpcCalls).toEqual([{ name: 'mark_chat_room_read', args: { p_chat_room_id: 'room-1' } }]);
+  });
+
+  it('archives and closes conversations through the lifecycle functions', async () => {
+    fakeSupabase.onRpc('set_chat_room_archived', args => ({ id: args.p_chat_room_id, status: 'active' }));
+    fakeSupabase.onRpc('set_chat_room_closed', args => ({ id: args.p_chat_room_id, status: 'closed' }));
+
+    await ChatService.setArchived('room-1', true);
+    await expect(ChatService.setClosed('room-1', true)).resolves.toMatchObject({ status: 'closed' });
+
+    expect(fakeSupabase.rpcCalls).toEqual([
+      { name: 'set_chat_room_archived', args: { p_chat_room_id: 'room-1', p_archived: true } },
+      { name: 'set_chat_room_closed', args: { p_chat_room_id: 'room-1', p_closed: true } },
+    ]);
+  });
+
+  it('blocks a user once and unblocks them again', async () => {
+    fakeSupabase.seed('user_blocks', [], { unique: [['blocker_id', 'blocked_id']] });
+
+    await ChatService.blockUser('landlord-1', 'renter-1');
+    await ChatService.blockUser('landlord-1', 'renter-1');
+    await expect(ChatService.blockUser('landlord-1', 'landlord-1')).rejects.toBeInstanceOf(ValidationError);
+
+    expect(await ChatService.getBlockedUserIds()).toEqual(['renter-1']);
+
+    await ChatService.unblockUser('landlord-1', 'renter-1');
+    expect(fakeSupabase.rows('user_blocks')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,259 @@
+import supabase from '@/integrations/supabase/client';
+import { ChatRoomStatus, Database, MessageAttachment } from '@/integrations/supabase/types';
+import { ValidationError } from '@/utils/errorHandling';
+
+const ATTACHMENTS_BUCKET = 'chat-attachments';
+
+export const MAX_MESSAGE_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const ATTACHMENT_ACCEPT = 'image/*,.pdf,.doc,.docx';
+
+// How long after the last keystroke the typing indicator stays on
+export const TYPING_TIMEOUT_MS = 3000;
+
+// Conversations per page in the support view
+export const CONVERSATIONS_PAGE_SIZE = 20;
+
+type ChatRoomRow = Database['public']['Tables']['chat_rooms']['Row'];
+type MessageRow = Database['public']['Tables']['messages']['Row'];
+
+type Participant = { full_name: string | null; email: string } | null;
+
+export type ChatRoomWithParticipants = ChatRoomRow & {
+  renter?: Participant;
+  landlord?: Participant;
+  property?: { title: string } | null;
+};
+
+export const CHAT_ROOM_STATUS_LABELS: Record<ChatRoomStatus, string> = {
+  active: 'Active',
+  archived: 'Archived',
+  closed: 'Closed',
+};
+
+export interface ChatPresenceState {
+  user_id: string;
+  typing: boolean;
+  online_at: string;
+}
+
+export const isImageAttachment = (attachment: Pick<MessageAttachment, 'type'>) =>
+  attachment.type.startsWith('image/');
+
+// Messages from the other participant that haven't been opened yet
+export const countUnread = (
+  messages: { sender_id: string; read_at?: string | null }[] | null | undefined,
+  userId: string
+) => (messages || []).filter(message => message.sender_id !== userId && !message.read_at).length;
+
+// How a conversation looks to one participant: closed for both, archived only for whoever archived it
+export const getChatRoomStatus = (
+  room: Pick<ChatRoomRow, 'renter_id' | 'landlord_id'> &
+    Partial<Pick<ChatRoomRow, 'status' | 'renter_archived_at' | 'landlord_archived_at'>>,
+  userId: string
+): ChatRoomStatus => {
+  if (room.status === 'closed') return 'closed';
+  const archivedAt = userId === room.renter_id ? room.renter_archived_at : room.landlord_archived_at;
+  return archivedAt ? 'archived' : 'active';
+};
+
+export class ChatService {
+  // Send a message, uploading its attachments first
+  static async sendMessage(chatRoomId: string, senderId: string, content: string, files: File[] = []): Promise<void> {
+    const text = content.trim();
+    if (!text && files.length === 0) {
+      throw new ValidationError('Write a message or attach a file');
+    }
+    if (files.length > MAX_MESSAGE_ATTACHMENTS) {
+      throw new ValidationError(`Attach up to ${MAX_MESSAGE_ATTACHMENTS} files`);
+    }
+    if (files.some(file => file.size > MAX_ATTACHMENT_SIZE)) {
+      throw new ValidationError('Each attachment must be 10MB or smaller');
+    }
+
+    const attachments: MessageAttachment[] = [];
+    for (const file of files) {
+      const path = `${chatRoomId}/${senderId}/${Date.now()}_${Math.random().toString(36).substring(7)}_${file.name}`;
+      const { error: uploadError } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .upload(path, file, { cacheControl: '3600', upsert: false });
+
+      if (uploadError) {
+        console.error('Error uploading attachment:', uploadError);
+        throw uploadError;
+      }
+
+      attachments.push({ path, name: file.name, type: file.type || 'application/octet-stream', size: file.size });
+    }
+
+    const { error } = await supabase
+      .from('messages')
+      .insert({ chat_room_id: chatRoomId, sender_id: senderId, content: text, attachments });
+
+    if (error) {
+      console.error('Error sending message:', error);
+      throw error;
+    }
+  }
+
+  // Mark the other participant's messages in a room as read
+  static async markRoomRead(chatRoomId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('mark_chat_room_read', { p_chat_room_id: chatRoomId });
+
+    if (error) {
+      console.error('Error marking messages read:', error);
+      throw error;
+    }
+
+    return data ?? 0;
+  }
+
+  // Get short-lived links for attachments, keyed by storage path
+  static async getAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+    if (paths.length === 0) return {};
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrls(paths, 3600);
+
+    if (error) {
+      console.error('Error creating attachment links:', error);
+      throw error;
+    }
+
+    return Object.fromEntries(
+      (data || []).filter(item => item.path && item.signedUrl).map(item => [item.path, item.signedUrl])
+    );
+  }
+
+  // Archive or unarchive a conversation for the current user
+  static async setArchived(chatRoomId: string, archived: boolean): Promise<ChatRoomRow> {
+    const { data, error } = await supabase.rpc('set_chat_room_archived', {
+      p_chat_room_id: chatRoomId,
+      p_archived: archived,
+    });
+
+    if (error) {
+      console.error('Error archiving conversation:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Close a conversation, or reopen one the current user closed
+  static async setClosed(chatRoomId: string, closed: boolean): Promise<ChatRoomRow> {
+    const { data, error } = await supabase.rpc('set_chat_room_closed', {
+      p_chat_room_id: chatRoomId,
+      p_closed: closed,
+    });
+
+    if (error) {
+      console.error('Error closing conversation:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Get the users the current user has blocked
+  static async getBlockedUserIds(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('user_blocks')
+      .select('blocked_id');
+
+    if (error) {
+      console.error('Error fetching blocked users:', error);
+      throw error;
+    }
+
+    return (data || []).map(block => block.blocked_id);
+  }
+
+  // Check whether either side of a conversation has blocked the other
+  static async isBlockedWith(otherUserId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('is_chat_blocked', { p_other_user_id: otherUserId });
+
+    if (error) {
+      console.error('Error checking block status:', error);
+      throw error;
+    }
+
+    return !!data;
+  }
+
+  // Block a user; blocking someone twice is a no-op
+  static async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    if (blockerId === blockedId) {
+      throw new ValidationError("You can't block yourself");
+    }
+
+    const { error } = await supabase
+      .from('user_blocks')
+      .insert({ blocker_id: blockerId, blocked_id: blockedId });
+
+    if (error && error.code !== '23505') {
+      console.error('Error blocking user:', error);
+      throw error;
+    }
+  }
+
+  // Unblock a user
+  static async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_blocks')
+      .delete()
+      .eq('blocker_id', blockerId)
+      .eq('blocked_id', blockedId);
+
+    if (error) {
+      console.error('Error unblocking user:', error);
+      throw error;
+    }
+  }
+
+  // One page of conversations across the platform, most recent first (support staff)
+  static async getAllRooms(
+    status?: ChatRoomStatus,
+    page = 1
+  ): Promise<{ rooms: ChatRoomWithParticipants[]; total: number }> {
+    const from = (page - 1) * CONVERSATIONS_PAGE_SIZE;
+    let query = supabase
+      .from('chat_rooms')
+      .select(
+        `*,
+        renter:profiles!chat_rooms_renter_id_fkey(full_name, email),
+        landlord:profiles!chat_rooms_landlord_id_fkey(full_name, email),
+        property:properties!chat_rooms_property_id_fkey(title)`,
+        { count: 'exact' }
+      )
+      .order('created_at', { ascending: false });
+
+    if (status) query = query.eq('status', status);
+
+    const { data, error, count } = await query.range(from, from + CONVERSATIONS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching conversations:', error);
+      throw error;
+    }
+
+    return { rooms: (data || []) as ChatRoomWithParticipants[], total: count ?? 0 };
+  }
+
+  // Every message in a conversation, oldest first
+  static async getRoomMessages(chatRoomId: string): Promise<MessageRow[]> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('chat_room_id', chatRoomId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching messages:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ValidationError } from '@/utils/errorHandling';
+import {
+  GeocodingService,
+  formatAddress,
+  gazetteerGeocoder,
+  setGeocodingProvider,
+  toPropertyAddressFields,
+} from './geocodingService';
+
+afterEach(() => {
+  setGeocodingProvider(gazetteerGeocoder);
+});
+
+describe('formatAddress', () => {
+  it('joins the parts and skips blanks and repeats', () => {
+    expect(formatAddress({ area: 'Lekki Phase 1', lga: 'Eti-Osa', state: 'Lagos' })).toBe('Lekki Phase 1, Eti-Osa, Lagos');
+    expect(formatAddress({ area: ' ', lga: 'Ikeja', state: 'Lagos' })).toBe('Ikeja, Lagos');
+    expect(formatAddress({ lga: 'Kano Municipal', state: 'Kano', area: 'Kano' })).toBe('Kano, Kano Municipal');
+  });
+});
+
+describe('toPropertyAddressFields', () => {
+  it('stores blanks as null and only keeps a complete pin', () => {
+    expect(toPropertyAddressFields({ address_line: ' ', area: 'Yaba', state: 'Lagos', latitude: 6.5 })).toEqual({
+      address_line: null,
+      area: 'Yaba',
+      lga: null,
+      state: 'Lagos',
+      latitude: null,
+      longitude: null,
+      geocode_source: null,
+      geocoded_at: null,
+    });
+  });
+
+  it('keeps the original geocode time until the pin moves', () => {
+    const fields = toPropertyAddressFields({
+      state: 'Lagos',
+      latitude: 6.5,
+      longitude: 3.37,
+      geocode_source: 'gazetteer',
+      geocoded_at: '2025-06-01T00:00:00.000Z',
+    });
+    expect(fields).toMatchObject({ geocode_source: 'gazetteer', geocoded_at: '2025-06-01T00:00:00.000Z' });
+  });
+});
+
+describe('GeocodingService.geocode', () => {
+  it('uses the most specific comma-separated part the gazetteer knows', async () => {
+    const [result] = await GeocodingService.geocode('12 Admiralty Way, Lekki Phase 1, Lagos');
+    expect(result).toMatchObject({
+      label: 'Lekki Phase 1, Eti-Osa, Lagos',
+      area: 'Lekki Phase 1',
+      lga: 'Eti-Osa',
+      state: 'Lagos',
+      precision: 'area',
+      source: 'gazetteer',
+    });
+  });
+
+  it('prefers a custom provider and falls back when it fails or finds nothing', async () => {
+    const geocode = vi.fn()
+      .mockResolvedValueOnce([{ label: 'Exact', latitude: 1, longitude: 2, precision: 'address', source: 'custom' }])
+      .mockRejectedValueOnce(new Error('quota exceeded'))
+      .mockResolvedValueOnce([]);
+    setGeocodingProvider({ name: 'custom', geocode });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(GeocodingService.geocode('Yaba')).resolves.toMatchObject([{ source: 'custom' }]);
+    await expect(GeocodingService.geocode('Yaba')).resolves.toMatchObject([{ source: 'gazetteer' }]);
+    await expect(GeocodingService.geocode('Yaba')).resolves.toMatchObject([{ area: 'Yaba', source: 'gazetteer' }]);
+    expect(geocode).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('GeocodingService.geocodeAddress', () => {
+  it('places the address as precisely as the gazetteer allows within the state', async () => {
+    await expect(GeocodingService.geocodeAddress({ area: 'Ikoyi', lga: 'Eti-Osa', state: 'Lagos' }))
+      .resolves.toMatchObject({ precision: 'area', area: 'Ikoyi' });
+    await expect(GeocodingService.geocodeAddress({ area: 'Unknown Estate', lga: 'Ikeja', state: 'Lagos' }))
+      .resolves.toMatchObject({ precision: 'lga', lga: 'Ikeja' });
+    await expect(GeocodingService.geocodeAddress({ area: 'Ikoyi', state: 'Oyo' }))
+      .resolves.toMatchObject({ precision: 'state', state: 'Oyo' });
+  });
+
+  it('requires a state', async () => {
+    await expect(GeocodingService.geocodeAddress({ area: 'Ikoyi' })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('asks a custom provider about the street address', async () => {
+    const geocode = vi.fn().mockResolvedValue([
+      { label: '12 Admiralty Way', latitude: 6.44, longitude: 3.47, precision: 'address', source: 'custom' },
+    ]);
+    setGeocodingProvider({ name: 'custom', geocode });
+
+    await expect(GeocodingService.geocodeAddress({ address_line: '12 Admiralty Way', area: 'Lekki Phase 1', state: 'Lagos' }))
+      .resolves.toMatchObject({ precision: 'address', source: 'custom' });
+    expect(geocode).toHaveBeenCalledWith('12 Admiralty Way, Lekki Phase 1, Lagos, Nigeria');
+  });
+});
+
+describe('GeocodingService.describeCoordinates', () => {
+  it('describes a point by its nearest known place', () => {
+    expect(GeocodingService.describeCoordinates({ latitude: 6.5095, longitude: 3.3711 })).toMatchObject({
+      area: 'Yaba',
+      state: 'Lagos',
+    });
+  });
+});
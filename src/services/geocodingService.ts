@@ -0,0 +1,181 @@
+import {
+  GazetteerPlace,
+  findPlace,
+  nearestPlace,
+  searchPlaces,
+} from '@/utils/nigeriaGazetteer';
+import { ValidationError } from '@/utils/errorHandling';
+
+export type GeocodePrecision = 'address' | 'area' | 'lga' | 'state';
+
+export interface GeocodeResult {
+  label: string;
+  latitude: number;
+  longitude: number;
+  area?: string;
+  lga?: string;
+  state?: string;
+  precision: GeocodePrecision;
+  // Name of the provider that produced the result, stored with the listing
+  source: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  geocode(query: string): Promise<GeocodeResult[]>;
+}
+
+export interface StructuredAddress {
+  address_line?: string | null;
+  area?: string | null;
+  lga?: string | null;
+  state?: string | null;
+}
+
+// Address picker value: the structured address plus where its pin sits
+export interface PropertyAddress extends StructuredAddress {
+  latitude?: number | null;
+  longitude?: number | null;
+  geocode_source?: string | null;
+  // Kept from the saved listing until the pin moves
+  geocoded_at?: string | null;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export const NIGERIA_CENTER: Coordinates = { latitude: 9.082, longitude: 8.6753 };
+
+const placeToResult = (place: GazetteerPlace, source: string): GeocodeResult => ({
+  label: [place.name, place.type === 'area' ? place.lga : undefined, place.type === 'state' ? undefined : place.state]
+    .filter(Boolean)
+    .join(', '),
+  latitude: place.latitude,
+  longitude: place.longitude,
+  area: place.type === 'area' ? place.name : undefined,
+  lga: place.lga,
+  state: place.state,
+  precision: place.type,
+  source,
+});
+
+// Default provider: matches place names against the bundled gazetteer, no network needed
+export const gazetteerGeocoder: GeocodingProvider = {
+  name: 'gazetteer',
+  async geocode(query: string) {
+    // Try each comma-separated part, most specific first, e.g. "12 Admiralty Way, Lekki Phase 1, Lagos"
+    const parts = query.split(',').map(part => part.trim()).filter(Boolean);
+    for (const part of parts) {
+      const matches = searchPlaces(part, 5);
+      if (matches.length > 0) {
+        return matches.map(place => placeToResult(place, 'gazetteer'));
+      }
+    }
+    return [];
+  },
+};
+
+let activeProvider: GeocodingProvider = gazetteerGeocoder;
+
+// Swap in another provider (e.g. a hosted geocoding API); the gazetteer stays as the fallback
+export const setGeocodingProvider = (provider: GeocodingProvider) => {
+  activeProvider = provider;
+};
+
+export const getGeocodingProvider = () => activeProvider;
+
+// "Lekki Phase 1, Eti-Osa, Lagos" style label for display and the listing's location text
+export const formatAddress = (address: StructuredAddress) =>
+  [address.area, address.lga, address.state]
+    .map(part => part?.trim())
+    .filter((part, index, parts): part is string => !!part && parts.indexOf(part) === index)
+    .join(', ');
+
+// Columns written to `properties` from the address picker; blank parts are stored as null
+export const toPropertyAddressFields = (address: PropertyAddress) => {
+  const hasPin = address.latitude != null && address.longitude != null;
+  return {
+    address_line: address.address_line?.trim() || null,
+    area: address.area?.trim() || null,
+    lga: address.lga?.trim() || null,
+    state: address.state || null,
+    latitude: hasPin ? address.latitude : null,
+    longitude: hasPin ? address.longitude : null,
+    geocode_source: hasPin ? address.geocode_source || 'manual' : null,
+    geocoded_at: hasPin ? address.geocoded_at || new Date().toISOString() : null,
+  };
+};
+
+export class GeocodingService {
+  // Look up free text with the active provider, falling back to the gazetteer if it fails or finds nothing
+  static async geocode(query: string): Promise<GeocodeResult[]> {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    if (activeProvider !== gazetteerGeocoder) {
+      try {
+        const results = await activeProvider.geocode(trimmed);
+        if (results.length > 0) return results;
+      } catch (error) {
+        console.error(`Error geocoding with ${activeProvider.name}:`, error);
+      }
+    }
+
+    return gazetteerGeocoder.geocode(trimmed);
+  }
+
+  // Resolve a structured address to the most precise point available
+  static async geocodeAddress(address: StructuredAddress): Promise<GeocodeResult> {
+    if (!address.state) {
+      throw new ValidationError('Choose a state to place the property on the map');
+    }
+
+    if (activeProvider !== gazetteerGeocoder && address.address_line?.trim()) {
+      const [result] = await GeocodingService.geocode(
+        [address.address_line, formatAddress(address), 'Nigeria'].filter(Boolean).join(', ')
+      );
+      if (result && result.source !== 'gazetteer') return result;
+    }
+
+    // Gazetteer lookups only trust matches inside the chosen state
+    const place =
+      (address.area && findPlace(address.area, 'area', address.state)) ||
+      (address.lga && findPlace(address.lga, 'lga', address.state)) ||
+      findPlace(address.state, 'state');
+
+    if (!place) {
+      throw new ValidationError(`We couldn't find ${address.state} on the map`);
+    }
+
+    return placeToResult(place, 'gazetteer');
+  }
+
+  // Describe a point using the nearest known place
+  static describeCoordinates({ latitude, longitude }: Coordinates): StructuredAddress {
+    const place = nearestPlace(latitude, longitude);
+    if (!place) return {};
+    return {
+      area: place.type === 'area' ? place.name : undefined,
+      lga: place.lga,
+      state: place.state,
+    };
+  }
+
+  // Ask the browser for the device's position
+  static getCurrentPosition(): Promise<Coordinates> {
+    return new Promise((resolve, reject) => {
+      if (!('geolocation' in navigator)) {
+        reject(new ValidationError('Location is not available on this device'));
+        return;
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+        () => reject(new ValidationError('Allow location access to use your current location')),
+        { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+      );
+    });
+  }
+}
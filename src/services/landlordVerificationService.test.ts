@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ValidationError } from '@/utils/errorHandling';
+import {
+  LandlordVerificationService,
+  MAX_OWNERSHIP_DOCUMENTS,
+  NewLandlordVerification,
+  isVerifiedLandlord,
+} from './landlordVerificationService';
+
+const submission = (): NewLandlordVerification => ({
+  idDocumentType: 'nin',
+  idNumber: '  12345678901 ',
+  idDocument: new File(['id'], 'nin.png', { type: 'image/png' }),
+  ownershipDocumentType: 'certificate_of_occupancy',
+  ownershipDocuments: [new File(['c of o'], 'cofo.pdf', { type: 'application/pdf' })],
+  propertyId: 'property-1',
+  notes: ' Title is in my name ',
+});
+
+// New submissions are always pending, so a unique landlord stands in for the one-pending index
+const seedVerifications = () =>
+  fakeSupabase.seed('landlord_verifications', [], { unique: [['landlord_id']] });
+
+describe('isVerifiedLandlord', () => {
+  it('only treats profiles with a verification date as verified', () => {
+    expect(isVerifiedLandlord({ verified_at: '2025-06-01T10:00:00Z' })).toBe(true);
+    expect(isVerifiedLandlord({ verified_at: null })).toBe(false);
+    expect(isVerifiedLandlord(null)).toBe(false);
+  });
+});
+
+describe('LandlordVerificationService', () => {
+  it('uploads documents under the landlord folder and files the submission', async () => {
+    seedVerifications();
+
+    const created = await LandlordVerificationService.submitVerification('landlord-1', submission());
+
+    expect(created).toMatchObject({
+      landlord_id: 'landlord-1',
+      property_id: 'property-1',
+      id_number: '12345678901',
+      notes: 'Title is in my name',
+    });
+    expect(created.id_document_path).toMatch(/^landlord-1\/identity\/\d+_\w+_nin\.png$/);
+    expect(created.ownership_document_paths[0]).toMatch(/^landlord-1\/ownership\/\d+_\w+_cofo\.pdf$/);
+    const stored = fakeSupabase.storageObjects.get('verification-documents');
+    expect(stored?.has(created.id_document_path)).toBe(true);
+    expect(stored?.has(created.ownership_document_paths[0])).toBe(true);
+  });
+
+  it('requires an ID and between one and five ownership documents', async () => {
+    seedVerifications();
+    const tooMany = Array.from({ length: MAX_OWNERSHIP_DOCUMENTS + 1 }, (_, i) => new File(['x'], `${i}.pdf`));
+
+    await expect(
+      LandlordVerificationService.submitVerification('landlord-1', { ...submission(), idDocument: null })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      LandlordVerificationService.submitVerification('landlord-1', { ...submission(), ownershipDocuments: [] })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      LandlordVerificationService.submitVerification('landlord-1', { ...submission(), ownershipDocuments: tooMany })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(fakeSupabase.storageObjects.get('verification-documents')?.size ?? 0).toBe(0);
+  });
+
+  it('allows only one submission under review at a time', async () => {
+    seedVerifications();
+
+    await LandlordVerificationService.submitVerification('landlord-1', submission());
+    await expect(LandlordVerificationService.submitVerification('landlord-1', submission())).rejects.toThrow(
+      'You already have documents under review'
+    );
+    expect(fakeSupabase.rows('landlord_verifications')).toHaveLength(1);
+  });
+
+  it('needs a reason to reject and sends approvals without one', async () => {
+    fakeSupabase.onRpc('review_landlord_verification', args => ({ id: args.p_verification_id }));
+
+    await expect(LandlordVerificationService.reviewVerification('verification-1', false, ' ')).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await LandlordVerificationService.reviewVerification('verification-1', true, 'ignored');
+    await LandlordVerificationService.reviewVerification('verification-2', false, ' Blurry ID photo ');
+
+    expect(fakeSupabase.rpcCalls.map(call => call.args)).toEqual([
+      { p_verification_id: 'verification-1', p_approve: true, p_reason: undefined },
+      { p_verification_id: 'verification-2', p_approve: false, p_reason: 'Blurry ID photo' },
+    ]);
+  });
+});
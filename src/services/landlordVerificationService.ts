@@ -0,0 +1,199 @@
+import supabase from '@/integrations/supabase/client';
+import {
+  LandlordIdDocumentType,
+  LandlordOwnershipDocumentType,
+  LandlordVerification,
+  LandlordVerificationStatus,
+} from '@/integrations/supabase/types';
+import { ValidationError } from '@/utils/errorHandling';
+
+const DOCUMENTS_BUCKET = 'verification-documents';
+
+export const MAX_OWNERSHIP_DOCUMENTS = 5;
+export const MAX_VERIFICATION_FILE_SIZE = 10 * 1024 * 1024;
+
+export type LandlordVerificationWithDetails = LandlordVerification & {
+  landlord?: { full_name: string | null; email: string; created_at: string | null; verified_at: string | null } | null;
+  property?: { id: string; title: string; location: string | null } | null;
+  reviewer?: { full_name: string | null; email: string } | null;
+};
+
+export interface NewLandlordVerification {
+  idDocumentType: LandlordIdDocumentType;
+  idNumber: string;
+  idDocument: File | null;
+  ownershipDocumentType: LandlordOwnershipDocumentType;
+  ownershipDocuments: File[];
+  propertyId?: string | null;
+  notes: string;
+}
+
+const VERIFICATION_SELECT = `
+  *,
+  landlord:profiles!landlord_verifications_landlord_id_fkey(full_name, email, created_at, verified_at),
+  property:properties(id, title, location),
+  reviewer:profiles!landlord_verifications_reviewed_by_fkey(full_name, email)
+`;
+
+export const ID_DOCUMENT_LABELS: Record<LandlordIdDocumentType, string> = {
+  nin: 'National ID (NIN)',
+  drivers_license: "Driver's licence",
+  international_passport: 'International passport',
+  voters_card: "Voter's card",
+};
+
+export const OWNERSHIP_DOCUMENT_LABELS: Record<LandlordOwnershipDocumentType, string> = {
+  certificate_of_occupancy: 'Certificate of Occupancy (C of O)',
+  deed_of_assignment: 'Deed of Assignment',
+  governors_consent: "Governor's Consent",
+  survey_plan: 'Survey plan',
+  registered_conveyance: 'Registered conveyance',
+  letter_of_authority: 'Letter of authority from the owner',
+};
+
+export const VERIFICATION_STATUS_LABELS: Record<LandlordVerificationStatus, string> = {
+  pending: 'Under review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const isVerifiedLandlord = (profile?: { verified_at?: string | null } | null) => !!profile?.verified_at;
+
+export class LandlordVerificationService {
+  // Submit identity and ownership documents for review, uploading them first
+  static async submitVerification(landlordId: string, input: NewLandlordVerification): Promise<LandlordVerification> {
+    const idNumber = input.idNumber.trim();
+    if (idNumber.length < 4) {
+      throw new ValidationError('Enter the number on your ID document');
+    }
+    if (!input.idDocument) {
+      throw new ValidationError('Upload a copy of your ID document');
+    }
+    if (input.ownershipDocuments.length === 0) {
+      throw new ValidationError('Upload at least one proof-of-ownership document');
+    }
+    if (input.ownershipDocuments.length > MAX_OWNERSHIP_DOCUMENTS) {
+      throw new ValidationError(`Attach up to ${MAX_OWNERSHIP_DOCUMENTS} ownership documents`);
+    }
+    if ([input.idDocument, ...input.ownershipDocuments].some(file => file.size > MAX_VERIFICATION_FILE_SIZE)) {
+      throw new ValidationError('Each document must be 10MB or smaller');
+    }
+
+    const upload = async (folder: string, file: File) => {
+      const path = `${landlordId}/${folder}/${Date.now()}_${Math.random().toString(36).substring(7)}_${file.name}`;
+      const { error: uploadError } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .upload(path, file, { cacheControl: '3600', upsert: false });
+
+      if (uploadError) {
+        console.error('Error uploading verification document:', uploadError);
+        throw uploadError;
+      }
+
+      return path;
+    };
+
+    const idDocumentPath = await upload('identity', input.idDocument);
+    const ownershipDocumentPaths: string[] = [];
+    for (const file of input.ownershipDocuments) {
+      ownershipDocumentPaths.push(await upload('ownership', file));
+    }
+
+    const { data, error } = await supabase
+      .from('landlord_verifications')
+      .insert({
+        landlord_id: landlordId,
+        property_id: input.propertyId || null,
+        id_document_type: input.idDocumentType,
+        id_number: idNumber,
+        id_document_path: idDocumentPath,
+        ownership_document_type: input.ownershipDocumentType,
+        ownership_document_paths: ownershipDocumentPaths,
+        notes: input.notes.trim(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ValidationError('You already have documents under review. We will let you know once they are checked.');
+      }
+      console.error('Error submitting verification:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Get a landlord's own submissions, newest first
+  static async getMyVerifications(landlordId: string): Promise<LandlordVerification[]> {
+    const { data, error } = await supabase
+      .from('landlord_verifications')
+      .select('*')
+      .eq('landlord_id', landlordId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching verifications:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Get submissions for the review queue; pending ones oldest first, reviewed ones newest first
+  static async getVerifications(status: LandlordVerificationStatus): Promise<LandlordVerificationWithDetails[]> {
+    const { data, error } = await supabase
+      .from('landlord_verifications')
+      .select(VERIFICATION_SELECT)
+      .eq('status', status)
+      .order(status === 'pending' ? 'created_at' : 'reviewed_at', { ascending: status === 'pending' });
+
+    if (error) {
+      console.error('Error fetching verification queue:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Approve or reject a pending submission (admin); rejections need a reason
+  static async reviewVerification(
+    verificationId: string,
+    approve: boolean,
+    reason = ''
+  ): Promise<LandlordVerification> {
+    if (!approve && !reason.trim()) {
+      throw new ValidationError('Tell the landlord why their documents were rejected');
+    }
+
+    const { data, error } = await supabase.rpc('review_landlord_verification', {
+      p_verification_id: verificationId,
+      p_approve: approve,
+      p_reason: approve ? undefined : reason.trim(),
+    });
+
+    if (error) {
+      console.error('Error reviewing verification:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Get short-lived links for a submission's documents
+  static async getDocumentUrls(paths: string[]): Promise<string[]> {
+    if (paths.length === 0) return [];
+
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrls(paths, 3600);
+
+    if (error) {
+      console.error('Error creating document links:', error);
+      throw error;
+    }
+
+    return (data || []).map(item => item.signedUrl).filter(Boolean);
+  }
+}
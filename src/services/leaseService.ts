@@ -0,0 +1,113 @@
+import supabase from '@/integrations/supabase/client';
+import { Lease, TablesUpdate } from '@/integrations/supabase/types';
+
+export type LeaseTermsUpdate = Pick<
+  TablesUpdate<'leases'>,
+  'start_date' | 'end_date' | 'rent_amount' | 'rent_interval' | 'deposit_amount' | 'clauses'
+>;
+
+export type LeaseWithParties = Lease & {
+  property?: { id: string; title: string; location: string | null } | null;
+  landlord?: { full_name: string | null; email: string } | null;
+  tenant?: { full_name: string | null; email: string } | null;
+};
+
+const LEASE_SELECT = `
+  *,
+  property:properties(id, title, location),
+  landlord:profiles!leases_landlord_id_fkey(full_name, email),
+  tenant:profiles!leases_tenant_id_fkey(full_name, email)
+`;
+
+export const LEASE_STATUS_LABELS: Record<Lease['status'], string> = {
+  draft: 'Awaiting Signatures',
+  partially_signed: 'Partially Signed',
+  signed: 'Signed',
+  terminated: 'Terminated',
+};
+
+export const isLeaseSignedBy = (lease: Lease, userId: string) =>
+  (lease.landlord_id === userId && !!lease.landlord_signed_at) ||
+  (lease.tenant_id === userId && !!lease.tenant_signed_at);
+
+export class LeaseService {
+  // Get the lease for an application
+  static async getByApplication(applicationId: string): Promise<LeaseWithParties | null> {
+    const { data, error } = await supabase
+      .from('leases')
+      .select(LEASE_SELECT)
+      .eq('application_id', applicationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching lease:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Get all leases where the user is the tenant
+  static async getByTenant(tenantId: string): Promise<LeaseWithParties[]> {
+    const { data, error } = await supabase
+      .from('leases')
+      .select(LEASE_SELECT)
+      .eq('tenant_id', tenantId);
+
+    if (error) {
+      console.error('Error fetching tenant leases:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Get all leases for a property
+  static async getByProperty(propertyId: string): Promise<LeaseWithParties[]> {
+    const { data, error } = await supabase
+      .from('leases')
+      .select(LEASE_SELECT)
+      .eq('property_id', propertyId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching property leases:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Update the terms of a draft lease (landlord only, before anyone signs)
+  static async updateTerms(leaseId: string, terms: LeaseTermsUpdate): Promise<Lease> {
+    const { data, error } = await supabase
+      .from('leases')
+      .update(terms)
+      .eq('id', leaseId)
+      .eq('status', 'draft')
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating lease terms:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Sign as the current user with a typed full name
+  static async sign(leaseId: string, signatureName: string): Promise<Lease> {
+    const { data, error } = await supabase.rpc('sign_lease', {
+      p_lease_id: leaseId,
+      p_signature_name: signatureName,
+    });
+
+    if (error) {
+      console.error('Error signing lease:', error);
+      throw error;
+    }
+
+    return data;
+  }
+}
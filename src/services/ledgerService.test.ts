@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { PropertyTransaction } from '@/integrations/supabase/types';
+import { LedgerService, summarizeTransactions } from './ledgerService';
+
+const transaction = (overrides: Partial<PropertyTransaction>): PropertyTransaction => ({
+  id: 'transaction-1',
+  property_id: 'property-1',
+  transaction_type: 'rent_payment',
+  amount: 100000,
+  status: 'completed',
+  related_transaction_id: null,
+  ...overrides,
+}) as PropertyTransaction;
+
+describe('summarizeTransactions', () => {
+  it('holds deposits and nets refunds against what they pay back', () => {
+    expect(summarizeTransactions([
+      transaction({ id: 'rent', amount: 300000, status: 'refunded' }),
+      transaction({ id: 'deposit', transaction_type: 'deposit', amount: 150000 }),
+      transaction({ id: 'repairs', transaction_type: 'maintenance_cost', amount: 20000 }),
+      transaction({ id: 'r1', transaction_type: 'refund', amount: 300000, related_transaction_id: 'rent' }),
+      transaction({ id: 'r2', transaction_type: 'refund', amount: 50000, related_transaction_id: 'deposit' }),
+      transaction({ id: 'pending', amount: 999999, status: 'pending' }),
+    ])).toEqual({ revenue: 0, expenses: 20000, netIncome: -20000, depositsHeld: 100000 });
+  });
+
+  it('categorizes refunds of transactions outside the list by their looked-up type', () => {
+    const refund = transaction({ id: 'r1', transaction_type: 'refund', amount: 50000, related_transaction_id: 'deposit' });
+
+    expect(summarizeTransactions([refund]).revenue).toBe(-50000);
+    expect(summarizeTransactions([refund], new Map([['deposit', 'deposit']]))).toMatchObject({
+      revenue: 0,
+      depositsHeld: -50000,
+    });
+  });
+});
+
+describe('LedgerService.getRefundedTypes', () => {
+  it('fetches only the refunded transactions missing from the list', async () => {
+    fakeSupabase.seed('property_transactions', [
+      { id: 'deposit', transaction_type: 'deposit' },
+      { id: 'other', transaction_type: 'other_income' },
+    ]);
+
+    const types = await LedgerService.getRefundedTypes([
+      transaction({ id: 'rent' }),
+      transaction({ id: 'r1', transaction_type: 'refund', related_transaction_id: 'rent' }),
+      transaction({ id: 'r2', transaction_type: 'refund', related_transaction_id: 'deposit' }),
+    ]);
+
+    expect(types.get('rent')).toBe('rent_payment');
+    expect(types.get('deposit')).toBe('deposit');
+    expect(types.has('other')).toBe(false);
+  });
+
+  it('skips the lookup when every original is in the list', async () => {
+    await LedgerService.getRefundedTypes([
+      transaction({ id: 'rent' }),
+      transaction({ id: 'r1', transaction_type: 'refund', related_transaction_id: 'rent' }),
+    ]);
+
+    expect(fakeSupabase.queries).toEqual([]);
+  });
+});
@@ -0,0 +1,235 @@
+import supabase from '@/integrations/supabase/client';
+import {
+  LedgerEntry,
+  LedgerLine,
+  PaymentStatus,
+  PropertyFinancialMetrics,
+  PropertyTransaction,
+  TransactionType,
+} from '@/integrations/supabase/types';
+
+export const INCOME_TRANSACTION_TYPES: TransactionType[] = ['rent_payment', 'other_income'];
+export const EXPENSE_TRANSACTION_TYPES: TransactionType[] = [
+  'maintenance_cost',
+  'utility_payment',
+  'insurance',
+  'tax',
+  'other_expense',
+];
+// Transactions that move money between the landlord and a tenant
+export const TENANT_TRANSACTION_TYPES: TransactionType[] = ['rent_payment', 'deposit', 'refund'];
+// Statuses of transactions posted to the ledger; refunded ones stay posted, their refunds offset them
+export const POSTED_TRANSACTION_STATUSES: PaymentStatus[] = ['completed', 'refunded'];
+
+export interface RecordTransactionInput {
+  propertyId: string;
+  transactionType: TransactionType;
+  amount: number;
+  status?: Extract<PaymentStatus, 'pending' | 'completed'>;
+  applicationId?: string;
+  relatedTransactionId?: string;
+  dueDate?: string;
+  paymentDate?: string;
+  description?: string;
+}
+
+export interface TransactionFilters {
+  propertyId?: string;
+  applicationId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface LedgerEntryWithLines extends LedgerEntry {
+  ledger_lines: LedgerLine[];
+}
+
+export interface TransactionSummary {
+  revenue: number;
+  expenses: number;
+  netIncome: number;
+  depositsHeld: number;
+}
+
+/**
+ * Summarize posted transactions the same way the ledger does: deposits are
+ * held on behalf of the tenant rather than earned, and refunds reduce whatever
+ * they pay back. Pass `refundedTypes` (see `LedgerService.getRefundedTypes`)
+ * when refunds may point at transactions outside `transactions`.
+ */
+export const summarizeTransactions = (
+  transactions: PropertyTransaction[],
+  refundedTypes: Map<string, TransactionType> = new Map()
+): TransactionSummary => {
+  const posted = transactions.filter(t => POSTED_TRANSACTION_STATUSES.includes(t.status));
+  const typeById = new Map([...refundedTypes, ...transactions.map(t => [t.id, t.transaction_type] as const)]);
+
+  const summary = posted.reduce<TransactionSummary>((acc, t) => {
+    const amount = Number(t.amount);
+
+    if (INCOME_TRANSACTION_TYPES.includes(t.transaction_type)) {
+      acc.revenue += amount;
+    } else if (EXPENSE_TRANSACTION_TYPES.includes(t.transaction_type)) {
+      acc.expenses += amount;
+    } else if (t.transaction_type === 'deposit') {
+      acc.depositsHeld += amount;
+    } else if (t.transaction_type === 'refund') {
+      const refundedType = t.related_transaction_id ? typeById.get(t.related_transaction_id) : undefined;
+      if (refundedType === 'deposit') {
+        acc.depositsHeld -= amount;
+      } else {
+        acc.revenue -= amount;
+      }
+    }
+
+    return acc;
+  }, { revenue: 0, expenses: 0, netIncome: 0, depositsHeld: 0 });
+
+  summary.netIncome = summary.revenue - summary.expenses;
+  return summary;
+};
+
+export class LedgerService {
+  // Record a transaction; completed transactions are posted to the ledger immediately
+  static async recordTransaction(input: RecordTransactionInput): Promise<PropertyTransaction> {
+    if (TENANT_TRANSACTION_TYPES.includes(input.transactionType) && !input.applicationId && !input.relatedTransactionId) {
+      throw new Error('Rent, deposits and refunds must be linked to a rental application');
+    }
+
+    const { data, error } = await supabase.rpc('record_property_transaction', {
+      p_property_id: input.propertyId,
+      p_transaction_type: input.transactionType,
+      p_amount: input.amount,
+      p_status: input.status ?? 'completed',
+      p_application_id: input.applicationId,
+      p_related_transaction_id: input.relatedTransactionId,
+      p_due_date: input.dueDate,
+      p_payment_date: input.paymentDate,
+      p_description: input.description,
+    });
+
+    if (error) {
+      console.error('Error recording transaction:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Mark a pending transaction as completed (posts it) or failed
+  static async settleTransaction(
+    transactionId: string,
+    status: Extract<PaymentStatus, 'completed' | 'failed'>,
+    paymentDate?: string
+  ): Promise<PropertyTransaction> {
+    const { data, error } = await supabase.rpc('settle_property_transaction', {
+      p_transaction_id: transactionId,
+      p_status: status,
+      p_payment_date: paymentDate,
+    });
+
+    if (error) {
+      console.error('Error settling transaction:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Refund all or part of a completed rent payment, deposit or other income
+  static async refundTransaction(transaction: PropertyTransaction, amount: number, reason?: string) {
+    return this.recordTransaction({
+      propertyId: transaction.property_id,
+      transactionType: 'refund',
+      amount,
+      applicationId: transaction.application_id ?? undefined,
+      relatedTransactionId: transaction.id,
+      description: reason || `Refund of ${transaction.transaction_type.replace('_', ' ')}`,
+    });
+  }
+
+  // Get transactions visible to the current user
+  static async getTransactions(filters: TransactionFilters = {}) {
+    let query = supabase
+      .from('property_transactions')
+      .select(`
+        *,
+        properties:property_id (
+          title,
+          location
+        )
+      `)
+      .order('created_at', { ascending: false });
+
+    if (filters.propertyId) query = query.eq('property_id', filters.propertyId);
+    if (filters.applicationId) query = query.eq('application_id', filters.applicationId);
+    if (filters.from) query = query.gte('created_at', filters.from);
+    if (filters.to) query = query.lt('created_at', filters.to);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching transactions:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Look up what each refund paid back, fetching originals missing from the list
+  static async getRefundedTypes(transactions: PropertyTransaction[]): Promise<Map<string, TransactionType>> {
+    const types = new Map(transactions.map(t => [t.id, t.transaction_type]));
+    const missingIds = [...new Set(
+      transactions
+        .filter(t => t.transaction_type === 'refund' && t.related_transaction_id && !types.has(t.related_transaction_id))
+        .map(t => t.related_transaction_id as string)
+    )];
+
+    if (missingIds.length === 0) return types;
+
+    const { data, error } = await supabase
+      .from('property_transactions')
+      .select('id, transaction_type')
+      .in('id', missingIds);
+
+    if (error) {
+      console.error('Error fetching refunded transactions:', error);
+      throw error;
+    }
+
+    (data || []).forEach(t => types.set(t.id, t.transaction_type));
+    return types;
+  }
+
+  // Get the journal entries (with debit/credit lines) for a property
+  static async getLedgerEntries(propertyId: string): Promise<LedgerEntryWithLines[]> {
+    const { data, error } = await supabase
+      .from('ledger_entries')
+      .select('*, ledger_lines(*)')
+      .eq('property_id', propertyId)
+      .order('posted_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching ledger entries:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Get ledger-derived financial metrics for the current user's properties
+  static async getFinancialMetrics(propertyIds?: string[]): Promise<PropertyFinancialMetrics[]> {
+    let query = supabase.from('property_financial_metrics').select('*');
+
+    if (propertyIds) query = query.in('property_id', propertyIds);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching financial metrics:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+}
@@ -0,0 +1,77 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ListingVerificationService, hashFile } from './listingVerificationService';
+
+// jsdom's Blob can't be read back, so photos are built with Node's
+const blob = (content: string) => new NodeBlob([content]) as unknown as Blob;
+
+const review = (id: string, propertyId: string, createdAt: string, action = 'automated_check') => ({
+  id,
+  property_id: propertyId,
+  action,
+  admin_id: action === 'automated_check' ? null : 'admin-1',
+  verification_score: 70,
+  flagged_concerns: ['No ownership documents uploaded'],
+  created_at: createdAt,
+});
+
+describe('hashFile', () => {
+  it('produces the hex SHA-256 of the file contents', async () => {
+    await expect(hashFile(blob('abc'))).resolves.toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+});
+
+describe('ListingVerificationService', () => {
+  it('records one fingerprint per uploaded photo and ignores repeats', async () => {
+    fakeSupabase.seed('property_photo_fingerprints', [], { unique: [['photo_url']] });
+    const photo = blob('front of the house');
+
+    await ListingVerificationService.recordPhotoFingerprints([
+      { url: 'https://cdn.example.com/a.jpg', file: photo },
+      { url: 'https://cdn.example.com/b.jpg', file: photo },
+    ]);
+    await ListingVerificationService.recordPhotoFingerprints([{ url: 'https://cdn.example.com/a.jpg', file: photo }]);
+
+    const rows = fakeSupabase.rows<{ photo_url: string; sha256: string }>('property_photo_fingerprints');
+    expect(rows.map(row => row.photo_url)).toEqual(['https://cdn.example.com/a.jpg', 'https://cdn.example.com/b.jpg']);
+    expect(rows[0].sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(rows[0].sha256).toBe(rows[1].sha256);
+  });
+
+  it('returns the latest automated check per listing, skipping admin reviews', async () => {
+    fakeSupabase.seed('property_reviews', [
+      review('r1', 'property-1', '2025-06-01T10:00:00Z'),
+      review('r2', 'property-1', '2025-06-02T10:00:00Z'),
+      review('r3', 'property-1', '2025-06-03T10:00:00Z', 'approved'),
+      review('r4', 'property-2', '2025-06-01T10:00:00Z'),
+      review('r5', 'property-3', '2025-06-01T10:00:00Z'),
+    ]);
+
+    const latest = await ListingVerificationService.getLatestChecks(['property-1', 'property-2']);
+
+    expect(Object.keys(latest)).toEqual(['property-1', 'property-2']);
+    expect(latest['property-1'].id).toBe('r2');
+    await expect(ListingVerificationService.getLatestChecks([])).resolves.toEqual({});
+  });
+
+  it('publishes rules through the versioning function', async () => {
+    fakeSupabase.onRpc('publish_verification_rules', args => ({ version: 2, rules: args.p_rules, notes: args.p_notes }));
+    const rules = {
+      duplicate_photos: { enabled: false, penalty: 35, include_same_landlord: false },
+      price_outlier: { enabled: true, penalty: 20, min_comparables: 5, low_ratio: 0.4, high_ratio: 2.5 },
+      missing_ownership_documents: { enabled: true, penalty: 30, min_documents: 1 },
+      new_landlord_account: { enabled: true, penalty: 10, min_account_age_days: 30 },
+      incomplete_listing: { enabled: true, penalty: 15, min_photos: 3, min_description_length: 50 },
+    };
+
+    const published = await ListingVerificationService.publishRules(rules, '  Stricter on documents ');
+
+    expect(published.version).toBe(2);
+    expect(fakeSupabase.rpcCalls).toEqual([
+      { name: 'publish_verification_rules', args: { p_rules: rules, p_notes: 'Stricter on documents' } },
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import supabase from '@/integrations/supabase/client';
+import {
+  Json,
+  Tables,
+  VerificationRuleKey,
+  VerificationRuleSet,
+  VerificationRules,
+} from '@/integrations/supabase/types';
+
+export type PropertyReview = Tables<'property_reviews'>;
+
+export type VerificationRuleSetWithActor = VerificationRuleSet & {
+  actor?: { full_name: string | null; email: string } | null;
+};
+
+export const VERIFICATION_RULE_LABELS: Record<VerificationRuleKey, string> = {
+  duplicate_photos: 'Duplicate photos',
+  price_outlier: 'Price outlier',
+  missing_ownership_documents: 'Missing ownership documents',
+  new_landlord_account: 'New landlord account',
+  incomplete_listing: 'Incomplete listing',
+};
+
+export const VERIFICATION_RULE_DESCRIPTIONS: Record<VerificationRuleKey, string> = {
+  duplicate_photos: "Photos that also appear on another landlord's listing",
+  price_outlier: 'Rent far from the median of similar live listings in the same area or LGA',
+  missing_ownership_documents: 'Fewer ownership documents than required',
+  new_landlord_account: 'Landlord signed up recently',
+  incomplete_listing: 'Too few photos, a thin description or missing rooms or location',
+};
+
+// Rule parameters besides `enabled` and `penalty`
+export const VERIFICATION_PARAM_LABELS: Record<string, string> = {
+  include_same_landlord: "Also match the landlord's own listings",
+  min_comparables: 'Minimum comparable listings',
+  low_ratio: 'Flag below this share of the median',
+  high_ratio: 'Flag above this multiple of the median',
+  min_documents: 'Required documents',
+  min_account_age_days: 'Minimum account age (days)',
+  min_photos: 'Minimum photos',
+  min_description_length: 'Minimum description length',
+};
+
+export const VERIFICATION_RULE_KEYS = Object.keys(VERIFICATION_RULE_LABELS) as VerificationRuleKey[];
+
+// Hex SHA-256 of a file, used to recognise the same photo uploaded twice
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export class ListingVerificationService {
+  // Record fingerprints of freshly uploaded listing photos
+  static async recordPhotoFingerprints(uploads: { url: string; file: Blob }[]): Promise<void> {
+    if (uploads.length === 0) return;
+
+    const rows = await Promise.all(
+      uploads.map(async ({ url, file }) => ({ photo_url: url, sha256: await hashFile(file) }))
+    );
+
+    const { error } = await supabase
+      .from('property_photo_fingerprints')
+      .upsert(rows, { onConflict: 'photo_url', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('Error recording photo fingerprints:', error);
+      throw error;
+    }
+  }
+
+  // Latest automated check per listing, keyed by property id
+  static async getLatestChecks(propertyIds: string[]): Promise<Record<string, PropertyReview>> {
+    if (propertyIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('property_reviews')
+      .select('*')
+      .eq('action', 'automated_check')
+      .in('property_id', propertyIds)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching verification checks:', error);
+      throw error;
+    }
+
+    const latest: Record<string, PropertyReview> = {};
+    (data || []).forEach(review => {
+      if (!latest[review.property_id]) latest[review.property_id] = review;
+    });
+    return latest;
+  }
+
+  // Re-run the engine against a listing's current details (admin)
+  static async rerunChecks(propertyId: string): Promise<PropertyReview> {
+    const { data, error } = await supabase.rpc('rerun_listing_verification', {
+      p_property_id: propertyId,
+    });
+
+    if (error) {
+      console.error('Error running verification:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Every published rule set, newest first
+  static async getRuleSets(): Promise<VerificationRuleSetWithActor[]> {
+    const { data, error } = await supabase
+      .from('verification_rule_sets')
+      .select('*, actor:profiles!verification_rule_sets_created_by_fkey(full_name, email)')
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching verification rules:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Publish changed rules as a new version (admin)
+  static async publishRules(rules: VerificationRules, notes = ''): Promise<VerificationRuleSet> {
+    const { data, error } = await supabase.rpc('publish_verification_rules', {
+      p_rules: rules as unknown as Json,
+      p_notes: notes.trim() || undefined,
+    });
+
+    if (error) {
+      console.error('Error publishing verification rules:', error);
+      throw error;
+    }
+
+    return data;
+  }
+}
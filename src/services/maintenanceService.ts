@@ -0,0 +1,218 @@
+import supabase from '@/integrations/supabase/client';
+import {
+  MaintenanceCategory,
+  MaintenancePriority,
+  MaintenanceStatus,
+  MaintenanceTicket,
+  TablesUpdate,
+} from '@/integrations/supabase/types';
+
+const PHOTO_BUCKET = 'maintenance-photos';
+
+export type MaintenanceTicketWithDetails = MaintenanceTicket & {
+  property?: { id: string; title: string; location: string | null } | null;
+  tenant?: { full_name: string | null; email: string; phone: string | null } | null;
+};
+
+export type MaintenanceTicketUpdate = TablesUpdate<'maintenance_tickets'>;
+
+export interface NewMaintenanceTicket {
+  propertyId: string;
+  title: string;
+  description: string;
+  category: MaintenanceCategory;
+  priority: MaintenancePriority;
+  photos: File[];
+}
+
+export interface RentedProperty {
+  id: string;
+  title: string;
+  location: string | null;
+}
+
+const TICKET_SELECT = `
+  *,
+  property:properties(id, title, location),
+  tenant:profiles!maintenance_tickets_tenant_id_fkey(full_name, email, phone)
+`;
+
+export const MAINTENANCE_CATEGORY_LABELS: Record<MaintenanceCategory, string> = {
+  plumbing: 'Plumbing',
+  electrical: 'Electrical',
+  appliance: 'Appliance',
+  structural: 'Structural',
+  pest_control: 'Pest Control',
+  security: 'Security',
+  other: 'Other',
+};
+
+export const MAINTENANCE_PRIORITY_LABELS: Record<MaintenancePriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+export const MAINTENANCE_STATUS_LABELS: Record<MaintenanceStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  on_hold: 'On Hold',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const isTicketClosed = (ticket: Pick<MaintenanceTicket, 'status'>) =>
+  ticket.status === 'completed' || ticket.status === 'cancelled';
+
+export class MaintenanceService {
+  // Get the properties a tenant can file tickets against
+  static async getRentedProperties(tenantId: string): Promise<RentedProperty[]> {
+    const [leases, applications] = await Promise.all([
+      supabase
+        .from('leases')
+        .select('property:properties(id, title, location)')
+        .eq('tenant_id', tenantId)
+        .eq('status', 'signed')
+        .gte('end_date', new Date().toISOString().split('T')[0]),
+      supabase
+        .from('rental_applications')
+        .select('property:properties(id, title, location)')
+        .eq('renter_id', tenantId)
+        .eq('status', 'payment_completed'),
+    ]);
+
+    const error = leases.error || applications.error;
+    if (error) {
+      console.error('Error fetching rented properties:', error);
+      throw error;
+    }
+
+    const properties = new Map<string, RentedProperty>();
+    [...(leases.data || []), ...(applications.data || [])].forEach(row => {
+      const property: RentedProperty | undefined = Array.isArray(row.property) ? row.property[0] : row.property;
+      if (property) properties.set(property.id, property);
+    });
+
+    return Array.from(properties.values());
+  }
+
+  // Get a tenant's tickets, newest first
+  static async getTenantTickets(tenantId: string): Promise<MaintenanceTicketWithDetails[]> {
+    const { data, error } = await supabase
+      .from('maintenance_tickets')
+      .select(TICKET_SELECT)
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching tenant tickets:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Get the tickets filed against a property, newest first
+  static async getPropertyTickets(propertyId: string): Promise<MaintenanceTicketWithDetails[]> {
+    const { data, error } = await supabase
+      .from('maintenance_tickets')
+      .select(TICKET_SELECT)
+      .eq('property_id', propertyId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching property tickets:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // File a ticket, uploading its photos first
+  static async createTicket(tenantId: string, input: NewMaintenanceTicket): Promise<MaintenanceTicket> {
+    const photoPaths: string[] = [];
+
+    for (const photo of input.photos) {
+      const path = `${tenantId}/${input.propertyId}/${Date.now()}_${Math.random().toString(36).substring(7)}_${photo.name}`;
+      const { error: uploadError } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(path, photo, { cacheControl: '3600', upsert: false });
+
+      if (uploadError) {
+        console.error('Error uploading maintenance photo:', uploadError);
+        throw uploadError;
+      }
+
+      photoPaths.push(path);
+    }
+
+    const { data, error } = await supabase
+      .from('maintenance_tickets')
+      .insert({
+        property_id: input.propertyId,
+        tenant_id: tenantId,
+        title: input.title.trim(),
+        description: input.description.trim(),
+        category: input.category,
+        priority: input.priority,
+        photo_paths: photoPaths,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating maintenance ticket:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Triage or progress a ticket (landlord); completing it with a cost posts a maintenance_cost transaction
+  static async updateTicket(ticketId: string, updates: MaintenanceTicketUpdate): Promise<MaintenanceTicket> {
+    const { data, error } = await supabase
+      .from('maintenance_tickets')
+      .update(updates)
+      .eq('id', ticketId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating maintenance ticket:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Withdraw an open ticket (tenant)
+  static async cancelTicket(ticketId: string): Promise<MaintenanceTicket> {
+    const { data, error } = await supabase.rpc('cancel_maintenance_ticket', {
+      p_ticket_id: ticketId,
+    });
+
+    if (error) {
+      console.error('Error cancelling maintenance ticket:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Get short-lived links for a ticket's photos
+  static async getPhotoUrls(paths: string[]): Promise<string[]> {
+    if (paths.length === 0) return [];
+
+    const { data, error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .createSignedUrls(paths, 3600);
+
+    if (error) {
+      console.error('Error creating photo links:', error);
+      throw error;
+    }
+
+    return (data || []).map(item => item.signedUrl).filter(Boolean);
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ValidationError } from '@/utils/errorHandling';
+import { MfaService, normalizeRecoveryCode } from './mfaService';
+
+const signInAdmin = () => {
+  const user = fakeSupabase.auth.createUser({ email: 'admin@example.com' });
+  fakeSupabase.auth.setSession(user);
+  return user;
+};
+
+describe('normalizeRecoveryCode', () => {
+  it('ignores dashes, spaces and case', () => {
+    expect(normalizeRecoveryCode(' A1B2C-3d4e5 ')).toBe('a1b2c3d4e5');
+  });
+});
+
+describe('MfaService', () => {
+  it('asks a new admin to enrol, then lets them through once the code checks out', async () => {
+    signInAdmin();
+    expect(await MfaService.getState()).toEqual({ requirement: 'enroll', factorId: null });
+
+    // An abandoned attempt doesn't block starting again
+    await MfaService.enrollTotp();
+    const enrollment = await MfaService.enrollTotp();
+
+    await expect(MfaService.verifyTotp(enrollment.factorId, '12345')).rejects.toThrow(ValidationError);
+    await expect(MfaService.verifyTotp(enrollment.factorId, '654321')).rejects.toThrow('That code is incorrect');
+
+    await MfaService.verifyTotp(enrollment.factorId, fakeSupabase.auth.validTotpCode);
+
+    expect(await MfaService.getState()).toEqual({ requirement: 'none', factorId: enrollment.factorId });
+  });
+
+  it('challenges an enrolled admin on their next session', async () => {
+    const user = signInAdmin();
+    const { factorId } = await MfaService.enrollTotp();
+    await MfaService.verifyTotp(factorId, fakeSupabase.auth.validTotpCode);
+
+    fakeSupabase.auth.setSession(user);
+
+    expect(await MfaService.getState()).toEqual({ requirement: 'challenge', factorId });
+  });
+
+  it('spends a recovery code and sends the admin back to enrolment', async () => {
+    const user = signInAdmin();
+    const { factorId } = await MfaService.enrollTotp();
+    await MfaService.verifyTotp(factorId, fakeSupabase.auth.validTotpCode);
+    fakeSupabase.auth.setSession(user);
+    fakeSupabase.onRpc('redeem_mfa_recovery_code', ({ p_code }) => {
+      if (p_code !== 'a1b2c3d4e5') return false;
+      fakeSupabase.auth.removeFactors(user.id);
+      return true;
+    });
+
+    await expect(MfaService.redeemRecoveryCode('nope')).rejects.toThrow('Recovery codes look like');
+    await expect(MfaService.redeemRecoveryCode('ffffF-fffff')).rejects.toThrow('already been used');
+    await MfaService.redeemRecoveryCode('A1B2C-3D4E5');
+
+    expect(fakeSupabase.rpcCalls.map(call => call.args.p_code)).toEqual(['ffffffffff', 'a1b2c3d4e5']);
+    expect(await MfaService.getState()).toEqual({ requirement: 'enroll', factorId: null });
+  });
+});
@@ -0,0 +1,134 @@
+import supabase from '@/integrations/supabase/client';
+import { AdminMfaStatus } from '@/integrations/supabase/types';
+import { ValidationError } from '@/utils/errorHandling';
+
+const FACTOR_NAME = 'Authenticator app';
+
+// What the current session still needs before it can use admin pages
+export type MfaRequirement = 'none' | 'enroll' | 'challenge';
+
+export interface MfaState {
+  requirement: MfaRequirement;
+  factorId: string | null;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+// Recovery codes are hex; people type them with dashes, spaces or capitals
+export const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^0-9a-f]/g, '');
+
+export const recoveryCodesText = (codes: string[], email?: string | null) =>
+  [
+    `LandlordNoAgent admin recovery codes${email ? ` for ${email}` : ''}`,
+    `Generated ${new Date().toLocaleString()}`,
+    'Each code works once. Keep them somewhere safe.',
+    '',
+    ...codes,
+  ].join('\n');
+
+export class MfaService {
+  // Work out whether this session has verified a second factor, has one to verify, or needs to set one up
+  static async getState(): Promise<MfaState> {
+    const { data: assurance, error: assuranceError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (assuranceError) {
+      console.error('Error fetching assurance level:', assuranceError);
+      throw assuranceError;
+    }
+
+    const { data: factors, error } = await supabase.auth.mfa.listFactors();
+    if (error) {
+      console.error('Error fetching MFA factors:', error);
+      throw error;
+    }
+
+    // `totp` only lists verified factors
+    const factor = factors.totp[0] ?? null;
+    if (assurance.currentLevel === 'aal2') return { requirement: 'none', factorId: factor?.id ?? null };
+    return factor ? { requirement: 'challenge', factorId: factor.id } : { requirement: 'enroll', factorId: null };
+  }
+
+  // Start TOTP enrolment, dropping any half-finished attempt first
+  static async enrollTotp(): Promise<TotpEnrollment> {
+    const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+    if (listError) {
+      console.error('Error fetching MFA factors:', listError);
+      throw listError;
+    }
+
+    for (const factor of factors.all.filter(candidate => candidate.status === 'unverified')) {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName: FACTOR_NAME });
+    if (error) {
+      console.error('Error enrolling MFA factor:', error);
+      throw error;
+    }
+
+    return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+  }
+
+  // Check a code from the authenticator app; this upgrades the session to AAL2
+  static async verifyTotp(factorId: string, code: string): Promise<void> {
+    if (!/^\d{6}$/.test(code)) {
+      throw new ValidationError('Enter the 6-digit code from your authenticator app');
+    }
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+    if (error) {
+      if (/invalid totp code/i.test(error.message)) {
+        throw new ValidationError('That code is incorrect or has expired. Try the latest code from your app.');
+      }
+      console.error('Error verifying MFA code:', error);
+      throw error;
+    }
+  }
+
+  // Replace the current user's recovery codes; the returned codes can't be fetched again
+  static async generateRecoveryCodes(): Promise<string[]> {
+    const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+    if (error) {
+      console.error('Error generating recovery codes:', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  // Spend a recovery code. The account's factors are removed, so the caller enrols a new device next
+  static async redeemRecoveryCode(code: string): Promise<void> {
+    const normalized = normalizeRecoveryCode(code);
+    if (normalized.length !== 10) {
+      throw new ValidationError('Recovery codes look like a1b2c-3d4e5');
+    }
+
+    const { data, error } = await supabase.rpc('redeem_mfa_recovery_code', { p_code: normalized });
+    if (error) {
+      console.error('Error redeeming recovery code:', error);
+      throw error;
+    }
+    if (!data) {
+      throw new ValidationError('That recovery code is incorrect or has already been used');
+    }
+
+    // The session still lists the removed factors until it is refreshed
+    const { error: refreshError } = await supabase.auth.refreshSession();
+    if (refreshError) {
+      console.error('Error refreshing session:', refreshError);
+      throw refreshError;
+    }
+  }
+
+  // Get every admin with their MFA status
+  static async getAdminMfaStatus(): Promise<AdminMfaStatus[]> {
+    const { data, error } = await supabase.rpc('get_admin_mfa_status');
+    if (error) {
+      console.error('Error fetching admin MFA status:', error);
+      throw error;
+    }
+    return data || [];
+  }
+}
@@ -0,0 +1,147 @@
+import supabase from '@/integrations/supabase/client';
+import { Database, Tables } from '@/integrations/supabase/types';
+
+export type PaymentIntent = Tables<'payment_intents'>;
+export type PaymentIntentStatus = Database['public']['Enums']['payment_intent_status'];
+export type PaymentProviderId = 'paystack' | 'mock';
+
+export const PAYMENTS_PAGE_SIZE = 25;
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentIntentStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  refund_required: 'Refund required',
+};
+
+export type PaymentIntentWithParties = PaymentIntent & {
+  renter?: { full_name: string | null; email: string } | null;
+  property?: { title: string } | null;
+};
+
+export interface PaymentProviderOption {
+  id: PaymentProviderId;
+  name: string;
+  description: string;
+}
+
+// Providers the checkout can offer. The edge functions hold the secrets and
+// decide which of these are actually enabled on the server.
+export const PAYMENT_PROVIDERS: Record<PaymentProviderId, PaymentProviderOption> = {
+  paystack: {
+    id: 'paystack',
+    name: 'Paystack',
+    description: 'Card, bank transfer and USSD via Paystack secure checkout',
+  },
+  mock: {
+    id: 'mock',
+    name: 'Test Payment',
+    description: 'Local test provider - no real money is charged',
+  },
+};
+
+export const getEnabledPaymentProviders = (): PaymentProviderOption[] => {
+  const configured = (import.meta.env.VITE_PAYMENT_PROVIDERS ?? 'paystack')
+    .split(',')
+    .map((value: string) => value.trim());
+
+  return configured
+    .filter((id: string): id is PaymentProviderId => id in PAYMENT_PROVIDERS)
+    .map((id: PaymentProviderId) => PAYMENT_PROVIDERS[id]);
+};
+
+export class PaymentService {
+  // Create an intent for an approved application and get the provider checkout URL
+  static async createIntent(applicationId: string, provider: PaymentProviderId): Promise<PaymentIntent> {
+    const { data, error } = await supabase.functions.invoke('payment-intent', {
+      body: { applicationId, provider },
+    });
+
+    if (error || data?.error) {
+      console.error('Error creating payment intent:', error || data.error);
+      throw new Error(data?.error || error.message || 'Failed to start payment');
+    }
+
+    return data.intent;
+  }
+
+  // Ask the server to verify a reference with its provider. The application is
+  // only marked as paid if the provider confirms the charge.
+  static async confirm(reference: string): Promise<PaymentIntent> {
+    const { data, error } = await supabase.functions.invoke('payment-confirm', {
+      body: { reference },
+    });
+
+    if (error || data?.error) {
+      console.error('Error confirming payment:', error || data.error);
+      throw new Error(data?.error || error.message || 'Failed to confirm payment');
+    }
+
+    return data.intent;
+  }
+
+  // Get the most recent payment intent for an application
+  static async getLatestIntent(applicationId: string): Promise<PaymentIntent | null> {
+    const { data, error } = await supabase
+      .from('payment_intents')
+      .select('*')
+      .eq('application_id', applicationId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching payment intent:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // One page of payments across the platform, newest first
+  static async getIntents(
+    status?: PaymentIntentStatus,
+    page = 1
+  ): Promise<{ intents: PaymentIntentWithParties[]; total: number }> {
+    const from = (page - 1) * PAYMENTS_PAGE_SIZE;
+    let query = supabase
+      .from('payment_intents')
+      .select(
+        '*, renter:profiles!payment_intents_renter_id_fkey(full_name, email), property:properties!payment_intents_property_id_fkey(title)',
+        { count: 'exact' }
+      )
+      .order('created_at', { ascending: false });
+
+    if (status) query = query.eq('status', status);
+
+    const { data, error, count } = await query.range(from, from + PAYMENTS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching payments:', error);
+      throw error;
+    }
+
+    return { intents: (data || []) as PaymentIntentWithParties[], total: count ?? 0 };
+  }
+
+  // Subscribe to status changes of a payment intent (e.g. settled by webhook)
+  static subscribeToIntent(reference: string, callback: (intent: PaymentIntent) => void) {
+    return supabase
+      .channel(`payment_intent:${reference}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'payment_intents',
+          filter: `reference=eq.${reference}`,
+        },
+        (payload) => {
+          callback(payload.new as PaymentIntent);
+        }
+      )
+      .subscribe();
+  }
+}
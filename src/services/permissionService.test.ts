@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { PermissionService, adminHomePath } from './permissionService';
+
+describe('adminHomePath', () => {
+  it('sends staff to the first admin page their permissions open', () => {
+    expect(adminHomePath(['analytics.view', 'users.view'])).toBe('/admin');
+    expect(adminHomePath(['users.view', 'listings.review'])).toBe('/admin/properties');
+    expect(adminHomePath(['payments.view'])).toBe('/admin/payments');
+    expect(adminHomePath([])).toBe('/admin/security');
+  });
+});
+
+describe('PermissionService', () => {
+  it('groups permissions under their staff roles', async () => {
+    fakeSupabase
+      .seed('staff_roles', [
+        { key: 'support', name: 'Support', description: 'Reads conversations' },
+        { key: 'finance', name: 'Finance', description: 'Sees payments' },
+      ])
+      .seed('role_permissions', [
+        { role_key: 'support', permission_key: 'chats.read' },
+        { role_key: 'support', permission_key: 'users.view' },
+        { role_key: 'finance', permission_key: 'payments.view' },
+      ]);
+
+    const roles = await PermissionService.getStaffRoles();
+
+    expect(roles.map(role => [role.key, role.permissions])).toEqual([
+      ['finance', ['payments.view']],
+      ['support', ['chats.read', 'users.view']],
+    ]);
+  });
+
+  it('replaces a user\'s staff roles through set_user_staff_roles', async () => {
+    fakeSupabase.onRpc('set_user_staff_roles', args => args.p_roles);
+
+    await expect(PermissionService.setUserStaffRoles('user-1', ['moderator'])).resolves.toEqual(['moderator']);
+    expect(fakeSupabase.rpcCalls).toEqual([
+      { name: 'set_user_staff_roles', args: { p_user_id: 'user-1', p_roles: ['moderator'] } },
+    ]);
+  });
+
+  it('surfaces permission lookup failures', async () => {
+    fakeSupabase.failNext('rpc:get_my_permissions', { message: 'timeout' });
+
+    await expect(PermissionService.getMyPermissions()).rejects.toMatchObject({ message: 'timeout' });
+  });
+});
@@ -0,0 +1,100 @@
+import supabase from '@/integrations/supabase/client';
+import { Permission, StaffRole } from '@/integrations/supabase/types';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'analytics.view': 'View dashboard and analytics',
+  'users.view': 'Look up users',
+  'users.manage': 'Manage users',
+  'listings.review': 'Review listings',
+  'listings.manage': 'Edit and delete listings',
+  'reports.review': 'Resolve listing reports',
+  'verifications.review': 'Review landlord verifications',
+  'chats.read': 'Read conversations',
+  'payments.view': 'View payments',
+  'settings.manage': 'Change platform settings',
+  'database.manage': 'Manage backups',
+  'audit_log.view': 'Read the audit log',
+};
+
+// Where someone lands in the admin panel: the first of these pages they can open
+const ADMIN_LANDING_PAGES: { path: string; permission: Permission }[] = [
+  { path: '/admin', permission: 'analytics.view' },
+  { path: '/admin/properties', permission: 'listings.review' },
+  { path: '/admin/conversations', permission: 'chats.read' },
+  { path: '/admin/payments', permission: 'payments.view' },
+  { path: '/admin/users', permission: 'users.view' },
+  { path: '/admin/audit-log', permission: 'audit_log.view' },
+];
+
+// Every staff member can reach the Security page to manage their second factor
+export const adminHomePath = (permissions: Permission[]) =>
+  ADMIN_LANDING_PAGES.find(page => permissions.includes(page.permission))?.path ?? '/admin/security';
+
+export interface StaffRoleWithPermissions extends StaffRole {
+  permissions: Permission[];
+}
+
+export class PermissionService {
+  // Permissions of the signed-in user; admins get all of them
+  static async getMyPermissions(): Promise<Permission[]> {
+    const { data, error } = await supabase.rpc('get_my_permissions');
+
+    if (error) {
+      console.error('Error fetching permissions:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Staff roles and the permissions each one grants
+  static async getStaffRoles(): Promise<StaffRoleWithPermissions[]> {
+    const [{ data: roles, error: rolesError }, { data: grants, error: grantsError }] = await Promise.all([
+      supabase.from('staff_roles').select('*').order('name'),
+      supabase.from('role_permissions').select('*'),
+    ]);
+
+    const error = rolesError || grantsError;
+    if (error) {
+      console.error('Error fetching staff roles:', error);
+      throw error;
+    }
+
+    return (roles || []).map(role => ({
+      ...role,
+      permissions: (grants || [])
+        .filter(grant => grant.role_key === role.key)
+        .map(grant => grant.permission_key),
+    }));
+  }
+
+  // Keys of the staff roles a user holds
+  static async getUserStaffRoles(userId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('user_staff_roles')
+      .select('role_key')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching user staff roles:', error);
+      throw error;
+    }
+
+    return (data || []).map(row => row.role_key).sort();
+  }
+
+  // Replace a user's staff roles (admin)
+  static async setUserStaffRoles(userId: string, roles: string[]): Promise<string[]> {
+    const { data, error } = await supabase.rpc('set_user_staff_roles', {
+      p_user_id: userId,
+      p_roles: roles,
+    });
+
+    if (error) {
+      console.error('Error updating staff roles:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+}
@@ -0,0 +1,151 @@
+import supabase from '@/integrations/supabase/client';
+import {
+  Enums,
+  Json,
+  PlatformSettingKey,
+  PlatformSettingRow,
+  PlatformSettingsAudit,
+} from '@/integrations/supabase/types';
+
+export type NotificationType = Enums<'notification_type'>;
+
+export const SUPPORTED_CURRENCIES = ['NGN', 'USD', 'GBP', 'EUR', 'GHS', 'KES', 'ZAR'] as const;
+export type PlatformCurrency = typeof SUPPORTED_CURRENCIES[number];
+
+export interface PlatformSettings {
+  listing_min_price: number;
+  listing_max_price: number;
+  listing_max_images: number;
+  default_currency: PlatformCurrency;
+  // Listings scoring at or above this go live without review; null sends every listing to review
+  auto_approve_threshold: number | null;
+  // Unverified landlords can keep at most this many non-archived listings; null means no cap
+  unverified_listing_limit: number | null;
+  // Renters can start at most this many conversations in 24 hours; null means no limit
+  daily_chat_limit: number | null;
+  notifications: Record<NotificationType, boolean>;
+}
+
+export type PlatformSettingsAuditWithActor = PlatformSettingsAudit & {
+  actor?: { full_name: string | null; email: string } | null;
+};
+
+export const DEFAULT_PLATFORM_SETTINGS: PlatformSettings = {
+  listing_min_price: 1000,
+  listing_max_price: 10000000,
+  listing_max_images: 10,
+  default_currency: 'NGN',
+  auto_approve_threshold: null,
+  unverified_listing_limit: null,
+  daily_chat_limit: 10,
+  notifications: {
+    message: true,
+    property_inquiry: true,
+    property_approved: true,
+    property_rejected: true,
+    booking_request: true,
+    booking_confirmed: true,
+    booking_cancelled: true,
+    payment_received: true,
+    maintenance_request: true,
+    system_update: true,
+    saved_search_match: true,
+    listing_report: true,
+    landlord_verification: true,
+  },
+};
+
+export const PLATFORM_SETTING_LABELS: Record<PlatformSettingKey, string> = {
+  listing_min_price: 'Minimum listing price',
+  listing_max_price: 'Maximum listing price',
+  listing_max_images: 'Max images per listing',
+  default_currency: 'Default currency',
+  auto_approve_threshold: 'Auto-approve threshold',
+  unverified_listing_limit: 'Unverified landlord listing limit',
+  daily_chat_limit: 'Daily new conversation limit',
+  notifications: 'Notification toggles',
+};
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  message: 'New messages',
+  property_inquiry: 'Property inquiries',
+  property_approved: 'Listing approved',
+  property_rejected: 'Listing needs attention',
+  booking_request: 'Tour requests',
+  booking_confirmed: 'Tour confirmations and reminders',
+  booking_cancelled: 'Tour cancellations',
+  payment_received: 'Payments',
+  maintenance_request: 'Maintenance updates',
+  system_update: 'System updates',
+  saved_search_match: 'Saved search alerts',
+  listing_report: 'Listing reports',
+  landlord_verification: 'Landlord verification',
+};
+
+// Merge stored rows over the defaults so a missing row never breaks the app
+const toSettings = (rows: PlatformSettingRow[]): PlatformSettings => {
+  const stored = Object.fromEntries(rows.map(row => [row.key, row.value]));
+  return {
+    ...DEFAULT_PLATFORM_SETTINGS,
+    ...stored,
+    notifications: {
+      ...DEFAULT_PLATFORM_SETTINGS.notifications,
+      ...((stored.notifications as Partial<Record<NotificationType, boolean>>) || {}),
+    },
+  } as PlatformSettings;
+};
+
+export const formatCurrency = (amount: number, currency: PlatformCurrency = DEFAULT_PLATFORM_SETTINGS.default_currency) =>
+  new Intl.NumberFormat('en-NG', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+export class PlatformSettingsService {
+  // Get the current settings, falling back to defaults for anything not stored
+  static async getSettings(): Promise<PlatformSettings> {
+    const { data, error } = await supabase
+      .from('platform_settings')
+      .select('*');
+
+    if (error) {
+      console.error('Error fetching platform settings:', error);
+      throw error;
+    }
+
+    return toSettings(data || []);
+  }
+
+  // Save changed settings (admin); each change is written to the audit trail
+  static async updateSettings(changes: Partial<PlatformSettings>, reason?: string): Promise<PlatformSettings> {
+    const { data, error } = await supabase.rpc('update_platform_settings', {
+      p_changes: changes as unknown as Json,
+      p_reason: reason?.trim() || undefined,
+    });
+
+    if (error) {
+      console.error('Error updating platform settings:', error);
+      throw error;
+    }
+
+    return toSettings(data || []);
+  }
+
+  // Get recent setting changes, newest first
+  static async getAuditTrail(limit = 50): Promise<PlatformSettingsAuditWithActor[]> {
+    const { data, error } = await supabase
+      .from('platform_settings_audit')
+      .select('*, actor:profiles!platform_settings_audit_changed_by_fkey(full_name, email)')
+      .order('changed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching settings audit trail:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+}
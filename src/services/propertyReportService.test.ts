@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ValidationError } from '@/utils/errorHandling';
+import { MAX_REPORT_EVIDENCE, NewPropertyReport, PropertyReportService, isRepeatOffender } from './propertyReportService';
+
+const report: NewPropertyReport = {
+  propertyId: 'property-1',
+  reason: 'scam',
+  details: '  Asked for an inspection fee upfront  ',
+  evidence: [],
+};
+
+const seedReports = () =>
+  fakeSupabase.seed('property_reports', [], { unique: [['property_id', 'reporter_id']] });
+
+describe('isRepeatOffender', () => {
+  it('flags landlords with two or more upheld reports', () => {
+    expect(isRepeatOffender({ upheld_reports: 1 })).toBe(false);
+    expect(isRepeatOffender({ upheld_reports: 2 })).toBe(true);
+  });
+});
+
+describe('PropertyReportService', () => {
+  it('uploads evidence under the reporter folder and files the report', async () => {
+    seedReports();
+    const screenshot = new File(['receipt'], 'receipt.png', { type: 'image/png' });
+
+    const created = await PropertyReportService.submitReport('renter-1', { ...report, evidence: [screenshot] });
+
+    expect(created).toMatchObject({
+      property_id: 'property-1',
+      reporter_id: 'renter-1',
+      reason: 'scam',
+      details: 'Asked for an inspection fee upfront',
+    });
+    expect(created.evidence_paths).toHaveLength(1);
+    expect(created.evidence_paths[0]).toMatch(/^renter-1\/property-1\/\d+_\w+_receipt\.png$/);
+    expect(fakeSupabase.storageObjects.get('report-evidence')?.has(created.evidence_paths[0])).toBe(true);
+
+    const [url] = await PropertyReportService.getEvidenceUrls(created.evidence_paths);
+    expect(url).toContain(`/sign/report-evidence/${created.evidence_paths[0]}`);
+  });
+
+  it('validates details and evidence count, and blocks duplicate reports', async () => {
+    seedReports();
+    const tooMany = Array.from({ length: MAX_REPORT_EVIDENCE + 1 }, (_, i) => new File(['x'], `${i}.png`));
+
+    await expect(
+      PropertyReportService.submitReport('renter-1', { ...report, reason: 'other', details: ' ' })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      PropertyReportService.submitReport('renter-1', { ...report, evidence: tooMany })
+    ).rejects.toBeInstanceOf(ValidationError);
+
+    await PropertyReportService.submitReport('renter-1', report);
+    await expect(PropertyReportService.submitReport('renter-1', report)).rejects.toThrow(
+      "You've already reported this listing"
+    );
+    expect(fakeSupabase.rows('property_reports')).toHaveLength(1);
+  });
+
+  it('only suspends the listing when a report is upheld', async () => {
+    fakeSupabase.onRpc('resolve_property_report', args => ({ id: args.p_report_id }));
+
+    await PropertyReportService.resolveReport('report-1', 'resolve', ' Listing removed ', true);
+    await PropertyReportService.resolveReport('report-2', 'dismiss', '', true);
+
+    expect(fakeSupabase.rpcCalls.map(call => call.args)).toEqual([
+      { p_report_id: 'report-1', p_action: 'resolve', p_note: 'Listing removed', p_suspend_listing: true },
+      { p_report_id: 'report-2', p_action: 'dismiss', p_note: undefined, p_suspend_listing: false },
+    ]);
+  });
+
+  it('keys report counts by landlord', async () => {
+    fakeSupabase.onRpc('get_reported_landlords', () => [
+      { landlord_id: 'landlord-1', total_reports: 3, open_reports: 1, upheld_reports: 2 },
+      { landlord_id: 'landlord-2', total_reports: 1, open_reports: 1, upheld_reports: 0 },
+    ]);
+
+    const stats = await PropertyReportService.getReportedLandlords();
+
+    expect(Object.keys(stats)).toEqual(['landlord-1', 'landlord-2']);
+    expect(isRepeatOffender(stats['landlord-1'])).toBe(true);
+    expect(isRepeatOffender(stats['landlord-2'])).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import supabase from '@/integrations/supabase/client';
+import {
+  PropertyReport,
+  PropertyReportReason,
+  PropertyReportStatus,
+  ReportedLandlord,
+} from '@/integrations/supabase/types';
+import { ValidationError } from '@/utils/errorHandling';
+
+const EVIDENCE_BUCKET = 'report-evidence';
+
+export const MAX_REPORT_EVIDENCE = 5;
+
+// Upheld reports across a landlord's listings before they are flagged as a repeat offender
+export const REPEAT_OFFENDER_THRESHOLD = 2;
+
+export type PropertyReportWithDetails = PropertyReport & {
+  property?: { id: string; title: string; location: string | null; status: string | null; photo_url: string | null } | null;
+  reporter?: { full_name: string | null; email: string } | null;
+  landlord?: { full_name: string | null; email: string } | null;
+};
+
+export interface NewPropertyReport {
+  propertyId: string;
+  reason: PropertyReportReason;
+  details: string;
+  evidence: File[];
+}
+
+export type ReportResolution = 'resolve' | 'dismiss';
+
+const REPORT_SELECT = `
+  *,
+  property:properties(id, title, location, status, photo_url),
+  reporter:profiles!property_reports_reporter_id_fkey(full_name, email),
+  landlord:profiles!property_reports_landlord_id_fkey(full_name, email)
+`;
+
+export const REPORT_REASON_LABELS: Record<PropertyReportReason, string> = {
+  scam: 'Scam or fraud',
+  duplicate: 'Duplicate listing',
+  fake_photos: 'Fake or stolen photos',
+  misleading_price: 'Misleading price',
+  wrong_location: 'Wrong location',
+  unavailable: 'No longer available',
+  offensive: 'Offensive content',
+  other: 'Something else',
+};
+
+export const REPORT_STATUS_LABELS: Record<PropertyReportStatus, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+};
+
+export const isRepeatOffender = (stats: Pick<ReportedLandlord, 'upheld_reports'>) =>
+  stats.upheld_reports >= REPEAT_OFFENDER_THRESHOLD;
+
+export class PropertyReportService {
+  // File a report, uploading its evidence first
+  static async submitReport(reporterId: string, input: NewPropertyReport): Promise<PropertyReport> {
+    const details = input.details.trim();
+    if (input.reason === 'other' && !details) {
+      throw new ValidationError('Tell us what is wrong with this listing');
+    }
+    if (input.evidence.length > MAX_REPORT_EVIDENCE) {
+      throw new ValidationError(`Attach up to ${MAX_REPORT_EVIDENCE} files`);
+    }
+
+    const evidencePaths: string[] = [];
+    for (const file of input.evidence) {
+      const path = `${reporterId}/${input.propertyId}/${Date.now()}_${Math.random().toString(36).substring(7)}_${file.name}`;
+      const { error: uploadError } = await supabase.storage
+        .from(EVIDENCE_BUCKET)
+        .upload(path, file, { cacheControl: '3600', upsert: false });
+
+      if (uploadError) {
+        console.error('Error uploading report evidence:', uploadError);
+        throw uploadError;
+      }
+
+      evidencePaths.push(path);
+    }
+
+    const { data, error } = await supabase
+      .from('property_reports')
+      .insert({
+        property_id: input.propertyId,
+        reporter_id: reporterId,
+        reason: input.reason,
+        details,
+        evidence_paths: evidencePaths,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ValidationError("You've already reported this listing. We'll be in touch once it's reviewed.");
+      }
+      console.error('Error submitting report:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Get reports for the moderation queue; open reports oldest first, handled ones newest first
+  static async getReports(status: PropertyReportStatus): Promise<PropertyReportWithDetails[]> {
+    const { data, error } = await supabase
+      .from('property_reports')
+      .select(REPORT_SELECT)
+      .eq('status', status)
+      .order(status === 'open' ? 'created_at' : 'resolved_at', { ascending: status === 'open' });
+
+    if (error) {
+      console.error('Error fetching reports:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Resolve or dismiss a report (admin); resolving can also suspend the listing
+  static async resolveReport(
+    reportId: string,
+    action: ReportResolution,
+    note = '',
+    suspendListing = false
+  ): Promise<PropertyReport> {
+    const { data, error } = await supabase.rpc('resolve_property_report', {
+      p_report_id: reportId,
+      p_action: action,
+      p_note: note.trim() || undefined,
+      p_suspend_listing: action === 'resolve' && suspendListing,
+    });
+
+    if (error) {
+      console.error('Error resolving report:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Report counts per landlord, keyed by landlord id
+  static async getReportedLandlords(): Promise<Record<string, ReportedLandlord>> {
+    const { data, error } = await supabase.rpc('get_reported_landlords');
+
+    if (error) {
+      console.error('Error fetching reported landlords:', error);
+      throw error;
+    }
+
+    return Object.fromEntries((data || []).map(row => [row.landlord_id, row]));
+  }
+
+  // Get short-lived links for a report's evidence
+  static async getEvidenceUrls(paths: string[]): Promise<string[]> {
+    if (paths.length === 0) return [];
+
+    const { data, error } = await supabase.storage
+      .from(EVIDENCE_BUCKET)
+      .createSignedUrls(paths, 3600);
+
+    if (error) {
+      console.error('Error creating evidence links:', error);
+      throw error;
+    }
+
+    return (data || []).map(item => item.signedUrl).filter(Boolean);
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import {
+  PropertySearchService,
+  SEARCH_PRICE_CEILING,
+  countActiveFilters,
+  parsePriceRange,
+  parseRoomFilter,
+} from './propertySearchService';
+
+describe('parseRoomFilter', () => {
+  it('treats empty and "all" as no filter', () => {
+    expect(parseRoomFilter()).toEqual({});
+    expect(parseRoomFilter('')).toEqual({});
+    expect(parseRoomFilter('all')).toEqual({});
+    expect(parseRoomFilter('any')).toEqual({});
+  });
+
+  it('pins studios to zero rooms and treats other counts as a minimum', () => {
+    expect(parseRoomFilter('0')).toEqual({ min: 0, max: 0 });
+    expect(parseRoomFilter('2')).toEqual({ min: 2 });
+    expect(parseRoomFilter('4+')).toEqual({ min: 4 });
+  });
+});
+
+describe('parsePriceRange', () => {
+  it('leaves the ends of the slider open', () => {
+    expect(parsePriceRange([0, SEARCH_PRICE_CEILING])).toEqual({ minPrice: undefined, maxPrice: undefined });
+    expect(parsePriceRange([500000, 2000000])).toEqual({ minPrice: 500000, maxPrice: 2000000 });
+    expect(parsePriceRange([0, 900], 1000)).toEqual({ minPrice: undefined, maxPrice: 900 });
+  });
+});
+
+describe('countActiveFilters', () => {
+  it('counts each filter group once and ignores the query and sort', () => {
+    expect(countActiveFilters({ query: 'lekki', sortBy: 'price-low' })).toBe(0);
+    expect(countActiveFilters({
+      location: 'Ikeja',
+      propertyType: 'duplex',
+      minPrice: 100000,
+      maxPrice: 900000,
+      minBedrooms: 0,
+      maxBedrooms: 0,
+      amenities: ['Parking'],
+    })).toBe(5);
+  });
+
+  it('counts the map area and near me as filters', () => {
+    expect(countActiveFilters({
+      bounds: { south: 6.4, west: 3.3, north: 6.6, east: 3.6 },
+      near: { latitude: 6.45, longitude: 3.47, radiusKm: 5 },
+    })).toBe(2);
+  });
+});
+
+describe('PropertySearchService.search', () => {
+  it('sends every filter and the page window to search_properties', async () => {
+    fakeSupabase.onRpc('search_properties', () => []);
+
+    await PropertySearchService.search({
+      query: '  3 bedroom lekki ',
+      location: ' Lekki ',
+      propertyType: 'apartment',
+      minPrice: 1000000,
+      minBedrooms: 3,
+      amenities: ['Parking', 'Security'],
+    }, 3, 10);
+
+    expect(fakeSupabase.rpcCalls).toEqual([{
+      name: 'search_properties',
+      args: {
+        p_query: '3 bedroom lekki',
+        p_location: 'Lekki',
+        p_property_type: 'apartment',
+        p_min_price: 1000000,
+        p_max_price: undefined,
+        p_min_bedrooms: 3,
+        p_max_bedrooms: undefined,
+        p_min_bathrooms: undefined,
+        p_amenities: ['Parking', 'Security'],
+        p_sort: 'relevance',
+        p_limit: 10,
+        p_offset: 20,
+      },
+    }]);
+  });
+
+  it('sends the map area and radius when set', async () => {
+    fakeSupabase.onRpc('search_properties', () => []);
+
+    await PropertySearchService.search({ bounds: { south: 6.4, west: 3.3, north: 6.6, east: 3.6 } });
+    await PropertySearchService.search({ near: { latitude: 6.45, longitude: 3.47, radiusKm: 5 }, sortBy: 'distance' });
+
+    expect(fakeSupabase.rpcCalls.map(call => call.args)).toMatchObject([
+      { p_min_lat: 6.4, p_min_lng: 3.3, p_max_lat: 6.6, p_max_lng: 3.6, p_near_lat: undefined, p_radius_km: undefined },
+      { p_min_lat: undefined, p_near_lat: 6.45, p_near_lng: 3.47, p_radius_km: 5, p_sort: 'distance' },
+    ]);
+  });
+
+  it('sorts by newest without a query and respects an explicit sort', async () => {
+    fakeSupabase.onRpc('search_properties', () => []);
+
+    await PropertySearchService.search({ query: '   ', amenities: [] });
+    await PropertySearchService.search({ query: 'yaba', sortBy: 'price-high' });
+
+    expect(fakeSupabase.rpcCalls.map(call => call.args)).toMatchObject([
+      { p_query: undefined, p_amenities: undefined, p_sort: 'newest', p_limit: 15, p_offset: 0 },
+      { p_query: 'yaba', p_sort: 'price-high' },
+    ]);
+  });
+
+  it('unwraps listings with their rank and reads the total from the window count', async () => {
+    fakeSupabase.onRpc('search_properties', () => [
+      { property: { id: 'property-1', title: 'Lekki flat', profiles: { id: 'landlord-1' } }, rank: 0.8, total_count: 42 },
+      { property: { id: 'property-2', title: 'Leki studio', profiles: null }, rank: 0.3, total_count: 42 },
+    ]);
+
+    const result = await PropertySearchService.search({ query: 'lekki' });
+
+    expect(result.total).toBe(42);
+    expect(result.properties).toEqual([
+      { id: 'property-1', title: 'Lekki flat', profiles: { id: 'landlord-1' }, rank: 0.8 },
+      { id: 'property-2', title: 'Leki studio', profiles: null, rank: 0.3 },
+    ]);
+  });
+
+  it('reports zero results for an empty page', async () => {
+    fakeSupabase.onRpc('search_properties', () => []);
+
+    await expect(PropertySearchService.search({}, 5)).resolves.toEqual({ properties: [], total: 0 });
+  });
+
+  it('surfaces database errors', async () => {
+    fakeSupabase.failNext('rpc:search_properties', { code: '42883', message: 'function does not exist' });
+
+    await expect(PropertySearchService.search({})).rejects.toMatchObject({ code: '42883' });
+  });
+});
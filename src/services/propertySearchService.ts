@@ -0,0 +1,157 @@
+import supabase from '@/integrations/supabase/client';
+import { PropertyType } from '@/integrations/supabase/types';
+import { Property } from '@/lib/supabase';
+
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  apartment: 'Apartment',
+  house: 'House',
+  duplex: 'Duplex',
+  bungalow: 'Bungalow',
+  studio: 'Studio',
+  self_contain: 'Self Contain',
+};
+
+export const PROPERTY_TYPES = Object.keys(PROPERTY_TYPE_LABELS) as PropertyType[];
+
+export type PropertySearchSort =
+  | 'relevance'
+  | 'newest'
+  | 'oldest'
+  | 'price-low'
+  | 'price-high'
+  | 'popular'
+  | 'distance';
+
+export const SEARCH_SORT_LABELS: Record<PropertySearchSort, string> = {
+  relevance: 'Best Match',
+  newest: 'Newest First',
+  oldest: 'Oldest First',
+  'price-low': 'Price: Low to High',
+  'price-high': 'Price: High to Low',
+  popular: 'Most Popular',
+  distance: 'Nearest First',
+};
+
+// Top of the price sliders; a maximum at the ceiling means "no upper limit"
+export const SEARCH_PRICE_CEILING = 5000000;
+
+export interface SearchBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface SearchNear {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+export const SEARCH_RADIUS_OPTIONS = [2, 5, 10, 25];
+
+export interface PropertySearchFilters {
+  query?: string;
+  location?: string;
+  propertyType?: PropertyType;
+  minPrice?: number;
+  maxPrice?: number;
+  minBedrooms?: number;
+  maxBedrooms?: number;
+  minBathrooms?: number;
+  amenities?: string[];
+  // Visible map area, set by "Search this area"
+  bounds?: SearchBounds;
+  // A point and radius, set by "Near me"
+  near?: SearchNear;
+  sortBy?: PropertySearchSort;
+}
+
+export type PropertySearchHit = Property & {
+  rank: number;
+  // Only present when the search has a point to measure from
+  distance_km?: number | null;
+  profiles?: {
+    id: string;
+    full_name: string | null;
+    email: string;
+    avatar_url: string | null;
+    verified_at: string | null;
+  } | null;
+};
+
+export interface PropertySearchResult {
+  properties: PropertySearchHit[];
+  total: number;
+}
+
+export const EMPTY_SEARCH_FILTERS: PropertySearchFilters = { sortBy: 'newest' };
+
+// Turn a room picker value ('', 'all', '0' for studio, '2' or '2+' for "at least two") into bounds
+export const parseRoomFilter = (value?: string): { min?: number; max?: number } => {
+  if (!value || value === 'all') return {};
+  const rooms = parseInt(value, 10);
+  if (isNaN(rooms)) return {};
+  return rooms === 0 ? { min: 0, max: 0 } : { min: rooms };
+};
+
+// Turn a price slider range into bounds, treating the ends of the slider as open
+export const parsePriceRange = ([min, max]: [number, number], ceiling = SEARCH_PRICE_CEILING) => ({
+  minPrice: min > 0 ? min : undefined,
+  maxPrice: max < ceiling ? max : undefined,
+});
+
+export const countActiveFilters = (filters: PropertySearchFilters) =>
+  [
+    filters.location,
+    filters.propertyType,
+    filters.minPrice !== undefined || filters.maxPrice !== undefined,
+    filters.minBedrooms !== undefined || filters.maxBedrooms !== undefined,
+    filters.minBathrooms,
+    filters.amenities?.length,
+    filters.bounds,
+    filters.near,
+  ].filter(Boolean).length;
+
+export class PropertySearchService {
+  // Search active listings; ranking, filtering and paging all happen in the database
+  static async search(
+    filters: PropertySearchFilters,
+    page = 1,
+    pageSize = 15
+  ): Promise<PropertySearchResult> {
+    const query = filters.query?.trim();
+    const { data, error } = await supabase.rpc('search_properties', {
+      p_query: query || undefined,
+      p_location: filters.location?.trim() || undefined,
+      p_property_type: filters.propertyType,
+      p_min_price: filters.minPrice,
+      p_max_price: filters.maxPrice,
+      p_min_bedrooms: filters.minBedrooms,
+      p_max_bedrooms: filters.maxBedrooms,
+      p_min_bathrooms: filters.minBathrooms,
+      p_amenities: filters.amenities?.length ? filters.amenities : undefined,
+      p_sort: filters.sortBy ?? (query ? 'relevance' : 'newest'),
+      p_limit: pageSize,
+      p_offset: (page - 1) * pageSize,
+      p_min_lat: filters.bounds?.south,
+      p_min_lng: filters.bounds?.west,
+      p_max_lat: filters.bounds?.north,
+      p_max_lng: filters.bounds?.east,
+      p_near_lat: filters.near?.latitude,
+      p_near_lng: filters.near?.longitude,
+      p_radius_km: filters.near?.radiusKm,
+    });
+
+    if (error) {
+      console.error('Error searching properties:', error);
+      throw error;
+    }
+
+    const rows = data || [];
+    return {
+      properties: rows.map(row => ({ ...(row.property as unknown as Property), rank: row.rank })),
+      total: rows[0]?.total_count ?? 0,
+    };
+  }
+}
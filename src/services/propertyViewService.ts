@@ -0,0 +1,44 @@
+import supabase from '@/integrations/supabase/client';
+import { PropertyViewSource } from '@/integrations/supabase/types';
+
+const SESSION_KEY = 'property_view_session';
+const RECORDED_KEY = 'property_views_recorded';
+
+const readRecorded = (): string[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(RECORDED_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export class PropertyViewService {
+  // Get the id used to deduplicate views for this browser session
+  static getSessionId(): string {
+    let sessionId = sessionStorage.getItem(SESSION_KEY);
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      sessionStorage.setItem(SESSION_KEY, sessionId);
+    }
+    return sessionId;
+  }
+
+  // Record a listing view; repeat views in the same session are skipped client-side and server-side
+  static async recordView(propertyId: string, source: PropertyViewSource = 'web'): Promise<void> {
+    const recorded = readRecorded();
+    if (recorded.includes(propertyId)) return;
+
+    const { error } = await supabase.rpc('record_property_view', {
+      p_property_id: propertyId,
+      p_session_id: this.getSessionId(),
+      p_source: source,
+    });
+
+    if (error) {
+      console.error('Error recording property view:', error);
+      throw error;
+    }
+
+    sessionStorage.setItem(RECORDED_KEY, JSON.stringify([...recorded, propertyId]));
+  }
+}
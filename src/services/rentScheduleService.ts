@@ -0,0 +1,69 @@
+import supabase from '@/integrations/supabase/client';
+import { PropertyTransaction, RecurrenceInterval, RentSchedule } from '@/integrations/supabase/types';
+
+export type RentDue = PropertyTransaction & {
+  properties?: { title: string; location: string | null } | null;
+};
+
+export const RENT_INTERVAL_LABELS: Record<RecurrenceInterval, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annually: 'Yearly',
+};
+
+const INTERVALS_PER_YEAR: Record<RecurrenceInterval, number> = {
+  monthly: 12,
+  quarterly: 4,
+  annually: 1,
+};
+
+// Listing prices are annual rent; split them over the collection interval
+export const getInstallmentAmount = (annualRent: number, interval: RecurrenceInterval) =>
+  Math.round((annualRent / INTERVALS_PER_YEAR[interval]) * 100) / 100;
+
+// Dues become overdue in a daily job; treat past-due pending rent the same in the meantime
+export const isRentOverdue = (due: Pick<PropertyTransaction, 'status' | 'due_date'>) =>
+  due.status === 'overdue' ||
+  (due.status === 'pending' && !!due.due_date && new Date(due.due_date) < new Date(new Date().toDateString()));
+
+export class RentScheduleService {
+  // Get unpaid rent dues for a tenant, soonest first
+  static async getUpcomingDues(tenantId: string, limit = 5): Promise<RentDue[]> {
+    const { data, error } = await supabase
+      .from('property_transactions')
+      .select(`
+        *,
+        properties:property_id (
+          title,
+          location
+        )
+      `)
+      .eq('tenant_id', tenantId)
+      .not('rent_schedule_id', 'is', null)
+      .in('status', ['pending', 'overdue'])
+      .order('due_date', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching rent dues:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // End a tenancy's schedule; unpaid dues after the end date are removed
+  static async endSchedule(scheduleId: string, endDate?: string): Promise<RentSchedule> {
+    const { data, error } = await supabase.rpc('end_rent_schedule', {
+      p_schedule_id: scheduleId,
+      p_end_date: endDate,
+    });
+
+    if (error) {
+      console.error('Error ending rent schedule:', error);
+      throw error;
+    }
+
+    return data;
+  }
+}
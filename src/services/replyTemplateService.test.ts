@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ValidationError } from '@/utils/errorHandling';
+import { DEFAULT_AUTO_REPLY_SETTINGS, ReplyTemplateService, fillTemplate } from './replyTemplateService';
+
+const seedTemplates = () =>
+  fakeSupabase.seed('message_templates', [], { unique: [['landlord_id', 'title']] });
+
+describe('fillTemplate', () => {
+  it('fills known variables and leaves the rest as typed', () => {
+    const body = 'Hi! {{property_title}} is {{ price }} a year. Inspection on {{day}}. - {{landlord_name}}';
+
+    expect(fillTemplate(body, { property_title: '3 Bed Duplex', price: '₦2,500,000', landlord_name: 'Ada' })).toBe(
+      'Hi! 3 Bed Duplex is ₦2,500,000 a year. Inspection on {{day}}. - Ada'
+    );
+    expect(fillTemplate(body, {})).toBe(body);
+  });
+});
+
+describe('ReplyTemplateService', () => {
+  it('saves, renames and lists templates alphabetically', async () => {
+    seedTemplates();
+
+    const inspection = await ReplyTemplateService.saveTemplate('landlord-1', {
+      title: ' Inspection times ',
+      body: 'Saturdays, 10am to 2pm',
+    });
+    await ReplyTemplateService.saveTemplate('landlord-1', { title: 'Availability', body: 'Still available!' });
+    await ReplyTemplateService.saveTemplate('landlord-1', { id: inspection.id, title: 'Viewing times', body: 'Sundays' });
+
+    const templates = await ReplyTemplateService.getTemplates('landlord-1');
+    expect(templates.map(template => [template.title, template.body])).toEqual([
+      ['Availability', 'Still available!'],
+      ['Viewing times', 'Sundays'],
+    ]);
+  });
+
+  it('rejects empty and duplicate templates', async () => {
+    seedTemplates();
+    await ReplyTemplateService.saveTemplate('landlord-1', { title: 'Payment terms', body: 'One year upfront' });
+
+    await expect(
+      ReplyTemplateService.saveTemplate('landlord-1', { title: 'Empty', body: '  ' })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      ReplyTemplateService.saveTemplate('landlord-1', { title: 'Payment terms', body: 'Two years' })
+    ).rejects.toThrow('You already have a template called "Payment terms"');
+  });
+
+  it('defaults auto-replies to off and saves them once per landlord', async () => {
+    fakeSupabase.seed('landlord_auto_replies', []);
+
+    expect(await ReplyTemplateService.getAutoReplies('landlord-1')).toEqual(DEFAULT_AUTO_REPLY_SETTINGS);
+
+    const welcome = { ...DEFAULT_AUTO_REPLY_SETTINGS, welcome_enabled: true, welcome_message: ' Thanks for reaching out! ' };
+    await ReplyTemplateService.saveAutoReplies('landlord-1', welcome);
+    await ReplyTemplateService.saveAutoReplies('landlord-1', { ...welcome, welcome_message: 'Hello from {{landlord_name}}' });
+
+    expect(fakeSupabase.rows('landlord_auto_replies')).toHaveLength(1);
+    expect(await ReplyTemplateService.getAutoReplies('landlord-1')).toMatchObject({
+      welcome_enabled: true,
+      welcome_message: 'Hello from {{landlord_name}}',
+    });
+  });
+
+  it('needs a message and a valid date range to turn on out of office', async () => {
+    fakeSupabase.seed('landlord_auto_replies', []);
+    const away = {
+      ...DEFAULT_AUTO_REPLY_SETTINGS,
+      away_enabled: true,
+      away_message: 'Back soon',
+      away_starts_on: '2025-07-10',
+      away_ends_on: '2025-07-01',
+    };
+
+    await expect(ReplyTemplateService.saveAutoReplies('landlord-1', away)).rejects.toThrow(
+      'Your away period must end on or after it starts'
+    );
+    await expect(
+      ReplyTemplateService.saveAutoReplies('landlord-1', { ...away, away_ends_on: null })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      ReplyTemplateService.saveAutoReplies('landlord-1', { ...away, away_message: ' ', away_ends_on: '2025-07-20' })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(fakeSupabase.rows('landlord_auto_replies')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,148 @@
+import supabase from '@/integrations/supabase/client';
+import { LandlordAutoReplies, MessageTemplate } from '@/integrations/supabase/types';
+import { ValidationError } from '@/utils/errorHandling';
+
+export const MAX_TEMPLATE_TITLE_LENGTH = 80;
+export const MAX_TEMPLATE_BODY_LENGTH = 2000;
+
+// Placeholders landlords can use in templates and auto-replies
+export const TEMPLATE_VARIABLES = {
+  property_title: 'Property title',
+  price: 'Price',
+  landlord_name: 'Your name',
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+export type AutoReplySettings = Omit<LandlordAutoReplies, 'landlord_id' | 'created_at' | 'updated_at'>;
+
+export const DEFAULT_AUTO_REPLY_SETTINGS: AutoReplySettings = {
+  welcome_enabled: false,
+  welcome_message: '',
+  away_enabled: false,
+  away_message: '',
+  away_starts_on: null,
+  away_ends_on: null,
+};
+
+// Replace {{variable}} placeholders; anything without a value is left as typed
+export const fillTemplate = (body: string, values: Partial<Record<TemplateVariable, string>>) =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    values[name as TemplateVariable] ?? placeholder
+  );
+
+export class ReplyTemplateService {
+  // Get a landlord's saved replies, alphabetically
+  static async getTemplates(landlordId: string): Promise<MessageTemplate[]> {
+    const { data, error } = await supabase
+      .from('message_templates')
+      .select('*')
+      .eq('landlord_id', landlordId)
+      .order('title', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching message templates:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Create a template, or update it when an id is given
+  static async saveTemplate(
+    landlordId: string,
+    template: { id?: string; title: string; body: string }
+  ): Promise<MessageTemplate> {
+    const title = template.title.trim();
+    const body = template.body.trim();
+    if (!title || !body) {
+      throw new ValidationError('Give the template a title and a message');
+    }
+    if (title.length > MAX_TEMPLATE_TITLE_LENGTH || body.length > MAX_TEMPLATE_BODY_LENGTH) {
+      throw new ValidationError(
+        `Keep titles under ${MAX_TEMPLATE_TITLE_LENGTH} characters and messages under ${MAX_TEMPLATE_BODY_LENGTH}`
+      );
+    }
+
+    const query = template.id
+      ? supabase.from('message_templates').update({ title, body }).eq('id', template.id)
+      : supabase.from('message_templates').insert({ landlord_id: landlordId, title, body });
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ValidationError(`You already have a template called "${title}"`);
+      }
+      console.error('Error saving message template:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Delete a template
+  static async deleteTemplate(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('message_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      console.error('Error deleting message template:', error);
+      throw error;
+    }
+  }
+
+  // Get a landlord's auto-reply settings, falling back to everything off
+  static async getAutoReplies(landlordId: string): Promise<AutoReplySettings> {
+    const { data, error } = await supabase
+      .from('landlord_auto_replies')
+      .select('*')
+      .eq('landlord_id', landlordId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching auto-replies:', error);
+      throw error;
+    }
+
+    if (!data) return DEFAULT_AUTO_REPLY_SETTINGS;
+    const { landlord_id: _landlordId, created_at: _createdAt, updated_at: _updatedAt, ...settings } = data;
+    return settings;
+  }
+
+  // Save auto-reply settings
+  static async saveAutoReplies(landlordId: string, settings: AutoReplySettings): Promise<AutoReplySettings> {
+    const changes: AutoReplySettings = {
+      ...settings,
+      welcome_message: settings.welcome_message.trim(),
+      away_message: settings.away_message.trim(),
+    };
+
+    if (changes.welcome_enabled && !changes.welcome_message) {
+      throw new ValidationError('Write a welcome message or turn it off');
+    }
+    if (changes.away_enabled) {
+      if (!changes.away_message) {
+        throw new ValidationError('Write an away message or turn it off');
+      }
+      if (!changes.away_starts_on || !changes.away_ends_on) {
+        throw new ValidationError('Choose when you are away from and until');
+      }
+      if (changes.away_ends_on < changes.away_starts_on) {
+        throw new ValidationError('Your away period must end on or after it starts');
+      }
+    }
+
+    const { error } = await supabase
+      .from('landlord_auto_replies')
+      .upsert({ landlord_id: landlordId, ...changes }, { onConflict: 'landlord_id' });
+
+    if (error) {
+      console.error('Error saving auto-replies:', error);
+      throw error;
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import { ValidationError } from '@/utils/errorHandling';
+import {
+  SavedSearchService,
+  describeSearchFilters,
+  normalizeSearchFilters,
+  suggestSearchName,
+} from './savedSearchService';
+
+const seedSavedSearches = () =>
+  fakeSupabase.seed('saved_searches', [], { unique: [['user_id', 'name']] });
+
+describe('normalizeSearchFilters', () => {
+  it('drops blank and empty filters but keeps zero bounds', () => {
+    expect(normalizeSearchFilters({
+      query: '  ',
+      location: ' Yaba ',
+      minPrice: undefined,
+      maxBedrooms: 0,
+      minBedrooms: 0,
+      amenities: [],
+      near: { latitude: 6.5, longitude: 3.37, radiusKm: 5 },
+      bounds: undefined,
+      sortBy: 'newest',
+    })).toEqual({
+      location: 'Yaba',
+      minBedrooms: 0,
+      maxBedrooms: 0,
+      near: { latitude: 6.5, longitude: 3.37, radiusKm: 5 },
+      sortBy: 'newest',
+    });
+  });
+});
+
+describe('describeSearchFilters', () => {
+  it('labels each filter in reading order', () => {
+    expect(describeSearchFilters({
+      query: 'serviced',
+      location: 'Lekki',
+      propertyType: 'self_contain',
+      minPrice: 500000,
+      maxPrice: 1500000,
+      minBedrooms: 2,
+      minBathrooms: 1,
+      amenities: ['Parking', 'Security'],
+    })).toEqual([
+      '"serviced"',
+      'Lekki',
+      'Self Contain',
+      expect.stringMatching(/500,000 - .*1,500,000/),
+      '2+ beds',
+      '1+ baths',
+      'Parking, Security',
+    ]);
+  });
+
+  it('describes open-ended prices and studios', () => {
+    expect(describeSearchFilters({ minPrice: 800000 })).toEqual([expect.stringMatching(/800,000\+$/)]);
+    expect(describeSearchFilters({ maxPrice: 800000 })).toEqual([expect.stringMatching(/^Up to .*800,000/)]);
+    expect(describeSearchFilters({ minBedrooms: 0, maxBedrooms: 0 })).toEqual(['Studio']);
+  });
+
+  it('describes the map area and radius', () => {
+    expect(describeSearchFilters({
+      near: { latitude: 6.45, longitude: 3.47, radiusKm: 5 },
+      bounds: { south: 6.4, west: 3.3, north: 6.6, east: 3.6 },
+    })).toEqual(['Within 5 km', 'Map area']);
+  });
+
+  it('names an empty search "All listings"', () => {
+    expect(suggestSearchName({})).toBe('All listings');
+    expect(suggestSearchName({ location: 'Ikeja', propertyType: 'duplex', minBedrooms: 4, minBathrooms: 3 }))
+      .toBe('Ikeja · Duplex · 4+ beds');
+  });
+});
+
+describe('SavedSearchService', () => {
+  it('saves normalized filters with the chosen alert frequency', async () => {
+    seedSavedSearches();
+
+    const saved = await SavedSearchService.saveSearch(
+      'renter-1',
+      ' Lekki flats ',
+      { query: '', location: 'Lekki', minBedrooms: 2, amenities: [] },
+      'daily'
+    );
+
+    expect(saved).toMatchObject({
+      user_id: 'renter-1',
+      name: 'Lekki flats',
+      alert_frequency: 'daily',
+      filters: { location: 'Lekki', minBedrooms: 2 },
+    });
+    expect(fakeSupabase.rows('saved_searches')[0].filters).toEqual({ location: 'Lekki', minBedrooms: 2 });
+  });
+
+  it('requires a name and rejects duplicate names', async () => {
+    seedSavedSearches();
+
+    await expect(SavedSearchService.saveSearch('renter-1', '   ', {})).rejects.toBeInstanceOf(ValidationError);
+    await SavedSearchService.saveSearch('renter-1', 'Yaba', { location: 'Yaba' });
+    await expect(SavedSearchService.saveSearch('renter-1', 'Yaba', { location: 'Yaba' }))
+      .rejects.toThrow('You already have a saved search with this name');
+    await expect(SavedSearchService.saveSearch('renter-2', 'Yaba', { location: 'Yaba' })).resolves.toBeTruthy();
+  });
+
+  it('lists, updates and deletes a user\'s searches', async () => {
+    seedSavedSearches();
+    const first = await SavedSearchService.saveSearch('renter-1', 'First', {});
+    await SavedSearchService.saveSearch('renter-2', 'Other', {});
+
+    const updated = await SavedSearchService.updateAlertFrequency(first.id, 'off');
+    expect(updated.alert_frequency).toBe('off');
+    await expect(SavedSearchService.getSavedSearches('renter-1')).resolves.toMatchObject([
+      { id: first.id, alert_frequency: 'off' },
+    ]);
+
+    await SavedSearchService.deleteSavedSearch(first.id);
+    await expect(SavedSearchService.getSavedSearches('renter-1')).resolves.toEqual([]);
+  });
+
+  it('counts matches from the last week per search', async () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    fakeSupabase.seed('saved_search_matches', [
+      { saved_search_id: 'search-1', user_id: 'renter-1', property_id: 'p1', created_at: daysAgo(1) },
+      { saved_search_id: 'search-1', user_id: 'renter-1', property_id: 'p2', created_at: daysAgo(3) },
+      { saved_search_id: 'search-2', user_id: 'renter-1', property_id: 'p1', created_at: daysAgo(6) },
+      { saved_search_id: 'search-2', user_id: 'renter-1', property_id: 'p3', created_at: daysAgo(10) },
+      { saved_search_id: 'search-3', user_id: 'renter-2', property_id: 'p1', created_at: daysAgo(1) },
+    ]);
+
+    await expect(SavedSearchService.getRecentMatchCounts('renter-1')).resolves.toEqual({
+      'search-1': 2,
+      'search-2': 1,
+    });
+  });
+});
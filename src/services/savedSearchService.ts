@@ -0,0 +1,180 @@
+import supabase from '@/integrations/supabase/client';
+import { Json, SavedSearch, SavedSearchAlertFrequency } from '@/integrations/supabase/types';
+import { ValidationError } from '@/utils/errorHandling';
+import { formatCurrency } from '@/services/platformSettingsService';
+import { PROPERTY_TYPE_LABELS, PropertySearchFilters } from '@/services/propertySearchService';
+
+export type SavedSearchWithFilters = Omit<SavedSearch, 'filters'> & {
+  filters: PropertySearchFilters;
+};
+
+export const ALERT_FREQUENCY_LABELS: Record<SavedSearchAlertFrequency, string> = {
+  instant: 'Instant alerts',
+  daily: 'Daily digest',
+  off: 'No alerts',
+};
+
+// New matches from this far back count as "new" on the saved searches list
+const RECENT_MATCH_DAYS = 7;
+
+// Keep only the filters that narrow the search, so saved searches compare and display cleanly
+export const normalizeSearchFilters = (filters: PropertySearchFilters): PropertySearchFilters => {
+  const normalized: PropertySearchFilters = {};
+  const query = filters.query?.trim();
+  const location = filters.location?.trim();
+
+  if (query) normalized.query = query;
+  if (location) normalized.location = location;
+  if (filters.propertyType) normalized.propertyType = filters.propertyType;
+  if (filters.minPrice !== undefined) normalized.minPrice = filters.minPrice;
+  if (filters.maxPrice !== undefined) normalized.maxPrice = filters.maxPrice;
+  if (filters.minBedrooms !== undefined) normalized.minBedrooms = filters.minBedrooms;
+  if (filters.maxBedrooms !== undefined) normalized.maxBedrooms = filters.maxBedrooms;
+  if (filters.minBathrooms !== undefined) normalized.minBathrooms = filters.minBathrooms;
+  if (filters.amenities?.length) normalized.amenities = filters.amenities;
+  if (filters.bounds) normalized.bounds = filters.bounds;
+  if (filters.near) normalized.near = filters.near;
+  if (filters.sortBy) normalized.sortBy = filters.sortBy;
+
+  return normalized;
+};
+
+// Short labels for each filter, e.g. ['"duplex"', 'Lekki', '₦1,000,000+', '3+ beds']
+export const describeSearchFilters = (filters: PropertySearchFilters): string[] => {
+  const parts: string[] = [];
+
+  if (filters.query) parts.push(`"${filters.query}"`);
+  if (filters.location) parts.push(filters.location);
+  if (filters.propertyType) parts.push(PROPERTY_TYPE_LABELS[filters.propertyType]);
+
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined) {
+    parts.push(`${formatCurrency(filters.minPrice)} - ${formatCurrency(filters.maxPrice)}`);
+  } else if (filters.minPrice !== undefined) {
+    parts.push(`${formatCurrency(filters.minPrice)}+`);
+  } else if (filters.maxPrice !== undefined) {
+    parts.push(`Up to ${formatCurrency(filters.maxPrice)}`);
+  }
+
+  if (filters.maxBedrooms === 0) {
+    parts.push('Studio');
+  } else if (filters.minBedrooms !== undefined) {
+    parts.push(`${filters.minBedrooms}+ beds`);
+  }
+  if (filters.minBathrooms !== undefined) parts.push(`${filters.minBathrooms}+ baths`);
+  if (filters.amenities?.length) parts.push(filters.amenities.join(', '));
+  if (filters.near) parts.push(`Within ${filters.near.radiusKm} km`);
+  if (filters.bounds) parts.push('Map area');
+
+  return parts;
+};
+
+// Suggest a name from the most specific filters
+export const suggestSearchName = (filters: PropertySearchFilters) =>
+  describeSearchFilters(filters).slice(0, 3).join(' · ') || 'All listings';
+
+const toSavedSearch = (row: SavedSearch): SavedSearchWithFilters => ({
+  ...row,
+  filters: (row.filters || {}) as PropertySearchFilters,
+});
+
+export class SavedSearchService {
+  // Get a user's saved searches, newest first
+  static async getSavedSearches(userId: string): Promise<SavedSearchWithFilters[]> {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching saved searches:', error);
+      throw error;
+    }
+
+    return (data || []).map(toSavedSearch);
+  }
+
+  // Count listings that matched each saved search in the last week
+  static async getRecentMatchCounts(userId: string): Promise<Record<string, number>> {
+    const since = new Date(Date.now() - RECENT_MATCH_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+      .from('saved_search_matches')
+      .select('saved_search_id')
+      .eq('user_id', userId)
+      .gte('created_at', since);
+
+    if (error) {
+      console.error('Error fetching saved search matches:', error);
+      throw error;
+    }
+
+    return (data || []).reduce<Record<string, number>>((counts, match) => {
+      counts[match.saved_search_id] = (counts[match.saved_search_id] || 0) + 1;
+      return counts;
+    }, {});
+  }
+
+  // Save the current search filters under a name
+  static async saveSearch(
+    userId: string,
+    name: string,
+    filters: PropertySearchFilters,
+    alertFrequency: SavedSearchAlertFrequency = 'instant'
+  ): Promise<SavedSearchWithFilters> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new ValidationError('Give your search a name');
+    }
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert({
+        user_id: userId,
+        name: trimmedName,
+        filters: normalizeSearchFilters(filters) as Json,
+        alert_frequency: alertFrequency,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ValidationError('You already have a saved search with this name');
+      }
+      console.error('Error saving search:', error);
+      throw error;
+    }
+
+    return toSavedSearch(data);
+  }
+
+  // Change how often a saved search sends alerts
+  static async updateAlertFrequency(id: string, alertFrequency: SavedSearchAlertFrequency): Promise<SavedSearchWithFilters> {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .update({ alert_frequency: alertFrequency })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating saved search:', error);
+      throw error;
+    }
+
+    return toSavedSearch(data);
+  }
+
+  // Delete a saved search and its match history
+  static async deleteSavedSearch(id: string) {
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting saved search:', error);
+      throw error;
+    }
+  }
+}
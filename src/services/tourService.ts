@@ -0,0 +1,211 @@
+import supabase from '@/integrations/supabase/client';
+import { TourBooking, TourSlot } from '@/integrations/supabase/types';
+
+export type TourBookingWithDetails = TourBooking & {
+  slot?: Pick<TourSlot, 'id' | 'starts_at' | 'ends_at' | 'notes'> | null;
+  property?: { id: string; title: string; location: string | null } | null;
+  renter?: { full_name: string | null; email: string } | null;
+};
+
+export interface TourSlotInput {
+  starts_at: string;
+  ends_at: string;
+}
+
+const BOOKING_SELECT = `
+  *,
+  slot:tour_slots(id, starts_at, ends_at, notes),
+  property:properties(id, title, location),
+  renter:profiles!tour_bookings_renter_id_fkey(full_name, email)
+`;
+
+export const TOUR_STATUS_LABELS: Record<TourBooking['status'], string> = {
+  requested: 'Awaiting Confirmation',
+  confirmed: 'Confirmed',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+};
+
+export const isSlotAvailable = (slot: TourSlot) =>
+  slot.booked_count < slot.capacity && new Date(slot.starts_at) > new Date();
+
+// Split a time window on one day into back-to-back slots, e.g. 10:00-12:00 every 30 minutes
+export const buildTourSlots = (
+  date: string,
+  startTime: string,
+  endTime: string,
+  durationMinutes: number
+): TourSlotInput[] => {
+  const slots: TourSlotInput[] = [];
+  const end = new Date(`${date}T${endTime}`);
+  let start = new Date(`${date}T${startTime}`);
+
+  while (start.getTime() + durationMinutes * 60000 <= end.getTime()) {
+    const slotEnd = new Date(start.getTime() + durationMinutes * 60000);
+    slots.push({ starts_at: start.toISOString(), ends_at: slotEnd.toISOString() });
+    start = slotEnd;
+  }
+
+  return slots;
+};
+
+// Bookings are fetched by creation date; show them in the order the tours happen
+const sortBySlotTime = (bookings: TourBookingWithDetails[]) =>
+  [...bookings].sort((a, b) =>
+    new Date(a.slot?.starts_at || 0).getTime() - new Date(b.slot?.starts_at || 0).getTime()
+  );
+
+export class TourService {
+  // Get upcoming slots for a property, soonest first
+  static async getUpcomingSlots(propertyId: string): Promise<TourSlot[]> {
+    const { data, error } = await supabase
+      .from('tour_slots')
+      .select('*')
+      .eq('property_id', propertyId)
+      .gt('starts_at', new Date().toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching tour slots:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Publish viewing slots for a property
+  static async createSlots(
+    propertyId: string,
+    landlordId: string,
+    slots: TourSlotInput[],
+    options: { capacity?: number; notes?: string } = {}
+  ): Promise<TourSlot[]> {
+    const { data, error } = await supabase
+      .from('tour_slots')
+      .upsert(
+        slots.map(slot => ({
+          property_id: propertyId,
+          landlord_id: landlordId,
+          starts_at: slot.starts_at,
+          ends_at: slot.ends_at,
+          capacity: options.capacity ?? 1,
+          notes: options.notes?.trim() || null,
+        })),
+        { onConflict: 'property_id,starts_at', ignoreDuplicates: true }
+      )
+      .select();
+
+    if (error) {
+      console.error('Error creating tour slots:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Remove a slot nobody has booked
+  static async deleteSlot(slotId: string) {
+    const { error } = await supabase
+      .from('tour_slots')
+      .delete()
+      .eq('id', slotId);
+
+    if (error) {
+      console.error('Error deleting tour slot:', error);
+      throw error;
+    }
+  }
+
+  // Get a renter's tours, soonest first
+  static async getRenterBookings(renterId: string): Promise<TourBookingWithDetails[]> {
+    const { data, error } = await supabase
+      .from('tour_bookings')
+      .select(BOOKING_SELECT)
+      .eq('renter_id', renterId)
+      .in('status', ['requested', 'confirmed'])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching renter tours:', error);
+      throw error;
+    }
+
+    return sortBySlotTime(data || []);
+  }
+
+  // Get the active tours booked for a property
+  static async getPropertyBookings(propertyId: string): Promise<TourBookingWithDetails[]> {
+    const { data, error } = await supabase
+      .from('tour_bookings')
+      .select(BOOKING_SELECT)
+      .eq('property_id', propertyId)
+      .in('status', ['requested', 'confirmed'])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching property tours:', error);
+      throw error;
+    }
+
+    return sortBySlotTime(data || []);
+  }
+
+  // Book a viewing in a slot
+  static async book(slotId: string, notes?: string): Promise<TourBooking> {
+    const { data, error } = await supabase.rpc('book_tour', {
+      p_slot_id: slotId,
+      p_notes: notes,
+    });
+
+    if (error) {
+      console.error('Error booking tour:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Move a booking to another slot
+  static async reschedule(bookingId: string, slotId: string): Promise<TourBooking> {
+    const { data, error } = await supabase.rpc('reschedule_tour', {
+      p_booking_id: bookingId,
+      p_slot_id: slotId,
+    });
+
+    if (error) {
+      console.error('Error rescheduling tour:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Confirm a requested tour (landlord)
+  static async confirm(bookingId: string): Promise<TourBooking> {
+    const { data, error } = await supabase.rpc('confirm_tour', {
+      p_booking_id: bookingId,
+    });
+
+    if (error) {
+      console.error('Error confirming tour:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Cancel a tour (either party)
+  static async cancel(bookingId: string, reason?: string): Promise<TourBooking> {
+    const { data, error } = await supabase.rpc('cancel_tour', {
+      p_booking_id: bookingId,
+      p_reason: reason,
+    });
+
+    if (error) {
+      console.error('Error cancelling tour:', error);
+      throw error;
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeSupabase, FakeSupabaseError } from './fakeSupabase';
+
+describe('fake supabase client', () => {
+  it('filters, orders, pages and counts like PostgREST', async () => {
+    const db = createFakeSupabase().seed('properties', [
+      { id: 'a', title: 'Studio in Yaba', price: 600000, status: 'active' },
+      { id: 'b', title: 'Duplex in Lekki', price: 5000000, status: 'active' },
+      { id: 'c', title: 'Flat in Ikeja', price: 1500000, status: 'pending' },
+    ]);
+
+    const { data, count } = await db
+      .from('properties')
+      .select('id, price', { count: 'exact' })
+      .eq('status', 'active')
+      .gte('price', 500000)
+      .order('price', { ascending: false })
+      .range(0, 0);
+    expect(count).toBe(2);
+    expect(data).toEqual([{ id: 'b', price: 5000000 }]);
+
+    const { data: searched } = await db.from('properties').select('id').or('title.ilike.%ikeja%,price.lt.700000');
+    expect(searched).toEqual([{ id: 'a' }, { id: 'c' }]);
+
+    const { error } = await db.from('properties').select('*').eq('id', 'missing').single();
+    expect(error?.code).toBe('PGRST116');
+  });
+
+  it('enforces unique keys on insert and merges on upsert', async () => {
+    const db = createFakeSupabase().seed('saved_properties', [], { unique: [['user_id', 'property_id']] });
+
+    await db.from('saved_properties').insert({ user_id: 'u', property_id: 'p', note: 'first' });
+    const { error } = await db.from('saved_properties').insert({ user_id: 'u', property_id: 'p' });
+    expect(error?.code).toBe('23505');
+
+    await db.from('saved_properties').upsert({ user_id: 'u', property_id: 'p', note: 'second' }, { onConflict: 'user_id,property_id' });
+    expect(db.rows('saved_properties')).toMatchObject([{ note: 'second' }]);
+  });
+
+  it('runs registered rpc handlers and turns thrown errors into responses', async () => {
+    const db = createFakeSupabase()
+      .onRpc('double', ({ n }) => Number(n) * 2)
+      .onRpc('guarded', () => { throw new FakeSupabaseError({ message: 'Only admins', code: '42501' }); });
+
+    await expect(db.rpc('double', { n: 4 })).resolves.toEqual({ data: 8, error: null });
+    await expect(db.rpc('guarded')).resolves.toMatchObject({ error: { code: '42501' } });
+    await expect(db.rpc('missing')).resolves.toMatchObject({ error: { code: 'PGRST202' } });
+  });
+
+  it('stores files per bucket', async () => {
+    const bucket = createFakeSupabase().storage.from('property-images');
+
+    await bucket.upload('p1/front.jpg', new Blob(['jpg']));
+    const { error } = await bucket.upload('p1/front.jpg', new Blob(['jpg']));
+    expect(error?.status).toBe(409);
+    expect((await bucket.list('p1')).data).toEqual([{ name: 'front.jpg' }]);
+    expect((await bucket.createSignedUrl('p1/front.jpg', 60)).data?.signedUrl).toContain('property-images/p1/front.jpg');
+    expect((await bucket.download('p1/back.jpg')).error?.status).toBe(404);
+  });
+
+  it('delivers broadcasts and presence to other subscribers of a topic', async () => {
+    const db = createFakeSupabase();
+    const received: unknown[] = [];
+    let online = 0;
+    const renter = db.channel('chat_room:1').subscribe();
+    const landlord = db
+      .channel('chat_room:1')
+      .on('broadcast', { event: 'typing' }, ({ payload }) => received.push(payload))
+      .on('presence', { event: 'sync' }, () => { online = Object.keys(landlord.presenceState()).length; })
+      .subscribe();
+
+    await renter.send({ type: 'broadcast', event: 'typing', payload: { user_id: 'renter' } });
+    await renter.track({ user_id: 'renter' });
+    expect(received).toEqual([{ user_id: 'renter' }]);
+    expect(online).toBe(1);
+
+    await renter.unsubscribe();
+    expect(db.getChannels()).toEqual([landlord]);
+  });
+});
@@ -0,0 +1,924 @@
+/**
+ * In-memory stand-in for the supabase client, so services, hooks and components
+ * can be tested offline. It covers the parts of the client the app uses: the
+ * query builder, rpc, storage, realtime channels and password auth.
+ *
+ * Tables are plain arrays of rows. Seed them with `seed`, read them back with
+ * `rows`, register database functions with `onRpc` and make the next query on a
+ * table fail with `failNext`. Auth emails (reset links, confirmations, sign-in
+ * codes) are collected in `auth.sentEmails` instead of being sent.
+ */
+
+export type Row = Record<string, unknown>;
+
+export interface FakeError {
+  message: string;
+  code?: string;
+  details?: string | null;
+  hint?: string | null;
+  status?: number;
+}
+
+export interface FakeResponse<T = unknown> {
+  data: T | null;
+  error: FakeError | null;
+  count?: number | null;
+}
+
+type RpcHandler = (args: Row) => unknown | Promise<unknown>;
+type Filter = (row: Row) => boolean;
+type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface FakeUser {
+  id: string;
+  email: string;
+  email_confirmed_at: string | null;
+  user_metadata: Row;
+  app_metadata: Row;
+  created_at: string;
+}
+
+// An email auth would have sent: a reset link, a confirmation or a sign-in code
+export interface FakeAuthEmail {
+  type: 'recovery' | 'signup' | 'magiclink';
+  email: string;
+  token?: string;
+  redirectTo?: string;
+}
+
+export interface FakeFactor {
+  id: string;
+  friendly_name: string;
+  factor_type: 'totp';
+  status: 'verified' | 'unverified';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakeSession {
+  access_token: string;
+  refresh_token: string;
+  token_type: 'bearer';
+  expires_in: number;
+  user: FakeUser;
+}
+
+export class FakeSupabaseError extends Error {
+  code?: string;
+
+  constructor(error: FakeError) {
+    super(error.message);
+    this.name = 'FakeSupabaseError';
+    this.code = error.code;
+  }
+}
+
+const uniqueViolation = (table: string, columns: string[]): FakeError => ({
+  message: `duplicate key value violates unique constraint "${table}_${columns.join('_')}_key"`,
+  code: '23505',
+  details: null,
+  hint: null,
+});
+
+const noRows = (count: number): FakeError => ({
+  message: 'JSON object requested, multiple (or no) rows returned',
+  code: 'PGRST116',
+  details: `The result contains ${count} rows`,
+  hint: null,
+});
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+// Undefined values are dropped, as they are when the real client serialises a request
+const stripUndefined = (row: Row): Row =>
+  Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+
+const compare = (a: unknown, b: unknown) => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return a < b ? -1 : 1;
+};
+
+const likeToRegExp = (pattern: string, flags: string) =>
+  new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`, flags);
+
+// Parse a PostgREST filter value such as `in.(a,b)` or `is.null`
+const parseOperand = (operator: string, raw: string): unknown => {
+  if (operator === 'in') return raw.replace(/^\(|\)$/g, '').split(',').map(value => value.replace(/^"|"$/g, ''));
+  if (operator === 'is') return raw === 'null' ? null : raw === 'true';
+  return raw;
+};
+
+const matches = (operator: string, value: unknown, operand: unknown): boolean => {
+  switch (operator) {
+    case 'eq': return String(value) === String(operand) && value !== null && value !== undefined;
+    case 'neq': return String(value) !== String(operand);
+    case 'gt': return value !== null && value !== undefined && compare(value, operand) > 0;
+    case 'gte': return value !== null && value !== undefined && compare(value, operand) >= 0;
+    case 'lt': return value !== null && value !== undefined && compare(value, operand) < 0;
+    case 'lte': return value !== null && value !== undefined && compare(value, operand) <= 0;
+    case 'in': return (operand as unknown[]).map(String).includes(String(value));
+    case 'is': return operand === null ? value === null || value === undefined : value === operand;
+    case 'like': return typeof value === 'string' && likeToRegExp(String(operand), '').test(value);
+    case 'ilike': return typeof value === 'string' && likeToRegExp(String(operand), 'i').test(value);
+    case 'cs':
+    case 'contains': {
+      const wanted = Array.isArray(operand) ? operand : [operand];
+      return Array.isArray(value) && wanted.every(item => value.includes(item));
+    }
+    default:
+      throw new Error(`Filter operator "${operator}" is not supported by the fake supabase client`);
+  }
+};
+
+// Build a predicate from an `or()` expression, e.g. `full_name.ilike.%jo%,email.ilike.%jo%`
+const parseOr = (expression: string): Filter => {
+  const clauses = expression.split(/,(?![^(]*\))/).map(clause => {
+    const [column, operator, ...rest] = clause.split('.');
+    const operand = parseOperand(operator, rest.join('.'));
+    return (row: Row) => matches(operator, row[column], operand);
+  });
+  return row => clauses.some(clause => clause(row));
+};
+
+// Columns like `id, status` are projected; embedded relations and `*` return whole rows
+const project = (row: Row, columns: string) => {
+  if (!columns || /[*(:!]/.test(columns)) return row;
+  return Object.fromEntries(
+    columns.split(',').map(column => column.trim()).filter(Boolean).map(column => [column, row[column]])
+  );
+};
+
+export class FakeQueryBuilder implements PromiseLike<FakeResponse> {
+  private operation: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private conflictColumns: string[] = ['id'];
+  private ignoreDuplicates = false;
+  private columns = '*';
+  private returning = false;
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private rangeFrom = 0;
+  private rangeTo: number | null = null;
+  private countRows = false;
+  private head = false;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly db: FakeSupabase, private readonly table: string) {}
+
+  select(columns = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}) {
+    if (this.operation === 'select') {
+      this.columns = columns;
+      this.countRows = Boolean(options.count);
+      this.head = Boolean(options.head);
+    } else {
+      this.returning = true;
+      this.columns = columns;
+    }
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = 'insert';
+    this.payload = (Array.isArray(rows) ? rows : [rows]).map(stripUndefined);
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.operation = 'upsert';
+    this.payload = (Array.isArray(rows) ? rows : [rows]).map(stripUndefined);
+    this.conflictColumns = options.onConflict ? options.onConflict.split(',').map(c => c.trim()) : ['id'];
+    this.ignoreDuplicates = Boolean(options.ignoreDuplicates);
+    return this;
+  }
+
+  update(patch: Row) {
+    this.operation = 'update';
+    this.patch = stripUndefined(patch);
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.where(column, 'eq', value); }
+  neq(column: string, value: unknown) { return this.where(column, 'neq', value); }
+  gt(column: string, value: unknown) { return this.where(column, 'gt', value); }
+  gte(column: string, value: unknown) { return this.where(column, 'gte', value); }
+  lt(column: string, value: unknown) { return this.where(column, 'lt', value); }
+  lte(column: string, value: unknown) { return this.where(column, 'lte', value); }
+  in(column: string, values: unknown[]) { return this.where(column, 'in', values); }
+  is(column: string, value: unknown) { return this.where(column, 'is', value); }
+  like(column: string, pattern: string) { return this.where(column, 'like', pattern); }
+  ilike(column: string, pattern: string) { return this.where(column, 'ilike', pattern); }
+  contains(column: string, value: unknown) { return this.where(column, 'contains', value); }
+
+  filter(column: string, operator: string, value: unknown) {
+    return this.where(column, operator, typeof value === 'string' ? parseOperand(operator, value) : value);
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    const operand = typeof value === 'string' ? parseOperand(operator, value) : value;
+    this.filters.push(row => !matches(operator, row[column], operand));
+    return this;
+  }
+
+  match(query: Row) {
+    Object.entries(query).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  or(expression: string) {
+    this.filters.push(parseOr(expression));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.rangeTo = this.rangeFrom + count - 1;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rangeFrom = from;
+    this.rangeTo = to;
+    return this;
+  }
+
+  single() {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = FakeResponse, TResult2 = never>(
+    onfulfilled?: ((value: FakeResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(column: string, operator: string, operand: unknown) {
+    this.filters.push(row => matches(operator, row[column], operand));
+    return this;
+  }
+
+  private matching(rows: Row[]) {
+    return rows.filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  private execute(): FakeResponse {
+    this.db.queries.push({ table: this.table, operation: this.operation });
+
+    const injected = this.db.takeFailure(this.table);
+    if (injected) return { data: null, error: injected, count: null };
+
+    const table = this.db.table(this.table);
+    let affected: Row[];
+
+    switch (this.operation) {
+      case 'select':
+        affected = this.matching(table);
+        break;
+      case 'insert': {
+        const error = this.db.insertRows(this.table, this.payload);
+        if (error) return { data: null, error, count: null };
+        affected = this.db.lastWritten;
+        break;
+      }
+      case 'upsert': {
+        const error = this.db.upsertRows(this.table, this.payload, this.conflictColumns, this.ignoreDuplicates);
+        if (error) return { data: null, error, count: null };
+        affected = this.db.lastWritten;
+        break;
+      }
+      case 'update': {
+        affected = this.matching(table);
+        const error = this.db.updateRows(this.table, affected, this.patch);
+        if (error) return { data: null, error, count: null };
+        break;
+      }
+      case 'delete':
+        affected = this.matching(table);
+        this.db.deleteRows(this.table, affected);
+        break;
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null, count: null };
+    }
+
+    const sorted = [...affected].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const result = compare(a[column], b[column]);
+        if (result !== 0) return ascending ? result : -result;
+      }
+      return 0;
+    });
+    const count = this.countRows ? sorted.length : null;
+    const page = sorted.slice(this.rangeFrom, this.rangeTo === null ? undefined : this.rangeTo + 1);
+    const data = page.map(row => clone(project(row, this.columns)));
+
+    if (this.head) return { data: null, error: null, count };
+
+    if (this.cardinality === 'single' || this.cardinality === 'maybeSingle') {
+      if (data.length === 1) return { data: data[0], error: null, count };
+      if (data.length === 0 && this.cardinality === 'maybeSingle') return { data: null, error: null, count };
+      return { data: null, error: noRows(data.length), count };
+    }
+
+    return { data, error: null, count };
+  }
+}
+
+type ChannelListener =
+  | { type: 'postgres_changes'; event: ChangeEvent | '*'; table?: string; filter?: string; callback: (payload: Row) => void }
+  | { type: 'broadcast' | 'presence'; event: string; callback: (payload: Row) => void };
+
+export class FakeChannel {
+  state: 'closed' | 'joined' = 'closed';
+  readonly listeners: ChannelListener[] = [];
+  private presenceKey = Math.random().toString(36).slice(2);
+
+  constructor(private readonly db: FakeSupabase, readonly topic: string) {}
+
+  on(type: string, filter: Row, callback: (payload: Row) => void) {
+    if (type === 'postgres_changes') {
+      this.listeners.push({
+        type,
+        event: (filter.event as ChangeEvent | '*') || '*',
+        table: filter.table as string | undefined,
+        filter: filter.filter as string | undefined,
+        callback,
+      });
+    } else if (type === 'broadcast' || type === 'presence') {
+      this.listeners.push({ type, event: String(filter.event ?? '*'), callback });
+    }
+    return this;
+  }
+
+  subscribe(callback?: (status: 'SUBSCRIBED' | 'CLOSED') => void) {
+    this.state = 'joined';
+    callback?.('SUBSCRIBED');
+    return this;
+  }
+
+  async unsubscribe() {
+    this.state = 'closed';
+    this.db.presence.get(this.topic)?.delete(this.presenceKey);
+    this.db.removeChannel(this);
+    return 'ok' as const;
+  }
+
+  // Broadcasts reach the other subscribers of the same topic, as with the default `self: false`
+  async send(message: { type: 'broadcast'; event: string; payload?: Row }) {
+    this.db.channelsFor(this.topic)
+      .filter(channel => channel !== this)
+      .forEach(channel => channel.emit('broadcast', message.event, { ...message }));
+    return 'ok' as const;
+  }
+
+  async track(payload: Row) {
+    const topic = this.db.presence.get(this.topic) ?? new Map<string, Row[]>();
+    topic.set(this.presenceKey, [{ ...payload, presence_ref: this.presenceKey }]);
+    this.db.presence.set(this.topic, topic);
+    this.db.channelsFor(this.topic).forEach(channel => channel.emit('presence', 'sync', {}));
+    return 'ok' as const;
+  }
+
+  async untrack() {
+    this.db.presence.get(this.topic)?.delete(this.presenceKey);
+    this.db.channelsFor(this.topic).forEach(channel => channel.emit('presence', 'sync', {}));
+    return 'ok' as const;
+  }
+
+  presenceState(): Record<string, Row[]> {
+    return Object.fromEntries(this.db.presence.get(this.topic) ?? []);
+  }
+
+  emit(type: 'broadcast' | 'presence', event: string, payload: Row) {
+    if (this.state !== 'joined') return;
+    this.listeners
+      .filter(listener => listener.type === type && (listener.event === '*' || listener.event === event))
+      .forEach(listener => listener.callback(payload));
+  }
+
+  emitChange(table: string, event: ChangeEvent, newRow: Row, oldRow: Row) {
+    if (this.state !== 'joined') return;
+    this.listeners.forEach(listener => {
+      if (listener.type !== 'postgres_changes') return;
+      if (listener.table && listener.table !== table) return;
+      if (listener.event !== '*' && listener.event !== event) return;
+      if (listener.filter) {
+        const [column, operator, ...rest] = listener.filter.replace('=', '.').split('.');
+        const row = event === 'DELETE' ? oldRow : newRow;
+        if (!matches(operator, row[column], parseOperand(operator, rest.join('.')))) return;
+      }
+      listener.callback({
+        schema: 'public',
+        table,
+        eventType: event,
+        commit_timestamp: new Date().toISOString(),
+        new: clone(newRow),
+        old: clone(oldRow),
+        errors: null,
+      });
+    });
+  }
+}
+
+export class FakeStorageBucket {
+  constructor(private readonly db: FakeSupabase, private readonly bucket: string) {}
+
+  private files() {
+    const files = this.db.storageObjects.get(this.bucket) ?? new Map<string, Blob>();
+    this.db.storageObjects.set(this.bucket, files);
+    return files;
+  }
+
+  async upload(path: string, file: Blob | string, options: { upsert?: boolean; contentType?: string } = {}) {
+    const injected = this.db.takeFailure(`storage:${this.bucket}`);
+    if (injected) return { data: null, error: injected };
+    if (this.files().has(path) && !options.upsert) {
+      return { data: null, error: { message: 'The resource already exists', status: 409 } };
+    }
+    const blob = typeof file === 'string' ? new Blob([file], { type: options.contentType }) : file;
+    this.files().set(path, blob);
+    return { data: { path, fullPath: `${this.bucket}/${path}` }, error: null };
+  }
+
+  async download(path: string) {
+    const file = this.files().get(path);
+    return file
+      ? { data: file, error: null }
+      : { data: null, error: { message: 'Object not found', status: 404 } };
+  }
+
+  async remove(paths: string[]) {
+    const removed = paths.filter(path => this.files().delete(path));
+    return { data: removed.map(name => ({ name })), error: null };
+  }
+
+  async list(prefix = '') {
+    const names = Array.from(this.files().keys())
+      .filter(path => path.startsWith(prefix ? `${prefix}/` : ''))
+      .map(path => ({ name: prefix ? path.slice(prefix.length + 1) : path }));
+    return { data: names, error: null };
+  }
+
+  getPublicUrl(path: string) {
+    return { data: { publicUrl: `${this.db.url}/storage/v1/object/public/${this.bucket}/${path}` } };
+  }
+
+  async createSignedUrl(path: string, expiresIn: number) {
+    if (!this.files().has(path)) return { data: null, error: { message: 'Object not found', status: 404 } };
+    return { data: { signedUrl: `${this.db.url}/storage/v1/object/sign/${this.bucket}/${path}?expires_in=${expiresIn}` }, error: null };
+  }
+
+  async createSignedUrls(paths: string[], expiresIn: number) {
+    const data = paths.map(path => ({
+      path,
+      error: this.files().has(path) ? null : 'Object not found',
+      signedUrl: this.files().has(path)
+        ? `${this.db.url}/storage/v1/object/sign/${this.bucket}/${path}?expires_in=${expiresIn}`
+        : '',
+    }));
+    return { data, error: null };
+  }
+}
+
+type AuthListener = (event: string, session: FakeSession | null) => void;
+
+export class FakeAuth {
+  private accounts = new Map<string, { user: FakeUser; password: string }>();
+  private session: FakeSession | null = null;
+  private listeners = new Set<AuthListener>();
+  private otpTokens = new Map<string, string>();
+  private factors = new Map<string, FakeFactor[]>();
+  private aal: 'aal1' | 'aal2' = 'aal1';
+  // New accounts are confirmed straight away unless the test turns this off
+  autoConfirm = true;
+  sentEmails: FakeAuthEmail[] = [];
+
+  reset() {
+    this.accounts.clear();
+    this.session = null;
+    this.listeners.clear();
+    this.otpTokens.clear();
+    this.factors.clear();
+    this.aal = 'aal1';
+    this.autoConfirm = true;
+    this.sentEmails = [];
+  }
+
+  // Create an account directly, without going through sign up
+  createUser({ id, email, password = 'password', user_metadata = {}, confirmed = true }: {
+    id?: string;
+    email: string;
+    password?: string;
+    user_metadata?: Row;
+    confirmed?: boolean;
+  }): FakeUser {
+    const user: FakeUser = {
+      id: id ?? crypto.randomUUID(),
+      email,
+      email_confirmed_at: confirmed ? new Date().toISOString() : null,
+      user_metadata,
+      app_metadata: {},
+      created_at: new Date().toISOString(),
+    };
+    this.accounts.set(email.toLowerCase(), { user, password });
+    return user;
+  }
+
+  // Start a session for a user without emitting an auth event, e.g. a session restored on load
+  setSession(user: FakeUser | null) {
+    this.session = user ? this.buildSession(user) : null;
+    return this.session;
+  }
+
+  async getSession() {
+    return { data: { session: clone(this.session) }, error: null };
+  }
+
+  async getUser() {
+    return this.session
+      ? { data: { user: clone(this.session.user) }, error: null }
+      : { data: { user: null }, error: { message: 'Auth session missing!', status: 400 } };
+  }
+
+  onAuthStateChange(callback: AuthListener) {
+    this.listeners.add(callback);
+    return { data: { subscription: { id: crypto.randomUUID(), unsubscribe: () => this.listeners.delete(callback) } } };
+  }
+
+  async signUp({ email, password, options = {} }: { email: string; password: string; options?: { data?: Row } }) {
+    if (this.accounts.has(email.toLowerCase())) {
+      return { data: { user: null, session: null }, error: { message: 'User already registered', status: 422 } };
+    }
+    const user = this.createUser({ email, password, user_metadata: options.data, confirmed: this.autoConfirm });
+    if (!this.autoConfirm) return { data: { user: clone(user), session: null }, error: null };
+
+    this.session = this.buildSession(user);
+    this.emit('SIGNED_IN');
+    return { data: { user: clone(user), session: clone(this.session) }, error: null };
+  }
+
+  async signInWithPassword({ email, password }: { email: string; password: string }) {
+    const account = this.accounts.get(email.toLowerCase());
+    if (!account || account.password !== password) {
+      return { data: { user: null, session: null }, error: { message: 'Invalid login credentials', status: 400 } };
+    }
+    if (!account.user.email_confirmed_at) {
+      return { data: { user: null, session: null }, error: { message: 'Email not confirmed', status: 400 } };
+    }
+    this.session = this.buildSession(account.user);
+    this.emit('SIGNED_IN');
+    return { data: { user: clone(account.user), session: clone(this.session) }, error: null };
+  }
+
+  // Like the real client, this succeeds whether or not the account exists
+  async resetPasswordForEmail(email: string, options: { redirectTo?: string } = {}) {
+    if (this.accounts.has(email.toLowerCase())) {
+      this.sentEmails.push({ type: 'recovery', email, redirectTo: options.redirectTo });
+    }
+    return { data: {}, error: null };
+  }
+
+  // Follow the link from a reset email: signs the user in and emits PASSWORD_RECOVERY
+  openRecoveryLink(email: string) {
+    const account = this.accounts.get(email.toLowerCase());
+    if (!account) throw new Error(`No account for ${email}`);
+    this.session = this.buildSession(account.user);
+    this.emit('PASSWORD_RECOVERY');
+  }
+
+  async updateUser({ password }: { password?: string }) {
+    const account = this.session && this.accounts.get(this.session.user.email.toLowerCase());
+    if (!account) return { data: { user: null }, error: { message: 'Auth session missing!', status: 401 } };
+    if (password !== undefined) {
+      if (password === account.password) {
+        return { data: { user: null }, error: { message: 'New password should be different from the old password.', status: 422 } };
+      }
+      account.password = password;
+    }
+    this.emit('USER_UPDATED');
+    return { data: { user: clone(account.user) }, error: null };
+  }
+
+  async resend({ email, options = {} }: { type: 'signup'; email: string; options?: { emailRedirectTo?: string } }) {
+    const account = this.accounts.get(email.toLowerCase());
+    if (account && !account.user.email_confirmed_at) {
+      this.sentEmails.push({ type: 'signup', email, redirectTo: options.emailRedirectTo });
+    }
+    return { data: {}, error: null };
+  }
+
+  async signInWithOtp({ email, options = {} }: { email: string; options?: { shouldCreateUser?: boolean; emailRedirectTo?: string } }) {
+    if (!this.accounts.has(email.toLowerCase())) {
+      if (options.shouldCreateUser === false) {
+        return { data: {}, error: { message: 'Signups not allowed for otp', status: 422 } };
+      }
+      this.createUser({ email, confirmed: false });
+    }
+    const token = String(100000 + Math.floor(Math.random() * 900000));
+    this.otpTokens.set(email.toLowerCase(), token);
+    this.sentEmails.push({ type: 'magiclink', email, token, redirectTo: options.emailRedirectTo });
+    return { data: {}, error: null };
+  }
+
+  async verifyOtp({ email, token }: { email: string; token: string; type: 'email' }) {
+    const account = this.accounts.get(email.toLowerCase());
+    if (!account || this.otpTokens.get(email.toLowerCase()) !== token) {
+      return { data: { user: null, session: null }, error: { message: 'Token has expired or is invalid', status: 403 } };
+    }
+    this.otpTokens.delete(email.toLowerCase());
+    account.user.email_confirmed_at ??= new Date().toISOString();
+    this.session = this.buildSession(account.user);
+    this.emit('SIGNED_IN');
+    return { data: { user: clone(account.user), session: clone(this.session) }, error: null };
+  }
+
+  async refreshSession() {
+    return { data: { session: clone(this.session), user: clone(this.session?.user ?? null) }, error: null };
+  }
+
+  // TOTP factors: the fake accepts `validTotpCode` for any factor
+  validTotpCode = '123456';
+
+  readonly mfa = {
+    enroll: async ({ friendlyName = 'Authenticator' }: { factorType: 'totp'; friendlyName?: string }) => {
+      const user = this.session?.user;
+      if (!user) return { data: null, error: { message: 'Auth session missing!', status: 401 } };
+      const factors = this.factors.get(user.id) ?? [];
+      if (factors.some(factor => factor.friendly_name === friendlyName)) {
+        return { data: null, error: { message: `A factor with the friendly name "${friendlyName}" for this user already exists`, status: 422 } };
+      }
+      const now = new Date().toISOString();
+      const factor: FakeFactor = { id: crypto.randomUUID(), friendly_name: friendlyName, factor_type: 'totp', status: 'unverified', created_at: now, updated_at: now };
+      this.factors.set(user.id, [...factors, factor]);
+      return {
+        data: { id: factor.id, type: 'totp', totp: { qr_code: 'data:image/svg+xml;utf-8,<svg/>', secret: 'FAKESECRET', uri: 'otpauth://totp/fake' } },
+        error: null,
+      };
+    },
+    challengeAndVerify: async ({ factorId, code }: { factorId: string; code: string }) => {
+      const factor = this.session && this.factors.get(this.session.user.id)?.find(candidate => candidate.id === factorId);
+      if (!factor) return { data: null, error: { message: 'Factor not found', status: 404 } };
+      if (code !== this.validTotpCode) return { data: null, error: { message: 'Invalid TOTP code entered', status: 422 } };
+      factor.status = 'verified';
+      this.aal = 'aal2';
+      this.emit('MFA_CHALLENGE_VERIFIED');
+      return { data: { access_token: this.session!.access_token }, error: null };
+    },
+    unenroll: async ({ factorId }: { factorId: string }) => {
+      const user = this.session?.user;
+      if (!user) return { data: null, error: { message: 'Auth session missing!', status: 401 } };
+      this.factors.set(user.id, (this.factors.get(user.id) ?? []).filter(factor => factor.id !== factorId));
+      return { data: { id: factorId }, error: null };
+    },
+    listFactors: async () => {
+      const all = this.session ? clone(this.factors.get(this.session.user.id) ?? []) : [];
+      return { data: { all, totp: all.filter(factor => factor.status === 'verified'), phone: [] }, error: null };
+    },
+    getAuthenticatorAssuranceLevel: async () => {
+      if (!this.session) return { data: { currentLevel: null, nextLevel: null, currentAuthenticationMethods: [] }, error: null };
+      const verified = (this.factors.get(this.session.user.id) ?? []).some(factor => factor.status === 'verified');
+      return { data: { currentLevel: this.aal, nextLevel: verified ? 'aal2' : 'aal1', currentAuthenticationMethods: [] }, error: null };
+    },
+  };
+
+  // What the database does when a recovery code is redeemed
+  removeFactors(userId: string) {
+    this.factors.delete(userId);
+  }
+
+  async signOut() {
+    this.session = null;
+    this.aal = 'aal1';
+    this.emit('SIGNED_OUT');
+    return { error: null };
+  }
+
+  get currentUser() {
+    return this.session?.user ?? null;
+  }
+
+  private buildSession(user: FakeUser): FakeSession {
+    this.aal = 'aal1';
+    return {
+      access_token: `fake-access-${user.id}`,
+      refresh_token: `fake-refresh-${user.id}`,
+      token_type: 'bearer',
+      expires_in: 3600,
+      user,
+    };
+  }
+
+  private emit(event: string) {
+    const session = clone(this.session);
+    this.listeners.forEach(listener => listener(event, session));
+  }
+}
+
+export class FakeSupabase {
+  readonly url = 'https://fake.supabase.local';
+  readonly auth = new FakeAuth();
+  readonly queries: { table: string; operation: string }[] = [];
+  readonly rpcCalls: { name: string; args: Row }[] = [];
+  readonly storageObjects = new Map<string, Map<string, Blob>>();
+  readonly presence = new Map<string, Map<string, Row[]>>();
+  lastWritten: Row[] = [];
+
+  private tables = new Map<string, Row[]>();
+  private uniqueKeys = new Map<string, string[][]>();
+  private failures = new Map<string, FakeError[]>();
+  private rpcHandlers = new Map<string, RpcHandler>();
+  private channels: FakeChannel[] = [];
+
+  readonly storage = {
+    from: (bucket: string) => new FakeStorageBucket(this, bucket),
+  };
+
+  // Clear every table, handler, file, channel and auth account
+  reset() {
+    this.tables.clear();
+    this.uniqueKeys.clear();
+    this.failures.clear();
+    this.rpcHandlers.clear();
+    this.storageObjects.clear();
+    this.presence.clear();
+    this.channels = [];
+    this.queries.length = 0;
+    this.rpcCalls.length = 0;
+    this.lastWritten = [];
+    this.auth.reset();
+  }
+
+  from(table: string) {
+    return new FakeQueryBuilder(this, table);
+  }
+
+  async rpc(name: string, args: Row = {}): Promise<FakeResponse> {
+    this.rpcCalls.push({ name, args });
+    const injected = this.takeFailure(`rpc:${name}`);
+    if (injected) return { data: null, error: injected };
+
+    const handler = this.rpcHandlers.get(name);
+    if (!handler) {
+      return { data: null, error: { message: `Could not find the function public.${name}`, code: 'PGRST202' } };
+    }
+
+    try {
+      return { data: clone((await handler(args)) ?? null), error: null };
+    } catch (error) {
+      if (error instanceof FakeSupabaseError) return { data: null, error: { message: error.message, code: error.code } };
+      return { data: null, error: { message: error instanceof Error ? error.message : String(error), code: 'P0001' } };
+    }
+  }
+
+  channel(topic: string) {
+    const channel = new FakeChannel(this, topic);
+    this.channels.push(channel);
+    return channel;
+  }
+
+  async removeChannel(channel: FakeChannel) {
+    channel.state = 'closed';
+    this.channels = this.channels.filter(existing => existing !== channel);
+    return 'ok' as const;
+  }
+
+  async removeAllChannels() {
+    this.channels.forEach(channel => { channel.state = 'closed'; });
+    this.channels = [];
+    return ['ok' as const];
+  }
+
+  getChannels() {
+    return [...this.channels];
+  }
+
+  channelsFor(topic: string) {
+    return this.channels.filter(channel => channel.topic === topic);
+  }
+
+  // Replace a table's rows; `unique` lists column sets that must be unique besides `id`
+  seed(table: string, rows: Row[], options: { unique?: string[][] } = {}) {
+    this.tables.set(table, rows.map(row => ({ id: crypto.randomUUID(), ...clone(row) })));
+    if (options.unique) this.uniqueKeys.set(table, options.unique);
+    return this;
+  }
+
+  rows<T = Row>(table: string): T[] {
+    return clone(this.table(table)) as T[];
+  }
+
+  // Register a database function; throw a FakeSupabaseError from it to return an error
+  onRpc(name: string, handler: RpcHandler) {
+    this.rpcHandlers.set(name, handler);
+    return this;
+  }
+
+  // Fail the next request against a table, `rpc:name` or `storage:bucket`
+  failNext(target: string, error: Partial<FakeError> = {}) {
+    const queue = this.failures.get(target) ?? [];
+    queue.push({ message: 'Simulated failure', code: 'XX000', details: null, hint: null, ...error });
+    this.failures.set(target, queue);
+    return this;
+  }
+
+  takeFailure(target: string) {
+    return this.failures.get(target)?.shift() ?? null;
+  }
+
+  table(name: string) {
+    if (!this.tables.has(name)) this.tables.set(name, []);
+    return this.tables.get(name)!;
+  }
+
+  insertRows(table: string, payload: Row[]): FakeError | null {
+    const rows = this.table(table);
+    const now = new Date().toISOString();
+    const inserted = payload.map(row => ({ id: crypto.randomUUID(), created_at: now, ...clone(row) }));
+
+    for (const [index, row] of inserted.entries()) {
+      const error = this.checkUnique(table, row, [...rows, ...inserted.slice(0, index)]);
+      if (error) return error;
+    }
+
+    rows.push(...inserted);
+    this.lastWritten = inserted;
+    inserted.forEach(row => this.notify(table, 'INSERT', row, {}));
+    return null;
+  }
+
+  upsertRows(table: string, payload: Row[], conflictColumns: string[], ignoreDuplicates: boolean): FakeError | null {
+    const written: Row[] = [];
+    for (const row of payload) {
+      const existing = this.table(table).find(candidate =>
+        conflictColumns.every(column => row[column] !== undefined && String(candidate[column]) === String(row[column]))
+      );
+      if (existing) {
+        if (ignoreDuplicates) continue;
+        const error = this.updateRows(table, [existing], row);
+        if (error) return error;
+        written.push(existing);
+      } else {
+        const error = this.insertRows(table, [row]);
+        if (error) return error;
+        written.push(...this.lastWritten);
+      }
+    }
+    this.lastWritten = written;
+    return null;
+  }
+
+  updateRows(table: string, targets: Row[], patch: Row): FakeError | null {
+    const rows = this.table(table);
+    for (const target of targets) {
+      const updated = { ...target, ...clone(patch) };
+      const error = this.checkUnique(table, updated, rows.filter(row => row !== target));
+      if (error) return error;
+    }
+    targets.forEach(target => {
+      const old = { ...target };
+      Object.assign(target, clone(patch));
+      this.notify(table, 'UPDATE', target, old);
+    });
+    return null;
+  }
+
+  deleteRows(table: string, targets: Row[]) {
+    this.tables.set(table, this.table(table).filter(row => !targets.includes(row)));
+    targets.forEach(row => this.notify(table, 'DELETE', {}, row));
+  }
+
+  private checkUnique(table: string, row: Row, others: Row[]): FakeError | null {
+    for (const columns of [['id'], ...(this.uniqueKeys.get(table) ?? [])]) {
+      const clash = others.some(other =>
+        columns.every(column => row[column] !== undefined && row[column] !== null && String(other[column]) === String(row[column]))
+      );
+      if (clash) return uniqueViolation(table, columns);
+    }
+    return null;
+  }
+
+  private notify(table: string, event: ChangeEvent, newRow: Row, oldRow: Row) {
+    this.channels.forEach(channel => channel.emitChange(table, event, newRow, oldRow));
+  }
+}
+
+export const createFakeSupabase = () => new FakeSupabase();
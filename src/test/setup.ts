@@ -0,0 +1,17 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { fakeSupabase } from './supabase';
+
+vi.mock('@/integrations/supabase/client', async () => {
+  const { fakeSupabase } = await import('./supabase');
+  return { default: fakeSupabase };
+});
+
+beforeEach(() => {
+  fakeSupabase.reset();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
@@ -0,0 +1,4 @@
+import { createFakeSupabase } from './fakeSupabase';
+
+// The client every test module sees in place of '@/integrations/supabase/client'
+export const fakeSupabase = createFakeSupabase();
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseSupabaseError, withRetry } from './errorHandling';
+
+describe('parseSupabaseError', () => {
+  it.each([
+    ['23505', 'This item already exists'],
+    ['23503', 'Referenced item not found'],
+    ['42501', 'Permission denied'],
+    ['PGRST116', 'Session expired. Please sign in again.'],
+  ])('maps %s to a friendly message', (code, message) => {
+    const error = parseSupabaseError({ code, message: 'raw', details: 'detail' });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe(message);
+    expect(error.code).toBe(code);
+    expect(error.details).toBe('detail');
+  });
+
+  it('keeps the original message for other codes', () => {
+    expect(parseSupabaseError({ code: '22P02', message: 'invalid input syntax' }).message).toBe('invalid input syntax');
+    expect(parseSupabaseError({ code: '22P02' }).message).toBe('Database operation failed');
+  });
+
+  it('handles a missing error', () => {
+    expect(parseSupabaseError(null).message).toBe('Unknown error occurred');
+  });
+});
+
+describe('withRetry', () => {
+  it('returns the first successful result without waiting', async () => {
+    const operation = vi.fn().mockResolvedValue('ok');
+
+    await expect(withRetry(operation)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off linearly between attempts', async () => {
+    vi.useFakeTimers();
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, 3, 100);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows the last error once retries run out', async () => {
+    vi.useFakeTimers();
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('last'));
+
+    const result = withRetry(operation, 2, 10);
+    const assertion = expect(result).rejects.toThrow('last');
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+});
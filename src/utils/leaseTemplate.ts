@@ -0,0 +1,129 @@
+import { format } from 'date-fns';
+import { Lease } from '@/integrations/supabase/types';
+import { getInstallmentAmount } from '@/services/rentScheduleService';
+
+export interface LeaseDocumentContext {
+  propertyTitle: string;
+  propertyLocation?: string | null;
+  landlordName: string;
+  tenantName: string;
+}
+
+const INTERVAL_TEXT: Record<Lease['rent_interval'], string> = {
+  monthly: 'monthly',
+  quarterly: 'quarterly',
+  annually: 'yearly',
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatNaira = (amount: number) => `₦${Number(amount).toLocaleString('en-NG')}`;
+
+const formatDate = (date: string) => format(new Date(date), 'do MMMM yyyy');
+
+const renderSignature = (role: string, name: string, signatureName: string | null, signedAt: string | null) => `
+  <div class="signature">
+    <p class="role">${role}</p>
+    ${signatureName && signedAt
+      ? `<p class="signed-name">${escapeHtml(signatureName)}</p>
+         <p class="meta">Signed electronically on ${escapeHtml(format(new Date(signedAt), "do MMMM yyyy 'at' HH:mm"))}</p>`
+      : `<p class="unsigned">Awaiting signature</p>`}
+    <p class="meta">${escapeHtml(name)}</p>
+  </div>`;
+
+/**
+ * Render a lease as a standalone HTML document. The same markup is shown in
+ * the app and printed (or saved as PDF) from the browser, so what a party
+ * signs is exactly what they download.
+ */
+export const renderLeaseDocument = (lease: Lease, context: LeaseDocumentContext): string => {
+  const installment = getInstallmentAmount(Number(lease.rent_amount), lease.rent_interval);
+
+  const clauses = (lease.clauses || [])
+    .map((clause, index) => `
+      <li>
+        <h3>${index + 5}. ${escapeHtml(clause.title)}</h3>
+        <p>${escapeHtml(clause.body)}</p>
+      </li>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Tenancy Agreement - ${escapeHtml(context.propertyTitle)}</title>
+  <style>
+    body { font-family: Georgia, 'Times New Roman', serif; color: #111827; line-height: 1.6; max-width: 760px; margin: 0 auto; padding: 40px 32px; }
+    h1 { text-align: center; font-size: 24px; letter-spacing: 0.05em; margin-bottom: 4px; }
+    h2 { font-size: 16px; margin-top: 28px; border-bottom: 1px solid #d1d5db; padding-bottom: 4px; }
+    h3 { font-size: 14px; margin: 16px 0 4px; }
+    p { margin: 4px 0; font-size: 14px; }
+    ol { list-style: none; padding: 0; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    td { padding: 6px 0; vertical-align: top; }
+    td:first-child { color: #4b5563; width: 40%; }
+    .subtitle { text-align: center; color: #6b7280; font-size: 13px; }
+    .signatures { display: flex; gap: 32px; margin-top: 40px; }
+    .signature { flex: 1; border-top: 1px solid #111827; padding-top: 8px; }
+    .signature .role { font-weight: bold; }
+    .signed-name { font-family: 'Brush Script MT', cursive; font-size: 24px; }
+    .unsigned { color: #9ca3af; font-style: italic; }
+    .meta { color: #6b7280; font-size: 12px; }
+    .footer { margin-top: 32px; color: #9ca3af; font-size: 11px; text-align: center; }
+    @media print { body { padding: 0; } }
+  </style>
+</head>
+<body>
+  <h1>TENANCY AGREEMENT</h1>
+  <p class="subtitle">Reference ${escapeHtml(lease.id.slice(0, 8).toUpperCase())} &middot; Template ${escapeHtml(lease.template_version)}</p>
+
+  <h2>1. Parties</h2>
+  <p>This agreement is made between <strong>${escapeHtml(context.landlordName)}</strong> (the "Landlord")
+  and <strong>${escapeHtml(context.tenantName)}</strong> (the "Tenant").</p>
+
+  <h2>2. Premises</h2>
+  <p>${escapeHtml(context.propertyTitle)}${context.propertyLocation ? `, ${escapeHtml(context.propertyLocation)}` : ''}.</p>
+
+  <h2>3. Term</h2>
+  <p>The tenancy begins on <strong>${formatDate(lease.start_date)}</strong> and ends on
+  <strong>${formatDate(lease.end_date)}</strong>.</p>
+
+  <h2>4. Rent and Deposit</h2>
+  <table>
+    <tr><td>Annual rent</td><td>${formatNaira(lease.rent_amount)}</td></tr>
+    <tr><td>Payment schedule</td><td>${formatNaira(installment)} payable ${INTERVAL_TEXT[lease.rent_interval]} in advance</td></tr>
+    <tr><td>Security deposit</td><td>${lease.deposit_amount > 0 ? `${formatNaira(lease.deposit_amount)}, refundable at the end of the tenancy less the cost of any damage beyond fair wear and tear` : 'None'}</td></tr>
+  </table>
+
+  <ol>${clauses}</ol>
+
+  <div class="signatures">
+    ${renderSignature('Landlord', context.landlordName, lease.landlord_signature_name, lease.landlord_signed_at)}
+    ${renderSignature('Tenant', context.tenantName, lease.tenant_signature_name, lease.tenant_signed_at)}
+  </div>
+
+  ${lease.terms_hash ? `<p class="footer">Document fingerprint ${escapeHtml(lease.terms_hash)}</p>` : ''}
+</body>
+</html>`;
+};
+
+// Open the lease in a new window and bring up the print dialog (print or save as PDF)
+export const printLeaseDocument = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Please allow pop-ups to print or download the lease');
+  }
+
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the new window a moment to lay out before printing
+  setTimeout(() => printWindow.print(), 250);
+};
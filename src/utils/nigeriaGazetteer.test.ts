@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { distanceKm, findPlace, getAreas, getLgas, nearestPlace, searchPlaces } from './nigeriaGazetteer';
+
+describe('searchPlaces', () => {
+  it('ranks exact matches before prefixes and areas before LGAs and states', () => {
+    expect(searchPlaces('lekki').map(place => [place.name, place.type])).toEqual([
+      ['Lekki', 'area'],
+      ['Lekki Phase 1', 'area'],
+      ['Ibeju-Lekki', 'lga'],
+    ]);
+  });
+
+  it('matches aliases and ignores punctuation', () => {
+    expect(searchPlaces('vi', 1)[0]).toMatchObject({ name: 'Victoria Island', type: 'area' });
+    expect(searchPlaces('eti osa', 1)[0]).toMatchObject({ name: 'Eti-Osa', type: 'lga' });
+    expect(searchPlaces('Ibadan').map(place => place.name)).toContain('Oyo');
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(searchPlaces('  ')).toEqual([]);
+  });
+});
+
+describe('findPlace', () => {
+  it('only matches inside the given state', () => {
+    expect(findPlace('Ikeja', 'lga', 'Lagos')).toMatchObject({ name: 'Ikeja', state: 'Lagos' });
+    expect(findPlace('Ikeja', 'lga', 'Oyo')).toBeUndefined();
+    expect(findPlace('Federal Capital Territory', 'state')).toMatchObject({ name: 'FCT' });
+  });
+
+  it('lists LGAs and areas by state', () => {
+    expect(getLgas('Lagos')).toContain('Eti-Osa');
+    expect(getAreas('Lagos', 'Eti-Osa')).toEqual(expect.arrayContaining(['Lekki Phase 1', 'Ikoyi']));
+    expect(getAreas('Lagos', 'Eti-Osa')).not.toContain('Yaba');
+  });
+});
+
+describe('distanceKm', () => {
+  it('measures great-circle distance', () => {
+    expect(distanceKm(6.4478, 3.4723, 6.4478, 3.4723)).toBe(0);
+    // Lagos to Abuja is roughly 520 km as the crow flies
+    expect(distanceKm(6.5244, 3.3792, 9.0579, 7.4951)).toBeGreaterThan(500);
+    expect(distanceKm(6.5244, 3.3792, 9.0579, 7.4951)).toBeLessThan(560);
+  });
+});
+
+describe('nearestPlace', () => {
+  it('names the closest neighbourhood', () => {
+    expect(nearestPlace(6.4285, 3.4225)).toMatchObject({ name: 'Victoria Island', state: 'Lagos' });
+  });
+
+  it('falls back to the nearest state away from known areas', () => {
+    expect(nearestPlace(11.2, 13.9)).toMatchObject({ type: 'state', name: 'Borno' });
+  });
+});
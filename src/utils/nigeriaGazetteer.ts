@@ -0,0 +1,252 @@
+/**
+ * Offline gazetteer of Nigerian places, used as the default geocoder.
+ *
+ * Covers all 36 states and the FCT (positioned at their capitals), the LGAs
+ * of the main rental markets, and the neighbourhoods renters search for most.
+ * Coordinates are approximate centres, good enough to place a listing on the
+ * map and search by radius; landlords can fine-tune the pin.
+ */
+
+export type GazetteerPlaceType = 'state' | 'lga' | 'area';
+
+export interface GazetteerPlace {
+  name: string;
+  type: GazetteerPlaceType;
+  state: string;
+  lga?: string;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+// [state, capital, latitude, longitude, aliases]
+const STATES: [string, string, number, number, string[]?][] = [
+  ['Abia', 'Umuahia', 5.532, 7.486],
+  ['Adamawa', 'Yola', 9.2035, 12.4954],
+  ['Akwa Ibom', 'Uyo', 5.0377, 7.9128],
+  ['Anambra', 'Awka', 6.212, 7.074],
+  ['Bauchi', 'Bauchi', 10.3158, 9.8442],
+  ['Bayelsa', 'Yenagoa', 4.9247, 6.2676],
+  ['Benue', 'Makurdi', 7.7337, 8.5214],
+  ['Borno', 'Maiduguri', 11.8311, 13.151],
+  ['Cross River', 'Calabar', 4.9757, 8.3417],
+  ['Delta', 'Asaba', 6.2059, 6.6959],
+  ['Ebonyi', 'Abakaliki', 6.3249, 8.1137],
+  ['Edo', 'Benin City', 6.335, 5.6037],
+  ['Ekiti', 'Ado-Ekiti', 7.6211, 5.2214],
+  ['Enugu', 'Enugu', 6.4584, 7.5464],
+  ['FCT', 'Abuja', 9.0579, 7.4951, ['Federal Capital Territory']],
+  ['Gombe', 'Gombe', 10.2897, 11.1673],
+  ['Imo', 'Owerri', 5.485, 7.035],
+  ['Jigawa', 'Dutse', 11.7562, 9.3389],
+  ['Kaduna', 'Kaduna', 10.5105, 7.4165],
+  ['Kano', 'Kano', 12.0022, 8.592],
+  ['Katsina', 'Katsina', 12.9908, 7.6018],
+  ['Kebbi', 'Birnin Kebbi', 12.4539, 4.1975],
+  ['Kogi', 'Lokoja', 7.8023, 6.7333],
+  ['Kwara', 'Ilorin', 8.4966, 4.5421],
+  ['Lagos', 'Ikeja', 6.6018, 3.3515],
+  ['Nasarawa', 'Lafia', 8.4939, 8.515],
+  ['Niger', 'Minna', 9.5836, 6.5463],
+  ['Ogun', 'Abeokuta', 7.1475, 3.3619],
+  ['Ondo', 'Akure', 7.2571, 5.2058],
+  ['Osun', 'Osogbo', 7.7827, 4.5418],
+  ['Oyo', 'Ibadan', 7.3775, 3.947],
+  ['Plateau', 'Jos', 9.8965, 8.8583],
+  ['Rivers', 'Port Harcourt', 4.8156, 7.0498],
+  ['Sokoto', 'Sokoto', 13.0059, 5.2476],
+  ['Taraba', 'Jalingo', 8.8937, 11.3596],
+  ['Yobe', 'Damaturu', 11.747, 11.9608],
+  ['Zamfara', 'Gusau', 12.1628, 6.6614],
+];
+
+// [lga, state, latitude, longitude, aliases]
+const LGAS: [string, string, number, number, string[]?][] = [
+  ['Agege', 'Lagos', 6.618, 3.3209],
+  ['Ajeromi-Ifelodun', 'Lagos', 6.455, 3.334],
+  ['Alimosho', 'Lagos', 6.5833, 3.25],
+  ['Amuwo-Odofin', 'Lagos', 6.463, 3.283],
+  ['Apapa', 'Lagos', 6.4489, 3.359],
+  ['Badagry', 'Lagos', 6.415, 2.8813],
+  ['Epe', 'Lagos', 6.5841, 3.9834],
+  ['Eti-Osa', 'Lagos', 6.459, 3.6015, ['Eti Osa']],
+  ['Ibeju-Lekki', 'Lagos', 6.47, 3.9, ['Ibeju Lekki']],
+  ['Ifako-Ijaiye', 'Lagos', 6.64, 3.32],
+  ['Ikeja', 'Lagos', 6.6018, 3.3515],
+  ['Ikorodu', 'Lagos', 6.6194, 3.5105],
+  ['Kosofe', 'Lagos', 6.59, 3.39],
+  ['Lagos Island', 'Lagos', 6.4549, 3.3946],
+  ['Lagos Mainland', 'Lagos', 6.498, 3.384],
+  ['Mushin', 'Lagos', 6.527, 3.354],
+  ['Ojo', 'Lagos', 6.46, 3.18],
+  ['Oshodi-Isolo', 'Lagos', 6.535, 3.308],
+  ['Shomolu', 'Lagos', 6.539, 3.384, ['Somolu']],
+  ['Surulere', 'Lagos', 6.5, 3.354],
+  ['Abuja Municipal', 'FCT', 9.0579, 7.4951, ['AMAC']],
+  ['Bwari', 'FCT', 9.2833, 7.3833],
+  ['Gwagwalada', 'FCT', 8.943, 7.084],
+  ['Kuje', 'FCT', 8.879, 7.227],
+  ['Kwali', 'FCT', 8.8833, 7.0],
+  ['Abaji', 'FCT', 8.475, 6.944],
+  ['Port Harcourt', 'Rivers', 4.7774, 7.0134, ['PH', 'Port-Harcourt']],
+  ['Obio/Akpor', 'Rivers', 4.86, 7.0, ['Obio-Akpor']],
+  ['Eleme', 'Rivers', 4.79, 7.12],
+  ['Oyigbo', 'Rivers', 4.88, 7.15],
+  ['Ibadan North', 'Oyo', 7.4043, 3.907],
+  ['Ibadan South-West', 'Oyo', 7.37, 3.88],
+  ['Akinyele', 'Oyo', 7.53, 3.93],
+  ['Oluyole', 'Oyo', 7.33, 3.86],
+  ['Kano Municipal', 'Kano', 11.996, 8.52],
+  ['Nassarawa', 'Kano', 12.0, 8.55],
+  ['Fagge', 'Kano', 12.01, 8.52],
+  ['Tarauni', 'Kano', 11.97, 8.54],
+  ['Enugu North', 'Enugu', 6.45, 7.5],
+  ['Enugu East', 'Enugu', 6.47, 7.56],
+  ['Enugu South', 'Enugu', 6.4, 7.49],
+  ['Abeokuta South', 'Ogun', 7.15, 3.35],
+  ['Abeokuta North', 'Ogun', 7.16, 3.3],
+  ['Ado-Odo/Ota', 'Ogun', 6.69, 3.2, ['Ota']],
+  ['Obafemi Owode', 'Ogun', 6.95, 3.5],
+  ['Kaduna North', 'Kaduna', 10.53, 7.44],
+  ['Kaduna South', 'Kaduna', 10.48, 7.42],
+  ['Chikun', 'Kaduna', 10.3, 7.3],
+  ['Oredo', 'Edo', 6.335, 5.62],
+  ['Egor', 'Edo', 6.36, 5.58],
+  ['Ikpoba-Okha', 'Edo', 6.3, 5.65],
+  ['Oshimili South', 'Delta', 6.2, 6.7],
+  ['Warri South', 'Delta', 5.5167, 5.75, ['Warri']],
+  ['Uvwie', 'Delta', 5.56, 5.8, ['Effurun']],
+  ['Jos North', 'Plateau', 9.92, 8.89],
+  ['Jos South', 'Plateau', 9.8, 8.87],
+  ['Calabar Municipal', 'Cross River', 4.98, 8.34],
+  ['Calabar South', 'Cross River', 4.95, 8.32],
+  ['Uyo', 'Akwa Ibom', 5.0377, 7.9128],
+  ['Awka South', 'Anambra', 6.21, 7.07],
+  ['Onitsha North', 'Anambra', 6.15, 6.78],
+  ['Onitsha South', 'Anambra', 6.13, 6.78],
+  ['Nnewi North', 'Anambra', 6.02, 6.91, ['Nnewi']],
+  ['Owerri Municipal', 'Imo', 5.485, 7.035],
+  ['Owerri North', 'Imo', 5.5, 7.08],
+  ['Owerri West', 'Imo', 5.45, 6.98],
+  ['Ilorin West', 'Kwara', 8.49, 4.54],
+  ['Ilorin East', 'Kwara', 8.51, 4.6],
+  ['Ilorin South', 'Kwara', 8.45, 4.58],
+];
+
+// [area, lga, state, latitude, longitude, aliases]
+const AREAS: [string, string, string, number, number, string[]?][] = [
+  ['Lekki Phase 1', 'Eti-Osa', 'Lagos', 6.4478, 3.4723],
+  ['Lekki', 'Eti-Osa', 'Lagos', 6.4698, 3.5852],
+  ['Victoria Island', 'Eti-Osa', 'Lagos', 6.4281, 3.4219, ['VI']],
+  ['Ikoyi', 'Eti-Osa', 'Lagos', 6.4549, 3.4345],
+  ['Ajah', 'Eti-Osa', 'Lagos', 6.4667, 3.5667],
+  ['Sangotedo', 'Eti-Osa', 'Lagos', 6.47, 3.63],
+  ['Yaba', 'Lagos Mainland', 'Lagos', 6.5095, 3.3711],
+  ['Gbagada', 'Kosofe', 'Lagos', 6.556, 3.389],
+  ['Magodo', 'Kosofe', 'Lagos', 6.618, 3.387],
+  ['Maryland', 'Kosofe', 'Lagos', 6.57, 3.365],
+  ['Ikeja GRA', 'Ikeja', 'Lagos', 6.58, 3.35],
+  ['Festac Town', 'Amuwo-Odofin', 'Lagos', 6.466, 3.283, ['Festac']],
+  ['Maitama', 'Abuja Municipal', 'FCT', 9.088, 7.493],
+  ['Asokoro', 'Abuja Municipal', 'FCT', 9.04, 7.53],
+  ['Wuse', 'Abuja Municipal', 'FCT', 9.07, 7.47, ['Wuse 2', 'Wuse II']],
+  ['Garki', 'Abuja Municipal', 'FCT', 9.03, 7.49],
+  ['Gwarinpa', 'Abuja Municipal', 'FCT', 9.11, 7.4],
+  ['Jabi', 'Abuja Municipal', 'FCT', 9.07, 7.42],
+  ['Utako', 'Abuja Municipal', 'FCT', 9.07, 7.44],
+  ['Lugbe', 'Abuja Municipal', 'FCT', 8.98, 7.38],
+  ['Kubwa', 'Bwari', 'FCT', 9.15, 7.33],
+  ['GRA Port Harcourt', 'Port Harcourt', 'Rivers', 4.81, 7.0, ['Old GRA']],
+  ['Trans Amadi', 'Port Harcourt', 'Rivers', 4.81, 7.04],
+  ['Rumuokoro', 'Obio/Akpor', 'Rivers', 4.87, 6.99],
+  ['Bodija', 'Ibadan North', 'Oyo', 7.43, 3.91],
+  ['Ring Road', 'Ibadan South-West', 'Oyo', 7.36, 3.87],
+  ['Independence Layout', 'Enugu North', 'Enugu', 6.45, 7.52],
+  ['GRA Benin', 'Oredo', 'Edo', 6.32, 5.61],
+];
+
+export const GAZETTEER: GazetteerPlace[] = [
+  // States also answer to their capital, so "Ibadan" finds Oyo
+  ...STATES.map(([name, capital, latitude, longitude, aliases = []]): GazetteerPlace => ({
+    name, type: 'state', state: name, latitude, longitude,
+    aliases: capital === name ? aliases : [capital, ...aliases],
+  })),
+  ...LGAS.map(([name, state, latitude, longitude, aliases]): GazetteerPlace => ({
+    name, type: 'lga', state, lga: name, latitude, longitude, aliases,
+  })),
+  ...AREAS.map(([name, lga, state, latitude, longitude, aliases]): GazetteerPlace => ({
+    name, type: 'area', state, lga, latitude, longitude, aliases,
+  })),
+];
+
+export const NIGERIAN_STATES = STATES.map(([name]) => name);
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const namesOf = (place: GazetteerPlace) => [place.name, ...(place.aliases || [])].map(normalize);
+
+export const getLgas = (state: string) =>
+  GAZETTEER.filter(place => place.type === 'lga' && place.state === state).map(place => place.name);
+
+export const getAreas = (state: string, lga?: string) =>
+  GAZETTEER
+    .filter(place => place.type === 'area' && place.state === state && (!lga || place.lga === lga))
+    .map(place => place.name);
+
+// Find a place by exact name or alias, optionally within a state
+export const findPlace = (name: string, type?: GazetteerPlaceType, state?: string) => {
+  const wanted = normalize(name);
+  if (!wanted) return undefined;
+  return GAZETTEER.find(place =>
+    (!type || place.type === type) &&
+    (!state || place.state === state) &&
+    namesOf(place).includes(wanted)
+  );
+};
+
+// Places whose name starts with or contains the text; exact and prefix matches first, then the most specific
+export const searchPlaces = (text: string, limit = 8): GazetteerPlace[] => {
+  const wanted = normalize(text);
+  if (!wanted) return [];
+
+  const typeOrder: Record<GazetteerPlaceType, number> = { area: 0, lga: 1, state: 2 };
+  return GAZETTEER
+    .map(place => {
+      const names = namesOf(place);
+      const score = names.includes(wanted) ? 0
+        : names.some(name => name.startsWith(wanted)) ? 1
+        : names.some(name => name.includes(wanted)) ? 2
+        : -1;
+      return { place, score };
+    })
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score || typeOrder[a.place.type] - typeOrder[b.place.type] || a.place.name.localeCompare(b.place.name))
+    .slice(0, limit)
+    .map(({ place }) => place);
+};
+
+// Great-circle distance in kilometres
+export const distanceKm = (fromLat: number, fromLng: number, toLat: number, toLng: number) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(toLat - fromLat);
+  const dLng = toRadians(toLng - fromLng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// LGAs and areas further away than this aren't used to describe a point
+const NEAREST_PLACE_MAX_KM = 30;
+
+// The closest area or LGA to a point, falling back to the nearest state capital;
+// used to fill in an address from the device's location
+export const nearestPlace = (latitude: number, longitude: number) => {
+  const byDistance = (places: GazetteerPlace[]) =>
+    places
+      .map(place => ({ place, distance: distanceKm(latitude, longitude, place.latitude, place.longitude) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+
+  const local = byDistance(GAZETTEER.filter(place => place.type !== 'state'));
+  if (local && local.distance <= NEAREST_PLACE_MAX_KM) return local.place;
+  return byDistance(GAZETTEER.filter(place => place.type === 'state'))?.place;
+};
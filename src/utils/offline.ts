@@ -0,0 +1,26 @@
+import { supabase } from '@/lib/supabase';
+import { ChatOutbox } from '@/services/chatOutbox';
+
+// Drop cached account data and unsent messages so the next person on this device can't see them
+export const clearOfflineData = () => {
+  ChatOutbox.clear();
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.controller?.postMessage({ type: 'CLEAR_OFFLINE_DATA' });
+  }
+};
+
+// Register the service worker (production builds only, so it never serves stale dev modules)
+// and clear offline data on sign-out
+export const initOfflineSupport = () => {
+  supabase.auth.onAuthStateChange((event) => {
+    if (event === 'SIGNED_OUT') clearOfflineData();
+  });
+
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+};
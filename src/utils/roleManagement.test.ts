@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSupabase } from '@/test/supabase';
+import {
+  assignUserRole,
+  getPrimaryRole,
+  hasAnyRole,
+  validateRoleTransition,
+  validateUserRole,
+} from './roleManagement';
+
+describe('validateRoleTransition', () => {
+  it('lets admins assign any role', () => {
+    expect(validateRoleTransition('admin', 'admin')).toBe(true);
+    expect(validateRoleTransition('admin', 'landlord')).toBe(true);
+    expect(validateRoleTransition('admin', 'renter')).toBe(true);
+  });
+
+  it('never lets a landlord escalate to admin', () => {
+    expect(validateRoleTransition('landlord', 'admin')).toBe(false);
+    expect(validateRoleTransition('landlord', 'landlord')).toBe(true);
+    expect(validateRoleTransition('landlord', 'renter')).toBe(true);
+  });
+
+  it('keeps renters as renters', () => {
+    expect(validateRoleTransition('renter', 'renter')).toBe(true);
+    expect(validateRoleTransition('renter', 'landlord')).toBe(false);
+    expect(validateRoleTransition('renter', 'admin')).toBe(false);
+  });
+
+  it('rejects unknown roles', () => {
+    expect(validateRoleTransition('guest' as never, 'renter')).toBe(false);
+  });
+});
+
+describe('getPrimaryRole and hasAnyRole', () => {
+  it('prefers admin, then landlord, then renter', () => {
+    expect(getPrimaryRole(['renter', 'admin', 'landlord'])).toBe('admin');
+    expect(getPrimaryRole(['renter', 'landlord'])).toBe('landlord');
+    expect(getPrimaryRole(['renter'])).toBe('renter');
+    expect(getPrimaryRole([])).toBeNull();
+  });
+
+  it('only counts known roles', () => {
+    expect(hasAnyRole(['renter'])).toBe(true);
+    expect(hasAnyRole(['guest'])).toBe(false);
+    expect(hasAnyRole([])).toBe(false);
+  });
+});
+
+describe('validateUserRole', () => {
+  it('checks the roles returned by get_user_roles_safe', async () => {
+    fakeSupabase.onRpc('get_user_roles_safe', () => ['landlord']);
+
+    await expect(validateUserRole('user-1', 'landlord')).resolves.toEqual({
+      isValid: true,
+      currentRoles: ['landlord'],
+      error: undefined,
+    });
+    const result = await validateUserRole('user-1', 'admin');
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('User does not have required role: admin');
+  });
+
+  it('reports lookup failures instead of granting access', async () => {
+    fakeSupabase.failNext('rpc:get_user_roles_safe', { message: 'timeout' });
+
+    const result = await validateUserRole('user-1', 'renter');
+    expect(result).toEqual({ isValid: false, error: 'Error fetching user roles: timeout', currentRoles: [] });
+  });
+});
+
+describe('assignUserRole', () => {
+  it('replaces existing roles and updates the profile', async () => {
+    fakeSupabase
+      .seed('profiles', [{ id: 'user-1', email: 'a@example.com', role: 'renter' }])
+      .seed('user_roles', [
+        { user_id: 'user-1', role: 'renter' },
+        { user_id: 'user-2', role: 'renter' },
+      ]);
+
+    await expect(assignUserRole('user-1', 'landlord')).resolves.toEqual({ success: true });
+
+    expect(fakeSupabase.rows('profiles')[0].role).toBe('landlord');
+    expect(fakeSupabase.rows('user_roles').map(({ user_id, role }) => ({ user_id, role }))).toEqual([
+      { user_id: 'user-2', role: 'renter' },
+      { user_id: 'user-1', role: 'landlord' },
+    ]);
+  });
+
+  it('stops before touching roles when the profile update fails', async () => {
+    fakeSupabase
+      .seed('profiles', [{ id: 'user-1', role: 'renter' }])
+      .seed('user_roles', [{ user_id: 'user-1', role: 'renter' }])
+      .failNext('user_roles')
+      .failNext('profiles', { message: 'permission denied' });
+
+    const first = await assignUserRole('user-1', 'landlord');
+    expect(first).toEqual({ success: false, error: 'Error removing existing roles: Simulated failure' });
+
+    const second = await assignUserRole('user-1', 'landlord');
+    expect(second).toEqual({ success: false, error: 'Error updating profile: permission denied' });
+    expect(fakeSupabase.rows('profiles')[0].role).toBe('renter');
+  });
+});
@@ -0,0 +1,38 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ProviderPaymentResult } from './paymentProviders.ts';
+
+/**
+ * Applies a provider-verified result to the matching payment intent.
+ * Pending results leave the intent untouched so a later webhook can settle it.
+ */
+export const applyProviderResult = async (admin: SupabaseClient, result: ProviderPaymentResult) => {
+  if (result.status === 'succeeded') {
+    const { data, error } = await admin.rpc('confirm_payment_intent', {
+      p_reference: result.reference,
+      p_amount: result.amount,
+      p_currency: result.currency,
+      p_provider_transaction_id: result.providerTransactionId ?? null,
+      p_payload: result.raw,
+    });
+    if (error) throw error;
+    return data;
+  }
+
+  if (result.status === 'failed') {
+    const { data, error } = await admin.rpc('fail_payment_intent', {
+      p_reference: result.reference,
+      p_reason: result.failureReason ?? 'Payment was not completed',
+      p_payload: result.raw,
+    });
+    if (error) throw error;
+    return data;
+  }
+
+  const { data, error } = await admin
+    .from('payment_intents')
+    .select('*')
+    .eq('reference', result.reference)
+    .single();
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,234 @@
+/**
+ * Payment provider adapters.
+ *
+ * Every provider goes through the same lifecycle:
+ * 1. `initialize` creates a hosted checkout for an intent and returns its URL
+ * 2. `verify` asks the provider for the authoritative state of a reference
+ * 3. `parseWebhook` authenticates and normalizes asynchronous provider events
+ *
+ * Only `verify` and `parseWebhook` results may be used to confirm a payment.
+ */
+
+export type PaymentProviderId = 'paystack' | 'mock';
+
+export type ProviderPaymentStatus = 'succeeded' | 'failed' | 'pending';
+
+export interface PaymentIntentRecord {
+  reference: string;
+  amount: number;
+  currency: string;
+}
+
+export interface InitializeParams extends PaymentIntentRecord {
+  email: string;
+  callbackUrl: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface InitializeResult {
+  checkoutUrl: string;
+  providerTransactionId?: string;
+}
+
+export interface ProviderPaymentResult {
+  reference: string;
+  status: ProviderPaymentStatus;
+  amount: number;
+  // ISO code the provider charged in; confirmation fails if it isn't the intent's
+  currency: string;
+  providerTransactionId?: string;
+  failureReason?: string;
+  raw: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  initialize(params: InitializeParams): Promise<InitializeResult>;
+  verify(intent: PaymentIntentRecord): Promise<ProviderPaymentResult>;
+  // Returns null when the signature is invalid or the event is not payment related
+  parseWebhook(rawBody: string, headers: Headers): Promise<ProviderPaymentResult | null>;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const hmacSha512 = async (secret: string, payload: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+};
+
+// Compare in constant time so signatures can't be guessed byte by byte
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
+
+interface PaystackTransaction {
+  id?: number;
+  reference: string;
+  status: string;
+  amount?: number;
+  currency?: string;
+  channel?: string;
+  paid_at?: string;
+  gateway_response?: string;
+}
+
+/**
+ * Paystack adapter. Amounts are sent and received in kobo.
+ * Flutterwave follows the same initialize/verify/webhook shape and can be
+ * added as another adapter without touching the edge functions.
+ */
+export class PaystackProvider implements PaymentProvider {
+  id: PaymentProviderId = 'paystack';
+  private baseUrl = 'https://api.paystack.co';
+
+  constructor(private secretKey: string) {}
+
+  private async request(path: string, init: RequestInit = {}) {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+    const body = await response.json();
+
+    if (!response.ok || !body.status) {
+      throw new Error(body.message || `Paystack request failed with status ${response.status}`);
+    }
+
+    return body.data;
+  }
+
+  private toResult(data: PaystackTransaction): ProviderPaymentResult {
+    const status: ProviderPaymentStatus =
+      data.status === 'success' ? 'succeeded' :
+      ['failed', 'abandoned', 'reversed'].includes(data.status) ? 'failed' :
+      'pending';
+
+    return {
+      reference: data.reference,
+      status,
+      amount: (data.amount ?? 0) / 100,
+      currency: data.currency ?? '',
+      providerTransactionId: data.id ? String(data.id) : undefined,
+      failureReason: status === 'failed' ? data.gateway_response || data.status : undefined,
+      raw: { paystack_status: data.status, channel: data.channel, paid_at: data.paid_at },
+    };
+  }
+
+  async initialize(params: InitializeParams): Promise<InitializeResult> {
+    const data = await this.request('/transaction/initialize', {
+      method: 'POST',
+      body: JSON.stringify({
+        email: params.email,
+        amount: Math.round(params.amount * 100),
+        currency: params.currency,
+        reference: params.reference,
+        callback_url: params.callbackUrl,
+        metadata: params.metadata,
+      }),
+    });
+
+    return { checkoutUrl: data.authorization_url, providerTransactionId: data.access_code };
+  }
+
+  async verify(intent: PaymentIntentRecord): Promise<ProviderPaymentResult> {
+    const data = await this.request(`/transaction/verify/${encodeURIComponent(intent.reference)}`);
+    return this.toResult(data);
+  }
+
+  async parseWebhook(rawBody: string, headers: Headers): Promise<ProviderPaymentResult | null> {
+    const signature = headers.get('x-paystack-signature');
+    if (!signature) return null;
+
+    const expected = await hmacSha512(this.secretKey, rawBody);
+    if (!safeEqual(expected, signature)) return null;
+
+    const event = JSON.parse(rawBody);
+    if (!['charge.success', 'charge.failed'].includes(event.event)) return null;
+
+    return this.toResult(event.data);
+  }
+}
+
+/**
+ * Local provider for development and automated tests. The hosted checkout is
+ * skipped and every verification succeeds for the intent's full amount.
+ * Webhooks are accepted when `x-mock-signature` matches the configured secret.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  id: PaymentProviderId = 'mock';
+
+  constructor(private webhookSecret: string) {}
+
+  async initialize(params: InitializeParams): Promise<InitializeResult> {
+    const url = new URL(params.callbackUrl);
+    url.searchParams.set('reference', params.reference);
+    return { checkoutUrl: url.toString(), providerTransactionId: `mock_${params.reference}` };
+  }
+
+  async verify(intent: PaymentIntentRecord): Promise<ProviderPaymentResult> {
+    return {
+      reference: intent.reference,
+      status: 'succeeded',
+      amount: intent.amount,
+      currency: intent.currency,
+      providerTransactionId: `mock_${intent.reference}`,
+      raw: { mock: true },
+    };
+  }
+
+  async parseWebhook(rawBody: string, headers: Headers): Promise<ProviderPaymentResult | null> {
+    if (!this.webhookSecret || headers.get('x-mock-signature') !== this.webhookSecret) return null;
+
+    const event = JSON.parse(rawBody);
+    return {
+      reference: event.reference,
+      status: event.status ?? 'succeeded',
+      amount: Number(event.amount ?? 0),
+      currency: event.currency ?? 'NGN',
+      providerTransactionId: `mock_${event.reference}`,
+      failureReason: event.failure_reason,
+      raw: { mock: true },
+    };
+  }
+}
+
+/**
+ * Resolves a provider by id. Providers must be listed in PAYMENT_PROVIDERS
+ * (comma separated, defaults to "paystack") so the mock can't be used in production.
+ */
+export const getPaymentProvider = (id: string): PaymentProvider => {
+  const enabled = (Deno.env.get('PAYMENT_PROVIDERS') ?? 'paystack')
+    .split(',')
+    .map((value) => value.trim());
+
+  if (!enabled.includes(id)) {
+    throw new Error(`Payment provider "${id}" is not enabled`);
+  }
+
+  switch (id) {
+    case 'paystack':
+      return new PaystackProvider(Deno.env.get('PAYSTACK_SECRET_KEY')!);
+    case 'mock':
+      return new MockPaymentProvider(Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET') ?? '');
+    default:
+      throw new Error(`Unknown payment provider "${id}"`);
+  }
+};
@@ -0,0 +1,15 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+// Client that acts as the calling user so RLS and auth.uid() apply
+export const createUserClient = (req: Request) =>
+  createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+// Service role client for operations clients are never allowed to perform
+export const createAdminClient = () =>
+  createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
@@ -0,0 +1,47 @@
+// Verifies a payment with its provider after the renter returns from checkout.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, createUserClient } from '../_shared/supabaseClients.ts';
+import { getPaymentProvider } from '../_shared/paymentProviders.ts';
+import { applyProviderResult } from '../_shared/paymentLifecycle.ts';
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { reference } = await req.json();
+    if (!reference) {
+      return jsonResponse({ error: 'reference is required' }, 400);
+    }
+
+    // RLS limits this lookup to the caller's own intents
+    const userClient = createUserClient(req);
+    const { data: intent, error: intentError } = await userClient
+      .from('payment_intents')
+      .select('*')
+      .eq('reference', reference)
+      .single();
+    if (intentError || !intent) {
+      return jsonResponse({ error: 'Payment not found' }, 404);
+    }
+
+    if (['succeeded', 'failed', 'cancelled', 'refund_required'].includes(intent.status)) {
+      return jsonResponse({ intent });
+    }
+
+    const provider = getPaymentProvider(intent.provider);
+    const result = await provider.verify({
+      reference: intent.reference,
+      amount: Number(intent.amount),
+      currency: intent.currency,
+    });
+
+    const updated = await applyProviderResult(createAdminClient(), result);
+    return jsonResponse({ intent: updated });
+  } catch (error) {
+    console.error('Error confirming payment:', error);
+    return jsonResponse({ error: error.message ?? 'Failed to confirm payment' }, 500);
+  }
+});
@@ -0,0 +1,64 @@
+// Creates a payment intent for an approved application and opens a hosted checkout.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, createUserClient } from '../_shared/supabaseClients.ts';
+import { getPaymentProvider } from '../_shared/paymentProviders.ts';
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { applicationId, provider: providerId } = await req.json();
+    if (!applicationId || !providerId) {
+      return jsonResponse({ error: 'applicationId and provider are required' }, 400);
+    }
+
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const provider = getPaymentProvider(providerId);
+
+    // Validates ownership and approval, and takes the amount from the application
+    const { data: intent, error: intentError } = await userClient.rpc('create_payment_intent', {
+      p_application_id: applicationId,
+      p_provider: provider.id,
+    });
+    if (intentError) {
+      return jsonResponse({ error: intentError.message }, 400);
+    }
+
+    // The callback is built server side so the provider can't be pointed elsewhere
+    const siteUrl = Deno.env.get('SITE_URL') ?? 'http://localhost:8080';
+    const { checkoutUrl, providerTransactionId } = await provider.initialize({
+      reference: intent.reference,
+      amount: Number(intent.amount),
+      currency: intent.currency,
+      email: user.email!,
+      callbackUrl: `${siteUrl}/payment-success/${applicationId}`,
+      metadata: { application_id: applicationId, property_id: intent.property_id },
+    });
+
+    const admin = createAdminClient();
+    const { data: updated, error: updateError } = await admin
+      .from('payment_intents')
+      .update({
+        status: 'processing',
+        checkout_url: checkoutUrl,
+        provider_transaction_id: providerTransactionId ?? null,
+      })
+      .eq('id', intent.id)
+      .select()
+      .single();
+    if (updateError) throw updateError;
+
+    return jsonResponse({ intent: updated });
+  } catch (error) {
+    console.error('Error creating payment intent:', error);
+    return jsonResponse({ error: error.message ?? 'Failed to create payment intent' }, 500);
+  }
+});
@@ -0,0 +1,31 @@
+// Receives asynchronous payment events from providers: /payment-webhook?provider=paystack
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseClients.ts';
+import { getPaymentProvider } from '../_shared/paymentProviders.ts';
+import { applyProviderResult } from '../_shared/paymentLifecycle.ts';
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const providerId = new URL(req.url).searchParams.get('provider') ?? 'paystack';
+    const provider = getPaymentProvider(providerId);
+
+    // The signature covers the exact bytes sent, so read the body as text
+    const rawBody = await req.text();
+    const result = await provider.parseWebhook(rawBody, req.headers);
+    if (!result) {
+      return jsonResponse({ error: 'Invalid signature or unsupported event' }, 401);
+    }
+
+    await applyProviderResult(createAdminClient(), result);
+    return jsonResponse({ received: true });
+  } catch (error) {
+    console.error('Error handling payment webhook:', error);
+    // A non-2xx response makes the provider retry the delivery later
+    return jsonResponse({ error: error.message ?? 'Webhook processing failed' }, 500);
+  }
+});
@@ -0,0 +1,321 @@
+/*
+  # Payment intents
+
+  1. New Tables
+    - `payment_intents`
+      - `id` (uuid, primary key)
+      - `application_id` (uuid, foreign key to rental_applications)
+      - `property_id` (uuid, foreign key to properties)
+      - `renter_id` (uuid, foreign key to profiles)
+      - `provider` (text, payment provider identifier e.g. 'paystack', 'mock')
+      - `reference` (text, unique reference shared with the provider)
+      - `provider_transaction_id` (text, provider-side transaction id)
+      - `amount` (numeric, amount charged)
+      - `currency` (text)
+      - `status` (payment_intent_status)
+      - `checkout_url` (text, hosted checkout page returned by the provider)
+      - `failure_reason` (text)
+      - `metadata` (jsonb, raw provider payload)
+      - `confirmed_at` (timestamp)
+      - `created_at` / `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `payment_intents`
+    - Renters can read their own intents, landlords can read intents for their properties
+    - No insert/update policies: intents are created through `create_payment_intent`
+      and only the payment edge functions (service role) can confirm or fail them
+    - A confirmation is rejected if the provider charged less than the intent's amount
+      or in a different currency
+    - A charge confirmed after the application was already paid through another
+      intent is marked `refund_required` instead of being recorded twice
+    - `rental_applications.status` can only become `payment_completed` once a
+      succeeded intent exists for the application
+*/
+
+-- Create payment intent status enum
+CREATE TYPE payment_intent_status AS ENUM (
+  'pending',
+  'processing',
+  'succeeded',
+  'failed',
+  'cancelled',
+  'refund_required'
+);
+
+-- Create payment_intents table
+CREATE TABLE IF NOT EXISTS payment_intents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES rental_applications(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  renter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  reference text NOT NULL UNIQUE,
+  provider_transaction_id text,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'NGN',
+  status payment_intent_status NOT NULL DEFAULT 'pending',
+  checkout_url text,
+  failure_reason text,
+  metadata jsonb DEFAULT '{}',
+  confirmed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE payment_intents ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Renters can view their own payment intents"
+  ON payment_intents
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = renter_id);
+
+CREATE POLICY "Landlords can view payment intents for their properties"
+  ON payment_intents
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = payment_intents.property_id
+      AND properties.landlord_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all payment intents"
+  ON payment_intents
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_payment_intents_application_id ON payment_intents(application_id);
+CREATE INDEX IF NOT EXISTS idx_payment_intents_renter_id ON payment_intents(renter_id);
+CREATE INDEX IF NOT EXISTS idx_payment_intents_status ON payment_intents(status);
+
+CREATE TRIGGER update_payment_intents_updated_at
+  BEFORE UPDATE ON payment_intents
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create a payment intent for an approved application owned by the caller.
+-- Any earlier intent that never completed is cancelled so only one can succeed.
+CREATE OR REPLACE FUNCTION create_payment_intent(p_application_id uuid, p_provider text)
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  application rental_applications%ROWTYPE;
+  intent payment_intents%ROWTYPE;
+BEGIN
+  SELECT * INTO application
+  FROM rental_applications
+  WHERE id = p_application_id;
+
+  IF NOT FOUND OR application.renter_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF application.status <> 'application_approved' THEN
+    RAISE EXCEPTION 'Application must be approved before payment';
+  END IF;
+
+  UPDATE payment_intents
+  SET status = 'cancelled'
+  WHERE application_id = p_application_id
+  AND status IN ('pending', 'processing');
+
+  INSERT INTO payment_intents (
+    application_id,
+    property_id,
+    renter_id,
+    provider,
+    reference,
+    amount
+  ) VALUES (
+    application.id,
+    application.property_id,
+    application.renter_id,
+    p_provider,
+    'LNA-' || replace(gen_random_uuid()::text, '-', ''),
+    application.rent_amount
+  )
+  RETURNING * INTO intent;
+
+  RETURN intent;
+END;
+$$;
+
+-- Mark an intent as succeeded after the provider has confirmed the charge.
+-- Idempotent: confirming an already succeeded (or refund_required) intent returns it unchanged.
+CREATE OR REPLACE FUNCTION confirm_payment_intent(
+  p_reference text,
+  p_amount numeric,
+  p_currency text,
+  p_provider_transaction_id text DEFAULT NULL,
+  p_payload jsonb DEFAULT '{}'
+)
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  intent payment_intents%ROWTYPE;
+  property_title text;
+  landlord_id uuid;
+BEGIN
+  SELECT * INTO intent
+  FROM payment_intents
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment intent % not found', p_reference;
+  END IF;
+
+  IF intent.status IN ('succeeded', 'refund_required') THEN
+    RETURN intent;
+  END IF;
+
+  IF p_amount < intent.amount THEN
+    RAISE EXCEPTION 'Confirmed amount % is less than expected amount %', p_amount, intent.amount;
+  END IF;
+
+  IF upper(p_currency) IS DISTINCT FROM upper(intent.currency) THEN
+    RAISE EXCEPTION 'Confirmed currency % does not match expected currency %', p_currency, intent.currency;
+  END IF;
+
+  -- A late charge on an application that was already paid through another
+  -- intent (e.g. one cancelled by a retry) is held for refund, not recorded again
+  PERFORM 1 FROM rental_applications WHERE id = intent.application_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM payment_intents
+    WHERE application_id = intent.application_id
+    AND status = 'succeeded'
+    AND id <> intent.id
+  ) THEN
+    UPDATE payment_intents
+    SET
+      status = 'refund_required',
+      provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+      metadata = COALESCE(metadata, '{}'::jsonb) || COALESCE(p_payload, '{}'::jsonb),
+      failure_reason = 'The application was already paid; this charge must be refunded',
+      confirmed_at = now()
+    WHERE id = intent.id
+    RETURNING * INTO intent;
+
+    RETURN intent;
+  END IF;
+
+  UPDATE payment_intents
+  SET
+    status = 'succeeded',
+    provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+    metadata = COALESCE(metadata, '{}'::jsonb) || COALESCE(p_payload, '{}'::jsonb),
+    failure_reason = NULL,
+    confirmed_at = now()
+  WHERE id = intent.id
+  RETURNING * INTO intent;
+
+  UPDATE rental_applications
+  SET status = 'payment_completed', updated_at = now()
+  WHERE id = intent.application_id;
+
+  -- Let the landlord know the rent has been paid
+  SELECT p.title, p.landlord_id
+  INTO property_title, landlord_id
+  FROM properties p
+  WHERE p.id = intent.property_id;
+
+  INSERT INTO notifications (
+    user_id,
+    type,
+    title,
+    message,
+    action_url,
+    metadata
+  ) VALUES (
+    landlord_id,
+    'payment_received',
+    'Payment Received',
+    'Rent of ₦' || intent.amount::text || ' was paid for ' || property_title,
+    '/landlord/applications',
+    jsonb_build_object(
+      'application_id', intent.application_id,
+      'property_id', intent.property_id,
+      'payment_reference', intent.reference,
+      'amount', intent.amount
+    )
+  );
+
+  RETURN intent;
+END;
+$$;
+
+-- Mark an intent as failed when the provider reports a declined or abandoned charge
+CREATE OR REPLACE FUNCTION fail_payment_intent(p_reference text, p_reason text DEFAULT NULL, p_payload jsonb DEFAULT '{}')
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  intent payment_intents%ROWTYPE;
+BEGIN
+  UPDATE payment_intents
+  SET
+    status = 'failed',
+    failure_reason = p_reason,
+    metadata = COALESCE(metadata, '{}'::jsonb) || COALESCE(p_payload, '{}'::jsonb)
+  WHERE reference = p_reference
+  AND status IN ('pending', 'processing')
+  RETURNING * INTO intent;
+
+  IF NOT FOUND THEN
+    SELECT * INTO intent FROM payment_intents WHERE reference = p_reference;
+  END IF;
+
+  RETURN intent;
+END;
+$$;
+
+-- Only the payment edge functions (service role) may confirm or fail payments
+REVOKE ALL ON FUNCTION confirm_payment_intent(text, numeric, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION fail_payment_intent(text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION confirm_payment_intent(text, numeric, text, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_payment_intent(text, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION create_payment_intent(uuid, text) TO authenticated;
+
+-- Prevent clients from marking an application as paid without a confirmed payment
+CREATE OR REPLACE FUNCTION enforce_payment_confirmation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'payment_completed' AND OLD.status IS DISTINCT FROM 'payment_completed' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM payment_intents
+      WHERE application_id = NEW.id
+      AND status = 'succeeded'
+    ) THEN
+      RAISE EXCEPTION 'Application % has no confirmed payment', NEW.id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_payment_confirmation_trigger ON rental_applications;
+CREATE TRIGGER enforce_payment_confirmation_trigger
+  BEFORE UPDATE OF status ON rental_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_payment_confirmation();
+
+COMMENT ON TABLE payment_intents IS 'Provider-backed payment attempts for approved rental applications';
+COMMENT ON COLUMN payment_intents.reference IS 'Unique reference sent to the provider and echoed back on callback/webhook';
+COMMENT ON FUNCTION confirm_payment_intent IS 'Confirms a provider-verified payment and marks the application as paid (service role only)';
@@ -0,0 +1,697 @@
+/*
+  # Property transactions and double-entry ledger
+
+  1. New Tables
+    - `property_transactions`
+      - `id` (uuid, primary key)
+      - `property_id` (uuid, foreign key to properties)
+      - `application_id` (uuid, foreign key to rental_applications, required for rent, deposits and refunds)
+      - `tenant_id` (uuid, foreign key to profiles)
+      - `payment_intent_id` (uuid, foreign key to payment_intents, set for online payments)
+      - `related_transaction_id` (uuid, the transaction a refund pays back)
+      - `transaction_type` (text)
+      - `amount` (numeric)
+      - `status` (text: pending, completed, failed, refunded; refunded once completed refunds cover the full amount)
+      - `due_date` / `payment_date` (timestamp)
+      - `description` (text)
+      - `recurring` (boolean) / `recurrence_interval` (text)
+    - `property_financial_metrics` (one row per property, derived from the ledger)
+    - `ledger_accounts` (chart of accounts)
+    - `ledger_entries` (one journal entry per completed transaction)
+    - `ledger_lines` (debit/credit lines, every entry must balance)
+
+  2. Security
+    - Enable RLS on all tables
+    - Landlords can read the transactions and ledger of their own properties,
+      tenants can read their own transactions, admins can read everything
+    - Transactions are written only through `record_property_transaction`,
+      `settle_property_transaction` and the payment confirmation function
+    - Ledger rows are append-only and written by triggers
+*/
+
+-- Create property_transactions table
+CREATE TABLE IF NOT EXISTS property_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  application_id uuid REFERENCES rental_applications(id),
+  tenant_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  payment_intent_id uuid UNIQUE REFERENCES payment_intents(id) ON DELETE SET NULL,
+  related_transaction_id uuid REFERENCES property_transactions(id),
+  transaction_type text NOT NULL CHECK (transaction_type IN (
+    'rent_payment',
+    'deposit',
+    'refund',
+    'maintenance_cost',
+    'utility_payment',
+    'insurance',
+    'tax',
+    'other_income',
+    'other_expense'
+  )),
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed', 'refunded')),
+  due_date timestamptz,
+  payment_date timestamptz,
+  description text,
+  recurring boolean NOT NULL DEFAULT false,
+  recurrence_interval text CHECK (recurrence_interval IN ('monthly', 'quarterly', 'annually')),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  -- Money exchanged with a tenant must be traceable to their application
+  CONSTRAINT property_transactions_application_required CHECK (
+    transaction_type NOT IN ('rent_payment', 'deposit', 'refund') OR application_id IS NOT NULL
+  ),
+  CONSTRAINT property_transactions_refund_target CHECK (
+    transaction_type <> 'refund' OR related_transaction_id IS NOT NULL
+  )
+);
+
+-- Create property_financial_metrics table
+CREATE TABLE IF NOT EXISTS property_financial_metrics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL UNIQUE REFERENCES properties(id) ON DELETE CASCADE,
+  total_revenue numeric(14,2) NOT NULL DEFAULT 0,
+  total_expenses numeric(14,2) NOT NULL DEFAULT 0,
+  net_income numeric(14,2) NOT NULL DEFAULT 0,
+  occupancy_rate numeric(5,2) NOT NULL DEFAULT 0,
+  last_updated timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create ledger tables
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  code text PRIMARY KEY,
+  name text NOT NULL,
+  account_type text NOT NULL CHECK (account_type IN ('asset', 'liability', 'income', 'expense')),
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO ledger_accounts (code, name, account_type) VALUES
+  ('cash', 'Cash and Bank', 'asset'),
+  ('security_deposits', 'Security Deposits Held', 'liability'),
+  ('rent_income', 'Rent Income', 'income'),
+  ('rent_refunds', 'Rent Refunds', 'income'),
+  ('other_income', 'Other Income', 'income'),
+  ('maintenance_expense', 'Maintenance', 'expense'),
+  ('utilities_expense', 'Utilities', 'expense'),
+  ('insurance_expense', 'Insurance', 'expense'),
+  ('tax_expense', 'Taxes', 'expense'),
+  ('other_expense', 'Other Expenses', 'expense')
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL UNIQUE REFERENCES property_transactions(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  application_id uuid REFERENCES rental_applications(id),
+  description text,
+  posted_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS ledger_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES ledger_entries(id) ON DELETE CASCADE,
+  account_code text NOT NULL REFERENCES ledger_accounts(code),
+  debit numeric(12,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit numeric(12,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  created_at timestamptz DEFAULT now(),
+  -- Each line is either a debit or a credit
+  CONSTRAINT ledger_lines_one_side CHECK ((debit = 0) <> (credit = 0))
+);
+
+-- Enable RLS
+ALTER TABLE property_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_financial_metrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_lines ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Landlords can view transactions for their properties"
+  ON property_transactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_transactions.property_id
+      AND properties.landlord_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Tenants can view their own transactions"
+  ON property_transactions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = tenant_id);
+
+CREATE POLICY "Admins can view all transactions"
+  ON property_transactions
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+CREATE POLICY "Landlords can view metrics for their properties"
+  ON property_financial_metrics
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_financial_metrics.property_id
+      AND properties.landlord_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all metrics"
+  ON property_financial_metrics
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+CREATE POLICY "Authenticated users can view ledger accounts"
+  ON ledger_accounts
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Landlords can view ledger entries for their properties"
+  ON ledger_entries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = ledger_entries.property_id
+      AND properties.landlord_id = auth.uid()
+    )
+    OR public.current_user_has_role('admin')
+  );
+
+CREATE POLICY "Landlords can view ledger lines for their properties"
+  ON ledger_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ledger_entries
+      JOIN properties ON properties.id = ledger_entries.property_id
+      WHERE ledger_entries.id = ledger_lines.entry_id
+      AND (properties.landlord_id = auth.uid() OR public.current_user_has_role('admin'))
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_property_transactions_property_id ON property_transactions(property_id);
+CREATE INDEX IF NOT EXISTS idx_property_transactions_application_id ON property_transactions(application_id);
+CREATE INDEX IF NOT EXISTS idx_property_transactions_tenant_id ON property_transactions(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_property_transactions_status ON property_transactions(status);
+CREATE INDEX IF NOT EXISTS idx_property_transactions_payment_date ON property_transactions(payment_date);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_property_id ON ledger_entries(property_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_entry_id ON ledger_lines(entry_id);
+
+CREATE TRIGGER update_property_transactions_updated_at
+  BEFORE UPDATE ON property_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Every journal entry must balance once the posting transaction commits
+CREATE OR REPLACE FUNCTION assert_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  checked_entry uuid;
+  total_debit numeric;
+  total_credit numeric;
+BEGIN
+  checked_entry := CASE WHEN TG_OP = 'DELETE' THEN OLD.entry_id ELSE NEW.entry_id END;
+
+  SELECT COALESCE(SUM(debit), 0), COALESCE(SUM(credit), 0)
+  INTO total_debit, total_credit
+  FROM ledger_lines
+  WHERE entry_id = checked_entry;
+
+  IF total_debit <> total_credit THEN
+    RAISE EXCEPTION 'Ledger entry % is unbalanced (debits %, credits %)', checked_entry, total_debit, total_credit;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER ledger_lines_balanced
+  AFTER INSERT OR UPDATE OR DELETE ON ledger_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION assert_ledger_entry_balanced();
+
+-- Posted money can't be edited; corrections are made with refunds or new transactions.
+-- The only status change allowed is completed to refunded
+CREATE OR REPLACE FUNCTION prevent_posted_transaction_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IN ('completed', 'refunded') AND (
+    NEW.amount IS DISTINCT FROM OLD.amount OR
+    NEW.transaction_type IS DISTINCT FROM OLD.transaction_type OR
+    NEW.property_id IS DISTINCT FROM OLD.property_id OR
+    NEW.application_id IS DISTINCT FROM OLD.application_id OR
+    NEW.status NOT IN (OLD.status, 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'Completed transaction % can no longer be changed', OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_posted_transaction_changes_trigger
+  BEFORE UPDATE ON property_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_posted_transaction_changes();
+
+-- Map a transaction to the account that balances the cash movement
+CREATE OR REPLACE FUNCTION ledger_account_for_transaction(p_transaction_type text, p_refunded_type text DEFAULT NULL)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_transaction_type
+    WHEN 'rent_payment' THEN 'rent_income'
+    WHEN 'deposit' THEN 'security_deposits'
+    WHEN 'refund' THEN
+      CASE p_refunded_type
+        WHEN 'deposit' THEN 'security_deposits'
+        WHEN 'other_income' THEN 'other_income'
+        ELSE 'rent_refunds'
+      END
+    WHEN 'other_income' THEN 'other_income'
+    WHEN 'maintenance_cost' THEN 'maintenance_expense'
+    WHEN 'utility_payment' THEN 'utilities_expense'
+    WHEN 'insurance' THEN 'insurance_expense'
+    WHEN 'tax' THEN 'tax_expense'
+    ELSE 'other_expense'
+  END
+$$;
+
+-- Recalculate a property's financial metrics from its ledger
+CREATE OR REPLACE FUNCTION refresh_property_financial_metrics(p_property_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revenue numeric;
+  expenses numeric;
+  is_rented boolean;
+BEGIN
+  SELECT
+    COALESCE(SUM(CASE WHEN a.account_type = 'income' THEN l.credit - l.debit ELSE 0 END), 0),
+    COALESCE(SUM(CASE WHEN a.account_type = 'expense' THEN l.debit - l.credit ELSE 0 END), 0)
+  INTO revenue, expenses
+  FROM ledger_lines l
+  JOIN ledger_entries e ON e.id = l.entry_id
+  JOIN ledger_accounts a ON a.code = l.account_code
+  WHERE e.property_id = p_property_id;
+
+  SELECT status = 'rented' INTO is_rented
+  FROM properties
+  WHERE id = p_property_id;
+
+  INSERT INTO property_financial_metrics (
+    property_id,
+    total_revenue,
+    total_expenses,
+    net_income,
+    occupancy_rate,
+    last_updated
+  ) VALUES (
+    p_property_id,
+    revenue,
+    expenses,
+    revenue - expenses,
+    CASE WHEN is_rented THEN 100 ELSE 0 END,
+    now()
+  )
+  ON CONFLICT (property_id) DO UPDATE SET
+    total_revenue = EXCLUDED.total_revenue,
+    total_expenses = EXCLUDED.total_expenses,
+    net_income = EXCLUDED.net_income,
+    occupancy_rate = EXCLUDED.occupancy_rate,
+    last_updated = EXCLUDED.last_updated;
+END;
+$$;
+
+-- Post a journal entry as soon as a transaction completes
+CREATE OR REPLACE FUNCTION post_property_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  refunded_type text;
+  counter_account text;
+  money_in boolean;
+  new_entry_id uuid;
+BEGIN
+  IF NEW.status <> 'completed' OR (TG_OP = 'UPDATE' AND OLD.status = 'completed') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.transaction_type = 'refund' THEN
+    SELECT transaction_type INTO refunded_type
+    FROM property_transactions
+    WHERE id = NEW.related_transaction_id;
+  END IF;
+
+  counter_account := ledger_account_for_transaction(NEW.transaction_type, refunded_type);
+  money_in := NEW.transaction_type IN ('rent_payment', 'deposit', 'other_income');
+
+  INSERT INTO ledger_entries (transaction_id, property_id, application_id, description, posted_at)
+  VALUES (
+    NEW.id,
+    NEW.property_id,
+    NEW.application_id,
+    COALESCE(NEW.description, replace(NEW.transaction_type, '_', ' ')),
+    COALESCE(NEW.payment_date, now())
+  )
+  RETURNING id INTO new_entry_id;
+
+  -- Money in debits cash, money out credits it
+  INSERT INTO ledger_lines (entry_id, account_code, debit, credit) VALUES
+    (new_entry_id, 'cash',
+      CASE WHEN money_in THEN NEW.amount ELSE 0 END,
+      CASE WHEN money_in THEN 0 ELSE NEW.amount END),
+    (new_entry_id, counter_account,
+      CASE WHEN money_in THEN 0 ELSE NEW.amount END,
+      CASE WHEN money_in THEN NEW.amount ELSE 0 END);
+
+  -- Mark the original as refunded once completed refunds cover all of it
+  IF NEW.transaction_type = 'refund' THEN
+    UPDATE property_transactions t
+    SET status = 'refunded'
+    WHERE t.id = NEW.related_transaction_id
+    AND t.status = 'completed'
+    AND t.amount <= (
+      SELECT COALESCE(SUM(r.amount), 0)
+      FROM property_transactions r
+      WHERE r.related_transaction_id = t.id
+      AND r.transaction_type = 'refund'
+      AND r.status = 'completed'
+    );
+  END IF;
+
+  PERFORM refresh_property_financial_metrics(NEW.property_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER post_property_transaction_trigger
+  AFTER INSERT OR UPDATE OF status ON property_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION post_property_transaction();
+
+-- Record a transaction for one of the caller's properties
+CREATE OR REPLACE FUNCTION record_property_transaction(
+  p_property_id uuid,
+  p_transaction_type text,
+  p_amount numeric,
+  p_status text DEFAULT 'completed',
+  p_application_id uuid DEFAULT NULL,
+  p_related_transaction_id uuid DEFAULT NULL,
+  p_due_date timestamptz DEFAULT NULL,
+  p_payment_date timestamptz DEFAULT NULL,
+  p_description text DEFAULT NULL
+)
+RETURNS property_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  application rental_applications%ROWTYPE;
+  refunded property_transactions%ROWTYPE;
+  already_refunded numeric;
+  resolved_application_id uuid := p_application_id;
+  result property_transactions%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM properties
+    WHERE id = p_property_id
+    AND (landlord_id = auth.uid() OR public.current_user_has_role('admin'))
+  ) THEN
+    RAISE EXCEPTION 'Property not found';
+  END IF;
+
+  IF p_status NOT IN ('pending', 'completed') THEN
+    RAISE EXCEPTION 'New transactions must be pending or completed';
+  END IF;
+
+  IF p_transaction_type = 'refund' THEN
+    -- Lock the original so concurrent refunds can't both pass the cap below
+    SELECT * INTO refunded
+    FROM property_transactions
+    WHERE id = p_related_transaction_id
+    AND property_id = p_property_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR refunded.status <> 'completed'
+       OR refunded.transaction_type NOT IN ('rent_payment', 'deposit', 'other_income') THEN
+      RAISE EXCEPTION 'Only completed income transactions can be refunded';
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO already_refunded
+    FROM property_transactions
+    WHERE related_transaction_id = refunded.id
+    AND transaction_type = 'refund'
+    AND status IN ('pending', 'completed');
+
+    IF already_refunded + p_amount > refunded.amount THEN
+      RAISE EXCEPTION 'Refund exceeds the remaining refundable amount of %', refunded.amount - already_refunded;
+    END IF;
+
+    resolved_application_id := COALESCE(resolved_application_id, refunded.application_id);
+  END IF;
+
+  IF resolved_application_id IS NOT NULL THEN
+    SELECT * INTO application
+    FROM rental_applications
+    WHERE id = resolved_application_id
+    AND property_id = p_property_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Application does not belong to this property';
+    END IF;
+  END IF;
+
+  INSERT INTO property_transactions (
+    property_id,
+    application_id,
+    tenant_id,
+    related_transaction_id,
+    transaction_type,
+    amount,
+    status,
+    due_date,
+    payment_date,
+    description,
+    created_by
+  ) VALUES (
+    p_property_id,
+    resolved_application_id,
+    application.renter_id,
+    p_related_transaction_id,
+    p_transaction_type,
+    p_amount,
+    p_status,
+    p_due_date,
+    CASE WHEN p_status = 'completed' THEN COALESCE(p_payment_date, now()) ELSE p_payment_date END,
+    p_description,
+    auth.uid()
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+-- Settle a pending transaction once money has moved (or failed to)
+CREATE OR REPLACE FUNCTION settle_property_transaction(
+  p_transaction_id uuid,
+  p_status text,
+  p_payment_date timestamptz DEFAULT NULL
+)
+RETURNS property_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result property_transactions%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Transactions can only be settled as completed or failed';
+  END IF;
+
+  UPDATE property_transactions t
+  SET
+    status = p_status,
+    payment_date = CASE WHEN p_status = 'completed' THEN COALESCE(p_payment_date, now()) ELSE t.payment_date END
+  FROM properties p
+  WHERE t.id = p_transaction_id
+  AND p.id = t.property_id
+  AND (p.landlord_id = auth.uid() OR public.current_user_has_role('admin'))
+  AND t.status = 'pending'
+  RETURNING t.* INTO result;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pending transaction not found';
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_property_transaction(uuid, text, numeric, text, uuid, uuid, timestamptz, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION settle_property_transaction(uuid, text, timestamptz) TO authenticated;
+REVOKE ALL ON FUNCTION refresh_property_financial_metrics(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Confirmed online payments are recorded as completed rent payments
+CREATE OR REPLACE FUNCTION confirm_payment_intent(
+  p_reference text,
+  p_amount numeric,
+  p_currency text,
+  p_provider_transaction_id text DEFAULT NULL,
+  p_payload jsonb DEFAULT '{}'
+)
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  intent payment_intents%ROWTYPE;
+  property_title text;
+  landlord_id uuid;
+BEGIN
+  SELECT * INTO intent
+  FROM payment_intents
+  WHERE reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment intent % not found', p_reference;
+  END IF;
+
+  IF intent.status IN ('succeeded', 'refund_required') THEN
+    RETURN intent;
+  END IF;
+
+  IF p_amount < intent.amount THEN
+    RAISE EXCEPTION 'Confirmed amount % is less than expected amount %', p_amount, intent.amount;
+  END IF;
+
+  IF upper(p_currency) IS DISTINCT FROM upper(intent.currency) THEN
+    RAISE EXCEPTION 'Confirmed currency % does not match expected currency %', p_currency, intent.currency;
+  END IF;
+
+  -- A late charge on an application that was already paid through another
+  -- intent (e.g. one cancelled by a retry) is held for refund, not recorded again
+  PERFORM 1 FROM rental_applications WHERE id = intent.application_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM payment_intents
+    WHERE application_id = intent.application_id
+    AND status = 'succeeded'
+    AND id <> intent.id
+  ) THEN
+    UPDATE payment_intents
+    SET
+      status = 'refund_required',
+      provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+      metadata = COALESCE(metadata, '{}'::jsonb) || COALESCE(p_payload, '{}'::jsonb),
+      failure_reason = 'The application was already paid; this charge must be refunded',
+      confirmed_at = now()
+    WHERE id = intent.id
+    RETURNING * INTO intent;
+
+    RETURN intent;
+  END IF;
+
+  UPDATE payment_intents
+  SET
+    status = 'succeeded',
+    provider_transaction_id = COALESCE(p_provider_transaction_id, provider_transaction_id),
+    metadata = COALESCE(metadata, '{}'::jsonb) || COALESCE(p_payload, '{}'::jsonb),
+    failure_reason = NULL,
+    confirmed_at = now()
+  WHERE id = intent.id
+  RETURNING * INTO intent;
+
+  UPDATE rental_applications
+  SET status = 'payment_completed', updated_at = now()
+  WHERE id = intent.application_id;
+
+  -- Posts the rent to the ledger through post_property_transaction
+  INSERT INTO property_transactions (
+    property_id,
+    application_id,
+    tenant_id,
+    payment_intent_id,
+    transaction_type,
+    amount,
+    status,
+    payment_date,
+    description,
+    created_by
+  ) VALUES (
+    intent.property_id,
+    intent.application_id,
+    intent.renter_id,
+    intent.id,
+    'rent_payment',
+    intent.amount,
+    'completed',
+    intent.confirmed_at,
+    'Online rent payment (' || intent.provider || ' ' || intent.reference || ')',
+    intent.renter_id
+  );
+
+  -- Let the landlord know the rent has been paid
+  SELECT p.title, p.landlord_id
+  INTO property_title, landlord_id
+  FROM properties p
+  WHERE p.id = intent.property_id;
+
+  INSERT INTO notifications (
+    user_id,
+    type,
+    title,
+    message,
+    action_url,
+    metadata
+  ) VALUES (
+    landlord_id,
+    'payment_received',
+    'Payment Received',
+    'Rent of ₦' || intent.amount::text || ' was paid for ' || property_title,
+    '/landlord/applications',
+    jsonb_build_object(
+      'application_id', intent.application_id,
+      'property_id', intent.property_id,
+      'payment_reference', intent.reference,
+      'amount', intent.amount
+    )
+  );
+
+  RETURN intent;
+END;
+$$;
+
+COMMENT ON TABLE property_transactions IS 'Money moving in or out of a property; completed rows are posted to the ledger';
+COMMENT ON TABLE ledger_entries IS 'Append-only journal, one balanced entry per completed property transaction';
+COMMENT ON TABLE ledger_lines IS 'Debit and credit lines of a journal entry; debits must equal credits per entry';
+COMMENT ON TABLE property_financial_metrics IS 'Per-property revenue, expenses and net income derived from the ledger';
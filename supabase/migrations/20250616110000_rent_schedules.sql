@@ -0,0 +1,378 @@
+/*
+  # Recurring rent schedules
+
+  1. Changes
+    - `properties.rent_interval` (text: monthly, quarterly, annually; defaults to annually)
+    - `property_transactions.rent_schedule_id` links generated rent dues to their schedule
+    - `property_transactions.status` gains `overdue`
+
+  2. New Tables
+    - `rent_schedules`
+      - `id` (uuid, primary key)
+      - `application_id` (uuid, one schedule per paid application)
+      - `property_id` (uuid, foreign key to properties)
+      - `tenant_id` (uuid, foreign key to profiles)
+      - `rent_interval` (text, copied from the property when the schedule starts)
+      - `installment_amount` (numeric, annual rent divided over the interval)
+      - `start_date` / `end_date` (date, end_date null while the tenancy is ongoing)
+      - `next_due_date` (date, the first period that has not been generated yet)
+      - `status` (text: active, ended)
+
+  3. Behaviour
+    - A schedule is created when an application reaches `payment_completed`;
+      the first payment covers as many periods as it pays for
+    - `process_rent_schedules()` generates the upcoming `rent_payment` dues and
+      marks unpaid dues as overdue. It runs daily when pg_cron is available.
+
+  4. Security
+    - Tenants and landlords can read their own schedules, admins can read all
+    - Schedules are only written by the functions in this migration
+*/
+
+-- Rent interval per property (Nigerian rentals are usually paid yearly)
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS rent_interval text NOT NULL DEFAULT 'annually'
+  CHECK (rent_interval IN ('monthly', 'quarterly', 'annually'));
+
+-- Allow generated dues to become overdue
+ALTER TABLE property_transactions DROP CONSTRAINT IF EXISTS property_transactions_status_check;
+ALTER TABLE property_transactions
+ADD CONSTRAINT property_transactions_status_check
+  CHECK (status IN ('pending', 'overdue', 'completed', 'failed', 'refunded'));
+
+-- Create rent_schedules table
+CREATE TABLE IF NOT EXISTS rent_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL UNIQUE REFERENCES rental_applications(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rent_interval text NOT NULL CHECK (rent_interval IN ('monthly', 'quarterly', 'annually')),
+  installment_amount numeric(12,2) NOT NULL CHECK (installment_amount > 0),
+  start_date date NOT NULL DEFAULT current_date,
+  end_date date,
+  next_due_date date NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'ended')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE property_transactions
+ADD COLUMN IF NOT EXISTS rent_schedule_id uuid REFERENCES rent_schedules(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE rent_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Tenants can view their rent schedules"
+  ON rent_schedules
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = tenant_id);
+
+CREATE POLICY "Landlords can view rent schedules for their properties"
+  ON rent_schedules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = rent_schedules.property_id
+      AND properties.landlord_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all rent schedules"
+  ON rent_schedules
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_rent_schedules_property_id ON rent_schedules(property_id);
+CREATE INDEX IF NOT EXISTS idx_rent_schedules_tenant_id ON rent_schedules(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_rent_schedules_status ON rent_schedules(status);
+CREATE INDEX IF NOT EXISTS idx_property_transactions_rent_schedule_id ON property_transactions(rent_schedule_id);
+CREATE INDEX IF NOT EXISTS idx_property_transactions_due_date ON property_transactions(due_date);
+
+CREATE TRIGGER update_rent_schedules_updated_at
+  BEFORE UPDATE ON rent_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION rent_interval_months(p_interval text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_interval
+    WHEN 'monthly' THEN 1
+    WHEN 'quarterly' THEN 3
+    ELSE 12
+  END
+$$;
+
+-- Generate the due rent for one schedule, always keeping the next due on record
+CREATE OR REPLACE FUNCTION generate_rent_dues(p_schedule_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule rent_schedules%ROWTYPE;
+  created integer := 0;
+BEGIN
+  SELECT * INTO schedule
+  FROM rent_schedules
+  WHERE id = p_schedule_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR schedule.status <> 'active' THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    EXIT WHEN schedule.end_date IS NOT NULL AND schedule.next_due_date >= schedule.end_date;
+    EXIT WHEN schedule.next_due_date > current_date AND EXISTS (
+      SELECT 1 FROM property_transactions
+      WHERE rent_schedule_id = schedule.id
+      AND due_date >= current_date
+    );
+
+    INSERT INTO property_transactions (
+      property_id,
+      application_id,
+      tenant_id,
+      rent_schedule_id,
+      transaction_type,
+      amount,
+      status,
+      due_date,
+      description,
+      recurring,
+      recurrence_interval
+    ) VALUES (
+      schedule.property_id,
+      schedule.application_id,
+      schedule.tenant_id,
+      schedule.id,
+      'rent_payment',
+      schedule.installment_amount,
+      'pending',
+      schedule.next_due_date,
+      'Rent due ' || to_char(schedule.next_due_date, 'DD Mon YYYY'),
+      true,
+      schedule.rent_interval
+    );
+
+    schedule.next_due_date := (schedule.next_due_date + make_interval(months => rent_interval_months(schedule.rent_interval)))::date;
+    created := created + 1;
+  END LOOP;
+
+  UPDATE rent_schedules
+  SET next_due_date = schedule.next_due_date
+  WHERE id = schedule.id;
+
+  RETURN created;
+END;
+$$;
+
+-- Start a schedule for a paid application
+CREATE OR REPLACE FUNCTION create_rent_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  property_record properties%ROWTYPE;
+  interval_months integer;
+  installment numeric;
+  amount_paid numeric;
+  periods_covered integer;
+  new_schedule_id uuid;
+BEGIN
+  IF NEW.status <> 'payment_completed' OR OLD.status = 'payment_completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO property_record FROM properties WHERE id = NEW.property_id;
+
+  interval_months := rent_interval_months(property_record.rent_interval);
+  -- Listing prices are annual rent
+  installment := round(property_record.price * interval_months / 12.0, 2);
+
+  SELECT amount INTO amount_paid
+  FROM payment_intents
+  WHERE application_id = NEW.id
+  AND status = 'succeeded'
+  ORDER BY confirmed_at DESC
+  LIMIT 1;
+
+  -- The first payment covers as many periods as it paid for
+  periods_covered := GREATEST(1, floor(COALESCE(amount_paid, NEW.rent_amount, installment) / installment)::integer);
+
+  INSERT INTO rent_schedules (
+    application_id,
+    property_id,
+    tenant_id,
+    rent_interval,
+    installment_amount,
+    start_date,
+    next_due_date
+  ) VALUES (
+    NEW.id,
+    NEW.property_id,
+    NEW.renter_id,
+    property_record.rent_interval,
+    installment,
+    current_date,
+    (current_date + make_interval(months => interval_months * periods_covered))::date
+  )
+  ON CONFLICT (application_id) DO NOTHING
+  RETURNING id INTO new_schedule_id;
+
+  IF new_schedule_id IS NOT NULL THEN
+    PERFORM generate_rent_dues(new_schedule_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_rent_schedule_trigger
+  AFTER UPDATE OF status ON rental_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION create_rent_schedule();
+
+-- Generate upcoming dues for every active schedule and flag unpaid ones as overdue
+CREATE OR REPLACE FUNCTION process_rent_schedules()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule_id uuid;
+  overdue record;
+BEGIN
+  FOR schedule_id IN SELECT id FROM rent_schedules WHERE status = 'active' LOOP
+    PERFORM generate_rent_dues(schedule_id);
+  END LOOP;
+
+  FOR overdue IN
+    UPDATE property_transactions t
+    SET status = 'overdue'
+    FROM properties p
+    WHERE p.id = t.property_id
+    AND t.rent_schedule_id IS NOT NULL
+    AND t.status = 'pending'
+    AND t.due_date < current_date
+    RETURNING t.id, t.tenant_id, t.amount, t.due_date, t.property_id, p.title, p.landlord_id
+  LOOP
+    INSERT INTO notifications (user_id, type, title, message, action_url, metadata) VALUES
+    (
+      overdue.tenant_id,
+      'system_update',
+      'Rent Overdue',
+      'Your rent of ₦' || overdue.amount::text || ' for ' || overdue.title || ' was due on ' || to_char(overdue.due_date, 'DD Mon YYYY'),
+      '/renter',
+      jsonb_build_object('transaction_id', overdue.id, 'property_id', overdue.property_id)
+    ),
+    (
+      overdue.landlord_id,
+      'system_update',
+      'Rent Overdue',
+      'Rent of ₦' || overdue.amount::text || ' for ' || overdue.title || ' is overdue',
+      '/landlord',
+      jsonb_build_object('transaction_id', overdue.id, 'property_id', overdue.property_id)
+    );
+  END LOOP;
+END;
+$$;
+
+-- End a tenancy; dues falling after the end date are removed
+CREATE OR REPLACE FUNCTION end_rent_schedule(p_schedule_id uuid, p_end_date date DEFAULT current_date)
+RETURNS rent_schedules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result rent_schedules%ROWTYPE;
+BEGIN
+  UPDATE rent_schedules s
+  SET status = 'ended', end_date = p_end_date
+  FROM properties p
+  WHERE s.id = p_schedule_id
+  AND p.id = s.property_id
+  AND (p.landlord_id = auth.uid() OR public.current_user_has_role('admin'))
+  AND s.status = 'active'
+  RETURNING s.* INTO result;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Active rent schedule not found';
+  END IF;
+
+  DELETE FROM property_transactions
+  WHERE rent_schedule_id = p_schedule_id
+  AND status = 'pending'
+  AND due_date >= p_end_date;
+
+  RETURN result;
+END;
+$$;
+
+-- Settling now also accepts overdue dues
+CREATE OR REPLACE FUNCTION settle_property_transaction(
+  p_transaction_id uuid,
+  p_status text,
+  p_payment_date timestamptz DEFAULT NULL
+)
+RETURNS property_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result property_transactions%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Transactions can only be settled as completed or failed';
+  END IF;
+
+  UPDATE property_transactions t
+  SET
+    status = p_status,
+    payment_date = CASE WHEN p_status = 'completed' THEN COALESCE(p_payment_date, now()) ELSE t.payment_date END
+  FROM properties p
+  WHERE t.id = p_transaction_id
+  AND p.id = t.property_id
+  AND (p.landlord_id = auth.uid() OR public.current_user_has_role('admin'))
+  AND t.status IN ('pending', 'overdue')
+  RETURNING t.* INTO result;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pending transaction not found';
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION generate_rent_dues(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION process_rent_schedules() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_rent_schedules() TO service_role;
+GRANT EXECUTE ON FUNCTION end_rent_schedule(uuid, date) TO authenticated;
+
+-- Run daily where pg_cron is enabled; otherwise call process_rent_schedules() from a scheduled job
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-rent-schedules', '0 1 * * *', 'SELECT public.process_rent_schedules()');
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE rent_schedules IS 'Recurring rent obligations for paid applications; dues are generated into property_transactions';
+COMMENT ON COLUMN properties.rent_interval IS 'How often rent is collected; the listing price is annual rent';
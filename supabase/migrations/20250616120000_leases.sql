@@ -0,0 +1,452 @@
+/*
+  # Lease agreements
+
+  1. New Tables
+    - `leases`
+      - `id` (uuid, primary key)
+      - `application_id` (uuid, one lease per rental application)
+      - `property_id` (uuid, foreign key to properties)
+      - `landlord_id` / `tenant_id` (uuid, foreign keys to profiles)
+      - `start_date` / `end_date` (date)
+      - `rent_amount` (numeric, annual rent)
+      - `rent_interval` (text: monthly, quarterly, annually)
+      - `deposit_amount` (numeric)
+      - `clauses` (jsonb, array of { title, body })
+      - `template_version` (text, the document template the terms are rendered with)
+      - `status` (text: draft, partially_signed, signed, terminated)
+      - `terms_hash` (text, fingerprint of the terms both parties signed)
+      - `landlord_signature_name` / `landlord_signed_at`
+      - `tenant_signature_name` / `tenant_signed_at`
+
+  2. Behaviour
+    - A draft lease is created when an application is approved
+    - Terms can only be edited by the landlord while nobody has signed
+    - Signatures are recorded by `sign_lease` with the signer's typed name
+    - Payment can only start once both parties have signed
+
+  3. Security
+    - Enable RLS on `leases`
+    - Landlords and tenants can read their own leases, admins can read all
+*/
+
+-- Create leases table
+CREATE TABLE IF NOT EXISTS leases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL UNIQUE REFERENCES rental_applications(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  landlord_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  rent_amount numeric(12,2) NOT NULL CHECK (rent_amount > 0),
+  rent_interval text NOT NULL DEFAULT 'annually' CHECK (rent_interval IN ('monthly', 'quarterly', 'annually')),
+  deposit_amount numeric(12,2) NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0),
+  clauses jsonb NOT NULL DEFAULT '[]'::jsonb,
+  template_version text NOT NULL DEFAULT 'standard-v1',
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'partially_signed', 'signed', 'terminated')),
+  terms_hash text,
+  landlord_signature_name text,
+  landlord_signed_at timestamptz,
+  tenant_signature_name text,
+  tenant_signed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT leases_valid_term CHECK (end_date > start_date)
+);
+
+-- Enable RLS
+ALTER TABLE leases ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own leases"
+  ON leases
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = landlord_id OR auth.uid() = tenant_id);
+
+CREATE POLICY "Admins can view all leases"
+  ON leases
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+CREATE POLICY "Landlords can edit draft leases"
+  ON leases
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = landlord_id AND status = 'draft')
+  WITH CHECK (auth.uid() = landlord_id AND status = 'draft');
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_leases_property_id ON leases(property_id);
+CREATE INDEX IF NOT EXISTS idx_leases_landlord_id ON leases(landlord_id);
+CREATE INDEX IF NOT EXISTS idx_leases_tenant_id ON leases(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_leases_status ON leases(status);
+
+CREATE TRIGGER update_leases_updated_at
+  BEFORE UPDATE ON leases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Signatures, parties and status can only change through sign_lease
+CREATE OR REPLACE FUNCTION protect_lease_signatures()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.signing_lease', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status OR
+     NEW.terms_hash IS DISTINCT FROM OLD.terms_hash OR
+     NEW.landlord_signature_name IS DISTINCT FROM OLD.landlord_signature_name OR
+     NEW.landlord_signed_at IS DISTINCT FROM OLD.landlord_signed_at OR
+     NEW.tenant_signature_name IS DISTINCT FROM OLD.tenant_signature_name OR
+     NEW.tenant_signed_at IS DISTINCT FROM OLD.tenant_signed_at OR
+     NEW.application_id IS DISTINCT FROM OLD.application_id OR
+     NEW.property_id IS DISTINCT FROM OLD.property_id OR
+     NEW.landlord_id IS DISTINCT FROM OLD.landlord_id OR
+     NEW.tenant_id IS DISTINCT FROM OLD.tenant_id THEN
+    RAISE EXCEPTION 'Lease signatures and parties cannot be edited directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_lease_signatures_trigger
+  BEFORE UPDATE ON leases
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_lease_signatures();
+
+-- Fingerprint of the signed terms so both signatures cover the same document
+CREATE OR REPLACE FUNCTION lease_terms_hash(lease leases)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT md5(jsonb_build_object(
+    'template_version', lease.template_version,
+    'property_id', lease.property_id,
+    'landlord_id', lease.landlord_id,
+    'tenant_id', lease.tenant_id,
+    'start_date', lease.start_date,
+    'end_date', lease.end_date,
+    'rent_amount', lease.rent_amount,
+    'rent_interval', lease.rent_interval,
+    'deposit_amount', lease.deposit_amount,
+    'clauses', lease.clauses
+  )::text)
+$$;
+
+-- Standard clauses every new lease starts from; landlords can edit them while drafting
+CREATE OR REPLACE FUNCTION default_lease_clauses()
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_array(
+    jsonb_build_object('title', 'Use of Premises', 'body', 'The premises shall be used solely as a private residence by the Tenant and members of the Tenant''s household.'),
+    jsonb_build_object('title', 'Maintenance', 'body', 'The Tenant shall keep the premises clean and report any damage promptly. The Landlord shall carry out structural repairs within a reasonable time.'),
+    jsonb_build_object('title', 'Alterations', 'body', 'The Tenant shall not make structural alterations to the premises without the Landlord''s written consent.'),
+    jsonb_build_object('title', 'Subletting', 'body', 'The Tenant shall not assign or sublet the premises or any part of it without the Landlord''s written consent.'),
+    jsonb_build_object('title', 'Notice', 'body', 'Either party may end this tenancy at the end of the term by giving the other party written notice as required by the applicable tenancy law of the State.')
+  )
+$$;
+
+-- Draft a lease from the property's terms when an application is approved
+CREATE OR REPLACE FUNCTION create_lease_for_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  property_record properties%ROWTYPE;
+BEGIN
+  IF NEW.status <> 'application_approved' OR OLD.status = 'application_approved' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO property_record FROM properties WHERE id = NEW.property_id;
+
+  INSERT INTO leases (
+    application_id,
+    property_id,
+    landlord_id,
+    tenant_id,
+    start_date,
+    end_date,
+    rent_amount,
+    rent_interval,
+    clauses
+  ) VALUES (
+    NEW.id,
+    NEW.property_id,
+    property_record.landlord_id,
+    NEW.renter_id,
+    current_date,
+    (current_date + interval '1 year')::date,
+    COALESCE(NEW.rent_amount, property_record.price),
+    property_record.rent_interval,
+    default_lease_clauses()
+  )
+  ON CONFLICT (application_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_lease_for_application_trigger
+  AFTER UPDATE OF status ON rental_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION create_lease_for_application();
+
+-- Sign a lease as the landlord or the tenant with a typed name
+CREATE OR REPLACE FUNCTION sign_lease(p_lease_id uuid, p_signature_name text)
+RETURNS leases
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lease leases%ROWTYPE;
+  current_hash text;
+  property_title text;
+  other_party uuid;
+BEGIN
+  IF length(trim(COALESCE(p_signature_name, ''))) < 2 THEN
+    RAISE EXCEPTION 'Type your full name to sign';
+  END IF;
+
+  SELECT * INTO lease
+  FROM leases
+  WHERE id = p_lease_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (lease.landlord_id, lease.tenant_id) THEN
+    RAISE EXCEPTION 'Lease not found';
+  END IF;
+
+  IF lease.status NOT IN ('draft', 'partially_signed') THEN
+    RAISE EXCEPTION 'This lease can no longer be signed';
+  END IF;
+
+  current_hash := lease_terms_hash(lease);
+
+  -- A signature only counts for the exact terms the other party signed
+  IF lease.terms_hash IS NOT NULL AND lease.terms_hash <> current_hash THEN
+    RAISE EXCEPTION 'The lease terms changed after it was signed';
+  END IF;
+
+  PERFORM set_config('app.signing_lease', 'on', true);
+
+  IF auth.uid() = lease.landlord_id THEN
+    IF lease.landlord_signed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'You have already signed this lease';
+    END IF;
+
+    UPDATE leases
+    SET landlord_signature_name = trim(p_signature_name),
+        landlord_signed_at = now(),
+        terms_hash = current_hash,
+        status = CASE WHEN tenant_signed_at IS NOT NULL THEN 'signed' ELSE 'partially_signed' END
+    WHERE id = lease.id
+    RETURNING * INTO lease;
+
+    other_party := lease.tenant_id;
+  ELSE
+    IF lease.tenant_signed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'You have already signed this lease';
+    END IF;
+
+    UPDATE leases
+    SET tenant_signature_name = trim(p_signature_name),
+        tenant_signed_at = now(),
+        terms_hash = current_hash,
+        status = CASE WHEN landlord_signed_at IS NOT NULL THEN 'signed' ELSE 'partially_signed' END
+    WHERE id = lease.id
+    RETURNING * INTO lease;
+
+    other_party := lease.landlord_id;
+  END IF;
+
+  PERFORM set_config('app.signing_lease', 'off', true);
+
+  -- The rent that is paid follows the signed lease
+  IF lease.status = 'signed' THEN
+    UPDATE rental_applications
+    SET rent_amount = lease.rent_amount, updated_at = now()
+    WHERE id = lease.application_id;
+  END IF;
+
+  SELECT title INTO property_title FROM properties WHERE id = lease.property_id;
+
+  INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+  VALUES (
+    other_party,
+    'system_update',
+    CASE WHEN lease.status = 'signed' THEN 'Lease Fully Signed' ELSE 'Lease Awaiting Your Signature' END,
+    CASE WHEN lease.status = 'signed'
+      THEN 'The lease for ' || property_title || ' has been signed by both parties'
+      ELSE trim(p_signature_name) || ' signed the lease for ' || property_title || '. Please review and sign.'
+    END,
+    CASE WHEN other_party = lease.tenant_id THEN '/my-applications' ELSE '/landlord/applications' END,
+    jsonb_build_object('lease_id', lease.id, 'application_id', lease.application_id)
+  );
+
+  RETURN lease;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION sign_lease(uuid, text) TO authenticated;
+
+-- Payment can only start once the lease is signed by both parties
+CREATE OR REPLACE FUNCTION create_payment_intent(p_application_id uuid, p_provider text)
+RETURNS payment_intents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  application rental_applications%ROWTYPE;
+  intent payment_intents%ROWTYPE;
+BEGIN
+  SELECT * INTO application
+  FROM rental_applications
+  WHERE id = p_application_id;
+
+  IF NOT FOUND OR application.renter_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF application.status <> 'application_approved' THEN
+    RAISE EXCEPTION 'Application must be approved before payment';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM leases
+    WHERE application_id = p_application_id
+    AND status = 'signed'
+  ) THEN
+    RAISE EXCEPTION 'The lease must be signed by both parties before payment';
+  END IF;
+
+  UPDATE payment_intents
+  SET status = 'cancelled'
+  WHERE application_id = p_application_id
+  AND status IN ('pending', 'processing');
+
+  INSERT INTO payment_intents (
+    application_id,
+    property_id,
+    renter_id,
+    provider,
+    reference,
+    amount
+  ) VALUES (
+    application.id,
+    application.property_id,
+    application.renter_id,
+    p_provider,
+    'LNA-' || replace(gen_random_uuid()::text, '-', ''),
+    application.rent_amount
+  )
+  RETURNING * INTO intent;
+
+  RETURN intent;
+END;
+$$;
+
+-- Rent schedules follow the signed lease's dates, rent and interval
+CREATE OR REPLACE FUNCTION create_rent_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  property_record properties%ROWTYPE;
+  lease leases%ROWTYPE;
+  schedule_interval text;
+  annual_rent numeric;
+  schedule_start date;
+  interval_months integer;
+  installment numeric;
+  amount_paid numeric;
+  periods_covered integer;
+  new_schedule_id uuid;
+BEGIN
+  IF NEW.status <> 'payment_completed' OR OLD.status = 'payment_completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO property_record FROM properties WHERE id = NEW.property_id;
+  SELECT * INTO lease FROM leases WHERE application_id = NEW.id AND status = 'signed';
+
+  schedule_interval := COALESCE(lease.rent_interval, property_record.rent_interval);
+  annual_rent := COALESCE(lease.rent_amount, property_record.price);
+  schedule_start := GREATEST(COALESCE(lease.start_date, current_date), current_date);
+
+  interval_months := rent_interval_months(schedule_interval);
+  -- Listing prices and lease rent are annual
+  installment := round(annual_rent * interval_months / 12.0, 2);
+
+  SELECT amount INTO amount_paid
+  FROM payment_intents
+  WHERE application_id = NEW.id
+  AND status = 'succeeded'
+  ORDER BY confirmed_at DESC
+  LIMIT 1;
+
+  -- The first payment covers as many periods as it paid for
+  periods_covered := GREATEST(1, floor(COALESCE(amount_paid, NEW.rent_amount, installment) / installment)::integer);
+
+  INSERT INTO rent_schedules (
+    application_id,
+    property_id,
+    tenant_id,
+    rent_interval,
+    installment_amount,
+    start_date,
+    end_date,
+    next_due_date
+  ) VALUES (
+    NEW.id,
+    NEW.property_id,
+    NEW.renter_id,
+    schedule_interval,
+    installment,
+    schedule_start,
+    lease.end_date,
+    (schedule_start + make_interval(months => interval_months * periods_covered))::date
+  )
+  ON CONFLICT (application_id) DO NOTHING
+  RETURNING id INTO new_schedule_id;
+
+  IF new_schedule_id IS NOT NULL THEN
+    PERFORM generate_rent_dues(new_schedule_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Draft leases for applications approved before leases existed
+INSERT INTO leases (application_id, property_id, landlord_id, tenant_id, start_date, end_date, rent_amount, rent_interval, clauses)
+SELECT
+  ra.id,
+  ra.property_id,
+  p.landlord_id,
+  ra.renter_id,
+  current_date,
+  (current_date + interval '1 year')::date,
+  COALESCE(ra.rent_amount, p.price),
+  p.rent_interval,
+  default_lease_clauses()
+FROM rental_applications ra
+JOIN properties p ON p.id = ra.property_id
+WHERE ra.status = 'application_approved'
+ON CONFLICT (application_id) DO NOTHING;
+
+COMMENT ON TABLE leases IS 'Lease agreements for approved applications, signed by both parties before payment';
+COMMENT ON COLUMN leases.terms_hash IS 'md5 of the lease terms at the first signature; later signatures must match';
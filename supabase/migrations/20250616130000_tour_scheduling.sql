@@ -0,0 +1,494 @@
+/*
+  # Tour scheduling
+
+  1. New Tables
+    - `tour_slots`
+      - `id` (uuid, primary key)
+      - `property_id` (uuid, foreign key to properties)
+      - `landlord_id` (uuid, foreign key to profiles)
+      - `starts_at` / `ends_at` (timestamptz)
+      - `capacity` (integer, how many renters can book the slot)
+      - `booked_count` (integer, active bookings, kept up to date by trigger)
+      - `notes` (text, e.g. where to meet)
+    - `tour_bookings`
+      - `id` (uuid, primary key)
+      - `slot_id` (uuid, foreign key to tour_slots)
+      - `property_id` (uuid, foreign key to properties)
+      - `landlord_id` / `renter_id` (uuid, foreign keys to profiles)
+      - `status` (text: requested, confirmed, cancelled, completed)
+      - `notes` (text, message from the renter)
+      - `cancelled_by` / `cancellation_reason`
+      - `reminder_sent_at` (timestamptz)
+
+  2. Behaviour
+    - Landlords publish slots for their properties
+    - Renters book, reschedule or cancel through `book_tour`, `reschedule_tour`
+      and `cancel_tour`; landlords confirm with `confirm_tour`
+    - Every change notifies the other party with the `booking_request`,
+      `booking_confirmed` or `booking_cancelled` notification types
+    - `process_tour_reminders()` reminds both parties the day before a
+      confirmed tour. It runs hourly when pg_cron is available.
+
+  3. Security
+    - Enable RLS on both tables
+    - Anyone signed in can see slots; landlords manage their own slots
+    - Bookings are visible to the renter, the landlord and admins, and are
+      only written by the functions in this migration
+*/
+
+-- Create tour_slots table
+CREATE TABLE IF NOT EXISTS tour_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  landlord_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  capacity integer NOT NULL DEFAULT 1 CHECK (capacity > 0),
+  booked_count integer NOT NULL DEFAULT 0 CHECK (booked_count >= 0),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT tour_slots_valid_time CHECK (ends_at > starts_at),
+  CONSTRAINT tour_slots_unique_start UNIQUE (property_id, starts_at)
+);
+
+-- Create tour_bookings table
+CREATE TABLE IF NOT EXISTS tour_bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id uuid NOT NULL REFERENCES tour_slots(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  landlord_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  renter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'confirmed', 'cancelled', 'completed')),
+  notes text,
+  cancelled_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  cancellation_reason text,
+  reminder_sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE tour_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tour_bookings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for tour_slots
+CREATE POLICY "Authenticated users can view tour slots"
+  ON tour_slots
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Landlords can create slots for their properties"
+  ON tour_slots
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = landlord_id AND
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = tour_slots.property_id
+      AND properties.landlord_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Landlords can delete unbooked slots"
+  ON tour_slots
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = landlord_id AND booked_count = 0);
+
+-- Create policies for tour_bookings
+CREATE POLICY "Users can view their own tour bookings"
+  ON tour_bookings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = renter_id OR auth.uid() = landlord_id);
+
+CREATE POLICY "Admins can view all tour bookings"
+  ON tour_bookings
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_tour_slots_property_id ON tour_slots(property_id);
+CREATE INDEX IF NOT EXISTS idx_tour_slots_starts_at ON tour_slots(starts_at);
+CREATE INDEX IF NOT EXISTS idx_tour_bookings_slot_id ON tour_bookings(slot_id);
+CREATE INDEX IF NOT EXISTS idx_tour_bookings_property_id ON tour_bookings(property_id);
+CREATE INDEX IF NOT EXISTS idx_tour_bookings_renter_id ON tour_bookings(renter_id);
+CREATE INDEX IF NOT EXISTS idx_tour_bookings_landlord_id ON tour_bookings(landlord_id);
+
+-- A renter holds at most one active booking per slot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tour_bookings_active_renter_slot
+  ON tour_bookings(slot_id, renter_id)
+  WHERE status IN ('requested', 'confirmed');
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_tour_slots_updated_at
+  BEFORE UPDATE ON tour_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_tour_bookings_updated_at
+  BEFORE UPDATE ON tour_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Keep booked_count in step with the active bookings on a slot
+CREATE OR REPLACE FUNCTION refresh_tour_slot_booked_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE tour_slots
+    SET booked_count = (
+      SELECT count(*) FROM tour_bookings
+      WHERE slot_id = OLD.slot_id AND status IN ('requested', 'confirmed')
+    )
+    WHERE id = OLD.slot_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE tour_slots
+    SET booked_count = (
+      SELECT count(*) FROM tour_bookings
+      WHERE slot_id = NEW.slot_id AND status IN ('requested', 'confirmed')
+    )
+    WHERE id = NEW.slot_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_tour_slot_booked_count_trigger
+  AFTER INSERT OR UPDATE OF status, slot_id OR DELETE ON tour_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_tour_slot_booked_count();
+
+-- Notify one party about a tour booking
+CREATE OR REPLACE FUNCTION notify_tour_booking(
+  p_booking tour_bookings,
+  p_recipient_id uuid,
+  p_type notification_type,
+  p_title text,
+  p_message text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+  VALUES (
+    p_recipient_id,
+    p_type,
+    p_title,
+    p_message,
+    '/property/' || p_booking.property_id,
+    jsonb_build_object(
+      'tour_booking_id', p_booking.id,
+      'property_id', p_booking.property_id,
+      'slot_id', p_booking.slot_id
+    )
+  );
+END;
+$$;
+
+-- Lock a slot and make sure it can take another booking
+CREATE OR REPLACE FUNCTION reserve_tour_slot(p_slot_id uuid)
+RETURNS tour_slots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot tour_slots;
+BEGIN
+  SELECT * INTO v_slot FROM tour_slots WHERE id = p_slot_id FOR UPDATE;
+
+  IF v_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Tour slot not found';
+  END IF;
+
+  IF v_slot.starts_at <= now() THEN
+    RAISE EXCEPTION 'This tour slot has already started';
+  END IF;
+
+  IF v_slot.booked_count >= v_slot.capacity THEN
+    RAISE EXCEPTION 'This tour slot is fully booked';
+  END IF;
+
+  RETURN v_slot;
+END;
+$$;
+
+-- Book a viewing in a published slot
+CREATE OR REPLACE FUNCTION book_tour(p_slot_id uuid, p_notes text DEFAULT NULL)
+RETURNS tour_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot tour_slots;
+  v_booking tour_bookings;
+  v_renter_name text;
+  v_property_title text;
+BEGIN
+  v_slot := reserve_tour_slot(p_slot_id);
+
+  IF v_slot.landlord_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot book a tour of your own property';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM tour_bookings
+    WHERE property_id = v_slot.property_id
+    AND renter_id = auth.uid()
+    AND status IN ('requested', 'confirmed')
+  ) THEN
+    RAISE EXCEPTION 'You already have a tour booked for this property. Reschedule it instead.';
+  END IF;
+
+  INSERT INTO tour_bookings (slot_id, property_id, landlord_id, renter_id, notes)
+  VALUES (v_slot.id, v_slot.property_id, v_slot.landlord_id, auth.uid(), NULLIF(trim(p_notes), ''))
+  RETURNING * INTO v_booking;
+
+  SELECT full_name INTO v_renter_name FROM profiles WHERE id = auth.uid();
+  SELECT title INTO v_property_title FROM properties WHERE id = v_slot.property_id;
+
+  PERFORM notify_tour_booking(
+    v_booking,
+    v_slot.landlord_id,
+    'booking_request',
+    'New Tour Request',
+    COALESCE(v_renter_name, 'A renter') || ' would like to view ' || v_property_title || ' on ' ||
+      to_char(v_slot.starts_at AT TIME ZONE 'Africa/Lagos', 'Dy DD Mon, HH12:MI AM')
+  );
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Move a booking to another slot of the same property; the landlord confirms it again
+CREATE OR REPLACE FUNCTION reschedule_tour(p_booking_id uuid, p_slot_id uuid)
+RETURNS tour_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking tour_bookings;
+  v_slot tour_slots;
+  v_renter_name text;
+  v_property_title text;
+BEGIN
+  SELECT * INTO v_booking FROM tour_bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.renter_id != auth.uid() THEN
+    RAISE EXCEPTION 'Tour booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('requested', 'confirmed') THEN
+    RAISE EXCEPTION 'Only upcoming tours can be rescheduled';
+  END IF;
+
+  IF v_booking.slot_id = p_slot_id THEN
+    RETURN v_booking;
+  END IF;
+
+  v_slot := reserve_tour_slot(p_slot_id);
+
+  IF v_slot.property_id != v_booking.property_id THEN
+    RAISE EXCEPTION 'The new slot is for a different property';
+  END IF;
+
+  UPDATE tour_bookings
+  SET slot_id = v_slot.id,
+      status = 'requested',
+      reminder_sent_at = NULL
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  SELECT full_name INTO v_renter_name FROM profiles WHERE id = auth.uid();
+  SELECT title INTO v_property_title FROM properties WHERE id = v_booking.property_id;
+
+  PERFORM notify_tour_booking(
+    v_booking,
+    v_booking.landlord_id,
+    'booking_request',
+    'Tour Rescheduled',
+    COALESCE(v_renter_name, 'A renter') || ' moved their viewing of ' || v_property_title || ' to ' ||
+      to_char(v_slot.starts_at AT TIME ZONE 'Africa/Lagos', 'Dy DD Mon, HH12:MI AM')
+  );
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Landlord accepts a requested tour
+CREATE OR REPLACE FUNCTION confirm_tour(p_booking_id uuid)
+RETURNS tour_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking tour_bookings;
+  v_starts_at timestamptz;
+  v_property_title text;
+BEGIN
+  SELECT * INTO v_booking FROM tour_bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.landlord_id != auth.uid() THEN
+    RAISE EXCEPTION 'Tour booking not found';
+  END IF;
+
+  IF v_booking.status != 'requested' THEN
+    RAISE EXCEPTION 'Only requested tours can be confirmed';
+  END IF;
+
+  UPDATE tour_bookings SET status = 'confirmed'
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  SELECT starts_at INTO v_starts_at FROM tour_slots WHERE id = v_booking.slot_id;
+  SELECT title INTO v_property_title FROM properties WHERE id = v_booking.property_id;
+
+  PERFORM notify_tour_booking(
+    v_booking,
+    v_booking.renter_id,
+    'booking_confirmed',
+    'Tour Confirmed',
+    'Your viewing of ' || v_property_title || ' on ' ||
+      to_char(v_starts_at AT TIME ZONE 'Africa/Lagos', 'Dy DD Mon, HH12:MI AM') || ' is confirmed'
+  );
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Either party cancels an upcoming tour
+CREATE OR REPLACE FUNCTION cancel_tour(p_booking_id uuid, p_reason text DEFAULT NULL)
+RETURNS tour_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking tour_bookings;
+  v_recipient_id uuid;
+  v_canceller_name text;
+  v_property_title text;
+BEGIN
+  SELECT * INTO v_booking FROM tour_bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF v_booking.id IS NULL OR auth.uid() NOT IN (v_booking.renter_id, v_booking.landlord_id) THEN
+    RAISE EXCEPTION 'Tour booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('requested', 'confirmed') THEN
+    RAISE EXCEPTION 'This tour is no longer active';
+  END IF;
+
+  UPDATE tour_bookings
+  SET status = 'cancelled',
+      cancelled_by = auth.uid(),
+      cancellation_reason = NULLIF(trim(p_reason), '')
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  v_recipient_id := CASE WHEN auth.uid() = v_booking.renter_id THEN v_booking.landlord_id ELSE v_booking.renter_id END;
+  SELECT full_name INTO v_canceller_name FROM profiles WHERE id = auth.uid();
+  SELECT title INTO v_property_title FROM properties WHERE id = v_booking.property_id;
+
+  PERFORM notify_tour_booking(
+    v_booking,
+    v_recipient_id,
+    'booking_cancelled',
+    'Tour Cancelled',
+    COALESCE(v_canceller_name, 'The other party') || ' cancelled the viewing of ' || v_property_title ||
+      COALESCE(': ' || v_booking.cancellation_reason, '')
+  );
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Remind both parties about confirmed tours in the next 24 hours and close past ones
+CREATE OR REPLACE FUNCTION process_tour_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_count integer := 0;
+  v_when text;
+BEGIN
+  FOR v_row IN
+    SELECT b AS booking, s.starts_at, p.title
+    FROM tour_bookings b
+    JOIN tour_slots s ON s.id = b.slot_id
+    JOIN properties p ON p.id = b.property_id
+    WHERE b.status = 'confirmed'
+    AND b.reminder_sent_at IS NULL
+    AND s.starts_at > now()
+    AND s.starts_at <= now() + interval '24 hours'
+    FOR UPDATE OF b
+  LOOP
+    v_when := to_char(v_row.starts_at AT TIME ZONE 'Africa/Lagos', 'Dy DD Mon, HH12:MI AM');
+
+    PERFORM notify_tour_booking(
+      v_row.booking, (v_row.booking).renter_id, 'booking_confirmed',
+      'Tour Reminder', 'Your viewing of ' || v_row.title || ' is on ' || v_when
+    );
+    PERFORM notify_tour_booking(
+      v_row.booking, (v_row.booking).landlord_id, 'booking_confirmed',
+      'Tour Reminder', 'You have a viewing of ' || v_row.title || ' on ' || v_when
+    );
+
+    UPDATE tour_bookings SET reminder_sent_at = now() WHERE id = (v_row.booking).id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE tour_bookings b
+  SET status = 'completed'
+  FROM tour_slots s
+  WHERE s.id = b.slot_id
+  AND b.status = 'confirmed'
+  AND s.ends_at < now();
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION notify_tour_booking(tour_bookings, uuid, notification_type, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reserve_tour_slot(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION process_tour_reminders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_tour_reminders() TO service_role;
+GRANT EXECUTE ON FUNCTION book_tour(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_tour(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_tour(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_tour(uuid, text) TO authenticated;
+
+-- Run hourly where pg_cron is enabled; otherwise call process_tour_reminders() from a scheduled job
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-tour-reminders', '0 * * * *', 'SELECT public.process_tour_reminders()');
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE tour_slots IS 'Viewing times published by landlords for their properties';
+COMMENT ON TABLE tour_bookings IS 'Renter viewings booked into tour slots';
+COMMENT ON FUNCTION book_tour(uuid, text) IS 'Book a viewing in a slot and notify the landlord';
+COMMENT ON FUNCTION process_tour_reminders() IS 'Send day-before tour reminders and complete past tours';
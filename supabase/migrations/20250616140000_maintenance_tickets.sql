@@ -0,0 +1,334 @@
+/*
+  # Maintenance tickets
+
+  1. New Tables
+    - `maintenance_tickets`
+      - `id` (uuid, primary key)
+      - `property_id` (uuid, foreign key to properties)
+      - `tenant_id` (uuid, the tenant who reported the issue)
+      - `landlord_id` (uuid, copied from the property)
+      - `title` / `description` (text)
+      - `category` (text: plumbing, electrical, appliance, structural, pest_control, security, other)
+      - `priority` (text: low, medium, high, urgent)
+      - `status` (text: open, in_progress, on_hold, completed, cancelled)
+      - `photo_paths` (text[], objects in the private `maintenance-photos` bucket)
+      - `assigned_to` / `assigned_contact` (text, who is doing the work)
+      - `cost` (numeric, what the repair cost the landlord)
+      - `cost_transaction_id` (uuid, the `maintenance_cost` transaction posted for the cost)
+      - `resolution_notes` (text)
+      - `completed_at` (timestamptz)
+
+  2. Behaviour
+    - Only current tenants (a signed lease or a paid application) can file tickets
+    - Landlords triage, assign and update tickets directly
+    - Completing a ticket with a cost posts a completed `maintenance_cost`
+      transaction, which flows into the ledger and property financial metrics
+    - The other party receives a `maintenance_request` notification on new
+      tickets and status changes
+
+  3. Security
+    - Enable RLS on `maintenance_tickets`
+    - Tenants see their own tickets, landlords see tickets on their properties
+    - Private `maintenance-photos` bucket readable by the uploader and the landlord
+*/
+
+-- Create maintenance_tickets table
+CREATE TABLE IF NOT EXISTS maintenance_tickets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  tenant_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  landlord_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (length(trim(title)) > 0),
+  description text NOT NULL,
+  category text NOT NULL DEFAULT 'other' CHECK (category IN ('plumbing', 'electrical', 'appliance', 'structural', 'pest_control', 'security', 'other')),
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'on_hold', 'completed', 'cancelled')),
+  photo_paths text[] NOT NULL DEFAULT '{}',
+  assigned_to text,
+  assigned_contact text,
+  cost numeric(12,2) CHECK (cost IS NULL OR cost >= 0),
+  cost_transaction_id uuid REFERENCES property_transactions(id) ON DELETE SET NULL,
+  resolution_notes text,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE maintenance_tickets ENABLE ROW LEVEL SECURITY;
+
+-- Is the current user renting the property? Only answers for the caller so it
+-- can't be used to look up other people's tenancies
+CREATE OR REPLACE FUNCTION is_property_tenant(p_property_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM leases
+    WHERE property_id = p_property_id
+    AND tenant_id = auth.uid()
+    AND status = 'signed'
+    AND end_date >= current_date
+  ) OR EXISTS (
+    SELECT 1 FROM rental_applications
+    WHERE property_id = p_property_id
+    AND renter_id = auth.uid()
+    AND status = 'payment_completed'
+  );
+$$;
+
+-- Create policies
+CREATE POLICY "Tenants can view their own tickets"
+  ON maintenance_tickets
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = tenant_id);
+
+CREATE POLICY "Landlords can view tickets on their properties"
+  ON maintenance_tickets
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = landlord_id);
+
+CREATE POLICY "Admins can view all tickets"
+  ON maintenance_tickets
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+CREATE POLICY "Tenants can file tickets for properties they rent"
+  ON maintenance_tickets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = tenant_id AND is_property_tenant(property_id));
+
+CREATE POLICY "Landlords can update tickets on their properties"
+  ON maintenance_tickets
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = landlord_id)
+  WITH CHECK (auth.uid() = landlord_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_property_id ON maintenance_tickets(property_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_tenant_id ON maintenance_tickets(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_landlord_id ON maintenance_tickets(landlord_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tickets_status ON maintenance_tickets(status);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_maintenance_tickets_updated_at
+  BEFORE UPDATE ON maintenance_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Fill in the landlord and notify them about a new ticket
+CREATE OR REPLACE FUNCTION prepare_maintenance_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT landlord_id INTO NEW.landlord_id FROM properties WHERE id = NEW.property_id;
+  NEW.status := 'open';
+  NEW.cost := NULL;
+  NEW.cost_transaction_id := NULL;
+  NEW.completed_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_maintenance_ticket_trigger
+  BEFORE INSERT ON maintenance_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_maintenance_ticket();
+
+CREATE OR REPLACE FUNCTION notify_new_maintenance_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_name text;
+  v_property_title text;
+BEGIN
+  SELECT full_name INTO v_tenant_name FROM profiles WHERE id = NEW.tenant_id;
+  SELECT title INTO v_property_title FROM properties WHERE id = NEW.property_id;
+
+  INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+  VALUES (
+    NEW.landlord_id,
+    'maintenance_request',
+    CASE WHEN NEW.priority = 'urgent' THEN 'Urgent Maintenance Request' ELSE 'New Maintenance Request' END,
+    COALESCE(v_tenant_name, 'Your tenant') || ' reported "' || NEW.title || '" at ' || v_property_title,
+    '/property/' || NEW.property_id,
+    jsonb_build_object('maintenance_ticket_id', NEW.id, 'property_id', NEW.property_id, 'priority', NEW.priority)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_maintenance_ticket_trigger
+  AFTER INSERT ON maintenance_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_maintenance_ticket();
+
+-- Guard ticket updates and post the repair cost once the work is completed
+CREATE OR REPLACE FUNCTION process_maintenance_ticket_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id uuid;
+BEGIN
+  IF NEW.property_id != OLD.property_id OR NEW.tenant_id != OLD.tenant_id OR NEW.landlord_id != OLD.landlord_id THEN
+    RAISE EXCEPTION 'A ticket cannot be moved to another property or tenant';
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled') AND NEW.status != OLD.status THEN
+    RAISE EXCEPTION 'Closed tickets cannot be reopened';
+  END IF;
+
+  -- The posted cost is in the ledger; it can only be corrected with a new transaction
+  IF OLD.cost_transaction_id IS NOT NULL AND NEW.cost IS DISTINCT FROM OLD.cost THEN
+    RAISE EXCEPTION 'The cost of this ticket has already been recorded';
+  END IF;
+  NEW.cost_transaction_id := OLD.cost_transaction_id;
+
+  IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+    NEW.completed_at := now();
+
+    IF COALESCE(NEW.cost, 0) > 0 THEN
+      INSERT INTO property_transactions (
+        property_id,
+        transaction_type,
+        amount,
+        status,
+        payment_date,
+        description,
+        created_by
+      ) VALUES (
+        NEW.property_id,
+        'maintenance_cost',
+        NEW.cost,
+        'completed',
+        now(),
+        'Maintenance: ' || NEW.title,
+        auth.uid()
+      )
+      RETURNING id INTO v_transaction_id;
+
+      NEW.cost_transaction_id := v_transaction_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER process_maintenance_ticket_update_trigger
+  BEFORE UPDATE ON maintenance_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION process_maintenance_ticket_update();
+
+-- Let the tenant know when their ticket moves along
+CREATE OR REPLACE FUNCTION notify_maintenance_ticket_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status OR auth.uid() = NEW.tenant_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+  VALUES (
+    NEW.tenant_id,
+    'maintenance_request',
+    'Maintenance Update',
+    '"' || NEW.title || '" is now ' || replace(NEW.status, '_', ' ') ||
+      COALESCE(' - assigned to ' || NEW.assigned_to, ''),
+    '/maintenance',
+    jsonb_build_object('maintenance_ticket_id', NEW.id, 'property_id', NEW.property_id, 'status', NEW.status)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_maintenance_ticket_status_trigger
+  AFTER UPDATE OF status ON maintenance_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_maintenance_ticket_status();
+
+-- Tenants can withdraw a ticket that hasn't been started
+CREATE OR REPLACE FUNCTION cancel_maintenance_ticket(p_ticket_id uuid)
+RETURNS maintenance_tickets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket maintenance_tickets;
+BEGIN
+  SELECT * INTO v_ticket FROM maintenance_tickets WHERE id = p_ticket_id FOR UPDATE;
+
+  IF v_ticket.id IS NULL OR v_ticket.tenant_id != auth.uid() THEN
+    RAISE EXCEPTION 'Maintenance ticket not found';
+  END IF;
+
+  IF v_ticket.status != 'open' THEN
+    RAISE EXCEPTION 'Only open tickets can be cancelled';
+  END IF;
+
+  UPDATE maintenance_tickets SET status = 'cancelled'
+  WHERE id = p_ticket_id
+  RETURNING * INTO v_ticket;
+
+  RETURN v_ticket;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_maintenance_ticket(uuid) TO authenticated;
+REVOKE ALL ON FUNCTION is_property_tenant(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_property_tenant(uuid) TO authenticated;
+
+-- Private bucket for ticket photos, stored under the uploader's user id
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('maintenance-photos', 'maintenance-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Tenants can upload maintenance photos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'maintenance-photos' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Ticket parties can view maintenance photos"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'maintenance-photos' AND (
+    (storage.foldername(name))[1] = auth.uid()::text OR
+    EXISTS (
+      SELECT 1 FROM public.maintenance_tickets t
+      WHERE name = ANY(t.photo_paths)
+      AND t.landlord_id = auth.uid()
+    )
+  )
+);
+
+COMMENT ON TABLE maintenance_tickets IS 'Repair requests filed by tenants and handled by landlords';
+COMMENT ON COLUMN maintenance_tickets.cost_transaction_id IS 'maintenance_cost transaction posted when the ticket was completed';
+COMMENT ON FUNCTION is_property_tenant(uuid) IS 'True when the current user has a signed, current lease or a paid application for the property';
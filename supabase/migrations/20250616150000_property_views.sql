@@ -0,0 +1,187 @@
+/*
+  # Property view tracking
+
+  1. New Tables
+    - `property_view_events`
+      - `id` (uuid, primary key)
+      - `property_id` (uuid, foreign key to properties)
+      - `viewer_id` (uuid, nullable, the signed-in viewer)
+      - `session_id` (text, browser session that produced the view)
+      - `source` (text: web, mobile)
+      - `view_date` (date)
+      - `viewed_at` (timestamptz)
+    - `property_views`
+      - `property_id` (uuid, foreign key to properties)
+      - `landlord_id` (uuid, copied from the property)
+      - `view_date` (date)
+      - `count` (integer, unique sessions that viewed the property that day)
+      - `unique_viewers` (integer, distinct signed-in viewers that day)
+      - primary key (`property_id`, `view_date`)
+
+  2. Behaviour
+    - `record_property_view` logs at most one event per property, session and
+      day, and bumps that day's aggregate when a new event is written
+    - Landlords viewing their own listings are not counted
+    - `aggregate_property_views` rebuilds recent daily rows from the raw events
+      and prunes events older than 90 days. It runs nightly when pg_cron is
+      available.
+
+  3. Security
+    - Enable RLS on both tables
+    - Raw events are only written by `record_property_view` and are readable
+      by admins
+    - Landlords can read the daily aggregates for their own properties
+*/
+
+-- Create property_view_events table
+CREATE TABLE IF NOT EXISTS property_view_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  viewer_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  session_id text NOT NULL CHECK (char_length(session_id) BETWEEN 8 AND 64),
+  source text NOT NULL DEFAULT 'web' CHECK (source IN ('web', 'mobile')),
+  view_date date NOT NULL DEFAULT CURRENT_DATE,
+  viewed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (property_id, session_id, view_date)
+);
+
+-- Create property_views table
+CREATE TABLE IF NOT EXISTS property_views (
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  landlord_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  view_date date NOT NULL,
+  count integer NOT NULL DEFAULT 0 CHECK (count >= 0),
+  unique_viewers integer NOT NULL DEFAULT 0 CHECK (unique_viewers >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (property_id, view_date)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_property_view_events_view_date ON property_view_events(view_date);
+CREATE INDEX IF NOT EXISTS idx_property_view_events_viewer_id ON property_view_events(viewer_id);
+CREATE INDEX IF NOT EXISTS idx_property_views_landlord_id ON property_views(landlord_id, view_date);
+
+-- Enable RLS
+ALTER TABLE property_view_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_views ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for property_view_events
+CREATE POLICY "Admins can view property view events"
+  ON property_view_events
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+-- Create policies for property_views
+CREATE POLICY "Landlords can view their property views"
+  ON property_views
+  FOR SELECT
+  TO authenticated
+  USING (
+    landlord_id = auth.uid()
+    OR public.current_user_has_role('admin')
+  );
+
+-- Record a view, once per property, session and day
+CREATE OR REPLACE FUNCTION public.record_property_view(
+  p_property_id uuid,
+  p_session_id text,
+  p_source text DEFAULT 'web'
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_landlord_id uuid;
+  v_event_id uuid;
+BEGIN
+  SELECT landlord_id INTO v_landlord_id
+  FROM properties
+  WHERE id = p_property_id;
+
+  IF v_landlord_id IS NULL THEN
+    RAISE EXCEPTION 'Property not found';
+  END IF;
+
+  -- Landlords browsing their own listing would inflate the numbers
+  IF v_landlord_id = auth.uid() THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO property_view_events (property_id, viewer_id, session_id, source)
+  VALUES (p_property_id, auth.uid(), p_session_id, COALESCE(p_source, 'web'))
+  ON CONFLICT (property_id, session_id, view_date) DO NOTHING
+  RETURNING id INTO v_event_id;
+
+  IF v_event_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO property_views (property_id, landlord_id, view_date, count, unique_viewers)
+  VALUES (p_property_id, v_landlord_id, CURRENT_DATE, 1, CASE WHEN auth.uid() IS NULL THEN 0 ELSE 1 END)
+  ON CONFLICT (property_id, view_date) DO UPDATE
+  SET count = property_views.count + 1,
+      updated_at = now();
+
+  RETURN true;
+END;
+$$;
+
+-- Rebuild recent daily aggregates from raw events and prune old events
+CREATE OR REPLACE FUNCTION public.aggregate_property_views(p_days integer DEFAULT 2)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rows integer;
+BEGIN
+  INSERT INTO property_views (property_id, landlord_id, view_date, count, unique_viewers, updated_at)
+  SELECT
+    e.property_id,
+    p.landlord_id,
+    e.view_date,
+    count(*),
+    count(DISTINCT e.viewer_id),
+    now()
+  FROM property_view_events e
+  JOIN properties p ON p.id = e.property_id
+  WHERE e.view_date >= CURRENT_DATE - p_days
+  GROUP BY e.property_id, p.landlord_id, e.view_date
+  ON CONFLICT (property_id, view_date) DO UPDATE
+  SET count = EXCLUDED.count,
+      unique_viewers = EXCLUDED.unique_viewers,
+      landlord_id = EXCLUDED.landlord_id,
+      updated_at = now();
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+  -- Daily rows are kept; the raw events are only needed for recent rebuilds
+  DELETE FROM property_view_events
+  WHERE view_date < CURRENT_DATE - 90;
+
+  RETURN v_rows;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_property_view(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_property_view(uuid, text, text) TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.aggregate_property_views(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.aggregate_property_views(integer) TO service_role;
+
+-- Run nightly where pg_cron is enabled; otherwise call aggregate_property_views() from a scheduled job
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('aggregate-property-views', '15 0 * * *', 'SELECT public.aggregate_property_views()');
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE property_view_events IS 'Raw listing views, one per property, browser session and day';
+COMMENT ON TABLE property_views IS 'Daily listing view counts used by landlord analytics';
+COMMENT ON FUNCTION record_property_view(uuid, text, text) IS 'Record a deduplicated listing view and update the daily count';
+COMMENT ON FUNCTION aggregate_property_views(integer) IS 'Rebuild recent daily view counts and prune old view events';
@@ -0,0 +1,352 @@
+/*
+  # Platform settings
+
+  1. New Tables
+    - `platform_settings`
+      - `key` (text, primary key, one of the known setting keys)
+      - `value` (jsonb)
+      - `updated_by` (uuid, the admin who last changed it)
+      - `updated_at` (timestamptz)
+    - `platform_settings_audit`
+      - `id` (uuid, primary key)
+      - `setting_key` (text)
+      - `old_value` / `new_value` (jsonb)
+      - `changed_by` (uuid, the admin who made the change)
+      - `reason` (text)
+      - `changed_at` (timestamptz)
+
+  2. Behaviour
+    - Settings are seeded with the values the app previously hardcoded
+    - `update_platform_settings` validates and applies a batch of changes
+      atomically and writes one audit row per changed key
+    - New and edited listings must respect the price limits and image cap
+    - New listings scoring at or above `auto_approve_threshold` go live
+      immediately; everything else waits in the review queue
+    - `properties.approved_at` records when a listing was approved, by an admin
+      or by auto-approval. Landlords can't set it, and until it is set they can't
+      move a listing out of review (other than archiving it), so a pending or
+      rejected listing can't be published in two steps through `inactive`
+    - Notifications whose type is switched off are silently dropped
+
+  3. Security
+    - Enable RLS on both tables
+    - Everyone can read settings, since the app reads them before sign-in
+    - Settings are only written through `update_platform_settings` (admins)
+    - Only admins can read the audit trail
+*/
+
+-- Create platform_settings table
+CREATE TABLE IF NOT EXISTS platform_settings (
+  key text PRIMARY KEY CHECK (key IN (
+    'listing_min_price',
+    'listing_max_price',
+    'listing_max_images',
+    'default_currency',
+    'auto_approve_threshold',
+    'notifications'
+  )),
+  value jsonb NOT NULL,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create platform_settings_audit table
+CREATE TABLE IF NOT EXISTS platform_settings_audit (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  setting_key text NOT NULL REFERENCES platform_settings(key) ON DELETE CASCADE,
+  old_value jsonb,
+  new_value jsonb NOT NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reason text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_platform_settings_audit_changed_at ON platform_settings_audit(changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_platform_settings_audit_setting_key ON platform_settings_audit(setting_key);
+
+-- Seed the defaults the app used to hardcode
+INSERT INTO platform_settings (key, value) VALUES
+  ('listing_min_price', '1000'),
+  ('listing_max_price', '10000000'),
+  ('listing_max_images', '10'),
+  ('default_currency', '"NGN"'),
+  ('auto_approve_threshold', 'null'),
+  ('notifications', '{
+    "message": true,
+    "property_inquiry": true,
+    "property_approved": true,
+    "property_rejected": true,
+    "booking_request": true,
+    "booking_confirmed": true,
+    "booking_cancelled": true,
+    "payment_received": true,
+    "maintenance_request": true,
+    "system_update": true
+  }')
+ON CONFLICT (key) DO NOTHING;
+
+-- Track listing approval so it survives later status changes
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS approved_at timestamptz;
+
+UPDATE properties p
+SET approved_at = COALESCE(p.updated_at, p.created_at, now())
+WHERE p.approved_at IS NULL
+AND (
+  p.status IN ('active', 'rented', 'maintenance')
+  OR EXISTS (SELECT 1 FROM property_reviews r WHERE r.property_id = p.id AND r.action = 'approved')
+);
+
+-- Enable RLS
+ALTER TABLE platform_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE platform_settings_audit ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for platform_settings
+CREATE POLICY "Anyone can view platform settings"
+  ON platform_settings
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Create policies for platform_settings_audit
+CREATE POLICY "Admins can view the settings audit trail"
+  ON platform_settings_audit
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+-- Read a single setting
+CREATE OR REPLACE FUNCTION public.get_platform_setting(p_key text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT value FROM platform_settings WHERE key = p_key;
+$$;
+
+-- Reject values that don't fit a setting's schema
+CREATE OR REPLACE FUNCTION public.validate_platform_setting(p_key text, p_value jsonb)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_type text;
+BEGIN
+  CASE p_key
+    WHEN 'listing_min_price', 'listing_max_price' THEN
+      IF jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric <= 0 THEN
+        RAISE EXCEPTION '% must be a positive number', p_key;
+      END IF;
+    WHEN 'listing_max_images' THEN
+      IF jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric NOT BETWEEN 1 AND 50
+        OR (p_value #>> '{}')::numeric <> trunc((p_value #>> '{}')::numeric) THEN
+        RAISE EXCEPTION 'listing_max_images must be a whole number between 1 and 50';
+      END IF;
+    WHEN 'default_currency' THEN
+      IF jsonb_typeof(p_value) <> 'string' OR (p_value #>> '{}') NOT IN ('NGN', 'USD', 'GBP', 'EUR', 'GHS', 'KES', 'ZAR') THEN
+        RAISE EXCEPTION 'Unsupported currency %', p_value;
+      END IF;
+    WHEN 'auto_approve_threshold' THEN
+      IF jsonb_typeof(p_value) <> 'null' AND (
+        jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric NOT BETWEEN 0 AND 100
+      ) THEN
+        RAISE EXCEPTION 'auto_approve_threshold must be empty or a score between 0 and 100';
+      END IF;
+    WHEN 'notifications' THEN
+      IF jsonb_typeof(p_value) <> 'object' THEN
+        RAISE EXCEPTION 'notifications must be an object of toggles';
+      END IF;
+      FOR v_type IN SELECT jsonb_object_keys(p_value) LOOP
+        IF NOT v_type = ANY (enum_range(NULL::notification_type)::text[]) THEN
+          RAISE EXCEPTION 'Unknown notification type %', v_type;
+        END IF;
+        IF jsonb_typeof(p_value -> v_type) <> 'boolean' THEN
+          RAISE EXCEPTION 'Notification toggle % must be true or false', v_type;
+        END IF;
+      END LOOP;
+    ELSE
+      RAISE EXCEPTION 'Unknown setting %', p_key;
+  END CASE;
+END;
+$$;
+
+-- Apply a batch of setting changes and record them in the audit trail
+CREATE OR REPLACE FUNCTION public.update_platform_settings(p_changes jsonb, p_reason text DEFAULT NULL)
+RETURNS SETOF platform_settings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key text;
+  v_value jsonb;
+  v_old jsonb;
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can change platform settings';
+  END IF;
+
+  IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'object' THEN
+    RAISE EXCEPTION 'Changes must be an object keyed by setting';
+  END IF;
+
+  FOR v_key, v_value IN SELECT * FROM jsonb_each(p_changes) LOOP
+    PERFORM public.validate_platform_setting(v_key, v_value);
+
+    SELECT value INTO v_old FROM platform_settings WHERE key = v_key FOR UPDATE;
+
+    IF v_old IS DISTINCT FROM v_value THEN
+      UPDATE platform_settings
+      SET value = v_value,
+          updated_by = auth.uid(),
+          updated_at = now()
+      WHERE key = v_key;
+
+      INSERT INTO platform_settings_audit (setting_key, old_value, new_value, changed_by, reason)
+      VALUES (v_key, v_old, v_value, auth.uid(), NULLIF(trim(p_reason), ''));
+    END IF;
+  END LOOP;
+
+  IF (get_platform_setting('listing_min_price') #>> '{}')::numeric
+    >= (get_platform_setting('listing_max_price') #>> '{}')::numeric THEN
+    RAISE EXCEPTION 'The minimum listing price must be below the maximum';
+  END IF;
+
+  RETURN QUERY SELECT * FROM platform_settings ORDER BY key;
+END;
+$$;
+
+-- Score a listing's completeness, matching the admin review panel
+CREATE OR REPLACE FUNCTION public.listing_quality_score(p_property properties)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_score integer := 0;
+  v_landlord profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO v_landlord FROM profiles WHERE id = p_property.landlord_id;
+
+  IF char_length(COALESCE(p_property.title, '')) > 10 THEN v_score := v_score + 10; END IF;
+  IF char_length(COALESCE(p_property.description, '')) > 50 THEN v_score := v_score + 10; END IF;
+  IF COALESCE(p_property.location, '') <> '' THEN v_score := v_score + 10; END IF;
+  IF COALESCE(p_property.bedrooms, 0) > 0 THEN v_score := v_score + 8; END IF;
+  IF COALESCE(p_property.bathrooms, 0) > 0 THEN v_score := v_score + 8; END IF;
+  IF COALESCE(array_length(p_property.amenities, 1), 0) > 0 THEN v_score := v_score + 9; END IF;
+  IF p_property.photo_url IS NOT NULL THEN v_score := v_score + 10; END IF;
+  IF COALESCE(array_length(p_property.photo_urls, 1), 0) > 1 THEN v_score := v_score + 10; END IF;
+  IF p_property.price BETWEEN 50000 AND 50000000 THEN v_score := v_score + 15; END IF;
+  IF v_landlord.full_name IS NOT NULL THEN v_score := v_score + 5; END IF;
+  IF v_landlord.email IS NOT NULL THEN v_score := v_score + 5; END IF;
+
+  RETURN LEAST(v_score, 100);
+END;
+$$;
+
+-- Enforce listing limits and decide whether a new listing skips review
+CREATE OR REPLACE FUNCTION public.apply_listing_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_min numeric := (get_platform_setting('listing_min_price') #>> '{}')::numeric;
+  v_max numeric := (get_platform_setting('listing_max_price') #>> '{}')::numeric;
+  v_max_images integer := (get_platform_setting('listing_max_images') #>> '{}')::integer;
+  v_threshold numeric := (get_platform_setting('auto_approve_threshold') #>> '{}')::numeric;
+BEGIN
+  -- Admins can correct listings outside the limits, and approve them
+  IF public.current_user_has_role('admin') THEN
+    IF NEW.status = 'active' AND NEW.approved_at IS NULL THEN
+      NEW.approved_at := now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.price IS DISTINCT FROM OLD.price THEN
+    IF NEW.price < v_min OR NEW.price > v_max THEN
+      RAISE EXCEPTION 'Price must be between % and %', v_min, v_max;
+    END IF;
+  END IF;
+
+  IF COALESCE(array_length(NEW.photo_urls, 1), 0) > v_max_images THEN
+    RAISE EXCEPTION 'Listings can have at most % images', v_max_images;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.approved_at := NULL;
+    NEW.status := CASE
+      WHEN v_threshold IS NOT NULL AND public.listing_quality_score(NEW) >= v_threshold THEN 'active'
+      ELSE 'pending'
+    END;
+  ELSE
+    -- Only review or auto-approval can approve a listing
+    NEW.approved_at := OLD.approved_at;
+
+    IF OLD.approved_at IS NULL
+      AND NEW.status IS DISTINCT FROM OLD.status
+      AND NEW.status NOT IN ('pending', 'archived')
+      AND NOT (
+        NEW.status = 'active'
+        AND v_threshold IS NOT NULL
+        AND public.listing_quality_score(NEW) >= v_threshold
+      ) THEN
+      IF NEW.status = 'active' THEN
+        RAISE EXCEPTION 'This listing must be approved by an admin before it goes live';
+      END IF;
+      RAISE EXCEPTION 'This listing can''t change status until it has been approved';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'active' AND NEW.approved_at IS NULL THEN
+    NEW.approved_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_listing_settings ON properties;
+CREATE TRIGGER apply_listing_settings
+  BEFORE INSERT OR UPDATE OF price, photo_urls, status, approved_at ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_listing_settings();
+
+-- Drop notifications whose type has been switched off
+CREATE OR REPLACE FUNCTION public.apply_notification_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE((get_platform_setting('notifications') ->> NEW.type::text)::boolean, true) THEN
+    RETURN NEW;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_notification_settings ON notifications;
+CREATE TRIGGER apply_notification_settings
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_notification_settings();
+
+REVOKE ALL ON FUNCTION public.update_platform_settings(jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_platform_settings(jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_platform_setting(text) TO anon, authenticated;
+
+COMMENT ON TABLE platform_settings IS 'Admin-managed platform configuration, one row per setting';
+COMMENT ON TABLE platform_settings_audit IS 'Append-only history of platform setting changes';
+COMMENT ON FUNCTION update_platform_settings(jsonb, text) IS 'Validate and apply setting changes, recording each in the audit trail';
+COMMENT ON FUNCTION listing_quality_score(properties) IS 'Completeness score (0-100) used for listing auto-approval';
@@ -0,0 +1,291 @@
+/*
+  # Database backups
+
+  1. New Tables
+    - `database_backups`
+      - `id` (uuid, primary key, also the bundle's file name)
+      - `kind` (text: backup, restore)
+      - `format` (text: json, csv)
+      - `format_version` (integer, bundle format version)
+      - `table_counts` (jsonb, rows per table in the bundle; for restores, rows restored)
+      - `size_bytes` (bigint)
+      - `checksum` (text, SHA-256 of the bundle file)
+      - `storage_path` (text, object in the private `database-backups` bucket)
+      - `status` (text: completed, failed)
+      - `error` (text)
+      - `created_by` (uuid, the admin who ran it)
+
+  2. Behaviour
+    - `export_backup_snapshot` reads every backed-up table in a single
+      statement, so the bundle is one consistent snapshot
+    - `restore_backup_bundle` inserts bundle rows that don't exist yet, in
+      foreign key order, skipping rows whose parent is missing. Triggers on the
+      restored tables are disabled while it runs so restored rows keep their
+      timestamps and don't fire notifications, except the admin audit trigger.
+      Rows that would break a rule a disabled trigger enforces are skipped
+      (applications marked paid without a succeeded payment intent)
+    - A dry run performs the same restore and rolls it back, returning the
+      per-table diff without changing anything
+    - Completed restores are recorded in `database_backups` with the rows
+      restored per table, which also writes an admin audit entry
+
+  3. Security
+    - Enable RLS on `database_backups`; only admins can read or record entries
+    - Private `database-backups` bucket restricted to admins
+    - Both functions check for the admin role
+*/
+
+-- Create database_backups table
+CREATE TABLE IF NOT EXISTS database_backups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL DEFAULT 'backup' CHECK (kind IN ('backup', 'restore')),
+  format text NOT NULL CHECK (format IN ('json', 'csv')),
+  format_version integer NOT NULL,
+  table_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  size_bytes bigint,
+  checksum text,
+  storage_path text,
+  status text NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'failed')),
+  error text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_database_backups_created_at ON database_backups(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE database_backups ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for database_backups
+CREATE POLICY "Admins can view database backups"
+  ON database_backups
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+CREATE POLICY "Admins can record database backups"
+  ON database_backups
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.current_user_has_role('admin')
+    AND created_by = auth.uid()
+    AND kind = 'backup'
+  );
+
+-- Export the backed-up tables as one consistent snapshot
+CREATE OR REPLACE FUNCTION public.export_backup_snapshot()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tables jsonb;
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can export backups';
+  END IF;
+
+  -- A single statement sees a single snapshot, so related rows stay consistent
+  SELECT jsonb_build_object(
+    'profiles', COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at) FROM profiles t), '[]'::jsonb),
+    'properties', COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at) FROM properties t), '[]'::jsonb),
+    'rental_applications', COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at) FROM rental_applications t), '[]'::jsonb),
+    'chat_rooms', COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at) FROM chat_rooms t), '[]'::jsonb),
+    'messages', COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at) FROM messages t), '[]'::jsonb),
+    'notifications', COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at) FROM notifications t), '[]'::jsonb),
+    'saved_properties', COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at) FROM saved_properties t), '[]'::jsonb),
+    'property_reviews', COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at) FROM property_reviews t), '[]'::jsonb)
+  ) INTO v_tables;
+
+  RETURN jsonb_build_object(
+    'format', 'landlord-no-agent-backup',
+    'version', 1,
+    'created_at', now(),
+    'tables', v_tables
+  );
+END;
+$$;
+
+-- Restore a bundle's missing rows, or report what a restore would do
+CREATE OR REPLACE FUNCTION public.restore_backup_bundle(p_bundle jsonb, p_dry_run boolean DEFAULT true)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Parents come before children so foreign keys can be checked as rows go in
+  v_order text[] := ARRAY[
+    'profiles', 'properties', 'rental_applications', 'chat_rooms',
+    'messages', 'notifications', 'saved_properties', 'property_reviews'
+  ];
+  -- Triggers that stay on while restoring, so restored rows are still audited
+  v_kept_triggers text[] := ARRAY['log_admin_change'];
+  v_table text;
+  v_trigger text;
+  v_rows jsonb;
+  v_parents text[];
+  v_parent text;
+  v_filter text;
+  v_check text;
+  v_existing integer;
+  v_missing_parent integer;
+  v_failed_checks integer;
+  v_inserted integer;
+  v_unknown text[];
+  v_report jsonb := '{}'::jsonb;
+  v_counts jsonb := '{}'::jsonb;
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can restore backups';
+  END IF;
+
+  IF p_bundle ->> 'format' IS DISTINCT FROM 'landlord-no-agent-backup' THEN
+    RAISE EXCEPTION 'Not a backup bundle';
+  END IF;
+
+  IF (p_bundle ->> 'version')::integer IS DISTINCT FROM 1 THEN
+    RAISE EXCEPTION 'Unsupported backup version %', p_bundle ->> 'version';
+  END IF;
+
+  BEGIN
+    FOREACH v_table IN ARRAY v_order LOOP
+      FOR v_trigger IN
+        SELECT tgname FROM pg_trigger
+        WHERE tgrelid = format('public.%I', v_table)::regclass
+        AND NOT tgisinternal
+        AND tgname <> ALL (v_kept_triggers)
+      LOOP
+        EXECUTE format('ALTER TABLE public.%I DISABLE TRIGGER %I', v_table, v_trigger);
+      END LOOP;
+    END LOOP;
+
+    FOREACH v_table IN ARRAY v_order LOOP
+      v_rows := COALESCE(p_bundle -> 'tables' -> v_table, '[]'::jsonb);
+
+      v_parents := CASE v_table
+        WHEN 'profiles' THEN ARRAY['id:auth.users']
+        WHEN 'properties' THEN ARRAY['landlord_id:public.profiles']
+        WHEN 'rental_applications' THEN ARRAY['property_id:public.properties', 'renter_id:public.profiles']
+        WHEN 'chat_rooms' THEN ARRAY['property_id:public.properties', 'renter_id:public.profiles', 'landlord_id:public.profiles']
+        WHEN 'messages' THEN ARRAY['chat_room_id:public.chat_rooms', 'sender_id:public.profiles']
+        WHEN 'notifications' THEN ARRAY['user_id:auth.users']
+        WHEN 'saved_properties' THEN ARRAY['user_id:auth.users', 'property_id:public.properties']
+        WHEN 'property_reviews' THEN ARRAY['property_id:public.properties', 'admin_id:public.profiles']
+      END;
+
+      v_filter := 'true';
+      FOREACH v_parent IN ARRAY v_parents LOOP
+        v_filter := v_filter || format(
+          ' AND (r.%1$I IS NULL OR EXISTS (SELECT 1 FROM %2$s p WHERE p.id = r.%1$I))',
+          split_part(v_parent, ':', 1),
+          split_part(v_parent, ':', 2)
+        );
+      END LOOP;
+
+      -- Rules otherwise enforced by triggers that are off during the restore
+      v_check := CASE v_table
+        WHEN 'rental_applications' THEN
+          '(r.status IS DISTINCT FROM ''payment_completed'' OR EXISTS (
+             SELECT 1 FROM public.payment_intents pi WHERE pi.application_id = r.id AND pi.status = ''succeeded''))'
+        ELSE 'true'
+      END;
+
+      -- Columns the bundle has but this project doesn't are dropped
+      SELECT array_agg(DISTINCT k) INTO v_unknown
+      FROM jsonb_array_elements(v_rows) e, jsonb_object_keys(e) k
+      WHERE NOT EXISTS (
+        SELECT 1 FROM information_schema.columns c
+        WHERE c.table_schema = 'public' AND c.table_name = v_table AND c.column_name = k
+      );
+
+      EXECUTE format(
+        'SELECT count(*) FILTER (WHERE EXISTS (SELECT 1 FROM public.%1$I t WHERE t.id = r.id)),
+                count(*) FILTER (WHERE NOT EXISTS (SELECT 1 FROM public.%1$I t WHERE t.id = r.id) AND NOT (%2$s)),
+                count(*) FILTER (WHERE NOT EXISTS (SELECT 1 FROM public.%1$I t WHERE t.id = r.id) AND (%2$s) AND NOT (%3$s))
+         FROM jsonb_populate_recordset(NULL::public.%1$I, $1) r',
+        v_table, v_filter, v_check
+      ) INTO v_existing, v_missing_parent, v_failed_checks USING v_rows;
+
+      EXECUTE format(
+        'INSERT INTO public.%1$I
+         SELECT r.* FROM jsonb_populate_recordset(NULL::public.%1$I, $1) r
+         WHERE NOT EXISTS (SELECT 1 FROM public.%1$I t WHERE t.id = r.id) AND %2$s AND %3$s',
+        v_table, v_filter, v_check
+      ) USING v_rows;
+      GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+      v_counts := v_counts || jsonb_build_object(v_table, v_inserted);
+      v_report := v_report || jsonb_build_object(v_table, jsonb_build_object(
+        'in_bundle', jsonb_array_length(v_rows),
+        'already_present', v_existing,
+        'missing_parent', v_missing_parent,
+        'failed_checks', v_failed_checks,
+        'to_insert', v_inserted,
+        'unknown_columns', COALESCE(to_jsonb(v_unknown), '[]'::jsonb)
+      ));
+    END LOOP;
+
+    FOREACH v_table IN ARRAY v_order LOOP
+      FOR v_trigger IN
+        SELECT tgname FROM pg_trigger
+        WHERE tgrelid = format('public.%I', v_table)::regclass
+        AND NOT tgisinternal
+        AND tgname <> ALL (v_kept_triggers)
+      LOOP
+        EXECUTE format('ALTER TABLE public.%I ENABLE TRIGGER %I', v_table, v_trigger);
+      END LOOP;
+    END LOOP;
+
+    IF p_dry_run THEN
+      RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'restore_dry_run';
+    END IF;
+  EXCEPTION
+    WHEN raise_exception THEN
+      -- The dry run's inserts are rolled back here; the report survives
+      IF SQLERRM <> 'restore_dry_run' THEN
+        RAISE;
+      END IF;
+  END;
+
+  IF NOT p_dry_run THEN
+    INSERT INTO database_backups (kind, format, format_version, table_counts, status, created_by)
+    VALUES ('restore', 'json', 1, v_counts, 'completed', auth.uid());
+  END IF;
+
+  RETURN jsonb_build_object('dry_run', p_dry_run, 'tables', v_report);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.export_backup_snapshot() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.export_backup_snapshot() TO authenticated;
+REVOKE ALL ON FUNCTION public.restore_backup_bundle(jsonb, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.restore_backup_bundle(jsonb, boolean) TO authenticated;
+
+-- Private bucket for backup bundles, admins only
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('database-backups', 'database-backups', false, 104857600, ARRAY['application/json', 'text/csv'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can upload database backups"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'database-backups' AND
+  public.current_user_has_role('admin')
+);
+
+CREATE POLICY "Admins can read database backups"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'database-backups' AND
+  public.current_user_has_role('admin')
+);
+
+COMMENT ON TABLE database_backups IS 'History of admin backup exports and restores';
+COMMENT ON FUNCTION export_backup_snapshot() IS 'Consistent JSON snapshot of the backed-up app tables (admins only)';
+COMMENT ON FUNCTION restore_backup_bundle(jsonb, boolean) IS 'Restore missing rows from a backup bundle; dry runs report the diff and roll back';
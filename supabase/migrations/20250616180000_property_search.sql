@@ -0,0 +1,163 @@
+/*
+  # Server-side property search
+
+  1. Schema Changes
+    - `properties.property_type` (text: apartment, house, duplex, bungalow,
+      studio, self_contain). Existing listings are backfilled from their
+      bedroom count as a starting point; landlords set it explicitly from now on.
+    - `properties.search_vector` (tsvector, weighted title > location >
+      amenities > description), kept current by a trigger
+
+  2. Behaviour
+    - `search_properties` runs the keyword search and every filter in the
+      database and returns one page of active listings with the total match
+      count, so pagination and result counts reflect the real result set
+    - Keywords match through full-text search, with trigram word similarity
+      on title and location to tolerate typos ("lekki" vs "leki")
+    - Results are ranked by relevance when there is a query, or sorted by
+      newest, oldest, price or popularity (views in the last 30 days)
+    - Amenity filters match case-insensitively and on partial names, since
+      landlords enter amenities as free text
+
+  3. Security
+    - `search_properties` runs as the caller, so the existing RLS policies on
+      `properties` still decide which listings are visible
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Add property_type
+ALTER TABLE properties
+  ADD COLUMN IF NOT EXISTS property_type text
+  CHECK (property_type IN ('apartment', 'house', 'duplex', 'bungalow', 'studio', 'self_contain'));
+
+UPDATE properties
+SET property_type = CASE
+  WHEN COALESCE(bedrooms, 0) = 0 THEN 'studio'
+  WHEN bedrooms <= 3 THEN 'apartment'
+  ELSE 'house'
+END
+WHERE property_type IS NULL;
+
+-- Add search_vector
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION public.properties_search_vector_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.location, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.amenities, ' '), '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'D');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS properties_search_vector_update ON properties;
+CREATE TRIGGER properties_search_vector_update
+  BEFORE INSERT OR UPDATE OF title, location, amenities, description ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.properties_search_vector_update();
+
+-- Backfill existing listings; only search_vector is set, so the column-specific listing triggers stay quiet
+UPDATE properties SET search_vector =
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(location, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(array_to_string(amenities, ' '), '')), 'C') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'D');
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_properties_search_vector ON properties USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_properties_title_location_trgm
+  ON properties USING gin((title || ' ' || COALESCE(location, '')) extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_properties_status_price ON properties(status, price);
+CREATE INDEX IF NOT EXISTS idx_properties_property_type ON properties(property_type);
+
+-- Search active listings with every filter applied in the database
+CREATE OR REPLACE FUNCTION public.search_properties(
+  p_query text DEFAULT NULL,
+  p_location text DEFAULT NULL,
+  p_property_type text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_bedrooms integer DEFAULT NULL,
+  p_max_bedrooms integer DEFAULT NULL,
+  p_min_bathrooms integer DEFAULT NULL,
+  p_amenities text[] DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (property jsonb, rank real, total_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(p_query), '') AS q,
+      CASE WHEN NULLIF(trim(p_query), '') IS NULL THEN NULL
+        ELSE websearch_to_tsquery('english', p_query) END AS tsq
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      CASE WHEN params.q IS NULL THEN 0::real
+        ELSE ts_rank_cd(p.search_vector, params.tsq, 32)
+          + word_similarity(params.q, p.title || ' ' || COALESCE(p.location, '')) END AS rank,
+      COALESCE((
+        SELECT sum(v.count)
+        FROM property_views v
+        WHERE v.property_id = p.id AND v.view_date > CURRENT_DATE - 30
+      ), 0) AS recent_views
+    FROM properties p, params
+    WHERE p.status = 'active'
+      AND (params.q IS NULL
+        OR p.search_vector @@ params.tsq
+        OR params.q <% (p.title || ' ' || COALESCE(p.location, '')))
+      AND (NULLIF(trim(p_location), '') IS NULL OR p.location ILIKE '%' || trim(p_location) || '%')
+      AND (p_property_type IS NULL OR p.property_type = p_property_type)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (p_min_bedrooms IS NULL OR COALESCE(p.bedrooms, 0) >= p_min_bedrooms)
+      AND (p_max_bedrooms IS NULL OR COALESCE(p.bedrooms, 0) <= p_max_bedrooms)
+      AND (p_min_bathrooms IS NULL OR COALESCE(p.bathrooms, 0) >= p_min_bathrooms)
+      AND (p_amenities IS NULL OR NOT EXISTS (
+        SELECT 1 FROM unnest(p_amenities) wanted
+        WHERE NOT EXISTS (
+          SELECT 1 FROM unnest(p.amenities) have
+          WHERE have ILIKE '%' || wanted || '%'
+        )
+      ))
+  )
+  SELECT
+    (to_jsonb(m) - 'search_vector' - 'rank' - 'recent_views') || jsonb_build_object(
+      'profiles', (
+        SELECT jsonb_build_object('id', pr.id, 'full_name', pr.full_name, 'email', pr.email, 'avatar_url', pr.avatar_url)
+        FROM profiles pr
+        WHERE pr.id = m.landlord_id
+      )
+    ) AS property,
+    m.rank,
+    count(*) OVER () AS total_count
+  FROM matches m, params
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' AND params.q IS NOT NULL THEN m.rank END DESC NULLS LAST,
+    CASE WHEN p_sort = 'price-low' THEN m.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN m.price END DESC,
+    CASE WHEN p_sort = 'popular' THEN m.recent_views END DESC,
+    CASE WHEN p_sort = 'oldest' THEN m.created_at END ASC,
+    m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_properties(text, text, text, numeric, numeric, integer, integer, integer, text[], text, integer, integer) TO anon, authenticated;
+
+COMMENT ON COLUMN properties.property_type IS 'Kind of home, chosen by the landlord';
+COMMENT ON COLUMN properties.search_vector IS 'Weighted full-text document for search_properties, maintained by trigger';
+COMMENT ON FUNCTION search_properties(text, text, text, numeric, numeric, integer, integer, integer, text[], text, integer, integer) IS 'Ranked keyword search over active listings with server-side filters and pagination';
@@ -0,0 +1,282 @@
+/*
+  # Saved searches with new-listing alerts
+
+  1. New Tables
+    - `saved_searches`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `name` (text, unique per user)
+      - `filters` (jsonb, the search filters as sent to `search_properties`:
+        query, location, propertyType, minPrice, maxPrice, minBedrooms,
+        maxBedrooms, minBathrooms, amenities)
+      - `alert_frequency` (text: instant, daily, off)
+      - `last_digest_at` (timestamptz)
+    - `saved_search_matches`
+      - `id` (uuid, primary key)
+      - `saved_search_id` (uuid, foreign key to saved_searches)
+      - `property_id` (uuid, foreign key to properties)
+      - `user_id` (uuid, foreign key to profiles)
+      - `notified_at` (timestamptz, null until an alert or digest covered it)
+    - New `saved_search_match` notification type
+
+  2. Behaviour
+    - When a listing goes live, every saved search with alerts on is checked
+      against it with the same filters `search_properties` applies. Each
+      search/listing pair is recorded once, so relisting doesn't alert again.
+    - Instant searches notify straight away. Daily searches are bundled by
+      `process_saved_search_digests()` into one notification per renter,
+      which runs every morning when pg_cron is available.
+    - Landlords are never alerted about their own listings.
+
+  3. Security
+    - Enable RLS on both tables
+    - Users manage their own saved searches and can read their own matches
+    - Matches are only written by the listing trigger
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'saved_search_match';
+
+-- Create saved_searches table
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 80),
+  filters jsonb NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(filters) = 'object'),
+  alert_frequency text NOT NULL DEFAULT 'instant' CHECK (alert_frequency IN ('instant', 'daily', 'off')),
+  last_digest_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT saved_searches_unique_name UNIQUE (user_id, name)
+);
+
+-- Create saved_search_matches table
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id uuid NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  notified_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT saved_search_matches_unique_pair UNIQUE (saved_search_id, property_id)
+);
+
+-- Enable RLS
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for saved_searches
+CREATE POLICY "Users can view their own saved searches"
+  ON saved_searches
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved searches"
+  ON saved_searches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON saved_searches
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON saved_searches
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create policies for saved_search_matches
+CREATE POLICY "Users can view their own saved search matches"
+  ON saved_search_matches
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alert_frequency ON saved_searches(alert_frequency) WHERE alert_frequency <> 'off';
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_user_id ON saved_search_matches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending ON saved_search_matches(saved_search_id) WHERE notified_at IS NULL;
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Check one listing against saved filters; mirrors the filters in search_properties
+CREATE OR REPLACE FUNCTION public.property_matches_search(p_property properties, p_filters jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_query text := NULLIF(trim(p_filters ->> 'query'), '');
+  v_location text := NULLIF(trim(p_filters ->> 'location'), '');
+BEGIN
+  IF v_query IS NOT NULL
+    AND NOT (p_property.search_vector @@ websearch_to_tsquery('english', v_query)
+      OR v_query <% (p_property.title || ' ' || COALESCE(p_property.location, ''))) THEN
+    RETURN false;
+  END IF;
+
+  RETURN (v_location IS NULL OR p_property.location ILIKE '%' || v_location || '%')
+    AND (p_filters ->> 'propertyType' IS NULL OR p_property.property_type = p_filters ->> 'propertyType')
+    AND (p_filters ->> 'minPrice' IS NULL OR p_property.price >= (p_filters ->> 'minPrice')::numeric)
+    AND (p_filters ->> 'maxPrice' IS NULL OR p_property.price <= (p_filters ->> 'maxPrice')::numeric)
+    AND (p_filters ->> 'minBedrooms' IS NULL OR COALESCE(p_property.bedrooms, 0) >= (p_filters ->> 'minBedrooms')::integer)
+    AND (p_filters ->> 'maxBedrooms' IS NULL OR COALESCE(p_property.bedrooms, 0) <= (p_filters ->> 'maxBedrooms')::integer)
+    AND (p_filters ->> 'minBathrooms' IS NULL OR COALESCE(p_property.bathrooms, 0) >= (p_filters ->> 'minBathrooms')::integer)
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(COALESCE(p_filters -> 'amenities', '[]')) wanted
+      WHERE NOT EXISTS (
+        SELECT 1 FROM unnest(p_property.amenities) have
+        WHERE have ILIKE '%' || wanted || '%'
+      )
+    );
+END;
+$$;
+
+-- Record matches for a listing that just went live and alert instant searches
+CREATE OR REPLACE FUNCTION public.match_saved_searches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search saved_searches;
+  v_match_id uuid;
+BEGIN
+  IF NEW.status <> 'active' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status = 'active' THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  FOR v_search IN
+    SELECT * FROM saved_searches
+    WHERE alert_frequency <> 'off'
+    AND user_id <> NEW.landlord_id
+  LOOP
+    CONTINUE WHEN NOT public.property_matches_search(NEW, v_search.filters);
+
+    INSERT INTO saved_search_matches (saved_search_id, property_id, user_id)
+    VALUES (v_search.id, NEW.id, v_search.user_id)
+    ON CONFLICT (saved_search_id, property_id) DO NOTHING
+    RETURNING id INTO v_match_id;
+
+    CONTINUE WHEN v_match_id IS NULL OR v_search.alert_frequency <> 'instant';
+
+    INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+    VALUES (
+      v_search.user_id,
+      'saved_search_match',
+      'New Listing Matches "' || v_search.name || '"',
+      NEW.title || COALESCE(' in ' || NEW.location, '') || ' is now available',
+      '/property/' || NEW.id,
+      jsonb_build_object(
+        'saved_search_id', v_search.id,
+        'property_id', NEW.id
+      )
+    );
+
+    UPDATE saved_search_matches SET notified_at = now() WHERE id = v_match_id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS match_saved_searches ON properties;
+CREATE TRIGGER match_saved_searches
+  AFTER INSERT OR UPDATE OF status ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.match_saved_searches();
+
+-- Bundle each renter's unsent daily matches into one notification
+CREATE OR REPLACE FUNCTION public.process_saved_search_digests()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_count integer := 0;
+BEGIN
+  FOR v_row IN
+    SELECT
+      m.user_id,
+      count(DISTINCT m.property_id) AS listings,
+      array_agg(DISTINCT s.name ORDER BY s.name) AS search_names,
+      array_agg(DISTINCT s.id) AS search_ids,
+      array_agg(DISTINCT m.property_id) AS property_ids
+    FROM saved_search_matches m
+    JOIN saved_searches s ON s.id = m.saved_search_id
+    JOIN properties p ON p.id = m.property_id
+    WHERE m.notified_at IS NULL
+    AND s.alert_frequency = 'daily'
+    AND p.status = 'active'
+    GROUP BY m.user_id
+  LOOP
+    INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+    VALUES (
+      v_row.user_id,
+      'saved_search_match',
+      'Your Daily Listing Digest',
+      v_row.listings || CASE WHEN v_row.listings = 1 THEN ' new listing matches ' ELSE ' new listings match ' END ||
+        CASE WHEN array_length(v_row.search_names, 1) = 1
+          THEN '"' || v_row.search_names[1] || '"'
+          ELSE array_length(v_row.search_names, 1) || ' of your saved searches'
+        END,
+      '/saved-properties?tab=searches',
+      jsonb_build_object(
+        'saved_search_ids', to_jsonb(v_row.search_ids),
+        'property_ids', to_jsonb(v_row.property_ids)
+      )
+    );
+
+    UPDATE saved_search_matches m
+    SET notified_at = now()
+    FROM saved_searches s
+    WHERE s.id = m.saved_search_id
+    AND m.user_id = v_row.user_id
+    AND m.notified_at IS NULL
+    AND s.alert_frequency = 'daily';
+
+    UPDATE saved_searches SET last_digest_at = now() WHERE id = ANY (v_row.search_ids);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.match_saved_searches() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.process_saved_search_digests() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.process_saved_search_digests() TO service_role;
+
+-- Send digests at 8am Lagos time where pg_cron is enabled; otherwise call process_saved_search_digests() from a scheduled job
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-saved-search-digests', '0 7 * * *', 'SELECT public.process_saved_search_digests()');
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE saved_searches IS 'Search filters renters saved to their account, with alert preferences';
+COMMENT ON TABLE saved_search_matches IS 'Listings that went live matching a saved search, recorded once per search';
+COMMENT ON FUNCTION property_matches_search(properties, jsonb) IS 'Whether a listing satisfies a saved search''s filters';
+COMMENT ON FUNCTION process_saved_search_digests() IS 'Send one daily digest notification per renter for unsent saved search matches';
@@ -0,0 +1,265 @@
+/*
+  # Structured, geocoded property locations
+
+  1. Schema Changes
+    - `properties.address_line`, `area`, `lga`, `state` (text): structured
+      address entered through the address picker. `location` stays as the
+      free-text display label and is filled from these when left blank
+    - `properties.latitude`, `longitude` (double precision, range checked)
+    - `properties.geocode_source` (text: the provider that placed the pin, or
+      'manual' when the landlord dragged it) and `geocoded_at`
+    - `distance_km(lat1, lng1, lat2, lng2)`: great-circle distance helper
+
+  2. Behaviour
+    - Area, LGA and state are added to the search document and to the
+      location filter, so "Eti-Osa" finds listings labelled "Lekki"
+    - `search_properties` gains a bounding box (`p_min_lat` .. `p_max_lng`)
+      for the map view and a radius filter (`p_near_lat`, `p_near_lng`,
+      `p_radius_km`) for "near me". Each hit carries `distance_km` when a
+      point is given, and results can be sorted by 'distance'
+    - Saved searches understand the same `bounds` and `near` filters
+    - Existing listings have no coordinates until their landlord saves an
+      address; they stay in keyword and filter results but not on the map
+      or in radius searches
+
+  3. Security
+    - No new policies: the columns live on `properties` and follow its RLS
+*/
+
+-- Add structured address and coordinates
+ALTER TABLE properties
+  ADD COLUMN IF NOT EXISTS address_line text,
+  ADD COLUMN IF NOT EXISTS area text,
+  ADD COLUMN IF NOT EXISTS lga text,
+  ADD COLUMN IF NOT EXISTS state text,
+  ADD COLUMN IF NOT EXISTS latitude double precision CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS longitude double precision CHECK (longitude BETWEEN -180 AND 180),
+  ADD COLUMN IF NOT EXISTS geocode_source text,
+  ADD COLUMN IF NOT EXISTS geocoded_at timestamptz;
+
+ALTER TABLE properties DROP CONSTRAINT IF EXISTS properties_coordinates_pair;
+ALTER TABLE properties ADD CONSTRAINT properties_coordinates_pair
+  CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_properties_coordinates
+  ON properties(latitude, longitude) WHERE latitude IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_properties_state_lga ON properties(state, lga);
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(
+  p_lat1 double precision,
+  p_lng1 double precision,
+  p_lat2 double precision,
+  p_lng2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$;
+
+-- Include the structured address in the search document
+CREATE OR REPLACE FUNCTION public.properties_search_vector_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', concat_ws(' ', NEW.location, NEW.area, NEW.lga, NEW.state)), 'B') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.amenities, ' '), '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'D');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS properties_search_vector_update ON properties;
+CREATE TRIGGER properties_search_vector_update
+  BEFORE INSERT OR UPDATE OF title, location, area, lga, state, amenities, description ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.properties_search_vector_update();
+
+-- Match the location filter against the label and the structured address
+CREATE OR REPLACE FUNCTION public.property_location_matches(p_property properties, p_location text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(trim(p_location), '') IS NULL
+    OR concat_ws(' ', p_property.location, p_property.area, p_property.lga, p_property.state)
+      ILIKE '%' || trim(p_location) || '%';
+$$;
+
+-- Replace search_properties with the map and radius parameters
+DROP FUNCTION IF EXISTS public.search_properties(text, text, text, numeric, numeric, integer, integer, integer, text[], text, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.search_properties(
+  p_query text DEFAULT NULL,
+  p_location text DEFAULT NULL,
+  p_property_type text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_bedrooms integer DEFAULT NULL,
+  p_max_bedrooms integer DEFAULT NULL,
+  p_min_bathrooms integer DEFAULT NULL,
+  p_amenities text[] DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0,
+  p_min_lat double precision DEFAULT NULL,
+  p_min_lng double precision DEFAULT NULL,
+  p_max_lat double precision DEFAULT NULL,
+  p_max_lng double precision DEFAULT NULL,
+  p_near_lat double precision DEFAULT NULL,
+  p_near_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS TABLE (property jsonb, rank real, total_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(p_query), '') AS q,
+      CASE WHEN NULLIF(trim(p_query), '') IS NULL THEN NULL
+        ELSE websearch_to_tsquery('english', p_query) END AS tsq,
+      (p_near_lat IS NOT NULL AND p_near_lng IS NOT NULL) AS has_point
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      CASE WHEN params.q IS NULL THEN 0::real
+        ELSE ts_rank_cd(p.search_vector, params.tsq, 32)
+          + word_similarity(params.q, p.title || ' ' || COALESCE(p.location, '')) END AS rank,
+      COALESCE((
+        SELECT sum(v.count)
+        FROM property_views v
+        WHERE v.property_id = p.id AND v.view_date > CURRENT_DATE - 30
+      ), 0) AS recent_views,
+      CASE WHEN params.has_point AND p.latitude IS NOT NULL
+        THEN public.distance_km(p_near_lat, p_near_lng, p.latitude, p.longitude) END AS distance
+    FROM properties p, params
+    WHERE p.status = 'active'
+      AND (params.q IS NULL
+        OR p.search_vector @@ params.tsq
+        OR params.q <% (p.title || ' ' || COALESCE(p.location, '')))
+      AND public.property_location_matches(p, p_location)
+      AND (p_property_type IS NULL OR p.property_type = p_property_type)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (p_min_bedrooms IS NULL OR COALESCE(p.bedrooms, 0) >= p_min_bedrooms)
+      AND (p_max_bedrooms IS NULL OR COALESCE(p.bedrooms, 0) <= p_max_bedrooms)
+      AND (p_min_bathrooms IS NULL OR COALESCE(p.bathrooms, 0) >= p_min_bathrooms)
+      AND (p_amenities IS NULL OR NOT EXISTS (
+        SELECT 1 FROM unnest(p_amenities) wanted
+        WHERE NOT EXISTS (
+          SELECT 1 FROM unnest(p.amenities) have
+          WHERE have ILIKE '%' || wanted || '%'
+        )
+      ))
+      AND (p_min_lat IS NULL OR p.latitude >= p_min_lat)
+      AND (p_max_lat IS NULL OR p.latitude <= p_max_lat)
+      AND (p_min_lng IS NULL OR p.longitude >= p_min_lng)
+      AND (p_max_lng IS NULL OR p.longitude <= p_max_lng)
+      -- Cheap box around the point first so the index does the work, then the exact distance
+      AND (p_radius_km IS NULL OR NOT params.has_point OR (
+        p.latitude BETWEEN p_near_lat - p_radius_km / 111.0 AND p_near_lat + p_radius_km / 111.0
+        AND p.longitude BETWEEN p_near_lng - p_radius_km / (111.0 * GREATEST(cos(radians(p_near_lat)), 0.01))
+          AND p_near_lng + p_radius_km / (111.0 * GREATEST(cos(radians(p_near_lat)), 0.01))
+        AND public.distance_km(p_near_lat, p_near_lng, p.latitude, p.longitude) <= p_radius_km
+      ))
+  )
+  SELECT
+    (to_jsonb(m) - 'search_vector' - 'rank' - 'recent_views' - 'distance') || jsonb_build_object(
+      'profiles', (
+        SELECT jsonb_build_object('id', pr.id, 'full_name', pr.full_name, 'email', pr.email, 'avatar_url', pr.avatar_url)
+        FROM profiles pr
+        WHERE pr.id = m.landlord_id
+      ),
+      'distance_km', round(m.distance::numeric, 1)
+    ) AS property,
+    m.rank,
+    count(*) OVER () AS total_count
+  FROM matches m, params
+  ORDER BY
+    CASE WHEN p_sort = 'distance' THEN m.distance END ASC NULLS LAST,
+    CASE WHEN p_sort = 'relevance' AND params.q IS NOT NULL THEN m.rank END DESC NULLS LAST,
+    CASE WHEN p_sort = 'price-low' THEN m.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN m.price END DESC,
+    CASE WHEN p_sort = 'popular' THEN m.recent_views END DESC,
+    CASE WHEN p_sort = 'oldest' THEN m.created_at END ASC,
+    m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- Saved searches follow the same location, map area and radius rules
+CREATE OR REPLACE FUNCTION public.property_matches_search(p_property properties, p_filters jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_query text := NULLIF(trim(p_filters ->> 'query'), '');
+  v_bounds jsonb := p_filters -> 'bounds';
+  v_near jsonb := p_filters -> 'near';
+BEGIN
+  IF v_query IS NOT NULL
+    AND NOT (p_property.search_vector @@ websearch_to_tsquery('english', v_query)
+      OR v_query <% (p_property.title || ' ' || COALESCE(p_property.location, ''))) THEN
+    RETURN false;
+  END IF;
+
+  IF v_bounds IS NOT NULL AND NOT (
+    p_property.latitude BETWEEN (v_bounds ->> 'south')::double precision AND (v_bounds ->> 'north')::double precision
+    AND p_property.longitude BETWEEN (v_bounds ->> 'west')::double precision AND (v_bounds ->> 'east')::double precision
+  ) IS TRUE THEN
+    RETURN false;
+  END IF;
+
+  IF v_near IS NOT NULL AND NOT (public.distance_km(
+    (v_near ->> 'latitude')::double precision,
+    (v_near ->> 'longitude')::double precision,
+    p_property.latitude,
+    p_property.longitude
+  ) <= (v_near ->> 'radiusKm')::double precision) IS TRUE THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.property_location_matches(p_property, p_filters ->> 'location')
+    AND (p_filters ->> 'propertyType' IS NULL OR p_property.property_type = p_filters ->> 'propertyType')
+    AND (p_filters ->> 'minPrice' IS NULL OR p_property.price >= (p_filters ->> 'minPrice')::numeric)
+    AND (p_filters ->> 'maxPrice' IS NULL OR p_property.price <= (p_filters ->> 'maxPrice')::numeric)
+    AND (p_filters ->> 'minBedrooms' IS NULL OR COALESCE(p_property.bedrooms, 0) >= (p_filters ->> 'minBedrooms')::integer)
+    AND (p_filters ->> 'maxBedrooms' IS NULL OR COALESCE(p_property.bedrooms, 0) <= (p_filters ->> 'maxBedrooms')::integer)
+    AND (p_filters ->> 'minBathrooms' IS NULL OR COALESCE(p_property.bathrooms, 0) >= (p_filters ->> 'minBathrooms')::integer)
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(COALESCE(p_filters -> 'amenities', '[]')) wanted
+      WHERE NOT EXISTS (
+        SELECT 1 FROM unnest(p_property.amenities) have
+        WHERE have ILIKE '%' || wanted || '%'
+      )
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_properties(
+  text, text, text, numeric, numeric, integer, integer, integer, text[], text, integer, integer,
+  double precision, double precision, double precision, double precision, double precision, double precision, double precision
+) TO anon, authenticated;
+
+COMMENT ON COLUMN properties.state IS 'Nigerian state from the address picker';
+COMMENT ON COLUMN properties.lga IS 'Local government area from the address picker';
+COMMENT ON COLUMN properties.geocode_source IS 'Provider that placed the map pin, or manual when the landlord moved it';
+COMMENT ON FUNCTION search_properties(
+  text, text, text, numeric, numeric, integer, integer, integer, text[], text, integer, integer,
+  double precision, double precision, double precision, double precision, double precision, double precision, double precision
+) IS 'Ranked keyword search over active listings with server-side filters, map bounds, radius and pagination';
@@ -0,0 +1,361 @@
+/*
+  # Listing abuse reports
+
+  1. New Tables
+    - `property_reports`
+      - `id` (uuid, primary key)
+      - `property_id` (uuid, the reported listing)
+      - `reporter_id` (uuid, the user who reported it)
+      - `landlord_id` (uuid, copied from the listing so offenders can be counted)
+      - `reason` (text: scam, duplicate, fake_photos, misleading_price,
+        wrong_location, unavailable, offensive, other)
+      - `details` (text, what the reporter saw)
+      - `evidence_paths` (text[], objects in the private `report-evidence` bucket)
+      - `status` (text: open, resolved, dismissed)
+      - `resolution_note`, `resolved_by`, `resolved_at`
+      - `listing_suspended` (boolean, whether resolving it suspended the listing)
+
+  2. Schema Changes
+    - Listings can be `suspended`. Only admins move a listing into or out of
+      that status; suspended listings drop out of search like any non-active one
+    - New `listing_report` notification type
+
+  3. Behaviour
+    - A user can have one open report per listing and cannot report their own
+    - `resolve_property_report` (admin) resolves or dismisses a report, and
+      can suspend the listing. Suspending resolves every other open report on
+      the listing too. Reporters hear the outcome; the landlord is told when a
+      listing is suspended
+    - `get_reported_landlords` (admin) counts reports per landlord; upheld
+      reports mark repeat offenders in user management
+
+  4. Security
+    - Enable RLS on `property_reports`
+    - Reporters file and see their own reports; admins see and update all
+    - Private `report-evidence` bucket readable by the uploader and admins
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'listing_report';
+
+-- Allow suspended listings
+ALTER TABLE properties DROP CONSTRAINT IF EXISTS properties_status_check;
+ALTER TABLE properties ADD CONSTRAINT properties_status_check
+  CHECK (status IN ('pending', 'active', 'rented', 'inactive', 'maintenance', 'archived', 'suspended'));
+
+-- Only admins suspend or reinstate; the other transitions are unchanged
+CREATE OR REPLACE FUNCTION validate_property_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.status = 'suspended' OR OLD.status = 'suspended')
+       AND NOT public.current_user_has_role('admin') THEN
+        RAISE EXCEPTION 'Only an admin can suspend or reinstate a listing';
+    END IF;
+
+    -- Define valid status transitions
+    IF NEW.status = 'suspended' THEN
+        NULL;
+    ELSIF (OLD.status = 'suspended' AND NEW.status NOT IN ('active', 'inactive', 'archived')) OR
+       (OLD.status = 'pending' AND NEW.status NOT IN ('active', 'inactive')) OR
+       (OLD.status = 'active' AND NEW.status NOT IN ('rented', 'inactive', 'maintenance', 'archived')) OR
+       (OLD.status = 'rented' AND NEW.status NOT IN ('active', 'maintenance', 'archived')) OR
+       (OLD.status = 'inactive' AND NEW.status NOT IN ('active', 'archived')) OR
+       (OLD.status = 'maintenance' AND NEW.status NOT IN ('active', 'inactive', 'archived')) OR
+       (OLD.status = 'archived' AND NEW.status NOT IN ('active'))
+    THEN
+        RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+    END IF;
+
+    -- Insert into status history
+    INSERT INTO property_status_history (
+        property_id,
+        old_status,
+        new_status,
+        changed_by,
+        reason
+    ) VALUES (
+        NEW.id,
+        OLD.status,
+        NEW.status,
+        auth.uid(),
+        CASE
+            WHEN NEW.status = 'active' AND OLD.status = 'suspended' THEN 'Property reinstated'
+            WHEN NEW.status = 'active' THEN 'Property activated'
+            WHEN NEW.status = 'rented' THEN 'Property rented out'
+            WHEN NEW.status = 'inactive' THEN 'Property deactivated'
+            WHEN NEW.status = 'maintenance' THEN 'Property under maintenance'
+            WHEN NEW.status = 'archived' THEN 'Property archived'
+            WHEN NEW.status = 'suspended' THEN 'Property suspended after a report'
+            ELSE 'Status updated'
+        END
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create property_reports table
+CREATE TABLE IF NOT EXISTS property_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  property_id uuid NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  landlord_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('scam', 'duplicate', 'fake_photos', 'misleading_price', 'wrong_location', 'unavailable', 'offensive', 'other')),
+  details text NOT NULL DEFAULT '' CHECK (length(details) <= 2000),
+  evidence_paths text[] NOT NULL DEFAULT '{}' CHECK (cardinality(evidence_paths) <= 5),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolution_note text,
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  listing_suspended boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  -- "Other" needs an explanation to be actionable
+  CONSTRAINT property_reports_other_has_details CHECK (reason <> 'other' OR length(trim(details)) > 0)
+);
+
+-- Enable RLS
+ALTER TABLE property_reports ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can file reports"
+  ON property_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (reporter_id = auth.uid());
+
+CREATE POLICY "Users can view their own reports"
+  ON property_reports
+  FOR SELECT
+  TO authenticated
+  USING (reporter_id = auth.uid());
+
+CREATE POLICY "Admins can view all reports"
+  ON property_reports
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+CREATE POLICY "Admins can update reports"
+  ON property_reports
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_has_role('admin'))
+  WITH CHECK (public.current_user_has_role('admin'));
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_property_reports_status ON property_reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_property_reports_property_id ON property_reports(property_id);
+CREATE INDEX IF NOT EXISTS idx_property_reports_landlord_id ON property_reports(landlord_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_property_reports_one_open_per_reporter
+  ON property_reports(property_id, reporter_id) WHERE status = 'open';
+
+CREATE TRIGGER update_property_reports_updated_at
+  BEFORE UPDATE ON property_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Fill in the landlord and stop people reporting their own listings
+CREATE OR REPLACE FUNCTION public.prepare_property_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT landlord_id INTO NEW.landlord_id FROM properties WHERE id = NEW.property_id;
+
+  IF NEW.landlord_id IS NULL THEN
+    RAISE EXCEPTION 'Listing not found';
+  END IF;
+
+  IF NEW.landlord_id = NEW.reporter_id THEN
+    RAISE EXCEPTION 'You cannot report your own listing';
+  END IF;
+
+  NEW.status := 'open';
+  NEW.resolution_note := NULL;
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+  NEW.listing_suspended := false;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_property_report
+  BEFORE INSERT ON property_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_property_report();
+
+-- Resolve or dismiss a report, optionally suspending the listing
+CREATE OR REPLACE FUNCTION public.resolve_property_report(
+  p_report_id uuid,
+  p_action text,
+  p_note text DEFAULT NULL,
+  p_suspend_listing boolean DEFAULT false
+)
+RETURNS property_reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report property_reports;
+  v_property properties;
+  v_other property_reports;
+  v_status text;
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve reports';
+  END IF;
+
+  IF p_action NOT IN ('resolve', 'dismiss') THEN
+    RAISE EXCEPTION 'Unknown report action: %', p_action;
+  END IF;
+
+  IF p_action = 'dismiss' AND p_suspend_listing THEN
+    RAISE EXCEPTION 'A dismissed report cannot suspend the listing';
+  END IF;
+
+  SELECT * INTO v_report FROM property_reports WHERE id = p_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+  IF v_report.status <> 'open' THEN
+    RAISE EXCEPTION 'This report has already been handled';
+  END IF;
+
+  SELECT * INTO v_property FROM properties WHERE id = v_report.property_id;
+  v_status := CASE WHEN p_action = 'resolve' THEN 'resolved' ELSE 'dismissed' END;
+
+  UPDATE property_reports
+  SET status = v_status,
+      resolution_note = NULLIF(trim(p_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      listing_suspended = p_suspend_listing
+  WHERE id = p_report_id
+  RETURNING * INTO v_report;
+
+  IF p_suspend_listing AND v_property.status <> 'suspended' THEN
+    UPDATE properties SET status = 'suspended', updated_at = now() WHERE id = v_property.id;
+
+    INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+    VALUES (
+      v_property.landlord_id,
+      'listing_report',
+      'Listing suspended',
+      format('Your listing "%s" was suspended after a report. %s', v_property.title, COALESCE(NULLIF(trim(p_note), ''), 'Contact support to appeal.')),
+      '/landlord',
+      jsonb_build_object('property_id', v_property.id, 'report_id', v_report.id, 'reason', v_report.reason)
+    );
+  END IF;
+
+  -- Reports are handled per listing: one suspension settles every open report on it
+  IF p_suspend_listing THEN
+    FOR v_other IN
+      UPDATE property_reports
+      SET status = 'resolved',
+          resolution_note = NULLIF(trim(p_note), ''),
+          resolved_by = auth.uid(),
+          resolved_at = now(),
+          listing_suspended = true
+      WHERE property_id = v_report.property_id AND status = 'open'
+      RETURNING *
+    LOOP
+      INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+      VALUES (
+        v_other.reporter_id,
+        'listing_report',
+        'Thanks for your report',
+        format('We reviewed "%s" and took it down.', v_property.title),
+        NULL,
+        jsonb_build_object('property_id', v_property.id, 'report_id', v_other.id)
+      );
+    END LOOP;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+  VALUES (
+    v_report.reporter_id,
+    'listing_report',
+    'Thanks for your report',
+    CASE
+      WHEN p_suspend_listing THEN format('We reviewed "%s" and took it down.', v_property.title)
+      WHEN v_status = 'resolved' THEN format('We reviewed "%s" and acted on your report.', v_property.title)
+      ELSE format('We reviewed "%s" and did not find a problem.', v_property.title)
+    END,
+    NULL,
+    jsonb_build_object('property_id', v_property.id, 'report_id', v_report.id)
+  );
+
+  RETURN v_report;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_property_report(uuid, text, text, boolean) TO authenticated;
+
+-- Report counts per landlord, most upheld first
+CREATE OR REPLACE FUNCTION public.get_reported_landlords()
+RETURNS TABLE (
+  landlord_id uuid,
+  total_reports bigint,
+  open_reports bigint,
+  upheld_reports bigint,
+  reported_listings bigint,
+  suspended_listings bigint,
+  last_reported_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can view report statistics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.landlord_id,
+    count(*),
+    count(*) FILTER (WHERE r.status = 'open'),
+    count(*) FILTER (WHERE r.status = 'resolved'),
+    count(DISTINCT r.property_id),
+    count(DISTINCT r.property_id) FILTER (WHERE r.listing_suspended),
+    max(r.created_at)
+  FROM property_reports r
+  GROUP BY r.landlord_id
+  ORDER BY count(*) FILTER (WHERE r.status = 'resolved') DESC, max(r.created_at) DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_reported_landlords() TO authenticated;
+
+-- Private bucket for report evidence, stored under the reporter's user id
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('report-evidence', 'report-evidence', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload report evidence"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'report-evidence' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Reporters and admins can view report evidence"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'report-evidence' AND (
+    (storage.foldername(name))[1] = auth.uid()::text OR
+    public.current_user_has_role('admin')
+  )
+);
+
+COMMENT ON TABLE property_reports IS 'Abuse reports filed against listings, worked through by admins';
+COMMENT ON COLUMN property_reports.landlord_id IS 'Listing owner at the time of the report, used to spot repeat offenders';
+COMMENT ON FUNCTION resolve_property_report(uuid, text, text, boolean) IS 'Admin: resolve or dismiss a report and optionally suspend the listing';
+COMMENT ON FUNCTION get_reported_landlords() IS 'Admin: report counts per landlord for spotting repeat offenders';
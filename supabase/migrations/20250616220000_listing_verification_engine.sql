@@ -0,0 +1,510 @@
+/*
+  # Listing verification engine
+
+  1. New Tables
+    - `verification_rule_sets`
+      - `version` (integer, primary key, increases with every published change)
+      - `rules` (jsonb, settings per rule: `enabled`, `penalty` and rule parameters)
+      - `notes` (text, why the rules changed)
+      - `created_by` (uuid, the admin who published them)
+      - `created_at` (timestamptz)
+    - `property_photo_fingerprints`
+      - `photo_url` (text, primary key, the uploaded image)
+      - `sha256` (text, hash of the original file)
+      - `uploaded_by` (uuid)
+      - `created_at` (timestamptz)
+
+  2. Schema Changes
+    - `property_reviews` gains `rule_set_version` and `verification_checks`
+      (the per-rule results). `admin_id` is optional and a new
+      `automated_check` action records reviews written by the engine
+
+  3. Behaviour
+    - `evaluate_listing` scores a listing against the latest rule set:
+      - `duplicate_photos`: photos whose file (or URL) is used on another
+        landlord's listing
+      - `price_outlier`: rent far below or above the median of similar live
+        listings in the same area, falling back to the LGA
+      - `missing_ownership_documents`: fewer `house_documents` than required
+      - `new_landlord_account`: landlord signed up recently
+      - `incomplete_listing`: too few photos, a thin description or missing
+        bedrooms, bathrooms or location
+      The score starts at 100 and each failed rule subtracts its penalty
+    - `listing_quality_score` now returns the engine score, so auto-approval
+      uses the same rules as the review queue
+    - Submitting a listing (creating it, or editing it while it is pending)
+      records an `automated_check` review with the score and concerns
+    - `publish_verification_rules` (admin) validates and publishes a new rule
+      set version; `rerun_listing_verification` (admin) re-checks a listing
+
+  4. Security
+    - Enable RLS on both tables
+    - Admins read rule sets; they are only written through
+      `publish_verification_rules`
+    - Uploaders record and read their own photo fingerprints; the engine
+      compares them across listings
+    - The rule lookup, scoring and recording helpers run as definer and are
+      not executable by clients
+*/
+
+-- Create verification_rule_sets table
+CREATE TABLE IF NOT EXISTS verification_rule_sets (
+  version integer PRIMARY KEY CHECK (version > 0),
+  rules jsonb NOT NULL,
+  notes text CHECK (char_length(notes) <= 500),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create property_photo_fingerprints table
+CREATE TABLE IF NOT EXISTS property_photo_fingerprints (
+  photo_url text PRIMARY KEY,
+  sha256 text NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  uploaded_by uuid NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_photo_fingerprints_sha256 ON property_photo_fingerprints(sha256);
+
+-- Engine reviews have no admin
+ALTER TABLE property_reviews ALTER COLUMN admin_id DROP NOT NULL;
+ALTER TABLE property_reviews DROP CONSTRAINT IF EXISTS property_reviews_action_check;
+ALTER TABLE property_reviews ADD CONSTRAINT property_reviews_action_check
+  CHECK (action IN ('approved', 'rejected', 'flagged', 'requested_changes', 'automated_check'));
+ALTER TABLE property_reviews ADD CONSTRAINT property_reviews_admin_check
+  CHECK (action = 'automated_check' OR admin_id IS NOT NULL);
+
+ALTER TABLE property_reviews
+  ADD COLUMN IF NOT EXISTS rule_set_version integer,
+  ADD COLUMN IF NOT EXISTS verification_checks jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_property_reviews_automated
+  ON property_reviews(property_id, created_at DESC)
+  WHERE action = 'automated_check';
+
+-- Seed the first rule set
+INSERT INTO verification_rule_sets (version, rules, notes) VALUES (1, '{
+  "duplicate_photos": { "enabled": true, "penalty": 35, "include_same_landlord": false },
+  "price_outlier": { "enabled": true, "penalty": 20, "min_comparables": 5, "low_ratio": 0.4, "high_ratio": 2.5 },
+  "missing_ownership_documents": { "enabled": true, "penalty": 25, "min_documents": 1 },
+  "new_landlord_account": { "enabled": true, "penalty": 10, "min_account_age_days": 30 },
+  "incomplete_listing": { "enabled": true, "penalty": 15, "min_photos": 3, "min_description_length": 50 }
+}', 'Initial rules')
+ON CONFLICT (version) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE verification_rule_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_photo_fingerprints ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for verification_rule_sets
+CREATE POLICY "Admins can view verification rule sets"
+  ON verification_rule_sets
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+-- Create policies for property_photo_fingerprints
+CREATE POLICY "Users can record fingerprints for their uploads"
+  ON property_photo_fingerprints
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (uploaded_by = auth.uid());
+
+CREATE POLICY "Users can view their own photo fingerprints"
+  ON property_photo_fingerprints
+  FOR SELECT
+  TO authenticated
+  USING (uploaded_by = auth.uid() OR public.current_user_has_role('admin'));
+
+-- Every photo on a listing, cover first
+CREATE OR REPLACE FUNCTION public.listing_photo_urls(p_property properties)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT url), '{}')
+  FROM unnest(array_prepend(p_property.photo_url, COALESCE(p_property.photo_urls, '{}'))) AS url
+  WHERE url IS NOT NULL AND url <> '';
+$$;
+
+-- The rule set currently in force
+CREATE OR REPLACE FUNCTION public.current_verification_rules()
+RETURNS verification_rule_sets
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM verification_rule_sets ORDER BY version DESC LIMIT 1;
+$$;
+
+-- Score a listing against the current rule set
+CREATE OR REPLACE FUNCTION public.evaluate_listing(p_property properties)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule_set verification_rule_sets := public.current_verification_rules();
+  v_rule jsonb;
+  v_checks jsonb := '[]'::jsonb;
+  v_score integer := 100;
+  v_photos text[] := public.listing_photo_urls(p_property);
+  v_count integer;
+  v_median numeric;
+  v_place text;
+  v_landlord_since timestamptz;
+  v_missing text[];
+  v_message text;
+BEGIN
+  -- Duplicate photos
+  v_rule := v_rule_set.rules -> 'duplicate_photos';
+  IF (v_rule ->> 'enabled')::boolean THEN
+    SELECT count(DISTINCT COALESCE(f.sha256, own.url)) INTO v_count
+    FROM unnest(v_photos) AS own(url)
+    LEFT JOIN property_photo_fingerprints f ON f.photo_url = own.url
+    WHERE EXISTS (
+      SELECT 1
+      FROM properties other
+      CROSS JOIN LATERAL unnest(public.listing_photo_urls(other)) AS theirs(url)
+      LEFT JOIN property_photo_fingerprints g ON g.photo_url = theirs.url
+      WHERE other.id <> p_property.id
+        AND (COALESCE((v_rule ->> 'include_same_landlord')::boolean, false) OR other.landlord_id <> p_property.landlord_id)
+        AND (theirs.url = own.url OR g.sha256 = f.sha256)
+    );
+
+    v_message := CASE WHEN v_count > 0 THEN
+      format('%s %s also used on another listing', v_count, CASE WHEN v_count = 1 THEN 'photo is' ELSE 'photos are' END)
+    END;
+    v_checks := v_checks || jsonb_build_object(
+      'rule', 'duplicate_photos', 'passed', v_count = 0,
+      'penalty', CASE WHEN v_count > 0 THEN (v_rule ->> 'penalty')::integer ELSE 0 END,
+      'message', v_message
+    );
+  END IF;
+
+  -- Price outliers against similar live listings nearby
+  v_rule := v_rule_set.rules -> 'price_outlier';
+  IF (v_rule ->> 'enabled')::boolean THEN
+    v_message := NULL;
+    v_count := 0;
+
+    IF p_property.area IS NOT NULL THEN
+      SELECT count(*), percentile_cont(0.5) WITHIN GROUP (ORDER BY other.price)
+      INTO v_count, v_median
+      FROM properties other
+      WHERE other.id <> p_property.id
+        AND other.status IN ('active', 'rented')
+        AND lower(other.area) = lower(p_property.area)
+        AND lower(other.state) IS NOT DISTINCT FROM lower(p_property.state)
+        AND other.bedrooms IS NOT DISTINCT FROM p_property.bedrooms;
+      v_place := p_property.area;
+    END IF;
+
+    IF v_count < (v_rule ->> 'min_comparables')::integer AND p_property.lga IS NOT NULL THEN
+      SELECT count(*), percentile_cont(0.5) WITHIN GROUP (ORDER BY other.price)
+      INTO v_count, v_median
+      FROM properties other
+      WHERE other.id <> p_property.id
+        AND other.status IN ('active', 'rented')
+        AND lower(other.lga) = lower(p_property.lga)
+        AND lower(other.state) IS NOT DISTINCT FROM lower(p_property.state)
+        AND other.bedrooms IS NOT DISTINCT FROM p_property.bedrooms;
+      v_place := p_property.lga;
+    END IF;
+
+    IF v_count >= (v_rule ->> 'min_comparables')::integer AND v_median > 0 THEN
+      IF p_property.price < v_median * (v_rule ->> 'low_ratio')::numeric THEN
+        v_message := format('Rent is far below similar listings in %s (median %s)', v_place, to_char(v_median, 'FM999,999,999,990'));
+      ELSIF p_property.price > v_median * (v_rule ->> 'high_ratio')::numeric THEN
+        v_message := format('Rent is far above similar listings in %s (median %s)', v_place, to_char(v_median, 'FM999,999,999,990'));
+      END IF;
+    END IF;
+
+    v_checks := v_checks || jsonb_build_object(
+      'rule', 'price_outlier', 'passed', v_message IS NULL,
+      'penalty', CASE WHEN v_message IS NOT NULL THEN (v_rule ->> 'penalty')::integer ELSE 0 END,
+      'message', v_message
+    );
+  END IF;
+
+  -- Ownership documents
+  v_rule := v_rule_set.rules -> 'missing_ownership_documents';
+  IF (v_rule ->> 'enabled')::boolean THEN
+    v_count := CASE WHEN jsonb_typeof(p_property.house_documents) = 'array'
+      THEN jsonb_array_length(p_property.house_documents) ELSE 0 END;
+    v_message := CASE WHEN v_count < (v_rule ->> 'min_documents')::integer THEN
+      CASE WHEN v_count = 0 THEN 'No ownership documents uploaded'
+        ELSE format('Only %s of %s required ownership documents uploaded', v_count, v_rule ->> 'min_documents') END
+    END;
+    v_checks := v_checks || jsonb_build_object(
+      'rule', 'missing_ownership_documents', 'passed', v_message IS NULL,
+      'penalty', CASE WHEN v_message IS NOT NULL THEN (v_rule ->> 'penalty')::integer ELSE 0 END,
+      'message', v_message
+    );
+  END IF;
+
+  -- Landlord account age
+  v_rule := v_rule_set.rules -> 'new_landlord_account';
+  IF (v_rule ->> 'enabled')::boolean THEN
+    SELECT created_at INTO v_landlord_since FROM profiles WHERE id = p_property.landlord_id;
+    v_count := GREATEST(0, EXTRACT(DAY FROM now() - COALESCE(v_landlord_since, now()))::integer);
+    v_message := CASE WHEN v_count < (v_rule ->> 'min_account_age_days')::integer THEN
+      format('Landlord account is %s %s old', v_count, CASE WHEN v_count = 1 THEN 'day' ELSE 'days' END)
+    END;
+    v_checks := v_checks || jsonb_build_object(
+      'rule', 'new_landlord_account', 'passed', v_message IS NULL,
+      'penalty', CASE WHEN v_message IS NOT NULL THEN (v_rule ->> 'penalty')::integer ELSE 0 END,
+      'message', v_message
+    );
+  END IF;
+
+  -- Completeness
+  v_rule := v_rule_set.rules -> 'incomplete_listing';
+  IF (v_rule ->> 'enabled')::boolean THEN
+    v_missing := ARRAY[]::text[];
+    IF COALESCE(array_length(v_photos, 1), 0) < (v_rule ->> 'min_photos')::integer THEN
+      v_missing := v_missing || format('at least %s photos', v_rule ->> 'min_photos');
+    END IF;
+    IF char_length(COALESCE(p_property.description, '')) < (v_rule ->> 'min_description_length')::integer THEN
+      v_missing := v_missing || 'a fuller description'::text;
+    END IF;
+    IF COALESCE(p_property.bedrooms, 0) = 0 OR COALESCE(p_property.bathrooms, 0) = 0 THEN
+      v_missing := v_missing || 'bedrooms and bathrooms'::text;
+    END IF;
+    IF COALESCE(p_property.location, '') = '' AND p_property.state IS NULL THEN
+      v_missing := v_missing || 'a location'::text;
+    END IF;
+
+    v_message := CASE WHEN array_length(v_missing, 1) > 0 THEN
+      'Listing is missing ' || array_to_string(v_missing, ', ')
+    END;
+    v_checks := v_checks || jsonb_build_object(
+      'rule', 'incomplete_listing', 'passed', v_message IS NULL,
+      'penalty', CASE WHEN v_message IS NOT NULL THEN (v_rule ->> 'penalty')::integer ELSE 0 END,
+      'message', v_message
+    );
+  END IF;
+
+  SELECT GREATEST(0, 100 - COALESCE(sum((c ->> 'penalty')::integer), 0)) INTO v_score
+  FROM jsonb_array_elements(v_checks) c;
+
+  RETURN jsonb_build_object(
+    'version', v_rule_set.version,
+    'score', v_score,
+    'checks', v_checks
+  );
+END;
+$$;
+
+-- Auto-approval scores listings with the verification engine
+CREATE OR REPLACE FUNCTION public.listing_quality_score(p_property properties)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (public.evaluate_listing(p_property) ->> 'score')::integer;
+$$;
+
+-- Store an engine review for a listing
+CREATE OR REPLACE FUNCTION public.record_listing_verification(p_property properties)
+RETURNS property_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb := public.evaluate_listing(p_property);
+  v_review property_reviews;
+BEGIN
+  INSERT INTO property_reviews (
+    property_id, admin_id, action, verification_score, flagged_concerns,
+    rule_set_version, verification_checks
+  ) VALUES (
+    p_property.id,
+    NULL,
+    'automated_check',
+    (v_result ->> 'score')::integer,
+    ARRAY(
+      SELECT c ->> 'message'
+      FROM jsonb_array_elements(v_result -> 'checks') c
+      WHERE NOT (c ->> 'passed')::boolean
+    ),
+    (v_result ->> 'version')::integer,
+    v_result -> 'checks'
+  )
+  RETURNING * INTO v_review;
+
+  RETURN v_review;
+END;
+$$;
+
+-- Check listings when they are submitted or edited while awaiting review
+CREATE OR REPLACE FUNCTION public.verify_submitted_listing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status = 'pending' THEN
+    PERFORM public.record_listing_verification(NEW);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS verify_submitted_listing ON properties;
+CREATE TRIGGER verify_submitted_listing
+  AFTER INSERT OR UPDATE OF status, title, description, price, bedrooms, bathrooms,
+    photo_url, photo_urls, house_documents, location, area, lga, state
+  ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.verify_submitted_listing();
+
+-- Engine reviews leave the listing status alone
+CREATE OR REPLACE FUNCTION handle_property_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.action = 'automated_check' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Update the property status based on the review action
+    UPDATE properties
+    SET
+        status = CASE
+            WHEN NEW.action = 'approved' THEN 'active'
+            WHEN NEW.action = 'rejected' THEN 'rejected'
+            WHEN NEW.action = 'flagged' THEN 'flagged'
+            WHEN NEW.action = 'requested_changes' THEN 'under_review'
+            ELSE status
+        END,
+        updated_at = NOW()
+    WHERE id = NEW.property_id;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Re-check a listing on demand (admin)
+CREATE OR REPLACE FUNCTION public.rerun_listing_verification(p_property_id uuid)
+RETURNS property_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_property properties;
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can run listing verification';
+  END IF;
+
+  SELECT * INTO v_property FROM properties WHERE id = p_property_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing not found';
+  END IF;
+
+  RETURN public.record_listing_verification(v_property);
+END;
+$$;
+
+-- Validate and publish a new rule set version (admin)
+CREATE OR REPLACE FUNCTION public.publish_verification_rules(p_rules jsonb, p_notes text DEFAULT NULL)
+RETURNS verification_rule_sets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current verification_rule_sets := public.current_verification_rules();
+  v_rules jsonb := '{}'::jsonb;
+  v_key text;
+  v_rule jsonb;
+  v_param text;
+  v_published verification_rule_sets;
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can change verification rules';
+  END IF;
+
+  IF jsonb_typeof(p_rules) <> 'object' THEN
+    RAISE EXCEPTION 'Rules must be an object keyed by rule';
+  END IF;
+
+  SELECT k INTO v_key FROM jsonb_object_keys(p_rules) k
+  WHERE NOT (v_current.rules ? k) LIMIT 1;
+  IF v_key IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown verification rule %', v_key;
+  END IF;
+
+  -- Rules left out keep their current settings; each keeps the same parameters
+  FOR v_key, v_rule IN SELECT key, value FROM jsonb_each(v_current.rules) LOOP
+    v_rule := v_rule || COALESCE(p_rules -> v_key, '{}'::jsonb);
+
+    IF jsonb_typeof(v_rule -> 'enabled') <> 'boolean' THEN
+      RAISE EXCEPTION 'Rule % needs an enabled flag', v_key;
+    END IF;
+    IF jsonb_typeof(v_rule -> 'penalty') <> 'number'
+       OR (v_rule ->> 'penalty')::numeric NOT BETWEEN 0 AND 100
+       OR (v_rule ->> 'penalty')::numeric <> trunc((v_rule ->> 'penalty')::numeric) THEN
+      RAISE EXCEPTION 'Rule % penalty must be a whole number from 0 to 100', v_key;
+    END IF;
+
+    FOR v_param IN SELECT jsonb_object_keys(v_rule) LOOP
+      IF NOT ((v_current.rules -> v_key) ? v_param) THEN
+        RAISE EXCEPTION 'Unknown setting % for rule %', v_param, v_key;
+      END IF;
+      IF jsonb_typeof(v_rule -> v_param) <> jsonb_typeof(v_current.rules -> v_key -> v_param) THEN
+        RAISE EXCEPTION 'Setting % for rule % has the wrong type', v_param, v_key;
+      END IF;
+      IF jsonb_typeof(v_rule -> v_param) = 'number' AND (v_rule ->> v_param)::numeric < 0 THEN
+        RAISE EXCEPTION 'Setting % for rule % cannot be negative', v_param, v_key;
+      END IF;
+    END LOOP;
+
+    v_rules := v_rules || jsonb_build_object(v_key, v_rule);
+  END LOOP;
+
+  IF (v_rules -> 'price_outlier' ->> 'low_ratio')::numeric >= 1
+     OR (v_rules -> 'price_outlier' ->> 'high_ratio')::numeric <= 1 THEN
+    RAISE EXCEPTION 'Price outlier ratios must be below 1 (low) and above 1 (high)';
+  END IF;
+
+  IF v_rules = v_current.rules THEN
+    RAISE EXCEPTION 'No rule changes to publish';
+  END IF;
+
+  INSERT INTO verification_rule_sets (version, rules, notes, created_by)
+  VALUES (v_current.version + 1, v_rules, NULLIF(trim(p_notes), ''), auth.uid())
+  RETURNING * INTO v_published;
+
+  RETURN v_published;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.current_verification_rules() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.evaluate_listing(properties) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.listing_quality_score(properties) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.record_listing_verification(properties) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.current_verification_rules() TO service_role;
+GRANT EXECUTE ON FUNCTION public.evaluate_listing(properties) TO service_role;
+GRANT EXECUTE ON FUNCTION public.listing_quality_score(properties) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_listing_verification(properties) TO service_role;
+GRANT EXECUTE ON FUNCTION public.rerun_listing_verification(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_verification_rules(jsonb, text) TO authenticated;
+
+COMMENT ON TABLE verification_rule_sets IS 'Versioned settings for the listing verification engine; the highest version is in force';
+COMMENT ON TABLE property_photo_fingerprints IS 'SHA-256 of each uploaded listing photo, used to spot photos reused across listings';
+COMMENT ON COLUMN property_reviews.rule_set_version IS 'Rule set version an automated check was scored with';
+COMMENT ON COLUMN property_reviews.verification_checks IS 'Per-rule results of an automated check: rule, passed, penalty, message';
+COMMENT ON FUNCTION evaluate_listing(properties) IS 'Score a listing (0-100) against the current verification rules';
+COMMENT ON FUNCTION listing_quality_score(properties) IS 'Verification engine score (0-100) used for listing auto-approval';
+COMMENT ON FUNCTION publish_verification_rules(jsonb, text) IS 'Validate rule changes and publish them as a new rule set version';
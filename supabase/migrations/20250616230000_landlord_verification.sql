@@ -0,0 +1,491 @@
+/*
+  # Landlord identity and ownership verification
+
+  1. New Tables
+    - `landlord_verifications`
+      - `id` (uuid, primary key)
+      - `landlord_id` (uuid, the landlord asking to be verified)
+      - `property_id` (uuid, optional listing the ownership documents cover)
+      - `id_document_type` (text: nin, drivers_license, international_passport, voters_card)
+      - `id_number` (text, number on the ID document)
+      - `id_document_path` (text, object in the private `verification-documents` bucket)
+      - `ownership_document_type` (text: certificate_of_occupancy, deed_of_assignment,
+        governors_consent, survey_plan, registered_conveyance, letter_of_authority)
+      - `ownership_document_paths` (text[], one to five objects in the same bucket)
+      - `notes` (text, anything the landlord wants the reviewer to know)
+      - `status` (text: pending, approved, rejected)
+      - `rejection_reason`, `reviewed_by`, `reviewed_at`
+
+  2. Schema Changes
+    - `profiles.verified_at` records when a landlord was last approved
+    - `search_properties` returns `verified_at` with each listing's landlord
+    - New `landlord_verification` notification type
+    - New `unverified_listing_limit` platform setting, off by default
+
+  3. Behaviour
+    - A landlord can have one pending submission at a time; new submissions
+      always start pending
+    - `review_landlord_verification` (admin) approves or rejects a pending
+      submission. Approving marks the landlord verified, rejecting needs a
+      reason. Either way the landlord is notified
+    - When `unverified_listing_limit` is set, unverified landlords cannot create
+      listings beyond that many non-archived ones
+
+  4. Security
+    - Enable RLS on `landlord_verifications`
+    - Landlords submit and see their own submissions; admins see all
+    - Only admins can change `profiles.verified_at`
+    - Private `verification-documents` bucket readable by the uploader and admins
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'landlord_verification';
+
+-- Track verification on the profile so listings can show a badge without a join
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS verified_at timestamptz;
+
+-- Keep landlords from marking themselves verified through their profile policy
+CREATE OR REPLACE FUNCTION public.protect_profile_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.verified_at IS DISTINCT FROM OLD.verified_at
+    AND NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only an admin can change verification status';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_verification ON profiles;
+CREATE TRIGGER protect_profile_verification
+  BEFORE UPDATE OF verified_at ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_verification();
+
+-- Create landlord_verifications table
+CREATE TABLE IF NOT EXISTS landlord_verifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  landlord_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES properties(id) ON DELETE SET NULL,
+  id_document_type text NOT NULL CHECK (id_document_type IN ('nin', 'drivers_license', 'international_passport', 'voters_card')),
+  id_number text NOT NULL CHECK (length(trim(id_number)) BETWEEN 4 AND 50),
+  id_document_path text NOT NULL,
+  ownership_document_type text NOT NULL CHECK (ownership_document_type IN (
+    'certificate_of_occupancy',
+    'deed_of_assignment',
+    'governors_consent',
+    'survey_plan',
+    'registered_conveyance',
+    'letter_of_authority'
+  )),
+  ownership_document_paths text[] NOT NULL CHECK (cardinality(ownership_document_paths) BETWEEN 1 AND 5),
+  notes text NOT NULL DEFAULT '' CHECK (length(notes) <= 1000),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  rejection_reason text,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT landlord_verifications_rejection_check
+    CHECK (status <> 'rejected' OR NULLIF(trim(rejection_reason), '') IS NOT NULL)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_landlord_verifications_status ON landlord_verifications(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_landlord_verifications_landlord_id ON landlord_verifications(landlord_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_landlord_verifications_one_pending
+  ON landlord_verifications(landlord_id) WHERE status = 'pending';
+
+CREATE TRIGGER update_landlord_verifications_updated_at
+  BEFORE UPDATE ON landlord_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- New submissions always wait for review
+CREATE OR REPLACE FUNCTION public.prepare_landlord_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.property_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM properties WHERE id = NEW.property_id AND landlord_id = NEW.landlord_id
+  ) THEN
+    RAISE EXCEPTION 'Ownership documents can only cover your own listings';
+  END IF;
+
+  NEW.id_number := trim(NEW.id_number);
+  NEW.status := 'pending';
+  NEW.rejection_reason := NULL;
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_landlord_verification
+  BEFORE INSERT ON landlord_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_landlord_verification();
+
+-- Enable RLS
+ALTER TABLE landlord_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for landlord_verifications
+CREATE POLICY "Landlords can submit verification"
+  ON landlord_verifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (landlord_id = auth.uid() AND public.current_user_has_role('landlord'));
+
+CREATE POLICY "Landlords can view their own verification"
+  ON landlord_verifications
+  FOR SELECT
+  TO authenticated
+  USING (landlord_id = auth.uid());
+
+CREATE POLICY "Admins can view all verifications"
+  ON landlord_verifications
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+-- Approve or reject a pending submission (admin)
+CREATE OR REPLACE FUNCTION public.review_landlord_verification(
+  p_verification_id uuid,
+  p_approve boolean,
+  p_reason text DEFAULT NULL
+)
+RETURNS landlord_verifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_verification landlord_verifications;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can review verifications';
+  END IF;
+
+  IF NOT p_approve AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'Give the landlord a reason for the rejection';
+  END IF;
+
+  SELECT * INTO v_verification FROM landlord_verifications WHERE id = p_verification_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Verification not found';
+  END IF;
+  IF v_verification.status <> 'pending' THEN
+    RAISE EXCEPTION 'This verification has already been reviewed';
+  END IF;
+
+  UPDATE landlord_verifications
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      rejection_reason = CASE WHEN p_approve THEN NULL ELSE v_reason END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_verification_id
+  RETURNING * INTO v_verification;
+
+  IF p_approve THEN
+    UPDATE profiles SET verified_at = now(), updated_at = now() WHERE id = v_verification.landlord_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, action_url, metadata)
+  VALUES (
+    v_verification.landlord_id,
+    'landlord_verification',
+    CASE WHEN p_approve THEN 'You are verified' ELSE 'Verification not approved' END,
+    CASE
+      WHEN p_approve THEN 'Your identity and ownership documents were approved. Your listings now show a verified badge.'
+      ELSE format('We could not verify your documents: %s You can submit new documents from your dashboard.', v_reason)
+    END,
+    '/landlord',
+    jsonb_build_object('verification_id', v_verification.id, 'status', v_verification.status)
+  );
+
+  RETURN v_verification;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_landlord_verification(uuid, boolean, text) TO authenticated;
+
+-- Private bucket for verification documents, stored under the landlord's user id
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('verification-documents', 'verification-documents', false, 10485760, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Landlords can upload verification documents"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'verification-documents' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Landlords and admins can view verification documents"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'verification-documents' AND (
+    (storage.foldername(name))[1] = auth.uid()::text OR
+    public.current_user_has_role('admin')
+  )
+);
+
+-- Listing cap for unverified landlords
+ALTER TABLE platform_settings DROP CONSTRAINT IF EXISTS platform_settings_key_check;
+ALTER TABLE platform_settings ADD CONSTRAINT platform_settings_key_check CHECK (key IN (
+  'listing_min_price',
+  'listing_max_price',
+  'listing_max_images',
+  'default_currency',
+  'auto_approve_threshold',
+  'unverified_listing_limit',
+  'notifications'
+));
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('unverified_listing_limit', 'null')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.validate_platform_setting(p_key text, p_value jsonb)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_type text;
+BEGIN
+  CASE p_key
+    WHEN 'listing_min_price', 'listing_max_price' THEN
+      IF jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric <= 0 THEN
+        RAISE EXCEPTION '% must be a positive number', p_key;
+      END IF;
+    WHEN 'listing_max_images' THEN
+      IF jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric NOT BETWEEN 1 AND 50
+        OR (p_value #>> '{}')::numeric <> trunc((p_value #>> '{}')::numeric) THEN
+        RAISE EXCEPTION 'listing_max_images must be a whole number between 1 and 50';
+      END IF;
+    WHEN 'default_currency' THEN
+      IF jsonb_typeof(p_value) <> 'string' OR (p_value #>> '{}') NOT IN ('NGN', 'USD', 'GBP', 'EUR', 'GHS', 'KES', 'ZAR') THEN
+        RAISE EXCEPTION 'Unsupported currency %', p_value;
+      END IF;
+    WHEN 'auto_approve_threshold' THEN
+      IF jsonb_typeof(p_value) <> 'null' AND (
+        jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric NOT BETWEEN 0 AND 100
+      ) THEN
+        RAISE EXCEPTION 'auto_approve_threshold must be empty or a score between 0 and 100';
+      END IF;
+    WHEN 'unverified_listing_limit' THEN
+      IF jsonb_typeof(p_value) <> 'null' AND (
+        jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric NOT BETWEEN 0 AND 100
+        OR (p_value #>> '{}')::numeric <> trunc((p_value #>> '{}')::numeric)
+      ) THEN
+        RAISE EXCEPTION 'unverified_listing_limit must be empty or a whole number between 0 and 100';
+      END IF;
+    WHEN 'notifications' THEN
+      IF jsonb_typeof(p_value) <> 'object' THEN
+        RAISE EXCEPTION 'notifications must be an object of toggles';
+      END IF;
+      FOR v_type IN SELECT jsonb_object_keys(p_value) LOOP
+        IF NOT v_type = ANY (enum_range(NULL::notification_type)::text[]) THEN
+          RAISE EXCEPTION 'Unknown notification type %', v_type;
+        END IF;
+        IF jsonb_typeof(p_value -> v_type) <> 'boolean' THEN
+          RAISE EXCEPTION 'Notification toggle % must be true or false', v_type;
+        END IF;
+      END LOOP;
+    ELSE
+      RAISE EXCEPTION 'Unknown setting %', p_key;
+  END CASE;
+END;
+$$;
+
+-- Enforce listing limits, the unverified cap, and decide whether a new listing skips review
+CREATE OR REPLACE FUNCTION public.apply_listing_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_min numeric := (get_platform_setting('listing_min_price') #>> '{}')::numeric;
+  v_max numeric := (get_platform_setting('listing_max_price') #>> '{}')::numeric;
+  v_max_images integer := (get_platform_setting('listing_max_images') #>> '{}')::integer;
+  v_threshold numeric := (get_platform_setting('auto_approve_threshold') #>> '{}')::numeric;
+  v_unverified_limit integer := (get_platform_setting('unverified_listing_limit') #>> '{}')::integer;
+BEGIN
+  -- Admins can correct listings outside the limits, and approve them
+  IF public.current_user_has_role('admin') THEN
+    IF NEW.status = 'active' AND NEW.approved_at IS NULL THEN
+      NEW.approved_at := now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND v_unverified_limit IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = NEW.landlord_id AND verified_at IS NOT NULL)
+    AND (
+      SELECT count(*) FROM properties
+      WHERE landlord_id = NEW.landlord_id AND status <> 'archived'
+    ) >= v_unverified_limit THEN
+    RAISE EXCEPTION 'Unverified landlords can have at most % listings. Verify your identity to add more', v_unverified_limit;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.price IS DISTINCT FROM OLD.price THEN
+    IF NEW.price < v_min OR NEW.price > v_max THEN
+      RAISE EXCEPTION 'Price must be between % and %', v_min, v_max;
+    END IF;
+  END IF;
+
+  IF COALESCE(array_length(NEW.photo_urls, 1), 0) > v_max_images THEN
+    RAISE EXCEPTION 'Listings can have at most % images', v_max_images;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.approved_at := NULL;
+    NEW.status := CASE
+      WHEN v_threshold IS NOT NULL AND public.listing_quality_score(NEW) >= v_threshold THEN 'active'
+      ELSE 'pending'
+    END;
+  ELSE
+    -- Only review or auto-approval can approve a listing
+    NEW.approved_at := OLD.approved_at;
+
+    IF OLD.approved_at IS NULL
+      AND NEW.status IS DISTINCT FROM OLD.status
+      AND NEW.status NOT IN ('pending', 'archived')
+      AND NOT (
+        NEW.status = 'active'
+        AND v_threshold IS NOT NULL
+        AND public.listing_quality_score(NEW) >= v_threshold
+      ) THEN
+      IF NEW.status = 'active' THEN
+        RAISE EXCEPTION 'This listing must be approved by an admin before it goes live';
+      END IF;
+      RAISE EXCEPTION 'This listing can''t change status until it has been approved';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'active' AND NEW.approved_at IS NULL THEN
+    NEW.approved_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Return the landlord's verification with each search result
+CREATE OR REPLACE FUNCTION public.search_properties(
+  p_query text DEFAULT NULL,
+  p_location text DEFAULT NULL,
+  p_property_type text DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_bedrooms integer DEFAULT NULL,
+  p_max_bedrooms integer DEFAULT NULL,
+  p_min_bathrooms integer DEFAULT NULL,
+  p_amenities text[] DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0,
+  p_min_lat double precision DEFAULT NULL,
+  p_min_lng double precision DEFAULT NULL,
+  p_max_lat double precision DEFAULT NULL,
+  p_max_lng double precision DEFAULT NULL,
+  p_near_lat double precision DEFAULT NULL,
+  p_near_lng double precision DEFAULT NULL,
+  p_radius_km double precision DEFAULT NULL
+)
+RETURNS TABLE (property jsonb, rank real, total_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(p_query), '') AS q,
+      CASE WHEN NULLIF(trim(p_query), '') IS NULL THEN NULL
+        ELSE websearch_to_tsquery('english', p_query) END AS tsq,
+      (p_near_lat IS NOT NULL AND p_near_lng IS NOT NULL) AS has_point
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      CASE WHEN params.q IS NULL THEN 0::real
+        ELSE ts_rank_cd(p.search_vector, params.tsq, 32)
+          + word_similarity(params.q, p.title || ' ' || COALESCE(p.location, '')) END AS rank,
+      COALESCE((
+        SELECT sum(v.count)
+        FROM property_views v
+        WHERE v.property_id = p.id AND v.view_date > CURRENT_DATE - 30
+      ), 0) AS recent_views,
+      CASE WHEN params.has_point AND p.latitude IS NOT NULL
+        THEN public.distance_km(p_near_lat, p_near_lng, p.latitude, p.longitude) END AS distance
+    FROM properties p, params
+    WHERE p.status = 'active'
+      AND (params.q IS NULL
+        OR p.search_vector @@ params.tsq
+        OR params.q <% (p.title || ' ' || COALESCE(p.location, '')))
+      AND public.property_location_matches(p, p_location)
+      AND (p_property_type IS NULL OR p.property_type = p_property_type)
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (p_min_bedrooms IS NULL OR COALESCE(p.bedrooms, 0) >= p_min_bedrooms)
+      AND (p_max_bedrooms IS NULL OR COALESCE(p.bedrooms, 0) <= p_max_bedrooms)
+      AND (p_min_bathrooms IS NULL OR COALESCE(p.bathrooms, 0) >= p_min_bathrooms)
+      AND (p_amenities IS NULL OR NOT EXISTS (
+        SELECT 1 FROM unnest(p_amenities) wanted
+        WHERE NOT EXISTS (
+          SELECT 1 FROM unnest(p.amenities) have
+          WHERE have ILIKE '%' || wanted || '%'
+        )
+      ))
+      AND (p_min_lat IS NULL OR p.latitude >= p_min_lat)
+      AND (p_max_lat IS NULL OR p.latitude <= p_max_lat)
+      AND (p_min_lng IS NULL OR p.longitude >= p_min_lng)
+      AND (p_max_lng IS NULL OR p.longitude <= p_max_lng)
+      -- Cheap box around the point first so the index does the work, then the exact distance
+      AND (p_radius_km IS NULL OR NOT params.has_point OR (
+        p.latitude BETWEEN p_near_lat - p_radius_km / 111.0 AND p_near_lat + p_radius_km / 111.0
+        AND p.longitude BETWEEN p_near_lng - p_radius_km / (111.0 * GREATEST(cos(radians(p_near_lat)), 0.01))
+          AND p_near_lng + p_radius_km / (111.0 * GREATEST(cos(radians(p_near_lat)), 0.01))
+        AND public.distance_km(p_near_lat, p_near_lng, p.latitude, p.longitude) <= p_radius_km
+      ))
+  )
+  SELECT
+    (to_jsonb(m) - 'search_vector' - 'rank' - 'recent_views' - 'distance') || jsonb_build_object(
+      'profiles', (
+        SELECT jsonb_build_object(
+          'id', pr.id, 'full_name', pr.full_name, 'email', pr.email,
+          'avatar_url', pr.avatar_url, 'verified_at', pr.verified_at
+        )
+        FROM profiles pr
+        WHERE pr.id = m.landlord_id
+      ),
+      'distance_km', round(m.distance::numeric, 1)
+    ) AS property,
+    m.rank,
+    count(*) OVER () AS total_count
+  FROM matches m, params
+  ORDER BY
+    CASE WHEN p_sort = 'distance' THEN m.distance END ASC NULLS LAST,
+    CASE WHEN p_sort = 'relevance' AND params.q IS NOT NULL THEN m.rank END DESC NULLS LAST,
+    CASE WHEN p_sort = 'price-low' THEN m.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN m.price END DESC,
+    CASE WHEN p_sort = 'popular' THEN m.recent_views END DESC,
+    CASE WHEN p_sort = 'oldest' THEN m.created_at END ASC,
+    m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+COMMENT ON TABLE landlord_verifications IS 'Identity and proof-of-ownership submissions from landlords, reviewed by admins';
+COMMENT ON COLUMN profiles.verified_at IS 'When an admin last approved this landlord''s identity and ownership documents';
+COMMENT ON FUNCTION review_landlord_verification(uuid, boolean, text) IS 'Admin: approve or reject a pending landlord verification';
@@ -0,0 +1,177 @@
+/*
+  # Chat attachments and read receipts
+
+  1. Schema Changes
+    - `messages.read_at` (timestamptz, when the recipient first saw the message)
+    - `messages.attachments` (jsonb array of `{ path, name, type, size }`, objects in
+      the private `chat-attachments` bucket)
+    - A message needs text, attachments or both
+    - `messages` is published to realtime so read receipts reach the sender
+
+  2. Behaviour
+    - Attachments live under `{chat_room_id}/{sender_id}/`; a message can carry up to 5
+    - New messages always start unread
+    - `mark_chat_room_read` stamps every unread message from the other participant
+    - Typing and online presence use realtime presence on the `chat_room:{id}`
+      channel and are not stored
+
+  3. Security
+    - Messages can no longer be edited; only `read_at` can be set, once, by the recipient
+    - Private `chat-attachments` bucket readable by the room's participants and admins
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read_at timestamptz;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachments jsonb NOT NULL DEFAULT '[]';
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_body_check;
+ALTER TABLE messages ADD CONSTRAINT messages_body_check CHECK (
+  jsonb_typeof(attachments) = 'array'
+  AND jsonb_array_length(attachments) <= 5
+  AND (length(trim(content)) > 0 OR jsonb_array_length(attachments) > 0)
+);
+
+-- Unread counts look up the other participant's unread messages per room
+CREATE INDEX IF NOT EXISTS idx_messages_unread ON messages(chat_room_id, sender_id) WHERE read_at IS NULL;
+
+-- New messages start unread, with attachments from the sender's folder in this room
+CREATE OR REPLACE FUNCTION public.prepare_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_attachment jsonb;
+BEGIN
+  NEW.read_at := NULL;
+
+  FOR v_attachment IN SELECT jsonb_array_elements(NEW.attachments) LOOP
+    IF NOT (v_attachment ->> 'path') LIKE NEW.chat_room_id::text || '/' || NEW.sender_id::text || '/%' THEN
+      RAISE EXCEPTION 'Attachments must be uploaded to this conversation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_message ON messages;
+CREATE TRIGGER prepare_message
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_message();
+
+-- The participant policy allows updates, so pin everything except the first read receipt
+CREATE OR REPLACE FUNCTION public.protect_message_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.chat_room_id IS DISTINCT FROM OLD.chat_room_id
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.attachments IS DISTINCT FROM OLD.attachments
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Messages cannot be edited';
+  END IF;
+
+  IF NEW.read_at IS DISTINCT FROM OLD.read_at AND (
+    OLD.read_at IS NOT NULL OR NEW.read_at IS NULL OR OLD.sender_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the recipient can mark a message as read';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_message_update ON messages;
+CREATE TRIGGER protect_message_update
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_message_update();
+
+-- Mark the other participant's messages in a room as read; returns how many changed
+CREATE OR REPLACE FUNCTION public.mark_chat_room_read(p_chat_room_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM chat_rooms
+    WHERE id = p_chat_room_id AND (renter_id = auth.uid() OR landlord_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  UPDATE messages
+  SET read_at = now()
+  WHERE chat_room_id = p_chat_room_id
+    AND sender_id <> auth.uid()
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_chat_room_read(uuid) TO authenticated;
+
+-- Read receipts arrive as UPDATE events on the chat channel
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END;
+$$;
+
+-- Private bucket for chat attachments, stored under the room and sender
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('chat-attachments', 'chat-attachments', false, 10485760, ARRAY[
+  'image/jpeg', 'image/png', 'image/webp', 'image/gif',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Chat participants can upload attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-attachments' AND
+  (storage.foldername(name))[2] = auth.uid()::text AND
+  EXISTS (
+    SELECT 1 FROM public.chat_rooms
+    WHERE chat_rooms.id::text = (storage.foldername(name))[1]
+    AND (chat_rooms.renter_id = auth.uid() OR chat_rooms.landlord_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Chat participants and admins can view attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments' AND (
+    EXISTS (
+      SELECT 1 FROM public.chat_rooms
+      WHERE chat_rooms.id::text = (storage.foldername(name))[1]
+      AND (chat_rooms.renter_id = auth.uid() OR chat_rooms.landlord_id = auth.uid())
+    ) OR
+    public.current_user_has_role('admin')
+  )
+);
+
+COMMENT ON COLUMN messages.read_at IS 'When the recipient first opened the conversation after this message arrived';
+COMMENT ON COLUMN messages.attachments IS 'Files in the chat-attachments bucket: [{ path, name, type, size }]';
+COMMENT ON FUNCTION mark_chat_room_read(uuid) IS 'Mark the other participant''s messages in a conversation as read';
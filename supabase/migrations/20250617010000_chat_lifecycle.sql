@@ -0,0 +1,390 @@
+/*
+  # Conversation lifecycle, blocking and new-chat limits
+
+  1. New Tables
+    - `user_blocks`
+      - `id` (uuid, primary key)
+      - `blocker_id` (uuid, the user who blocked)
+      - `blocked_id` (uuid, the user they no longer want to hear from)
+      - `created_at` (timestamptz)
+
+  2. Schema Changes
+    - `chat_rooms.status` (text: active, archived, closed)
+    - `chat_rooms.renter_archived_at` / `landlord_archived_at` (per-participant archive)
+    - `chat_rooms.closed_by` / `closed_at` (who closed the conversation and when)
+    - New `daily_chat_limit` platform setting, 10 new conversations per renter by default
+
+  3. Behaviour
+    - Each participant archives a conversation for themselves; it is `archived`
+      once both have, and any new message brings it back to both inboxes
+    - Either participant can close a conversation. Nobody can send messages in a
+      closed conversation until the participant who closed it (or an admin) reopens it
+    - A block stops new conversations and messages in both directions, and hides the
+      blocked user's messages from the blocker
+    - Renters can start at most `daily_chat_limit` conversations in 24 hours
+
+  4. Security
+    - Enable RLS on `user_blocks`; users manage and see only their own blocks
+    - Participants change conversation state only through `set_chat_room_archived`
+      and `set_chat_room_closed`; the old catch-all participant policies on
+      `chat_rooms` and `messages` are replaced by the narrower ones already in place
+*/
+
+ALTER TABLE chat_rooms ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active'
+  CHECK (status IN ('active', 'archived', 'closed'));
+ALTER TABLE chat_rooms ADD COLUMN IF NOT EXISTS renter_archived_at timestamptz;
+ALTER TABLE chat_rooms ADD COLUMN IF NOT EXISTS landlord_archived_at timestamptz;
+ALTER TABLE chat_rooms ADD COLUMN IF NOT EXISTS closed_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE chat_rooms ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+
+-- The daily limit counts a renter's recent conversations
+CREATE INDEX IF NOT EXISTS idx_chat_rooms_renter_created ON chat_rooms(renter_id, created_at DESC);
+
+-- Create user_blocks table
+CREATE TABLE IF NOT EXISTS user_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  blocker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their blocks"
+  ON user_blocks FOR SELECT
+  TO authenticated
+  USING (blocker_id = auth.uid() OR public.current_user_has_role('admin'));
+
+CREATE POLICY "Users can block others"
+  ON user_blocks FOR INSERT
+  TO authenticated
+  WITH CHECK (blocker_id = auth.uid());
+
+CREATE POLICY "Users can unblock others"
+  ON user_blocks FOR DELETE
+  TO authenticated
+  USING (blocker_id = auth.uid());
+
+-- Whether either user has blocked the other
+CREATE OR REPLACE FUNCTION public.users_blocked(p_user_a uuid, p_user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = p_user_a AND blocked_id = p_user_b)
+       OR (blocker_id = p_user_b AND blocked_id = p_user_a)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.users_blocked(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Whether the current user and another user have blocked each other, without saying who blocked whom
+CREATE OR REPLACE FUNCTION public.is_chat_blocked(p_other_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.users_blocked(auth.uid(), p_other_user_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_chat_blocked(uuid) TO authenticated;
+
+-- Participants go through the lifecycle functions instead of updating rooms directly
+DROP POLICY IF EXISTS "Chat participants can access their rooms" ON chat_rooms;
+
+-- Hide messages from people the viewer has blocked
+DROP POLICY IF EXISTS "Chat participants can access messages" ON messages;
+DROP POLICY IF EXISTS "Users can view messages in their chat rooms" ON messages;
+
+CREATE POLICY "Users can view messages in their chat rooms"
+  ON messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_rooms
+      WHERE chat_rooms.id = messages.chat_room_id
+      AND (chat_rooms.renter_id = auth.uid() OR chat_rooms.landlord_id = auth.uid())
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM user_blocks
+      WHERE user_blocks.blocker_id = auth.uid() AND user_blocks.blocked_id = messages.sender_id
+    )
+  );
+
+-- New conversations start active, between users who haven't blocked each other, within the daily limit
+CREATE OR REPLACE FUNCTION public.check_chat_room_creation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit integer := (get_platform_setting('daily_chat_limit') #>> '{}')::integer;
+BEGIN
+  NEW.status := 'active';
+  NEW.renter_archived_at := NULL;
+  NEW.landlord_archived_at := NULL;
+  NEW.closed_by := NULL;
+  NEW.closed_at := NULL;
+
+  IF public.users_blocked(NEW.renter_id, NEW.landlord_id) THEN
+    RAISE EXCEPTION 'You can''t start a conversation with this landlord';
+  END IF;
+
+  IF v_limit IS NOT NULL
+    AND NOT public.current_user_has_role('admin')
+    AND (
+      SELECT count(*) FROM chat_rooms
+      WHERE renter_id = NEW.renter_id AND created_at > now() - interval '1 day'
+    ) >= v_limit THEN
+    RAISE EXCEPTION 'You can start at most % new conversations a day. Try again tomorrow', v_limit;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_chat_room_creation ON chat_rooms;
+CREATE TRIGGER check_chat_room_creation
+  BEFORE INSERT ON chat_rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_chat_room_creation();
+
+-- Messages can't go into closed conversations or between users who have blocked each other
+CREATE OR REPLACE FUNCTION public.check_message_allowed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room chat_rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room FROM chat_rooms WHERE id = NEW.chat_room_id;
+
+  IF v_room.status = 'closed' THEN
+    RAISE EXCEPTION 'This conversation is closed';
+  END IF;
+
+  IF public.users_blocked(v_room.renter_id, v_room.landlord_id) THEN
+    RAISE EXCEPTION 'You can''t send messages in this conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_message_allowed ON messages;
+CREATE TRIGGER check_message_allowed
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_message_allowed();
+
+-- A new message brings an archived conversation back to both inboxes
+CREATE OR REPLACE FUNCTION public.unarchive_chat_room_on_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE chat_rooms
+  SET renter_archived_at = NULL,
+      landlord_archived_at = NULL,
+      status = CASE WHEN status = 'archived' THEN 'active' ELSE status END
+  WHERE id = NEW.chat_room_id
+    AND (renter_archived_at IS NOT NULL OR landlord_archived_at IS NOT NULL);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS unarchive_chat_room_on_message ON messages;
+CREATE TRIGGER unarchive_chat_room_on_message
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.unarchive_chat_room_on_message();
+
+-- Archive or unarchive a conversation for the current participant
+CREATE OR REPLACE FUNCTION public.set_chat_room_archived(p_chat_room_id uuid, p_archived boolean)
+RETURNS chat_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room chat_rooms%ROWTYPE;
+  v_archived_at timestamptz := CASE WHEN p_archived THEN now() END;
+BEGIN
+  SELECT * INTO v_room FROM chat_rooms WHERE id = p_chat_room_id FOR UPDATE;
+
+  IF v_room.id IS NULL OR auth.uid() NOT IN (v_room.renter_id, v_room.landlord_id) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  IF auth.uid() = v_room.renter_id THEN
+    v_room.renter_archived_at := v_archived_at;
+  ELSE
+    v_room.landlord_archived_at := v_archived_at;
+  END IF;
+
+  UPDATE chat_rooms
+  SET renter_archived_at = v_room.renter_archived_at,
+      landlord_archived_at = v_room.landlord_archived_at,
+      status = CASE
+        WHEN v_room.status = 'closed' THEN 'closed'
+        WHEN v_room.renter_archived_at IS NOT NULL AND v_room.landlord_archived_at IS NOT NULL THEN 'archived'
+        ELSE 'active'
+      END
+  WHERE id = p_chat_room_id
+  RETURNING * INTO v_room;
+
+  RETURN v_room;
+END;
+$$;
+
+-- Close a conversation, or reopen one you (or, for admins, anyone) closed
+CREATE OR REPLACE FUNCTION public.set_chat_room_closed(p_chat_room_id uuid, p_closed boolean)
+RETURNS chat_rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room chat_rooms%ROWTYPE;
+  v_is_admin boolean := public.current_user_has_role('admin');
+BEGIN
+  SELECT * INTO v_room FROM chat_rooms WHERE id = p_chat_room_id FOR UPDATE;
+
+  IF v_room.id IS NULL OR (auth.uid() NOT IN (v_room.renter_id, v_room.landlord_id) AND NOT v_is_admin) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  IF p_closed THEN
+    IF v_room.status = 'closed' THEN
+      RETURN v_room;
+    END IF;
+
+    UPDATE chat_rooms
+    SET status = 'closed', closed_by = auth.uid(), closed_at = now()
+    WHERE id = p_chat_room_id
+    RETURNING * INTO v_room;
+  ELSE
+    IF v_room.status <> 'closed' THEN
+      RETURN v_room;
+    END IF;
+
+    IF v_room.closed_by IS DISTINCT FROM auth.uid() AND NOT v_is_admin THEN
+      RAISE EXCEPTION 'Only the person who closed this conversation can reopen it';
+    END IF;
+
+    UPDATE chat_rooms
+    SET status = CASE
+          WHEN renter_archived_at IS NOT NULL AND landlord_archived_at IS NOT NULL THEN 'archived'
+          ELSE 'active'
+        END,
+        closed_by = NULL,
+        closed_at = NULL
+    WHERE id = p_chat_room_id
+    RETURNING * INTO v_room;
+  END IF;
+
+  RETURN v_room;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_chat_room_archived(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_chat_room_closed(uuid, boolean) TO authenticated;
+
+-- Daily limit on new conversations per renter
+ALTER TABLE platform_settings DROP CONSTRAINT IF EXISTS platform_settings_key_check;
+ALTER TABLE platform_settings ADD CONSTRAINT platform_settings_key_check CHECK (key IN (
+  'listing_min_price',
+  'listing_max_price',
+  'listing_max_images',
+  'default_currency',
+  'auto_approve_threshold',
+  'unverified_listing_limit',
+  'daily_chat_limit',
+  'notifications'
+));
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('daily_chat_limit', '10')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.validate_platform_setting(p_key text, p_value jsonb)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_type text;
+BEGIN
+  CASE p_key
+    WHEN 'listing_min_price', 'listing_max_price' THEN
+      IF jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric <= 0 THEN
+        RAISE EXCEPTION '% must be a positive number', p_key;
+      END IF;
+    WHEN 'listing_max_images' THEN
+      IF jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric NOT BETWEEN 1 AND 50
+        OR (p_value #>> '{}')::numeric <> trunc((p_value #>> '{}')::numeric) THEN
+        RAISE EXCEPTION 'listing_max_images must be a whole number between 1 and 50';
+      END IF;
+    WHEN 'default_currency' THEN
+      IF jsonb_typeof(p_value) <> 'string' OR (p_value #>> '{}') NOT IN ('NGN', 'USD', 'GBP', 'EUR', 'GHS', 'KES', 'ZAR') THEN
+        RAISE EXCEPTION 'Unsupported currency %', p_value;
+      END IF;
+    WHEN 'auto_approve_threshold' THEN
+      IF jsonb_typeof(p_value) <> 'null' AND (
+        jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric NOT BETWEEN 0 AND 100
+      ) THEN
+        RAISE EXCEPTION 'auto_approve_threshold must be empty or a score between 0 and 100';
+      END IF;
+    WHEN 'unverified_listing_limit' THEN
+      IF jsonb_typeof(p_value) <> 'null' AND (
+        jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric NOT BETWEEN 0 AND 100
+        OR (p_value #>> '{}')::numeric <> trunc((p_value #>> '{}')::numeric)
+      ) THEN
+        RAISE EXCEPTION 'unverified_listing_limit must be empty or a whole number between 0 and 100';
+      END IF;
+    WHEN 'daily_chat_limit' THEN
+      IF jsonb_typeof(p_value) <> 'null' AND (
+        jsonb_typeof(p_value) <> 'number' OR (p_value #>> '{}')::numeric NOT BETWEEN 1 AND 100
+        OR (p_value #>> '{}')::numeric <> trunc((p_value #>> '{}')::numeric)
+      ) THEN
+        RAISE EXCEPTION 'daily_chat_limit must be empty or a whole number between 1 and 100';
+      END IF;
+    WHEN 'notifications' THEN
+      IF jsonb_typeof(p_value) <> 'object' THEN
+        RAISE EXCEPTION 'notifications must be an object of toggles';
+      END IF;
+      FOR v_type IN SELECT jsonb_object_keys(p_value) LOOP
+        IF NOT v_type = ANY (enum_range(NULL::notification_type)::text[]) THEN
+          RAISE EXCEPTION 'Unknown notification type %', v_type;
+        END IF;
+        IF jsonb_typeof(p_value -> v_type) <> 'boolean' THEN
+          RAISE EXCEPTION 'Notification toggle % must be true or false', v_type;
+        END IF;
+      END LOOP;
+    ELSE
+      RAISE EXCEPTION 'Unknown setting %', p_key;
+  END CASE;
+END;
+$$;
+
+COMMENT ON TABLE user_blocks IS 'Users who no longer want to hear from another user';
+COMMENT ON COLUMN chat_rooms.status IS 'active, archived (by both participants) or closed';
+COMMENT ON FUNCTION set_chat_room_archived(uuid, boolean) IS 'Archive or unarchive a conversation for the current participant';
+COMMENT ON FUNCTION set_chat_room_closed(uuid, boolean) IS 'Close a conversation, or reopen one the current user closed';
+COMMENT ON FUNCTION is_chat_blocked(uuid) IS 'Whether the current user and another user have blocked each other';
@@ -0,0 +1,258 @@
+/*
+  # Landlord reply templates and auto-replies
+
+  1. New Tables
+    - `message_templates`
+      - `id` (uuid, primary key)
+      - `landlord_id` (uuid, foreign key to profiles)
+      - `title` (text, unique per landlord)
+      - `body` (text, may use {{property_title}}, {{price}} and {{landlord_name}})
+    - `landlord_auto_replies` (one row per landlord)
+      - `landlord_id` (uuid, primary key)
+      - `welcome_enabled` / `welcome_message` (reply to a renter's first message)
+      - `away_enabled` / `away_message` / `away_starts_on` / `away_ends_on`
+        (out-of-office reply, dates inclusive)
+
+  2. Schema Changes
+    - `messages.auto_reply` (text: welcome, away; null for messages people wrote)
+
+  3. Behaviour
+    - When a renter sends their first message in a conversation, the landlord's
+      welcome message is sent on their behalf
+    - While the landlord is away, the first renter message in each conversation gets
+      the away message instead; it is sent once per conversation per away period
+    - Template variables are filled in with the conversation's property and landlord
+
+  4. Security
+    - Enable RLS on both tables; landlords manage only their own templates and settings
+    - Only the auto-reply trigger can send messages marked as auto-replies
+*/
+
+-- Create message_templates table
+CREATE TABLE IF NOT EXISTS message_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  landlord_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (length(trim(title)) BETWEEN 1 AND 80),
+  body text NOT NULL CHECK (length(trim(body)) BETWEEN 1 AND 2000),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT message_templates_unique_title UNIQUE (landlord_id, title)
+);
+
+-- Create landlord_auto_replies table
+CREATE TABLE IF NOT EXISTS landlord_auto_replies (
+  landlord_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  welcome_enabled boolean NOT NULL DEFAULT false,
+  welcome_message text NOT NULL DEFAULT '' CHECK (length(welcome_message) <= 2000),
+  away_enabled boolean NOT NULL DEFAULT false,
+  away_message text NOT NULL DEFAULT '' CHECK (length(away_message) <= 2000),
+  away_starts_on date,
+  away_ends_on date,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT landlord_auto_replies_welcome_check CHECK (
+    NOT welcome_enabled OR length(trim(welcome_message)) > 0
+  ),
+  CONSTRAINT landlord_auto_replies_away_check CHECK (
+    NOT away_enabled OR (
+      length(trim(away_message)) > 0
+      AND away_starts_on IS NOT NULL
+      AND away_ends_on IS NOT NULL
+      AND away_ends_on >= away_starts_on
+    )
+  )
+);
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS auto_reply text CHECK (auto_reply IN ('welcome', 'away'));
+
+-- Enable RLS
+ALTER TABLE message_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE landlord_auto_replies ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for message_templates
+CREATE POLICY "Landlords can view their own message templates"
+  ON message_templates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = landlord_id);
+
+CREATE POLICY "Landlords can create their own message templates"
+  ON message_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = landlord_id);
+
+CREATE POLICY "Landlords can update their own message templates"
+  ON message_templates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = landlord_id)
+  WITH CHECK (auth.uid() = landlord_id);
+
+CREATE POLICY "Landlords can delete their own message templates"
+  ON message_templates
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = landlord_id);
+
+-- Create policies for landlord_auto_replies
+CREATE POLICY "Landlords can view their own auto-replies"
+  ON landlord_auto_replies
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = landlord_id);
+
+CREATE POLICY "Landlords can create their own auto-replies"
+  ON landlord_auto_replies
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = landlord_id);
+
+CREATE POLICY "Landlords can update their own auto-replies"
+  ON landlord_auto_replies
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = landlord_id)
+  WITH CHECK (auth.uid() = landlord_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_message_templates_landlord_id ON message_templates(landlord_id, title);
+CREATE INDEX IF NOT EXISTS idx_messages_auto_reply ON messages(chat_room_id, created_at) WHERE auto_reply IS NOT NULL;
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_landlord_auto_replies_updated_at
+  BEFORE UPDATE ON landlord_auto_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- New messages start unread, with attachments from the sender's folder in this room.
+-- People can't mark their own messages as auto-replies
+CREATE OR REPLACE FUNCTION public.prepare_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_attachment jsonb;
+BEGIN
+  NEW.read_at := NULL;
+
+  IF NEW.auto_reply IS NOT NULL AND NEW.sender_id = auth.uid() THEN
+    RAISE EXCEPTION 'Auto-replies can only be sent automatically';
+  END IF;
+
+  FOR v_attachment IN SELECT jsonb_array_elements(NEW.attachments) LOOP
+    IF NOT (v_attachment ->> 'path') LIKE NEW.chat_room_id::text || '/' || NEW.sender_id::text || '/%' THEN
+      RAISE EXCEPTION 'Attachments must be uploaded to this conversation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fill {{property_title}}, {{price}} and {{landlord_name}} for a conversation
+CREATE OR REPLACE FUNCTION public.render_message_template(p_body text, p_chat_room_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_title text;
+  v_price numeric;
+  v_landlord_name text;
+BEGIN
+  SELECT p.title, p.price, COALESCE(NULLIF(trim(pr.full_name), ''), 'your landlord')
+  INTO v_title, v_price, v_landlord_name
+  FROM chat_rooms cr
+  JOIN properties p ON p.id = cr.property_id
+  JOIN profiles pr ON pr.id = cr.landlord_id
+  WHERE cr.id = p_chat_room_id;
+
+  RETURN replace(replace(replace(p_body,
+    '{{property_title}}', COALESCE(v_title, 'this property')),
+    '{{price}}', COALESCE((get_platform_setting('default_currency') #>> '{}') || ' ' || to_char(v_price, 'FM999,999,999,990'), '')),
+    '{{landlord_name}}', v_landlord_name);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.render_message_template(text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Reply on the landlord's behalf to a renter's first message, or while the landlord is away
+CREATE OR REPLACE FUNCTION public.send_auto_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room chat_rooms%ROWTYPE;
+  v_settings landlord_auto_replies%ROWTYPE;
+  v_kind text;
+  v_body text;
+BEGIN
+  IF NEW.auto_reply IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_room FROM chat_rooms WHERE id = NEW.chat_room_id;
+  IF NEW.sender_id <> v_room.renter_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_settings FROM landlord_auto_replies WHERE landlord_id = v_room.landlord_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_settings.away_enabled
+    AND current_date BETWEEN v_settings.away_starts_on AND v_settings.away_ends_on
+    AND NOT EXISTS (
+      SELECT 1 FROM messages
+      WHERE chat_room_id = NEW.chat_room_id
+        AND auto_reply = 'away'
+        AND created_at >= v_settings.away_starts_on
+    ) THEN
+    v_kind := 'away';
+    v_body := v_settings.away_message;
+  ELSIF v_settings.welcome_enabled
+    AND NOT EXISTS (
+      SELECT 1 FROM messages
+      WHERE chat_room_id = NEW.chat_room_id AND sender_id = NEW.sender_id AND id <> NEW.id
+    ) THEN
+    v_kind := 'welcome';
+    v_body := v_settings.welcome_message;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- clock_timestamp keeps the reply after the renter's message, which uses the transaction time
+  INSERT INTO messages (chat_room_id, sender_id, content, auto_reply, created_at)
+  VALUES (
+    NEW.chat_room_id,
+    v_room.landlord_id,
+    public.render_message_template(v_body, NEW.chat_room_id),
+    v_kind,
+    clock_timestamp()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS send_auto_reply ON messages;
+CREATE TRIGGER send_auto_reply
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.send_auto_reply();
+
+COMMENT ON TABLE message_templates IS 'Saved replies landlords can insert into a conversation';
+COMMENT ON TABLE landlord_auto_replies IS 'Welcome and out-of-office replies sent on a landlord''s behalf';
+COMMENT ON COLUMN messages.auto_reply IS 'welcome or away when the message was sent automatically for the landlord';
@@ -0,0 +1,220 @@
+/*
+  # Two-factor authentication for admins
+
+  1. New Tables
+    - `mfa_recovery_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, the account the code belongs to)
+      - `code_hash` (text, bcrypt hash; the code itself is shown once and never stored)
+      - `used_at` (timestamptz, set when the code is redeemed)
+      - `created_at` (timestamptz)
+
+  2. Schema Changes
+    - `current_user_has_role('admin')` now also requires an AAL2 session
+    - The older admin policies on `properties` and `property_reviews` that read
+      `profiles.role` directly are rebuilt on `current_user_has_role('admin')`,
+      so they need an AAL2 session too
+
+  3. Behaviour
+    - Admins enrol a TOTP factor through Supabase Auth MFA and verify it every session.
+      Until they do, every policy and function built on `current_user_has_role('admin')`
+      treats them as a regular user
+    - `generate_mfa_recovery_codes` replaces the caller's recovery codes with 10 new
+      ones and returns them once; it needs an AAL2 session
+    - `redeem_mfa_recovery_code` spends one code and removes the caller's MFA factors,
+      so an admin who lost their device can sign in and enrol a new one
+    - `get_admin_mfa_status` lists admins with whether MFA is on and how many
+      recovery codes they have left
+
+  4. Security
+    - Enable RLS on `mfa_recovery_codes` with no policies; it is only reached through
+      the functions above
+*/
+
+-- Create mfa_recovery_codes table
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_unused ON mfa_recovery_codes(user_id) WHERE used_at IS NULL;
+
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Admin rights need a second factor, so a stolen password alone can't use them
+CREATE OR REPLACE FUNCTION public.current_user_has_role(_role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = auth.uid() AND role = _role
+  )
+  AND (_role <> 'admin' OR coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2')
+$$;
+
+-- Policies written before user_roles existed checked profiles.role and skipped the AAL2 check
+DROP POLICY IF EXISTS "All properties viewable by admins" ON properties;
+DROP POLICY IF EXISTS "Admins can view all property reviews" ON property_reviews;
+DROP POLICY IF EXISTS "Admins can insert property reviews" ON property_reviews;
+DROP POLICY IF EXISTS "Admins can update property reviews" ON property_reviews;
+
+CREATE POLICY "All properties viewable by admins"
+  ON properties
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+CREATE POLICY "Admins can view all property reviews"
+  ON property_reviews
+  FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+CREATE POLICY "Admins can insert property reviews"
+  ON property_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.current_user_has_role('admin'));
+
+CREATE POLICY "Admins can update property reviews"
+  ON property_reviews
+  FOR UPDATE
+  TO authenticated
+  USING (public.current_user_has_role('admin'))
+  WITH CHECK (public.current_user_has_role('admin'));
+
+-- Replace the current user's recovery codes; the plain codes are only ever returned here
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS text[]
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_codes text[] := '{}';
+  v_code text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Enter a code from your authenticator app before creating recovery codes';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    v_code := encode(extensions.gen_random_bytes(5), 'hex');
+
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), extensions.crypt(v_code, extensions.gen_salt('bf')));
+
+    v_codes := v_codes || (substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$;
+
+-- Spend a recovery code and drop the user's MFA factors so they can enrol a new device.
+-- Returns false when the code is wrong or already used
+CREATE OR REPLACE FUNCTION public.redeem_mfa_recovery_code(p_code text)
+RETURNS boolean
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code text := lower(regexp_replace(coalesce(p_code, ''), '[^0-9a-fA-F]', '', 'g'));
+  v_code_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO v_code_id
+  FROM mfa_recovery_codes
+  WHERE user_id = auth.uid()
+    AND used_at IS NULL
+    AND code_hash = extensions.crypt(v_code, code_hash)
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_code_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE mfa_recovery_codes SET used_at = now() WHERE id = v_code_id;
+  DELETE FROM auth.mfa_factors WHERE user_id = auth.uid();
+
+  RETURN true;
+END;
+$$;
+
+-- Which admins have MFA turned on
+CREATE OR REPLACE FUNCTION public.get_admin_mfa_status()
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  email text,
+  mfa_enabled boolean,
+  mfa_enrolled_at timestamptz,
+  recovery_codes_remaining integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can view admin security settings';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    factors.enrolled_at IS NOT NULL,
+    factors.enrolled_at,
+    (
+      SELECT count(*)::integer
+      FROM mfa_recovery_codes c
+      WHERE c.user_id = p.id AND c.used_at IS NULL
+    )
+  FROM user_roles r
+  JOIN profiles p ON p.id = r.user_id
+  LEFT JOIN LATERAL (
+    SELECT min(f.created_at) AS enrolled_at
+    FROM auth.mfa_factors f
+    WHERE f.user_id = p.id AND f.status = 'verified'
+  ) factors ON true
+  WHERE r.role = 'admin'
+  ORDER BY factors.enrolled_at IS NULL DESC, p.full_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_mfa_recovery_codes() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.redeem_mfa_recovery_code(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_admin_mfa_status() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_mfa_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_mfa_recovery_code(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_admin_mfa_status() TO authenticated;
+
+COMMENT ON TABLE mfa_recovery_codes IS 'Hashed one-time codes for getting back into an account after losing the MFA device';
+COMMENT ON FUNCTION current_user_has_role(app_role) IS 'Whether the current user has a role; admin also needs an AAL2 (MFA-verified) session';
+COMMENT ON FUNCTION generate_mfa_recovery_codes() IS 'Replace the current user''s recovery codes and return the new ones once';
+COMMENT ON FUNCTION redeem_mfa_recovery_code(text) IS 'Spend a recovery code and remove the current user''s MFA factors';
+COMMENT ON FUNCTION get_admin_mfa_status() IS 'Admins with their MFA status and remaining recovery codes';
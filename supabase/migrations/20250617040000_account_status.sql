@@ -0,0 +1,211 @@
+/*
+  # Account states: suspension, bans and pending deletion
+
+  1. New Tables
+    - `account_status_history`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, the account whose state changed)
+      - `status` (text: active, suspended, banned, pending_deletion)
+      - `reason` (text, why the admin made the change)
+      - `expires_at` (timestamptz, when a suspension lifts on its own)
+      - `changed_by` (uuid, the acting admin)
+      - `created_at` (timestamptz)
+
+  2. Schema Changes
+    - `profiles.account_status` (text, defaults to active)
+    - `profiles.status_reason`, `status_expires_at`, `status_changed_by`, `status_changed_at`
+      describe the current state
+
+  3. Behaviour
+    - `set_account_status` (admin) changes a user's state and records it in the history.
+      Suspended, banned and pending_deletion need a reason; only suspensions can expire
+    - A suspension whose `status_expires_at` has passed counts as active again without
+      anyone having to lift it
+    - Admins can't change their own state
+
+  4. Security
+    - Enable RLS on `account_status_history`; users see their own history, admins see all
+    - Only admins can change the state columns on `profiles`
+    - Listings of landlords who aren't active are hidden from everyone but the landlord
+      and admins
+    - Users who aren't active can't create listings, start conversations or send messages
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS account_status text NOT NULL DEFAULT 'active'
+  CHECK (account_status IN ('active', 'suspended', 'banned', 'pending_deletion'));
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS status_reason text;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS status_expires_at timestamptz;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS status_changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS status_changed_at timestamptz;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_account_status_check_details;
+ALTER TABLE profiles ADD CONSTRAINT profiles_account_status_check_details CHECK (
+  (account_status = 'active' OR NULLIF(trim(status_reason), '') IS NOT NULL)
+  AND (account_status = 'suspended' OR status_expires_at IS NULL)
+);
+
+-- The admin user list filters by state
+CREATE INDEX IF NOT EXISTS idx_profiles_account_status ON profiles(account_status) WHERE account_status <> 'active';
+
+-- Create account_status_history table
+CREATE TABLE IF NOT EXISTS account_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('active', 'suspended', 'banned', 'pending_deletion')),
+  reason text,
+  expires_at timestamptz,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_status_history_user ON account_status_history(user_id, created_at DESC);
+
+ALTER TABLE account_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their account history"
+  ON account_status_history FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR public.current_user_has_role('admin'));
+
+-- Keep users from lifting their own suspension through their profile policy
+CREATE OR REPLACE FUNCTION public.protect_account_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (
+    NEW.account_status IS DISTINCT FROM OLD.account_status
+    OR NEW.status_reason IS DISTINCT FROM OLD.status_reason
+    OR NEW.status_expires_at IS DISTINCT FROM OLD.status_expires_at
+    OR NEW.status_changed_by IS DISTINCT FROM OLD.status_changed_by
+    OR NEW.status_changed_at IS DISTINCT FROM OLD.status_changed_at
+  ) AND NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only an admin can change account status';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_account_status ON profiles;
+CREATE TRIGGER protect_account_status
+  BEFORE UPDATE OF account_status, status_reason, status_expires_at, status_changed_by, status_changed_at ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_account_status();
+
+-- Whether a user's account is in good standing; expired suspensions count as lifted
+CREATE OR REPLACE FUNCTION public.account_is_active(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT account_status = 'active'
+      OR (account_status = 'suspended' AND status_expires_at IS NOT NULL AND status_expires_at <= now())
+    FROM profiles
+    WHERE id = p_user_id
+  ), true);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.account_is_active(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.account_is_active(uuid) TO anon, authenticated;
+
+-- Change a user's account state and record it in their history
+CREATE OR REPLACE FUNCTION public.set_account_status(
+  p_user_id uuid,
+  p_status text,
+  p_reason text DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile profiles%ROWTYPE;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can change account status';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t change the status of your own account';
+  END IF;
+
+  IF p_status NOT IN ('active', 'suspended', 'banned', 'pending_deletion') THEN
+    RAISE EXCEPTION 'Unknown account status %', p_status;
+  END IF;
+
+  IF p_status <> 'active' AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for this change';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_status <> 'suspended' THEN
+    RAISE EXCEPTION 'Only suspensions can have an end date';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'The suspension must end in the future';
+  END IF;
+
+  UPDATE profiles
+  SET account_status = p_status,
+      status_reason = v_reason,
+      status_expires_at = p_expires_at,
+      status_changed_by = auth.uid(),
+      status_changed_at = now()
+  WHERE id = p_user_id
+  RETURNING * INTO v_profile;
+
+  IF v_profile.id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  INSERT INTO account_status_history (user_id, status, reason, expires_at, changed_by)
+  VALUES (p_user_id, p_status, v_reason, p_expires_at, auth.uid());
+
+  RETURN v_profile;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_account_status(uuid, text, text, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_account_status(uuid, text, text, timestamptz) TO authenticated;
+
+-- Hide listings of landlords who aren't active. Restrictive, so it narrows every
+-- existing SELECT policy, including the one search_properties runs under
+DROP POLICY IF EXISTS "Listings of inactive landlords are hidden" ON properties;
+CREATE POLICY "Listings of inactive landlords are hidden"
+  ON properties AS RESTRICTIVE FOR SELECT
+  USING (
+    landlord_id = auth.uid()
+    OR public.current_user_has_role('admin')
+    OR public.account_is_active(landlord_id)
+  );
+
+DROP POLICY IF EXISTS "Inactive accounts can't create listings" ON properties;
+CREATE POLICY "Inactive accounts can't create listings"
+  ON properties AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (public.account_is_active(auth.uid()) OR public.current_user_has_role('admin'));
+
+DROP POLICY IF EXISTS "Inactive accounts can't start conversations" ON chat_rooms;
+CREATE POLICY "Inactive accounts can't start conversations"
+  ON chat_rooms AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (public.account_is_active(auth.uid()));
+
+DROP POLICY IF EXISTS "Inactive accounts can't send messages" ON messages;
+CREATE POLICY "Inactive accounts can't send messages"
+  ON messages AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (public.account_is_active(auth.uid()));
+
+COMMENT ON TABLE account_status_history IS 'Every change an admin made to a user''s account state';
+COMMENT ON COLUMN profiles.account_status IS 'active, suspended, banned or pending_deletion';
+COMMENT ON COLUMN profiles.status_expires_at IS 'When a suspension lifts on its own; empty means until an admin lifts it';
+COMMENT ON FUNCTION account_is_active(uuid) IS 'Whether a user''s account is active or their suspension has expired';
+COMMENT ON FUNCTION set_account_status(uuid, text, text, timestamptz) IS 'Change a user''s account state (admin only)';
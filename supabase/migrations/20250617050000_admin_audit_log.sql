@@ -0,0 +1,180 @@
+/*
+  # Admin audit log
+
+  1. New Tables
+    - `admin_audit_log`
+      - `id` (uuid, primary key)
+      - `actor_id` (uuid, the admin who made the change; kept even if they're deleted later)
+      - `actor_email` (text, the admin's email at the time)
+      - `action` (text, `<table>.<insert|update|delete>`, e.g. `user_roles.insert`)
+      - `target_table` (text)
+      - `target_id` (text, the user, listing or setting the change was about)
+      - `before` / `after` (jsonb; for updates only the columns that changed)
+      - `created_at` (timestamptz)
+
+  2. Behaviour
+    - Triggers record every change an admin makes to roles, profiles, listings,
+      listing reviews, landlord verifications, listing reports, conversations,
+      platform settings and backups. Changes made through RPCs such as
+      `set_account_status` are recorded the same way
+    - Changes by non-admins, and updates that only touch bookkeeping columns
+      (`updated_at`, `last_sign_in_at`, `search_vector`), aren't recorded
+
+  3. Security
+    - Enable RLS on `admin_audit_log`; only admins can read it
+    - There are no insert policies: only the triggers write to it
+    - The log is append-only; updates, deletes and truncates are rejected
+*/
+
+-- Create admin_audit_log table
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid NOT NULL,
+  actor_email text,
+  action text NOT NULL,
+  target_table text NOT NULL,
+  target_id text,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_table, target_id);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action ON admin_audit_log(action, created_at DESC);
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+  ON admin_audit_log FOR SELECT
+  TO authenticated
+  USING (public.current_user_has_role('admin'));
+
+-- Nobody rewrites history, not even the service role
+CREATE OR REPLACE FUNCTION public.prevent_admin_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The admin audit log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_admin_audit_log_changes ON admin_audit_log;
+CREATE TRIGGER prevent_admin_audit_log_changes
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+DROP TRIGGER IF EXISTS prevent_admin_audit_log_truncate ON admin_audit_log;
+CREATE TRIGGER prevent_admin_audit_log_truncate
+  BEFORE TRUNCATE ON admin_audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+-- Record a change made by an admin. The trigger argument names the column that
+-- identifies the target, e.g. `user_id` for user_roles
+CREATE OR REPLACE FUNCTION public.log_admin_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_before jsonb := v_old;
+  v_after jsonb := v_new;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.current_user_has_role('admin') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(k.key, v_old -> k.key), jsonb_object_agg(k.key, v_new -> k.key)
+    INTO v_before, v_after
+    FROM jsonb_object_keys(v_new) AS k(key)
+    WHERE v_new -> k.key IS DISTINCT FROM v_old -> k.key
+      AND k.key NOT IN ('updated_at', 'last_sign_in_at', 'search_vector');
+
+    IF v_after IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO admin_audit_log (actor_id, actor_email, action, target_table, target_id, before, after)
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM profiles WHERE id = auth.uid()),
+    TG_TABLE_NAME || '.' || lower(TG_OP),
+    TG_TABLE_NAME,
+    COALESCE(v_new, v_old) ->> TG_ARGV[0],
+    v_before - 'search_vector',
+    v_after - 'search_vector'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_admin_change ON user_roles;
+CREATE TRIGGER log_admin_change
+  AFTER INSERT OR DELETE ON user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('user_id');
+
+DROP TRIGGER IF EXISTS log_admin_change ON profiles;
+CREATE TRIGGER log_admin_change
+  AFTER UPDATE OR DELETE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('id');
+
+DROP TRIGGER IF EXISTS log_admin_change ON properties;
+CREATE TRIGGER log_admin_change
+  AFTER INSERT OR UPDATE OR DELETE ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('id');
+
+DROP TRIGGER IF EXISTS log_admin_change ON property_reviews;
+CREATE TRIGGER log_admin_change
+  AFTER INSERT ON property_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('property_id');
+
+DROP TRIGGER IF EXISTS log_admin_change ON landlord_verifications;
+CREATE TRIGGER log_admin_change
+  AFTER UPDATE ON landlord_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('landlord_id');
+
+DROP TRIGGER IF EXISTS log_admin_change ON property_reports;
+CREATE TRIGGER log_admin_change
+  AFTER UPDATE ON property_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('id');
+
+DROP TRIGGER IF EXISTS log_admin_change ON chat_rooms;
+CREATE TRIGGER log_admin_change
+  AFTER UPDATE OR DELETE ON chat_rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('id');
+
+DROP TRIGGER IF EXISTS log_admin_change ON platform_settings;
+CREATE TRIGGER log_admin_change
+  AFTER UPDATE ON platform_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('key');
+
+DROP TRIGGER IF EXISTS log_admin_change ON database_backups;
+CREATE TRIGGER log_admin_change
+  AFTER INSERT ON database_backups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('id');
+
+COMMENT ON TABLE admin_audit_log IS 'Append-only record of changes made by admins, written by triggers';
+COMMENT ON COLUMN admin_audit_log.before IS 'Row before the change; for updates only the columns that changed';
+COMMENT ON COLUMN admin_audit_log.after IS 'Row after the change; for updates only the columns that changed';
+COMMENT ON FUNCTION log_admin_change() IS 'Trigger that records changes made by admins in admin_audit_log';
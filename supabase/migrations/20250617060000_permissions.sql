@@ -0,0 +1,485 @@
+/*
+  # Permissions and staff roles
+
+  1. New Tables
+    - `permissions`
+      - `key` (text, primary key, e.g. `listings.review`)
+      - `description` (text)
+    - `staff_roles`
+      - `key` (text, primary key: moderator, support, finance)
+      - `name` (text)
+      - `description` (text)
+    - `role_permissions`
+      - `role_key` (text, references staff_roles)
+      - `permission_key` (text, references permissions)
+    - `user_staff_roles`
+      - `user_id` (uuid, references profiles)
+      - `role_key` (text, references staff_roles)
+      - `granted_by` (uuid, the admin who granted it)
+      - `created_at` (timestamptz)
+
+  2. Behaviour
+    - Admins have every permission. Everyone else gets the permissions of their
+      staff roles, on top of their landlord or renter role
+    - Moderators review listings, support staff read conversations for dispute
+      handling and finance staff see payments. Managing users, settings, backups,
+      verifications and reports stays with admins
+    - `has_permission` is what policies check; like admin access it needs an
+      MFA-verified (AAL2) session. `get_my_permissions` lists what the current
+      user would have once verified, so the app can build its navigation
+    - `set_user_staff_roles` (admin) replaces a user's staff roles
+    - Moderators can approve listings that are waiting for review. On listings
+      they don't own, `listings.review` only moves a pending listing to active
+      or inactive; editing anything else needs `listings.manage`
+    - Changes made by staff are recorded in the admin audit log, as are staff
+      role changes
+
+  3. Security
+    - Enable RLS on all new tables. Permissions and roles are readable by signed-in
+      users; staff role assignments by the user themselves and admins
+    - Role definitions only change through migrations
+    - New policies open listings and listing reviews to `listings.review`,
+      conversations, messages and chat attachments to `chats.read`, payment
+      intents to `payments.view`, profiles, roles and account history to
+      `users.view` and the audit log to `audit_log.view`
+    - Staff without `users.view` can read the profiles their work shows:
+      landlords of listings for `listings.review`, chat participants for
+      `chats.read` and paying renters for `payments.view`
+*/
+
+-- Create permissions table
+CREATE TABLE IF NOT EXISTS permissions (
+  key text PRIMARY KEY,
+  description text NOT NULL
+);
+
+-- Create staff_roles table
+CREATE TABLE IF NOT EXISTS staff_roles (
+  key text PRIMARY KEY,
+  name text NOT NULL,
+  description text NOT NULL
+);
+
+-- Create role_permissions table
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role_key text NOT NULL REFERENCES staff_roles(key) ON DELETE CASCADE,
+  permission_key text NOT NULL REFERENCES permissions(key) ON DELETE CASCADE,
+  PRIMARY KEY (role_key, permission_key)
+);
+
+-- Create user_staff_roles table
+CREATE TABLE IF NOT EXISTS user_staff_roles (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role_key text NOT NULL REFERENCES staff_roles(key) ON DELETE CASCADE,
+  granted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, role_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_staff_roles_role ON user_staff_roles(role_key);
+
+INSERT INTO permissions (key, description) VALUES
+  ('analytics.view', 'See the admin dashboard and platform analytics'),
+  ('users.view', 'Look up users and their account history'),
+  ('users.manage', 'Change roles, account states and staff roles, and delete users'),
+  ('listings.review', 'Approve, reject and flag listings waiting for review'),
+  ('listings.manage', 'Edit or delete any listing and re-run its verification checks'),
+  ('reports.review', 'Resolve listing reports'),
+  ('verifications.review', 'Review landlord identity verifications'),
+  ('chats.read', 'Read conversations between renters and landlords'),
+  ('payments.view', 'See payments made through the platform'),
+  ('settings.manage', 'Change platform settings'),
+  ('database.manage', 'Back up and restore the database'),
+  ('audit_log.view', 'Read the admin audit log')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+INSERT INTO staff_roles (key, name, description) VALUES
+  ('moderator', 'Moderator', 'Reviews listings waiting for approval'),
+  ('support', 'Support', 'Reads conversations to help settle disputes'),
+  ('finance', 'Finance', 'Sees payments')
+ON CONFLICT (key) DO UPDATE SET name = EXCLUDED.name, description = EXCLUDED.description;
+
+INSERT INTO role_permissions (role_key, permission_key) VALUES
+  ('moderator', 'listings.review'),
+  ('moderator', 'users.view'),
+  ('support', 'chats.read'),
+  ('support', 'users.view'),
+  ('finance', 'payments.view')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_staff_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view permissions"
+  ON permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can view staff roles"
+  ON staff_roles FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can view role permissions"
+  ON role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can view their staff roles"
+  ON user_staff_roles FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR public.current_user_has_role('admin'));
+
+-- Whether the current user has a permission. Admins have them all; like admin
+-- access, it needs an MFA-verified session
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    AND (
+      public.current_user_has_role('admin')
+      OR EXISTS (
+        SELECT 1
+        FROM user_staff_roles usr
+        JOIN role_permissions rp ON rp.role_key = usr.role_key
+        WHERE usr.user_id = auth.uid()
+          AND rp.permission_key = p_permission
+      )
+    );
+$$;
+
+-- The current user's permissions, whether or not this session has verified MFA yet
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(p.key ORDER BY p.key), '{}')
+  FROM permissions p
+  WHERE EXISTS (SELECT 1 FROM user_roles WHERE user_id = auth.uid() AND role = 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM user_staff_roles usr
+      JOIN role_permissions rp ON rp.role_key = usr.role_key
+      WHERE usr.user_id = auth.uid()
+        AND rp.permission_key = p.key
+    );
+$$;
+
+-- Replace a user's staff roles (admin)
+CREATE OR REPLACE FUNCTION public.set_user_staff_roles(p_user_id uuid, p_roles text[])
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_unknown text;
+BEGIN
+  IF NOT public.current_user_has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can change staff roles';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  SELECT r INTO v_unknown
+  FROM unnest(COALESCE(p_roles, '{}')) AS r
+  WHERE r NOT IN (SELECT key FROM staff_roles)
+  LIMIT 1;
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown staff role: %', v_unknown;
+  END IF;
+
+  DELETE FROM user_staff_roles
+  WHERE user_id = p_user_id
+    AND role_key <> ALL (COALESCE(p_roles, '{}'));
+
+  INSERT INTO user_staff_roles (user_id, role_key, granted_by)
+  SELECT p_user_id, r, auth.uid()
+  FROM unnest(COALESCE(p_roles, '{}')) AS r
+  ON CONFLICT DO NOTHING;
+
+  RETURN ARRAY(SELECT role_key FROM user_staff_roles WHERE user_id = p_user_id ORDER BY role_key);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_permission(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_permission(text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_my_permissions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_permissions() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_user_staff_roles(uuid, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_user_staff_roles(uuid, text[]) TO authenticated;
+
+-- Listing review
+CREATE POLICY "Listing reviewers can view all properties"
+  ON properties FOR SELECT
+  TO authenticated
+  USING (public.has_permission('listings.review'));
+
+CREATE POLICY "Listing reviewers can update properties"
+  ON properties FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('listings.review'))
+  WITH CHECK (public.has_permission('listings.review'));
+
+CREATE POLICY "Listing reviewers can view property reviews"
+  ON property_reviews FOR SELECT
+  TO authenticated
+  USING (public.has_permission('listings.review'));
+
+CREATE POLICY "Listing reviewers can review properties"
+  ON property_reviews FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('listings.review') AND admin_id = auth.uid());
+
+CREATE POLICY "Listing reviewers can view landlord profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('listings.review') AND
+    EXISTS (SELECT 1 FROM properties WHERE properties.landlord_id = profiles.id)
+  );
+
+-- Dispute handling
+CREATE POLICY "Support staff can view chat rooms"
+  ON chat_rooms FOR SELECT
+  TO authenticated
+  USING (public.has_permission('chats.read'));
+
+CREATE POLICY "Support staff can view messages"
+  ON messages FOR SELECT
+  TO authenticated
+  USING (public.has_permission('chats.read'));
+
+CREATE POLICY "Support staff can view chat participant profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('chats.read') AND
+    EXISTS (
+      SELECT 1 FROM chat_rooms
+      WHERE chat_rooms.renter_id = profiles.id OR chat_rooms.landlord_id = profiles.id
+    )
+  );
+
+CREATE POLICY "Support staff can view chat attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'chat-attachments' AND public.has_permission('chats.read'));
+
+-- Payments
+CREATE POLICY "Finance staff can view payment intents"
+  ON payment_intents FOR SELECT
+  TO authenticated
+  USING (public.has_permission('payments.view'));
+
+CREATE POLICY "Finance staff can view paying renter profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (
+    public.has_permission('payments.view') AND
+    EXISTS (SELECT 1 FROM payment_intents WHERE payment_intents.renter_id = profiles.id)
+  );
+
+-- User lookup and audit
+CREATE POLICY "Staff can view all profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (public.has_permission('users.view'));
+
+CREATE POLICY "Staff can view all roles"
+  ON user_roles FOR SELECT
+  TO authenticated
+  USING (public.has_permission('users.view'));
+
+CREATE POLICY "Staff can view account history"
+  ON account_status_history FOR SELECT
+  TO authenticated
+  USING (public.has_permission('users.view'));
+
+CREATE POLICY "Staff can view the audit log"
+  ON admin_audit_log FOR SELECT
+  TO authenticated
+  USING (public.has_permission('audit_log.view'));
+
+-- Let listing reviewers, not only admins, approve listings held for review
+CREATE OR REPLACE FUNCTION public.apply_listing_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_min numeric := (get_platform_setting('listing_min_price') #>> '{}')::numeric;
+  v_max numeric := (get_platform_setting('listing_max_price') #>> '{}')::numeric;
+  v_max_images integer := (get_platform_setting('listing_max_images') #>> '{}')::integer;
+  v_threshold numeric := (get_platform_setting('auto_approve_threshold') #>> '{}')::numeric;
+  v_unverified_limit integer := (get_platform_setting('unverified_listing_limit') #>> '{}')::integer;
+BEGIN
+  -- Admins can correct listings outside the limits, and approve them
+  IF public.current_user_has_role('admin') THEN
+    IF NEW.status = 'active' AND NEW.approved_at IS NULL THEN
+      NEW.approved_at := now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND v_unverified_limit IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = NEW.landlord_id AND verified_at IS NOT NULL)
+    AND (
+      SELECT count(*) FROM properties
+      WHERE landlord_id = NEW.landlord_id AND status <> 'archived'
+    ) >= v_unverified_limit THEN
+    RAISE EXCEPTION 'Unverified landlords can have at most % listings. Verify your identity to add more', v_unverified_limit;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.price IS DISTINCT FROM OLD.price THEN
+    IF NEW.price < v_min OR NEW.price > v_max THEN
+      RAISE EXCEPTION 'Price must be between % and %', v_min, v_max;
+    END IF;
+  END IF;
+
+  IF COALESCE(array_length(NEW.photo_urls, 1), 0) > v_max_images THEN
+    RAISE EXCEPTION 'Listings can have at most % images', v_max_images;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.approved_at := NULL;
+    NEW.status := CASE
+      WHEN v_threshold IS NOT NULL AND public.listing_quality_score(NEW) >= v_threshold THEN 'active'
+      ELSE 'pending'
+    END;
+  ELSE
+    -- Only review or auto-approval can approve a listing
+    NEW.approved_at := OLD.approved_at;
+
+    IF OLD.approved_at IS NULL
+      AND NEW.status IS DISTINCT FROM OLD.status
+      AND NEW.status NOT IN ('pending', 'archived')
+      AND NOT public.has_permission('listings.review')
+      AND NOT (
+        NEW.status = 'active'
+        AND v_threshold IS NOT NULL
+        AND public.listing_quality_score(NEW) >= v_threshold
+      ) THEN
+      IF NEW.status = 'active' THEN
+        RAISE EXCEPTION 'This listing must be approved by an admin before it goes live';
+      END IF;
+      RAISE EXCEPTION 'This listing can''t change status until it has been approved';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'active' AND NEW.approved_at IS NULL THEN
+    NEW.approved_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Listing reviewers approve or reject pending listings; other edits need listings.manage.
+-- approved_at, updated_at and average_rating are kept up to date by triggers
+CREATE OR REPLACE FUNCTION public.restrict_listing_review_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR OLD.landlord_id = auth.uid()
+    OR public.has_permission('listings.manage') THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - ARRAY['status', 'approved_at', 'updated_at', 'average_rating']
+     IS DISTINCT FROM to_jsonb(OLD) - ARRAY['status', 'approved_at', 'updated_at', 'average_rating'] THEN
+    RAISE EXCEPTION 'Listing reviewers can only change a listing''s status';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND (OLD.status <> 'pending' OR NEW.status NOT IN ('active', 'inactive')) THEN
+    RAISE EXCEPTION 'Listing reviewers can only approve or reject listings waiting for review';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restrict_listing_review_updates ON properties;
+CREATE TRIGGER restrict_listing_review_updates
+  BEFORE UPDATE ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_listing_review_updates();
+
+-- Record changes made by staff as well as admins
+CREATE OR REPLACE FUNCTION public.log_admin_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_before jsonb := v_old;
+  v_after jsonb := v_new;
+BEGIN
+  IF auth.uid() IS NULL OR NOT (
+    public.current_user_has_role('admin')
+    OR EXISTS (SELECT 1 FROM user_staff_roles WHERE user_id = auth.uid())
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(k.key, v_old -> k.key), jsonb_object_agg(k.key, v_new -> k.key)
+    INTO v_before, v_after
+    FROM jsonb_object_keys(v_new) AS k(key)
+    WHERE v_new -> k.key IS DISTINCT FROM v_old -> k.key
+      AND k.key NOT IN ('updated_at', 'last_sign_in_at', 'search_vector');
+
+    IF v_after IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO admin_audit_log (actor_id, actor_email, action, target_table, target_id, before, after)
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM profiles WHERE id = auth.uid()),
+    TG_TABLE_NAME || '.' || lower(TG_OP),
+    TG_TABLE_NAME,
+    COALESCE(v_new, v_old) ->> TG_ARGV[0],
+    v_before - 'search_vector',
+    v_after - 'search_vector'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_admin_change ON user_staff_roles;
+CREATE TRIGGER log_admin_change
+  AFTER INSERT OR DELETE ON user_staff_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_admin_change('user_id');
+
+COMMENT ON TABLE permissions IS 'Named permissions checked by has_permission';
+COMMENT ON TABLE staff_roles IS 'Roles that group permissions for staff who are not admins';
+COMMENT ON TABLE user_staff_roles IS 'Staff roles held by each user';
+COMMENT ON FUNCTION has_permission(text) IS 'Whether the current user has a permission; needs an AAL2 (MFA-verified) session';
+COMMENT ON FUNCTION get_my_permissions() IS 'Permissions of the current user, for building the admin navigation';
+COMMENT ON FUNCTION set_user_staff_roles(uuid, text[]) IS 'Replace a user''s staff roles (admin)';
@@ -0,0 +1,59 @@
+-- Run with `supabase test db`
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a002', 'landlord@example.com');
+
+INSERT INTO profiles (id, email, role, full_name) VALUES
+  ('00000000-0000-0000-0000-00000000a002', 'landlord@example.com', 'landlord', 'Landlord');
+
+-- New listings wait for review
+INSERT INTO properties (id, landlord_id, title, description, price) VALUES
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-00000000a002',
+   'Pending flat', 'Waiting for review', 500000),
+  ('00000000-0000-0000-0000-00000000c003', '00000000-0000-0000-0000-00000000a002',
+   'Rejected flat', 'Rejected in review', 500000);
+
+-- A reviewer rejected the second listing
+SET LOCAL session_replication_role = replica;
+UPDATE properties SET status = 'inactive' WHERE id = '00000000-0000-0000-0000-00000000c003';
+SET LOCAL session_replication_role = DEFAULT;
+
+-- Act as the landlord
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a002", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$UPDATE properties SET status = 'inactive' WHERE id = '00000000-0000-0000-0000-00000000c002'$$,
+  'This listing can''t change status until it has been approved',
+  'a pending listing can''t be deactivated on its way to being published'
+);
+
+UPDATE properties SET approved_at = now() WHERE id = '00000000-0000-0000-0000-00000000c002';
+SELECT is(
+  (SELECT approved_at FROM properties WHERE id = '00000000-0000-0000-0000-00000000c002'),
+  NULL,
+  'landlords can''t approve their own listing'
+);
+
+SELECT throws_ok(
+  $$UPDATE properties SET status = 'active' WHERE id = '00000000-0000-0000-0000-00000000c003'$$,
+  'This listing must be approved by an admin before it goes live',
+  'a rejected listing can''t be reactivated'
+);
+
+SELECT lives_ok(
+  $$UPDATE properties SET status = 'archived' WHERE id = '00000000-0000-0000-0000-00000000c003'$$,
+  'a rejected listing can still be archived'
+);
+
+SELECT is(
+  (SELECT status FROM properties WHERE id = '00000000-0000-0000-0000-00000000c002'),
+  'pending',
+  'the pending listing is still waiting for review'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
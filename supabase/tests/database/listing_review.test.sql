@@ -0,0 +1,49 @@
+-- Run with `supabase test db`
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a003', 'landlord@example.com'),
+  ('00000000-0000-0000-0000-00000000e001', 'moderator@example.com');
+
+INSERT INTO profiles (id, email, role, full_name) VALUES
+  ('00000000-0000-0000-0000-00000000a003', 'landlord@example.com', 'landlord', 'Landlord'),
+  ('00000000-0000-0000-0000-00000000e001', 'moderator@example.com', 'renter', 'Moderator');
+
+INSERT INTO user_staff_roles (user_id, role_key) VALUES
+  ('00000000-0000-0000-0000-00000000e001', 'moderator');
+
+INSERT INTO properties (id, landlord_id, title, description, price) VALUES
+  ('00000000-0000-0000-0000-00000000c004', '00000000-0000-0000-0000-00000000a003',
+   'Pending flat', 'Waiting for review', 500000),
+  ('00000000-0000-0000-0000-00000000c005', '00000000-0000-0000-0000-00000000a003',
+   'Live flat', 'Already approved', 500000);
+
+SET LOCAL session_replication_role = replica;
+UPDATE properties SET status = 'active', approved_at = now() WHERE id = '00000000-0000-0000-0000-00000000c005';
+SET LOCAL session_replication_role = DEFAULT;
+
+-- Act as the moderator with a verified second factor
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000e001", "role": "authenticated", "aal": "aal2"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$UPDATE properties SET status = 'active' WHERE id = '00000000-0000-0000-0000-00000000c004'$$,
+  'a reviewer can approve a pending listing'
+);
+
+SELECT throws_ok(
+  $$UPDATE properties SET status = 'archived' WHERE id = '00000000-0000-0000-0000-00000000c005'$$,
+  'Listing reviewers can only approve or reject listings waiting for review',
+  'a reviewer can''t archive a live listing'
+);
+
+SELECT throws_ok(
+  $$UPDATE properties SET status = 'pending' WHERE id = '00000000-0000-0000-0000-00000000c005'$$,
+  'Listing reviewers can only approve or reject listings waiting for review',
+  'a reviewer can''t send a live listing back to review'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,59 @@
+-- Run with `supabase test db`
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a001', 'landlord@example.com'),
+  ('00000000-0000-0000-0000-00000000b001', 'renter@example.com');
+
+INSERT INTO profiles (id, email, role, full_name) VALUES
+  ('00000000-0000-0000-0000-00000000a001', 'landlord@example.com', 'landlord', 'Landlord'),
+  ('00000000-0000-0000-0000-00000000b001', 'renter@example.com', 'renter', 'Renter');
+
+INSERT INTO properties (id, landlord_id, title, description, price) VALUES
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000a001',
+   'Two bedroom flat', 'Two bedroom flat in Yaba', 500000);
+
+INSERT INTO rental_applications (id, property_id, renter_id, full_name, email, status, rent_amount) VALUES
+  ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000c001',
+   '00000000-0000-0000-0000-00000000b001', 'Renter', 'renter@example.com', 'application_approved', 500000);
+
+-- The renter retried checkout: the first intent was cancelled, the second one paid
+INSERT INTO payment_intents (application_id, property_id, renter_id, provider, reference, amount, status) VALUES
+  ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000c001',
+   '00000000-0000-0000-0000-00000000b001', 'mock', 'LNA-first', 500000, 'cancelled'),
+  ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000c001',
+   '00000000-0000-0000-0000-00000000b001', 'mock', 'LNA-retry', 500000, 'pending');
+
+SELECT confirm_payment_intent('LNA-retry', 500000, 'NGN');
+
+-- A late webhook then confirms the cancelled intent
+SELECT is(
+  (confirm_payment_intent('LNA-first', 500000, 'NGN', 'provider-1')).status,
+  'refund_required'::payment_intent_status,
+  'a late charge on an already paid application is held for refund'
+);
+
+SELECT is(
+  (confirm_payment_intent('LNA-first', 500000, 'NGN', 'provider-1')).status,
+  'refund_required'::payment_intent_status,
+  'confirming it again leaves it held for refund'
+);
+
+SELECT is(
+  (SELECT count(*) FROM property_transactions
+   WHERE application_id = '00000000-0000-0000-0000-00000000d001' AND transaction_type = 'rent_payment'),
+  1::bigint,
+  'only the first successful charge is recorded as rent'
+);
+
+SELECT is(
+  (SELECT count(*) FROM notifications
+   WHERE user_id = '00000000-0000-0000-0000-00000000a001' AND type = 'payment_received'),
+  1::bigint,
+  'the landlord is told about the payment once'
+);
+
+SELECT * FROM finish();
+ROLLBACK;